@@ -5,7 +5,7 @@
 import { describe, it, expect } from "vitest";
 import { applyAiOpsToProject, type AiOp } from "./ai-batch-service";
 import { createProject, createScenario, createActivity, addActivityToScenario } from "./project-service";
-import { buildRenderList } from "@ui/helpers/band-utils";
+import { buildRenderList, renderItemId } from "@ui/helpers/band-utils";
 import type { Project, Scenario, SimulationRun, ActivityBand } from "@domain/models/types";
 
 // ---------------------------------------------------------------------------
@@ -195,7 +195,7 @@ describe("reorder_activities — bands follow their anchor", () => {
 
     const render = buildRenderList(scenario.activities, scenario.bands ?? []);
     const shape = render.map((item) =>
-      item.kind === "band" ? `band:${item.band.id}` : `act:${item.activity.id}`,
+      item.kind === "band" ? `band:${item.band.id}` : `act:${renderItemId(item)}`,
     );
     // New activity order c,b,a → band1 renders immediately before b; band2 trails.
     expect(shape).toEqual(["act:c", "band:band1", "act:b", "act:a", "band:band2"]);
@@ -137,13 +137,17 @@ export function classifyAndComputeScenario(
           scenario.startDate,
           percentile,
           workCalendar,
-          scenario.milestones
+          scenario.milestones,
+          undefined,
+          scenario.statusDate
         )
       : computeDeterministicSchedule(
           scenario.activities,
           scenario.startDate,
           percentile,
-          workCalendar
+          workCalendar,
+          undefined,
+          scenario.statusDate
         );
     return { scheduleStatus: "ok", schedule };
   } catch (err) {
@@ -0,0 +1,122 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  BASELINES_MAX,
+  type Scenario,
+  type ScenarioBaseline,
+  type SimulationRun,
+} from "@domain/models/types";
+import { captureBaseline, renameBaseline, removeBaseline, setActiveBaseline } from "./baseline-service";
+
+function makeBaseline(id: string): ScenarioBaseline {
+  return {
+    id,
+    name: id,
+    capturedAt: "2026-01-02T09:00:00.000Z",
+    projectEndDate: "2026-01-09",
+    spanDays: 5,
+    activities: [],
+    milestones: [],
+  };
+}
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2026-01-05",
+    activities: [],
+    dependencies: [],
+    milestones: [],
+    settings: {
+      defaultConfidenceLevel: "mediumConfidence",
+      defaultDistributionType: "triangular",
+      trialCount: 50000,
+      rngSeed: "seed",
+      probabilityTarget: 0.5,
+      projectProbabilityTarget: 0.95,
+      heuristicEnabled: false,
+      heuristicMinPercent: 75,
+      heuristicMaxPercent: 200,
+      dependencyMode: false,
+      parkinsonsLawEnabled: true,
+    },
+    baselines: [makeBaseline("b1"), makeBaseline("b2")],
+    activeBaselineId: "b1",
+    simulationResults: { id: "sim1" } as SimulationRun,
+    ...overrides,
+  };
+}
+
+describe("captureBaseline", () => {
+  it("appends the baseline, activates it and keeps the simulation results", () => {
+    const result = captureBaseline(makeScenario(), makeBaseline("b3"));
+    expect(result.baselines!.map((b) => b.id)).toEqual(["b1", "b2", "b3"]);
+    expect(result.activeBaselineId).toBe("b3");
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("starts the list on a scenario without one", () => {
+    const result = captureBaseline(makeScenario({ baselines: undefined, activeBaselineId: undefined }), makeBaseline("b1"));
+    expect(result.baselines).toHaveLength(1);
+    expect(result.activeBaselineId).toBe("b1");
+  });
+
+  it("refuses a full list or a duplicate id (ref-equal)", () => {
+    const full = makeScenario({
+      baselines: Array.from({ length: BASELINES_MAX }, (_, i) => makeBaseline(`b${i}`)),
+    });
+    expect(captureBaseline(full, makeBaseline("new"))).toBe(full);
+    const scenario = makeScenario();
+    expect(captureBaseline(scenario, makeBaseline("b2"))).toBe(scenario);
+  });
+});
+
+describe("renameBaseline", () => {
+  it("renames without clearing results", () => {
+    const result = renameBaseline(makeScenario(), "b2", "Re-plan");
+    expect(result.baselines![1]!.name).toBe("Re-plan");
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("returns the same reference for an unknown id or an unchanged name", () => {
+    const scenario = makeScenario();
+    expect(renameBaseline(scenario, "missing", "X")).toBe(scenario);
+    expect(renameBaseline(scenario, "b1", "b1")).toBe(scenario);
+  });
+});
+
+describe("removeBaseline", () => {
+  it("falls back to the most recent remaining baseline when the active one goes", () => {
+    const result = removeBaseline(makeScenario({ baselines: [makeBaseline("b1"), makeBaseline("b2"), makeBaseline("b3")] }), "b1");
+    expect(result.baselines!.map((b) => b.id)).toEqual(["b2", "b3"]);
+    expect(result.activeBaselineId).toBe("b3");
+  });
+
+  it("keeps the active baseline when another goes, and clears it with the last one", () => {
+    expect(removeBaseline(makeScenario(), "b2").activeBaselineId).toBe("b1");
+    const single = makeScenario({ baselines: [makeBaseline("b1")] });
+    expect(removeBaseline(single, "b1").activeBaselineId).toBeUndefined();
+  });
+
+  it("returns the same reference when the id is not found", () => {
+    const scenario = makeScenario();
+    expect(removeBaseline(scenario, "missing")).toBe(scenario);
+  });
+});
+
+describe("setActiveBaseline", () => {
+  it("switches and clears the active baseline", () => {
+    expect(setActiveBaseline(makeScenario(), "b2").activeBaselineId).toBe("b2");
+    expect(setActiveBaseline(makeScenario(), undefined).activeBaselineId).toBeUndefined();
+  });
+
+  it("returns the same reference for an unknown id or no change", () => {
+    const scenario = makeScenario();
+    expect(setActiveBaseline(scenario, "missing")).toBe(scenario);
+    expect(setActiveBaseline(scenario, "b1")).toBe(scenario);
+  });
+});
@@ -0,0 +1,54 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { BASELINES_MAX, type Scenario, type ScenarioBaseline } from "@domain/models/types";
+
+/**
+ * Baselines live on the SCENARIO and are display only: they record the plan, they do not
+ * feed it, so nothing here clears the simulation results. The snapshot itself is taken by
+ * `snapshotBaseline` (core/schedule/baseline.ts) from the schedule the caller is showing.
+ */
+
+/**
+ * Add a captured baseline and make it the active one. Refused (ref-equal) once the
+ * scenario holds BASELINES_MAX — the user removes an old one first.
+ */
+export function captureBaseline(scenario: Scenario, baseline: ScenarioBaseline): Scenario {
+  const baselines = scenario.baselines ?? [];
+  if (baselines.length >= BASELINES_MAX) return scenario;
+  if (baselines.some((b) => b.id === baseline.id)) return scenario;
+  return { ...scenario, baselines: [...baselines, baseline], activeBaselineId: baseline.id };
+}
+
+export function renameBaseline(scenario: Scenario, baselineId: string, name: string): Scenario {
+  const baselines = scenario.baselines ?? [];
+  const baseline = baselines.find((b) => b.id === baselineId);
+  if (!baseline || baseline.name === name) return scenario; // ref-equal
+  return {
+    ...scenario,
+    baselines: baselines.map((b) => (b.id === baselineId ? { ...b, name } : b)),
+  };
+}
+
+/**
+ * Remove a baseline. When it was the active one, variance falls back to the most recent
+ * remaining baseline — the one the user is most likely still tracking — or to none.
+ */
+export function removeBaseline(scenario: Scenario, baselineId: string): Scenario {
+  const baselines = scenario.baselines ?? [];
+  if (!baselines.some((b) => b.id === baselineId)) return scenario; // ref-equal
+  const remaining = baselines.filter((b) => b.id !== baselineId);
+  const activeBaselineId =
+    scenario.activeBaselineId === baselineId ? remaining.at(-1)?.id : scenario.activeBaselineId;
+  return { ...scenario, baselines: remaining, activeBaselineId };
+}
+
+/** Report variance against a baseline, or against none with `undefined`. */
+export function setActiveBaseline(scenario: Scenario, baselineId: string | undefined): Scenario {
+  if (scenario.activeBaselineId === baselineId) return scenario;
+  if (baselineId !== undefined && !scenario.baselines?.some((b) => b.id === baselineId)) {
+    return scenario;
+  }
+  return { ...scenario, activeBaselineId: baselineId };
+}
@@ -0,0 +1,214 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, ExclusiveBranch, Scenario, SimulationRun } from "@domain/models/types";
+import { BRANCH_PATHS_MAX, BRANCHES_MAX } from "@domain/models/types";
+import {
+  setActivityOccurrence,
+  addBranch,
+  renameBranch,
+  removeBranch,
+  addBranchPath,
+  updateBranchPath,
+  removeBranchPath,
+  setActivityBranchPath,
+  pruneBranchActivities,
+} from "./branch-service";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 1,
+    mostLikely: 2,
+    max: 3,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+const PERMIT: ExclusiveBranch = {
+  id: "b1",
+  name: "Permit",
+  paths: [
+    { id: "p1", name: "Approved", probability: 0.7, activityIds: ["a1"] },
+    { id: "p2", name: "Appealed", probability: 0.3, activityIds: ["a2"] },
+  ],
+};
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2025-01-01",
+    activities: [makeActivity("a1"), makeActivity("a2"), makeActivity("a3", { occurrenceProbability: 0.4 })],
+    dependencies: [],
+    milestones: [],
+    settings: {
+      defaultConfidenceLevel: "mediumConfidence",
+      defaultDistributionType: "triangular",
+      trialCount: 50000,
+      rngSeed: "seed",
+      probabilityTarget: 0.5,
+      projectProbabilityTarget: 0.95,
+      heuristicEnabled: false,
+      heuristicMinPercent: 75,
+      heuristicMaxPercent: 200,
+      dependencyMode: false,
+      parkinsonsLawEnabled: true,
+    },
+    branches: [PERMIT],
+    simulationResults: { id: "sim1" } as SimulationRun,
+    ...overrides,
+  };
+}
+
+describe("setActivityOccurrence", () => {
+  it("sets a clamped probability and clears the results", () => {
+    const result = setActivityOccurrence(makeScenario(), "a1", 1.5);
+    expect(result.activities[0]!.occurrenceProbability).toBe(0.99);
+    expect(setActivityOccurrence(makeScenario(), "a1", 0).activities[0]!.occurrenceProbability).toBe(0.01);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("removes the field with null", () => {
+    const result = setActivityOccurrence(makeScenario(), "a3", null);
+    expect("occurrenceProbability" in result.activities[2]!).toBe(false);
+  });
+
+  it("returns the same reference for no change, an unknown activity or a non-number", () => {
+    const scenario = makeScenario();
+    expect(setActivityOccurrence(scenario, "a3", 0.4)).toBe(scenario);
+    expect(setActivityOccurrence(scenario, "a1", null)).toBe(scenario);
+    expect(setActivityOccurrence(scenario, "missing", 0.5)).toBe(scenario);
+    expect(setActivityOccurrence(scenario, "a1", NaN)).toBe(scenario);
+  });
+});
+
+describe("addBranch / renameBranch / removeBranch", () => {
+  it("adds a branch with two empty, even paths and keeps the results", () => {
+    const result = addBranch(makeScenario(), "Vendor", "b2");
+    const branch = result.branches!.at(-1)!;
+    expect(branch.id).toBe("b2");
+    expect(branch.paths.map((p) => [p.name, p.probability, p.activityIds])).toEqual([
+      ["Path 1", 0.5, []],
+      ["Path 2", 0.5, []],
+    ]);
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("refuses a branch past BRANCHES_MAX", () => {
+    const branches = Array.from({ length: BRANCHES_MAX }, (_, i) => ({ ...PERMIT, id: `b${i}` }));
+    const scenario = makeScenario({ branches });
+    expect(addBranch(scenario, "One more")).toBe(scenario);
+  });
+
+  it("renames without clearing the results", () => {
+    const scenario = makeScenario();
+    const result = renameBranch(scenario, "b1", "Building permit");
+    expect(result.branches![0]!.name).toBe("Building permit");
+    expect(result.simulationResults).toBeDefined();
+    expect(renameBranch(scenario, "b1", "Permit")).toBe(scenario);
+    expect(renameBranch(scenario, "missing", "x")).toBe(scenario);
+  });
+
+  it("removes a branch and clears the results", () => {
+    const scenario = makeScenario();
+    const result = removeBranch(scenario, "b1");
+    expect(result.branches).toEqual([]);
+    expect(result.simulationResults).toBeUndefined();
+    expect(removeBranch(scenario, "missing")).toBe(scenario);
+  });
+});
+
+describe("branch paths", () => {
+  it("adds a path and clears the results, up to BRANCH_PATHS_MAX", () => {
+    const result = addBranchPath(makeScenario(), "b1", "Denied", 0.1, "p3");
+    expect(result.branches![0]!.paths.at(-1)).toEqual({ id: "p3", name: "Denied", probability: 0.1, activityIds: [] });
+    expect(result.simulationResults).toBeUndefined();
+
+    const paths = Array.from({ length: BRANCH_PATHS_MAX }, (_, i) => ({ ...PERMIT.paths[0]!, id: `p${i}` }));
+    const full = makeScenario({ branches: [{ ...PERMIT, paths }] });
+    expect(addBranchPath(full, "b1", "One more", 0.1)).toBe(full);
+    expect(addBranchPath(makeScenario(), "b1", "Zero", 0)).toEqual(makeScenario());
+  });
+
+  it("renames a path keeping the results, and re-weights it clearing them", () => {
+    const renamed = updateBranchPath(makeScenario(), "b1", "p1", { name: "Granted" });
+    expect(renamed.branches![0]!.paths[0]!.name).toBe("Granted");
+    expect(renamed.simulationResults).toBeDefined();
+
+    const weighted = updateBranchPath(makeScenario(), "b1", "p2", { probability: 0.5 });
+    expect(weighted.branches![0]!.paths[1]!.probability).toBe(0.5);
+    expect(weighted.simulationResults).toBeUndefined();
+  });
+
+  it("refuses a weight of zero or less, and no-op updates", () => {
+    const scenario = makeScenario();
+    expect(updateBranchPath(scenario, "b1", "p1", { probability: 0 })).toBe(scenario);
+    expect(updateBranchPath(scenario, "b1", "p1", { probability: -1 })).toBe(scenario);
+    expect(updateBranchPath(scenario, "b1", "p1", { name: "Approved" })).toBe(scenario);
+    expect(updateBranchPath(scenario, "b1", "missing", { name: "x" })).toBe(scenario);
+  });
+
+  it("removes a path but keeps at least two", () => {
+    const scenario = makeScenario();
+    expect(removeBranchPath(scenario, "b1", "p1")).toBe(scenario);
+    const three = addBranchPath(scenario, "b1", "Denied", 0.1, "p3");
+    const result = removeBranchPath(three, "b1", "p1");
+    expect(result.branches![0]!.paths.map((p) => p.id)).toEqual(["p2", "p3"]);
+  });
+});
+
+describe("setActivityBranchPath", () => {
+  it("puts an activity on a path and clears the results", () => {
+    const result = setActivityBranchPath(makeScenario(), "a3", { branchId: "b1", pathId: "p1" });
+    expect(result.branches![0]!.paths[0]!.activityIds).toEqual(["a1", "a3"]);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("moves an activity between paths, since membership is exclusive", () => {
+    const other: ExclusiveBranch = {
+      id: "b2",
+      name: "Vendor",
+      paths: [
+        { id: "q1", name: "On time", probability: 1, activityIds: [] },
+        { id: "q2", name: "Late", probability: 1, activityIds: [] },
+      ],
+    };
+    const scenario = makeScenario({ branches: [PERMIT, other] });
+    const moved = setActivityBranchPath(scenario, "a1", { branchId: "b2", pathId: "q2" });
+    expect(moved.branches![0]!.paths[0]!.activityIds).toEqual([]);
+    expect(moved.branches![1]!.paths[1]!.activityIds).toEqual(["a1"]);
+  });
+
+  it("takes an activity off its path with null", () => {
+    const result = setActivityBranchPath(makeScenario(), "a2", null);
+    expect(result.branches![0]!.paths[1]!.activityIds).toEqual([]);
+  });
+
+  it("returns the same reference for no change or unknown ids", () => {
+    const scenario = makeScenario();
+    expect(setActivityBranchPath(scenario, "a1", { branchId: "b1", pathId: "p1" })).toBe(scenario);
+    expect(setActivityBranchPath(scenario, "a3", null)).toBe(scenario);
+    expect(setActivityBranchPath(scenario, "missing", null)).toBe(scenario);
+    expect(setActivityBranchPath(scenario, "a3", { branchId: "b1", pathId: "missing" })).toBe(scenario);
+  });
+});
+
+describe("pruneBranchActivities", () => {
+  it("drops removed activities and keeps the emptied path", () => {
+    const pruned = pruneBranchActivities([PERMIT], new Set(["a2"]))!;
+    expect(pruned[0]!.paths.map((p) => p.activityIds)).toEqual([["a1"], []]);
+  });
+
+  it("returns the same array when no path held a removed activity", () => {
+    const branches = [PERMIT];
+    expect(pruneBranchActivities(branches, new Set(["a3"]))).toBe(branches);
+    expect(pruneBranchActivities(undefined, new Set(["a1"]))).toBeUndefined();
+  });
+});
@@ -0,0 +1,202 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  BRANCH_PATHS_MAX,
+  BRANCHES_MAX,
+  type BranchPath,
+  type ExclusiveBranch,
+  type Scenario,
+} from "@domain/models/types";
+import { generateId } from "./id";
+
+/**
+ * Conditional work: an activity's occurrence probability, and the exclusive branches of
+ * the scenario. Both feed the simulation (branching.ts), so any change but a rename
+ * clears the results. An activity sits on at most one path of one branch: putting it on
+ * a path takes it off any other.
+ */
+
+/** Bounds an occurrence probability is clamped to; 0 and 1 are "never" and "always". */
+const OCCURRENCE_MIN = 0.01;
+const OCCURRENCE_MAX = 0.99;
+
+function mapBranch(
+  scenario: Scenario,
+  branchId: string,
+  fn: (branch: ExclusiveBranch) => ExclusiveBranch,
+  clearsResults: boolean,
+): Scenario {
+  const branches = scenario.branches ?? [];
+  const branch = branches.find((b) => b.id === branchId);
+  if (!branch) return scenario; // existence guard (ref-equal)
+  const next = fn(branch);
+  if (next === branch) return scenario;
+  return {
+    ...scenario,
+    branches: branches.map((b) => (b.id === branchId ? next : b)),
+    ...(clearsResults ? { simulationResults: undefined } : {}),
+  };
+}
+
+/**
+ * Make an activity conditional on a probability (clamped to 1% – 99%), or always run it
+ * again with `null`.
+ */
+export function setActivityOccurrence(
+  scenario: Scenario,
+  activityId: string,
+  probability: number | null
+): Scenario {
+  const activity = scenario.activities.find((a) => a.id === activityId);
+  if (!activity || (probability !== null && !Number.isFinite(probability))) return scenario;
+  const next = probability === null ? undefined : Math.min(Math.max(probability, OCCURRENCE_MIN), OCCURRENCE_MAX);
+  if (activity.occurrenceProbability === next) return scenario; // value-equality (ref-equal)
+  return {
+    ...scenario,
+    activities: scenario.activities.map((a) => {
+      if (a.id !== activityId) return a;
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      const { occurrenceProbability: _occurrence, ...rest } = a; // NOSONAR — intentional destructuring discard
+      return next === undefined ? rest : { ...rest, occurrenceProbability: next };
+    }),
+    simulationResults: undefined,
+  };
+}
+
+/**
+ * Add a branch with two empty, equally likely paths. Refused (ref-equal) once the
+ * scenario holds BRANCHES_MAX.
+ */
+export function addBranch(scenario: Scenario, name: string, id: string = generateId()): Scenario {
+  const branches = scenario.branches ?? [];
+  if (branches.length >= BRANCHES_MAX) return scenario;
+  const branch: ExclusiveBranch = {
+    id,
+    name,
+    paths: [
+      { id: generateId(), name: "Path 1", probability: 0.5, activityIds: [] },
+      { id: generateId(), name: "Path 2", probability: 0.5, activityIds: [] },
+    ],
+  };
+  // Both paths are empty, so nothing is skipped yet and the results stay.
+  return { ...scenario, branches: [...branches, branch] };
+}
+
+export function renameBranch(scenario: Scenario, branchId: string, name: string): Scenario {
+  return mapBranch(scenario, branchId, (b) => (b.name === name ? b : { ...b, name }), false);
+}
+
+export function removeBranch(scenario: Scenario, branchId: string): Scenario {
+  const branches = scenario.branches ?? [];
+  if (!branches.some((b) => b.id === branchId)) return scenario; // same reference, no change
+  return { ...scenario, branches: branches.filter((b) => b.id !== branchId), simulationResults: undefined };
+}
+
+/**
+ * Add an empty path with the given weight (> 0). Refused (ref-equal) at BRANCH_PATHS_MAX
+ * paths. It changes how often the other paths are taken, so the results are cleared.
+ */
+export function addBranchPath(
+  scenario: Scenario,
+  branchId: string,
+  name: string,
+  probability: number,
+  id: string = generateId()
+): Scenario {
+  if (!Number.isFinite(probability) || probability <= 0) return scenario;
+  return mapBranch(
+    scenario,
+    branchId,
+    (b) =>
+      b.paths.length >= BRANCH_PATHS_MAX
+        ? b
+        : { ...b, paths: [...b.paths, { id, name, probability, activityIds: [] }] },
+    true,
+  );
+}
+
+/** Rename a path or change its weight. A weight of 0 or less is refused (ref-equal). */
+export function updateBranchPath(
+  scenario: Scenario,
+  branchId: string,
+  pathId: string,
+  updates: Partial<Pick<BranchPath, "name" | "probability">>
+): Scenario {
+  if (updates.probability !== undefined && (!Number.isFinite(updates.probability) || updates.probability <= 0)) {
+    return scenario;
+  }
+  const branch = scenario.branches?.find((b) => b.id === branchId);
+  const path = branch?.paths.find((p) => p.id === pathId);
+  if (!path) return scenario;
+  const next = { ...path, ...updates };
+  if (next.name === path.name && next.probability === path.probability) return scenario;
+  return mapBranch(
+    scenario,
+    branchId,
+    (b) => ({ ...b, paths: b.paths.map((p) => (p.id === pathId ? next : p)) }),
+    next.probability !== path.probability,
+  );
+}
+
+/** Remove a path; a branch keeps at least two, so removing from two is refused (ref-equal). */
+export function removeBranchPath(scenario: Scenario, branchId: string, pathId: string): Scenario {
+  return mapBranch(
+    scenario,
+    branchId,
+    (b) =>
+      b.paths.length <= 2 || !b.paths.some((p) => p.id === pathId)
+        ? b
+        : { ...b, paths: b.paths.filter((p) => p.id !== pathId) },
+    true,
+  );
+}
+
+/** Put an activity on a branch path, or on none with `null`. */
+export function setActivityBranchPath(
+  scenario: Scenario,
+  activityId: string,
+  target: { branchId: string; pathId: string } | null
+): Scenario {
+  if (!scenario.activities.some((a) => a.id === activityId)) return scenario;
+  const branches = scenario.branches ?? [];
+  if (target && !branches.some((b) => b.id === target.branchId && b.paths.some((p) => p.id === target.pathId))) {
+    return scenario;
+  }
+  const current = branches
+    .flatMap((b) => b.paths.map((p) => ({ branchId: b.id, pathId: p.id, p })))
+    .find(({ p }) => p.activityIds.includes(activityId));
+  if (current?.pathId === target?.pathId && current?.branchId === target?.branchId) return scenario; // ref-equal
+  return {
+    ...scenario,
+    branches: branches.map((b) => ({
+      ...b,
+      paths: b.paths.map((p) => {
+        if (b.id === target?.branchId && p.id === target.pathId) {
+          return { ...p, activityIds: [...p.activityIds, activityId] };
+        }
+        if (p === current?.p) return { ...p, activityIds: p.activityIds.filter((id) => id !== activityId) };
+        return p;
+      }),
+    })),
+    simulationResults: undefined,
+  };
+}
+
+/**
+ * Drop removed activities from every path (see pruneCorrelationGroups); returns the same
+ * array when no path held any of them. Emptied paths stay — "nothing happens" is a path.
+ */
+export function pruneBranchActivities(
+  branches: ExclusiveBranch[] | undefined,
+  removedIds: Set<string>
+): ExclusiveBranch[] | undefined {
+  if (!branches || !branches.some((b) => b.paths.some((p) => p.activityIds.some((id) => removedIds.has(id))))) {
+    return branches;
+  }
+  return branches.map((b) => ({
+    ...b,
+    paths: b.paths.map((p) => ({ ...p, activityIds: p.activityIds.filter((id) => !removedIds.has(id)) })),
+  }));
+}
@@ -0,0 +1,69 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Project, SimulationRun } from "@domain/models/types";
+import { addCalendar, updateCalendar, removeCalendar } from "./calendar-service";
+import { createProject, createActivity, addActivityToScenario, createScenario } from "./project-service";
+
+/** Two scenarios: the first has an activity on calendar c1, the second has none. */
+function makeProject(): Project {
+  const base = addCalendar(createProject("P", "2025-01-06"), "Vendor", [0, 1, 2, 3, 4, 5, 6], "c1");
+  const user = base.scenarios[0]!;
+  const activity = { ...createActivity("Task", user.settings), calendarId: "c1" };
+  const idle = createScenario("Idle", "2025-01-06");
+  return {
+    ...base,
+    scenarios: [
+      { ...addActivityToScenario(user, activity), simulationResults: { id: "s1" } as SimulationRun },
+      { ...idle, simulationResults: { id: "s2" } as SimulationRun },
+    ],
+  };
+}
+
+describe("addCalendar", () => {
+  it("appends a Mon–Fri calendar by default, creating the list on first use", () => {
+    const project = addCalendar(createProject("P", "2025-01-06"), "Office");
+    expect(project.calendars).toHaveLength(1);
+    expect(project.calendars![0]).toMatchObject({ name: "Office", workDays: [1, 2, 3, 4, 5], holidays: [] });
+    expect(project.calendars![0]!.id).toBeTruthy();
+  });
+});
+
+describe("updateCalendar", () => {
+  it("returns the same project for an unknown id or an unchanged value", () => {
+    const project = makeProject();
+    expect(updateCalendar(project, "nope", { name: "X" })).toBe(project);
+    expect(updateCalendar(project, "c1", { name: "Vendor" })).toBe(project);
+  });
+
+  it("renames without touching simulation results", () => {
+    const project = makeProject();
+    const updated = updateCalendar(project, "c1", { name: "Supplier" });
+    expect(updated.calendars![0]!.name).toBe("Supplier");
+    expect(updated.scenarios).toBe(project.scenarios);
+  });
+
+  it("invalidates only the scenarios using the calendar on a work-week change", () => {
+    const updated = updateCalendar(makeProject(), "c1", { workDays: [1, 2, 3, 4, 5, 6] });
+    expect(updated.calendars![0]!.workDays).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(updated.scenarios[0]!.simulationResults).toBeUndefined();
+    expect(updated.scenarios[1]!.simulationResults).toBeDefined();
+  });
+});
+
+describe("removeCalendar", () => {
+  it("returns the same project for an unknown id", () => {
+    const project = makeProject();
+    expect(removeCalendar(project, "nope")).toBe(project);
+  });
+
+  it("moves its activities back to the project calendar and invalidates their scenarios", () => {
+    const updated = removeCalendar(makeProject(), "c1");
+    expect(updated.calendars).toEqual([]);
+    expect(updated.scenarios[0]!.activities[0]!.calendarId).toBeUndefined();
+    expect(updated.scenarios[0]!.simulationResults).toBeUndefined();
+    expect(updated.scenarios[1]!.simulationResults).toBeDefined();
+  });
+});
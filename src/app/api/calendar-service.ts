@@ -0,0 +1,68 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { NamedCalendar, Project, Scenario } from "@domain/models/types";
+import { generateId } from "./id";
+
+/**
+ * Named calendars live on the PROJECT, like the resource pool: a vendor's working week
+ * is the same in every what-if. A calendar change invalidates the simulation results of
+ * each scenario with an activity on it, and leaves every other scenario's results alone.
+ */
+function invalidateUsers(project: Project, calendarId: string): Scenario[] {
+  return project.scenarios.map((s) =>
+    s.activities.some((a) => a.calendarId === calendarId)
+      ? { ...s, simulationResults: undefined }
+      : s
+  );
+}
+
+export function addCalendar(
+  project: Project,
+  name: string,
+  workDays: number[] = [1, 2, 3, 4, 5],
+  id: string = generateId()
+): Project {
+  const calendar: NamedCalendar = { id, name, workDays: [...workDays], holidays: [] };
+  return { ...project, calendars: [...(project.calendars ?? []), calendar] };
+}
+
+export function updateCalendar(
+  project: Project,
+  calendarId: string,
+  updates: Partial<Omit<NamedCalendar, "id">>
+): Project {
+  const calendar = project.calendars?.find((c) => c.id === calendarId);
+  if (!calendar) return project; // existence guard (ref-equal)
+  // Value-equality: every provided field already matches → no-op (ref-equal).
+  const keys = Object.keys(updates) as Array<keyof Omit<NamedCalendar, "id">>;
+  if (keys.every((k) => updates[k] === calendar[k])) return project;
+  return {
+    ...project,
+    calendars: project.calendars!.map((c) => (c.id === calendarId ? { ...c, ...updates } : c)),
+    // A rename changes no schedule; the work week and holidays do.
+    scenarios:
+      updates.workDays !== undefined || updates.holidays !== undefined
+        ? invalidateUsers(project, calendarId)
+        : project.scenarios,
+  };
+}
+
+/**
+ * Remove a calendar and move every activity on it back to the project calendar, in every
+ * scenario — locked ones included, as with the resource pool.
+ */
+export function removeCalendar(project: Project, calendarId: string): Project {
+  if (!project.calendars?.some((c) => c.id === calendarId)) return project;
+  return {
+    ...project,
+    calendars: project.calendars.filter((c) => c.id !== calendarId),
+    scenarios: invalidateUsers(project, calendarId).map((s) => ({
+      ...s,
+      activities: s.activities.map((a) =>
+        a.calendarId === calendarId ? { ...a, calendarId: undefined } : a
+      ),
+    })),
+  };
+}
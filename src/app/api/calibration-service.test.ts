@@ -0,0 +1,73 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SCENARIO_SETTINGS, type Activity, type Scenario } from "@domain/models/types";
+import { applyCalibration } from "./calibration-service";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 8,
+    mostLikely: 10,
+    max: 14,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function makeScenario(activities: Activity[]): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2026-03-02",
+    activities,
+    dependencies: [],
+    milestones: [],
+    settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+  };
+}
+
+describe("applyCalibration", () => {
+  const done = makeActivity("done", { status: "complete", actualDuration: 13 });
+  const started = makeActivity("started", { status: "inProgress" });
+
+  it("adjusts only the planned activities", () => {
+    const scenario = applyCalibration(makeScenario([done, started, makeActivity("next")]), {
+      kind: "multiplier",
+      multiplier: 1.25,
+    });
+    expect(scenario.activities[0]).toBe(done);
+    expect(scenario.activities[1]).toBe(started);
+    expect(scenario.activities[2]).toMatchObject({ min: 10, mostLikely: 12.5, max: 17.5 });
+  });
+
+  it("records a multiplier it applies, with the actuals it came from", () => {
+    const scenario = makeScenario([done, started, makeActivity("next")]);
+    expect(applyCalibration(scenario, { kind: "multiplier", multiplier: 1.25 }).appliedCalibration).toEqual({
+      multiplier: 1.25,
+      actualCount: 1,
+    });
+    const levelled = applyCalibration(scenario, { kind: "confidenceLevel", confidenceLevel: "lowConfidence" });
+    expect(levelled.appliedCalibration).toBeUndefined();
+  });
+
+  it("sets the confidence level of planned activities", () => {
+    const scenario = applyCalibration(makeScenario([done, makeActivity("next")]), {
+      kind: "confidenceLevel",
+      confidenceLevel: "lowConfidence",
+    });
+    expect(scenario.activities.map((a) => a.confidenceLevel)).toEqual(["mediumConfidence", "lowConfidence"]);
+  });
+
+  it("changes nothing when no planned activity would change (ref-equal)", () => {
+    const scenario = makeScenario([done, makeActivity("next")]);
+    expect(applyCalibration(scenario, { kind: "confidenceLevel", confidenceLevel: "mediumConfidence" })).toBe(scenario);
+    const finished = makeScenario([done]);
+    expect(applyCalibration(finished, { kind: "multiplier", multiplier: 1.25 })).toBe(finished);
+  });
+});
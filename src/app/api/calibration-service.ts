@@ -0,0 +1,39 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Scenario } from "@domain/models/types";
+import {
+  calibrateActivity,
+  computeCalibration,
+  type CalibrationAdjustment,
+} from "@core/estimation/calibration";
+
+/**
+ * Apply a calibration adjustment (calibration.ts) to the scenario's remaining PLANNED
+ * activities. Work under way or done keeps its estimate — the actuals measured it. A
+ * multiplier is recorded as `appliedCalibration`, so it is not offered again for the same
+ * actuals. A changed estimate clears the simulation results; nothing to change is a no-op
+ * (ref-equal).
+ */
+export function applyCalibration(scenario: Scenario, adjustment: CalibrationAdjustment): Scenario {
+  let changed = false;
+  const activities = scenario.activities.map((a) => {
+    if (a.status !== "planned") return a;
+    const calibrated = calibrateActivity(a, adjustment);
+    if (calibrated !== a) changed = true;
+    return calibrated;
+  });
+  if (!changed) return scenario;
+  return {
+    ...scenario,
+    activities,
+    ...(adjustment.kind === "multiplier" && {
+      appliedCalibration: {
+        multiplier: adjustment.multiplier,
+        actualCount: computeCalibration(scenario.activities).activities.length,
+      },
+    }),
+    simulationResults: undefined,
+  };
+}
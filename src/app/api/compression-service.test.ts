@@ -0,0 +1,62 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SCENARIO_SETTINGS, type Activity, type Scenario } from "@domain/models/types";
+import { applyCompressionProposal } from "./compression-service";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 8,
+    mostLikely: 10,
+    max: 20,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2026-03-02",
+    activities: [makeActivity("a"), makeActivity("b")],
+    dependencies: [{ fromActivityId: "a", toActivityId: "b", type: "FS", lagDays: 1 }],
+    milestones: [],
+    settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+    ...overrides,
+  };
+}
+
+describe("applyCompressionProposal", () => {
+  it("crashes an activity by scaling its estimate down", () => {
+    const scenario = applyCompressionProposal(makeScenario(), { kind: "crash", activityId: "a", days: 2 });
+    expect(scenario.activities[0]).toMatchObject({ min: 6.4, mostLikely: 8, max: 16 });
+    expect(scenario.activities[1]).toEqual(makeActivity("b"));
+  });
+
+  it("fast-tracks a link to start-to-start at a share of the predecessor", () => {
+    const scenario = applyCompressionProposal(makeScenario(), {
+      kind: "fastTrack",
+      fromActivityId: "a",
+      toActivityId: "b",
+      lagPercent: 60,
+    });
+    expect(scenario.dependencies).toEqual([
+      { fromActivityId: "a", toActivityId: "b", type: "SS", lagDays: 0, lagPercent: 60 },
+    ]);
+  });
+
+  it("changes nothing for a proposal naming nothing in the scenario (ref-equal)", () => {
+    const scenario = makeScenario();
+    expect(applyCompressionProposal(scenario, { kind: "crash", activityId: "gone", days: 2 })).toBe(scenario);
+    expect(
+      applyCompressionProposal(scenario, { kind: "fastTrack", fromActivityId: "b", toActivityId: "a", lagPercent: 60 })
+    ).toBe(scenario);
+  });
+});
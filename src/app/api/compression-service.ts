@@ -0,0 +1,39 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Scenario } from "@domain/models/types";
+import {
+  fastTrackDependency,
+  isProposalLink,
+  type CompressionProposal,
+} from "@core/simulation/compression-advisor";
+import { compressActivity } from "@core/simulation/goal-seek";
+
+/**
+ * The scenario with one compression-advisor proposal (compression-advisor.ts) made, IDs
+ * unchanged: a crashed activity's estimate scaled down, or a fast-tracked link made
+ * start-to-start. The advisor's proposals are applied to a clone, never in place — see
+ * the store's `cloneWithCompression`. A proposal naming nothing in the scenario changes
+ * nothing (ref-equal).
+ */
+export function applyCompressionProposal(scenario: Scenario, proposal: CompressionProposal): Scenario {
+  if (proposal.kind === "crash") {
+    if (!scenario.activities.some((a) => a.id === proposal.activityId)) return scenario;
+    return {
+      ...scenario,
+      activities: scenario.activities.map((a) =>
+        a.id === proposal.activityId ? compressActivity(a, proposal.days) : a
+      ),
+      simulationResults: undefined,
+    };
+  }
+  if (!scenario.dependencies.some((d) => isProposalLink(d, proposal))) return scenario;
+  return {
+    ...scenario,
+    dependencies: scenario.dependencies.map((d) =>
+      isProposalLink(d, proposal) ? fastTrackDependency(d, proposal.lagPercent) : d
+    ),
+    simulationResults: undefined,
+  };
+}
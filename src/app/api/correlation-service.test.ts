@@ -0,0 +1,139 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, CorrelationGroup, Scenario, SimulationRun } from "@domain/models/types";
+import { CORRELATION_COEFFICIENT_MAX, CORRELATION_GROUPS_MAX } from "@domain/models/types";
+import {
+  addCorrelationGroup,
+  updateCorrelationGroup,
+  removeCorrelationGroup,
+  setActivityCorrelationGroup,
+  pruneCorrelationGroups,
+} from "./correlation-service";
+
+function makeActivity(id: string): Activity {
+  return {
+    id,
+    name: id,
+    min: 1,
+    mostLikely: 2,
+    max: 3,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+  };
+}
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2025-01-01",
+    activities: [makeActivity("a1"), makeActivity("a2"), makeActivity("a3")],
+    dependencies: [],
+    milestones: [],
+    settings: {
+      defaultConfidenceLevel: "mediumConfidence",
+      defaultDistributionType: "triangular",
+      trialCount: 50000,
+      rngSeed: "seed",
+      probabilityTarget: 0.5,
+      projectProbabilityTarget: 0.95,
+      heuristicEnabled: false,
+      heuristicMinPercent: 75,
+      heuristicMaxPercent: 200,
+      dependencyMode: false,
+      parkinsonsLawEnabled: true,
+    },
+    correlationGroups: [
+      { id: "g1", name: "Team", activityIds: ["a1", "a2"], coefficient: 0.5 },
+      { id: "g2", name: "Vendor", activityIds: [], coefficient: 0.8 },
+    ],
+    simulationResults: { id: "sim1" } as SimulationRun,
+    ...overrides,
+  };
+}
+
+describe("addCorrelationGroup", () => {
+  it("appends an empty group and keeps the simulation results", () => {
+    const result = addCorrelationGroup(makeScenario(), "Design", 0.4, "g3");
+    expect(result.correlationGroups!.at(-1)).toEqual({
+      id: "g3", name: "Design", activityIds: [], coefficient: 0.4,
+    });
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("clamps the coefficient and refuses a group past the limit", () => {
+    expect(addCorrelationGroup(makeScenario(), "X", 1.5, "g3").correlationGroups!.at(-1)!.coefficient)
+      .toBe(CORRELATION_COEFFICIENT_MAX);
+    const full: CorrelationGroup[] = Array.from({ length: CORRELATION_GROUPS_MAX }, (_, i) => ({
+      id: `g${i}`, name: `G${i}`, activityIds: [], coefficient: 0.5,
+    }));
+    const scenario = makeScenario({ correlationGroups: full });
+    expect(addCorrelationGroup(scenario, "One more", 0.5)).toBe(scenario);
+  });
+});
+
+describe("updateCorrelationGroup", () => {
+  it("clears the results for a new coefficient but not for a rename", () => {
+    const scenario = makeScenario();
+    const renamed = updateCorrelationGroup(scenario, "g1", { name: "Platform team" });
+    expect(renamed.correlationGroups![0]!.name).toBe("Platform team");
+    expect(renamed.simulationResults).toBeDefined();
+    const stronger = updateCorrelationGroup(scenario, "g1", { coefficient: 0.8 });
+    expect(stronger.correlationGroups![0]!.coefficient).toBe(0.8);
+    expect(stronger.simulationResults).toBeUndefined();
+  });
+
+  it("is ref-equal for an unknown group or an unchanged value", () => {
+    const scenario = makeScenario();
+    expect(updateCorrelationGroup(scenario, "nope", { name: "X" })).toBe(scenario);
+    expect(updateCorrelationGroup(scenario, "g1", { coefficient: 0.5 })).toBe(scenario);
+  });
+});
+
+describe("removeCorrelationGroup", () => {
+  it("removes the group and clears the results", () => {
+    const result = removeCorrelationGroup(makeScenario(), "g1");
+    expect(result.correlationGroups!.map((g) => g.id)).toEqual(["g2"]);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("is ref-equal for an unknown group", () => {
+    const scenario = makeScenario();
+    expect(removeCorrelationGroup(scenario, "nope")).toBe(scenario);
+  });
+});
+
+describe("setActivityCorrelationGroup", () => {
+  it("moves an activity out of its old group, so it belongs to one at most", () => {
+    const result = setActivityCorrelationGroup(makeScenario(), "a2", "g2");
+    expect(result.correlationGroups![0]!.activityIds).toEqual(["a1"]);
+    expect(result.correlationGroups![1]!.activityIds).toEqual(["a2"]);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("takes an activity out of every group with null", () => {
+    const result = setActivityCorrelationGroup(makeScenario(), "a1", null);
+    expect(result.correlationGroups![0]!.activityIds).toEqual(["a2"]);
+  });
+
+  it("is ref-equal for an unknown activity or group, or no change", () => {
+    const scenario = makeScenario();
+    expect(setActivityCorrelationGroup(scenario, "zz", "g1")).toBe(scenario);
+    expect(setActivityCorrelationGroup(scenario, "a3", "zz")).toBe(scenario);
+    expect(setActivityCorrelationGroup(scenario, "a1", "g1")).toBe(scenario);
+    expect(setActivityCorrelationGroup(scenario, "a3", null)).toBe(scenario);
+  });
+});
+
+describe("pruneCorrelationGroups", () => {
+  it("drops removed activities and returns the same array when none were members", () => {
+    const groups = makeScenario().correlationGroups;
+    expect(pruneCorrelationGroups(groups, new Set(["a3"]))).toBe(groups);
+    expect(pruneCorrelationGroups(groups, new Set(["a1"]))![0]!.activityIds).toEqual(["a2"]);
+    expect(pruneCorrelationGroups(undefined, new Set(["a1"]))).toBeUndefined();
+  });
+});
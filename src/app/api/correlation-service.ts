@@ -0,0 +1,104 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  CORRELATION_COEFFICIENT_MAX,
+  CORRELATION_GROUPS_MAX,
+  type CorrelationGroup,
+  type Scenario,
+} from "@domain/models/types";
+import { generateId } from "./id";
+
+/**
+ * Correlation groups live on the SCENARIO and feed the simulation (correlation.ts), so a
+ * change to a group's members or coefficient clears the results. Renaming does not. An
+ * activity belongs to at most one group: assigning it to one takes it out of any other.
+ */
+
+function clampCoefficient(coefficient: number): number {
+  return Math.min(Math.max(coefficient, 0), CORRELATION_COEFFICIENT_MAX);
+}
+
+/** Add an empty group. Refused (ref-equal) once the scenario holds CORRELATION_GROUPS_MAX. */
+export function addCorrelationGroup(
+  scenario: Scenario,
+  name: string,
+  coefficient: number,
+  id: string = generateId()
+): Scenario {
+  const groups = scenario.correlationGroups ?? [];
+  if (groups.length >= CORRELATION_GROUPS_MAX) return scenario;
+  const group: CorrelationGroup = { id, name, activityIds: [], coefficient: clampCoefficient(coefficient) };
+  // No members yet, so nothing is sampled differently and the results stay.
+  return { ...scenario, correlationGroups: [...groups, group] };
+}
+
+/** Rename a group or change its coefficient (clamped to 0 – CORRELATION_COEFFICIENT_MAX). */
+export function updateCorrelationGroup(
+  scenario: Scenario,
+  groupId: string,
+  updates: Partial<Pick<CorrelationGroup, "name" | "coefficient">>
+): Scenario {
+  const groups = scenario.correlationGroups ?? [];
+  const group = groups.find((g) => g.id === groupId);
+  if (!group) return scenario; // existence guard (ref-equal)
+  const next = {
+    ...group,
+    ...updates,
+    ...(updates.coefficient !== undefined ? { coefficient: clampCoefficient(updates.coefficient) } : {}),
+  };
+  if (next.name === group.name && next.coefficient === group.coefficient) return scenario;
+  return {
+    ...scenario,
+    correlationGroups: groups.map((g) => (g.id === groupId ? next : g)),
+    ...(next.coefficient !== group.coefficient ? { simulationResults: undefined } : {}),
+  };
+}
+
+export function removeCorrelationGroup(scenario: Scenario, groupId: string): Scenario {
+  const groups = scenario.correlationGroups ?? [];
+  if (!groups.some((g) => g.id === groupId)) return scenario; // same reference, no change
+  return {
+    ...scenario,
+    correlationGroups: groups.filter((g) => g.id !== groupId),
+    simulationResults: undefined,
+  };
+}
+
+/** Put an activity in a group, or in none with `null`. */
+export function setActivityCorrelationGroup(
+  scenario: Scenario,
+  activityId: string,
+  groupId: string | null
+): Scenario {
+  if (!scenario.activities.some((a) => a.id === activityId)) return scenario;
+  const groups = scenario.correlationGroups ?? [];
+  if (groupId !== null && !groups.some((g) => g.id === groupId)) return scenario;
+  const current = groups.find((g) => g.activityIds.includes(activityId));
+  if ((current?.id ?? null) === groupId) return scenario; // value-equality (ref-equal)
+  return {
+    ...scenario,
+    correlationGroups: groups.map((g) => {
+      if (g.id === groupId) return { ...g, activityIds: [...g.activityIds, activityId] };
+      if (g === current) return { ...g, activityIds: g.activityIds.filter((id) => id !== activityId) };
+      return g;
+    }),
+    simulationResults: undefined,
+  };
+}
+
+/**
+ * Drop removed activities from every group. Used by both `removeActivityFromScenario`
+ * and the store's `bulkDeleteActivities`, like `reanchorBandsAfterRemovals`; returns the
+ * same array when no group held any of them.
+ */
+export function pruneCorrelationGroups(
+  groups: CorrelationGroup[] | undefined,
+  removedIds: Set<string>
+): CorrelationGroup[] | undefined {
+  if (!groups || !groups.some((g) => g.activityIds.some((id) => removedIds.has(id)))) {
+    return groups;
+  }
+  return groups.map((g) => ({ ...g, activityIds: g.activityIds.filter((id) => !removedIds.has(id)) }));
+}
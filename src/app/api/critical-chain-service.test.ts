@@ -0,0 +1,79 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCENARIO_SETTINGS,
+  FEVER_POINTS_MAX,
+  type CriticalChainPlan,
+  type FeverPoint,
+  type Scenario,
+} from "@domain/models/types";
+import { recordFeverPoint, setCriticalChainPlan } from "./critical-chain-service";
+
+const plan: CriticalChainPlan = {
+  capturedAt: "2026-03-01T09:00:00.000Z",
+  chain: [{ activityId: "a1", days: 10 }],
+  chainDays: 10,
+  projectBufferDays: 4,
+  feedingBuffers: [],
+  fever: [],
+};
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2026-03-02",
+    activities: [],
+    dependencies: [],
+    milestones: [],
+    settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+    ...overrides,
+  };
+}
+
+function point(statusDate: string, chainCompleted: number, bufferConsumed = 0): FeverPoint {
+  return { statusDate, chainCompleted, bufferConsumed };
+}
+
+describe("setCriticalChainPlan", () => {
+  it("sets and clears the plan", () => {
+    const planned = setCriticalChainPlan(makeScenario(), plan);
+    expect(planned.criticalChainPlan).toBe(plan);
+    expect(setCriticalChainPlan(planned, undefined).criticalChainPlan).toBeUndefined();
+  });
+
+  it("clearing a scenario without a plan is a no-op (ref-equal)", () => {
+    const scenario = makeScenario();
+    expect(setCriticalChainPlan(scenario, undefined)).toBe(scenario);
+  });
+});
+
+describe("recordFeverPoint", () => {
+  it("appends a later status date and replaces the latest one's point", () => {
+    let scenario = makeScenario({ criticalChainPlan: plan });
+    scenario = recordFeverPoint(scenario, point("2026-03-06", 0.2));
+    scenario = recordFeverPoint(scenario, point("2026-03-13", 0.4));
+    scenario = recordFeverPoint(scenario, point("2026-03-13", 0.45, 0.1));
+    expect(scenario.criticalChainPlan!.fever).toEqual([point("2026-03-06", 0.2), point("2026-03-13", 0.45, 0.1)]);
+  });
+
+  it("ignores an earlier status date, a repeat, or a scenario without a plan (ref-equal)", () => {
+    const scenario = makeScenario({ criticalChainPlan: { ...plan, fever: [point("2026-03-13", 0.4)] } });
+    expect(recordFeverPoint(scenario, point("2026-03-06", 0.2))).toBe(scenario);
+    expect(recordFeverPoint(scenario, point("2026-03-13", 0.4))).toBe(scenario);
+    const unplanned = makeScenario();
+    expect(recordFeverPoint(unplanned, point("2026-03-13", 0.4))).toBe(unplanned);
+  });
+
+  it("drops the oldest point past the cap", () => {
+    const fever = Array.from({ length: FEVER_POINTS_MAX }, (_, i) =>
+      point(new Date(Date.UTC(2026, 0, 1 + i)).toISOString().slice(0, 10), 0)
+    );
+    const scenario = recordFeverPoint(makeScenario({ criticalChainPlan: { ...plan, fever } }), point("2027-01-01", 1));
+    expect(scenario.criticalChainPlan!.fever).toHaveLength(FEVER_POINTS_MAX);
+    expect(scenario.criticalChainPlan!.fever[0]!.statusDate).toBe("2026-01-02");
+  });
+});
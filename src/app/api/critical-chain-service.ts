@@ -0,0 +1,46 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  FEVER_POINTS_MAX,
+  type CriticalChainPlan,
+  type FeverPoint,
+  type Scenario,
+} from "@domain/models/types";
+
+/**
+ * The Critical Chain plan lives on the SCENARIO and, like a baseline, records: nothing
+ * here clears the simulation results. The plan itself is built by `proposeCriticalChain`
+ * and its fever points by `computeFeverPoint` (core/schedule/critical-chain.ts).
+ */
+
+/** Set the plan — replacing any earlier one, fever chart included — or clear it with `undefined`. */
+export function setCriticalChainPlan(scenario: Scenario, plan: CriticalChainPlan | undefined): Scenario {
+  if (plan === undefined && scenario.criticalChainPlan === undefined) return scenario;
+  return { ...scenario, criticalChainPlan: plan };
+}
+
+/**
+ * Record a fever chart point. A point for the latest status date replaces it; an earlier
+ * status date, a repeat, or a scenario without a plan changes nothing (ref-equal). Past
+ * FEVER_POINTS_MAX the oldest point is dropped.
+ */
+export function recordFeverPoint(scenario: Scenario, point: FeverPoint): Scenario {
+  const plan = scenario.criticalChainPlan;
+  if (!plan) return scenario;
+  const last = plan.fever.at(-1);
+  if (last && point.statusDate < last.statusDate) return scenario;
+  if (
+    last?.statusDate === point.statusDate &&
+    last.chainCompleted === point.chainCompleted &&
+    last.bufferConsumed === point.bufferConsumed
+  ) {
+    return scenario;
+  }
+  const kept = last?.statusDate === point.statusDate ? plan.fever.slice(0, -1) : plan.fever;
+  return {
+    ...scenario,
+    criticalChainPlan: { ...plan, fever: [...kept, point].slice(-FEVER_POINTS_MAX) },
+  };
+}
@@ -3,7 +3,7 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from "vitest";
-import { exportSimulationCSV } from "./csv-export-service";
+import { exportForecastHistoryCSV, exportSimulationCSV } from "./csv-export-service";
 import type { SimulationRun } from "@domain/models/types";
 
 function makeResults(overrides?: Partial<SimulationRun>): SimulationRun {
@@ -87,6 +87,31 @@ describe("exportSimulationCSV", () => {
     expect(csv).not.toContain("P75,");
   });
 
+  it("adds cost statistics and a cost column when the run carries costs", () => {
+    const results = makeResults({
+      percentiles: { 50: 26.0, 80: 31.0 },
+      costResults: {
+        percentiles: { 50: 12000, 80: 15500.5 },
+        mean: 12400,
+        standardDeviation: 1800.25,
+        scatter: [],
+        contours: {},
+      },
+    });
+    const csv = exportSimulationCSV(results, "S", "P");
+    expect(csv).toContain("Cost Mean,12400.00");
+    expect(csv).toContain("Cost Standard Deviation,1800.25");
+    expect(csv).toContain("Percentile,Duration (days),Cost");
+    expect(csv).toContain("P50,26.00,12000.00");
+    expect(csv).toContain("P80,31.00,15500.50");
+  });
+
+  it("leaves the cost out of a run without costs", () => {
+    const csv = exportSimulationCSV(makeResults(), "S", "P");
+    expect(csv).not.toContain("Cost");
+    expect(csv).toContain("P50,26.00\n");
+  });
+
   it("produces valid newline-separated output", () => {
     const csv = exportSimulationCSV(makeResults(), "S", "P");
     const lines = csv.split("\n");
@@ -96,3 +121,27 @@ describe("exportSimulationCSV", () => {
     expect(lines[lines.length - 1]).not.toBe("");
   });
 });
+
+describe("exportForecastHistoryCSV", () => {
+  it("writes one row per entry, blanks for what an entry lacks", () => {
+    const csv = exportForecastHistoryCSV(
+      [
+        {
+          timestamp: "2026-03-02T09:00:00.000Z",
+          fingerprint: "1a2b3c4d",
+          finishDates: { 50: "2026-04-20", 80: "2026-04-28", 95: "2026-05-06" },
+          bufferDays: 4,
+          runs: 3,
+        },
+        { timestamp: "2026-03-09T09:00:00.000Z", fingerprint: "5e6f7a8b", finishDates: { 50: "2026-04-22" } },
+      ],
+      "Scenario A",
+      "My Project"
+    );
+    const lines = csv.split("\n");
+    expect(lines).toContain("# Scenario,Scenario A");
+    expect(lines).toContain("Timestamp,Fingerprint,P50 Finish,P80 Finish,P95 Finish,Buffer (days),Runs");
+    expect(lines).toContain("2026-03-02T09:00:00.000Z,1a2b3c4d,2026-04-20,2026-04-28,2026-05-06,4.0,3");
+    expect(lines.at(-1)).toBe("2026-03-09T09:00:00.000Z,5e6f7a8b,2026-04-22,,,,1");
+  });
+});
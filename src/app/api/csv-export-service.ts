@@ -2,8 +2,8 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { SimulationRun } from "@domain/models/types";
-import { STANDARD_PERCENTILES } from "@domain/models/types";
+import type { ForecastHistoryEntry, SimulationRun } from "@domain/models/types";
+import { FORECAST_HISTORY_PERCENTILES, STANDARD_PERCENTILES } from "@domain/models/types";
 
 export function exportSimulationCSV(
   results: SimulationRun,
@@ -28,20 +28,54 @@ export function exportSimulationCSV(
   lines.push(`Standard Deviation,${results.standardDeviation.toFixed(2)}`);
   lines.push(`Min Sample,${results.minSample.toFixed(2)}`);
   lines.push(`Max Sample,${results.maxSample.toFixed(2)}`);
+  const cost = results.costResults;
+  if (cost) {
+    lines.push(`Cost Mean,${cost.mean.toFixed(2)}`);
+    lines.push(`Cost Standard Deviation,${cost.standardDeviation.toFixed(2)}`);
+  }
   lines.push("");
 
-  // Percentile table
-  lines.push("Percentile,Duration (days)");
+  // Percentile table — a cost column when the activities carry costs
+  lines.push(cost ? "Percentile,Duration (days),Cost" : "Percentile,Duration (days)");
   for (const pct of STANDARD_PERCENTILES) {
     const value = results.percentiles[pct];
     if (value !== undefined) {
-      lines.push(`P${pct},${value.toFixed(2)}`);
+      const costValue = cost?.percentiles[pct];
+      lines.push(cost ? `P${pct},${value.toFixed(2)},${costValue?.toFixed(2) ?? ""}` : `P${pct},${value.toFixed(2)}`);
     }
   }
 
   return lines.join("\n");
 }
 
+/** The scenario's forecast history, oldest run first — one row per entry. */
+export function exportForecastHistoryCSV(
+  history: ForecastHistoryEntry[],
+  scenarioName: string,
+  projectName: string
+): string {
+  const lines: string[] = [];
+
+  lines.push("# SPERT Scheduler — Forecast History");
+  lines.push(`# Project,${csvEscape(projectName)}`);
+  lines.push(`# Scenario,${csvEscape(scenarioName)}`);
+  lines.push("");
+
+  const finishColumns = FORECAST_HISTORY_PERCENTILES.map((p) => `P${p} Finish`);
+  lines.push(["Timestamp", "Fingerprint", ...finishColumns, "Buffer (days)", "Runs"].join(","));
+  for (const entry of history) {
+    lines.push([
+      entry.timestamp,
+      csvEscape(entry.fingerprint),
+      ...FORECAST_HISTORY_PERCENTILES.map((p) => entry.finishDates[p] ?? ""),
+      entry.bufferDays?.toFixed(1) ?? "",
+      entry.runs ?? 1,
+    ].join(","));
+  }
+
+  return lines.join("\n");
+}
+
 function csvEscape(value: string): string {
   let str = value;
   // Guard against CSV formula injection (OWASP): prefix cells starting with =, +, @, -, \t, or \r
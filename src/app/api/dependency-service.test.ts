@@ -8,6 +8,8 @@ import {
   removeDependency,
   updateDependencyLag,
   updateDependencyType,
+  updateDependencyLagUnit,
+  updateDependencyLagPercent,
   removeActivitiesDeps,
 } from "./dependency-service";
 import { createScenario, createActivity, addActivityToScenario } from "./project-service";
@@ -202,6 +204,65 @@ describe("updateDependencyType — hardening", () => {
   });
 });
 
+describe("lag unit", () => {
+  it("addDependency leaves working-day lags implicit and records elapsed ones", () => {
+    const scenario = makeScenario();
+    const [a1, a2, a3] = scenario.activities.map((a) => a.id);
+    const working = addDependency(scenario, a1!, a2!, "FS", 2, "working");
+    expect(working.dependencies[0]).not.toHaveProperty("lagUnit");
+    const elapsed = addDependency(working, a2!, a3!, "FS", 7, "elapsed");
+    expect(elapsed.dependencies[1]!.lagUnit).toBe("elapsed");
+  });
+
+  it("updateDependencyLagUnit sets and clears the unit and invalidates results", () => {
+    const scenario = makeScenario();
+    const [a1, a2] = scenario.activities.map((a) => a.id);
+    const withDep = addDependency(scenario, a1!, a2!, "FS", 7);
+    const elapsed = updateDependencyLagUnit(withDep, a1!, a2!, "elapsed");
+    expect(elapsed.dependencies[0]!.lagUnit).toBe("elapsed");
+    expect(elapsed.simulationResults).toBeUndefined();
+    const working = updateDependencyLagUnit(elapsed, a1!, a2!, "working");
+    expect(working.dependencies[0]).not.toHaveProperty("lagUnit");
+  });
+
+  it("updateDependencyLagUnit no-ops (ref-equal) on a missing pair or an unchanged unit", () => {
+    const scenario = makeScenario();
+    const [a1, a2] = scenario.activities.map((a) => a.id);
+    expect(updateDependencyLagUnit(scenario, a1!, a2!, "elapsed")).toBe(scenario);
+    const withDep = addDependency(scenario, a1!, a2!, "FS", 7);
+    expect(updateDependencyLagUnit(withDep, a1!, a2!, "working")).toBe(withDep);
+  });
+});
+
+describe("percentage lag", () => {
+  it("addDependency stores the percentage in place of a day lag", () => {
+    const scenario = makeScenario();
+    const [a1, a2] = scenario.activities.map((a) => a.id);
+    const next = addDependency(scenario, a1!, a2!, "SS", 4, "working", 60);
+    expect(next.dependencies[0]).toMatchObject({ type: "SS", lagDays: 0, lagPercent: 60 });
+  });
+
+  it("updateDependencyLagPercent switches a day lag to a percentage", () => {
+    const scenario = makeScenario();
+    const [a1, a2] = scenario.activities.map((a) => a.id);
+    const withDep = addDependency(scenario, a1!, a2!, "SS", 4);
+    const updated = updateDependencyLagPercent(withDep, a1!, a2!, 60);
+    expect(updated.dependencies[0]).toMatchObject({ lagDays: 0, lagPercent: 60 });
+    expect(updated.simulationResults).toBeUndefined();
+    expect(updateDependencyLagPercent(updated, a1!, a2!, 60)).toBe(updated);
+  });
+
+  it("updateDependencyLag replaces a percentage with a day lag, even one of 0", () => {
+    const scenario = makeScenario();
+    const [a1, a2] = scenario.activities.map((a) => a.id);
+    const withDep = addDependency(scenario, a1!, a2!, "SS", 0, "working", 60);
+    const updated = updateDependencyLag(withDep, a1!, a2!, 0);
+    expect(updated).not.toBe(withDep);
+    expect(updated.dependencies[0]).not.toHaveProperty("lagPercent");
+    expect(updated.dependencies[0]!.lagDays).toBe(0);
+  });
+});
+
 describe("retarget-mode cycle exclusion (DependencyEditModal.validate logic)", () => {
   // The modal computes a prospective edge set: current edges MINUS the original
   // edge (edit mode) PLUS the proposed edge, then runs detectCycle. Excluding
@@ -2,7 +2,7 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Scenario, ActivityDependency, DependencyType } from "@domain/models/types";
+import type { Scenario, ActivityDependency, DependencyType, LagUnit } from "@domain/models/types";
 import { detectCycle } from "@core/schedule/dependency-graph";
 
 export function addDependency(
@@ -10,7 +10,9 @@ export function addDependency(
   fromActivityId: string,
   toActivityId: string,
   type: DependencyType = "FS",
-  lagDays = 0
+  lagDays = 0,
+  lagUnit: LagUnit = "working",
+  lagPercent?: number
 ): Scenario {
   // Guard sequence — any failure is a no-op that returns the same reference,
   // so the AI batch applier's ref-equality confirmation can treat it as skipped.
@@ -28,7 +30,16 @@ export function addDependency(
   ) {
     return scenario;
   }
-  const dep: ActivityDependency = { fromActivityId, toActivityId, type, lagDays };
+  // Working days are the default and stay implicit, so existing edges are unchanged.
+  // A percentage lag replaces the day lag rather than adding to it.
+  const dep: ActivityDependency = {
+    fromActivityId,
+    toActivityId,
+    type,
+    lagDays: lagPercent === undefined ? lagDays : 0,
+    ...(lagUnit === "elapsed" && { lagUnit }),
+    ...(lagPercent !== undefined && { lagPercent }),
+  };
   // No cycle introduced by the trial edge.
   if (detectCycle(activityIds, [...scenario.dependencies, dep])) return scenario;
   return {
@@ -67,12 +78,37 @@ export function updateDependencyLag(
     (d) => d.fromActivityId === fromActivityId && d.toActivityId === toActivityId
   );
   if (!target) return scenario; // match guard (ref-equal)
-  if (target.lagDays === lagDays) return scenario; // value-equality guard (ref-equal)
+  // value-equality guard (ref-equal). A day lag replaces a percentage lag, so an edge
+  // still carrying one is never "unchanged".
+  if (target.lagDays === lagDays && target.lagPercent === undefined) return scenario;
+  return {
+    ...scenario,
+    dependencies: scenario.dependencies.map((d) => {
+      if (d.fromActivityId !== fromActivityId || d.toActivityId !== toActivityId) return d;
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      const { lagPercent: _lagPercent, ...rest } = d; // NOSONAR — intentional destructuring discard
+      return { ...rest, lagDays };
+    }),
+    simulationResults: undefined,
+  };
+}
+
+export function updateDependencyLagPercent(
+  scenario: Scenario,
+  fromActivityId: string,
+  toActivityId: string,
+  lagPercent: number
+): Scenario {
+  const target = scenario.dependencies.find(
+    (d) => d.fromActivityId === fromActivityId && d.toActivityId === toActivityId
+  );
+  if (!target) return scenario; // match guard (ref-equal)
+  if (target.lagPercent === lagPercent) return scenario; // value-equality guard (ref-equal)
   return {
     ...scenario,
     dependencies: scenario.dependencies.map((d) =>
       d.fromActivityId === fromActivityId && d.toActivityId === toActivityId
-        ? { ...d, lagDays }
+        ? { ...d, lagDays: 0, lagPercent }
         : d
     ),
     simulationResults: undefined,
@@ -101,6 +137,30 @@ export function updateDependencyType(
   };
 }
 
+export function updateDependencyLagUnit(
+  scenario: Scenario,
+  fromActivityId: string,
+  toActivityId: string,
+  lagUnit: LagUnit
+): Scenario {
+  const target = scenario.dependencies.find(
+    (d) => d.fromActivityId === fromActivityId && d.toActivityId === toActivityId
+  );
+  if (!target) return scenario; // match guard (ref-equal)
+  if ((target.lagUnit ?? "working") === lagUnit) return scenario; // value-equality guard (ref-equal)
+  return {
+    ...scenario,
+    dependencies: scenario.dependencies.map((d) => {
+      if (d.fromActivityId !== fromActivityId || d.toActivityId !== toActivityId) return d;
+      if (lagUnit === "elapsed") return { ...d, lagUnit };
+      // eslint-disable-next-line sonarjs/no-unused-vars
+      const { lagUnit: _lagUnit, ...rest } = d; // NOSONAR — intentional destructuring discard
+      return rest;
+    }),
+    simulationResults: undefined,
+  };
+}
+
 /**
  * Remove all dependencies referencing any of the given activity IDs.
  * Used by bulk delete.
@@ -6,6 +6,8 @@ import {
   buildSummaryData,
   buildGridRows,
   buildScheduleHeaders,
+  hasCriticalityColumn,
+  hasDatePercentileColumns,
   type GridRow,
   type ScheduleExportParams,
 } from "./schedule-export-service";
@@ -30,6 +32,9 @@ function buildCsvActivityCells(
   row: GridRow,
   hasDeps: boolean,
   hasConstraints: boolean,
+  hasBaseline: boolean,
+  hasCriticality: boolean,
+  hasDatePercentiles: boolean,
 ): (string | number)[] {
   const cells: (string | number)[] = [
     row.num,
@@ -45,8 +50,13 @@ function buildCsvActivityCells(
     row.startDate,
     row.endDate,
   ];
+  if (hasBaseline) {
+    cells.push(row.startVariance ?? "", row.finishVariance ?? "", row.durationVariance ?? "");
+  }
+  if (hasDatePercentiles) cells.push(...(row.simulatedDates ?? []));
   if (hasDeps) {
     cells.push(row.totalFloat ?? "", row.freeFloat ?? "");
+    if (hasCriticality) cells.push(row.criticality ?? "");
     cells.push(row.predecessors ?? "", row.successors ?? "");
   }
   if (hasConstraints) {
@@ -69,6 +79,9 @@ export function exportScheduleCsv(params: ScheduleExportParams): string {
   // Grid parity (v0.52.1 rule): constraint columns also export in sequential
   // mode once any activity carries a constraint.
   const hasConstraints = hasDeps || hasAnyConstraint(params.activities);
+  const hasBaseline = params.baseline !== undefined;
+  const hasCriticality = hasCriticalityColumn(params);
+  const hasDatePercentiles = hasDatePercentileColumns(params);
   const pctLabel = `P${Math.round(params.settings.probabilityTarget * 100)}`;
 
   const rowMap = new Map(rows.map((r) => [r.activityId, r]));
@@ -81,7 +94,7 @@ export function exportScheduleCsv(params: ScheduleExportParams): string {
   lines.push("");
 
   // Column headers (shared with the XLSX formatter — keep byte-identical)
-  const headers = buildScheduleHeaders(hasDeps, pctLabel, hasConstraints);
+  const headers = buildScheduleHeaders(hasDeps, pctLabel, hasConstraints, hasBaseline, hasCriticality, hasDatePercentiles);
   lines.push(headers.map(csvEscape).join(","));
 
   // Data rows — iterate render list (activities + bands interleaved)
@@ -89,8 +102,9 @@ export function exportScheduleCsv(params: ScheduleExportParams): string {
     if (item.kind === "activity") {
       const row = rowMap.get(item.activity.id);
       if (!row) continue; // safety: should never fire — renderItems built from params.activities
-      lines.push(buildCsvActivityCells(row, hasDeps, hasConstraints).map(csvEscape).join(","));
-    } else {
+      const cells = buildCsvActivityCells(row, hasDeps, hasConstraints, hasBaseline, hasCriticality, hasDatePercentiles);
+      lines.push(cells.map(csvEscape).join(","));
+    } else if (item.kind === "band") {
       // Band row: blank cells except Activity Name (col 1) and Type (last col)
       const cells = headers.map(() => "");
       cells[1] = item.band.name;
@@ -118,9 +132,18 @@ export function exportScheduleCsv(params: ScheduleExportParams): string {
     "",
     "",
   ];
+  if (hasBaseline) {
+    totalCells.push("", "", ""); // Start / Finish / Duration variance
+  }
+  if (hasDatePercentiles) {
+    totalCells.push("", "", "", "", "", ""); // Simulated start / finish P50 / P80 / P95
+  }
   if (hasDeps) {
     totalCells.push("", "", "", ""); // Floats + Predecessors / Successors
   }
+  if (hasCriticality) {
+    totalCells.push(""); // Criticality
+  }
   if (hasConstraints) {
     totalCells.push("", "", "", ""); // Constraint Type / Date / Mode / Note
   }
@@ -8,6 +8,8 @@ import {
   buildSummaryData,
   buildGridRows,
   buildScheduleHeaders,
+  hasCriticalityColumn,
+  hasDatePercentileColumns,
   type GridRow,
   type ScheduleExportParams,
 } from "./schedule-export-service";
@@ -18,6 +20,9 @@ function buildActivityCells(
   row: GridRow,
   hasDeps: boolean,
   hasConstraints: boolean,
+  hasBaseline: boolean,
+  hasCriticality: boolean,
+  hasDatePercentiles: boolean,
 ): (string | number)[] {
   const cells: (string | number)[] = [
     row.num,
@@ -33,8 +38,13 @@ function buildActivityCells(
     row.startDate,
     row.endDate,
   ];
+  if (hasBaseline) {
+    cells.push(row.startVariance ?? "", row.finishVariance ?? "", row.durationVariance ?? "");
+  }
+  if (hasDatePercentiles) cells.push(...(row.simulatedDates ?? []));
   if (hasDeps) {
     cells.push(row.totalFloat ?? "", row.freeFloat ?? "");
+    if (hasCriticality) cells.push(row.criticality ?? "");
     cells.push(row.predecessors ?? "", row.successors ?? "");
   }
   if (hasConstraints) {
@@ -146,11 +156,14 @@ export async function exportScheduleXlsx(
   // Grid parity (v0.52.1 rule): constraint columns also export in sequential
   // mode once any activity carries a constraint.
   const hasConstraints = hasDeps || hasAnyConstraint(params.activities);
+  const hasBaseline = params.baseline !== undefined;
+  const hasCriticality = hasCriticalityColumn(params);
+  const hasDatePercentiles = hasDatePercentileColumns(params);
   const pctLabel = `P${Math.round(params.settings.probabilityTarget * 100)}`;
 
   // Headers are shared with the CSV formatter; lastCol derives from them so a
   // future column can never drift from the title merge / band / totals math.
-  const headers = buildScheduleHeaders(hasDeps, pctLabel, hasConstraints);
+  const headers = buildScheduleHeaders(hasDeps, pctLabel, hasConstraints, hasBaseline, hasCriticality, hasDatePercentiles);
   const lastCol = headers.length;
   // Prose columns that need wrapText, located by header identity (Task Details /
   // Deliverable Details move between cols 14/16 and 22/24 depending on hasDeps).
@@ -221,7 +234,7 @@ export async function exportScheduleXlsx(
       // buildGridRows processed; every activity ID maps and only kind==='activity'
       // items reference IDs in that array.
       const row = rowMap.get(item.activity.id)!;
-      const cells = buildActivityCells(row, hasDeps, hasConstraints);
+      const cells = buildActivityCells(row, hasDeps, hasConstraints, hasBaseline, hasCriticality, hasDatePercentiles);
       const dataRow = ws.getRow(rowNum);
       cells.forEach((val, i) => {
         const cell = dataRow.getCell(i + 1);
@@ -230,7 +243,7 @@ export async function exportScheduleXlsx(
         // i is the 0-based array index, aligned with the header index.
         if (wrapCols.has(i)) cell.alignment = { wrapText: true, vertical: "top" };
       });
-    } else {
+    } else if (item.kind === "band") {
       writeBandRow(ws, rowNum, item.band, lastCol, thinBorder);
     }
     rowNum++;
@@ -258,7 +271,11 @@ export async function exportScheduleXlsx(
   // Auto-fit to the longest summary key with bold font padding, capped at 28.
   const colAWidth = Math.min(28, Math.max(5, ...summary.map((r) => r.key.length + 4)));
   const widths = [colAWidth, 30, 8, 12, 8, 16, 14, 12, 8, 14, 14, 14];
-  if (hasDeps) widths.push(14, 14, 16, 16); // Floats + Predecessors / Successors
+  if (hasBaseline) widths.push(12, 12, 14); // Start / Finish / Duration variance
+  if (hasDatePercentiles) widths.push(16, 16, 16, 16, 16, 16); // Simulated start / finish P50 / P80 / P95
+  if (hasDeps) widths.push(14, 14); // Total / Free Float
+  if (hasCriticality) widths.push(12); // Criticality
+  if (hasDeps) widths.push(16, 16); // Predecessors / Successors
   if (hasConstraints) widths.push(16, 14, 10, 30); // Constraint Type / Date / Mode / Note
   widths.push(8, 40, 12, 40); // Tasks / Task Details / Deliverables / Deliverable Details
   widths.push(40); // Description column — always present, before Type
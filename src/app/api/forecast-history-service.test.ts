@@ -0,0 +1,49 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCENARIO_SETTINGS,
+  type ForecastHistoryEntry,
+  type Scenario,
+} from "@domain/models/types";
+import { recordForecast } from "./forecast-history-service";
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2026-01-05",
+    activities: [],
+    dependencies: [],
+    milestones: [],
+    settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+    ...overrides,
+  };
+}
+
+function makeEntry(timestamp: string, p80: string): ForecastHistoryEntry {
+  return { timestamp, fingerprint: "f1", finishDates: { 80: p80 } };
+}
+
+describe("recordForecast", () => {
+  it("starts a history and appends newer runs", () => {
+    const first = makeEntry("2026-01-05T09:00:00.000Z", "2026-02-20");
+    const second = makeEntry("2026-01-06T09:00:00.000Z", "2026-02-24");
+    const scenario = recordForecast(recordForecast(makeScenario(), first), second);
+    expect(scenario.forecastHistory).toEqual([first, second]);
+  });
+
+  it("ignores a run already recorded or older than the latest entry (ref-equal)", () => {
+    const latest = makeEntry("2026-01-06T09:00:00.000Z", "2026-02-24");
+    const scenario = makeScenario({ forecastHistory: [latest] });
+    expect(recordForecast(scenario, latest)).toBe(scenario);
+    expect(recordForecast(scenario, makeEntry("2026-01-05T09:00:00.000Z", "2026-02-20"))).toBe(scenario);
+  });
+
+  it("ignores a newer run that repeats the latest forecast (ref-equal)", () => {
+    const scenario = makeScenario({ forecastHistory: [makeEntry("2026-01-06T09:00:00.000Z", "2026-02-24")] });
+    expect(recordForecast(scenario, makeEntry("2026-01-07T09:00:00.000Z", "2026-02-24"))).toBe(scenario);
+  });
+});
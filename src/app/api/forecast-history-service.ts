@@ -0,0 +1,26 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { ForecastHistoryEntry, Scenario } from "@domain/models/types";
+import { appendForecastEntry } from "@core/schedule/forecast-history";
+
+/**
+ * The forecast history lives on the SCENARIO and, like baselines, only records: nothing
+ * here clears the simulation results. Entries are built by `forecastHistoryEntry`
+ * (core/schedule/forecast-history.ts) from the run the caller is showing.
+ */
+
+/**
+ * Record a run in the scenario's forecast history. Refused (ref-equal) unless the run is
+ * newer than the latest entry — a run already recorded, or an older one reloaded from
+ * this device's cache after a newer one arrived from another, changes nothing — and
+ * unless it forecasts something the latest entry does not: a repeat is not saved.
+ */
+export function recordForecast(scenario: Scenario, entry: ForecastHistoryEntry): Scenario {
+  const history = scenario.forecastHistory ?? [];
+  const last = history.at(-1);
+  if (last && entry.timestamp <= last.timestamp) return scenario;
+  const forecastHistory = appendForecastEntry(history, entry);
+  return forecastHistory === history ? scenario : { ...scenario, forecastHistory };
+}
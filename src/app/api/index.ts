@@ -23,7 +23,7 @@ export {
   reanchorBandsAfterRemovals,
 } from "./project-service";
 export type { CloneOptions } from "./project-service";
-export { runSimulation } from "./simulation-service";
+export { runCompressionAdvice, runCompressionPlan, runSimulation } from "./simulation-service";
 export type { SimulationServiceCallbacks } from "./simulation-service";
 export { computeSchedule } from "./schedule-service";
 export {
@@ -173,6 +173,19 @@ describe("cloneScenario", () => {
     expect(clone.simulationResults).toBeUndefined();
   });
 
+  it("keeps the status date, which the clone's actuals are measured against", () => {
+    const original = { ...makeScenario(), statusDate: "2025-01-17" };
+    expect(cloneScenario(original, "Clone").statusDate).toBe("2025-01-17");
+    expect("statusDate" in cloneScenario(makeScenario(), "Clone")).toBe(false);
+  });
+
+  it("keeps the applied calibration, since the planned estimates come across calibrated", () => {
+    const appliedCalibration = { multiplier: 1.2, actualCount: 3 };
+    expect(cloneScenario({ ...makeScenario(), appliedCalibration }, "Clone").appliedCalibration).toEqual(
+      appliedCalibration,
+    );
+  });
+
   it("drops completed activities when option set", () => {
     const original = makeScenario();
     const clone = cloneScenario(original, "Clone", { dropCompleted: true });
@@ -186,6 +199,22 @@ describe("cloneScenario", () => {
     const clone = cloneScenario(original, "Clone");
     expect(clone.activities).toHaveLength(2);
   });
+
+  it("clones WBS summaries with fresh IDs and remaps parents and activities", () => {
+    const base = makeScenario();
+    const original: Scenario = {
+      ...base,
+      summaries: [{ id: "w1", name: "Phase 1" }, { id: "w2", name: "Design", parentId: "w1" }],
+      activities: [{ ...base.activities[0]!, summaryId: "w2" }, base.activities[1]!],
+    };
+    const clone = cloneScenario(original, "Clone");
+    const [phase, design] = clone.summaries!;
+    expect(phase!.id).not.toBe("w1");
+    expect(design!.parentId).toBe(phase!.id);
+    expect(clone.activities[0]!.summaryId).toBe(design!.id);
+    expect(clone.activities[1]!.summaryId).toBeUndefined();
+    expect(cloneScenario(base, "Clone").summaries).toBeUndefined();
+  });
 });
 
 describe("cloneProject", () => {
@@ -300,6 +329,22 @@ describe("cloneProject", () => {
     );
   });
 
+  it("copies the resource pool; assignments keep pointing into it", () => {
+    const base = makeProject();
+    const source: Project = {
+      ...base,
+      resources: [{ id: "r1", name: "Dev", capacity: 2 }],
+      scenarios: base.scenarios.map((s) => ({
+        ...s,
+        activities: s.activities.map((a) => ({ ...a, resourceAssignments: [{ resourceId: "r1", units: 1 }] })),
+      })),
+    };
+    const clone = cloneProject(source, "Source (Copy)");
+    expect(clone.resources).toEqual(source.resources);
+    expect(clone.resources![0]).not.toBe(source.resources![0]);
+    expect(clone.scenarios[0]!.activities[0]!.resourceAssignments).toEqual([{ resourceId: "r1", units: 1 }]);
+  });
+
   it("remaps dependency endpoints to new activity ids", () => {
     const source = makeProject();
     const clone = cloneProject(source, "Source (Copy)");
@@ -860,3 +905,106 @@ describe("removeActivityFromScenario with bands", () => {
     expect(updated.simulationResults).toBeUndefined();
   });
 });
+
+describe("correlation groups across clone and removal", () => {
+  function makeWithGroup(): Scenario {
+    const scenario = createScenario("Original", "2025-01-06");
+    const a1 = createActivity("Task 1", scenario.settings);
+    const a2 = createActivity("Task 2", scenario.settings);
+    const done = { ...createActivity("Done", scenario.settings), status: "complete" as const, actualDuration: 3 };
+    return {
+      ...scenario,
+      activities: [a1, a2, done],
+      correlationGroups: [
+        { id: "g1", name: "Team", activityIds: [a1.id, a2.id, done.id], coefficient: 0.6 },
+      ],
+    };
+  }
+
+  it("clones groups with fresh IDs and remapped members, dropping dropped activities", () => {
+    const original = makeWithGroup();
+    const clone = cloneScenario(original, "Clone", { dropCompleted: true });
+    const group = clone.correlationGroups![0]!;
+    expect(group.id).not.toBe("g1");
+    expect(group.coefficient).toBe(0.6);
+    expect(group.activityIds).toEqual(clone.activities.map((a) => a.id));
+  });
+
+  it("takes a removed activity out of its group", () => {
+    const original = makeWithGroup();
+    const removedId = original.activities[0]!.id;
+    const updated = removeActivityFromScenario(original, removedId);
+    expect(updated.correlationGroups![0]!.activityIds).not.toContain(removedId);
+    expect(updated.correlationGroups![0]!.activityIds).toHaveLength(2);
+  });
+});
+
+describe("risk register across clone and removal", () => {
+  function makeWithRisk(): Scenario {
+    const scenario = createScenario("Original", "2025-01-06");
+    const a1 = createActivity("Task 1", scenario.settings);
+    const done = { ...createActivity("Done", scenario.settings), status: "complete" as const, actualDuration: 3 };
+    return {
+      ...scenario,
+      activities: [a1, done],
+      risks: [
+        {
+          id: "r1", name: "Vendor late", probability: 0.3,
+          impactMin: 5, impactMostLikely: 10, impactMax: 15, activityIds: [a1.id, done.id],
+        },
+      ],
+    };
+  }
+
+  it("clones risks with fresh IDs and remapped activities, dropping dropped activities", () => {
+    const clone = cloneScenario(makeWithRisk(), "Clone", { dropCompleted: true });
+    const risk = clone.risks![0]!;
+    expect(risk.id).not.toBe("r1");
+    expect(risk.probability).toBe(0.3);
+    expect(risk.activityIds).toEqual(clone.activities.map((a) => a.id));
+  });
+
+  it("takes a removed activity off every risk, keeping the risk", () => {
+    const original = makeWithRisk();
+    const removedId = original.activities[0]!.id;
+    const updated = removeActivityFromScenario(original, removedId);
+    expect(updated.risks![0]!.activityIds).toEqual([original.activities[1]!.id]);
+  });
+});
+
+describe("branches across clone and removal", () => {
+  function makeWithBranch(): Scenario {
+    const scenario = createScenario("Original", "2025-01-06");
+    const a1 = createActivity("Task 1", scenario.settings);
+    const a2 = createActivity("Task 2", scenario.settings);
+    return {
+      ...scenario,
+      activities: [a1, a2],
+      branches: [
+        {
+          id: "b1",
+          name: "Permit",
+          paths: [
+            { id: "p1", name: "Approved", probability: 0.7, activityIds: [a1.id] },
+            { id: "p2", name: "Appealed", probability: 0.3, activityIds: [a2.id] },
+          ],
+        },
+      ],
+    };
+  }
+
+  it("clones branches with fresh branch and path IDs and remapped activities", () => {
+    const clone = cloneScenario(makeWithBranch(), "Clone");
+    const branch = clone.branches![0]!;
+    expect(branch.id).not.toBe("b1");
+    expect(branch.paths.map((p) => p.id)).not.toContain("p1");
+    expect(branch.paths.map((p) => p.probability)).toEqual([0.7, 0.3]);
+    expect(branch.paths.flatMap((p) => p.activityIds)).toEqual(clone.activities.map((a) => a.id));
+  });
+
+  it("takes a removed activity off its path, keeping the path", () => {
+    const original = makeWithBranch();
+    const updated = removeActivityFromScenario(original, original.activities[1]!.id);
+    expect(updated.branches![0]!.paths.map((p) => p.activityIds)).toEqual([[original.activities[0]!.id], []]);
+  });
+});
@@ -11,6 +11,7 @@ import type {
   ChecklistItem,
   DeliverableItem,
   ScenarioSettings,
+  WbsSummary,
 } from "@domain/models/types";
 import {
   SCHEMA_VERSION,
@@ -21,6 +22,9 @@ import { formatDateISO } from "@core/calendar/calendar";
 import { computeHeuristic } from "@core/estimation/heuristic";
 import { generateId } from "./id";
 import { reanchorBandsAfterRemovals } from "./band-service";
+import { pruneCorrelationGroups } from "./correlation-service";
+import { pruneRiskActivities } from "./risk-service";
+import { pruneBranchActivities } from "./branch-service";
 
 // -- Project CRUD ------------------------------------------------------------
 
@@ -131,6 +135,17 @@ function cloneWithIdRemap<T extends { id: string }>(
   return { items: cloned, idMap };
 }
 
+/** Clone WBS summaries with fresh IDs, remapping their parent links through the same map. */
+function cloneSummaries(
+  summaries: readonly WbsSummary[],
+): { items: WbsSummary[]; idMap: Map<string, string> } {
+  const { items, idMap } = cloneWithIdRemap(summaries, (s, newId) => ({ ...s, id: newId }));
+  return {
+    items: items.map((s) => ({ ...s, parentId: s.parentId ? idMap.get(s.parentId) : undefined })),
+    idMap,
+  };
+}
+
 export function cloneScenario(
   scenario: Scenario,
   newName: string,
@@ -181,11 +196,14 @@ export function cloneScenario(
     (m, newId) => ({ ...m, id: newId }),
   );
 
-  // Remap activity milestone references
+  const { items: clonedSummaries, idMap: oldToNewSummaryId } = cloneSummaries(scenario.summaries ?? []);
+
+  // Remap activity milestone and WBS summary references
   activities = activities.map((a) => ({
     ...a,
     milestoneId: a.milestoneId ? oldToNewMilestoneId.get(a.milestoneId) ?? undefined : undefined,
     startsAtMilestoneId: a.startsAtMilestoneId ? oldToNewMilestoneId.get(a.startsAtMilestoneId) ?? undefined : undefined,
+    summaryId: a.summaryId ? oldToNewSummaryId.get(a.summaryId) : undefined,
   }));
 
   // Clone bands with fresh IDs; remap insertBeforeActivityId through
@@ -199,10 +217,34 @@ export function cloneScenario(
         : null,
   }));
 
+  // Clone correlation groups, risks and branches with fresh IDs; members remap like band
+  // anchors, and a dropped-completed activity simply leaves its group, risk or path.
+  const remapActivityIds = (ids: string[]) => ids.flatMap((aid) => oldToNewId.get(aid) ?? []);
+  const clonedCorrelationGroups = (scenario.correlationGroups ?? []).map((group) => ({
+    ...group,
+    id: generateId(),
+    activityIds: remapActivityIds(group.activityIds),
+  }));
+  const clonedRisks = (scenario.risks ?? []).map((risk) => ({
+    ...risk,
+    id: generateId(),
+    activityIds: remapActivityIds(risk.activityIds),
+  }));
+  const clonedBranches = (scenario.branches ?? []).map((branch) => ({
+    ...branch,
+    id: generateId(),
+    paths: branch.paths.map((path) => ({
+      ...path,
+      id: generateId(),
+      activityIds: remapActivityIds(path.activityIds),
+    })),
+  }));
+
   return {
     id: generateId(),
     name: newName,
     startDate: scenario.startDate,
+    ...(scenario.statusDate ? { statusDate: scenario.statusDate } : {}),
     activities,
     dependencies: clonedDeps,
     milestones: clonedMilestones,
@@ -212,7 +254,16 @@ export function cloneScenario(
     },
     notes: scenario.notes,
     bands: clonedBands,
+    ...(clonedSummaries.length > 0 ? { summaries: clonedSummaries } : {}),
+    ...(clonedCorrelationGroups.length > 0 ? { correlationGroups: clonedCorrelationGroups } : {}),
+    ...(clonedRisks.length > 0 ? { risks: clonedRisks } : {}),
+    ...(clonedBranches.length > 0 ? { branches: clonedBranches } : {}),
+    // The planned estimates come across already calibrated.
+    ...(scenario.appliedCalibration ? { appliedCalibration: scenario.appliedCalibration } : {}),
     // simulationResults are NOT cloned — stale
+    // baselines are NOT cloned — they record this scenario's plan, not the copy's
+    // forecastHistory is NOT cloned — it records this scenario's runs
+    // criticalChainPlan is NOT cloned — it tracks this scenario's progress
   };
 }
 
@@ -263,6 +314,16 @@ export function cloneProject(source: Project, newName: string): Project {
     ganttAppearance: source.ganttAppearance
       ? { ...source.ganttAppearance }
       : undefined,
+    // Resource ids are kept: the cloned activities' assignments still point at them.
+    ...(source.resources && { resources: source.resources.map((r) => ({ ...r })) }),
+    // Likewise calendar ids: the cloned activities' calendarId still points at them.
+    ...(source.calendars && {
+      calendars: source.calendars.map((c) => ({
+        ...c,
+        workDays: [...c.workDays],
+        holidays: c.holidays.map((h) => ({ ...h })),
+      })),
+    }),
     // archived: omitted (resets to false)
   };
 }
@@ -504,6 +565,9 @@ export function removeActivityFromScenario(
     activities: newActivities,
     dependencies: newDependencies,
     bands: newBands,
+    correlationGroups: pruneCorrelationGroups(scenario.correlationGroups, new Set([activityId])),
+    risks: pruneRiskActivities(scenario.risks, new Set([activityId])),
+    branches: pruneBranchActivities(scenario.branches, new Set([activityId])),
     simulationResults: undefined, // Invalidate stale results
   };
 }
@@ -597,6 +661,8 @@ export {
   removeDependency,
   updateDependencyLag,
   updateDependencyType,
+  updateDependencyLagUnit,
+  updateDependencyLagPercent,
   removeActivitiesDeps,
 } from "./dependency-service";
 
@@ -610,6 +676,65 @@ export {
   setActivityStartsAtMilestone,
 } from "./milestone-service";
 
+// -- Resources (re-exported from resource-service.ts) ------------------------
+
+export { addResource, updateResource, removeResource } from "./resource-service";
+
+// -- Named calendars (re-exported from calendar-service.ts) ------------------
+
+export { addCalendar, updateCalendar, removeCalendar } from "./calendar-service";
+
+// -- WBS summaries (re-exported from wbs-service.ts) -------------------------
+
+export { addSummary, updateSummary, removeSummary, setActivitySummary } from "./wbs-service";
+
+// -- Baselines (re-exported from baseline-service.ts) ------------------------
+
+export { captureBaseline, renameBaseline, removeBaseline, setActiveBaseline } from "./baseline-service";
+
+// -- Forecast history (re-exported from forecast-history-service.ts) ---------
+
+export { recordForecast } from "./forecast-history-service";
+
+// -- Critical Chain (re-exported from critical-chain-service.ts) -------------
+
+export { setCriticalChainPlan, recordFeverPoint } from "./critical-chain-service";
+
+// -- Schedule compression (re-exported from compression-service.ts) ----------
+
+export { applyCompressionProposal } from "./compression-service";
+
+// -- Estimate calibration (re-exported from calibration-service.ts) ----------
+
+export { applyCalibration } from "./calibration-service";
+
+// -- Correlation groups (re-exported from correlation-service.ts) ------------
+
+export {
+  addCorrelationGroup,
+  updateCorrelationGroup,
+  removeCorrelationGroup,
+  setActivityCorrelationGroup,
+} from "./correlation-service";
+
+// -- Risk register (re-exported from risk-service.ts) ------------------------
+
+export { addRisk, updateRisk, removeRisk, setRiskActivity } from "./risk-service";
+export type { RiskFields } from "./risk-service";
+
+// -- Conditional work (re-exported from branch-service.ts) -------------------
+
+export {
+  setActivityOccurrence,
+  addBranch,
+  renameBranch,
+  removeBranch,
+  addBranchPath,
+  updateBranchPath,
+  removeBranchPath,
+  setActivityBranchPath,
+} from "./branch-service";
+
 // -- Bands (re-exported from band-service.ts) --------------------------------
 
 export {
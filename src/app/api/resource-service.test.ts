@@ -0,0 +1,90 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Project, SimulationRun } from "@domain/models/types";
+import { addResource, updateResource, removeResource } from "./resource-service";
+import { createProject, createActivity, addActivityToScenario, createScenario } from "./project-service";
+
+/** Two scenarios: the first has an activity holding r1, the second holds nothing. */
+function makeProject(): Project {
+  const base = addResource(createProject("P", "2025-01-06"), "Dev", 1, "r1");
+  const holder = base.scenarios[0]!;
+  const activity = {
+    ...createActivity("Task", holder.settings),
+    resourceAssignments: [{ resourceId: "r1", units: 1 }],
+  };
+  const idle = createScenario("Idle", "2025-01-06");
+  return {
+    ...base,
+    scenarios: [
+      { ...addActivityToScenario(holder, activity), simulationResults: { id: "s1" } as SimulationRun },
+      { ...idle, simulationResults: { id: "s2" } as SimulationRun },
+    ],
+  };
+}
+
+describe("addResource", () => {
+  it("appends to the pool, creating it on first use", () => {
+    const project = addResource(createProject("P", "2025-01-06"), "QA", 2);
+    expect(project.resources).toHaveLength(1);
+    expect(project.resources![0]).toMatchObject({ name: "QA", capacity: 2 });
+    expect(project.resources![0]!.id).toBeTruthy();
+  });
+});
+
+describe("updateResource", () => {
+  it("returns the same project for an unknown id or an unchanged value", () => {
+    const project = makeProject();
+    expect(updateResource(project, "nope", { name: "X" })).toBe(project);
+    expect(updateResource(project, "r1", { capacity: 1 })).toBe(project);
+  });
+
+  it("renames without touching simulation results", () => {
+    const project = makeProject();
+    const updated = updateResource(project, "r1", { name: "Developer" });
+    expect(updated.resources![0]!.name).toBe("Developer");
+    expect(updated.scenarios).toBe(project.scenarios);
+  });
+
+  it("invalidates only the scenarios holding the resource on a capacity change", () => {
+    const updated = updateResource(makeProject(), "r1", { capacity: 2 });
+    expect(updated.resources![0]!.capacity).toBe(2);
+    expect(updated.scenarios[0]!.simulationResults).toBeUndefined();
+    expect(updated.scenarios[1]!.simulationResults).toBeDefined();
+  });
+});
+
+describe("removeResource", () => {
+  it("returns the same project for an unknown id", () => {
+    const project = makeProject();
+    expect(removeResource(project, "nope")).toBe(project);
+  });
+
+  it("removes the resource and every assignment to it", () => {
+    const updated = removeResource(makeProject(), "r1");
+    expect(updated.resources).toEqual([]);
+    expect(updated.scenarios[0]!.activities[0]!.resourceAssignments).toBeUndefined();
+    expect(updated.scenarios[0]!.simulationResults).toBeUndefined();
+    expect(updated.scenarios[1]!.simulationResults).toBeDefined();
+  });
+
+  it("keeps assignments to other resources", () => {
+    const base = addResource(makeProject(), "QA", 1, "r2");
+    const project: Project = {
+      ...base,
+      scenarios: base.scenarios.map((s) => ({
+        ...s,
+        activities: s.activities.map((a) => ({
+          ...a,
+          resourceAssignments: [...(a.resourceAssignments ?? []), { resourceId: "r2", units: 0.5 }],
+        })),
+      })),
+    };
+    const updated = removeResource(project, "r1");
+    expect(updated.scenarios[0]!.activities[0]!.resourceAssignments).toEqual([
+      { resourceId: "r2", units: 0.5 },
+    ]);
+  });
+});
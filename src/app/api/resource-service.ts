@@ -0,0 +1,72 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Project, Resource, Scenario } from "@domain/models/types";
+import { generateId } from "./id";
+
+/**
+ * The resource pool lives on the PROJECT, not the scenario: the same people staff every
+ * what-if. A pool change therefore reaches into every scenario — it invalidates the
+ * simulation results of each scenario holding the resource (the leveled forecast no
+ * longer matches), and leaves every other scenario's results alone.
+ */
+function invalidateHolders(project: Project, resourceId: string): Scenario[] {
+  return project.scenarios.map((s) =>
+    s.activities.some((a) => a.resourceAssignments?.some((ra) => ra.resourceId === resourceId))
+      ? { ...s, simulationResults: undefined }
+      : s
+  );
+}
+
+export function addResource(
+  project: Project,
+  name: string,
+  capacity = 1,
+  id: string = generateId()
+): Project {
+  const resource: Resource = { id, name, capacity };
+  return { ...project, resources: [...(project.resources ?? []), resource] };
+}
+
+export function updateResource(
+  project: Project,
+  resourceId: string,
+  updates: Partial<Omit<Resource, "id">>
+): Project {
+  const resource = project.resources?.find((r) => r.id === resourceId);
+  if (!resource) return project; // existence guard (ref-equal)
+  // Value-equality: every provided field already matches → no-op (ref-equal).
+  const keys = Object.keys(updates) as Array<keyof Omit<Resource, "id">>;
+  if (keys.every((k) => updates[k] === resource[k])) return project;
+  return {
+    ...project,
+    resources: project.resources!.map((r) => (r.id === resourceId ? { ...r, ...updates } : r)),
+    // A rename changes no schedule; a capacity change does.
+    scenarios:
+      updates.capacity !== undefined && updates.capacity !== resource.capacity
+        ? invalidateHolders(project, resourceId)
+        : project.scenarios,
+  };
+}
+
+/**
+ * Remove a resource and every assignment to it, in every scenario — locked ones included,
+ * as with the project calendar: the pool is project-level, and an assignment to a resource
+ * that no longer exists would be a dangling reference.
+ */
+export function removeResource(project: Project, resourceId: string): Project {
+  if (!project.resources?.some((r) => r.id === resourceId)) return project;
+  return {
+    ...project,
+    resources: project.resources.filter((r) => r.id !== resourceId),
+    scenarios: invalidateHolders(project, resourceId).map((s) => ({
+      ...s,
+      activities: s.activities.map((a) => {
+        if (!a.resourceAssignments?.some((ra) => ra.resourceId === resourceId)) return a;
+        const kept = a.resourceAssignments.filter((ra) => ra.resourceId !== resourceId);
+        return { ...a, resourceAssignments: kept.length > 0 ? kept : undefined };
+      }),
+    })),
+  };
+}
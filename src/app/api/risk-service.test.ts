@@ -0,0 +1,139 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, RiskEvent, Scenario, SimulationRun } from "@domain/models/types";
+import { RISK_PROBABILITY_MAX, RISKS_MAX } from "@domain/models/types";
+import { addRisk, updateRisk, removeRisk, setRiskActivity, pruneRiskActivities } from "./risk-service";
+
+function makeActivity(id: string): Activity {
+  return {
+    id,
+    name: id,
+    min: 1,
+    mostLikely: 2,
+    max: 3,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+  };
+}
+
+const VENDOR = { name: "Vendor API late", probability: 0.3, impactMin: 10, impactMostLikely: 15, impactMax: 20 };
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2025-01-01",
+    activities: [makeActivity("a1"), makeActivity("a2"), makeActivity("a3")],
+    dependencies: [],
+    milestones: [],
+    settings: {
+      defaultConfidenceLevel: "mediumConfidence",
+      defaultDistributionType: "triangular",
+      trialCount: 50000,
+      rngSeed: "seed",
+      probabilityTarget: 0.5,
+      projectProbabilityTarget: 0.95,
+      heuristicEnabled: false,
+      heuristicMinPercent: 75,
+      heuristicMaxPercent: 200,
+      dependencyMode: false,
+      parkinsonsLawEnabled: true,
+    },
+    risks: [
+      { id: "r1", ...VENDOR, activityIds: ["a1", "a2"] },
+      { id: "r2", name: "Key hire leaves", probability: 0.1, impactMin: 5, impactMostLikely: 5, impactMax: 10, activityIds: ["a2"] },
+    ],
+    simulationResults: { id: "sim1" } as SimulationRun,
+    ...overrides,
+  };
+}
+
+describe("addRisk", () => {
+  it("appends a risk affecting nothing and keeps the simulation results", () => {
+    const result = addRisk(makeScenario(), VENDOR, "r3");
+    expect(result.risks!.at(-1)).toEqual({ id: "r3", ...VENDOR, activityIds: [] });
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("clamps the probability and refuses an unordered impact or a full register", () => {
+    expect(addRisk(makeScenario(), { ...VENDOR, probability: 1 }, "r3").risks!.at(-1)!.probability)
+      .toBe(RISK_PROBABILITY_MAX);
+    const scenario = makeScenario();
+    expect(addRisk(scenario, { ...VENDOR, impactMostLikely: 25 })).toBe(scenario);
+    expect(addRisk(scenario, { ...VENDOR, impactMin: -1 })).toBe(scenario);
+    const full: RiskEvent[] = Array.from({ length: RISKS_MAX }, (_, i) => ({
+      id: `r${i}`, ...VENDOR, activityIds: [],
+    }));
+    const fullScenario = makeScenario({ risks: full });
+    expect(addRisk(fullScenario, VENDOR)).toBe(fullScenario);
+  });
+});
+
+describe("updateRisk", () => {
+  it("clears the results for a new probability or impact but not for a rename", () => {
+    const scenario = makeScenario();
+    const renamed = updateRisk(scenario, "r1", { name: "Vendor SDK late" });
+    expect(renamed.risks![0]!.name).toBe("Vendor SDK late");
+    expect(renamed.simulationResults).toBeDefined();
+    const likelier = updateRisk(scenario, "r1", { probability: 0.5 });
+    expect(likelier.risks![0]!.probability).toBe(0.5);
+    expect(likelier.simulationResults).toBeUndefined();
+    expect(updateRisk(scenario, "r1", { impactMax: 30 }).simulationResults).toBeUndefined();
+  });
+
+  it("is ref-equal for an unknown risk, an unchanged value or an unordered impact", () => {
+    const scenario = makeScenario();
+    expect(updateRisk(scenario, "nope", { name: "X" })).toBe(scenario);
+    expect(updateRisk(scenario, "r1", { probability: 0.3 })).toBe(scenario);
+    expect(updateRisk(scenario, "r1", { impactMin: 16 })).toBe(scenario);
+  });
+});
+
+describe("removeRisk", () => {
+  it("removes the risk and clears the results", () => {
+    const result = removeRisk(makeScenario(), "r1");
+    expect(result.risks!.map((r) => r.id)).toEqual(["r2"]);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("is ref-equal for an unknown risk", () => {
+    const scenario = makeScenario();
+    expect(removeRisk(scenario, "nope")).toBe(scenario);
+  });
+});
+
+describe("setRiskActivity", () => {
+  it("lets an activity be affected by several risks", () => {
+    const result = setRiskActivity(makeScenario(), "r2", "a1", true);
+    expect(result.risks![0]!.activityIds).toEqual(["a1", "a2"]);
+    expect(result.risks![1]!.activityIds).toEqual(["a2", "a1"]);
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("takes an activity off a risk", () => {
+    const result = setRiskActivity(makeScenario(), "r1", "a1", false);
+    expect(result.risks![0]!.activityIds).toEqual(["a2"]);
+  });
+
+  it("is ref-equal for an unknown activity or risk, or no change", () => {
+    const scenario = makeScenario();
+    expect(setRiskActivity(scenario, "r1", "zz", true)).toBe(scenario);
+    expect(setRiskActivity(scenario, "zz", "a3", true)).toBe(scenario);
+    expect(setRiskActivity(scenario, "r1", "a1", true)).toBe(scenario);
+    expect(setRiskActivity(scenario, "r1", "a3", false)).toBe(scenario);
+  });
+});
+
+describe("pruneRiskActivities", () => {
+  it("drops removed activities, keeping emptied risks, and returns the same array otherwise", () => {
+    const risks = makeScenario().risks;
+    expect(pruneRiskActivities(risks, new Set(["a3"]))).toBe(risks);
+    const pruned = pruneRiskActivities(risks, new Set(["a2"]))!;
+    expect(pruned.map((r) => r.activityIds)).toEqual([["a1"], []]);
+    expect(pruneRiskActivities(undefined, new Set(["a1"]))).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  RISK_PROBABILITY_MAX,
+  RISKS_MAX,
+  type RiskEvent,
+  type Scenario,
+} from "@domain/models/types";
+import { generateId } from "./id";
+
+/**
+ * The risk register lives on the SCENARIO and feeds the simulation (risk-events.ts), so
+ * any change but a rename clears the results. Unlike correlation groups, an activity may
+ * be affected by any number of risks.
+ */
+
+/** What the user edits on a risk; `id` and `activityIds` have their own operations. */
+export type RiskFields = Omit<RiskEvent, "id" | "activityIds">;
+
+function clampProbability(probability: number): number {
+  return Math.min(Math.max(probability, 0), RISK_PROBABILITY_MAX);
+}
+
+function hasOrderedImpact(r: Pick<RiskEvent, "impactMin" | "impactMostLikely" | "impactMax">): boolean {
+  return r.impactMin >= 0 && r.impactMin <= r.impactMostLikely && r.impactMostLikely <= r.impactMax;
+}
+
+/**
+ * Add a risk affecting no activity yet. Refused (ref-equal) once the register holds
+ * RISKS_MAX, or for an impact that is not min ≤ most likely ≤ max.
+ */
+export function addRisk(scenario: Scenario, fields: RiskFields, id: string = generateId()): Scenario {
+  const risks = scenario.risks ?? [];
+  if (risks.length >= RISKS_MAX || !hasOrderedImpact(fields)) return scenario;
+  const risk: RiskEvent = { id, ...fields, probability: clampProbability(fields.probability), activityIds: [] };
+  // It affects nothing yet, so the results stay.
+  return { ...scenario, risks: [...risks, risk] };
+}
+
+/** Edit a risk's fields. An update that would unorder the impact is refused (ref-equal). */
+export function updateRisk(scenario: Scenario, riskId: string, updates: Partial<RiskFields>): Scenario {
+  const risks = scenario.risks ?? [];
+  const risk = risks.find((r) => r.id === riskId);
+  if (!risk) return scenario; // existence guard (ref-equal)
+  const next: RiskEvent = { ...risk, ...updates };
+  if (updates.probability !== undefined) next.probability = clampProbability(updates.probability);
+  if (!hasOrderedImpact(next)) return scenario;
+  const keys = Object.keys(next) as Array<keyof RiskEvent>;
+  const changed = keys.filter((k) => next[k] !== risk[k]);
+  if (changed.length === 0) return scenario; // value-equality (ref-equal)
+  const renameOnly = changed.every((k) => k === "name");
+  return {
+    ...scenario,
+    risks: risks.map((r) => (r.id === riskId ? next : r)),
+    ...(renameOnly ? {} : { simulationResults: undefined }),
+  };
+}
+
+export function removeRisk(scenario: Scenario, riskId: string): Scenario {
+  const risks = scenario.risks ?? [];
+  if (!risks.some((r) => r.id === riskId)) return scenario; // same reference, no change
+  return { ...scenario, risks: risks.filter((r) => r.id !== riskId), simulationResults: undefined };
+}
+
+/** Mark an activity as affected by a risk, or no longer affected. */
+export function setRiskActivity(
+  scenario: Scenario,
+  riskId: string,
+  activityId: string,
+  affected: boolean
+): Scenario {
+  if (!scenario.activities.some((a) => a.id === activityId)) return scenario;
+  const risks = scenario.risks ?? [];
+  const risk = risks.find((r) => r.id === riskId);
+  if (!risk || risk.activityIds.includes(activityId) === affected) return scenario; // ref-equal
+  const activityIds = affected
+    ? [...risk.activityIds, activityId]
+    : risk.activityIds.filter((id) => id !== activityId);
+  return {
+    ...scenario,
+    risks: risks.map((r) => (r.id === riskId ? { ...r, activityIds } : r)),
+    simulationResults: undefined,
+  };
+}
+
+/**
+ * Drop removed activities from every risk (see pruneCorrelationGroups); returns the same
+ * array when no risk affected any of them. A risk left affecting nothing stays in the
+ * register — it is still a risk, just not yet placed in the schedule.
+ */
+export function pruneRiskActivities(
+  risks: RiskEvent[] | undefined,
+  removedIds: Set<string>
+): RiskEvent[] | undefined {
+  if (!risks || !risks.some((r) => r.activityIds.some((id) => removedIds.has(id)))) return risks;
+  return risks.map((r) => ({ ...r, activityIds: r.activityIds.filter((id) => !removedIds.has(id)) }));
+}
@@ -20,6 +20,7 @@ import type {
   ActivityBand,
   ActivityDependency,
   DeterministicSchedule,
+  ScenarioBaseline,
   ScenarioSettings,
 } from "@domain/models/types";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
@@ -307,6 +308,22 @@ describe("buildSuccessorMap", () => {
     expect(map.get("a2")).toBe("3FS-1d");
     expect(map.has("a3")).toBe(false);
   });
+
+  it("marks elapsed-day lags with an \"ed\" suffix", () => {
+    const elapsedDeps = dependencies.map((d) =>
+      d.lagDays === 2 ? { ...d, lagUnit: "elapsed" as const } : d
+    );
+    const map = buildSuccessorMap(activities, elapsedDeps);
+    expect(map.get("a1")).toBe("2FS, 3FS+2ed");
+  });
+
+  it("shows percentage lags as percentages", () => {
+    const percentDeps = dependencies.map((d) =>
+      d.lagDays === 2 ? { ...d, type: "SS" as const, lagDays: 0, lagPercent: 60 } : d
+    );
+    const map = buildSuccessorMap(activities, percentDeps);
+    expect(map.get("a1")).toBe("2FS, 3SS+60%");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -630,6 +647,158 @@ describe("constraint columns in sequential mode (v0.57.3)", () => {
   });
 });
 
+describe("baseline variance columns", () => {
+  // Baseline: a1 finished a day earlier (Mon 03-30) and a2 was a day shorter; a3 is new.
+  const baseline: ScenarioBaseline = {
+    id: "b1",
+    name: "Approved",
+    capturedAt: "2026-03-01T09:00:00.000Z",
+    projectEndDate: "2026-04-20",
+    spanDays: 26,
+    activities: [
+      { activityId: "a1", startDate: "2026-03-16", endDate: "2026-03-30", duration: 11 },
+      { activityId: "a2", startDate: "2026-03-31", endDate: "2026-04-13", duration: 9 },
+    ],
+    milestones: [],
+  };
+
+  it("buildScheduleHeaders puts the variance columns right after End Date", () => {
+    const headers = buildScheduleHeaders(true, "P50", true, true);
+    const end = headers.indexOf("End Date");
+    expect(headers.slice(end + 1, end + 4)).toEqual([
+      "Start Var (days)", "Finish Var (days)", "Duration Var (days)",
+    ]);
+    expect(buildScheduleHeaders(true, "P50", true)).not.toContain("Start Var (days)");
+  });
+
+  it("buildGridRows reports working-day variance, blank for activities the baseline lacks", () => {
+    const rows = buildGridRows(makeParams({ baseline }));
+    expect(rows[0]).toMatchObject({ startVariance: 0, finishVariance: 1, durationVariance: 1 });
+    expect(rows[1]).toMatchObject({ startVariance: 1, finishVariance: 1, durationVariance: 1 });
+    expect(rows[2]).toMatchObject({ startVariance: "", finishVariance: "", durationVariance: "" });
+    expect(buildGridRows(makeParams())[0]!.finishVariance).toBeUndefined();
+  });
+
+  it("buildSummaryData names the baseline and the finish variance", () => {
+    const summary = buildSummaryData(makeParams({ baseline }));
+    expect(summary.find((r) => r.key === "Baseline")?.value).toBe("Approved");
+    expect(summary.find((r) => r.key === "Baseline Finish")?.value).toBe("04/20/2026");
+    expect(summary.find((r) => r.key === "Finish Variance")?.value).toBe("+4 days");
+    expect(buildSummaryData(makeParams()).some((r) => r.key === "Baseline")).toBe(false);
+  });
+
+  it("CSV exports the variance values with the totals row aligned", () => {
+    const lines = exportScheduleCsv(makeParams({ baseline })).split("\n");
+    const headerCells = lines.find((l) => l.startsWith("#,"))!.split(",");
+    const finishIdx = headerCells.indexOf("Finish Var (days)");
+    expect(lines.find((l) => l.startsWith("1,"))!.split(",")[finishIdx]).toBe("1");
+    expect(lines[lines.length - 1]!.split(",").length).toBe(headerCells.length);
+  });
+
+  it("XLSX exports the variance values with aligned widths", async () => {
+    const ExcelJS = await import("exceljs");
+    const headers = buildScheduleHeaders(false, "P50", false, true);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.load(await exportScheduleXlsx(makeParams({ baseline })));
+    const ws = wb.getWorksheet("Schedule")!;
+    const headerRow = findHeaderRow(ws);
+    const durationCol = headers.indexOf("Duration Var (days)") + 1; // 1-based
+    expect(ws.getCell(headerRow, durationCol).value).toBe("Duration Var (days)");
+    expect(ws.getCell(headerRow + 2, durationCol).value).toBe(1);
+    expect(ws.columnCount).toBe(headers.length);
+    expect(ws.getColumn(headers.length).width).toBe(10);
+  });
+});
+
+describe("criticality column", () => {
+  const criticalityIndex = { a1: 1, a2: 0.374 };
+  const depSettings = { ...settings, dependencyMode: true };
+
+  it("buildScheduleHeaders puts Criticality after the float columns", () => {
+    const headers = buildScheduleHeaders(true, "P50", true, false, true);
+    expect(headers[headers.indexOf("Free Float (days)") + 1]).toBe("Criticality (%)");
+    expect(buildScheduleHeaders(true, "P50")).not.toContain("Criticality (%)");
+  });
+
+  it("buildGridRows reports whole percents, blank for an activity the run left out", () => {
+    const rows = buildGridRows(makeParams({ settings: depSettings, criticalityIndex }));
+    expect(rows.map((r) => r.criticality)).toEqual([100, 37, ""]);
+    expect(buildGridRows(makeParams({ criticalityIndex }))[0]!.criticality).toBeUndefined();
+  });
+
+  it("CSV exports the column only in dependency mode, totals aligned", () => {
+    const lines = exportScheduleCsv(makeParams({ settings: depSettings, criticalityIndex })).split("\n");
+    const headerCells = lines.find((l) => l.startsWith("#,"))!.split(",");
+    const idx = headerCells.indexOf("Criticality (%)");
+    expect(lines.find((l) => l.startsWith("2,"))!.split(",")[idx]).toBe("37");
+    expect(lines[lines.length - 1]!.split(",").length).toBe(headerCells.length);
+    expect(exportScheduleCsv(makeParams({ criticalityIndex }))).not.toContain("Criticality");
+  });
+
+  it("XLSX exports the column with aligned widths", async () => {
+    const ExcelJS = await import("exceljs");
+    const headers = buildScheduleHeaders(true, "P50", true, false, true);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.load(await exportScheduleXlsx(makeParams({ settings: depSettings, criticalityIndex })));
+    const ws = wb.getWorksheet("Schedule")!;
+    const headerRow = findHeaderRow(ws);
+    const col = headers.indexOf("Criticality (%)") + 1; // 1-based
+    expect(ws.getCell(headerRow, col).value).toBe("Criticality (%)");
+    expect(ws.getCell(headerRow + 1, col).value).toBe(100);
+    expect(ws.getColumn(col).width).toBe(12);
+    expect(ws.columnCount).toBe(headers.length);
+    expect(ws.getColumn(headers.length).width).toBe(10);
+  });
+});
+
+describe("simulated date columns", () => {
+  // 2026-03-16 is a Monday; a2 and a3 were not recorded.
+  const activityDates = {
+    a1: { start: { 50: 0, 80: 0, 95: 0 }, finish: { 50: 10, 80: 12, 95: 15 } },
+  };
+
+  it("buildScheduleHeaders puts the six date columns after the deterministic dates", () => {
+    const headers = buildScheduleHeaders(false, "P50", false, false, false, true);
+    expect(headers.slice(headers.indexOf("End Date") + 1, headers.indexOf("End Date") + 7)).toEqual([
+      "Sim. Start P50", "Sim. Start P80", "Sim. Start P95",
+      "Sim. Finish P50", "Sim. Finish P80", "Sim. Finish P95",
+    ]);
+    expect(buildScheduleHeaders(false, "P50")).not.toContain("Sim. Start P50");
+  });
+
+  it("buildGridRows formats each percentile as a working date, blank for an activity the run left out", () => {
+    const rows = buildGridRows(makeParams({ activityDates }));
+    expect(rows[0]!.simulatedDates).toEqual([
+      "03/16/2026", "03/16/2026", "03/16/2026", "03/27/2026", "03/31/2026", "04/03/2026",
+    ]);
+    expect(rows[1]!.simulatedDates).toEqual(["", "", "", "", "", ""]);
+    expect(buildGridRows(makeParams())[0]!.simulatedDates).toBeUndefined();
+  });
+
+  it("CSV exports the columns in sequential mode, totals aligned", () => {
+    const lines = exportScheduleCsv(makeParams({ activityDates })).split("\n");
+    const headerCells = lines.find((l) => l.startsWith("#,"))!.split(",");
+    const idx = headerCells.indexOf("Sim. Finish P95");
+    expect(lines.find((l) => l.startsWith("1,"))!.split(",")[idx]).toBe("04/03/2026");
+    expect(lines[lines.length - 1]!.split(",").length).toBe(headerCells.length);
+  });
+
+  it("XLSX exports the columns with aligned widths", async () => {
+    const ExcelJS = await import("exceljs");
+    const headers = buildScheduleHeaders(false, "P50", false, false, false, true);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.load(await exportScheduleXlsx(makeParams({ activityDates })));
+    const ws = wb.getWorksheet("Schedule")!;
+    const headerRow = findHeaderRow(ws);
+    const col = headers.indexOf("Sim. Finish P80") + 1; // 1-based
+    expect(ws.getCell(headerRow, col).value).toBe("Sim. Finish P80");
+    expect(ws.getCell(headerRow + 1, col).value).toBe("03/31/2026");
+    expect(ws.getColumn(col).width).toBe(16);
+    expect(ws.columnCount).toBe(headers.length);
+    expect(ws.getColumn(headers.length).width).toBe(10);
+  });
+});
+
 describe("xlsxSanitize", () => {
   it.each(["=", "+", "-", "@", "\t", "\r"])("prefixes strings starting with '%s'", (ch) => {
     const input = `${ch}dangerous`;
@@ -5,22 +5,30 @@
 import type {
   Activity,
   ActivityBand,
+  ActivityDateResult,
   ActivityDependency,
   Calendar,
   DateFormatPreference,
   DeterministicSchedule,
   Milestone,
+  ScenarioBaseline,
   ScenarioSettings,
+  ScheduledActivity,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
-import { RSM_LABELS } from "@domain/models/types";
+import { ACTIVITY_DATE_PERCENTILES, RSM_LABELS } from "@domain/models/types";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
 import {
   formatDateDisplay,
   durationToFinishDateISO,
 } from "@core/calendar/calendar";
-import { distributionLabel, statusLabel } from "@domain/helpers/format-labels";
+import { distributionLabel, formatLag, statusLabel, usesConfidenceLevel } from "@domain/helpers/format-labels";
 import { hasAnyConstraint } from "@domain/helpers/constraint-labels";
+import { computeBaselineVariance, type ActivityVariance } from "@core/schedule/baseline";
+import {
+  computeActivityDateForecasts,
+  type ActivityDateForecast,
+} from "@core/simulation/activity-dates";
 
 // ---------------------------------------------------------------------------
 // Public types
@@ -39,6 +47,9 @@ export interface ScheduleExportParams {
   calendar?: WorkCalendar | Calendar;
   dateFormat: DateFormatPreference;
   bands?: ActivityBand[]; // default [] when absent
+  baseline?: ScenarioBaseline; // active baseline; adds the variance columns when present
+  criticalityIndex?: Record<string, number>; // from the last simulation; dependency mode only
+  activityDates?: Record<string, ActivityDateResult>; // from the last simulation; adds the P50/P80/P95 date columns
 }
 
 // ---------------------------------------------------------------------------
@@ -94,10 +105,30 @@ export function buildSummaryData(params: ScheduleExportParams): SummaryRow[] {
     { key: "Project Target", value: `P${Math.round(settings.projectProbabilityTarget * 100)}` },
     { key: "Schedule Buffer", value: bufferDaysStr === "N/A" ? "N/A" : `${bufferDaysStr} days` },
     { key: "Dependency Mode", value: settings.dependencyMode ? "On" : "Off" },
+    ...buildBaselineSummary(params),
     { key: "Exported", value: new Date().toISOString() },
   ];
 }
 
+/** Baseline rows for the summary block; none without an active baseline. */
+function buildBaselineSummary(params: ScheduleExportParams): SummaryRow[] {
+  const { baseline, schedule, calendar, dateFormat } = params;
+  if (!baseline) return [];
+  const variance = computeBaselineVariance(
+    baseline, schedule, params.activities, params.milestones, calendar,
+  );
+  return [
+    { key: "Baseline", value: baseline.name },
+    { key: "Baseline Finish", value: formatDateDisplay(baseline.projectEndDate, dateFormat) },
+    { key: "Finish Variance", value: `${formatVariance(variance.projectFinishDays)} days` },
+  ];
+}
+
+/** Signed variance, "+" for a slip so it never reads as a bare count. */
+function formatVariance(days: number): string {
+  return days > 0 ? `+${days}` : `${days}`;
+}
+
 function formatItemColumn(
   items: { completed: boolean; text: string }[] | undefined,
 ): { summary: string; details: string } | null {
@@ -123,6 +154,12 @@ export interface GridRow {
   duration: number;
   startDate: string;
   endDate: string;
+  /** Working days against the active baseline; "" for an activity it does not hold. */
+  startVariance?: number | "";
+  finishVariance?: number | "";
+  durationVariance?: number | "";
+  /** Simulated start P50/P80/P95 then finish P50/P80/P95; blank for an activity the run left out. */
+  simulatedDates?: string[];
   predecessors?: string;
   successors?: string;
   constraintType?: string;
@@ -131,6 +168,8 @@ export interface GridRow {
   constraintNote?: string;
   totalFloat?: number | "";
   freeFloat?: number | "";
+  /** Percent of trials critical; "" for a completed activity or one added since the run. */
+  criticality?: number | "";
   tasks?: string;
   taskDetails?: string;
   deliverables?: string;
@@ -144,14 +183,8 @@ function buildActivityIndexMap(activities: Activity[]): Map<string, number> {
   return map;
 }
 
-function formatDepRef(
-  activityIndex: number,
-  lagDays: number,
-  type: string
-): string {
-  if (lagDays === 0) return `${activityIndex}${type}`;
-  const sign = lagDays > 0 ? "+" : "";
-  return `${activityIndex}${type}${sign}${lagDays}d`;
+function formatDepRef(activityIndex: number, dep: ActivityDependency): string {
+  return `${activityIndex}${dep.type}${formatLag(dep)}`;
 }
 
 export function buildPredecessorMap(
@@ -163,7 +196,7 @@ export function buildPredecessorMap(
   for (const dep of dependencies) {
     const fromIdx = indexMap.get(dep.fromActivityId);
     if (fromIdx === undefined) continue;
-    const ref = formatDepRef(fromIdx, dep.lagDays, dep.type);
+    const ref = formatDepRef(fromIdx, dep);
     const existing = result.get(dep.toActivityId);
     result.set(dep.toActivityId, existing ? `${existing}, ${ref}` : ref);
   }
@@ -179,7 +212,7 @@ export function buildSuccessorMap(
   for (const dep of dependencies) {
     const toIdx = indexMap.get(dep.toActivityId);
     if (toIdx === undefined) continue;
-    const ref = formatDepRef(toIdx, dep.lagDays, dep.type);
+    const ref = formatDepRef(toIdx, dep);
     const existing = result.get(dep.fromActivityId);
     result.set(dep.fromActivityId, existing ? `${existing}, ${ref}` : ref);
   }
@@ -198,13 +231,18 @@ export function buildGridRows(params: ScheduleExportParams): GridRow[] {
   const succMap = settings.dependencyMode
     ? buildSuccessorMap(activities, dependencies)
     : undefined;
+  const variance = params.baseline
+    ? computeBaselineVariance(params.baseline, schedule, activities, params.milestones, params.calendar)
+    : undefined;
+  const forecasts = params.activityDates
+    ? computeActivityDateForecasts(params.activityDates, params.startDate, params.calendar)
+    : undefined;
 
   return activities.map((activity, i) => {
     const sa = scheduledMap.get(activity.id);
     const showActual =
       activity.status === "complete" || activity.status === "inProgress";
-    const usesConfidence =
-      activity.distributionType === "normal" || activity.distributionType === "logNormal";
+    const usesConfidence = usesConfidenceLevel(activity.distributionType);
     const row: GridRow = {
       activityId: activity.id,
       num: i + 1,
@@ -222,10 +260,9 @@ export function buildGridRows(params: ScheduleExportParams): GridRow[] {
       startDate: sa ? fmt(sa.startDate) : "",
       endDate: sa ? fmt(sa.endDate) : "",
     };
-    if (settings.dependencyMode) {
-      row.totalFloat = sa?.totalFloat ?? "";
-      row.freeFloat = sa?.freeFloat ?? "";
-    }
+    if (variance) applyVarianceColumns(row, variance.activities.get(activity.id));
+    if (forecasts) row.simulatedDates = simulatedDateCells(forecasts.get(activity.id), fmt);
+    if (settings.dependencyMode) applyFloatColumns(row, sa, params.criticalityIndex);
     if (predMap) row.predecessors = predMap.get(activity.id) ?? "";
     if (succMap) row.successors = succMap.get(activity.id) ?? "";
     // Same rule as the grid's shouldShowConstraintColumn (v0.52.1): dependency
@@ -246,6 +283,50 @@ export function buildGridRows(params: ScheduleExportParams): GridRow[] {
   });
 }
 
+function applyVarianceColumns(row: GridRow, v: ActivityVariance | undefined): void {
+  row.startVariance = v?.startDays ?? "";
+  row.finishVariance = v?.finishDays ?? "";
+  row.durationVariance = v?.durationDays ?? "";
+}
+
+const DATE_PERCENTILE_HEADERS = [
+  ...ACTIVITY_DATE_PERCENTILES.map((p) => `Sim. Start P${p}`),
+  ...ACTIVITY_DATE_PERCENTILES.map((p) => `Sim. Finish P${p}`),
+];
+
+function simulatedDateCells(
+  forecast: ActivityDateForecast | undefined,
+  fmt: (iso: string) => string,
+): string[] {
+  if (!forecast) return DATE_PERCENTILE_HEADERS.map(() => "");
+  return [forecast.start, forecast.finish].flatMap((dates) =>
+    ACTIVITY_DATE_PERCENTILES.map((p) => fmt(dates[p]!)),
+  );
+}
+
+/** Dependency mode only: the floats, and criticality once a run has measured it. */
+function applyFloatColumns(
+  row: GridRow,
+  sa: ScheduledActivity | undefined,
+  criticalityIndex: Record<string, number> | undefined,
+): void {
+  row.totalFloat = sa?.totalFloat ?? "";
+  row.freeFloat = sa?.freeFloat ?? "";
+  if (!criticalityIndex) return;
+  const share = criticalityIndex[row.activityId];
+  row.criticality = share === undefined ? "" : Math.round(share * 100);
+}
+
+/** The criticality column exports only beside the float columns it explains. */
+export function hasCriticalityColumn(params: ScheduleExportParams): boolean {
+  return params.settings.dependencyMode && params.criticalityIndex !== undefined;
+}
+
+/** The simulated date columns export in either mode once a run has recorded them. */
+export function hasDatePercentileColumns(params: ScheduleExportParams): boolean {
+  return params.activityDates !== undefined;
+}
+
 /**
  * Column headers for the schedule grid export, shared by the CSV and XLSX
  * formatters (their header rows must stay byte-identical). "Description" is the
@@ -255,11 +336,20 @@ export function buildGridRows(params: ScheduleExportParams): GridRow[] {
  * `hasDeps` (a sequential-mode scenario with a constrained activity exports
  * them too — the grid's v0.52.1 rule). It defaults to `hasDeps`, which is the
  * pre-v0.57.3 behavior: dependency mode always includes them.
+ *
+ * `hasBaseline` adds the three variance columns right after "End Date", so they
+ * sit beside the dates they measure. `hasCriticality` adds "Criticality (%)" after
+ * the float columns — the simulated counterpart of "Total Float = 0".
+ * `hasDatePercentiles` adds the six simulated start/finish date columns after the
+ * deterministic dates and their variance.
  */
 export function buildScheduleHeaders(
   hasDeps: boolean,
   pctLabel: string,
   hasConstraints: boolean = hasDeps,
+  hasBaseline: boolean = false,
+  hasCriticality: boolean = false,
+  hasDatePercentiles: boolean = false,
 ): string[] {
   const headers = [
     "#",
@@ -275,8 +365,13 @@ export function buildScheduleHeaders(
     "Start Date",
     "End Date",
   ];
+  if (hasBaseline) {
+    headers.push("Start Var (days)", "Finish Var (days)", "Duration Var (days)");
+  }
+  if (hasDatePercentiles) headers.push(...DATE_PERCENTILE_HEADERS);
   if (hasDeps) {
     headers.push("Total Float (days)", "Free Float (days)");
+    if (hasCriticality) headers.push("Criticality (%)");
     headers.push("Predecessors", "Successors");
   }
   if (hasConstraints) {
@@ -6,6 +6,7 @@ import type {
   Activity,
   Calendar,
   DeterministicSchedule,
+  WbsSummary,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import { computeDeterministicSchedule } from "@core/schedule/deterministic";
@@ -18,12 +19,16 @@ export function computeSchedule(
   activities: Activity[],
   startDate: string,
   probabilityTarget: number,
-  calendar?: WorkCalendar | Calendar
+  calendar?: WorkCalendar | Calendar,
+  summaries?: WbsSummary[],
+  statusDate?: string
 ): DeterministicSchedule {
   return computeDeterministicSchedule(
     activities,
     startDate,
     probabilityTarget,
-    calendar
+    calendar,
+    summaries,
+    statusDate
   );
 }
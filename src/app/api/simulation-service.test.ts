@@ -3,8 +3,10 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from "vitest";
-import { runSimulationSync } from "./simulation-service";
+import { runCompressionAdvice, runCompressionPlan, runSimulationSync } from "./simulation-service";
 import { runDependencyTrials, computeSimulationStats } from "@core/simulation/monte-carlo";
+import { GOAL_SEEK_TRIALS, planCompression, type CompressionPlan } from "@core/simulation/goal-seek";
+import { adviseCompression, type CompressionAdvice } from "@core/simulation/compression-advisor";
 import type { DependencySimulationParams } from "@core/simulation/worker-client";
 import type { Activity, ActivityDependency } from "@domain/models/types";
 
@@ -85,3 +87,55 @@ describe("runSimulationSync — dependency-mode constraint regression", () => {
     expect(directWith.percentiles[95]!).toBeGreaterThan(directWithout.percentiles[95]! + 50);
   });
 });
+
+describe("runSimulationSync — until converged", () => {
+  it("returns the last batch, marked with the precision it reached", () => {
+    const activities = [makeActivity({ id: "a1" }), makeActivity({ id: "a2" })];
+    const result = runSimulationSync(
+      activities, 100000, "sync-converge", undefined, undefined, undefined, undefined,
+      { percentile: 95, toleranceDays: 0.5 },
+    );
+    expect(result.trialCount).toBeLessThan(100000);
+    expect(result.samples).toHaveLength(result.trialCount);
+    expect(result.convergence).toMatchObject({ percentile: 95, toleranceDays: 0.5, converged: true });
+    // Same seed, same count: the converged run is an ordinary fixed-count run.
+    const fixed = runSimulationSync(activities, result.trialCount, "sync-converge", undefined);
+    expect(fixed.percentiles).toEqual(result.percentiles);
+    expect(fixed.convergence).toBeUndefined();
+  });
+});
+
+describe("runCompressionPlan / runCompressionAdvice", () => {
+  const activities = [makeActivity({ id: "a1" }), makeActivity({ id: "a2" })];
+  const dependencies: ActivityDependency[] = [{ fromActivityId: "a1", toActivityId: "a2", type: "FS", lagDays: 0 }];
+
+  it("plans on this thread when no worker can be created, as the worker would", () => {
+    // No Worker under vitest: the constructor throws and the fallback answers at once.
+    const plans: CompressionPlan[] = [];
+    const errors: string[] = [];
+    runCompressionPlan(
+      { activities, rngSeed: "plan", dependencyParams: { dependencyMode: true, dependencies } },
+      80,
+      8,
+      { onComplete: (plan) => plans.push(plan), onError: (message) => errors.push(message) },
+    );
+    expect(errors).toEqual([]);
+    expect(plans).toEqual([
+      planCompression({ activities, dependencies, trialCount: GOAL_SEEK_TRIALS, rngSeed: "plan" }, 80, 8),
+    ]);
+  });
+
+  it("ranks on this thread when no worker can be created", () => {
+    const advice: CompressionAdvice[] = [];
+    const errors: string[] = [];
+    runCompressionAdvice(
+      { activities, rngSeed: "advise", dependencyParams: { dependencyMode: true, dependencies } },
+      new Set(["a1", "a2"]),
+      { onComplete: (result) => advice.push(result), onError: (message) => errors.push(message) },
+    );
+    expect(errors).toEqual([]);
+    expect(advice).toEqual([
+      adviseCompression({ activities, dependencies, trialCount: GOAL_SEEK_TRIALS, rngSeed: "advise" }, new Set(["a1", "a2"])),
+    ]);
+  });
+});
@@ -2,13 +2,29 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, SimulationRun } from "@domain/models/types";
+import type { Activity, SamplingMethod, SimulationRun } from "@domain/models/types";
 import {
+  adviseCompressionInWorker,
+  planCompressionInWorker,
   runSimulationInWorker,
+  type CompressionRunParams,
   type SimulationHandle,
+  type WorkerTaskCallbacks,
   type DependencySimulationParams,
+  type UncertaintyParams,
 } from "@core/simulation/worker-client";
-import { runMonteCarloSimulation, runDependencyTrials, computeSimulationStats, computeMilestoneStats } from "@core/simulation/monte-carlo";
+import {
+  runMonteCarloSimulation,
+  runDependencyTrials,
+  computeSimulationStats,
+  computeMilestoneStats,
+  type DependencyMonteCarloInput,
+  type DependencyTrialsResult,
+} from "@core/simulation/monte-carlo";
+import { runUntilConverged, type ConvergenceTarget } from "@core/simulation/convergence";
+import { computeCostResult } from "@core/simulation/cost";
+import { GOAL_SEEK_TRIALS, planCompression, type CompressionPlan } from "@core/simulation/goal-seek";
+import { adviseCompression, type CompressionAdvice } from "@core/simulation/compression-advisor";
 import { generateId } from "./id";
 import { toMcConstraintMap } from "@core/schedule/constraint-utils";
 
@@ -18,9 +34,50 @@ export interface SimulationServiceCallbacks {
   onError: (message: string) => void;
 }
 
+/** The dependency-mode SimulationRun: the shared stats plus the per-group and per-activity extras. */
+function dependencyRunStats(
+  depResult: DependencyTrialsResult,
+  trialCount: number,
+  rngSeed: string,
+  samplingMethod?: SamplingMethod,
+): SimulationRun {
+  // Before computeSimulationStats sorts the samples: the joint confidence pairs trials.
+  const costResults = depResult.costSamples && computeCostResult(depResult.samples, depResult.costSamples);
+  const result = computeSimulationStats(depResult.samples, trialCount, rngSeed, depResult.exhaustedIds);
+  if (depResult.milestoneSamples) {
+    result.milestoneResults = computeMilestoneStats(depResult.milestoneSamples, trialCount);
+  }
+  if (depResult.summarySamples) {
+    result.summaryResults = computeMilestoneStats(depResult.summarySamples, trialCount);
+  }
+  if (depResult.criticalityIndex) {
+    result.criticalityIndex = depResult.criticalityIndex;
+  }
+  if (depResult.activitySensitivity) {
+    result.activitySensitivity = depResult.activitySensitivity;
+  }
+  if (depResult.riskResults) {
+    result.riskResults = depResult.riskResults;
+  }
+  if (depResult.mergePoints) {
+    result.mergePoints = depResult.mergePoints;
+  }
+  if (depResult.activityDates) {
+    result.activityDates = depResult.activityDates;
+  }
+  if (costResults) {
+    result.costResults = costResults;
+  }
+  if (samplingMethod === "latinHypercube") {
+    result.samplingMethod = samplingMethod;
+  }
+  return result;
+}
+
 /**
  * Synchronous simulation fallback used when Worker creation fails.
- * Handles both dependency-mode (graph-based) and sequential-mode runs.
+ * Handles both dependency-mode (graph-based) and sequential-mode runs, and the
+ * "until converged" batches the worker runs (`trialCount` is then the ceiling).
  *
  * Exported for regression testing of the dependency-mode constraint path
  * (the public `runSimulation` entry point reaches this only when Worker
@@ -33,43 +90,87 @@ export function runSimulationSync(
   deterministicDurations: number[] | undefined,
   dependencyParams?: DependencySimulationParams,
   sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+  uncertainty?: UncertaintyParams,
+  convergence?: ConvergenceTarget,
 ): SimulationRun {
-  if (dependencyParams?.dependencyMode) {
-    const durMap = dependencyParams.deterministicDurationMap
-      ? new Map(
-          Object.entries(dependencyParams.deterministicDurationMap).map(
-            ([k, v]) => [k, v as number]
-          )
+  const runBatch = (n: number) => runFixedSimulationSync(
+    activities, n, rngSeed, deterministicDurations, dependencyParams, sequentialConstraints, uncertainty,
+  );
+  if (!convergence) return runBatch(trialCount);
+  const converged = runUntilConverged(runBatch, convergence, trialCount, rngSeed);
+  return { ...converged.outcome, convergence: converged.convergence };
+}
+
+/**
+ * The dependency-mode engine input for a run: the worker-shaped params (records, for
+ * `postMessage`) turned back into the maps runDependencyTrials takes. Shared by the
+ * synchronous fallback and the goal-seek re-runs (goal-seek.ts).
+ */
+export function toDependencyTrialsInput(
+  activities: Activity[],
+  trialCount: number,
+  rngSeed: string,
+  dependencyParams: DependencySimulationParams,
+  uncertainty?: UncertaintyParams,
+): DependencyMonteCarloInput {
+  const durMap = dependencyParams.deterministicDurationMap
+    ? new Map(
+        Object.entries(dependencyParams.deterministicDurationMap).map(
+          ([k, v]) => [k, v as number]
         )
-      : undefined;
-    const milestoneActivityIds = dependencyParams.milestoneActivityIds
-      ? new Map(Object.entries(dependencyParams.milestoneActivityIds))
-      : undefined;
-    const activityEarliestStart = dependencyParams.activityEarliestStart
-      ? new Map(Object.entries(dependencyParams.activityEarliestStart))
-      : undefined;
-    // Convert constraintMap (Record → Map) through the SAME helper the worker uses.
-    // This path once lacked the validation filter entirely and silently dropped hard
-    // scheduling constraints (MSO/SNET/MFO/FNET), diverging from the worker path for
-    // the same project. It was fixed by copying the filter here; sharing it removes
-    // the second copy that made the divergence possible in the first place.
-    const constraintMap = toMcConstraintMap(dependencyParams.constraintMap);
+      )
+    : undefined;
+  const milestoneActivityIds = dependencyParams.milestoneActivityIds
+    ? new Map(Object.entries(dependencyParams.milestoneActivityIds))
+    : undefined;
+  const summaryActivityIds = dependencyParams.summaryActivityIds
+    ? new Map(Object.entries(dependencyParams.summaryActivityIds))
+    : undefined;
+  const activityEarliestStart = dependencyParams.activityEarliestStart
+    ? new Map(Object.entries(dependencyParams.activityEarliestStart))
+    : undefined;
+  // Convert constraintMap (Record → Map) through the SAME helper the worker uses.
+  // This path once lacked the validation filter entirely and silently dropped hard
+  // scheduling constraints (MSO/SNET/MFO/FNET), diverging from the worker path for
+  // the same project. It was fixed by copying the filter here; sharing it removes
+  // the second copy that made the divergence possible in the first place.
+  const constraintMap = toMcConstraintMap(dependencyParams.constraintMap);
 
-    const depResult = runDependencyTrials({
-      activities,
-      dependencies: dependencyParams.dependencies,
-      trialCount,
-      rngSeed,
-      deterministicDurationMap: durMap,
-      milestoneActivityIds,
-      activityEarliestStart,
-      constraintMap,
-    });
-    const result = computeSimulationStats(depResult.samples, trialCount, rngSeed, depResult.exhaustedIds);
-    if (depResult.milestoneSamples) {
-      result.milestoneResults = computeMilestoneStats(depResult.milestoneSamples, trialCount);
-    }
-    return result;
+  return {
+    activities,
+    dependencies: dependencyParams.dependencies,
+    trialCount,
+    rngSeed,
+    deterministicDurationMap: durMap,
+    milestoneActivityIds,
+    summaryActivityIds,
+    activityEarliestStart,
+    constraintMap,
+    elapsedLagCalendar: dependencyParams.elapsedLagCalendar,
+    resourceLeveling: dependencyParams.resourceLeveling,
+    activityCalendarAxis: dependencyParams.activityCalendarAxis,
+    correlationGroups: uncertainty?.correlationGroups,
+    risks: uncertainty?.risks,
+    branches: uncertainty?.branches,
+    samplingMethod: uncertainty?.samplingMethod,
+  };
+}
+
+/** One synchronous engine run of exactly `trialCount` trials. */
+function runFixedSimulationSync(
+  activities: Activity[],
+  trialCount: number,
+  rngSeed: string,
+  deterministicDurations: number[] | undefined,
+  dependencyParams?: DependencySimulationParams,
+  sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+  uncertainty?: UncertaintyParams,
+): SimulationRun {
+  if (dependencyParams?.dependencyMode) {
+    const depResult = runDependencyTrials(
+      toDependencyTrialsInput(activities, trialCount, rngSeed, dependencyParams, uncertainty),
+    );
+    return dependencyRunStats(depResult, trialCount, rngSeed, uncertainty?.samplingMethod);
   }
 
   return runMonteCarloSimulation({
@@ -78,6 +179,10 @@ export function runSimulationSync(
     rngSeed,
     deterministicDurations,
     sequentialConstraints: sequentialConstraints ?? undefined,
+    correlationGroups: uncertainty?.correlationGroups,
+    risks: uncertainty?.risks,
+    branches: uncertainty?.branches,
+    samplingMethod: uncertainty?.samplingMethod,
   });
 }
 
@@ -93,6 +198,8 @@ export function runSimulation(
   callbacks: SimulationServiceCallbacks,
   dependencyParams?: DependencySimulationParams,
   sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+  uncertainty?: UncertaintyParams,
+  convergence?: ConvergenceTarget,
 ): SimulationHandle {
   const simulationId = generateId();
 
@@ -103,12 +210,15 @@ export function runSimulation(
         callbacks.onComplete({ ...result, id: simulationId }, elapsedMs);
       },
       onError: callbacks.onError,
-    }, dependencyParams, sequentialConstraints);
+    }, dependencyParams, sequentialConstraints, uncertainty, convergence);
   } catch {
     // Worker creation failed — synchronous fallback
     try {
       const startTime = performance.now();
-      const result = runSimulationSync(activities, trialCount, rngSeed, deterministicDurations, dependencyParams, sequentialConstraints);
+      const result = runSimulationSync(
+        activities, trialCount, rngSeed, deterministicDurations, dependencyParams, sequentialConstraints,
+        uncertainty, convergence,
+      );
       const elapsedMs = performance.now() - startTime;
       callbacks.onComplete({ ...result, id: simulationId }, elapsedMs);
     } catch (err) {
@@ -121,3 +231,58 @@ export function runSimulation(
     return { cancel: () => {} };
   }
 }
+
+/**
+ * A worker task with the same synchronous fallback as runSimulation: when the worker
+ * cannot be created, `runSync` answers on this thread.
+ */
+function runWorkerTaskWithFallback<T>(
+  startWorker: () => SimulationHandle,
+  runSync: () => T,
+  callbacks: WorkerTaskCallbacks<T>,
+): SimulationHandle {
+  try {
+    return startWorker();
+  } catch {
+    try {
+      callbacks.onComplete(runSync());
+    } catch (err) {
+      callbacks.onError(err instanceof Error ? err.message : String(err));
+    }
+    return { cancel: () => {} };
+  }
+}
+
+/** The engine input for the synchronous goal-seek fallbacks. */
+function compressionInput(params: CompressionRunParams): DependencyMonteCarloInput {
+  return toDependencyTrialsInput(
+    params.activities, GOAL_SEEK_TRIALS, params.rngSeed, params.dependencyParams, params.uncertainty,
+  );
+}
+
+/** Make a goal-seek compression plan (goal-seek.ts) off the main thread where possible. */
+export function runCompressionPlan(
+  params: CompressionRunParams,
+  confidence: number,
+  targetDays: number,
+  callbacks: WorkerTaskCallbacks<CompressionPlan>,
+): SimulationHandle {
+  return runWorkerTaskWithFallback(
+    () => planCompressionInWorker(params, confidence, targetDays, callbacks),
+    () => planCompression(compressionInput(params), confidence, targetDays),
+    callbacks,
+  );
+}
+
+/** Rank the compression advisor's candidates (compression-advisor.ts) off the main thread where possible. */
+export function runCompressionAdvice(
+  params: CompressionRunParams,
+  criticalIds: ReadonlySet<string>,
+  callbacks: WorkerTaskCallbacks<CompressionAdvice>,
+): SimulationHandle {
+  return runWorkerTaskWithFallback(
+    () => adviseCompressionInWorker(params, criticalIds, callbacks),
+    () => adviseCompression(compressionInput(params), criticalIds),
+    callbacks,
+  );
+}
@@ -0,0 +1,139 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, Scenario, SimulationRun } from "@domain/models/types";
+import { addSummary, updateSummary, removeSummary, setActivitySummary } from "./wbs-service";
+
+function makeActivity(id: string, summaryId?: string): Activity {
+  return {
+    id,
+    name: id,
+    min: 1,
+    mostLikely: 2,
+    max: 3,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    summaryId,
+  };
+}
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Baseline",
+    startDate: "2025-01-01",
+    activities: [makeActivity("a1", "w2"), makeActivity("a2", "w1"), makeActivity("a3")],
+    dependencies: [],
+    milestones: [],
+    settings: {
+      defaultConfidenceLevel: "mediumConfidence",
+      defaultDistributionType: "triangular",
+      trialCount: 50000,
+      rngSeed: "seed",
+      probabilityTarget: 0.5,
+      projectProbabilityTarget: 0.95,
+      heuristicEnabled: false,
+      heuristicMinPercent: 75,
+      heuristicMaxPercent: 200,
+      dependencyMode: true,
+      parkinsonsLawEnabled: true,
+    },
+    summaries: [
+      { id: "w1", name: "Phase 1" },
+      { id: "w2", name: "Design", parentId: "w1" },
+      { id: "w3", name: "Phase 2" },
+    ],
+    simulationResults: { id: "sim1" } as SimulationRun,
+    ...overrides,
+  };
+}
+
+describe("addSummary", () => {
+  it("appends a summary and keeps the simulation results", () => {
+    const result = addSummary(makeScenario(), "Build", "w1", "w4");
+    expect(result.summaries!.at(-1)).toEqual({ id: "w4", name: "Build", parentId: "w1" });
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("starts the list on a scenario without one", () => {
+    const result = addSummary(makeScenario({ summaries: undefined }), "Build", undefined, "w1");
+    expect(result.summaries).toEqual([{ id: "w1", name: "Build", parentId: undefined }]);
+  });
+
+  it("refuses a parent that does not exist (ref-equal)", () => {
+    const scenario = makeScenario();
+    expect(addSummary(scenario, "Build", "missing")).toBe(scenario);
+  });
+});
+
+describe("updateSummary", () => {
+  it("renames and collapses without clearing results", () => {
+    const result = updateSummary(makeScenario(), "w1", { name: "Discovery", collapsed: true });
+    expect(result.summaries![0]).toEqual({ id: "w1", name: "Discovery", collapsed: true });
+    expect(result.simulationResults).toBeDefined();
+  });
+
+  it("re-parents and clears results", () => {
+    const result = updateSummary(makeScenario(), "w3", { parentId: "w1" });
+    expect(result.summaries![2]!.parentId).toBe("w1");
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("moves a summary to the top level", () => {
+    const result = updateSummary(makeScenario(), "w2", { parentId: undefined });
+    expect(result.summaries![1]!.parentId).toBeUndefined();
+  });
+
+  it("refuses a move beneath itself or a missing parent (ref-equal)", () => {
+    const scenario = makeScenario();
+    expect(updateSummary(scenario, "w1", { parentId: "w1" })).toBe(scenario);
+    expect(updateSummary(scenario, "w1", { parentId: "w2" })).toBe(scenario);
+    expect(updateSummary(scenario, "w1", { parentId: "missing" })).toBe(scenario);
+  });
+
+  it("returns the same reference for an unknown id or unchanged values", () => {
+    const scenario = makeScenario();
+    expect(updateSummary(scenario, "missing", { name: "X" })).toBe(scenario);
+    expect(updateSummary(scenario, "w1", { name: "Phase 1" })).toBe(scenario);
+  });
+});
+
+describe("removeSummary", () => {
+  it("moves child summaries and activities up to the removed summary's parent", () => {
+    const result = removeSummary(makeScenario(), "w2");
+    expect(result.summaries!.map((s) => s.id)).toEqual(["w1", "w3"]);
+    expect(result.activities[0]!.summaryId).toBe("w1");
+    expect(result.simulationResults).toBeUndefined();
+  });
+
+  it("moves children of a top-level summary to the top level", () => {
+    const result = removeSummary(makeScenario(), "w1");
+    expect(result.summaries!.find((s) => s.id === "w2")!.parentId).toBeUndefined();
+    expect(result.activities[1]!.summaryId).toBeUndefined();
+    expect(result.activities[0]!.summaryId).toBe("w2");
+  });
+
+  it("returns the same reference when the id is not found", () => {
+    const scenario = makeScenario();
+    expect(removeSummary(scenario, "missing")).toBe(scenario);
+  });
+});
+
+describe("setActivitySummary", () => {
+  it("assigns and unassigns, clearing results", () => {
+    const assigned = setActivitySummary(makeScenario(), "a3", "w3");
+    expect(assigned.activities[2]!.summaryId).toBe("w3");
+    expect(assigned.simulationResults).toBeUndefined();
+    expect(setActivitySummary(assigned, "a3", null).activities[2]!.summaryId).toBeUndefined();
+  });
+
+  it("returns the same reference for an unknown activity or summary, or no change", () => {
+    const scenario = makeScenario();
+    expect(setActivitySummary(scenario, "missing", "w1")).toBe(scenario);
+    expect(setActivitySummary(scenario, "a3", "missing")).toBe(scenario);
+    expect(setActivitySummary(scenario, "a2", "w1")).toBe(scenario);
+  });
+});
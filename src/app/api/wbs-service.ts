@@ -0,0 +1,98 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Scenario, WbsSummary } from "@domain/models/types";
+import { isWithinSummary } from "@core/schedule/wbs";
+import { generateId } from "./id";
+
+/**
+ * WBS summaries live on the SCENARIO, like bands. Unlike bands they are not display only:
+ * each summary gets its own finish distribution from the simulation, so a change to what
+ * sits beneath one clears the results. Renaming and collapsing do not.
+ */
+
+export function addSummary(
+  scenario: Scenario,
+  name: string,
+  parentId?: string,
+  id: string = generateId()
+): Scenario {
+  const summaries = scenario.summaries ?? [];
+  if (parentId !== undefined && !summaries.some((s) => s.id === parentId)) return scenario;
+  const summary: WbsSummary = { id, name, parentId };
+  // An empty summary changes no finish series, so the results stay.
+  return { ...scenario, summaries: [...summaries, summary] };
+}
+
+/**
+ * Rename, collapse/expand or re-parent a summary. A `parentId` that does not exist, or
+ * that would put the summary beneath itself, is refused (ref-equal) — the tree never
+ * holds a loop it would have to repair.
+ */
+export function updateSummary(
+  scenario: Scenario,
+  summaryId: string,
+  updates: Partial<Omit<WbsSummary, "id">>
+): Scenario {
+  const summaries = scenario.summaries ?? [];
+  const summary = summaries.find((s) => s.id === summaryId);
+  if (!summary) return scenario; // existence guard (ref-equal)
+  // Value-equality: every provided field already matches → no-op (ref-equal).
+  const keys = Object.keys(updates) as Array<keyof Omit<WbsSummary, "id">>;
+  if (keys.every((k) => updates[k] === summary[k])) return scenario;
+  const moves = "parentId" in updates && updates.parentId !== summary.parentId;
+  if (moves && updates.parentId !== undefined) {
+    const parentExists = summaries.some((s) => s.id === updates.parentId);
+    if (!parentExists || isWithinSummary(summaries, updates.parentId, summaryId)) return scenario;
+  }
+  return {
+    ...scenario,
+    summaries: summaries.map((s) => (s.id === summaryId ? { ...s, ...updates } : s)),
+    ...(moves ? { simulationResults: undefined } : {}),
+  };
+}
+
+/**
+ * Remove a summary without losing what was beneath it: its child summaries and
+ * activities move up to its own parent (or the top level).
+ */
+export function removeSummary(scenario: Scenario, summaryId: string): Scenario {
+  const summaries = scenario.summaries ?? [];
+  const removed = summaries.find((s) => s.id === summaryId);
+  if (!removed) return scenario; // same reference, no change
+  const parentId = removed.parentId;
+  return {
+    ...scenario,
+    summaries: summaries
+      .filter((s) => s.id !== summaryId)
+      .map((s) => (s.parentId === summaryId ? { ...s, parentId } : s)),
+    activities: scenario.activities.map((a) =>
+      a.summaryId === summaryId ? { ...a, summaryId: parentId } : a
+    ),
+    simulationResults: undefined,
+  };
+}
+
+/** Put an activity beneath a summary, or back at the top level with `null`. */
+export function setActivitySummary(
+  scenario: Scenario,
+  activityId: string,
+  summaryId: string | null
+): Scenario {
+  const activity = scenario.activities.find((a) => a.id === activityId);
+  if (!activity) return scenario; // activity must exist (ref-equal)
+  // When assigning (not unassigning), the summary must exist too.
+  if (summaryId !== null && !(scenario.summaries ?? []).some((s) => s.id === summaryId)) {
+    return scenario;
+  }
+  const nextSummaryId = summaryId ?? undefined;
+  if (activity.summaryId === nextSummaryId) return scenario; // value-equality (ref-equal)
+  return {
+    ...scenario,
+    activities: scenario.activities.map((a) =>
+      a.id === activityId ? { ...a, summaryId: nextSummaryId } : a
+    ),
+    simulationResults: undefined,
+  };
+}
@@ -15,6 +15,9 @@ import {
   lookupProbability,
   computeBatchPercentileCIs,
   computeStandardPercentileCIs,
+  rankValues,
+  pearsonCorrelation,
+  spearmanCorrelation,
 } from "./analytics";
 import { STANDARD_PERCENTILES } from "@domain/models/types";
 
@@ -104,6 +107,23 @@ describe("standardDeviation", () => {
   });
 });
 
+describe("rank correlation", () => {
+  it("rankValues keeps input order and averages ties", () => {
+    expect(Array.from(rankValues([30, 10, 20, 10]))).toEqual([4, 1.5, 3, 1.5]);
+  });
+
+  it("spearmanCorrelation scores any monotone relation ±1", () => {
+    const x = [1, 2, 3, 4, 5];
+    expect(spearmanCorrelation(x, x.map((v) => v ** 3))).toBe(1);
+    expect(spearmanCorrelation(x, x.map((v) => -Math.exp(v)))).toBe(-1);
+  });
+
+  it("pearsonCorrelation returns 0 for a constant series or mismatched lengths", () => {
+    expect(pearsonCorrelation([1, 2, 3], [4, 4, 4])).toBe(0);
+    expect(pearsonCorrelation([1, 2, 3], [1, 2])).toBe(0);
+  });
+});
+
 describe("histogram", () => {
   it("creates correct number of bins", () => {
     const arr = new Float64Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
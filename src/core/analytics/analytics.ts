@@ -73,6 +73,60 @@ export function standardDeviation(samples: Float64Array | number[]): number {
   return Math.sqrt(sumSq / n);
 }
 
+/**
+ * Rank of each value (1-based), ties sharing their average rank. The input is not
+ * reordered — `ranks[i]` belongs to `values[i]`.
+ */
+export function rankValues(values: Float64Array | number[]): Float64Array {
+  const n = values.length;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => values[a]! - values[b]!);
+  const ranks = new Float64Array(n);
+  let i = 0;
+  while (i < n) {
+    let j = i;
+    while (j + 1 < n && values[order[j + 1]!] === values[order[i]!]) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k]!] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Pearson correlation of two equal-length series; 0 when either is constant (a
+ * fixed-duration activity has no influence to measure, and NaN would poison a sort).
+ */
+export function pearsonCorrelation(
+  x: Float64Array | number[],
+  y: Float64Array | number[],
+): number {
+  const n = x.length;
+  if (n < 2 || y.length !== n) return 0;
+  const mx = mean(x);
+  const my = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i]! - mx;
+    const dy = y[i]! - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return 0;
+  // Clamped: rounding can land a perfect correlation a hair outside [−1, 1].
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+}
+
+/** Spearman rank correlation: Pearson on the ranks, so any monotone relation scores ±1. */
+export function spearmanCorrelation(
+  x: Float64Array | number[],
+  y: Float64Array | number[],
+): number {
+  return pearsonCorrelation(rankValues(x), rankValues(y));
+}
+
 /**
  * Generate equal-width histogram bins.
  */
@@ -198,12 +252,15 @@ export interface PercentileCI {
  * @param p - Percentile as integer (e.g., 95 for P95)
  * @param bootstrapIterations - Number of bootstrap resamples (default 1000)
  * @param ciLevel - Confidence level (default 0.95 for 95% CI)
+ * @param random - Uniform [0, 1) source for the resampling; pass a seeded one when the
+ *   interval has to be reproducible (the "until converged" stopping rule)
  */
 export function bootstrapPercentileCI(
   samples: Float64Array | number[],
   p: number,
   bootstrapIterations: number = 1000,
-  ciLevel: number = 0.95
+  ciLevel: number = 0.95,
+  random: () => number = Math.random
 ): PercentileCI {
   const n = samples.length;
   if (n === 0) {
@@ -220,8 +277,7 @@ export function bootstrapPercentileCI(
     // Resample with replacement
     const resample = new Float64Array(n);
     for (let i = 0; i < n; i++) {
-      // eslint-disable-next-line sonarjs/pseudo-random
-      const idx = Math.floor(Math.random() * n); // NOSONAR — bootstrap CI resampling, not security-sensitive
+      const idx = Math.floor(random() * n); // NOSONAR — bootstrap CI resampling, not security-sensitive
       resample[i] = samples[idx]!;
     }
     resample.sort();
@@ -5,6 +5,7 @@
 import { describe, it, expect } from "vitest";
 import {
   computeSensitivityAnalysis,
+  computeSampleSensitivity,
   getTopSensitiveActivities,
 } from "./sensitivity";
 import type { Activity } from "@domain/models/types";
@@ -165,3 +166,41 @@ describe("getTopSensitiveActivities", () => {
     expect(result).toEqual([]);
   });
 });
+
+describe("computeSampleSensitivity", () => {
+  // Project = driver + 10 each trial; "noise" is unrelated to the finish.
+  const driver = new Float64Array([4, 1, 3, 5, 2]);
+  const noise = new Float64Array([9, 1, 9, 1, 9]);
+  const project = new Float64Array([14, 11, 13, 15, 12]);
+
+  it("scores a driving activity 1 and an unrelated one near 0", () => {
+    const result = computeSampleSensitivity(
+      new Map([["driver", driver], ["noise", noise]]),
+      project,
+      { driver: 1, noise: 0 },
+    );
+    expect(result.driver!.rankCorrelation).toBe(1);
+    expect(Math.abs(result.noise!.rankCorrelation)).toBeLessThan(0.5);
+  });
+
+  it("computes SSI as criticality × σ_activity / σ_project", () => {
+    const result = computeSampleSensitivity(
+      new Map([["driver", driver], ["noise", noise]]),
+      project,
+      { driver: 0.5, noise: 0 },
+    );
+    // σ_driver equals σ_project here, so SSI is the criticality itself.
+    expect(result.driver!.ssi).toBeCloseTo(0.5, 10);
+    expect(result.noise!.ssi).toBe(0);
+  });
+
+  it("pairs a short activity series with the first trials of the project", () => {
+    const result = computeSampleSensitivity(
+      new Map([["driver", driver.subarray(0, 3)]]),
+      new Float64Array([14, 11, 13, 99, 0]),
+      undefined,
+    );
+    expect(result.driver!.rankCorrelation).toBe(1);
+    expect(result.driver!.ssi).toBe(0);
+  });
+});
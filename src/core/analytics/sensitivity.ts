@@ -2,8 +2,9 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity } from "@domain/models/types";
+import type { Activity, ActivitySensitivity } from "@domain/models/types";
 import { computePertMean, resolveSD } from "@core/estimation/spert";
+import { pearsonCorrelation, rankValues, standardDeviation } from "./analytics";
 
 /**
  * Result of sensitivity analysis for a single activity.
@@ -124,3 +125,43 @@ export function getTopSensitiveActivities(
   const all = computeSensitivityAnalysis(activities);
   return all.slice(0, Math.min(topN, all.length));
 }
+
+// -- Sample-based sensitivity ------------------------------------------------
+
+/**
+ * Trials whose per-activity durations a dependency-mode run keeps for the rank
+ * correlation. Holding every trial would cost activities × trials doubles (400 MB at
+ * 500 × 100,000); the first 5,000 trials are an iid sample of the run, and Spearman's
+ * standard error at that size is about 0.014 — below what the tornado can show.
+ */
+export const SENSITIVITY_SAMPLE_TRIALS = 5000;
+
+/**
+ * Sample-based sensitivity from the trials themselves: the Spearman correlation between
+ * each activity's sampled duration and the project duration, and the Schedule
+ * Sensitivity Index, criticality × σ_activity / σ_project.
+ *
+ * @param activitySamples - Per activity, its duration in the first n trials.
+ * @param projectSamples - Project duration per trial, in trial order (NOT yet sorted);
+ *   the first n pair with the activity series.
+ * @param criticalityIndex - Share of trials each activity was critical in; an activity
+ *   without one scores an SSI of 0.
+ */
+export function computeSampleSensitivity(
+  activitySamples: Map<string, Float64Array>,
+  projectSamples: Float64Array,
+  criticalityIndex: Record<string, number> | undefined,
+): Record<string, ActivitySensitivity> {
+  const projectSD = standardDeviation(projectSamples);
+  const results: Record<string, ActivitySensitivity> = {};
+  let projectRanks: Float64Array | undefined;
+  for (const [activityId, series] of activitySamples) {
+    projectRanks ??= rankValues(projectSamples.subarray(0, series.length));
+    const criticality = criticalityIndex?.[activityId] ?? 0;
+    results[activityId] = {
+      rankCorrelation: pearsonCorrelation(rankValues(series), projectRanks),
+      ssi: projectSD > 0 ? (criticality * standardDeviation(series)) / projectSD : 0,
+    };
+  }
+  return results;
+}
@@ -14,6 +14,7 @@ import {
   subtractWorkingDays,
   activityEndDate,
   activityStartDate,
+  addCalendarDays,
   countWorkingDays,
   mergeCalendars,
   durationToFinishDateISO,
@@ -623,6 +624,20 @@ describe("activityStartDate", () => {
   });
 });
 
+describe("addCalendarDays", () => {
+  it("counts weekends and holidays alike", () => {
+    // Fri Jan 10 + 3 → Mon Jan 13
+    expect(formatDateISO(addCalendarDays(new Date(2025, 0, 10), 3))).toBe("2025-01-13");
+    expect(formatDateISO(addCalendarDays(new Date(2025, 0, 10), -5))).toBe("2025-01-05");
+  });
+
+  it("crosses month and year boundaries without mutating its input", () => {
+    const input = new Date(2024, 11, 30);
+    expect(formatDateISO(addCalendarDays(input, 3))).toBe("2025-01-02");
+    expect(formatDateISO(input)).toBe("2024-12-30");
+  });
+});
+
 describe("durationToFinishDateISO", () => {
   it("working-day start: N working days lands on the inclusive finish (start = day 1)", () => {
     // Mon 2026-01-05 + 5 working days (inclusive) → Fri 2026-01-09.
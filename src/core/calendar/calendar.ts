@@ -218,6 +218,19 @@ export function subtractWorkingDays(
   return result;
 }
 
+/**
+ * Move a date N CALENDAR days (negative = back). Weekends and holidays are not
+ * consulted — this is the arithmetic of elapsed lags, which run straight through
+ * non-working time.
+ *
+ * Always clones the input — never mutates.
+ */
+export function addCalendarDays(start: Date, days: number): Date {
+  const result = new Date(start);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
 // -- PM-convention wrappers ---------------------------------------------------
 // These encode the project management convention: the start day counts as
 // day 1 of the duration, so a 5-day activity Mon→Fri has duration=5 and
@@ -7,9 +7,12 @@ import {
   buildWorkWeekMask,
   buildHolidaySet,
   buildWorkCalendar,
+  buildNamedWorkCalendar,
   ProjectWorkCalendar,
+  UnionWorkCalendar,
   CalendarConfigurationError,
   advanceToNextWorkingDay,
+  retreatToPreviousWorkingDay,
   CALENDAR_ITERATION_LIMIT_MESSAGE,
   isCalendarError,
 } from "./work-calendar";
@@ -468,6 +471,41 @@ describe("buildWorkCalendar", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Named (per-activity) calendars and their union
+// ---------------------------------------------------------------------------
+
+describe("buildNamedWorkCalendar", () => {
+  it("uses only its own work week and holidays", () => {
+    const cal = buildNamedWorkCalendar({
+      id: "vendor",
+      name: "Vendor",
+      workDays: [0, 1, 2, 3, 4, 5, 6],
+      holidays: [{ id: "h", name: "Stocktake", startDate: "2025-01-08", endDate: "2025-01-08" }],
+    });
+    expect(cal.isWorkDay(new Date(2025, 0, 4))).toBe(true); // Saturday
+    expect(cal.isWorkDay(new Date(2025, 0, 8))).toBe(false); // its own holiday
+  });
+});
+
+describe("UnionWorkCalendar", () => {
+  const weekendsOnly = buildNamedWorkCalendar({ id: "w", name: "Weekends", workDays: [0, 6], holidays: [] });
+
+  it("works a day any member works, with undefined as the default Mon–Fri week", () => {
+    const union = new UnionWorkCalendar([undefined, weekendsOnly]);
+    for (let day = 5; day <= 11; day++) {
+      expect(union.isWorkDay(new Date(2025, 0, day))).toBe(true);
+    }
+  });
+
+  it("adds and steps over the union's days", () => {
+    const union = new UnionWorkCalendar([buildWorkCalendar([1], [], []), weekendsOnly]);
+    // Sat Jan 4 → Sun 5 → Mon 6 → Sat 11
+    expect(union.nextWorkDay(new Date(2025, 0, 4))).toEqual(new Date(2025, 0, 5));
+    expect(union.addWorkDays(new Date(2025, 0, 4), 3)).toEqual(new Date(2025, 0, 11));
+  });
+});
+
 // ---------------------------------------------------------------------------
 // forcedWorkDays — global-holiday overrides
 // ---------------------------------------------------------------------------
@@ -585,6 +623,40 @@ describe("advanceToNextWorkingDay", () => {
   });
 });
 
+describe("retreatToPreviousWorkingDay", () => {
+  const workWeek = () => buildWorkCalendar([1, 2, 3, 4, 5], [], []);
+
+  it("returns the same day (cloned) when the seed is already a working day", () => {
+    const monday = new Date(2025, 0, 6);
+    const result = retreatToPreviousWorkingDay(monday, workWeek());
+    expect(result.getTime()).toBe(monday.getTime());
+    expect(result).not.toBe(monday);
+  });
+
+  it("retreats a weekend seed to the preceding Friday", () => {
+    // Sun Jan 12 2025 → Fri Jan 10
+    const result = retreatToPreviousWorkingDay(new Date(2025, 0, 12), workWeek());
+    expect(result.getDate()).toBe(10);
+    expect(result.getDay()).toBe(5);
+  });
+
+  it("retreats over a holiday", () => {
+    const holidays: Holiday[] = [
+      { id: "1", name: "Holiday", startDate: "2025-01-10", endDate: "2025-01-10" },
+    ];
+    const cal = buildWorkCalendar([1, 2, 3, 4, 5], holidays, []);
+    // Sat Jan 11 → Fri Jan 10 is a holiday → Thu Jan 9
+    expect(retreatToPreviousWorkingDay(new Date(2025, 0, 11), cal).getDate()).toBe(9);
+  });
+
+  it("throws CalendarConfigurationError on a zero-working-day calendar", () => {
+    const cal = buildWorkCalendar([], [], []);
+    expect(() => retreatToPreviousWorkingDay(new Date(2025, 0, 6), cal)).toThrow(
+      CalendarConfigurationError
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // CALENDAR_ITERATION_LIMIT_MESSAGE — prefix contract for the AI-snapshot
 // classifier (§4.7). The free-standing calendar.ts helpers throw plain Errors
@@ -2,7 +2,7 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Calendar, Holiday } from "@domain/models/types";
+import type { Calendar, Holiday, NamedCalendar } from "@domain/models/types";
 import { formatDateISO, isWorkingDay, parseDateISO } from "./calendar";
 
 /** Maximum iterations for working day calculations to prevent infinite loops */
@@ -28,7 +28,9 @@ export class CalendarConfigurationError extends Error {
  * interface — never on a concrete implementation.
  *
  * v0.19.0: ProjectWorkCalendar
- * Future: ResourceCalendar, TaskCalendar, CompositeCalendar
+ * Named per-activity calendars: ProjectWorkCalendar (buildNamedWorkCalendar),
+ * UnionWorkCalendar
+ * Future: ResourceCalendar
  */
 export interface WorkCalendar {
   isWorkDay(date: Date): boolean;
@@ -159,6 +161,30 @@ export function advanceToNextWorkingDay(
   return d;
 }
 
+/**
+ * Step a date BACK to the previous working day (or keep it, if it is one) — the
+ * mirror of {@link advanceToNextWorkingDay}, with the same bound and the same
+ * {@link CalendarConfigurationError} on a calendar with no working days.
+ *
+ * Non-mutating: clones the input and returns a new Date.
+ */
+export function retreatToPreviousWorkingDay(
+  date: Date,
+  calendar?: WorkCalendar | Calendar
+): Date {
+  const d = new Date(date);
+  let iterations = 0;
+  while (!isWorkingDay(d, calendar)) {
+    if (++iterations > MAX_CALENDAR_ITERATIONS) {
+      throw new CalendarConfigurationError(
+        "No working day found within the configured calendar — check for an all-non-working work week or excessive holidays."
+      );
+    }
+    d.setDate(d.getDate() - 1);
+  }
+  return d;
+}
+
 // -- ProjectWorkCalendar -----------------------------------------------------
 
 /**
@@ -218,23 +244,31 @@ export class ProjectWorkCalendar implements WorkCalendar {
    * Always clones the input — never mutates.
    */
   addWorkDays(date: Date, n: number): Date {
-    let current = new Date(date);
-    let remaining = n;
-    let iterations = 0;
-    while (remaining > 0) {
-      if (++iterations > MAX_CALENDAR_ITERATIONS) {
-        throw new CalendarConfigurationError(
-          "No work days found within scheduling range. Check your work week configuration."
-        );
-      }
-      current = new Date(current);
-      current.setDate(current.getDate() + 1);
-      if (this.isWorkDay(current)) {
-        remaining--;
-      }
+    return addWorkDaysWhere((d) => this.isWorkDay(d), date, n);
+  }
+}
+
+/**
+ * The stepping loop behind every calendar's addWorkDays — shared so the two classes
+ * below cannot drift on the iteration guard. Always clones the input.
+ */
+function addWorkDaysWhere(isWorkDay: (date: Date) => boolean, date: Date, n: number): Date {
+  let current = new Date(date);
+  let remaining = n;
+  let iterations = 0;
+  while (remaining > 0) {
+    if (++iterations > MAX_CALENDAR_ITERATIONS) {
+      throw new CalendarConfigurationError(
+        "No work days found within scheduling range. Check your work week configuration."
+      );
+    }
+    current = new Date(current);
+    current.setDate(current.getDate() + 1);
+    if (isWorkDay(current)) {
+      remaining--;
     }
-    return current;
   }
+  return current;
 }
 
 // -- Factory -----------------------------------------------------------------
@@ -272,3 +306,44 @@ export function buildWorkCalendar(
     forcedWorkDays: eligibleForced,
   });
 }
+
+/**
+ * Build the calendar of one named (per-activity) calendar. It stands alone — no
+ * global holidays, project holidays, converted or forced work days apply — so a
+ * vendor who works through a public holiday is scheduled through it.
+ */
+export function buildNamedWorkCalendar(calendar: NamedCalendar): ProjectWorkCalendar {
+  return new ProjectWorkCalendar({
+    workWeekMask: buildWorkWeekMask(calendar.workDays),
+    holidays: buildHolidaySet(calendar.holidays),
+    convertedWorkDays: new Set(),
+  });
+}
+
+// -- UnionWorkCalendar -------------------------------------------------------
+
+/**
+ * A day is a work day when it is one for ANY member calendar. This is the common
+ * time axis of a schedule whose activities run on different calendars: every day
+ * on which some activity may work, and no other.
+ */
+export class UnionWorkCalendar implements WorkCalendar {
+  private readonly members: (WorkCalendar | Calendar | undefined)[];
+
+  /** An undefined member is the default Mon–Fri week, as everywhere else. */
+  constructor(members: (WorkCalendar | Calendar | undefined)[]) {
+    this.members = members;
+  }
+
+  isWorkDay(date: Date): boolean {
+    return this.members.some((c) => isWorkingDay(date, c));
+  }
+
+  nextWorkDay(date: Date): Date {
+    return this.addWorkDays(date, 1);
+  }
+
+  addWorkDays(date: Date, n: number): Date {
+    return addWorkDaysWhere((d) => this.isWorkDay(d), date, n);
+  }
+}
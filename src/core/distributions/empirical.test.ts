@@ -0,0 +1,64 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { EmpiricalDistribution, parseDurationList } from "./empirical";
+import { createSeededRng } from "@infrastructure/rng";
+
+describe("EmpiricalDistribution", () => {
+  const dist = new EmpiricalDistribution([9, 3, 5, 7, 1]);
+
+  it("interpolates the sorted values at even cumulative steps", () => {
+    expect(dist.inverseCDF(0)).toBe(1);
+    expect(dist.inverseCDF(0.25)).toBe(3);
+    expect(dist.inverseCDF(0.5)).toBe(5);
+    expect(dist.inverseCDF(0.625)).toBe(6);
+    expect(dist.inverseCDF(1)).toBe(9);
+  });
+
+  it("cdf inverts the quantile and clamps outside the observed range", () => {
+    expect(dist.cdf(0)).toBe(0);
+    expect(dist.cdf(6)).toBeCloseTo(0.625, 10);
+    expect(dist.cdf(9)).toBe(1);
+    for (const p of [0.1, 0.4, 0.9]) {
+      expect(dist.cdf(dist.inverseCDF(p))).toBeCloseTo(p, 10);
+    }
+  });
+
+  it("mean and variance are those of the interpolated distribution", () => {
+    // Evenly spaced values: a uniform on [1, 9].
+    expect(dist.mean()).toBeCloseTo(5, 10);
+    expect(dist.variance()).toBeCloseTo(64 / 12, 10);
+    expect(dist.parameters()).toEqual({ n: 5, min: 1, max: 9 });
+  });
+
+  it("samples stay inside the observed range", () => {
+    const rng = createSeededRng("empirical-bounds");
+    for (let i = 0; i < 2000; i++) {
+      const s = dist.sample(rng);
+      expect(s).toBeGreaterThanOrEqual(1);
+      expect(s).toBeLessThanOrEqual(9);
+    }
+  });
+
+  it("repeated values are a flat step", () => {
+    const stepped = new EmpiricalDistribution([4, 4, 4, 4, 8]);
+    expect(stepped.inverseCDF(0.5)).toBe(4);
+    expect(stepped.cdf(4)).toBeCloseTo(0.75, 10);
+  });
+
+  it("throws with too few durations or an invalid one", () => {
+    expect(() => new EmpiricalDistribution([1, 2, 3, 4])).toThrow(/at least 5/);
+    expect(() => new EmpiricalDistribution([1, 2, 3, 4, -1])).toThrow(/finite and >= 0/);
+    expect(() => new EmpiricalDistribution([1, 2, 3, 4, NaN])).toThrow(/finite and >= 0/);
+  });
+});
+
+describe("parseDurationList", () => {
+  it("splits on commas, semicolons and whitespace and drops invalid tokens", () => {
+    expect(parseDurationList("3, 4.5;6\n7  8")).toEqual([3, 4.5, 6, 7, 8]);
+    expect(parseDurationList("3, x, -2, , 5")).toEqual([3, 5]);
+    expect(parseDurationList("")).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { SeededRng } from "@infrastructure/rng";
+import { HISTORICAL_DURATIONS_MIN } from "@domain/models/types";
+import type { Distribution } from "./distribution";
+
+/**
+ * Empirical distribution from historical durations. The sorted values x₀ … xₙ₋₁ sit at
+ * cumulative probabilities 0, 1/(n−1), …, 1 and the quantile function interpolates
+ * linearly between them, so draws fall anywhere between two observed durations but never
+ * outside the observed range. Repeated values make flat steps (point masses).
+ */
+export class EmpiricalDistribution implements Distribution {
+  private readonly sorted: Float64Array;
+
+  constructor(durations: readonly number[]) {
+    if (durations.length < HISTORICAL_DURATIONS_MIN) {
+      throw new Error(
+        `EmpiricalDistribution: needs at least ${HISTORICAL_DURATIONS_MIN} historical durations, got ${durations.length}`
+      );
+    }
+    if (durations.some((d) => !Number.isFinite(d) || d < 0)) {
+      throw new Error("EmpiricalDistribution: durations must be finite and >= 0");
+    }
+    this.sorted = Float64Array.from(durations).sort();
+  }
+
+  sample(rng: SeededRng): number {
+    return this.inverseCDF(rng.next());
+  }
+
+  /** Mean of the interpolated distribution: each segment is uniform with weight 1/(n−1). */
+  mean(): number {
+    const x = this.sorted;
+    let sum = 0;
+    for (let i = 0; i < x.length - 1; i++) sum += (x[i]! + x[i + 1]!) / 2;
+    return sum / (x.length - 1);
+  }
+
+  variance(): number {
+    const x = this.sorted;
+    let second = 0;
+    for (let i = 0; i < x.length - 1; i++) {
+      const a = x[i]!;
+      const b = x[i + 1]!;
+      second += (a * a + a * b + b * b) / 3;
+    }
+    const mean = this.mean();
+    return Math.max(0, second / (x.length - 1) - mean * mean);
+  }
+
+  parameters(): Record<string, number> {
+    const x = this.sorted;
+    return { n: x.length, min: x[0]!, max: x[x.length - 1]! };
+  }
+
+  inverseCDF(p: number): number {
+    if (p < 0 || p > 1) {
+      throw new Error(`inverseCDF: p must be in [0, 1], got ${p}`);
+    }
+    const x = this.sorted;
+    const h = p * (x.length - 1);
+    const i = Math.min(Math.floor(h), x.length - 2);
+    return x[i]! + (h - i) * (x[i + 1]! - x[i]!);
+  }
+
+  cdf(value: number): number {
+    const x = this.sorted;
+    const last = x.length - 1;
+    if (value < x[0]!) return 0;
+    if (value >= x[last]!) return 1;
+    // Last index with x[i] <= value; x[i + 1] > value, so the segment has width.
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (x[mid]! <= value) lo = mid;
+      else hi = mid;
+    }
+    return (lo + (value - x[lo]!) / (x[lo + 1]! - x[lo]!)) / last;
+  }
+}
+
+/**
+ * Parse durations pasted by the user — numbers separated by commas, semicolons,
+ * whitespace or new lines. Tokens that are not a finite, non-negative number are dropped.
+ */
+export function parseDurationList(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .filter((token) => token !== "")
+    .map(Number)
+    .filter((n) => Number.isFinite(n) && n >= 0);
+}
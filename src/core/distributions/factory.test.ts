@@ -3,11 +3,14 @@
 // See LICENSE file in the project root for full license text.
 
 import { describe, it, expect } from "vitest";
-import { createDistributionForActivity } from "./factory";
+import { createDistributionForActivity, createRemainingDistribution } from "./factory";
 import { NormalDistribution } from "./normal";
 import { LogNormalDistribution } from "./log-normal";
 import { TriangularDistribution } from "./triangular";
 import { UniformDistribution } from "./uniform";
+import { PertBetaDistribution } from "./pert-beta";
+import { WeibullDistribution } from "./weibull";
+import { EmpiricalDistribution } from "./empirical";
 import type { Activity } from "@domain/models/types";
 
 function makeActivity(overrides: Partial<Activity> = {}): Activity {
@@ -46,6 +49,37 @@ describe("createDistributionForActivity", () => {
     expect(dist).toBeInstanceOf(TriangularDistribution);
   });
 
+  it("creates PertBetaDistribution and WeibullDistribution with the PERT mean", () => {
+    const pert = createDistributionForActivity(makeActivity({ distributionType: "pertBeta" }));
+    expect(pert).toBeInstanceOf(PertBetaDistribution);
+    expect(pert.mean()).toBeCloseTo((3 + 4 * 5 + 10) / 6);
+    const weibull = createDistributionForActivity(makeActivity({ distributionType: "weibull" }));
+    expect(weibull).toBeInstanceOf(WeibullDistribution);
+    expect(weibull.mean()).toBeCloseTo((3 + 4 * 5 + 10) / 6);
+    expect(weibull.inverseCDF(0)).toBe(3);
+  });
+
+  it("creates EmpiricalDistribution from the historical durations", () => {
+    const dist = createDistributionForActivity(
+      makeActivity({ distributionType: "empirical", historicalDurations: [4, 6, 5, 9, 7] })
+    );
+    expect(dist).toBeInstanceOf(EmpiricalDistribution);
+    expect(dist.inverseCDF(1)).toBe(9);
+  });
+
+  it("names the activity when an empirical one has too little history", () => {
+    expect(() =>
+      createDistributionForActivity(makeActivity({ distributionType: "empirical", historicalDurations: [4, 6] }))
+    ).toThrow(/Cannot create Empirical distribution for activity "Test Activity".*at least 5/);
+  });
+
+  it("models an empirical activity's remaining work as PERT-Beta", () => {
+    const activity = makeActivity({ distributionType: "empirical", historicalDurations: [4, 6, 5, 9, 7] });
+    const dist = createRemainingDistribution(activity, { min: 1, mostLikely: 2, max: 4 });
+    expect(dist).toBeInstanceOf(PertBetaDistribution);
+    expect(dist.inverseCDF(1)).toBe(4);
+  });
+
   it("normal distribution has correct PERT mean", () => {
     const activity = makeActivity({ min: 2, mostLikely: 5, max: 14 });
     const dist = createDistributionForActivity(activity);
@@ -203,16 +237,16 @@ describe("createDistributionForActivity", () => {
     // Reaching the `default` arm requires a runtime value outside the compile-time
     // union, which is exactly the malformed-data case the fallback documents.
     const unknownType = makeActivity({
-      distributionType: "weibull" as Activity["distributionType"],
+      distributionType: "gamma" as Activity["distributionType"],
     });
 
     it("names the unknown type in the message rather than 'undefined'", () => {
-      // DISTRIBUTION_LABELS has no "weibull" key, so the lookup is genuinely
+      // DISTRIBUTION_LABELS has no "gamma" key, so the lookup is genuinely
       // undefined here and `?? activity.distributionType` is what supplies the name.
       // Mutating `??` to `&&` yields "Cannot create undefined distribution", which
       // the second assertion below rejects.
       expect(() => createDistributionForActivity(unknownType)).toThrow(
-        /Cannot create weibull distribution for activity "Test Activity"/
+        /Cannot create gamma distribution for activity "Test Activity"/
       );
       expect(() => createDistributionForActivity(unknownType)).not.toThrow(
         /Cannot create undefined distribution/
@@ -221,7 +255,7 @@ describe("createDistributionForActivity", () => {
 
     it("keeps the underlying reason in the message", () => {
       expect(() => createDistributionForActivity(unknownType)).toThrow(
-        /Unknown distribution type: weibull/
+        /Unknown distribution type: gamma/
       );
     });
 
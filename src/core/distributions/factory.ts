@@ -2,13 +2,16 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity } from "@domain/models/types";
+import type { Activity, RemainingEstimate } from "@domain/models/types";
 import { computePertMean, resolveSD } from "@core/estimation/spert";
 import type { Distribution } from "./distribution";
 import { NormalDistribution } from "./normal";
 import { LogNormalDistribution } from "./log-normal";
 import { TriangularDistribution } from "./triangular";
 import { UniformDistribution } from "./uniform";
+import { PertBetaDistribution } from "./pert-beta";
+import { WeibullDistribution } from "./weibull";
+import { EmpiricalDistribution } from "./empirical";
 
 /**
  * Creates a Distribution instance for the given activity using its
@@ -19,6 +22,9 @@ const DISTRIBUTION_LABELS: Record<Activity["distributionType"], string> = {
   logNormal: "LogNormal",
   triangular: "Triangular",
   uniform: "Uniform",
+  pertBeta: "PERT-Beta",
+  weibull: "Weibull",
+  empirical: "Empirical",
 };
 
 export function createDistributionForActivity(activity: Activity): Distribution {
@@ -51,6 +57,19 @@ export function createDistributionForActivity(activity: Activity): Distribution
       case "uniform":
         return new UniformDistribution(activity.min, activity.max);
 
+      case "pertBeta":
+        return new PertBetaDistribution(
+          activity.min,
+          activity.mostLikely,
+          activity.max
+        );
+
+      case "weibull":
+        return new WeibullDistribution(activity.min, mean, sd);
+
+      case "empirical":
+        return new EmpiricalDistribution(activity.historicalDurations ?? []);
+
       default: {
         const _exhaustive: never = activity.distributionType;
         throw new Error(`Unknown distribution type: ${_exhaustive}`);
@@ -62,7 +81,7 @@ export function createDistributionForActivity(activity: Activity): Distribution
     // a total Record over the compile-time DistributionType union (so
     // TypeScript sees this lookup as always a `string`): it exists for the
     // one path the type system can't see — the `default` branch above firing
-    // on a runtime value that isn't actually one of the four known types
+    // on a runtime value that isn't actually one of the known types
     // (e.g. malformed data from an older export, a hand-edited project file,
     // or a future schema version read by an older build). In that case
     // DISTRIBUTION_LABELS[...] is genuinely undefined at runtime and this
@@ -79,3 +98,24 @@ export function createDistributionForActivity(activity: Activity): Distribution
     throw wrapped;
   }
 }
+
+/**
+ * The distribution of the work left on an in-progress activity, from its remaining
+ * three-point estimate. Same type and confidence level as the original estimate; an SD
+ * override belonged to that estimate, so it is dropped. The history behind an empirical
+ * distribution describes whole activities, not what is left of one, so an empirical
+ * activity's remainder is a PERT-Beta over the re-estimate.
+ */
+export function createRemainingDistribution(
+  activity: Activity,
+  remaining: RemainingEstimate
+): Distribution {
+  return createDistributionForActivity({
+    ...activity,
+    min: remaining.min,
+    mostLikely: remaining.mostLikely,
+    max: remaining.max,
+    sdOverride: undefined,
+    ...(activity.distributionType === "empirical" ? { distributionType: "pertBeta" as const } : {}),
+  });
+}
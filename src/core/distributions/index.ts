@@ -7,9 +7,13 @@ export { NormalDistribution } from "./normal";
 export { LogNormalDistribution } from "./log-normal";
 export { TriangularDistribution } from "./triangular";
 export { UniformDistribution } from "./uniform";
-export { createDistributionForActivity } from "./factory";
+export { PertBetaDistribution } from "./pert-beta";
+export { WeibullDistribution } from "./weibull";
+export { EmpiricalDistribution, parseDurationList } from "./empirical";
+export { createDistributionForActivity, createRemainingDistribution } from "./factory";
 export {
   buildMcDistribution,
   TruncatedDistribution,
   DegenerateDistribution,
+  ShiftedDistribution,
 } from "./truncated";
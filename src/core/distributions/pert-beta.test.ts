@@ -0,0 +1,91 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { PertBetaDistribution } from "./pert-beta";
+import { gamma, regularizedIncompleteBeta } from "./special-functions";
+import { createSeededRng } from "@infrastructure/rng";
+
+describe("special functions", () => {
+  it("gamma matches factorials and Γ(1/2) = √π", () => {
+    expect(gamma(5)).toBeCloseTo(24, 8);
+    expect(gamma(1)).toBeCloseTo(1, 10);
+    expect(gamma(0.5)).toBeCloseTo(Math.sqrt(Math.PI), 10);
+  });
+
+  it("regularizedIncompleteBeta matches closed forms", () => {
+    // I_x(1, 1) = x; I_x(2, 1) = x²; I_x(a, a) is symmetric about 1/2.
+    expect(regularizedIncompleteBeta(0.3, 1, 1)).toBeCloseTo(0.3, 10);
+    expect(regularizedIncompleteBeta(0.3, 2, 1)).toBeCloseTo(0.09, 10);
+    expect(regularizedIncompleteBeta(0.5, 3.7, 3.7)).toBeCloseTo(0.5, 10);
+    expect(regularizedIncompleteBeta(0.2, 2, 5) + regularizedIncompleteBeta(0.8, 5, 2)).toBeCloseTo(1, 10);
+    expect(regularizedIncompleteBeta(0, 2, 3)).toBe(0);
+    expect(regularizedIncompleteBeta(1, 2, 3)).toBe(1);
+  });
+});
+
+describe("PertBetaDistribution", () => {
+  it("has the PERT mean and the beta variance", () => {
+    const dist = new PertBetaDistribution(2, 5, 14);
+    expect(dist.mean()).toBeCloseTo((2 + 4 * 5 + 14) / 6);
+    // α = 1 + 4·3/12 = 2, β = 1 + 4·9/12 = 4 → var = 144·8 / (36·7)
+    expect(dist.variance()).toBeCloseTo((144 * 8) / (36 * 7));
+  });
+
+  it("inverseCDF(0) = a, inverseCDF(1) = b, and samples stay inside", () => {
+    const dist = new PertBetaDistribution(1, 4, 10);
+    expect(dist.inverseCDF(0)).toBe(1);
+    expect(dist.inverseCDF(1)).toBe(10);
+    const rng = createSeededRng("pert-bounds");
+    for (let i = 0; i < 5000; i++) {
+      const s = dist.sample(rng);
+      expect(s).toBeGreaterThanOrEqual(1);
+      expect(s).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it("round-trips cdf and inverseCDF", () => {
+    const dist = new PertBetaDistribution(2, 3, 12);
+    for (const p of [0.01, 0.1, 0.5, 0.9, 0.99]) {
+      expect(dist.cdf(dist.inverseCDF(p))).toBeCloseTo(p, 4);
+    }
+  });
+
+  it("sample mean converges to the PERT mean, one draw per sample", () => {
+    const dist = new PertBetaDistribution(2, 6, 16);
+    const rng = createSeededRng("pert-mean");
+    const twin = createSeededRng("pert-mean");
+    let sum = 0;
+    const n = 50000;
+    for (let i = 0; i < n; i++) {
+      sum += dist.sample(rng);
+      twin.next();
+    }
+    expect(sum / n).toBeCloseTo(dist.mean(), 1);
+    expect(rng.next()).toBe(twin.next());
+  });
+
+  it("puts more weight near the mode than a Triangular with the same bounds", () => {
+    // Triangular(0, 5, 10) has P(X <= 6) = 0.68; the beta is tighter around 5.
+    const dist = new PertBetaDistribution(0, 5, 10);
+    expect(dist.cdf(6) - dist.cdf(4)).toBeGreaterThan(0.36);
+  });
+
+  it("throws when the estimates are out of order and rejects p outside [0, 1]", () => {
+    expect(() => new PertBetaDistribution(5, 3, 10)).toThrow(/a <= m <= b/);
+    expect(() => new PertBetaDistribution(1, 12, 10)).toThrow();
+    expect(() => new PertBetaDistribution(1, 2, 10).inverseCDF(1.5)).toThrow(/p must be in \[0, 1\]/);
+  });
+
+  it("a === b is a point mass", () => {
+    const dist = new PertBetaDistribution(7, 7, 7);
+    const rng = createSeededRng("pert-degenerate");
+    expect(dist.sample(rng)).toBe(7);
+    expect(dist.inverseCDF(0.3)).toBe(7);
+    expect(dist.cdf(6.999)).toBe(0);
+    expect(dist.cdf(7)).toBe(1);
+    expect(dist.mean()).toBe(7);
+    expect(dist.variance()).toBe(0);
+  });
+});
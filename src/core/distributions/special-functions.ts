@@ -0,0 +1,82 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Gamma and incomplete-beta functions for the PERT-Beta and Weibull distributions.
+ * Double precision to ~1e-10 over the parameter ranges those use, which is far below
+ * anything a duration in days can show.
+ */
+
+/** Lanczos coefficients (g = 7, n = 9). */
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/** ln Γ(x) for x > 0. */
+export function lnGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection: Γ(x) Γ(1 − x) = π / sin(πx).
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0]!;
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i]! / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** Γ(x) for x > 0. */
+export function gamma(x: number): number {
+  return Math.exp(lnGamma(x));
+}
+
+const CF_MAX_ITERATIONS = 200;
+const CF_EPSILON = 1e-14;
+const CF_TINY = 1e-300;
+
+/** Continued fraction for the incomplete beta (modified Lentz). */
+function betaContinuedFraction(x: number, p: number, q: number): number {
+  const qab = p + q;
+  const qap = p + 1;
+  const qam = p - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < CF_TINY) d = CF_TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= CF_MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (q - m) * x) / ((qam + m2) * (p + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < CF_TINY) d = CF_TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < CF_TINY) c = CF_TINY;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(p + m) * (qab + m) * x) / ((p + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < CF_TINY) d = CF_TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < CF_TINY) c = CF_TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < CF_EPSILON) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta I_x(a, b) for a, b > 0, clamped to [0, 1] outside it. */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // The continued fraction converges fast below the mean; use the symmetry above it.
+  if (x < (a + 1) / (a + b + 2)) return (front * betaContinuedFraction(x, a, b)) / a;
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
@@ -6,6 +6,7 @@ import { describe, it, expect } from "vitest";
 import {
   TruncatedDistribution,
   DegenerateDistribution,
+  ShiftedDistribution,
   isBreach,
   buildMcDistribution,
   UNBOUNDED_BREACH_THRESHOLD,
@@ -145,9 +146,39 @@ describe("isBreach (boundary mutants must die here)", () => {
     expect(isBreach("normal", 0.9998)).toBe(false);
     expect(isBreach("logNormal", 0.9998)).toBe(false);
   });
+
+  it("PERT-Beta and Empirical are bounded; Weibull is unbounded", () => {
+    expect(isBreach("pertBeta", 1.0)).toBe(true);
+    expect(isBreach("empirical", 1.0)).toBe(true);
+    expect(isBreach("pertBeta", 0.9999999)).toBe(false);
+    expect(isBreach("weibull", UNBOUNDED_BREACH_THRESHOLD)).toBe(true);
+    expect(isBreach("weibull", 0.9998)).toBe(false);
+  });
 });
 
 describe("buildMcDistribution", () => {
+  it("inProgress with a remaining estimate → t + remaining, never exhausted", () => {
+    // t = 14 is past the original max, which would otherwise breach (degenerate).
+    const base = new TriangularDistribution(3, 5, 10);
+    const activity = makeActivity({
+      status: "inProgress",
+      actualDuration: 14,
+      remainingEstimate: { min: 1, mostLikely: 2, max: 4 },
+    });
+    const { dist, isExhausted } = buildMcDistribution(activity, base);
+    expect(dist).toBeInstanceOf(ShiftedDistribution);
+    expect(isExhausted).toBe(false);
+    expect(dist.inverseCDF(0)).toBeCloseTo(15);
+    expect(dist.inverseCDF(1)).toBeCloseTo(18);
+    expect(dist.cdf(14.5)).toBe(0);
+    const rng = createSeededRng("shifted");
+    for (let i = 0; i < 200; i++) {
+      const x = dist.sample(rng);
+      expect(x).toBeGreaterThanOrEqual(15);
+      expect(x).toBeLessThanOrEqual(18);
+    }
+  });
+
   it("planned activity → base distribution unchanged (no wrapper)", () => {
     const base = new TriangularDistribution(2, 5, 12);
     const { dist, isExhausted } = buildMcDistribution(makeActivity({ status: "planned" }), base);
@@ -5,6 +5,7 @@
 import type { SeededRng } from "@infrastructure/rng";
 import type { Activity, DistributionType } from "@domain/models/types";
 import type { Distribution } from "./distribution";
+import { createRemainingDistribution } from "./factory";
 
 /**
  * Conditional (left-truncated) sampling for in-progress activities.
@@ -109,18 +110,56 @@ export class DegenerateDistribution implements Distribution {
 }
 
 /**
- * Boundedness-aware breach predicate. Bounded types (Triangular, Uniform) breach at
- * p0 >= 1.0 exactly (cdf(max) = 1.0); unbounded types (Normal, LogNormal) at the
- * model-honesty threshold. The `never` default makes a fifth DistributionType a compile
- * error (mirrors factory.ts).
+ * Elapsed time plus a re-estimated remainder: t + max(0, R). Used instead of conditioning
+ * when the user has re-estimated the work left (`remainingEstimate`) — the new estimate is
+ * better information than the original one truncated at t, and the model cannot be
+ * exhausted. The clamp keeps a Normal remainder from running time backwards.
+ *
+ * Moments throw, for the reason given in the file header: the clamp makes them nontrivial
+ * and nothing in production reads them.
+ */
+export class ShiftedDistribution implements Distribution {
+  constructor(
+    private readonly remaining: Distribution,
+    private readonly t: number
+  ) {}
+
+  sample(rng: SeededRng): number {
+    return this.t + Math.max(0, this.remaining.sample(rng));
+  }
+  inverseCDF(p: number): number {
+    return this.t + Math.max(0, this.remaining.inverseCDF(p));
+  }
+  cdf(x: number): number {
+    return x < this.t ? 0 : this.remaining.cdf(x - this.t);
+  }
+  mean(): number {
+    throw new Error("ShiftedDistribution.mean(): not implemented");
+  }
+  variance(): number {
+    throw new Error("ShiftedDistribution.variance(): not implemented");
+  }
+  parameters(): Record<string, number> {
+    throw new Error("ShiftedDistribution.parameters(): not implemented");
+  }
+}
+
+/**
+ * Boundedness-aware breach predicate. Bounded types (Triangular, Uniform, PERT-Beta,
+ * Empirical) breach at p0 >= 1.0 exactly (cdf(max) = 1.0); unbounded types (Normal,
+ * LogNormal, Weibull) at the model-honesty threshold. The `never` default makes a new
+ * DistributionType a compile error (mirrors factory.ts).
  */
 export function isBreach(distributionType: DistributionType, p0: number): boolean {
   switch (distributionType) {
     case "triangular":
     case "uniform":
+    case "pertBeta":
+    case "empirical":
       return p0 >= 1.0;
     case "normal":
     case "logNormal":
+    case "weibull":
       return p0 >= UNBOUNDED_BREACH_THRESHOLD;
     default: {
       const _exhaustive: never = distributionType;
@@ -133,6 +172,8 @@ export function isBreach(distributionType: DistributionType, p0: number): boolea
  * Build the MC distribution for an activity, conditioning in-progress draws on elapsed
  * time. Called at both MC construction seams. Returns the base distribution unchanged
  * for planned/complete activities, for non-finite p0, and for p0 <= 0 (nothing learned).
+ * An in-progress activity with a remaining estimate samples t + remaining instead; its
+ * deterministic counterpart is `resolveActivityDuration` in deterministic.ts.
  */
 export function buildMcDistribution(
   activity: Activity,
@@ -142,6 +183,10 @@ export function buildMcDistribution(
     return { dist: base, isExhausted: false };
   }
   const t = activity.actualDuration;
+  if (activity.remainingEstimate) {
+    const remaining = createRemainingDistribution(activity, activity.remainingEstimate);
+    return { dist: new ShiftedDistribution(remaining, t), isExhausted: false };
+  }
   const rawP0 = base.cdf(t);
   // Defense-in-depth: guard NaN from any future unguarded distribution.
   if (!Number.isFinite(rawP0)) {
@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { WeibullDistribution } from "./weibull";
+import { createSeededRng } from "@infrastructure/rng";
+
+describe("WeibullDistribution", () => {
+  it("fits a shape and scale whose sample moments match the requested mean and SD", () => {
+    const dist = new WeibullDistribution(10, 14, 3);
+    const rng = createSeededRng("weibull-moments");
+    const n = 100000;
+    let sum = 0;
+    let sumSq = 0;
+    for (let i = 0; i < n; i++) {
+      const s = dist.sample(rng);
+      sum += s;
+      sumSq += s * s;
+    }
+    const mean = sum / n;
+    expect(mean).toBeCloseTo(14, 1);
+    expect(Math.sqrt(sumSq / n - mean * mean)).toBeCloseTo(3, 1);
+  });
+
+  it("CV 1 is the exponential (shape 1)", () => {
+    const dist = new WeibullDistribution(0, 5, 5);
+    expect(dist.parameters().shape).toBeCloseTo(1, 6);
+    expect(dist.parameters().scale).toBeCloseTo(5, 6);
+  });
+
+  it("never goes below the location and is right-skewed for a high CV", () => {
+    const dist = new WeibullDistribution(20, 25, 4);
+    expect(dist.inverseCDF(0)).toBe(20);
+    expect(dist.cdf(20)).toBe(0);
+    expect(dist.cdf(19)).toBe(0);
+    // Right skew: the median sits below the mean.
+    expect(dist.inverseCDF(0.5)).toBeLessThan(25);
+  });
+
+  it("round-trips cdf and inverseCDF", () => {
+    const dist = new WeibullDistribution(3, 8, 2.5);
+    for (const p of [0.01, 0.1, 0.5, 0.9, 0.99]) {
+      expect(dist.cdf(dist.inverseCDF(p))).toBeCloseTo(p, 10);
+    }
+  });
+
+  it("SD 0 is a point mass at the mean, still one draw per sample", () => {
+    const dist = new WeibullDistribution(5, 5, 0);
+    const rng = createSeededRng("weibull-degenerate");
+    const twin = createSeededRng("weibull-degenerate");
+    expect(dist.sample(rng)).toBe(5);
+    twin.next();
+    expect(rng.next()).toBe(twin.next());
+    expect(dist.cdf(4.999)).toBe(0);
+    expect(dist.cdf(5)).toBe(1);
+    expect(dist.variance()).toBe(0);
+  });
+
+  it("throws for a negative SD or a mean at or below the location with spread", () => {
+    expect(() => new WeibullDistribution(0, 5, -1)).toThrow(/SD must be >= 0/);
+    expect(() => new WeibullDistribution(10, 8, 1)).toThrow(/mean must be above the minimum/);
+    expect(() => new WeibullDistribution(10, 10, 1)).toThrow(/mean must be above the minimum/);
+    expect(() => new WeibullDistribution(0, 5, 1).inverseCDF(-0.1)).toThrow(/p must be in \[0, 1\]/);
+  });
+});
@@ -0,0 +1,96 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { SeededRng } from "@infrastructure/rng";
+import type { Distribution } from "./distribution";
+import { gamma } from "./special-functions";
+
+/** Shape bounds. Below 0.2 the tail is beyond anything a schedule means; above 50 it is a spike. */
+const SHAPE_MIN = 0.2;
+const SHAPE_MAX = 50;
+const SHAPE_ITERATIONS = 80;
+
+/** Coefficient of variation of a Weibull with shape k (it does not depend on the scale). */
+function weibullCV(k: number): number {
+  const g1 = gamma(1 + 1 / k);
+  return Math.sqrt(Math.max(0, gamma(1 + 2 / k) / (g1 * g1) - 1));
+}
+
+/** The shape whose CV is `cv`, by bisection on log k (the CV falls as k grows). */
+function shapeForCV(cv: number): number {
+  let lo = Math.log(SHAPE_MIN);
+  let hi = Math.log(SHAPE_MAX);
+  if (cv >= weibullCV(SHAPE_MIN)) return SHAPE_MIN;
+  if (cv <= weibullCV(SHAPE_MAX)) return SHAPE_MAX;
+  for (let i = 0; i < SHAPE_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (weibullCV(Math.exp(mid)) > cv) lo = mid;
+    else hi = mid;
+  }
+  return Math.exp((lo + hi) / 2);
+}
+
+/**
+ * Three-parameter Weibull starting at `location` (the activity's min), with the shape and
+ * scale fitted so the mean and SD match the PERT mean and the resolved SD — the same
+ * moments Normal and LogNormal use. Unlike LogNormal, which is anchored at zero, the tail
+ * grows from the minimum, so a long right tail over a large floor of fixed work is
+ * representable. A shape below about 3.6 is right-skewed; below 1, very heavy-tailed.
+ */
+export class WeibullDistribution implements Distribution {
+  private readonly shape: number;
+  private readonly scale: number;
+  /** SD 0 (or no excess over the location): a point mass at the mean. */
+  private readonly degenerate: boolean;
+
+  constructor(
+    private readonly location: number,
+    private readonly naturalMean: number,
+    private readonly naturalSD: number
+  ) {
+    const excess = naturalMean - location;
+    if (naturalSD < 0) {
+      throw new Error(`WeibullDistribution: SD must be >= 0, got ${naturalSD}`);
+    }
+    if (excess < 0 || (excess === 0 && naturalSD > 0)) {
+      throw new Error(
+        `WeibullDistribution: mean must be above the minimum, got mean=${naturalMean}, min=${location}`
+      );
+    }
+    this.degenerate = naturalSD === 0;
+    this.shape = this.degenerate ? 1 : shapeForCV(naturalSD / excess);
+    this.scale = this.degenerate ? 0 : excess / gamma(1 + 1 / this.shape);
+  }
+
+  sample(rng: SeededRng): number {
+    // Always one draw, even when degenerate (see TriangularDistribution.sample).
+    return this.inverseCDF(rng.next());
+  }
+
+  mean(): number {
+    return this.naturalMean;
+  }
+
+  variance(): number {
+    return this.naturalSD * this.naturalSD;
+  }
+
+  parameters(): Record<string, number> {
+    return { location: this.location, shape: this.shape, scale: this.scale };
+  }
+
+  inverseCDF(p: number): number {
+    if (p < 0 || p > 1) {
+      throw new Error(`inverseCDF: p must be in [0, 1], got ${p}`);
+    }
+    if (this.degenerate) return this.naturalMean;
+    return this.location + this.scale * Math.pow(-Math.log(1 - p), 1 / this.shape);
+  }
+
+  cdf(x: number): number {
+    if (this.degenerate) return x < this.naturalMean ? 0 : 1;
+    if (x <= this.location) return 0;
+    return 1 - Math.exp(-Math.pow((x - this.location) / this.scale, this.shape));
+  }
+}
@@ -0,0 +1,109 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity } from "@domain/models/types";
+import { calibrateActivity, computeCalibration, isMultiplierApplied, isMultiplierRecommended } from "./calibration";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 8,
+    mostLikely: 10,
+    max: 14,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+const done = (id: string, actualDuration: number, overrides: Partial<Activity> = {}) =>
+  makeActivity(id, { status: "complete", actualDuration, ...overrides });
+
+describe("computeCalibration", () => {
+  it("places each actual against its range and at its estimate's percentile", () => {
+    const report = computeCalibration([
+      done("on-mode", 10),
+      done("over", 15),
+      done("under", 7),
+      makeActivity("planned"),
+      makeActivity("no-actual", { status: "complete" }),
+    ]);
+    expect(report.activities.map((a) => [a.activityId, a.position])).toEqual([
+      ["on-mode", "within"],
+      ["over", "above"],
+      ["under", "below"],
+    ]);
+    // Triangular 8–10–14: (10 − 8)² / ((14 − 8) × (10 − 8)) of the mass sits below the mode.
+    expect(report.activities[0]!.percentile).toBeCloseTo(1 / 3, 6);
+    expect(report.activities[1]!.percentile).toBe(1);
+    expect(report.activities[2]!.percentile).toBe(0);
+    expect(report).toMatchObject({ aboveRangeCount: 1, belowRangeCount: 1 });
+  });
+
+  it("flags actuals landing high in their estimates as optimism and recommends a multiplier", () => {
+    const report = computeCalibration([done("a", 13), done("b", 13), done("c", 13)]);
+    expect(report.meanPercentile).toBeCloseTo(23 / 24, 6);
+    expect(report.bias).toBe("optimistic");
+    // 39 actual days over three PERT means of 62/6.
+    expect(report.multiplier).toBe(1.26);
+    expect(isMultiplierRecommended(report.multiplier)).toBe(true);
+  });
+
+  it("calls actuals low in their estimates pessimistic", () => {
+    expect(computeCalibration([done("a", 8.5), done("b", 9), done("c", 8.5)]).bias).toBe("pessimistic");
+  });
+
+  it("recommends nothing from too few actuals", () => {
+    const report = computeCalibration([done("a", 13), done("b", 13)]);
+    expect(report).toMatchObject({ bias: null, multiplier: null, confidenceLevel: null });
+    expect(report.activities).toHaveLength(2);
+  });
+
+  it("reads the confidence level from the actuals' spread about their means", () => {
+    const normal = { distributionType: "normal", min: 5, mostLikely: 10, max: 15 } as const;
+    const report = computeCalibration([done("a", 7, normal), done("b", 10, normal), done("c", 13, normal)]);
+    // Residuals of ±3 and 0 on a 10-day range: RSM √0.06 ≈ 0.245, nearest Medium-low (0.235).
+    expect(report.multiplier).toBe(1);
+    expect(isMultiplierRecommended(report.multiplier)).toBe(false);
+    expect(report.confidenceLevel).toBe("mediumLowConfidence");
+  });
+});
+
+describe("isMultiplierApplied", () => {
+  const report = computeCalibration([done("a", 13), done("b", 13), done("c", 13)]);
+
+  it("matches the same multiplier from the same number of actuals", () => {
+    expect(isMultiplierApplied(report, { multiplier: 1.26, actualCount: 3 })).toBe(true);
+    expect(isMultiplierApplied(report, undefined)).toBe(false);
+  });
+
+  it("treats a new actual or a changed multiplier as a new recommendation", () => {
+    expect(isMultiplierApplied(report, { multiplier: 1.26, actualCount: 2 })).toBe(false);
+    expect(isMultiplierApplied(report, { multiplier: 1.1, actualCount: 3 })).toBe(false);
+  });
+});
+
+describe("calibrateActivity", () => {
+  it("scales the estimate and any SD override, leaving the history as it was", () => {
+    const activity = makeActivity("a", { sdOverride: 2, historicalDurations: [9, 10, 11, 12, 13] });
+    expect(calibrateActivity(activity, { kind: "multiplier", multiplier: 1.5 })).toMatchObject({
+      min: 12,
+      mostLikely: 15,
+      max: 21,
+      sdOverride: 3,
+      historicalDurations: [9, 10, 11, 12, 13],
+    });
+  });
+
+  it("sets the confidence level, and leaves an activity the adjustment does not change as it is", () => {
+    const activity = makeActivity("a");
+    expect(calibrateActivity(activity, { kind: "confidenceLevel", confidenceLevel: "lowConfidence" }).confidenceLevel)
+      .toBe("lowConfidence");
+    expect(calibrateActivity(activity, { kind: "confidenceLevel", confidenceLevel: "mediumConfidence" })).toBe(activity);
+    expect(calibrateActivity(activity, { kind: "multiplier", multiplier: 1 })).toBe(activity);
+  });
+});
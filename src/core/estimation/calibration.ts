@@ -0,0 +1,168 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, AppliedCalibration, RSMLevel } from "@domain/models/types";
+import { RSM_LEVELS, RSM_VALUES } from "@domain/models/types";
+import { createDistributionForActivity } from "@core/distributions/factory";
+import { computePertMean } from "./spert";
+
+/**
+ * Estimate calibration: what completed activities' actuals say about the estimates.
+ *
+ * Each completed activity with an actual duration is placed against its own three-point
+ * estimate — below the minimum, within the range or past the maximum — and at the
+ * percentile of its estimate's distribution the actual landed at. Well-calibrated
+ * estimates land all over, averaging P50; actuals averaging well above it mean the
+ * estimates are systematically optimistic, well below it pessimistic.
+ *
+ * From CALIBRATION_MIN_ACTUALS actuals on, two adjustments are recommended for the work
+ * still to be estimated:
+ *
+ *   - A global multiplier: the actuals' total over their PERT means' total — how much
+ *     longer work ran than estimated, weighted by size. Recommended when it is more than
+ *     CALIBRATION_MULTIPLIER_TOLERANCE from 1.
+ *   - A confidence level: the RSM (SD as a share of the range) the actuals show once the
+ *     multiplier is allowed for, rounded to the nearest level. Only normal, log-normal and
+ *     Weibull estimates take their SD from the RSM; the rest are shaped by the range alone.
+ */
+
+/** Actuals needed before the report recommends anything. */
+export const CALIBRATION_MIN_ACTUALS = 3;
+
+/** Mean percentile this far from P50 or more flags a bias. */
+export const CALIBRATION_BIAS_THRESHOLD = 0.1;
+
+/** A multiplier this close to 1 is not worth applying. */
+export const CALIBRATION_MULTIPLIER_TOLERANCE = 0.05;
+
+export type RangePosition = "below" | "within" | "above";
+
+export type EstimateBias = "optimistic" | "calibrated" | "pessimistic";
+
+export interface ActivityCalibration {
+  activityId: string;
+  actualDuration: number;
+  pertMean: number;
+  /** The share of the estimate's distribution at or below the actual, 0–1. */
+  percentile: number;
+  position: RangePosition;
+}
+
+export interface CalibrationReport {
+  /** Completed activities with an actual, in activity order. */
+  activities: ActivityCalibration[];
+  /** Mean of the activities' percentiles; 0 when there are none. */
+  meanPercentile: number;
+  aboveRangeCount: number;
+  belowRangeCount: number;
+  /** null below CALIBRATION_MIN_ACTUALS. */
+  bias: EstimateBias | null;
+  /** Σ actual / Σ PERT mean, to two decimals; null below CALIBRATION_MIN_ACTUALS. */
+  multiplier: number | null;
+  /** The confidence level the actuals' spread supports; null without enough ranged actuals. */
+  confidenceLevel: RSMLevel | null;
+}
+
+/** An adjustment the report recommends, applied to remaining planned activities. */
+export type CalibrationAdjustment =
+  | { kind: "multiplier"; multiplier: number }
+  | { kind: "confidenceLevel"; confidenceLevel: RSMLevel };
+
+function rangePosition(activity: Activity, actual: number): RangePosition {
+  if (actual < activity.min) return "below";
+  if (actual > activity.max) return "above";
+  return "within";
+}
+
+function biasOf(meanPercentile: number): EstimateBias {
+  if (meanPercentile >= 0.5 + CALIBRATION_BIAS_THRESHOLD) return "optimistic";
+  if (meanPercentile <= 0.5 - CALIBRATION_BIAS_THRESHOLD) return "pessimistic";
+  return "calibrated";
+}
+
+/** The level whose RSM is nearest `rsm`. */
+function nearestLevel(rsm: number): RSMLevel {
+  return RSM_LEVELS.reduce((best, level) =>
+    Math.abs(RSM_VALUES[level] - rsm) < Math.abs(RSM_VALUES[best] - rsm) ? level : best
+  );
+}
+
+/** The percentile `actual` sits at in the activity's estimate, or null if it has none. */
+function actualPercentile(activity: Activity, actual: number): number | null {
+  try {
+    return createDistributionForActivity(activity).cdf(actual);
+  } catch {
+    // An estimate the engine cannot build is reported by validation; it just drops out here.
+    return null;
+  }
+}
+
+/** The calibration report for a scenario's activities. */
+export function computeCalibration(activities: Activity[]): CalibrationReport {
+  const rows: ActivityCalibration[] = [];
+  const ranged: { actual: number; mean: number; range: number }[] = [];
+  for (const activity of activities) {
+    const actual = activity.actualDuration;
+    if (activity.status !== "complete" || actual === undefined) continue;
+    const percentile = actualPercentile(activity, actual);
+    if (percentile === null) continue;
+    const pertMean = computePertMean(activity.min, activity.mostLikely, activity.max);
+    rows.push({ activityId: activity.id, actualDuration: actual, pertMean, percentile, position: rangePosition(activity, actual) });
+    if (activity.max > activity.min) ranged.push({ actual, mean: pertMean, range: activity.max - activity.min });
+  }
+
+  const meanPercentile = rows.length > 0 ? rows.reduce((sum, r) => sum + r.percentile, 0) / rows.length : 0;
+  const enough = rows.length >= CALIBRATION_MIN_ACTUALS;
+  const totalMean = rows.reduce((sum, r) => sum + r.pertMean, 0);
+  const ratio = totalMean > 0 ? rows.reduce((sum, r) => sum + r.actualDuration, 0) / totalMean : 1;
+  // The spread about the scaled means, as a share of the scaled ranges.
+  const rsm = ranged.length >= CALIBRATION_MIN_ACTUALS
+    ? Math.sqrt(ranged.reduce((sum, r) => sum + ((r.actual - ratio * r.mean) / (ratio * r.range)) ** 2, 0) / ranged.length)
+    : null;
+
+  return {
+    activities: rows,
+    meanPercentile,
+    aboveRangeCount: rows.filter((r) => r.position === "above").length,
+    belowRangeCount: rows.filter((r) => r.position === "below").length,
+    bias: enough ? biasOf(meanPercentile) : null,
+    multiplier: enough && totalMean > 0 ? Math.round(ratio * 100) / 100 : null,
+    confidenceLevel: rsm !== null && Number.isFinite(rsm) ? nearestLevel(rsm) : null,
+  };
+}
+
+/** Whether the report's multiplier is worth recommending. */
+export function isMultiplierRecommended(multiplier: number | null): multiplier is number {
+  return multiplier !== null && Math.abs(multiplier - 1) >= CALIBRATION_MULTIPLIER_TOLERANCE;
+}
+
+/**
+ * Whether the report's multiplier is the one already applied (`Scenario.appliedCalibration`):
+ * the same multiplier from the same number of actuals. Applying it again would compound it;
+ * a new actual makes it a new recommendation.
+ */
+export function isMultiplierApplied(report: CalibrationReport, applied: AppliedCalibration | undefined): boolean {
+  return applied !== undefined && applied.multiplier === report.multiplier && applied.actualCount === report.activities.length;
+}
+
+/**
+ * The activity with the adjustment made: its three-point estimate (and any SD override)
+ * scaled by the multiplier, or its confidence level replaced. Historical durations are
+ * what happened, so they stay as they are.
+ */
+export function calibrateActivity(activity: Activity, adjustment: CalibrationAdjustment): Activity {
+  if (adjustment.kind === "confidenceLevel") {
+    if (activity.confidenceLevel === adjustment.confidenceLevel) return activity;
+    return { ...activity, confidenceLevel: adjustment.confidenceLevel };
+  }
+  const { multiplier } = adjustment;
+  if (multiplier === 1) return activity;
+  return {
+    ...activity,
+    min: activity.min * multiplier,
+    mostLikely: activity.mostLikely * multiplier,
+    max: activity.max * multiplier,
+    ...(activity.sdOverride !== undefined && { sdOverride: activity.sdOverride * multiplier }),
+  };
+}
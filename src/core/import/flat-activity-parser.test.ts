@@ -428,7 +428,7 @@ describe("per-column validation errors", () => {
         row: 3,
         column: "Predecessors",
         message:
-          'Invalid predecessor token "!!bad!!". Expected format: A1 or A1+3 or A1-2.',
+          'Invalid predecessor token "!!bad!!". Expected format: A1, A1+3, A1-2, A1SS+2 or A1SS+60% (type FS, SS, FF or SF).',
         severity: "error",
       },
     ]);
@@ -575,6 +575,74 @@ describe("Dependency resolution", () => {
     expect(dep2).toBeDefined();
   });
 
+  it("parses typed tokens: A1SS+2, A2SF, A1FF-1", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "Medium"),
+      validRow("A2", "Task 2", "3", "5", "9", "Medium"),
+      validRow("A3", "Task 3", "1", "2", "3", "Medium", "normal", "planned", "A1SS+2,A2SF"),
+      validRow("A4", "Task 4", "1", "2", "3", "Medium", "normal", "planned", "A1FF-1"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.errors).toHaveLength(0);
+    expect(result.dependencies.map((d) => [d.type, d.lagDays])).toEqual([
+      ["SS", 2],
+      ["SF", 0],
+      ["FF", -1],
+    ]);
+  });
+
+  it("parses percentage lags: A1SS+60%, A2-25%", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "Medium"),
+      validRow("A2", "Task 2", "3", "5", "9", "Medium"),
+      validRow("A3", "Task 3", "1", "2", "3", "Medium", "normal", "planned", "A1SS+60%,A2-25%"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.errors).toHaveLength(0);
+    expect(result.dependencies.map((d) => [d.type, d.lagDays, d.lagPercent])).toEqual([
+      ["SS", 0, 60],
+      ["FS", 0, -25],
+    ]);
+  });
+
+  it("errors on a percentage lag beyond limit: A1SS+150%", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "Medium"),
+      validRow("A2", "Task 2", "3", "5", "9", "Medium", "normal", "planned", "A1SS+150%"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.message).toContain("between -100% and 100%");
+  });
+
+  it("prefers an activity ID that exists verbatim over a typed reading", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "Medium"),
+      validRow("A1SS", "Task 2", "3", "5", "9", "Medium"),
+      validRow("A3", "Task 3", "1", "2", "3", "Medium", "normal", "planned", "A1SS+1"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.errors).toHaveLength(0);
+    expect(result.dependencies).toHaveLength(1);
+    expect(result.dependencies[0]!.type).toBe("FS");
+    expect(result.dependencies[0]!.lagDays).toBe(1);
+  });
+
+  it("reports the plain ID when neither reading of a typed-looking token exists", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "Medium"),
+      validRow("A2", "Task 2", "3", "5", "9", "Medium", "normal", "planned", "X9SS"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.message).toContain('Predecessor "X9SS" not found');
+  });
+
   it("accepts lag at limits: A1+365 and A1-365", () => {
     const rows = [
       HEADER_ROW,
@@ -809,6 +877,20 @@ describe("Edge cases", () => {
     expect(result.errors[0]!.message).toContain("required");
     expect(result.errors[0]!.message).toContain("T-Normal");
   });
+
+  it("maps PERT-Beta and Weibull names, with confidence optional only for PERT-Beta", () => {
+    const rows = [
+      HEADER_ROW,
+      validRow("A1", "Task 1", "2", "4", "8", "", "PERT-Beta"),
+      validRow("A2", "Task 2", "2", "4", "8", "", "pert"),
+      validRow("A3", "Task 3", "2", "4", "8", "Medium", "Weibull"),
+      validRow("A4", "Task 4", "2", "4", "8", "", "weibull"),
+    ];
+    const result = parseFlatActivityTable(rows, makeIdGen());
+    expect(result.activities.map((a) => a.distributionType)).toEqual(["pertBeta", "pertBeta", "weibull"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]!.message).toContain("Weibull");
+  });
 });
 
 // =============================================================================
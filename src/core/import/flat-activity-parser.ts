@@ -5,12 +5,14 @@
 import type {
   Activity,
   ActivityDependency,
+  DependencyType,
   RSMLevel,
   DistributionType,
   ActivityStatus,
 } from "@domain/models/types";
-import { DEFAULT_SCENARIO_SETTINGS } from "@domain/models/types";
+import { DEFAULT_SCENARIO_SETTINGS, LAG_PERCENT_MAX, LAG_PERCENT_MIN } from "@domain/models/types";
 import { ActivitySchema } from "@domain/schemas/project.schema";
+import { distributionLabel, usesConfidenceLevel } from "@domain/helpers/format-labels";
 import { detectCycle } from "@core/schedule/dependency-graph";
 import type { FlatActivityRow, CSVImportError, CSVParseResult } from "./types";
 
@@ -39,6 +41,10 @@ const DISTRIBUTION_MAP: Record<string, DistributionType> = {
   lognormal: "logNormal",
   triangular: "triangular",
   uniform: "uniform",
+  pertbeta: "pertBeta",
+  "pert-beta": "pertBeta",
+  pert: "pertBeta",
+  weibull: "weibull",
 };
 
 const STATUS_MAP: Record<string, ActivityStatus> = {
@@ -128,7 +134,72 @@ function resolveHeaders(
 // Activity IDs in predecessor tokens use [A-Za-z0-9_] (no hyphens) to avoid
 // ambiguity with lag syntax like "A2-2" (ID "A2", lag -2).
 // eslint-disable-next-line sonarjs/concise-regex -- explicit character class intentional — documents hyphen exclusion
-const PREDECESSOR_REGEX = /^([A-Za-z0-9_]+)([+-]\d+)?$/;
+const PREDECESSOR_REGEX = /^([A-Za-z0-9_]+)([+-]\d+%?)?$/;
+
+// Typed form: "A3SS", "A3SF+2", "A3SS+60%". The type suffix sits between the ID and the lag,
+// so it can only be told apart from the ID itself by looking the ID up.
+// eslint-disable-next-line sonarjs/concise-regex -- same hyphen-excluding class as PREDECESSOR_REGEX
+const TYPED_PREDECESSOR_REGEX = /^([A-Za-z0-9_]+?)(FS|SS|FF|SF)([+-]\d+%?)?$/;
+
+interface PredecessorToken {
+  predUserId: string;
+  type: DependencyType;
+  lagStr: string | undefined; // e.g. "+3", "-2", "+60%" or undefined
+}
+
+/**
+ * Split a predecessor token into ID, dependency type and lag, or null if it
+ * matches neither form.
+ *
+ * ⚠️ "A1SS" is ambiguous — activity "A1SS" (FS) or activity "A1" (SS). An ID that
+ * exists verbatim always wins, so files written before typed tokens existed parse
+ * exactly as they did. The typed reading is only taken when its ID exists or the
+ * token has no plain reading at all; otherwise the plain reading is returned and
+ * the caller reports its (unsuffixed) ID as not found.
+ */
+function parsePredecessorToken(
+  token: string,
+  knownIds: ReadonlyMap<string, string>,
+): PredecessorToken | null {
+  const plain = PREDECESSOR_REGEX.exec(token);
+  const plainToken = plain ? { predUserId: plain[1]!, type: "FS" as const, lagStr: plain[2] } : null;
+  if (plainToken && knownIds.has(plainToken.predUserId)) return plainToken;
+
+  const typed = TYPED_PREDECESSOR_REGEX.exec(token);
+  if (typed && (!plainToken || knownIds.has(typed[1]!))) {
+    return { predUserId: typed[1]!, type: typed[2] as DependencyType, lagStr: typed[3] };
+  }
+  return plainToken;
+}
+
+type LagFields = Pick<ActivityDependency, "lagDays" | "lagPercent">;
+
+/**
+ * Turn a token's lag suffix into dependency lag fields: "+3" is a day lag, "+60%" a
+ * percentage of the predecessor's duration. Returns the error message when the value
+ * is out of range.
+ */
+function parseLagSuffix(
+  lagStr: string | undefined,
+  predUserId: string,
+): { fields: LagFields } | { error: string } {
+  if (!lagStr) return { fields: { lagDays: 0 } };
+  const value = parseInt(lagStr, 10);
+  if (lagStr.endsWith("%")) {
+    if (value < LAG_PERCENT_MIN || value > LAG_PERCENT_MAX) {
+      return {
+        error: `Lag for predecessor "${truncate(predUserId)}" is ${value}%. Percentage lag must be between ${LAG_PERCENT_MIN}% and ${LAG_PERCENT_MAX}%.`,
+      };
+    }
+    return { fields: { lagDays: 0, lagPercent: value } };
+  }
+  if (value < -365 || value > 365) {
+    return {
+      error: `Lag for predecessor "${truncate(predUserId)}" is ${value} days. Lag must be between -365 and 365.`,
+    };
+  }
+  return { fields: { lagDays: value } };
+}
 
 // -- Excel date detection (warning, not error) --------------------------------
 
@@ -328,7 +399,7 @@ export function parseFlatActivityTable(
     // Normalize distribution (optional — defaults to the scenario's configured
     // default distribution type, DEFAULT_SCENARIO_SETTINGS.defaultDistributionType,
     // currently "triangular") — parsed before confidence because empty confidence
-    // is allowed for triangular/uniform
+    // is allowed for the bounded types
     let distributionType: DistributionType = DEFAULT_SCENARIO_SETTINGS.defaultDistributionType;
     if (rawDistribution) {
       const distKey = normalizeKey(rawDistribution);
@@ -345,17 +416,17 @@ export function parseFlatActivityTable(
       }
     }
 
-    // Normalize confidence level — empty is allowed for triangular/uniform
-    // (confidence only affects T-Normal and LogNormal)
+    // Normalize confidence level — empty is allowed for the bounded types
+    // (confidence only affects T-Normal, LogNormal and Weibull)
     let confidenceLevel: RSMLevel;
     if (!rawConfidence) {
-      if (distributionType === "triangular" || distributionType === "uniform") {
+      if (!usesConfidenceLevel(distributionType)) {
         confidenceLevel = DEFAULT_SCENARIO_SETTINGS.defaultConfidenceLevel;
       } else {
         errors.push({
           row: rowNum,
           column: "Confidence Level",
-          message: `Confidence Level is required for ${distributionType === "logNormal" ? "LogNormal" : "T-Normal"} distribution.`,
+          message: `Confidence Level is required for ${distributionLabel(distributionType)} distribution.`,
           severity: "error",
         });
         continue;
@@ -486,27 +557,26 @@ export function parseFlatActivityTable(
     if (!successorUuid) continue; // shouldn't happen, but guard
 
     for (const token of flatRow.predecessorTokens) {
-      const match = PREDECESSOR_REGEX.exec(token);
-      if (!match) {
+      const parsed = parsePredecessorToken(token, activityIdMap);
+      if (!parsed) {
         errors.push({
           row: flatRow.rowNumber,
           column: "Predecessors",
-          message: `Invalid predecessor token "${truncate(token)}". Expected format: A1 or A1+3 or A1-2.`,
+          message: `Invalid predecessor token "${truncate(token)}". Expected format: A1, A1+3, A1-2, A1SS+2 or A1SS+60% (type FS, SS, FF or SF).`,
           severity: "error",
         });
         continue;
       }
 
-      const predUserId = match[1]!;
-      const lagStr = match[2]; // e.g. "+3" or "-2" or undefined
-      const lagDays = lagStr ? parseInt(lagStr, 10) : 0;
+      const { predUserId, type, lagStr } = parsed;
 
       // Lag range check
-      if (lagDays < -365 || lagDays > 365) {
+      const lag = parseLagSuffix(lagStr, predUserId);
+      if ("error" in lag) {
         errors.push({
           row: flatRow.rowNumber,
           column: "Predecessors",
-          message: `Lag for predecessor "${truncate(predUserId)}" is ${lagDays} days. Lag must be between -365 and 365.`,
+          message: lag.error,
           severity: "error",
         });
         continue;
@@ -538,8 +608,8 @@ export function parseFlatActivityTable(
       dependencies.push({
         fromActivityId: predUuid,
         toActivityId: successorUuid,
-        type: "FS",
-        lagDays,
+        type,
+        ...lag.fields,
       });
     }
   }
@@ -45,6 +45,24 @@ describe("recommendDistribution", () => {
     // min=1, ml=99, max=100 -> left-skewed (skew < 0), not logNormal
     const result = recommendDistribution(1, 99, 100, "mediumConfidence");
     expect(result.recommended).not.toBe("logNormal");
+    expect(result.recommended).toBe("triangular");
+  });
+
+  it("recommends PERT-Beta for wide, nearly symmetric estimates", () => {
+    // min=1, ml=10, max=19 -> no skew, but too variable for a Normal
+    const result = recommendDistribution(1, 10, 19, "lowConfidence");
+    expect(result.recommended).toBe("pertBeta");
+  });
+
+  it("recommends Weibull for right skew above a large minimum", () => {
+    // min=100 is above the range of 60 -> a floor of fixed work with a right tail
+    const result = recommendDistribution(100, 105, 160, "nearCertainty");
+    expect(result.recommended).toBe("weibull");
+  });
+
+  it("recommends Empirical once there are enough historical durations", () => {
+    expect(recommendDistribution(3, 5, 10, "mediumConfidence", [4, 5, 6, 7, 9]).recommended).toBe("empirical");
+    expect(recommendDistribution(3, 5, 10, "mediumConfidence", [4, 5, 6, 7]).recommended).not.toBe("empirical");
   });
 
   it("recommends Uniform when ML equals min", () => {
@@ -67,6 +85,6 @@ describe("recommendDistribution", () => {
   it("handles near-threshold values", () => {
     // Test that the function doesn't crash at boundary values
     const result = recommendDistribution(5, 10, 15, "mediumConfidence");
-    expect(["normal", "logNormal", "triangular", "uniform"]).toContain(result.recommended);
+    expect(["normal", "logNormal", "triangular", "uniform", "pertBeta", "weibull"]).toContain(result.recommended);
   });
 });
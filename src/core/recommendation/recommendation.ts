@@ -3,10 +3,13 @@
 // See LICENSE file in the project root for full license text.
 
 import type { RSMLevel, DistributionType } from "@domain/models/types";
+import { HISTORICAL_DURATIONS_MIN } from "@domain/models/types";
 import { computePertMean, computeSpertSD, computeSkewIndicator, computeCV } from "@core/estimation/spert";
 
 const SKEW_THRESHOLD = 0.1;
 const CV_THRESHOLD = 0.3;
+/** A minimum at least this many ranges above zero is a floor of fixed work. */
+const FLOOR_RATIO = 1;
 
 export interface DistributionRecommendation {
   recommended: DistributionType;
@@ -17,17 +20,28 @@ export interface DistributionRecommendation {
  * Recommend a distribution type based on the activity's statistical properties.
  *
  * Rules:
+ * - HISTORICAL_DURATIONS_MIN or more historical durations --> Empirical
  * - ml === min or ml === max (no distinct mode) --> Uniform
  * - |skew| < SKEW_THRESHOLD and CV < CV_THRESHOLD --> Normal
  * - skew > SKEW_THRESHOLD and CV > CV_THRESHOLD --> LogNormal
+ * - skew > SKEW_THRESHOLD above a floor of fixed work (min >= FLOOR_RATIO x range) --> Weibull
+ * - |skew| < SKEW_THRESHOLD and CV >= CV_THRESHOLD --> PERT-Beta
  * - Otherwise --> Triangular
  */
 export function recommendDistribution(
   min: number,
   ml: number,
   max: number,
-  rsmLevel: RSMLevel
+  rsmLevel: RSMLevel,
+  historicalDurations?: readonly number[]
 ): DistributionRecommendation {
+  if (historicalDurations && historicalDurations.length >= HISTORICAL_DURATIONS_MIN) {
+    return {
+      recommended: "empirical",
+      rationale: "Enough historical durations to sample them directly instead of assuming a shape.",
+    };
+  }
+
   const mean = computePertMean(min, ml, max);
   const sd = computeSpertSD(min, max, rsmLevel);
 
@@ -59,6 +73,22 @@ export function recommendDistribution(
     };
   }
 
+  if (skew > SKEW_THRESHOLD && min >= FLOOR_RATIO * (max - min)) {
+    return {
+      recommended: "weibull",
+      rationale:
+        "Right skew above a large minimum; a Weibull grows its tail from the minimum, where a LogNormal from zero would be nearly symmetric.",
+    };
+  }
+
+  if (Math.abs(skew) < SKEW_THRESHOLD) {
+    return {
+      recommended: "pertBeta",
+      rationale:
+        "Nearly symmetric but wide; a Normal this wide spills past the estimate, where PERT-Beta stays inside it and matches the PERT mean.",
+    };
+  }
+
   return {
     recommended: "triangular",
     rationale: "Moderate asymmetry best modeled with a Triangular distribution.",
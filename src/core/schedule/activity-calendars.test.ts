@@ -0,0 +1,135 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, ActivityDependency, NamedCalendar } from "@domain/models/types";
+import { buildDependencyGraph, computeCriticalPathDuration } from "./dependency-graph";
+import { computeDependencySchedule } from "./deterministic";
+import {
+  buildActivityCalendarAxis,
+  createActivityCalendarResolver,
+  resolveActivityCalendars,
+} from "./activity-calendars";
+
+function fixedActivity(id: string, days: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: days,
+    mostLikely: days,
+    max: days,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string, lagDays = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays };
+}
+
+const sevenDay: NamedCalendar = {
+  id: "vendor",
+  name: "Vendor",
+  workDays: [0, 1, 2, 3, 4, 5, 6],
+  holidays: [],
+};
+const weekdays: NamedCalendar = { id: "office", name: "Office", workDays: [1, 2, 3, 4, 5], holidays: [] };
+
+// Mon 2026-01-05. a (4d) → v (3d, vendor) → b (2d); c (10d) runs alongside.
+const START = "2026-01-05";
+const activities = [
+  fixedActivity("a", 4),
+  fixedActivity("v", 3, { calendarId: "vendor" }),
+  fixedActivity("b", 2),
+  fixedActivity("c", 10),
+];
+const dependencies = [fsDep("a", "v"), fsDep("v", "b")];
+
+describe("resolveActivityCalendars", () => {
+  it("is undefined when no activity names a known calendar", () => {
+    expect(resolveActivityCalendars(activities, undefined)).toBeUndefined();
+    expect(resolveActivityCalendars([fixedActivity("x", 1, { calendarId: "gone" })], [sevenDay])).toBeUndefined();
+  });
+
+  it("maps each assigned activity to its calendar, built once per calendar", () => {
+    const map = resolveActivityCalendars(
+      [...activities, fixedActivity("w", 1, { calendarId: "vendor" })],
+      [sevenDay],
+    )!;
+    expect([...map.keys()]).toEqual(["v", "w"]);
+    expect(map.get("v")).toBe(map.get("w"));
+  });
+});
+
+describe("computeDependencySchedule with per-activity calendars", () => {
+  const scheduled = (calendars: NamedCalendar[]) =>
+    computeDependencySchedule(
+      activities, dependencies, START, 0.5, undefined, undefined,
+      resolveActivityCalendars(activities, calendars),
+    );
+  const byId = (calendars: NamedCalendar[]) =>
+    new Map(scheduled(calendars).activities.map((a) => [a.activityId, a]));
+
+  it("runs a vendor activity over the weekend on its own calendar", () => {
+    const rows = byId([sevenDay]);
+    expect(rows.get("v")!.startDate).toBe("2026-01-09"); // Fri
+    expect(rows.get("v")!.endDate).toBe("2026-01-11"); // Sun
+    expect(rows.get("b")!.startDate).toBe("2026-01-12"); // Mon — two days earlier than Mon–Fri
+    expect(rows.get("b")!.endDate).toBe("2026-01-13");
+  });
+
+  it("counts float in the activity's own working days", () => {
+    // b may start Thu 15 at the latest, so v may finish Wed 14: Fri, Sat and Sun to spare.
+    const rows = byId([sevenDay]);
+    expect(rows.get("v")!.totalFloat).toBe(3);
+    expect(rows.get("b")!.totalFloat).toBe(3);
+  });
+
+  it("reports durations in project-calendar days", () => {
+    const schedule = scheduled([{ ...sevenDay, id: "vendor" }]);
+    expect(schedule.projectEndDate).toBe("2026-01-16");
+    expect(schedule.spanDays).toBe(10);
+    expect(schedule.totalDurationDays).toBe(10);
+  });
+
+  it("matches the single-calendar schedule when the named calendar is the project's", () => {
+    const plain = computeDependencySchedule(activities, dependencies, START, 0.5);
+    const named = scheduled([{ ...weekdays, id: "vendor" }]);
+    expect(named.activities).toEqual(plain.activities);
+    expect(named.totalDurationDays).toBe(plain.totalDurationDays);
+  });
+});
+
+describe("createActivityCalendarResolver", () => {
+  const calendarMap = resolveActivityCalendars(activities, [sevenDay])!;
+  const axis = buildActivityCalendarAxis(START, undefined, calendarMap);
+  const resolver = createActivityCalendarResolver(axis);
+
+  it("puts the vendor on its own track and everything else on the project's", () => {
+    expect(axis.activityTracks).toEqual({ v: 1 });
+    expect(resolver.trackOf("a")).not.toBe(resolver.trackOf("v"));
+    expect(resolver.trackOf("a")).toBe(resolver.trackOf("unknown"));
+  });
+
+  it("converts project working days to axis days and back", () => {
+    // Project day 5 starts Mon 12 — axis day 7, after the weekend.
+    expect(resolver.toAxis(5)).toBe(7);
+    expect(resolver.fromAxis(5)).toBe(5); // finished Fri 9
+    expect(resolver.fromAxis(8)).toBe(6); // finished Mon 12
+    // A weekend finish rounds up, as spanDays does for a project ending on a Sunday.
+    expect(resolver.fromAxis(6)).toBe(6);
+    expect(resolver.fromAxis(7)).toBe(6);
+    expect(resolver.fromAxis(0)).toBe(0);
+  });
+
+  it("schedules the critical path on the axis the way the date engine does", () => {
+    const durations = new Map(activities.map((a) => [a.id, a.mostLikely]));
+    const graph = buildDependencyGraph(activities.map((a) => a.id), dependencies, undefined, resolver);
+    // b finishes Tue 13 = axis 9 (the vendor's 7-day axis); c finishes Fri 16 = axis 12.
+    expect(computeCriticalPathDuration(graph, durations)).toBe(12);
+    expect(resolver.fromAxis(12)).toBe(10);
+  });
+});
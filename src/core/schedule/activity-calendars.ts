@@ -0,0 +1,351 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Per-activity calendars in the integer working-day domain.
+ *
+ * With one calendar, a working-day offset means the same thing for every activity. Once
+ * a vendor works weekends that breaks: day 5 of the vendor is not day 5 of the office.
+ * So offsets are counted on a common AXIS — the union calendar, every day on which some
+ * activity may work — and each calendar is a TRACK on it: the axis days it works.
+ * Durations and lags are counted along the track of the activity they belong to; lags
+ * along the successor's, as the date-domain scheduler does.
+ *
+ * Positions are real numbers in Monte Carlo. A START position t sits in axis day
+ * floor(t); a FINISH position t has used axis day ceil(t) − 1, its last. A track
+ * position is the same idea counted in track days. With every axis day a track day all
+ * conversions are the identity, which is what keeps the single-calendar engine as it was.
+ *
+ * The project calendar is track 0. Everything the rest of the app reads in working days
+ * — simulation samples, milestone floors, constraint offsets — stays in PROJECT days;
+ * {@link ActivityCalendarResolver.toAxis} and `fromAxis` convert at the boundary.
+ *
+ * `ActivityCalendarAxis` is the serializable form (it crosses the worker boundary), the
+ * same split as elapsed-lag.ts.
+ */
+
+import type { Activity, Calendar, DependencyType, NamedCalendar } from "@domain/models/types";
+import {
+  CalendarConfigurationError,
+  UnionWorkCalendar,
+  advanceToNextWorkingDay,
+  buildNamedWorkCalendar,
+  type WorkCalendar,
+} from "@core/calendar/work-calendar";
+import { addCalendarDays, isWorkingDay, parseDateISO } from "@core/calendar/calendar";
+import { elapsedEarlyStart, elapsedLateStart, type ElapsedLagResolver } from "./elapsed-lag";
+
+/** Calendar days sampled before the project start: the largest lead (−365) plus a week. */
+const LOOKBEHIND_DAYS = 372;
+
+/** Calendar days sampled after the project start. Beyond it the last week repeats. */
+const LOOKAHEAD_DAYS = 3660;
+const DAYS_PER_WEEK = 7;
+
+type Cal = WorkCalendar | Calendar | undefined;
+
+export interface CalendarTrackSample {
+  /** Axis day of each working day of this calendar in the horizon, ascending. */
+  days: number[];
+  /** Index into `days` of the first working day on or after axis day 0. */
+  zeroIndex: number;
+  /** Working days of this calendar in the first and the last sampled week. */
+  weekDays: [number, number];
+}
+
+export interface ActivityCalendarAxis {
+  /** Axis days in the first and the last sampled week. */
+  axisWeekDays: [number, number];
+  /** Track 0 is the project calendar, then one per named calendar in use. */
+  tracks: CalendarTrackSample[];
+  /** activityId → index into `tracks`. Activities not listed run on the project calendar. */
+  activityTracks: Record<string, number>;
+}
+
+/** One calendar's working days on the axis. */
+export interface CalendarTrack {
+  /** Track position of a start at axis position `t`; a start on a day off waits for the next working day. */
+  startPosition(t: number): number;
+  /** Latest track start at or before axis position `t`. */
+  latestStartPosition(t: number): number;
+  /** Track days completed by a finish at axis position `t`. */
+  finishPosition(t: number): number;
+  /** Track finish reached no earlier than axis position `t`; a finish on a day off rolls to the next working day. */
+  finishPositionCeil(t: number): number;
+  /** Axis position of track start position `p`. */
+  startAt(p: number): number;
+  /** Axis position of track finish position `q`. */
+  finishAt(q: number): number;
+}
+
+export interface ActivityCalendarResolver {
+  trackOf(activityId: string): CalendarTrack;
+  /** Axis day of project working day `projectDay`. */
+  toAxis(projectDay: number): number;
+  /** Project working days spanned by a finish at axis position `t`. */
+  fromAxis(t: number): number;
+}
+
+/**
+ * Each activity's own calendar, built once per named calendar. Undefined when no
+ * activity names a calendar the project defines — the single-calendar case.
+ */
+export function resolveActivityCalendars(
+  activities: Activity[],
+  calendars: NamedCalendar[] | undefined,
+): Map<string, WorkCalendar> | undefined {
+  if (!calendars || calendars.length === 0) return undefined;
+  const built = new Map<string, WorkCalendar>();
+  const result = new Map<string, WorkCalendar>();
+  for (const a of activities) {
+    if (!a.calendarId) continue;
+    let cal = built.get(a.calendarId);
+    if (!cal) {
+      const named = calendars.find((c) => c.id === a.calendarId);
+      if (!named) continue;
+      cal = buildNamedWorkCalendar(named);
+      built.set(a.calendarId, cal);
+    }
+    result.set(a.id, cal);
+  }
+  return result.size > 0 ? result : undefined;
+}
+
+/** The calendar offsets are counted on: the project calendar, or the union when activities have their own. */
+export function scheduleAxisCalendar(
+  calendar: Cal,
+  activityCalendars: Map<string, WorkCalendar> | undefined,
+): Cal {
+  if (!activityCalendars) return calendar;
+  return new UnionWorkCalendar([calendar, ...new Set(activityCalendars.values())]);
+}
+
+/** Working days, on the given calendar, among the first or last `DAYS_PER_WEEK` sampled days. */
+function countWeek(flags: boolean[], fromEnd: boolean): number {
+  const week = fromEnd ? flags.slice(-DAYS_PER_WEEK) : flags.slice(0, DAYS_PER_WEEK);
+  return week.filter(Boolean).length;
+}
+
+/**
+ * Sample every calendar around the project start. Axis day 0 is the project start
+ * advanced to the first day ANY activity may work.
+ */
+export function buildActivityCalendarAxis(
+  startDate: string,
+  calendar: Cal,
+  activityCalendars: Map<string, WorkCalendar>,
+): ActivityCalendarAxis {
+  const members: (Cal)[] = [calendar, ...new Set(activityCalendars.values())];
+  const axisStart = advanceToNextWorkingDay(parseDateISO(startDate), new UnionWorkCalendar(members));
+
+  const unionFlags: boolean[] = [];
+  const memberFlags: boolean[][] = members.map(() => []);
+  let beforeZero = 0;
+  for (let day = -LOOKBEHIND_DAYS; day <= LOOKAHEAD_DAYS; day++) {
+    const date = addCalendarDays(axisStart, day);
+    let any = false;
+    members.forEach((cal, i) => {
+      const works = isWorkingDay(date, cal);
+      memberFlags[i]!.push(works);
+      any ||= works;
+    });
+    unionFlags.push(any);
+    if (any && day < 0) beforeZero++;
+  }
+
+  const tracks = memberFlags.map((flags): CalendarTrackSample => {
+    const days: number[] = [];
+    let axisDay = -beforeZero;
+    let zeroIndex = -1;
+    flags.forEach((works, i) => {
+      if (!unionFlags[i]) return;
+      if (works) {
+        if (zeroIndex < 0 && axisDay >= 0) zeroIndex = days.length;
+        days.push(axisDay);
+      }
+      axisDay++;
+    });
+    return { days, zeroIndex, weekDays: [countWeek(flags, false), countWeek(flags, true)] };
+  });
+
+  const trackIndex = new Map(members.map((cal, i) => [cal, i]));
+  const activityTracks: Record<string, number> = {};
+  for (const [id, cal] of activityCalendars) activityTracks[id] = trackIndex.get(cal)!;
+
+  return {
+    axisWeekDays: [countWeek(unionFlags, false), countWeek(unionFlags, true)],
+    tracks,
+    activityTracks,
+  };
+}
+
+function noWorkingDays(): CalendarConfigurationError {
+  return new CalendarConfigurationError(
+    "No working day found within the configured calendar — check for an all-non-working work week or excessive holidays."
+  );
+}
+
+/**
+ * Track lookups. Inside the sampled horizon they are exact; outside it the edge week
+ * is repeated, as in elapsed-lag.ts.
+ */
+function createCalendarTrack(sample: CalendarTrackSample, axisWeekDays: [number, number]): CalendarTrack {
+  const { days, zeroIndex: zero } = sample;
+  const n = days.length;
+  const [perWeekBefore, perWeekAfter] = sample.weekDays;
+  const [axisBefore, axisAfter] = axisWeekDays;
+  if (n === 0 || zero < 0 || perWeekBefore === 0 || perWeekAfter === 0) throw noWorkingDays();
+  const first = days[0]!;
+  const last = days[n - 1]!;
+
+  /** Axis day of track day `j` (0 = first track day on or after axis day 0). */
+  function dayAt(j: number): number {
+    const index = j + zero;
+    if (index >= n) {
+      const weeks = Math.ceil((index - (n - 1)) / perWeekAfter);
+      return days[index - weeks * perWeekAfter]! + weeks * axisAfter;
+    }
+    if (index < 0) {
+      const weeks = Math.ceil(-index / perWeekBefore);
+      return days[index + weeks * perWeekBefore]! - weeks * axisBefore;
+    }
+    return days[index]!;
+  }
+
+  /** Table index of the first track day on or after axis day `a`. */
+  function indexOnOrAfter(a: number): number {
+    if (a > last) {
+      const weeks = Math.ceil((a - last) / axisAfter);
+      return indexOnOrAfter(a - weeks * axisAfter) + weeks * perWeekAfter;
+    }
+    if (a < first) {
+      const weeks = Math.ceil((first - a) / axisBefore);
+      return indexOnOrAfter(a + weeks * axisBefore) - weeks * perWeekBefore;
+    }
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (days[mid]! < a) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /** Track days before axis day `a`. */
+  const countBefore = (a: number): number => indexOnOrAfter(a) - zero;
+
+  return {
+    startPosition(t) {
+      const d = Math.floor(t);
+      const c = countBefore(d);
+      return dayAt(c) === d ? c + (t - d) : c;
+    },
+    latestStartPosition(t) {
+      const d = Math.floor(t);
+      const c = countBefore(d);
+      return dayAt(c) === d ? c + (t - d) : c - 1;
+    },
+    finishPosition(t) {
+      const d = Math.ceil(t) - 1;
+      const c = countBefore(d);
+      return dayAt(c) === d ? c + (t - d) : c;
+    },
+    finishPositionCeil(t) {
+      const d = Math.ceil(t) - 1;
+      return countBefore(d) + (t - d);
+    },
+    startAt(p) {
+      const j = Math.floor(p);
+      return dayAt(j) + (p - j);
+    },
+    finishAt(q) {
+      const j = Math.ceil(q) - 1;
+      return dayAt(j) + (q - j);
+    },
+  };
+}
+
+export function createActivityCalendarResolver(spec: ActivityCalendarAxis): ActivityCalendarResolver {
+  if (spec.axisWeekDays[0] === 0 || spec.axisWeekDays[1] === 0) throw noWorkingDays();
+  const tracks = spec.tracks.map((t) => createCalendarTrack(t, spec.axisWeekDays));
+  const project = tracks[0]!;
+  return {
+    trackOf: (activityId) => tracks[spec.activityTracks[activityId] ?? 0]!,
+    toAxis: (projectDay) => project.startAt(projectDay),
+    // A finish on a day the project calendar does not work counts up to the project's
+    // next working day — the same reading as the deterministic spanDays.
+    fromAxis: (t) => (t > 0 ? project.finishPositionCeil(t) : t),
+  };
+}
+
+// -- Edge rules (integer domain) ----------------------------------------------
+
+/** Axis finish of an activity starting at axis position `es` on `track`. */
+export function trackFinish(track: CalendarTrack, es: number, duration: number): number {
+  const p = track.startPosition(es);
+  return duration > 0 ? track.finishAt(p + duration) : track.startAt(p);
+}
+
+/**
+ * Candidate early start for a successor on its own track. Lags count on the successor's
+ * track, as in the date domain:
+ *   FS: successor day `lag` after the predecessor's finish
+ *   SS: successor day `lag` after the predecessor's start
+ *   FF: finish `lag` successor days after the predecessor's finish (rolled forward), then back off the duration
+ *   SF: finish `lag` successor days after the predecessor's start, then back off the duration
+ * An elapsed lag is resolved on the axis first, then the successor waits for its own day.
+ */
+export function trackEarlyStart(
+  type: DependencyType,
+  predES: number,
+  predEF: number,
+  lagDays: number,
+  succDuration: number,
+  succ: CalendarTrack,
+  elapsed?: ElapsedLagResolver,
+): number {
+  const readsFinish = type === "FF" || type === "SF";
+  if (elapsed) {
+    const target = elapsedEarlyStart(type, predES, predEF, lagDays, 0, elapsed);
+    return readsFinish
+      ? succ.startAt(succ.finishPositionCeil(target) - succDuration)
+      : succ.startAt(succ.startPosition(target));
+  }
+  if (type === "SS") return succ.startAt(succ.startPosition(predES) + lagDays);
+  if (type === "FF") return succ.startAt(succ.finishPositionCeil(predEF) + lagDays - succDuration);
+  if (type === "SF") return succ.startAt(succ.startPosition(predES) + lagDays - succDuration);
+  return succ.startAt(succ.finishPosition(predEF) + lagDays); // FS
+}
+
+/**
+ * Candidate late start for a predecessor — the inverse of {@link trackEarlyStart}: find
+ * the latest point the predecessor's read side may sit at on the successor's track, then
+ * place the predecessor on its own.
+ */
+export function trackLateStart(
+  type: DependencyType,
+  succLS: number,
+  succLF: number,
+  lagDays: number,
+  predDuration: number,
+  pred: CalendarTrack,
+  succ: CalendarTrack,
+  elapsed?: ElapsedLagResolver,
+): number {
+  const readsPredStart = type === "SS" || type === "SF";
+  let bound: number;
+  if (elapsed) {
+    bound = elapsedLateStart(type, succLS, succLF, lagDays, 0, elapsed);
+  } else if (type === "FS" || type === "SS") {
+    bound = succ.startAt(succ.startPosition(succLS) - lagDays);
+  } else if (type === "FF") {
+    bound = succ.finishAt(succ.finishPosition(succLF) - lagDays);
+  } else {
+    bound = succ.startAt(succ.finishPosition(succLF) - lagDays); // SF
+  }
+  return readsPredStart
+    ? pred.startAt(pred.latestStartPosition(bound))
+    : pred.startAt(pred.finishPosition(bound) - predDuration);
+}
@@ -0,0 +1,118 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, Milestone, SimulationRun } from "@domain/models/types";
+import { computeDeterministicSchedule } from "./deterministic";
+import {
+  activeBaseline,
+  computeBaselineVariance,
+  milestoneFinishDates,
+  snapshotBaseline,
+  workingDayVariance,
+} from "./baseline";
+
+function fixedActivity(id: string, days: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: days,
+    mostLikely: days,
+    max: days,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+const milestones: Milestone[] = [
+  { id: "m1", name: "Design done", targetDate: "2026-01-30" },
+  { id: "m2", name: "Unused", targetDate: "2026-02-27" },
+];
+const meta = { id: "b1", name: "Approved", capturedAt: "2026-01-02T09:00:00.000Z" };
+
+// Mon 2026-01-05: a1 Mon–Wed, a2 Thu–Fri.
+const planned = [fixedActivity("a1", 3, { milestoneId: "m1" }), fixedActivity("a2", 2)];
+const plannedSchedule = computeDeterministicSchedule(planned, "2026-01-05", 0.5);
+
+describe("workingDayVariance", () => {
+  it("counts working days, signed, across a weekend", () => {
+    expect(workingDayVariance("2026-01-09", "2026-01-12", undefined)).toBe(1);
+    expect(workingDayVariance("2026-01-12", "2026-01-09", undefined)).toBe(-1);
+    expect(workingDayVariance("2026-01-09", "2026-01-09", undefined)).toBe(0);
+  });
+});
+
+describe("milestoneFinishDates", () => {
+  it("takes the latest finish among a milestone's activities and skips empty ones", () => {
+    const finishes = milestoneFinishDates(plannedSchedule.activities, planned, milestones);
+    expect(Object.fromEntries(finishes)).toEqual({ m1: "2026-01-07" });
+  });
+});
+
+describe("snapshotBaseline", () => {
+  it("copies dates, durations, milestone finishes, percentiles and the buffer", () => {
+    const results = { percentiles: { 50: 5, 95: 7 } } as unknown as SimulationRun;
+    const baseline = snapshotBaseline(meta, plannedSchedule, planned, milestones, results, 2);
+    expect(baseline).toEqual({
+      ...meta,
+      projectEndDate: "2026-01-09",
+      spanDays: 5,
+      activities: [
+        { activityId: "a1", startDate: "2026-01-05", endDate: "2026-01-07", duration: 3 },
+        { activityId: "a2", startDate: "2026-01-08", endDate: "2026-01-09", duration: 2 },
+      ],
+      milestones: [{ milestoneId: "m1", finishDate: "2026-01-07" }],
+      percentiles: { 50: 5, 95: 7 },
+      bufferDays: 2,
+    });
+  });
+
+  it("leaves the simulation fields out when the scenario has not been simulated", () => {
+    const baseline = snapshotBaseline(meta, plannedSchedule, planned, milestones, undefined, undefined);
+    expect("percentiles" in baseline).toBe(false);
+    expect("bufferDays" in baseline).toBe(false);
+  });
+});
+
+describe("computeBaselineVariance", () => {
+  const baseline = snapshotBaseline(meta, plannedSchedule, planned, milestones, undefined, undefined);
+
+  it("reports start, finish and duration slips in working days", () => {
+    // a1 grows to 4 days: a1 Mon–Thu, a2 Fri–Mon (over the weekend), plus a new a3.
+    const current = [
+      fixedActivity("a1", 4, { milestoneId: "m1" }),
+      fixedActivity("a2", 2),
+      fixedActivity("a3", 1),
+    ];
+    const schedule = computeDeterministicSchedule(current, "2026-01-05", 0.5);
+    const variance = computeBaselineVariance(baseline, schedule, current, milestones, undefined);
+    expect(Object.fromEntries(variance.activities)).toEqual({
+      a1: { startDays: 0, finishDays: 1, durationDays: 1 },
+      a2: { startDays: 1, finishDays: 1, durationDays: 0 },
+    });
+    expect(Object.fromEntries(variance.milestones)).toEqual({ m1: 1 });
+    expect(variance.projectFinishDays).toBe(2);
+  });
+
+  it("reports a pull-in as negative and drops removed activities", () => {
+    const current = [fixedActivity("a1", 2, { milestoneId: "m1" })];
+    const schedule = computeDeterministicSchedule(current, "2026-01-05", 0.5);
+    const variance = computeBaselineVariance(baseline, schedule, current, milestones, undefined);
+    expect(Object.fromEntries(variance.activities)).toEqual({
+      a1: { startDays: 0, finishDays: -1, durationDays: -1 },
+    });
+    expect(variance.projectFinishDays).toBe(-3);
+  });
+});
+
+describe("activeBaseline", () => {
+  it("resolves the active id and ignores a dangling one", () => {
+    const baseline = snapshotBaseline(meta, plannedSchedule, planned, milestones, undefined, undefined);
+    expect(activeBaseline({ baselines: [baseline], activeBaselineId: "b1" })).toBe(baseline);
+    expect(activeBaseline({ baselines: [baseline], activeBaselineId: "gone" })).toBeUndefined();
+    expect(activeBaseline({ baselines: [baseline] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Baselines — a named snapshot of the plan, and the variance of today's plan against it.
+ *
+ * A baseline copies the deterministic schedule's dates and durations, each milestone's
+ * finish, and (when the scenario has been simulated) the project percentiles and buffer.
+ * Variance is then measured in WORKING days on the current calendar, positive = later
+ * (or longer) than the baseline:
+ *
+ *   - start / finish variance: working days from the baseline date to the current one;
+ *   - duration variance: current duration − baseline duration.
+ *
+ * Activities and milestones added after the capture have no variance (nothing to measure
+ * against); ones removed since simply drop out.
+ */
+
+import type {
+  Activity,
+  Calendar,
+  DeterministicSchedule,
+  Milestone,
+  Scenario,
+  ScenarioBaseline,
+  ScheduledActivity,
+  SimulationRun,
+} from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { countWorkingDays, parseDateISO } from "@core/calendar/calendar";
+
+type Cal = WorkCalendar | Calendar | undefined;
+
+export interface ActivityVariance {
+  startDays: number;
+  finishDays: number;
+  durationDays: number;
+}
+
+export interface BaselineVariance {
+  /** Per activity in both the baseline and the current schedule. */
+  activities: Map<string, ActivityVariance>;
+  /** Finish variance per milestone in both the baseline and the current schedule. */
+  milestones: Map<string, number>;
+  /** Finish variance of the deterministic project finish. */
+  projectFinishDays: number;
+}
+
+/** The scenario's active baseline, or undefined when it has none (or a dangling id). */
+export function activeBaseline(
+  scenario: Pick<Scenario, "baselines" | "activeBaselineId">,
+): ScenarioBaseline | undefined {
+  if (!scenario.activeBaselineId) return undefined;
+  return scenario.baselines?.find((b) => b.id === scenario.activeBaselineId);
+}
+
+/** Signed working days from `baselineISO` to `currentISO`; positive = current is later. */
+export function workingDayVariance(baselineISO: string, currentISO: string, calendar: Cal): number {
+  if (currentISO === baselineISO) return 0;
+  const baseline = parseDateISO(baselineISO);
+  const current = parseDateISO(currentISO);
+  return current > baseline
+    ? countWorkingDays(baseline, current, calendar)
+    : -countWorkingDays(current, baseline, calendar);
+}
+
+/**
+ * Each milestone's finish: the latest scheduled finish among its activities — the same
+ * date the milestone panel shows as its deterministic finish. Milestones with nothing
+ * scheduled are left out.
+ */
+export function milestoneFinishDates(
+  scheduled: ScheduledActivity[],
+  activities: Activity[],
+  milestones: Milestone[],
+): Map<string, string> {
+  const endById = new Map(scheduled.map((sa) => [sa.activityId, sa.endDate]));
+  const known = new Set(milestones.map((m) => m.id));
+  const finishes = new Map<string, string>();
+  for (const activity of activities) {
+    const end = endById.get(activity.id);
+    if (!activity.milestoneId || !end || !known.has(activity.milestoneId)) continue;
+    const latest = finishes.get(activity.milestoneId);
+    if (!latest || end > latest) finishes.set(activity.milestoneId, end);
+  }
+  return finishes;
+}
+
+/** Snapshot the current plan as a baseline. */
+export function snapshotBaseline(
+  meta: Pick<ScenarioBaseline, "id" | "name" | "capturedAt">,
+  schedule: DeterministicSchedule,
+  activities: Activity[],
+  milestones: Milestone[],
+  simulationResults: SimulationRun | undefined,
+  bufferDays: number | undefined,
+): ScenarioBaseline {
+  const finishes = milestoneFinishDates(schedule.activities, activities, milestones);
+  return {
+    ...meta,
+    projectEndDate: schedule.projectEndDate,
+    spanDays: schedule.spanDays,
+    activities: schedule.activities.map((sa) => ({
+      activityId: sa.activityId,
+      startDate: sa.startDate,
+      endDate: sa.endDate,
+      duration: sa.duration,
+    })),
+    milestones: [...finishes].map(([milestoneId, finishDate]) => ({ milestoneId, finishDate })),
+    ...(simulationResults ? { percentiles: { ...simulationResults.percentiles } } : {}),
+    ...(bufferDays !== undefined ? { bufferDays } : {}),
+  };
+}
+
+/** Variance of the current schedule against a baseline. */
+export function computeBaselineVariance(
+  baseline: ScenarioBaseline,
+  schedule: DeterministicSchedule,
+  activities: Activity[],
+  milestones: Milestone[],
+  calendar: Cal,
+): BaselineVariance {
+  const currentById = new Map(schedule.activities.map((sa) => [sa.activityId, sa]));
+  const activityVariance = new Map<string, ActivityVariance>();
+  for (const planned of baseline.activities) {
+    const current = currentById.get(planned.activityId);
+    if (!current) continue;
+    activityVariance.set(planned.activityId, {
+      startDays: workingDayVariance(planned.startDate, current.startDate, calendar),
+      finishDays: workingDayVariance(planned.endDate, current.endDate, calendar),
+      durationDays: current.duration - planned.duration,
+    });
+  }
+
+  const currentFinishes = milestoneFinishDates(schedule.activities, activities, milestones);
+  const milestoneVariance = new Map<string, number>();
+  for (const planned of baseline.milestones) {
+    const current = currentFinishes.get(planned.milestoneId);
+    if (current) {
+      milestoneVariance.set(planned.milestoneId, workingDayVariance(planned.finishDate, current, calendar));
+    }
+  }
+
+  return {
+    activities: activityVariance,
+    milestones: milestoneVariance,
+    projectFinishDays: workingDayVariance(baseline.projectEndDate, schedule.projectEndDate, calendar),
+  };
+}
@@ -0,0 +1,99 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, ActivityDependency, ExclusiveBranch } from "@domain/models/types";
+import {
+  applyBranchSchedulePolicy,
+  bridgeRemovedActivities,
+  unplannedActivityIds,
+} from "./branch-policy";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function dep(from: string, to: string, type: ActivityDependency["type"] = "FS", lagDays = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type, lagDays };
+}
+
+const PERMIT: ExclusiveBranch = {
+  id: "b1",
+  name: "Permit",
+  paths: [
+    { id: "p1", name: "Approved", probability: 0.3, activityIds: ["fast"] },
+    { id: "p2", name: "Appealed", probability: 0.7, activityIds: ["slow"] },
+  ],
+};
+
+describe("unplannedActivityIds", () => {
+  const activities = [
+    makeActivity("fast"),
+    makeActivity("slow"),
+    makeActivity("likely", { occurrenceProbability: 0.6 }),
+    makeActivity("unlikely", { occurrenceProbability: 0.2 }),
+  ];
+
+  it("plans everything under the default policy", () => {
+    expect(unplannedActivityIds(activities, [PERMIT], undefined).size).toBe(0);
+    expect(unplannedActivityIds(activities, [PERMIT], "all").size).toBe(0);
+  });
+
+  it("leaves out unlikely conditional work and the less likely paths under 'expected'", () => {
+    expect([...unplannedActivityIds(activities, [PERMIT], "expected")].sort()).toEqual(["fast", "unlikely"]);
+  });
+
+  it("plans the first path on a tie and the started path whatever its weight", () => {
+    const tie = { ...PERMIT, paths: PERMIT.paths.map((p) => ({ ...p, probability: 0.5 })) };
+    expect([...unplannedActivityIds(activities, [tie], "expected")]).toContain("slow");
+    const started = activities.map((a) => (a.id === "fast" ? { ...a, status: "inProgress" as const } : a));
+    expect([...unplannedActivityIds(started, [PERMIT], "expected")]).toEqual(["unlikely", "slow"]);
+  });
+});
+
+describe("bridgeRemovedActivities", () => {
+  it("links predecessors to successors with the outer ends of the two links", () => {
+    const deps = [dep("p", "x", "FS", 2), dep("x", "s", "SS", 3)];
+    expect(bridgeRemovedActivities(deps, new Set(["x"]))).toEqual([dep("p", "s", "FS", 5)]);
+  });
+
+  it("bridges chains of removed activities and keeps an existing link", () => {
+    const chain = [dep("p", "x"), dep("x", "y"), dep("y", "s")];
+    expect(bridgeRemovedActivities(chain, new Set(["x", "y"]))).toEqual([dep("p", "s")]);
+    const linked = [dep("p", "x"), dep("x", "s"), dep("p", "s", "SS", 1)];
+    expect(bridgeRemovedActivities(linked, new Set(["x"]))).toEqual([dep("p", "s", "SS", 1)]);
+  });
+
+  it("drops a percentage lag on the outgoing link, since the removed activity has no duration", () => {
+    const deps = [dep("p", "x"), { ...dep("x", "s"), lagPercent: 50 }];
+    expect(bridgeRemovedActivities(deps, new Set(["x"]))).toEqual([dep("p", "s")]);
+  });
+});
+
+describe("applyBranchSchedulePolicy", () => {
+  const activities = [makeActivity("start"), makeActivity("fast"), makeActivity("slow"), makeActivity("end")];
+  const dependencies = [dep("start", "fast"), dep("start", "slow"), dep("fast", "end"), dep("slow", "end")];
+
+  it("returns the inputs themselves when nothing is left out", () => {
+    const result = applyBranchSchedulePolicy(activities, dependencies, [PERMIT], "all");
+    expect(result.activities).toBe(activities);
+    expect(result.dependencies).toBe(dependencies);
+  });
+
+  it("removes the unplanned path and keeps the network connected", () => {
+    const result = applyBranchSchedulePolicy(activities, dependencies, [PERMIT], "expected");
+    expect(result.activities.map((a) => a.id)).toEqual(["start", "slow", "end"]);
+    expect(result.dependencies).toEqual([dep("start", "slow"), dep("slow", "end"), dep("start", "end")]);
+  });
+});
@@ -0,0 +1,152 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Conditional work in the deterministic schedule.
+ *
+ * The Monte Carlo decides per trial what runs (core/simulation/branching.ts); a single
+ * plan has to decide once. `settings.branchSchedulePolicy` says how:
+ *   - "all" (the default) plans every conditional activity and every branch path, which
+ *     budgets for all of it and keeps older projects' schedules as they were;
+ *   - "expected" plans only the work a trial would usually run — conditional activities
+ *     at 50% or more, and each branch's likeliest path (the first, on a tie).
+ * Started or finished work is always planned, and a branch with started work on one of
+ * its paths plans that path, as in the trials.
+ *
+ * Work left out of the plan is removed from the network and its links are BRIDGED, so it
+ * behaves as the zero-length pass-through the trials treat it as: a successor still waits
+ * for what the removed activity waited for.
+ */
+
+import type {
+  Activity,
+  ActivityDependency,
+  BranchSchedulePolicy,
+  DependencyType,
+  ExclusiveBranch,
+} from "@domain/models/types";
+
+/** At or above this, the "expected" policy plans a conditional activity. */
+const EXPECTED_OCCURRENCE = 0.5;
+
+function isPlanned(activity: Activity | undefined): boolean {
+  return activity?.status === "planned";
+}
+
+/** Index of the path a branch is planned along: the started one, else the likeliest. */
+function plannedPathIndex(branch: ExclusiveBranch, byId: Map<string, Activity>): number {
+  const started = branch.paths.findIndex((p) =>
+    p.activityIds.some((id) => byId.has(id) && !isPlanned(byId.get(id))),
+  );
+  if (started >= 0) return started;
+  let best = 0;
+  branch.paths.forEach((p, i) => {
+    if (p.probability > branch.paths[best]!.probability) best = i;
+  });
+  return best;
+}
+
+/** Ids of the activities the deterministic schedule leaves out under `policy`. */
+export function unplannedActivityIds(
+  activities: Activity[],
+  branches: ExclusiveBranch[] | undefined,
+  policy: BranchSchedulePolicy | undefined,
+): Set<string> {
+  const left = new Set<string>();
+  if (policy !== "expected") return left;
+  const byId = new Map(activities.map((a) => [a.id, a]));
+  for (const a of activities) {
+    if (isPlanned(a) && a.occurrenceProbability !== undefined && a.occurrenceProbability < EXPECTED_OCCURRENCE) {
+      left.add(a.id);
+    }
+  }
+  for (const branch of branches ?? []) {
+    const planned = plannedPathIndex(branch, byId);
+    branch.paths.forEach((path, i) => {
+      if (i === planned) return;
+      for (const id of path.activityIds) if (isPlanned(byId.get(id))) left.add(id);
+    });
+  }
+  return left;
+}
+
+/**
+ * The lag of a link bridged over a removed activity X, from the link into X and the one
+ * out of it. A percentage on the outgoing link is a share of X's duration, which is now
+ * zero, so it counts as no lag. Lags in the same unit add up; mixed units, or a
+ * percentage on the incoming link, cannot be added exactly — the incoming link's lag is
+ * kept and the other dropped. Only the deterministic plan sees that approximation.
+ */
+function bridgedLag(
+  into: ActivityDependency,
+  out: ActivityDependency,
+): Pick<ActivityDependency, "lagDays" | "lagUnit" | "lagPercent"> {
+  const outDays = out.lagPercent === undefined ? out.lagDays : 0;
+  const intoIsZero = into.lagPercent === undefined && into.lagDays === 0;
+  if (intoIsZero) {
+    return outDays !== 0 && out.lagUnit ? { lagDays: outDays, lagUnit: out.lagUnit } : { lagDays: outDays };
+  }
+  const kept = {
+    lagDays: into.lagDays,
+    ...(into.lagUnit ? { lagUnit: into.lagUnit } : {}),
+    ...(into.lagPercent !== undefined ? { lagPercent: into.lagPercent } : {}),
+  };
+  const sameUnit = (into.lagUnit ?? "working") === (out.lagUnit ?? "working");
+  if (outDays === 0 || into.lagPercent !== undefined || !sameUnit) return kept;
+  return { ...kept, lagDays: into.lagDays + outDays };
+}
+
+/**
+ * Remove `removed` from the network, linking each predecessor of a removed activity to
+ * each of its successors. The bridged type takes its predecessor end from the incoming
+ * link and its successor end from the outgoing one (P–FS→X–SS→S becomes P–FS→S), which
+ * is exact for a zero-length X. Removing one activity at a time bridges chains of them.
+ * A pair already linked keeps its own link.
+ */
+export function bridgeRemovedActivities(
+  dependencies: ActivityDependency[],
+  removed: Set<string>,
+): ActivityDependency[] {
+  let deps = dependencies;
+  for (const x of removed) {
+    const into = deps.filter((d) => d.toActivityId === x && d.fromActivityId !== x);
+    const out = deps.filter((d) => d.fromActivityId === x && d.toActivityId !== x);
+    const kept = deps.filter((d) => d.fromActivityId !== x && d.toActivityId !== x);
+    const linked = new Set(kept.map((d) => `${d.fromActivityId}→${d.toActivityId}`));
+    for (const i of into) {
+      for (const o of out) {
+        const key = `${i.fromActivityId}→${o.toActivityId}`;
+        if (i.fromActivityId === o.toActivityId || linked.has(key)) continue;
+        linked.add(key);
+        kept.push({
+          fromActivityId: i.fromActivityId,
+          toActivityId: o.toActivityId,
+          type: `${i.type[0]}${o.type[1]}` as DependencyType,
+          ...bridgedLag(i, o),
+        });
+      }
+    }
+    deps = kept;
+  }
+  return deps;
+}
+
+/**
+ * The activities and dependencies the deterministic schedule is computed from under the
+ * scenario's policy. Returns the inputs themselves when nothing is left out, so memoized
+ * callers see no change for a scenario without conditional work.
+ */
+export function applyBranchSchedulePolicy(
+  activities: Activity[],
+  dependencies: ActivityDependency[],
+  branches: ExclusiveBranch[] | undefined,
+  policy: BranchSchedulePolicy | undefined,
+): { activities: Activity[]; dependencies: ActivityDependency[] } {
+  const left = unplannedActivityIds(activities, branches, policy);
+  if (left.size === 0) return { activities, dependencies };
+  return {
+    activities: activities.filter((a) => !left.has(a.id)),
+    dependencies: bridgeRemovedActivities(dependencies, left),
+  };
+}
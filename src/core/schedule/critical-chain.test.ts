@@ -0,0 +1,142 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  computeFeedingBuffers,
+  computeFeverPoint,
+  criticalChainLinks,
+  feverZone,
+  proposeCriticalChain,
+} from "./critical-chain";
+import type {
+  Activity,
+  ActivityDependency,
+  CriticalChainPlan,
+  DeterministicSchedule,
+  ScheduledActivity,
+} from "@domain/models/types";
+
+function scheduled(activityId: string, startDate: string, endDate: string, duration: number): ScheduledActivity {
+  return { activityId, name: activityId, duration, startDate, endDate, isActual: false };
+}
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays: 0 };
+}
+
+// Mon 2 Mar 2026: the chain a → b, and f feeding b.
+const activities = [
+  scheduled("a", "2026-03-02", "2026-03-06", 5),
+  scheduled("f", "2026-03-02", "2026-03-04", 3),
+  scheduled("b", "2026-03-09", "2026-03-13", 5),
+];
+const dependencies = [fsDep("a", "b"), fsDep("f", "b")];
+const critical = new Set(["a", "b"]);
+const activityDates = {
+  f: { start: { 50: 0, 80: 0, 95: 0 }, finish: { 50: 3, 80: 5.4, 95: 7 } },
+  b: { start: { 50: 5, 80: 6, 95: 8 }, finish: { 50: 10, 80: 12, 95: 14 } },
+};
+const schedule: DeterministicSchedule = {
+  activities,
+  totalDurationDays: 10,
+  spanDays: 10,
+  projectEndDate: "2026-03-13",
+};
+
+describe("computeFeedingBuffers", () => {
+  it("sizes a buffer where a non-critical activity joins the chain", () => {
+    expect(computeFeedingBuffers(activities, dependencies, critical, activityDates, 0.95, "2026-03-02")).toEqual([
+      { fromActivityId: "f", toActivityId: "b", bufferDays: 4 },
+    ]);
+  });
+
+  it("reads the nearest simulated percentile at or above the project target", () => {
+    const [buffer] = computeFeedingBuffers(activities, dependencies, critical, activityDates, 0.7, "2026-03-02");
+    expect(buffer!.bufferDays).toBe(2);
+  });
+
+  it("needs none for a feeder without simulated dates or links within the chain", () => {
+    expect(computeFeedingBuffers(activities, dependencies, critical, {}, 0.95, "2026-03-02")).toEqual([]);
+    expect(computeFeedingBuffers(activities, [fsDep("a", "b")], critical, activityDates, 0.95, "2026-03-02"))
+      .toEqual([]);
+  });
+});
+
+describe("proposeCriticalChain", () => {
+  it("lists the chain in order with its aggressive durations", () => {
+    expect(criticalChainLinks(activities, critical)).toEqual([
+      { activityId: "a", days: 5 },
+      { activityId: "b", days: 5 },
+    ]);
+    const proposal = proposeCriticalChain(schedule, dependencies, critical, 3, activityDates, 0.95, "2026-03-02");
+    expect(proposal).toMatchObject({ chainDays: 10, projectBufferDays: 3 });
+    expect(proposal!.feedingBuffers).toHaveLength(1);
+  });
+
+  it("proposes nothing without a project buffer", () => {
+    expect(proposeCriticalChain(schedule, dependencies, critical, 0, activityDates, 0.95, "2026-03-02")).toBeNull();
+  });
+});
+
+describe("computeFeverPoint", () => {
+  const plan: CriticalChainPlan = {
+    capturedAt: "2026-03-01T09:00:00.000Z",
+    chain: [{ activityId: "a", days: 5 }, { activityId: "b", days: 5 }],
+    chainDays: 10,
+    projectBufferDays: 4,
+    feedingBuffers: [],
+    fever: [],
+  };
+
+  it("counts finished work and the elapsed share of work in progress against the buffer used", () => {
+    const progressed = {
+      ...schedule,
+      activities: [activities[0]!, activities[1]!, scheduled("b", "2026-03-09", "2026-03-16", 6)],
+      spanDays: 12,
+    };
+    const point = computeFeverPoint(
+      plan,
+      progressed,
+      [
+        makeActivity("a", { status: "complete", actualDuration: 5 }),
+        makeActivity("b", { status: "inProgress", actualStartDate: "2026-03-09" }),
+      ],
+      "2026-03-10",
+    );
+    // b has run 2 of its 6 scheduled days: (5 + 5 × 2/6) / 10 of the chain.
+    expect(point).toEqual({ statusDate: "2026-03-10", chainCompleted: 0.667, bufferConsumed: 0.5 });
+  });
+
+  it("leaves removed chain activities out and reports a chain ahead of plan as negative use", () => {
+    const ahead = { ...schedule, spanDays: 9 };
+    const point = computeFeverPoint(plan, ahead, [makeActivity("b", { status: "complete" })], "2026-03-10");
+    expect(point.chainCompleted).toBe(1);
+    expect(point.bufferConsumed).toBe(-0.25);
+  });
+});
+
+describe("feverZone", () => {
+  it("grades early buffer use more severely than late", () => {
+    expect(feverZone({ chainCompleted: 0, bufferConsumed: 0.05 })).toBe("green");
+    expect(feverZone({ chainCompleted: 0, bufferConsumed: 0.2 })).toBe("amber");
+    expect(feverZone({ chainCompleted: 0, bufferConsumed: 0.35 })).toBe("red");
+    expect(feverZone({ chainCompleted: 1, bufferConsumed: 0.6 })).toBe("green");
+    expect(feverZone({ chainCompleted: 1, bufferConsumed: 0.8 })).toBe("amber");
+  });
+});
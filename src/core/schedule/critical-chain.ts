@@ -0,0 +1,209 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Critical Chain (CCPM) — aggressive durations, with the safety pooled into buffers.
+ *
+ * Critical Chain mode (dependency mode only) is a preset of the scenario settings:
+ * activities are scheduled at CRITICAL_CHAIN_ACTIVITY_TARGET — the aggressive, 50/50
+ * estimate — and Parkinson's Law is off, since work finishing early is passed on rather
+ * than absorbed. The safety taken out of each estimate is put back where it protects the
+ * finish, sized from the Monte Carlo run:
+ *
+ *   - The project buffer, after the last activity of the critical chain: the schedule
+ *     buffer (buffer.ts) — the run's project-target percentile less the aggressive span.
+ *   - A feeding buffer wherever a non-critical activity links into the critical chain:
+ *     that activity's simulated finish at the project target (the nearest
+ *     ACTIVITY_DATE_PERCENTILES at or above it) less its aggressive finish. It is what the
+ *     feeding chain needs so that its own variation does not delay the critical chain;
+ *     the activity's float is where it has to fit.
+ *
+ * The chain is the critical path of the aggressive schedule's dependency network.
+ *
+ * The buffers are advisory: they are sized and reported, not inserted into the schedule.
+ * Its dates stay those of the aggressive chain — the project buffer is added to its
+ * finish only in the plan's total, and a feeding buffer is checked against its path's
+ * float rather than pushing the merge point it protects.
+ *
+ * Setting the plan freezes the chain and its buffers. From then on each status date the
+ * user records adds a point to the fever chart: the share of the chain's planned days done
+ * against the share of the project buffer the slip of the aggressive finish has used.
+ */
+
+import type {
+  Activity,
+  ActivityDateResult,
+  ActivityDependency,
+  Calendar,
+  CriticalChainLink,
+  CriticalChainPlan,
+  DeterministicSchedule,
+  FeedingBuffer,
+  FeverPoint,
+  ScenarioSettings,
+  ScheduledActivity,
+} from "@domain/models/types";
+import { ACTIVITY_DATE_PERCENTILES } from "@domain/models/types";
+import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
+import { addCalendarDays, countWorkingDays, parseDateISO } from "@core/calendar/calendar";
+import { applyStatusDate } from "./status-date";
+
+type Cal = WorkCalendar | Calendar | undefined;
+
+/** The activity probability target Critical Chain mode schedules at. */
+export const CRITICAL_CHAIN_ACTIVITY_TARGET = 0.5;
+
+/** The settings turning Critical Chain mode on applies. */
+export const CRITICAL_CHAIN_SETTINGS = {
+  criticalChain: true,
+  probabilityTarget: CRITICAL_CHAIN_ACTIVITY_TARGET,
+  parkinsonsLawEnabled: false,
+} as const satisfies Partial<ScenarioSettings>;
+
+/**
+ * Fever chart zones: a point is amber above the first line and red above the second,
+ * each running from its value at 0% of the chain done to its value at 100% — the usual
+ * sloped thirds, so early buffer use counts for more than late.
+ */
+export const FEVER_ZONE_LINES = {
+  amber: { start: 0.1, end: 0.7 },
+  red: { start: 0.3, end: 0.9 },
+} as const;
+
+export type FeverZone = "green" | "amber" | "red";
+
+/** The chain and its buffers as a plan would freeze them. */
+export type CriticalChainProposal = Omit<CriticalChainPlan, "capturedAt" | "fever">;
+
+/** Working days from the project start through `endISO`: an activity's finish offset. */
+function finishOffset(projectStart: Date, endISO: string, calendar: Cal): number {
+  return countWorkingDays(projectStart, addCalendarDays(parseDateISO(endISO), 1), calendar);
+}
+
+/** The activity-date percentile a feeding buffer is sized at. */
+function feedingPercentile(projectProbabilityTarget: number): number {
+  const target = Math.round(projectProbabilityTarget * 100);
+  return ACTIVITY_DATE_PERCENTILES.find((p) => p >= target) ?? ACTIVITY_DATE_PERCENTILES.at(-1)!;
+}
+
+/**
+ * A feeding buffer for every link from a non-critical activity into the critical chain,
+ * in schedule order of the joining activity. Feeders the run has no dates for (complete
+ * work) need none.
+ */
+export function computeFeedingBuffers(
+  scheduled: ScheduledActivity[],
+  dependencies: ActivityDependency[],
+  criticalIds: ReadonlySet<string>,
+  activityDates: Record<string, ActivityDateResult> | undefined,
+  projectProbabilityTarget: number,
+  startDate: string,
+  calendar?: Cal,
+): FeedingBuffer[] {
+  const projectStart = advanceToNextWorkingDay(parseDateISO(startDate), calendar);
+  const byId = new Map(scheduled.map((sa) => [sa.activityId, sa]));
+  const pct = feedingPercentile(projectProbabilityTarget);
+  const buffers: FeedingBuffer[] = [];
+  const seen = new Set<string>();
+  for (const dep of dependencies) {
+    if (criticalIds.has(dep.fromActivityId) || !criticalIds.has(dep.toActivityId)) continue;
+    const key = `${dep.fromActivityId}→${dep.toActivityId}`;
+    const feeder = byId.get(dep.fromActivityId);
+    const simulated = activityDates?.[dep.fromActivityId]?.finish[pct];
+    if (seen.has(key) || !feeder || simulated === undefined) continue;
+    seen.add(key);
+    const planned = finishOffset(projectStart, feeder.endDate, calendar);
+    buffers.push({
+      fromActivityId: dep.fromActivityId,
+      toActivityId: dep.toActivityId,
+      bufferDays: Math.max(0, Math.round(simulated - planned)),
+    });
+  }
+  const order = new Map(scheduled.map((sa, i) => [sa.activityId, i]));
+  return buffers.sort((a, b) => (order.get(a.toActivityId) ?? 0) - (order.get(b.toActivityId) ?? 0));
+}
+
+/** The critical chain's activities and aggressive durations, in order of start. */
+export function criticalChainLinks(
+  scheduled: ScheduledActivity[],
+  criticalIds: ReadonlySet<string>,
+): CriticalChainLink[] {
+  return scheduled
+    .filter((sa) => criticalIds.has(sa.activityId))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map((sa) => ({ activityId: sa.activityId, days: sa.duration }));
+}
+
+/**
+ * The plan the current schedule and run support, or null without a positive project
+ * buffer — a run that finishes within the aggressive span leaves nothing to pool.
+ */
+export function proposeCriticalChain(
+  schedule: DeterministicSchedule,
+  dependencies: ActivityDependency[],
+  criticalIds: ReadonlySet<string>,
+  projectBufferDays: number,
+  activityDates: Record<string, ActivityDateResult> | undefined,
+  projectProbabilityTarget: number,
+  startDate: string,
+  calendar?: Cal,
+): CriticalChainProposal | null {
+  if (projectBufferDays <= 0 || criticalIds.size === 0) return null;
+  return {
+    chain: criticalChainLinks(schedule.activities, criticalIds),
+    chainDays: schedule.spanDays,
+    projectBufferDays,
+    feedingBuffers: computeFeedingBuffers(
+      schedule.activities, dependencies, criticalIds, activityDates, projectProbabilityTarget, startDate, calendar,
+    ),
+  };
+}
+
+/** Share of an activity done by the status date: its elapsed days of the scheduled duration. */
+function doneShare(activity: Activity, scheduledDays: number | undefined): number {
+  if (activity.status === "complete") return 1;
+  if (activity.status !== "inProgress" || !activity.actualDuration || !scheduledDays) return 0;
+  return Math.min(1, activity.actualDuration / scheduledDays);
+}
+
+/**
+ * The fever chart point at `statusDate`. Chain activities removed since the plan was set
+ * drop out of the completion; the buffer used is the slip of the current finish past the
+ * plan's, as a share of the project buffer.
+ */
+export function computeFeverPoint(
+  plan: CriticalChainPlan,
+  schedule: DeterministicSchedule,
+  activities: Activity[],
+  statusDate: string,
+  calendar?: Cal,
+): FeverPoint {
+  const progressed = new Map(
+    applyStatusDate(activities, statusDate, calendar).activities.map((a) => [a.id, a]),
+  );
+  const scheduledDays = new Map(schedule.activities.map((sa) => [sa.activityId, sa.duration]));
+  let planned = 0;
+  let done = 0;
+  for (const link of plan.chain) {
+    const activity = progressed.get(link.activityId);
+    if (!activity) continue;
+    planned += link.days;
+    done += link.days * doneShare(activity, scheduledDays.get(link.activityId));
+  }
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    statusDate,
+    chainCompleted: planned > 0 ? round(done / planned) : 0,
+    bufferConsumed: round((schedule.spanDays - plan.chainDays) / plan.projectBufferDays),
+  };
+}
+
+/** The fever chart zone a point falls in. */
+export function feverZone(point: Pick<FeverPoint, "chainCompleted" | "bufferConsumed">): FeverZone {
+  const line = ({ start, end }: { start: number; end: number }) =>
+    start + (end - start) * point.chainCompleted;
+  if (point.bufferConsumed > line(FEVER_ZONE_LINES.red)) return "red";
+  if (point.bufferConsumed > line(FEVER_ZONE_LINES.amber)) return "amber";
+  return "green";
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
 import type { ActivityDependency } from "@domain/models/types";
+import { buildElapsedLagCalendar, createElapsedLagResolver } from "./elapsed-lag";
 import {
   buildDependencyGraph,
   detectCycle,
@@ -12,6 +13,10 @@ import {
   computeCriticalPathDuration,
   computeCriticalPathWithMilestones,
   computeCriticalPathActivities,
+  computeMilestoneDurations,
+  computeNetworkOffsets,
+  drivingPredecessor,
+  findMergePoints,
 } from "./dependency-graph";
 
 // -- Helpers -----------------------------------------------------------------
@@ -28,6 +33,10 @@ function ffDep(from: string, to: string, lag = 0): ActivityDependency {
   return { fromActivityId: from, toActivityId: to, type: "FF", lagDays: lag };
 }
 
+function sfDep(from: string, to: string, lag = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "SF", lagDays: lag };
+}
+
 // -- buildDependencyGraph ----------------------------------------------------
 
 describe("buildDependencyGraph", () => {
@@ -744,6 +753,121 @@ describe("FF backward pass (computeCriticalPathActivities)", () => {
   });
 });
 
+describe("SF forward pass (computeCriticalPathDuration)", () => {
+  it("SF lag=0: A(5) SF→ B(3) — B may finish when A starts, clamped to ES=0, project=5", () => {
+    const ids = ["a", "b"];
+    const deps = [sfDep("a", "b")];
+    const graph = buildDependencyGraph(ids, deps);
+    const durations = new Map([["a", 5], ["b", 3]]);
+    // B: ES=max(0, predStart(0)+0-3)=0, EF=3; project=max(5,3)=5
+    expect(computeCriticalPathDuration(graph, durations)).toBe(5);
+  });
+
+  it("SF lag=7: A(5) SF+7→ B(3) — B finishes 7 after A starts, B: ES=0+7-3=4, project=7", () => {
+    const ids = ["a", "b"];
+    const deps = [sfDep("a", "b", 7)];
+    const graph = buildDependencyGraph(ids, deps);
+    const durations = new Map([["a", 5], ["b", 3]]);
+    // B: ES=max(0, 0+7-3)=4, EF=7; project=max(5,7)=7
+    expect(computeCriticalPathDuration(graph, durations)).toBe(7);
+  });
+
+  it("SF follows the predecessor's start, not its finish", () => {
+    const ids = ["a", "b", "c"];
+    const deps = [fsDep("a", "b"), sfDep("b", "c", 4)];
+    const graph = buildDependencyGraph(ids, deps);
+    const durations = new Map([["a", 2], ["b", 10], ["c", 3]]);
+    // B: ES=2, EF=12; C: ES=2+4-3=3, EF=6; project=12
+    expect(computeCriticalPathDuration(graph, durations)).toBe(12);
+  });
+});
+
+describe("SF backward pass (computeCriticalPathActivities)", () => {
+  it("SF critical chain: A(5) SF+7→ B(3) — both critical", () => {
+    const ids = ["a", "b"];
+    const deps = [sfDep("a", "b", 7)];
+    const graph = buildDependencyGraph(ids, deps);
+    const durations = new Map([["a", 5], ["b", 3]]);
+    const result = computeCriticalPathActivities(graph, durations);
+    // A: ES=0, EF=5; B: ES=4, EF=7; project=7
+    // Backward: B no succs: LS=4, LF=7; float=0 → critical
+    // A: succ B(SF), candidateLS=LF(B)-lag=7-7=0; LS=0; float=0 → critical
+    expect(result.projectDuration).toBe(7);
+    expect(result.criticalActivityIds.has("a")).toBe(true);
+    expect(result.criticalActivityIds.has("b")).toBe(true);
+  });
+
+  it("SF lag=0: A(5) SF→ B(3) — neither is critical (SF-only constraint)", () => {
+    const ids = ["a", "b"];
+    const deps = [sfDep("a", "b")];
+    const graph = buildDependencyGraph(ids, deps);
+    const durations = new Map([["a", 5], ["b", 3]]);
+    const result = computeCriticalPathActivities(graph, durations);
+    // Forward: A: ES=0, EF=5; B: ES=0, EF=3; project=5
+    // Backward: B no succs: LS=2, LF=5; float=2
+    // A: succ B(SF), candidateLS=LF(B)-lag=5-0=5 → float=5
+    // As with SS-only pairs, A's own finish is not tied to the project end
+    expect(result.projectDuration).toBe(5);
+    expect(result.criticalActivityIds.has("a")).toBe(false);
+    expect(result.criticalActivityIds.has("b")).toBe(false);
+  });
+});
+
+describe("Elapsed-lag edges (lag resolver)", () => {
+  // Working day 0 = Mon Jan 6 2025 on the default Mon–Fri calendar.
+  const resolver = () => createElapsedLagResolver(buildElapsedLagCalendar("2025-01-06"));
+  const elapsedFs = (from: string, to: string, lag: number): ActivityDependency => ({
+    ...fsDep(from, to, lag),
+    lagUnit: "elapsed",
+  });
+
+  it("FS+2ed from a Friday finish adds no working days", () => {
+    const graph = buildDependencyGraph(["a", "b"], [elapsedFs("a", "b", 2)], resolver());
+    const durations = new Map([["a", 5], ["b", 3]]);
+    // A: 0–5 (Mon–Fri). Sat+Sun cover the lag → B: ES=5, EF=8
+    expect(computeCriticalPathDuration(graph, durations)).toBe(8);
+  });
+
+  it("backward pass keeps both ends of the edge critical", () => {
+    const graph = buildDependencyGraph(["a", "b"], [elapsedFs("a", "b", 2)], resolver());
+    const result = computeCriticalPathActivities(graph, new Map([["a", 5], ["b", 3]]));
+    expect(result.criticalActivityIds.has("a")).toBe(true);
+    expect(result.criticalActivityIds.has("b")).toBe(true);
+  });
+
+  it("without a resolver the lag is counted in working days", () => {
+    const graph = buildDependencyGraph(["a", "b"], [elapsedFs("a", "b", 2)]);
+    expect(computeCriticalPathDuration(graph, new Map([["a", 5], ["b", 3]]))).toBe(10);
+  });
+});
+
+describe("Percentage-lag edges", () => {
+  const ssPct = (from: string, to: string, lagPercent: number): ActivityDependency => ({
+    ...ssDep(from, to),
+    lagPercent,
+  });
+
+  it("SS+60% scales with the predecessor's duration", () => {
+    const graph = buildDependencyGraph(["a", "b"], [ssPct("a", "b", 60)]);
+    // A(10): B ES=6, EF=14. A(20): B ES=12, EF=20.
+    expect(computeCriticalPathDuration(graph, new Map([["a", 10], ["b", 8]]))).toBe(14);
+    expect(computeCriticalPathDuration(graph, new Map([["a", 20], ["b", 8]]))).toBe(20);
+  });
+
+  it("is not rounded, like the sampled durations it is taken from", () => {
+    const graph = buildDependencyGraph(["a", "b"], [ssPct("a", "b", 50)]);
+    expect(computeCriticalPathDuration(graph, new Map([["a", 7], ["b", 10]]))).toBe(13.5);
+  });
+
+  it("backward pass resolves the lag from the predecessor's duration too", () => {
+    const graph = buildDependencyGraph(["a", "b"], [ssPct("a", "b", 60)]);
+    const result = computeCriticalPathActivities(graph, new Map([["a", 10], ["b", 8]]));
+    // B: LS=6; A: LS = 6 - 60% of 10 = 0 → critical
+    expect(result.criticalActivityIds.has("a")).toBe(true);
+    expect(result.criticalActivityIds.has("b")).toBe(true);
+  });
+});
+
 describe("Mixed-type backward pass", () => {
   it("FS+SS: A(3) FS→ C(2), B(4) SS→ C(2) — critical path through B", () => {
     const ids = ["a", "b", "c"];
@@ -1079,3 +1203,62 @@ describe("computeCriticalPathWithMilestones — milestone and floor", () => {
     expect(result.projectDuration).toBe(8);
   });
 });
+
+// -- computeMilestoneDurations -----------------------------------------------
+
+describe("computeMilestoneDurations", () => {
+  const earlyFinish = new Map([["a", 5], ["b", 9], ["c", 12]]);
+  const milestones = new Map([["m1", ["a", "b"]], ["m2", ["c"]], ["empty", []]]);
+
+  it("takes the latest early finish over each milestone's activities", () => {
+    expect(Object.fromEntries(computeMilestoneDurations(milestones, earlyFinish))).toEqual({
+      m1: 9, m2: 12, empty: 0,
+    });
+  });
+
+  it("ignores skipped activities and gives NaN when all of them were skipped", () => {
+    const result = computeMilestoneDurations(milestones, earlyFinish, new Set(["b", "c"]));
+    expect(result.get("m1")).toBe(5);
+    expect(result.get("m2")).toBeNaN();
+    expect(result.get("empty")).toBe(0);
+  });
+});
+
+describe("findMergePoints", () => {
+  it("lists activities two or more predecessors converge on, in topological order", () => {
+    const graph = buildDependencyGraph(
+      ["a", "b", "c", "d", "e"],
+      [fsDep("a", "c"), fsDep("b", "c"), fsDep("c", "d"), fsDep("a", "e"), fsDep("d", "e")],
+    );
+    expect(findMergePoints(graph)).toEqual(["c", "e"]);
+  });
+
+  it("is empty for a chain", () => {
+    expect(findMergePoints(buildDependencyGraph(["a", "b"], [fsDep("a", "b")]))).toEqual([]);
+  });
+});
+
+describe("drivingPredecessor", () => {
+  const graph = buildDependencyGraph(["a", "b", "m"], [fsDep("a", "m"), fsDep("b", "m", 2)]);
+
+  function drive(durations: Map<string, number>, es?: number) {
+    const { earlyStart } = computeNetworkOffsets(graph, durations);
+    const earlyFinish = new Map(Array.from(earlyStart, ([id, start]) => [id, start + durations.get(id)!]));
+    return drivingPredecessor(graph, "m", durations.get("m")!, es ?? earlyStart.get("m")!, earlyStart, earlyFinish);
+  }
+
+  it("names the link with the latest candidate, lag included", () => {
+    expect(drive(new Map([["a", 5], ["b", 4], ["m", 1]]))).toBe("b");
+    expect(drive(new Map([["a", 7], ["b", 4], ["m", 1]]))).toBe("a");
+  });
+
+  it("takes the first link on a tie", () => {
+    expect(drive(new Map([["a", 6], ["b", 4], ["m", 1]]))).toBe("a");
+  });
+
+  it("is undefined when a floor placed the start past every link, or there are no links", () => {
+    expect(drive(new Map([["a", 5], ["b", 4], ["m", 1]]), 20)).toBeUndefined();
+    const { earlyStart } = computeNetworkOffsets(graph, new Map([["a", 1], ["b", 1], ["m", 1]]));
+    expect(drivingPredecessor(graph, "a", 1, 0, earlyStart, new Map())).toBeUndefined();
+  });
+});
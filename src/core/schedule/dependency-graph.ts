@@ -10,12 +10,26 @@
  * Critical path computed via forward pass in topological order.
  */
 
-import type { ActivityDependency, ConstraintType, ConstraintMode, DependencyType } from "@domain/models/types";
+import type { ActivityDependency, ConstraintType, ConstraintMode, DependencyType, LagUnit } from "@domain/models/types";
 import { applyForwardConstraintInt } from "./constraint-utils";
+import { elapsedEarlyStart, elapsedLateStart, type ElapsedLagResolver } from "./elapsed-lag";
+import {
+  trackEarlyStart,
+  trackFinish,
+  trackLateStart,
+  type ActivityCalendarResolver,
+} from "./activity-calendars";
+import { percentLagDays } from "./percent-lag";
 
 // -- Types -------------------------------------------------------------------
 
-type EdgeRef = { id: string; lagDays: number; type: DependencyType };
+type EdgeRef = {
+  id: string;
+  lagDays: number;
+  type: DependencyType;
+  lagUnit?: LagUnit;
+  lagPercent?: number;
+};
 
 export interface DependencyGraph {
   /** Activity IDs in topological order (predecessors before successors) */
@@ -26,6 +40,16 @@ export interface DependencyGraph {
   successors: Map<string, EdgeRef[]>;
   /** Activity IDs with no predecessors */
   roots: string[];
+  /**
+   * Calendar lookups for elapsed-day lags. Absent → elapsed lags are counted as
+   * working days, the only reading possible without a calendar.
+   */
+  lagResolver?: ElapsedLagResolver;
+  /**
+   * Per-activity calendars. Present → offsets are axis days and every duration and lag
+   * is counted on its activity's own track; see activity-calendars.ts.
+   */
+  calendars?: ActivityCalendarResolver;
 }
 
 export interface ValidationError {
@@ -69,15 +93,22 @@ function populateAdjacency(
     if (!idSet.has(dep.fromActivityId) || !idSet.has(dep.toActivityId)) continue;
     if (dep.fromActivityId === dep.toActivityId) continue;
 
+    // Working days and day lags stay implicit on the edge, as on the dependency itself.
+    const unit = {
+      ...(dep.lagUnit === "elapsed" && { lagUnit: dep.lagUnit }),
+      ...(dep.lagPercent !== undefined && { lagPercent: dep.lagPercent }),
+    };
     predecessors.get(dep.toActivityId)!.push({
       id: dep.fromActivityId,
       lagDays: dep.lagDays,
       type: dep.type,
+      ...unit,
     });
     successors.get(dep.fromActivityId)!.push({
       id: dep.toActivityId,
       lagDays: dep.lagDays,
       type: dep.type,
+      ...unit,
     });
     inDegree.set(dep.toActivityId, (inDegree.get(dep.toActivityId) ?? 0) + 1);
   }
@@ -109,10 +140,15 @@ function kahnTopoSort(
 /**
  * Build a dependency graph from activity IDs and dependencies.
  * Throws on cycle detection — use `detectCycle` first if you need a softer check.
+ *
+ * `lagResolver` is carried on the graph so every pass over it resolves elapsed lags the
+ * same way; see elapsed-lag.ts. `calendars` likewise, for per-activity calendars.
  */
 export function buildDependencyGraph(
   activityIds: string[],
-  deps: ActivityDependency[]
+  deps: ActivityDependency[],
+  lagResolver?: ElapsedLagResolver,
+  calendars?: ActivityCalendarResolver,
 ): DependencyGraph {
   const idSet = new Set(activityIds);
   const predecessors = new Map<string, EdgeRef[]>();
@@ -137,7 +173,14 @@ export function buildDependencyGraph(
 
   const roots = activityIds.filter((id) => (predecessors.get(id)?.length ?? 0) === 0);
 
-  return { topologicalOrder, predecessors, successors, roots };
+  return {
+    topologicalOrder,
+    predecessors,
+    successors,
+    roots,
+    lagResolver,
+    ...(calendars && { calendars }),
+  };
 }
 
 // -- Cycle Detection ---------------------------------------------------------
@@ -308,7 +351,8 @@ export function validateDependencies(
 
 /**
  * Compute candidate early start for a successor from a single predecessor.
- * SS: predES + lag, FF: predEF + lag − succDuration, FS: predEF + lag.
+ * SS: predES + lag, FF: predEF + lag − succDuration, SF: predES + lag − succDuration,
+ * FS: predEF + lag.
  */
 function computeEarlyStartFromPred(
   type: DependencyType,
@@ -319,12 +363,14 @@ function computeEarlyStartFromPred(
 ): number {
   if (type === "SS") return predES + lagDays;
   if (type === "FF") return predEF + lagDays - succDuration;
+  if (type === "SF") return predES + lagDays - succDuration;
   return predEF + lagDays; // FS
 }
 
 /**
  * Compute candidate late start for a predecessor from a single successor.
- * SS: succLS − lag, FF: succLF − lag − predDuration, FS: succLS − lag − predDuration.
+ * SS: succLS − lag, FF: succLF − lag − predDuration, SF: succLF − lag,
+ * FS: succLS − lag − predDuration.
  */
 function computeLateStartFromSucc(
   type: DependencyType,
@@ -335,9 +381,89 @@ function computeLateStartFromSucc(
 ): number {
   if (type === "SS") return succLS - lagDays;
   if (type === "FF") return succLF - lagDays - predDuration;
+  if (type === "SF") return succLF - lagDays;
   return succLS - lagDays - predDuration; // FS
 }
 
+/**
+ * Lag across one edge, in days. A percentage lag is resolved from the predecessor's
+ * duration in THIS pass — per trial in Monte Carlo. Elapsed lags are looked up by whole
+ * calendar day, so a percentage counted in elapsed days is rounded first.
+ */
+function edgeLagDays(edge: EdgeRef, predDuration: number, elapsed: boolean): number {
+  if (edge.lagPercent === undefined) return edge.lagDays;
+  const days = percentLagDays(edge.lagPercent, predDuration);
+  return elapsed ? Math.round(days) : days;
+}
+
+/** Early-start candidate across one edge, on the activities' own calendars. */
+function earlyStartOnTracks(
+  pred: EdgeRef,
+  predES: number,
+  predEF: number,
+  succId: string,
+  succDuration: number,
+  graph: DependencyGraph,
+): number {
+  const calendars = graph.calendars!;
+  const predTrack = calendars.trackOf(pred.id);
+  const predDuration = predTrack.finishPosition(predEF) - predTrack.startPosition(predES);
+  const elapsed = pred.lagUnit === "elapsed" ? graph.lagResolver : undefined;
+  const lag = edgeLagDays(pred, predDuration, !!elapsed);
+  return trackEarlyStart(pred.type, predES, predEF, lag, succDuration, calendars.trackOf(succId), elapsed);
+}
+
+/** Late-start candidate across one edge, on the activities' own calendars. */
+function lateStartOnTracks(
+  succ: EdgeRef,
+  succLS: number,
+  succLF: number,
+  predId: string,
+  predDuration: number,
+  graph: DependencyGraph,
+): number {
+  const calendars = graph.calendars!;
+  const elapsed = succ.lagUnit === "elapsed" ? graph.lagResolver : undefined;
+  const lag = edgeLagDays(succ, predDuration, !!elapsed);
+  return trackLateStart(
+    succ.type, succLS, succLF, lag, predDuration,
+    calendars.trackOf(predId), calendars.trackOf(succ.id), elapsed,
+  );
+}
+
+/** Early-start candidate across one edge, honouring its lag unit. */
+function earlyStartAcross(
+  pred: EdgeRef,
+  predES: number,
+  predEF: number,
+  succDuration: number,
+  lagResolver: ElapsedLagResolver | undefined,
+): number {
+  const predDuration = predEF - predES;
+  if (pred.lagUnit === "elapsed" && lagResolver) {
+    const lag = edgeLagDays(pred, predDuration, true);
+    return elapsedEarlyStart(pred.type, predES, predEF, lag, succDuration, lagResolver);
+  }
+  const lag = edgeLagDays(pred, predDuration, false);
+  return computeEarlyStartFromPred(pred.type, predES, predEF, lag, succDuration);
+}
+
+/** Late-start candidate across one edge, honouring its lag unit. */
+function lateStartAcross(
+  succ: EdgeRef,
+  succLS: number,
+  succLF: number,
+  predDuration: number,
+  lagResolver: ElapsedLagResolver | undefined,
+): number {
+  if (succ.lagUnit === "elapsed" && lagResolver) {
+    const lag = edgeLagDays(succ, predDuration, true);
+    return elapsedLateStart(succ.type, succLS, succLF, lag, predDuration, lagResolver);
+  }
+  const lag = edgeLagDays(succ, predDuration, false);
+  return computeLateStartFromSucc(succ.type, succLS, succLF, lag, predDuration);
+}
+
 // -- Forward / Backward Pass primitives --------------------------------------
 
 interface ForwardPassResult {
@@ -346,19 +472,90 @@ interface ForwardPassResult {
   maxFinish: number;
 }
 
+/**
+ * Move `t` to the first point the activity's own calendar works — the identity without
+ * per-activity calendars.
+ */
+export function startOnCalendar(graph: DependencyGraph, id: string, t: number): number {
+  if (!graph.calendars) return t;
+  const track = graph.calendars.trackOf(id);
+  return track.startAt(track.startPosition(t));
+}
+
+/** Finish of an activity starting at `es`: `es + dur`, counted on its own calendar when it has one. */
+export function activityFinish(graph: DependencyGraph, id: string, es: number, dur: number): number {
+  return graph.calendars ? trackFinish(graph.calendars.trackOf(id), es, dur) : es + dur;
+}
+
+/** Early-start candidate for `id` across its link from `pred`, on whichever axis the graph uses. */
+function earlyStartCandidate(
+  graph: DependencyGraph,
+  pred: EdgeRef,
+  id: string,
+  dur: number,
+  earlyStart: Map<string, number>,
+  earlyFinish: Map<string, number>,
+): number {
+  const predES = earlyStart.get(pred.id) ?? 0;
+  const predEF = earlyFinish.get(pred.id) ?? 0;
+  return graph.calendars
+    ? earlyStartOnTracks(pred, predES, predEF, id, dur, graph)
+    : earlyStartAcross(pred, predES, predEF, dur, graph.lagResolver);
+}
+
 function computeEarlyStartForActivity(
+  graph: DependencyGraph,
+  id: string,
   dur: number,
-  preds: EdgeRef[],
   earlyStart: Map<string, number>,
   earlyFinish: Map<string, number>,
 ): number {
   let es = 0;
-  for (const pred of preds) {
-    const predES = earlyStart.get(pred.id) ?? 0;
-    const predEF = earlyFinish.get(pred.id) ?? 0;
-    es = Math.max(es, computeEarlyStartFromPred(pred.type, predES, predEF, pred.lagDays, dur));
+  for (const pred of graph.predecessors.get(id) ?? []) {
+    es = Math.max(es, earlyStartCandidate(graph, pred, id, dur, earlyStart, earlyFinish));
+  }
+  return startOnCalendar(graph, id, Math.max(0, es)); // Floor to project start
+}
+
+/** A link's candidate within this of the placed start counts as setting it. */
+const DRIVER_TOLERANCE = 1e-9;
+
+/**
+ * The predecessor whose link set `es`, the activity's placed early start: the one with the
+ * latest candidate (the first, on a tie), provided that candidate reaches `es`. Undefined
+ * when the activity has no predecessors, or a floor or hard constraint placed it later
+ * than any link asks.
+ */
+export function drivingPredecessor(
+  graph: DependencyGraph,
+  id: string,
+  dur: number,
+  es: number,
+  earlyStart: Map<string, number>,
+  earlyFinish: Map<string, number>,
+): string | undefined {
+  let driver: string | undefined;
+  let latest = -Infinity;
+  for (const pred of graph.predecessors.get(id) ?? []) {
+    const candidate = earlyStartCandidate(graph, pred, id, dur, earlyStart, earlyFinish);
+    if (candidate > latest) {
+      latest = candidate;
+      driver = pred.id;
+    }
   }
-  return Math.max(0, es); // Floor to project start
+  if (driver === undefined) return undefined;
+  return startOnCalendar(graph, id, Math.max(0, latest)) >= es - DRIVER_TOLERANCE ? driver : undefined;
+}
+
+/**
+ * Merge points: activities two or more different predecessors converge on, in
+ * topological order. Their expected start is later than any one incoming path suggests.
+ */
+export function findMergePoints(graph: DependencyGraph): string[] {
+  return graph.topologicalOrder.filter((id) => {
+    const preds = graph.predecessors.get(id) ?? [];
+    return preds.length >= 2 && new Set(preds.map((p) => p.id)).size >= 2;
+  });
 }
 
 function runForwardPass(
@@ -370,10 +567,9 @@ function runForwardPass(
 
   for (const id of graph.topologicalOrder) {
     const dur = durations.get(id) ?? 0;
-    const preds = graph.predecessors.get(id) ?? [];
-    const es = computeEarlyStartForActivity(dur, preds, earlyStart, earlyFinish);
+    const es = computeEarlyStartForActivity(graph, id, dur, earlyStart, earlyFinish);
     earlyStart.set(id, es);
-    earlyFinish.set(id, es + dur);
+    earlyFinish.set(id, activityFinish(graph, id, es, dur));
   }
 
   let maxFinish = 0;
@@ -385,20 +581,27 @@ function runForwardPass(
 }
 
 function computeLateStartForActivity(
+  graph: DependencyGraph,
+  id: string,
   dur: number,
-  succs: EdgeRef[],
   maxFinish: number,
   lateStart: Map<string, number>,
   lateFinish: Map<string, number>,
 ): number {
+  const succs = graph.successors.get(id) ?? [];
   if (succs.length === 0) {
-    return maxFinish - dur;
+    if (!graph.calendars) return maxFinish - dur;
+    const track = graph.calendars.trackOf(id);
+    return track.startAt(track.finishPosition(maxFinish) - dur);
   }
   let ls = Infinity;
   for (const succ of succs) {
     const succLS = lateStart.get(succ.id) ?? maxFinish;
     const succLF = lateFinish.get(succ.id) ?? maxFinish;
-    ls = Math.min(ls, computeLateStartFromSucc(succ.type, succLS, succLF, succ.lagDays, dur));
+    const candidate = graph.calendars
+      ? lateStartOnTracks(succ, succLS, succLF, id, dur, graph)
+      : lateStartAcross(succ, succLS, succLF, dur, graph.lagResolver);
+    ls = Math.min(ls, candidate);
   }
   return ls;
 }
@@ -414,10 +617,9 @@ function runBackwardPass(
   for (let i = graph.topologicalOrder.length - 1; i >= 0; i--) {
     const id = graph.topologicalOrder[i]!;
     const dur = durations.get(id) ?? 0;
-    const succs = graph.successors.get(id) ?? [];
-    const ls = computeLateStartForActivity(dur, succs, maxFinish, lateStart, lateFinish);
+    const ls = computeLateStartForActivity(graph, id, dur, maxFinish, lateStart, lateFinish);
     lateStart.set(id, ls);
-    lateFinish.set(id, ls + dur);
+    lateFinish.set(id, activityFinish(graph, id, ls, dur));
   }
 
   return { lateStart };
@@ -439,6 +641,27 @@ export function computeCriticalPathDuration(
   return runForwardPass(graph, durations).maxFinish;
 }
 
+// -- Network offsets ----------------------------------------------------------
+
+export interface NetworkOffsets {
+  earlyStart: Map<string, number>;
+  lateStart: Map<string, number>;
+  projectDuration: number;
+}
+
+/**
+ * Early and late start of every activity — the raw material for total float (LS − ES)
+ * when a caller needs the value rather than just the critical set.
+ */
+export function computeNetworkOffsets(
+  graph: DependencyGraph,
+  durations: Map<string, number>
+): NetworkOffsets {
+  const { earlyStart, maxFinish } = runForwardPass(graph, durations);
+  const { lateStart } = runBackwardPass(graph, durations, maxFinish);
+  return { earlyStart, lateStart, projectDuration: maxFinish };
+}
+
 // -- Critical Path Activities -------------------------------------------------
 
 export interface CriticalPathResult {
@@ -490,20 +713,23 @@ interface MilestoneActivityState {
 }
 
 function computeActivityScheduleWithMilestone(
+  graph: DependencyGraph,
   id: string,
   dur: number,
-  preds: EdgeRef[],
   earlyStart: Map<string, number>,
   earlyFinish: Map<string, number>,
   activityEarliestStart?: Map<string, number>,
 ): MilestoneActivityState {
   let es = 0;
   let maxPredEF = 0;
-  for (const pred of preds) {
+  for (const pred of graph.predecessors.get(id) ?? []) {
     const predES = earlyStart.get(pred.id) ?? 0;
     const predEF = earlyFinish.get(pred.id) ?? 0;
     maxPredEF = Math.max(maxPredEF, predEF);
-    es = Math.max(es, computeEarlyStartFromPred(pred.type, predES, predEF, pred.lagDays, dur));
+    const candidate = graph.calendars
+      ? earlyStartOnTracks(pred, predES, predEF, id, dur, graph)
+      : earlyStartAcross(pred, predES, predEF, dur, graph.lagResolver);
+    es = Math.max(es, candidate);
   }
   es = Math.max(0, es); // Floor to project start
 
@@ -514,37 +740,97 @@ function computeActivityScheduleWithMilestone(
     }
   }
 
-  return { es, ef: es + dur, maxPredEF };
+  es = startOnCalendar(graph, id, es);
+  return { es, ef: activityFinish(graph, id, es, dur), maxPredEF };
+}
+
+/**
+ * Re-place a hard-constrained activity on its own calendar: a start constraint (MSO,
+ * SNET) moves the start, a finish constraint (MFO, FNET) backs the duration off the
+ * constrained finish — counted in the activity's days, not axis days.
+ */
+function placeConstrainedOnCalendar(
+  graph: DependencyGraph,
+  id: string,
+  type: ConstraintType,
+  constrained: { es: number; ef: number },
+  dur: number,
+  maxPredEF: number,
+): MilestoneActivityState {
+  const track = graph.calendars!.trackOf(id);
+  let es = constrained.es;
+  if (type === "MFO" || type === "FNET") {
+    es = Math.max(track.startAt(track.finishPositionCeil(constrained.ef) - dur), maxPredEF);
+  }
+  es = startOnCalendar(graph, id, es);
+  return { es, ef: activityFinish(graph, id, es, dur), maxPredEF };
 }
 
 function applyHardConstraintIfPresent(
+  graph: DependencyGraph,
+  id: string,
   state: MilestoneActivityState,
   dur: number,
   constraint: { type: string; offsetFromStart: number; mode: string } | undefined,
 ): MilestoneActivityState {
   if (!constraint || constraint.mode !== "hard") return state;
+  const type = constraint.type as ConstraintType;
   const result = applyForwardConstraintInt(
     state.es, state.ef, dur,
-    constraint.type as ConstraintType,
+    type,
     constraint.offsetFromStart,
     constraint.mode as ConstraintMode,
     state.maxPredEF,
   );
+  if (graph.calendars && (result.es !== state.es || result.ef !== state.ef)) {
+    return placeConstrainedOnCalendar(graph, id, type, result, dur, state.maxPredEF);
+  }
   return { es: result.es, ef: result.ef, maxPredEF: state.maxPredEF };
 }
 
-function computeMilestoneDurations(
+/**
+ * Forward-pass position of ONE activity whose predecessors are already placed in
+ * `earlyStart`/`earlyFinish`: dependencies, milestone start floor, then hard constraint —
+ * the same step `computeCriticalPathWithMilestones` takes, for passes that place
+ * activities in an order of their own (resource-leveling.ts).
+ */
+export function placeActivityForward(
+  graph: DependencyGraph,
+  id: string,
+  dur: number,
+  earlyStart: Map<string, number>,
+  earlyFinish: Map<string, number>,
+  activityEarliestStart?: Map<string, number>,
+  constraint?: { type: string; offsetFromStart: number; mode: string },
+): { es: number; ef: number } {
+  const state = computeActivityScheduleWithMilestone(
+    graph, id, dur, earlyStart, earlyFinish, activityEarliestStart,
+  );
+  const placed = applyHardConstraintIfPresent(graph, id, state, dur, constraint);
+  return { es: placed.es, ef: placed.ef };
+}
+
+/**
+ * Latest early finish over each milestone's activities. Skipped activities (conditional
+ * work a trial left out) do not count; a milestone whose every activity was skipped gets
+ * NaN — it was not reached by any work in that trial (see computeMilestoneStats).
+ */
+export function computeMilestoneDurations(
   milestoneActivityIds: Map<string, string[]>,
   earlyFinish: Map<string, number>,
+  skipped?: ReadonlySet<string>,
 ): Map<string, number> {
   const milestoneDurations = new Map<string, number>();
   for (const [milestoneId, actIds] of milestoneActivityIds) {
     let maxFinish = 0;
+    let ran = actIds.length === 0;
     for (const actId of actIds) {
+      if (skipped?.has(actId)) continue;
+      ran = true;
       const ef = earlyFinish.get(actId) ?? 0;
       if (ef > maxFinish) maxFinish = ef;
     }
-    milestoneDurations.set(milestoneId, maxFinish);
+    milestoneDurations.set(milestoneId, ran ? maxFinish : Number.NaN);
   }
   return milestoneDurations;
 }
@@ -560,6 +846,7 @@ function computeMilestoneDurations(
  * @param durations - Map of activityId → duration in working days
  * @param milestoneActivityIds - Map of milestoneId → list of activity IDs assigned to that milestone
  * @param activityEarliestStart - Map of activityId → earliest start offset (working days from project start)
+ * @param skipped - Activities this trial skipped; left out of the milestone finishes
  * @returns Project duration and per-milestone durations
  */
 export function computeCriticalPathWithMilestones(
@@ -568,17 +855,17 @@ export function computeCriticalPathWithMilestones(
   milestoneActivityIds: Map<string, string[]>,
   activityEarliestStart?: Map<string, number>,
   constraintMap?: Map<string, { type: string; offsetFromStart: number; mode: string }>,
+  skipped?: ReadonlySet<string>,
 ): { projectDuration: number; milestoneDurations: Map<string, number> } {
   const earlyStart = new Map<string, number>();
   const earlyFinish = new Map<string, number>();
 
   for (const id of graph.topologicalOrder) {
     const dur = durations.get(id) ?? 0;
-    const preds = graph.predecessors.get(id) ?? [];
     let state = computeActivityScheduleWithMilestone(
-      id, dur, preds, earlyStart, earlyFinish, activityEarliestStart,
+      graph, id, dur, earlyStart, earlyFinish, activityEarliestStart,
     );
-    state = applyHardConstraintIfPresent(state, dur, constraintMap?.get(id));
+    state = applyHardConstraintIfPresent(graph, id, state, dur, constraintMap?.get(id));
     earlyStart.set(id, state.es);
     earlyFinish.set(id, state.ef);
   }
@@ -588,7 +875,7 @@ export function computeCriticalPathWithMilestones(
     if (ef > projectDuration) projectDuration = ef;
   }
 
-  const milestoneDurations = computeMilestoneDurations(milestoneActivityIds, earlyFinish);
+  const milestoneDurations = computeMilestoneDurations(milestoneActivityIds, earlyFinish, skipped);
 
   return { projectDuration, milestoneDurations };
 }
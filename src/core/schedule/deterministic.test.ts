@@ -374,6 +374,10 @@ function ffDep(from: string, to: string, lag = 0): ActivityDependency {
   return { fromActivityId: from, toActivityId: to, type: "FF", lagDays: lag };
 }
 
+function sfDep(from: string, to: string, lag = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "SF", lagDays: lag };
+}
+
 function fixedActivity(id: string, name: string, days: number): Activity {
   return makeActivity({ id, name, min: days, mostLikely: days, max: days });
 }
@@ -837,6 +841,166 @@ describe("computeDependencySchedule — FF type", () => {
   });
 });
 
+describe("computeDependencySchedule — SF type", () => {
+  it("SF lag=6: A(5d) SF+6→ B(3d) — B finishes 6 working days after A starts", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 3)];
+    const deps = [sfDep("a", "b", 6)];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const a = schedule.activities.find((s) => s.activityId === "a")!;
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    expect(a.startDate).toBe("2025-01-06");
+    // constrainedEF = addWD(Mon Jan 6, 6 - 1) = Mon Jan 13
+    // B start = subtractWD(Mon Jan 13, 2) = Thu Jan 9
+    expect(b.endDate).toBe("2025-01-13");
+    expect(b.startDate).toBe("2025-01-09");
+    // Integer domain agrees: ES = 0 + 6 - 3 = 3, EF = 6 → both driven, no free float
+    expect(a.freeFloat).toBe(0);
+  });
+
+  it("SF lag=0: B would finish the day before A starts — clamped to project start", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 3)];
+    const deps = [sfDep("a", "b")];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    expect(b.startDate).toBe("2025-01-06");
+    expect(b.endDate).toBe("2025-01-08");
+  });
+
+  it("SF follows the predecessor's start date, not its end", () => {
+    // X(2d) FS→ A(3d) SF+1→ B(2d). A starts Wed Jan 8.
+    const activities = [fixedActivity("x", "X", 2), fixedActivity("a", "A", 3), fixedActivity("b", "B", 2)];
+    const deps = [fsDep("x", "a"), sfDep("a", "b", 1)];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const a = schedule.activities.find((s) => s.activityId === "a")!;
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    expect(a.startDate).toBe("2025-01-08");
+    // constrainedEF = addWD(Wed Jan 8, 0) = Wed Jan 8 → B: Tue Jan 7 – Wed Jan 8
+    expect(b.endDate).toBe("2025-01-08");
+    expect(b.startDate).toBe("2025-01-07");
+    expect(schedule.dependencyConflicts?.length ?? 0).toBe(0);
+  });
+
+  it("SF violation detected when a hard finish constraint lands before the required finish", () => {
+    const activities = [
+      fixedActivity("a", "A", 5),
+      {
+        ...fixedActivity("b", "B", 3),
+        constraintType: "MFO" as const,
+        constraintDate: "2025-01-08",
+        constraintMode: "hard" as const,
+      },
+    ];
+    const deps = [sfDep("a", "b", 6)];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    // SF+6 requires B to finish on/after Mon Jan 13; MFO pins it to Wed Jan 8.
+    expect(schedule.dependencyConflicts?.[0]?.dependencyType).toBe("SF");
+  });
+});
+
+describe("computeDependencySchedule — elapsed (calendar-day) lags", () => {
+  function elapsed(dep: ActivityDependency): ActivityDependency {
+    return { ...dep, lagUnit: "elapsed" };
+  }
+
+  it("FS+2ed from a Friday finish: the weekend uses up the lag", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 2)];
+    const schedule = computeDependencySchedule(activities, [elapsed(fsDep("a", "b", 2))], "2025-01-06", 0.5);
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    // A: Mon Jan 6 – Fri Jan 10. Fri + 1 + 2 = Mon Jan 13. (FS+2 working days: Wed Jan 15.)
+    expect(b.startDate).toBe("2025-01-13");
+  });
+
+  it("FS+7ed counts a calendar week and rolls a weekend target forward", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 2)];
+    const schedule = computeDependencySchedule(activities, [elapsed(fsDep("a", "b", 7))], "2025-01-06", 0.5);
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    // Fri Jan 10 + 1 + 7 = Sat Jan 18 → Mon Jan 20
+    expect(b.startDate).toBe("2025-01-20");
+  });
+
+  it("SS, FF and SF read the same anchors as their working-day forms", () => {
+    // X(3d) FS→ A(5d): A runs Thu Jan 9 – Wed Jan 15.
+    const activities = [
+      fixedActivity("x", "X", 3),
+      fixedActivity("a", "A", 5),
+      fixedActivity("ss", "SS", 2),
+      fixedActivity("ff", "FF", 2),
+      fixedActivity("sf", "SF", 2),
+    ];
+    const deps = [
+      fsDep("x", "a"),
+      elapsed(ssDep("a", "ss", 3)),
+      elapsed(ffDep("a", "ff", 3)),
+      elapsed(sfDep("a", "sf", 4)),
+    ];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const get = (id: string) => schedule.activities.find((s) => s.activityId === id)!;
+    expect(get("a").startDate).toBe("2025-01-09");
+    // SS+3ed: Thu Jan 9 + 3 = Sun Jan 12 → Mon Jan 13
+    expect(get("ss").startDate).toBe("2025-01-13");
+    // FF+3ed: Wed Jan 15 + 3 = Sat Jan 18 → finish Mon Jan 20
+    expect(get("ff").endDate).toBe("2025-01-20");
+    // SF+4ed: finish on/after Thu Jan 9 + 3 = Sun Jan 12 → Mon Jan 13
+    expect(get("sf").endDate).toBe("2025-01-13");
+    expect(schedule.dependencyConflicts?.length ?? 0).toBe(0);
+  });
+
+  it("backward pass keeps a weekend-absorbed lag on the critical path", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 2)];
+    const schedule = computeDependencySchedule(activities, [elapsed(fsDep("a", "b", 2))], "2025-01-06", 0.5);
+    const a = schedule.activities.find((s) => s.activityId === "a")!;
+    expect(a.lateFinish).toBe("2025-01-10");
+    expect(a.totalFloat).toBe(0);
+    expect(a.freeFloat).toBe(0);
+  });
+
+  it("reports a violation with the lag unit when a hard constraint overrides it", () => {
+    const activities = [
+      fixedActivity("a", "A", 5),
+      {
+        ...fixedActivity("b", "B", 2),
+        constraintType: "MSO" as const,
+        constraintDate: "2025-01-13",
+        constraintMode: "hard" as const,
+      },
+    ];
+    const schedule = computeDependencySchedule(activities, [elapsed(fsDep("a", "b", 4))], "2025-01-06", 0.5);
+    // FS+4ed requires Wed Jan 15; MSO pins B to Mon Jan 13.
+    const conflict = schedule.dependencyConflicts?.[0];
+    expect(conflict?.dependencyType).toBe("FS");
+    expect(conflict?.lagUnit).toBe("elapsed");
+  });
+});
+
+describe("computeDependencySchedule — percentage lags", () => {
+  it("SS+60%: B starts when 60% of A's resolved duration has run", () => {
+    const activities = [fixedActivity("a", "A", 5), fixedActivity("b", "B", 2)];
+    const deps: ActivityDependency[] = [{ ...ssDep("a", "b"), lagPercent: 60 }];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    // 60% of 5 = 3 working days after Mon Jan 6 → Thu Jan 9
+    expect(b.startDate).toBe("2025-01-09");
+    expect(schedule.dependencyConflicts?.length ?? 0).toBe(0);
+  });
+
+  it("FS-50% is a lead of half the predecessor", () => {
+    const activities = [fixedActivity("a", "A", 4), fixedActivity("b", "B", 2)];
+    const deps: ActivityDependency[] = [{ ...fsDep("a", "b"), lagPercent: -50 }];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    const b = schedule.activities.find((s) => s.activityId === "b")!;
+    // A: Mon Jan 6 – Thu Jan 9. FS-2 → Wed Jan 8
+    expect(b.startDate).toBe("2025-01-08");
+  });
+
+  it("totalDurationDays uses the same resolved lag", () => {
+    const activities = [fixedActivity("a", "A", 10), fixedActivity("b", "B", 8)];
+    const deps: ActivityDependency[] = [{ ...ssDep("a", "b"), lagPercent: 60 }];
+    const schedule = computeDependencySchedule(activities, deps, "2025-01-06", 0.5);
+    // B: ES 6, EF 14
+    expect(schedule.totalDurationDays).toBe(14);
+  });
+});
+
 describe("computeDependencySchedule — mixed types", () => {
   it("FS + SS: A(3d) FS→ C(2d), B(4d) SS→ C(2d)", () => {
     const activities = [
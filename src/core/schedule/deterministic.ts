@@ -9,12 +9,22 @@ import type {
   ConstraintConflict,
   DependencyConflict,
   DeterministicSchedule,
+  LagUnit,
   Milestone,
   ScheduledActivity,
+  WbsSummary,
 } from "@domain/models/types";
-import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
-import { createDistributionForActivity } from "@core/distributions/factory";
 import {
+  advanceToNextWorkingDay,
+  retreatToPreviousWorkingDay,
+  type WorkCalendar,
+} from "@core/calendar/work-calendar";
+import {
+  createDistributionForActivity,
+  createRemainingDistribution,
+} from "@core/distributions/factory";
+import {
+  addCalendarDays,
   addWorkingDays,
   subtractWorkingDays,
   activityEndDate,
@@ -24,6 +34,16 @@ import {
   parseDateISO,
 } from "@core/calendar/calendar";
 import { buildDependencyGraph, computeCriticalPathDuration } from "./dependency-graph";
+import { buildElapsedLagCalendar, createElapsedLagResolver, hasElapsedLags } from "./elapsed-lag";
+import { resolvePercentLags } from "./percent-lag";
+import { attachSummaryRollups } from "./wbs";
+import { applyReleaseFloor, applyStatusDate } from "./status-date";
+import {
+  buildActivityCalendarAxis,
+  createActivityCalendarResolver,
+  scheduleAxisCalendar,
+  type ActivityCalendarResolver,
+} from "./activity-calendars";
 import {
   applyForwardConstraint,
   applyBackwardConstraint,
@@ -36,8 +56,12 @@ import {
  * Resolve the deterministic duration for a single activity at a given percentile.
  *  - Complete with actual → returns actualDuration
  *  - In-progress with elapsed → returns max(elapsed+1, inverseCDF)
+ *  - In-progress with elapsed and a remaining estimate → elapsed + max(1, remaining inverseCDF)
  *  - Otherwise → returns max(1, inverseCDF)
  *
+ * The remaining-estimate branch is the integer-day twin of `ShiftedDistribution` in
+ * `truncated.ts`; at least one more day keeps it consistent with the `+1` below.
+ *
  * WHY THE `+1`, since the line above restates the formula without stating the rule.
  * In progress means NOT FINISHED: having observed t elapsed days, the duration is known to
  * be strictly greater than t, so in whole working days it is at least t + 1. The rule is
@@ -67,6 +91,10 @@ function resolveActivityDuration(activity: Activity, percentile: number): number
   if (activity.status === "complete" && activity.actualDuration != null) {
     return activity.actualDuration;
   }
+  if (activity.status === "inProgress" && activity.actualDuration != null && activity.remainingEstimate) {
+    const remaining = createRemainingDistribution(activity, activity.remainingEstimate);
+    return activity.actualDuration + Math.max(1, Math.ceil(remaining.inverseCDF(percentile)));
+  }
   const dist = createDistributionForActivity(activity);
   const base = Math.max(1, Math.ceil(dist.inverseCDF(percentile)));
   if (activity.status === "inProgress" && activity.actualDuration != null) {
@@ -101,15 +129,20 @@ export function computeDeterministicDurations(
  * @param startDate - Project start date ("YYYY-MM-DD")
  * @param percentile - Probability target (e.g. 0.85 for P85)
  * @param calendar - Optional calendar with holidays
+ * @param summaries - Optional WBS summaries; their dates roll up from the activities (wbs.ts)
+ * @param statusDate - Optional status date; actual dates and release floors follow from it (status-date.ts)
  */
 export function computeDeterministicSchedule(
-  activities: Activity[],
+  plannedActivities: Activity[],
   startDate: string,
   percentile: number,
-  calendar?: WorkCalendar | Calendar
+  calendar?: WorkCalendar | Calendar,
+  summaries?: WbsSummary[],
+  statusDate?: string,
 ): DeterministicSchedule {
   const scheduledActivities: ScheduledActivity[] = [];
   const conflicts: ConstraintConflict[] = [];
+  const { activities, releaseDates } = applyStatusDate(plannedActivities, statusDate, calendar);
 
   let currentDate = parseDateISO(startDate);
 
@@ -120,7 +153,9 @@ export function computeDeterministicSchedule(
     const isActual = activity.status === "complete" && activity.actualDuration != null;
     const duration = resolveActivityDuration(activity, percentile);
 
-    const activityStartDate = currentDate;
+    const activityStartDate = advanceToNextWorkingDay(
+      applyReleaseFloor(activity.id, currentDate, releaseDates), calendar,
+    );
     const activityEnd = activityEndDate(activityStartDate, duration, calendar);
 
     let finalStartISO = formatDateISO(activityStartDate);
@@ -163,13 +198,14 @@ export function computeDeterministicSchedule(
     ? countWorkingDays(parseDateISO(startDate), parseDateISO(projectEndISO), calendar) + 1
     : 0;
 
-  return {
+  const schedule: DeterministicSchedule = {
     activities: scheduledActivities,
     totalDurationDays: totalDuration,
     spanDays,
     projectEndDate: projectEndISO,
     constraintConflicts: conflicts.length > 0 ? conflicts : undefined,
   };
+  return attachSummaryRollups(schedule, activities, summaries, calendar);
 }
 
 // -- Per-activity uncertainty computation -------------------------------------
@@ -208,20 +244,68 @@ export function computeActivityUncertaintyDays(
   return result;
 }
 
+// -- Elapsed-lag helpers (date domain) ----------------------------------------
+
+/**
+ * Calendar days an elapsed lag is shifted by, per type — the date-domain twin of the
+ * `+ 1` / `− 1` in elapsed-lag.ts: an FS successor starts the day AFTER the predecessor's
+ * last day, an SF successor may finish the day BEFORE the predecessor's first.
+ */
+const ELAPSED_ANCHOR_SHIFT: Record<string, number> = { FS: 1, SS: 0, FF: 0, SF: -1 };
+
+/** SS and SF read the predecessor's START; FS and FF its END. */
+const readsPredStart = (type: string): boolean => type === "SS" || type === "SF";
+
+/** FF and SF constrain the successor's FINISH; FS and SS its start. */
+const constrainsSuccFinish = (type: string): boolean => type === "FF" || type === "SF";
+
+/**
+ * Earliest date an elapsed-lag dependency allows on the successor's constrained side —
+ * its start for FS/SS, its finish for FF/SF. The lag is counted in calendar days and the
+ * result rolls FORWARD to a working day: seven days of curing that end on a Saturday
+ * still mean nobody is on site until Monday.
+ */
+function elapsedRequiredDate(
+  type: string, lagDays: number, predES: Date, predEF: Date, calendar: Cal,
+): Date {
+  const anchor = readsPredStart(type) ? predES : predEF;
+  const target = addCalendarDays(anchor, lagDays + ELAPSED_ANCHOR_SHIFT[type]!);
+  return advanceToNextWorkingDay(target, calendar);
+}
+
+/**
+ * Backward twin of elapsedRequiredDate: the latest date the predecessor's read side may
+ * sit on, rolled BACK to a working day, then converted to a late start.
+ */
+function elapsedCandidateLSDate(
+  type: string, succLSISO: string, succLFISO: string,
+  lagDays: number, predDuration: number, calendar: Cal,
+): Date {
+  const anchor = parseDateISO(constrainsSuccFinish(type) ? succLFISO : succLSISO);
+  const target = addCalendarDays(anchor, -(lagDays + ELAPSED_ANCHOR_SHIFT[type]!));
+  const latest = retreatToPreviousWorkingDay(target, calendar);
+  return readsPredStart(type) ? latest : activityStartDate(latest, predDuration, calendar);
+}
+
 // -- Backward-pass type-dispatch helper (date domain) -------------------------
 
 /**
  * Compute candidate late start date for a predecessor from a single successor.
- * SS: succLS − lag, FF: succLF − (lag + predDuration), FS: succLS − (1 + lag + predDuration).
+ * SS: succLS − lag, FF: succLF − (lag + predDuration), SF: succLF + (1 − lag),
+ * FS: succLS − (1 + lag + predDuration). Elapsed lags go through elapsedCandidateLSDate.
  */
 function computeCandidateLSDate(
   type: string,
   succLSISO: string,
   succLFISO: string,
   lagDays: number,
+  lagUnit: LagUnit | undefined,
   predDuration: number,
   calendar?: WorkCalendar | Calendar,
 ): Date {
+  if (lagUnit === "elapsed") {
+    return elapsedCandidateLSDate(type, succLSISO, succLFISO, lagDays, predDuration, calendar);
+  }
   if (type === "SS") {
     const succLS = parseDateISO(succLSISO);
     return lagDays >= 0
@@ -235,6 +319,15 @@ function computeCandidateLSDate(
       ? subtractWorkingDays(succLF, combined, calendar)
       : addWorkingDays(succLF, -combined, calendar);
   }
+  if (type === "SF") {
+    // The predecessor may start no later than the working day after the successor's
+    // late finish, shifted by the lag — the mirror of candidateFromSF's `lag − 1`.
+    const succLF = parseDateISO(succLFISO);
+    const offset = 1 - lagDays;
+    return offset >= 0
+      ? addWorkingDays(succLF, offset, calendar)
+      : subtractWorkingDays(succLF, -offset, calendar);
+  }
   // FS
   const succLS = parseDateISO(succLSISO);
   const combined = lagDays + predDuration;
@@ -266,7 +359,7 @@ export function computeDependencyDurations(
  * Activities with no predecessors start on the project start date (in parallel).
  *
  * @param activities - All activities in the scenario
- * @param dependencies - Finish-to-Start dependencies with optional lag
+ * @param dependencies - FS/SS/FF/SF dependencies with optional lag
  * @param startDate - Project start date ("YYYY-MM-DD")
  * @param percentile - Probability target (e.g. 0.50 for P50)
  * @param calendar - Optional calendar with holidays
@@ -290,7 +383,7 @@ export function computeDependencyDurations(
 
 type Cal = WorkCalendar | Calendar | undefined;
 type DepGraph = ReturnType<typeof buildDependencyGraph>;
-type Edge = { id: string; type: string; lagDays: number };
+type Edge = { id: string; type: string; lagDays: number; lagUnit?: LagUnit };
 
 // ---------------------------------------------------------------------------
 // LIFT 1 — forward pass, split per §3: three per-type candidate helpers behind a
@@ -315,6 +408,23 @@ function candidateFromFF(
   return candidate < projectStart ? new Date(projectStart) : candidate;
 }
 
+/**
+ * SF: the successor may not FINISH until the predecessor STARTS. Constrained EF = pred
+ * START + (lag − 1), then back-calculate ES. The `− 1` is FS's `+ 1` seen from the other
+ * side: end dates are inclusive, so with lag 0 the successor's last day is the working day
+ * BEFORE the predecessor's first — the integer domain's `succEF = predES`.
+ */
+function candidateFromSF(
+  predStart: Date, lagDays: number, duration: number, projectStart: Date, calendar: Cal,
+): Date {
+  const offset = lagDays - 1;
+  const constrainedEF = offset >= 0
+    ? addWorkingDays(predStart, offset, calendar)
+    : subtractWorkingDays(predStart, -offset, calendar);
+  const candidate = activityStartDate(constrainedEF, duration, calendar);
+  return candidate < projectStart ? new Date(projectStart) : candidate;
+}
+
 /** FS: the original behaviour — offset = 1 + lag. */
 function candidateFromFS(predEnd: Date, lagDays: number, projectStart: Date, calendar: Cal): Date {
   const offset = 1 + lagDays;
@@ -323,6 +433,24 @@ function candidateFromFS(predEnd: Date, lagDays: number, projectStart: Date, cal
   return candidate < projectStart ? new Date(projectStart) : candidate;
 }
 
+/** Any type with an ELAPSED lag: the required date, backed off by the duration for a finish. */
+function candidateFromElapsed(
+  pred: Edge,
+  startDates: Map<string, Date>,
+  endDates: Map<string, Date>,
+  duration: number,
+  projectStart: Date,
+  calendar: Cal,
+): Date {
+  const required = elapsedRequiredDate(
+    pred.type, pred.lagDays, startDates.get(pred.id)!, endDates.get(pred.id)!, calendar,
+  );
+  const candidate = constrainsSuccFinish(pred.type)
+    ? activityStartDate(required, duration, calendar)
+    : required;
+  return candidate < projectStart ? new Date(projectStart) : candidate;
+}
+
 /** Thin dispatcher, mirroring the shape of the existing computeCandidateLSDate. */
 function candidateStartForPred(
   pred: Edge,
@@ -332,16 +460,25 @@ function candidateStartForPred(
   projectStart: Date,
   calendar: Cal,
 ): Date {
+  if (pred.lagUnit === "elapsed") {
+    return candidateFromElapsed(pred, startDates, endDates, duration, projectStart, calendar);
+  }
   if (pred.type === "SS") {
     return candidateFromSS(startDates.get(pred.id)!, pred.lagDays, projectStart, calendar);
   }
   if (pred.type === "FF") {
     return candidateFromFF(endDates.get(pred.id)!, pred.lagDays, duration, projectStart, calendar);
   }
+  if (pred.type === "SF") {
+    return candidateFromSF(startDates.get(pred.id)!, pred.lagDays, duration, projectStart, calendar);
+  }
   return candidateFromFS(endDates.get(pred.id)!, pred.lagDays, projectStart, calendar);
 }
 
-/** Starts after all predecessors' constraints are satisfied (type-aware). */
+/**
+ * Starts after all predecessors' constraints are satisfied (type-aware). `calendar` is
+ * the successor's own when `onOwnCalendars` is set — see candidateOnOwnCalendar.
+ */
 function earliestStartFromPreds(
   preds: Edge[],
   startDates: Map<string, Date>,
@@ -349,16 +486,103 @@ function earliestStartFromPreds(
   duration: number,
   projectStart: Date,
   calendar: Cal,
+  onOwnCalendars = false,
 ): Date {
   if (preds.length === 0) return new Date(projectStart);
   let latestDate = new Date(0);
   for (const pred of preds) {
-    const candidateStart = candidateStartForPred(pred, startDates, endDates, duration, projectStart, calendar);
+    let candidateStart: Date;
+    if (onOwnCalendars) {
+      candidateStart = candidateOnOwnCalendar(pred, startDates, endDates, duration, calendar);
+      if (candidateStart < projectStart) candidateStart = new Date(projectStart);
+    } else {
+      candidateStart = candidateStartForPred(pred, startDates, endDates, duration, projectStart, calendar);
+    }
     if (candidateStart > latestDate) latestDate = candidateStart;
   }
   return latestDate;
 }
 
+// ---------------------------------------------------------------------------
+// Per-activity calendars. Used only when some activity runs on a named calendar of
+// its own; every helper above stays the single-calendar path, and the oracle pins it.
+// Lags count on the SUCCESSOR's calendar, durations on each activity's own. These
+// are the date-domain twins of trackEarlyStart/trackLateStart in
+// activity-calendars.ts, which Monte Carlo and totalDurationDays use — keep the two
+// agreeing. With one calendar every helper here reduces to the one above it.
+// ---------------------------------------------------------------------------
+
+type CalendarOf = (activityId: string) => Cal;
+
+/** `n` working days along `calendar` from a day it works on (back when `n` is negative). */
+function shiftWorkingDays(date: Date, n: number, calendar: Cal): Date {
+  return n >= 0 ? addWorkingDays(date, n, calendar) : subtractWorkingDays(date, -n, calendar);
+}
+
+/**
+ * Earliest start a dependency allows a successor running on `succCal`, not yet floored
+ * to the project start. A predecessor side that falls on the successor's day off counts
+ * from the successor's next working day:
+ *   FS: `lag` working days after the first working day following the predecessor's end
+ *   SS: `lag` working days after the predecessor's start
+ *   FF: finish `lag` working days after the predecessor's end
+ *   SF: finish `lag − 1` working days after the predecessor's start
+ */
+function candidateOnOwnCalendar(
+  pred: Edge,
+  startDates: Map<string, Date>,
+  endDates: Map<string, Date>,
+  duration: number,
+  succCal: Cal,
+): Date {
+  const predES = startDates.get(pred.id)!;
+  const predEF = endDates.get(pred.id)!;
+  if (pred.lagUnit === "elapsed") {
+    const required = elapsedRequiredDate(pred.type, pred.lagDays, predES, predEF, succCal);
+    return constrainsSuccFinish(pred.type) ? activityStartDate(required, duration, succCal) : required;
+  }
+  if (pred.type === "FS") {
+    return shiftWorkingDays(advanceToNextWorkingDay(addCalendarDays(predEF, 1), succCal), pred.lagDays, succCal);
+  }
+  if (pred.type === "SS") {
+    return shiftWorkingDays(advanceToNextWorkingDay(predES, succCal), pred.lagDays, succCal);
+  }
+  const finish = pred.type === "FF"
+    ? shiftWorkingDays(advanceToNextWorkingDay(predEF, succCal), pred.lagDays, succCal)
+    : shiftWorkingDays(advanceToNextWorkingDay(predES, succCal), pred.lagDays - 1, succCal);
+  return activityStartDate(finish, duration, succCal);
+}
+
+/**
+ * Latest start a dependency allows a predecessor running on `predCal` — the inverse of
+ * candidateOnOwnCalendar: the latest its read side may sit at, counted back along the
+ * successor's calendar, then rolled back onto a day the predecessor works.
+ */
+function candidateLSOnOwnCalendars(
+  succ: Edge,
+  succLSISO: string,
+  succLFISO: string,
+  predDuration: number,
+  predCal: Cal,
+  succCal: Cal,
+): Date {
+  if (succ.lagUnit === "elapsed") {
+    return elapsedCandidateLSDate(succ.type, succLSISO, succLFISO, succ.lagDays, predDuration, predCal);
+  }
+  if (succ.type === "SS" || succ.type === "FS") {
+    const bound = shiftWorkingDays(parseDateISO(succLSISO), -succ.lagDays, succCal);
+    if (succ.type === "SS") return retreatToPreviousWorkingDay(bound, predCal);
+    const lf = retreatToPreviousWorkingDay(addCalendarDays(bound, -1), predCal);
+    return activityStartDate(lf, predDuration, predCal);
+  }
+  const succLF = parseDateISO(succLFISO);
+  if (succ.type === "SF") {
+    return retreatToPreviousWorkingDay(shiftWorkingDays(succLF, 1 - succ.lagDays, succCal), predCal);
+  }
+  const lf = retreatToPreviousWorkingDay(shiftWorkingDays(succLF, -succ.lagDays, succCal), predCal); // FF
+  return activityStartDate(lf, predDuration, predCal);
+}
+
 /**
  * Apply the startsAtMilestoneId floor.
  *
@@ -428,6 +652,8 @@ function forwardPass(args: {
   projectStart: Date;
   calendar: Cal;
   milestones?: Milestone[];
+  calendarOf?: CalendarOf;
+  releaseDates?: Map<string, string>;
 }): {
   startDates: Map<string, Date>;
   endDates: Map<string, Date>;
@@ -435,7 +661,9 @@ function forwardPass(args: {
   networkEnd: Map<string, string>;
   conflicts: ConstraintConflict[];
 } {
-  const { graph, activityMap, durationMap, projectStart, calendar, milestones } = args;
+  const {
+    graph, activityMap, durationMap, projectStart, calendar, milestones, calendarOf, releaseDates,
+  } = args;
   const startDates = new Map<string, Date>();    // constrained ES
   const endDates = new Map<string, Date>();      // constrained EF
   const networkStart = new Map<string, string>(); // network ES (ISO)
@@ -446,12 +674,16 @@ function forwardPass(args: {
     const activity = activityMap.get(id)!;
     const duration = durationMap.get(id) ?? 1;
     const preds = (graph.predecessors.get(id) ?? []) as Edge[];
+    const own = calendarOf ? calendarOf(id) : calendar;
 
-    let activityStart = earliestStartFromPreds(preds, startDates, endDates, duration, projectStart, calendar);
+    let activityStart = earliestStartFromPreds(
+      preds, startDates, endDates, duration, projectStart, own, !!calendarOf,
+    );
     activityStart = applyMilestoneFloor(activity, activityStart, milestones);
-    activityStart = advanceToNextWorkingDay(activityStart, calendar); // ensure a working day
+    activityStart = applyReleaseFloor(id, activityStart, releaseDates);
+    activityStart = advanceToNextWorkingDay(activityStart, own); // ensure a working day
 
-    const activityEnd = activityEndDate(activityStart, duration, calendar);
+    const activityEnd = activityEndDate(activityStart, duration, own);
 
     // Save network dates (before local constraint adjustment)
     const esNetISO = formatDateISO(activityStart);
@@ -460,7 +692,7 @@ function forwardPass(args: {
     networkEnd.set(id, efNetISO);
 
     const local = applyLocalConstraint(
-      activity, esNetISO, efNetISO, duration, activityStart, activityEnd, calendar,
+      activity, esNetISO, efNetISO, duration, activityStart, activityEnd, own,
     );
     startDates.set(id, local.es);
     endDates.set(id, local.ef);
@@ -471,17 +703,54 @@ function forwardPass(args: {
 }
 
 // ---------------------------------------------------------------------------
-// LIFT 2 — backward pass #1 (constraint-adjusted, for display). Verbatim.
+// LIFT 2 — backward pass #1 (constraint-adjusted, for display). Verbatim, but for the
+// successor scan, which both backward passes share.
 // ---------------------------------------------------------------------------
 
+/** Late start from the successors' late dates, or from the project end for a terminal activity. */
+function lateStartFromSuccs(args: {
+  id: string;
+  duration: number;
+  lateStart: Map<string, string>;
+  lateFinish: Map<string, string>;
+  projectEndDate: Date;
+  graph: DepGraph;
+  calendar: Cal;
+  calendarOf?: CalendarOf;
+}): Date {
+  const { id, duration, lateStart, lateFinish, projectEndDate, graph, calendar, calendarOf } = args;
+  const succs = (graph.successors.get(id) ?? []) as Edge[];
+  if (succs.length === 0) {
+    if (!calendarOf) return activityStartDate(new Date(projectEndDate), duration, calendar);
+    // The project may end on a day this activity's calendar does not work.
+    const own = calendarOf(id);
+    return activityStartDate(retreatToPreviousWorkingDay(projectEndDate, own), duration, own);
+  }
+  let ls = new Date(8640000000000000); // max date
+  for (const succ of succs) {
+    const candidateLS = calendarOf
+      ? candidateLSOnOwnCalendars(
+          succ, lateStart.get(succ.id)!, lateFinish.get(succ.id)!, duration,
+          calendarOf(id), calendarOf(succ.id),
+        )
+      : computeCandidateLSDate(
+          succ.type, lateStart.get(succ.id)!, lateFinish.get(succ.id)!,
+          succ.lagDays, succ.lagUnit, duration, calendar,
+        );
+    if (candidateLS < ls) ls = candidateLS;
+  }
+  return ls;
+}
+
 function backwardPassConstrained(args: {
   graph: DepGraph;
   activityMap: Map<string, Activity>;
   durationMap: Map<string, number>;
   projectEndDate: Date;
   calendar: Cal;
+  calendarOf?: CalendarOf;
 }): { lateStartCon: Map<string, string>; lateFinishCon: Map<string, string> } {
-  const { graph, activityMap, durationMap, projectEndDate, calendar } = args;
+  const { graph, activityMap, durationMap, projectEndDate, calendar, calendarOf } = args;
   const lateStartCon = new Map<string, string>();
   const lateFinishCon = new Map<string, string>();
 
@@ -489,30 +758,21 @@ function backwardPassConstrained(args: {
     const id = graph.topologicalOrder[i]!;
     const activity = activityMap.get(id)!;
     const duration = durationMap.get(id) ?? 1;
-    const succs = graph.successors.get(id) ?? [];
+    const own = calendarOf ? calendarOf(id) : calendar;
 
-    let ls: Date;
-    if (succs.length === 0) {
-      ls = activityStartDate(new Date(projectEndDate), duration, calendar);
-    } else {
-      ls = new Date(8640000000000000); // max date
-      for (const succ of succs) {
-        const candidateLS = computeCandidateLSDate(
-          succ.type, lateStartCon.get(succ.id)!, lateFinishCon.get(succ.id)!,
-          succ.lagDays, duration, calendar,
-        );
-        if (candidateLS < ls) ls = candidateLS;
-      }
-    }
+    let ls = lateStartFromSuccs({
+      id, duration, lateStart: lateStartCon, lateFinish: lateFinishCon,
+      projectEndDate, graph, calendar, calendarOf,
+    });
 
-    let lf = activityEndDate(ls, duration, calendar);
+    let lf = activityEndDate(ls, duration, own);
 
     // Apply backward constraint adjustment
     if (activity.constraintType && activity.constraintDate && activity.constraintMode) {
       const backResult = applyBackwardConstraint(
         formatDateISO(ls), formatDateISO(lf), duration,
         activity.constraintType, activity.constraintDate,
-        activity.constraintMode, calendar,
+        activity.constraintMode, own,
       );
       ls = parseDateISO(backResult.ls);
       lf = parseDateISO(backResult.lf);
@@ -526,7 +786,7 @@ function backwardPassConstrained(args: {
 }
 
 // ---------------------------------------------------------------------------
-// LIFT 3 — backward pass #2 (network-driven, no constraint adjustments). Verbatim.
+// LIFT 3 — backward pass #2 (network-driven, no constraint adjustments).
 // ---------------------------------------------------------------------------
 
 function backwardPassNetwork(args: {
@@ -534,31 +794,22 @@ function backwardPassNetwork(args: {
   durationMap: Map<string, number>;
   projectEndDate: Date;
   calendar: Cal;
+  calendarOf?: CalendarOf;
 }): { lateStartNet: Map<string, string>; lateFinishNet: Map<string, string> } {
-  const { graph, durationMap, projectEndDate, calendar } = args;
+  const { graph, durationMap, projectEndDate, calendar, calendarOf } = args;
   const lateStartNet = new Map<string, string>();
   const lateFinishNet = new Map<string, string>();
 
   for (let i = graph.topologicalOrder.length - 1; i >= 0; i--) {
     const id = graph.topologicalOrder[i]!;
     const duration = durationMap.get(id) ?? 1;
-    const succs = graph.successors.get(id) ?? [];
 
-    let ls: Date;
-    if (succs.length === 0) {
-      ls = activityStartDate(new Date(projectEndDate), duration, calendar);
-    } else {
-      ls = new Date(8640000000000000);
-      for (const succ of succs) {
-        const candidateLS = computeCandidateLSDate(
-          succ.type, lateStartNet.get(succ.id)!, lateFinishNet.get(succ.id)!,
-          succ.lagDays, duration, calendar,
-        );
-        if (candidateLS < ls) ls = candidateLS;
-      }
-    }
+    const ls = lateStartFromSuccs({
+      id, duration, lateStart: lateStartNet, lateFinish: lateFinishNet,
+      projectEndDate, graph, calendar, calendarOf,
+    });
 
-    const lf = activityEndDate(ls, duration, calendar);
+    const lf = activityEndDate(ls, duration, calendarOf ? calendarOf(id) : calendar);
     lateStartNet.set(id, formatDateISO(ls));
     lateFinishNet.set(id, formatDateISO(lf));
   }
@@ -570,15 +821,46 @@ function backwardPassNetwork(args: {
 // LIFT 4 — free float, plus the one gap helper §3's recipe calls for.
 // ---------------------------------------------------------------------------
 
+/**
+ * Working days from `from` to `to`, NEGATIVE when `to` is earlier. `countWorkingDays`
+ * floors a reversed range at 0, which is harmless for FS/SS/FF — their successor side sits
+ * at or after the predecessor side — but an SF successor normally finishes BEFORE its
+ * predecessor starts, so its gap needs the sign.
+ */
+function signedWorkingDays(from: Date, to: Date, calendar: Cal): number {
+  return from <= to ? countWorkingDays(from, to, calendar) : -countWorkingDays(to, from, calendar);
+}
+
 /** Gap from this activity to one successor, in working days, per dependency type. */
 function successorGap(
   succ: Edge, predES: Date, predEF: Date, succES: Date, succEF: Date, calendar: Cal,
 ): number {
+  if (succ.lagUnit === "elapsed") {
+    const required = elapsedRequiredDate(succ.type, succ.lagDays, predES, predEF, calendar);
+    return signedWorkingDays(required, constrainsSuccFinish(succ.type) ? succEF : succES, calendar);
+  }
   if (succ.type === "SS") return countWorkingDays(predES, succES, calendar) - succ.lagDays;
   if (succ.type === "FF") return countWorkingDays(predEF, succEF, calendar) - succ.lagDays;
+  if (succ.type === "SF") return signedWorkingDays(predES, succEF, calendar) + 1 - succ.lagDays;
   return countWorkingDays(predEF, succES, calendar) - 1 - succ.lagDays; // FS
 }
 
+/** successorGap on per-activity calendars: working days of the successor's calendar. */
+function successorGapOnOwnCalendars(
+  predId: string,
+  succ: Edge,
+  startDates: Map<string, Date>,
+  endDates: Map<string, Date>,
+  durationMap: Map<string, number>,
+  calendarOf: CalendarOf,
+): number {
+  const succCal = calendarOf(succ.id);
+  const earliest = candidateOnOwnCalendar(
+    { ...succ, id: predId }, startDates, endDates, durationMap.get(succ.id) ?? 1, succCal,
+  );
+  return signedWorkingDays(earliest, startDates.get(succ.id)!, succCal);
+}
+
 /**
  * Free float = min gap to any successor's early start, in working days.
  * For terminal activities (no successors), free float equals total float.
@@ -589,8 +871,10 @@ function computeFreeFloat(args: {
   startDates: Map<string, Date>;
   endDates: Map<string, Date>;
   calendar: Cal;
+  durationMap: Map<string, number>;
+  calendarOf?: CalendarOf;
 }): Map<string, number> {
-  const { graph, totalFloatMap, startDates, endDates, calendar } = args;
+  const { graph, totalFloatMap, startDates, endDates, calendar, durationMap, calendarOf } = args;
   const freeFloatMap = new Map<string, number>();
 
   for (const id of graph.topologicalOrder) {
@@ -603,9 +887,9 @@ function computeFreeFloat(args: {
     const predES = startDates.get(id)!;
     const predEF = endDates.get(id)!;
     for (const succ of succs) {
-      const gap = successorGap(
-        succ, predES, predEF, startDates.get(succ.id)!, endDates.get(succ.id)!, calendar,
-      );
+      const gap = calendarOf
+        ? successorGapOnOwnCalendars(id, succ, startDates, endDates, durationMap, calendarOf)
+        : successorGap(succ, predES, predEF, startDates.get(succ.id)!, endDates.get(succ.id)!, calendar);
       if (gap < minGap) minGap = gap;
     }
     freeFloatMap.set(id, Math.max(0, minGap));
@@ -626,8 +910,11 @@ function detectSoftConflicts(args: {
   lateStartNet: Map<string, string>;
   lateFinishNet: Map<string, string>;
   calendar: Cal;
+  calendarOf?: CalendarOf;
 }): ConstraintConflict[] {
-  const { graph, activityMap, networkStart, networkEnd, lateStartNet, lateFinishNet, calendar } = args;
+  const {
+    graph, activityMap, networkStart, networkEnd, lateStartNet, lateFinishNet, calendar, calendarOf,
+  } = args;
   const found: ConstraintConflict[] = [];
 
   for (const id of graph.topologicalOrder) {
@@ -638,7 +925,7 @@ function detectSoftConflicts(args: {
       networkStart.get(id)!, networkEnd.get(id)!,
       lateStartNet.get(id)!, lateFinishNet.get(id)!,
       activity.constraintType, activity.constraintDate,
-      activity.constraintMode, activity.id, activity.name, calendar,
+      activity.constraintMode, activity.id, activity.name, calendarOf ? calendarOf(id) : calendar,
     );
     if (conflict) found.push(conflict);
   }
@@ -647,25 +934,63 @@ function detectSoftConflicts(args: {
 }
 
 // ---------------------------------------------------------------------------
-// LIFT 6 — post-pass dependency constraint validation. Verbatim.
+// LIFT 6 — post-pass dependency constraint validation. The per-dependency check is
+// split out so the per-activity calendar variant can sit beside it.
 // ---------------------------------------------------------------------------
 
+/** Whether the scheduled dates break `dep` (single calendar). */
+function violatesOnCalendar(
+  dep: ActivityDependency,
+  predES: Date,
+  predEF: Date,
+  succES: Date,
+  succEF: Date,
+  calendar: Cal,
+): boolean {
+  function computeRequired(baseDate: Date, offset: number): Date {
+    return offset >= 0
+      ? addWorkingDays(baseDate, offset, calendar)
+      : subtractWorkingDays(baseDate, -offset, calendar);
+  }
+
+  if (dep.lagUnit === "elapsed") {
+    const required = elapsedRequiredDate(dep.type, dep.lagDays, predES, predEF, calendar);
+    return (constrainsSuccFinish(dep.type) ? succEF : succES) < required;
+  }
+  if (dep.type === "FS") return succES < computeRequired(predEF, 1 + dep.lagDays);
+  if (dep.type === "SS") return succES < computeRequired(predES, dep.lagDays);
+  if (dep.type === "FF") return succEF < computeRequired(predEF, dep.lagDays);
+  if (dep.type === "SF") return succEF < computeRequired(predES, dep.lagDays - 1);
+  return false;
+}
+
+/** Whether the scheduled dates break `dep` (per-activity calendars). */
+function violatesOnOwnCalendars(
+  dep: ActivityDependency,
+  startDates: Map<string, Date>,
+  endDates: Map<string, Date>,
+  durationMap: Map<string, number>,
+  calendarOf: CalendarOf,
+): boolean {
+  const edge = { id: dep.fromActivityId, type: dep.type, lagDays: dep.lagDays, lagUnit: dep.lagUnit };
+  const earliest = candidateOnOwnCalendar(
+    edge, startDates, endDates, durationMap.get(dep.toActivityId) ?? 1, calendarOf(dep.toActivityId),
+  );
+  return startDates.get(dep.toActivityId)! < earliest;
+}
+
 function validateDependencies(args: {
   dependencies: ActivityDependency[];
   startDates: Map<string, Date>;
   endDates: Map<string, Date>;
   activityMap: Map<string, Activity>;
   calendar: Cal;
+  durationMap: Map<string, number>;
+  calendarOf?: CalendarOf;
 }): DependencyConflict[] {
-  const { dependencies, startDates, endDates, activityMap, calendar } = args;
+  const { dependencies, startDates, endDates, activityMap, calendar, durationMap, calendarOf } = args;
   const dependencyConflicts: DependencyConflict[] = [];
 
-  function computeRequired(baseDate: Date, offset: number): Date {
-    return offset >= 0
-      ? addWorkingDays(baseDate, offset, calendar)
-      : subtractWorkingDays(baseDate, -offset, calendar);
-  }
-
   for (const dep of dependencies) {
     const succES = startDates.get(dep.toActivityId);
     const succEF = endDates.get(dep.toActivityId);
@@ -673,17 +998,9 @@ function validateDependencies(args: {
     const predEF = endDates.get(dep.fromActivityId);
     if (!succES || !succEF || !predES || !predEF) continue;
 
-    let violated = false;
-    if (dep.type === "FS") {
-      const required = computeRequired(predEF, 1 + dep.lagDays);
-      violated = succES < required;
-    } else if (dep.type === "SS") {
-      const required = computeRequired(predES, dep.lagDays);
-      violated = succES < required;
-    } else if (dep.type === "FF") {
-      const required = computeRequired(predEF, dep.lagDays);
-      violated = succEF < required;
-    }
+    const violated = calendarOf
+      ? violatesOnOwnCalendars(dep, startDates, endDates, durationMap, calendarOf)
+      : violatesOnCalendar(dep, predES, predEF, succES, succEF, calendar);
 
     if (violated) {
       const fromName = activityMap.get(dep.fromActivityId)?.name ?? "";
@@ -696,6 +1013,7 @@ function validateDependencies(args: {
         toActivityName: toName,
         dependencyType: dep.type,
         lagDays: dep.lagDays,
+        ...(dep.lagUnit === "elapsed" && { lagUnit: dep.lagUnit }),
         severity: "warning",
         message: `${dep.type} constraint violated: ${toName} does not satisfy ${dep.type} relationship with ${fromName}`,
       });
@@ -724,11 +1042,12 @@ function buildScheduleResult(args: {
   projectStart: Date;
   projectEndISO: string;
   calendar: Cal;
+  toProjectDays?: (axisDays: number) => number;
 }): { scheduledActivities: ScheduledActivity[]; totalDurationDays: number; spanDays: number } {
   const {
     graph, activityMap, durationMap, startDates, endDates,
     lateStartCon, lateFinishCon, lateStartNet, lateFinishNet,
-    totalFloatMap, freeFloatMap, projectStart, projectEndISO, calendar,
+    totalFloatMap, freeFloatMap, projectStart, projectEndISO, calendar, toProjectDays,
   } = args;
 
   const scheduledActivities: ScheduledActivity[] = [];
@@ -753,8 +1072,10 @@ function buildScheduleResult(args: {
     });
   }
 
-  // Total duration is the critical path length (consistent with Monte Carlo computation)
-  const totalDurationDays = computeCriticalPathDuration(graph, durationMap);
+  // Total duration is the critical path length (consistent with Monte Carlo computation).
+  // With per-activity calendars the engine counts axis days; report project days.
+  const criticalPathDays = computeCriticalPathDuration(graph, durationMap);
+  const totalDurationDays = toProjectDays ? toProjectDays(criticalPathDays) : criticalPathDays;
   // Inclusive span in the MC duration domain: project start → constraint/milestone-
   // adjusted end. projectStart is the advanced start (never mutated after line ~260).
   const spanDays = scheduledActivities.length > 0
@@ -764,26 +1085,67 @@ function buildScheduleResult(args: {
   return { scheduledActivities, totalDurationDays, spanDays };
 }
 
+/** What scheduling on per-activity calendars needs; just the project calendar without them. */
+function activityCalendarContext(
+  startDate: string,
+  calendar: Cal,
+  activityCalendars: Map<string, WorkCalendar> | undefined,
+): { axisCalendar: Cal; calendarResolver?: ActivityCalendarResolver; calendarOf?: CalendarOf } {
+  if (!activityCalendars) return { axisCalendar: calendar };
+  return {
+    axisCalendar: scheduleAxisCalendar(calendar, activityCalendars),
+    calendarResolver: createActivityCalendarResolver(
+      buildActivityCalendarAxis(startDate, calendar, activityCalendars),
+    ),
+    calendarOf: (id) => activityCalendars.get(id) ?? calendar,
+  };
+}
+
+/**
+ * `activityCalendars` (from resolveActivityCalendars) gives activities a calendar of their
+ * own. Each is then scheduled, floated and checked on its own calendar, lags on the
+ * successor's; the project start is the first day any activity may work, and spanDays
+ * and totalDurationDays stay in project-calendar days.
+ *
+ * `statusDate` (status-date.ts) turns actual dates into durations and floors every
+ * activity at its release date, alongside the `startsAtMilestoneId` floor.
+ */
 export function computeDependencySchedule(
-  activities: Activity[],
+  plannedActivities: Activity[],
   dependencies: ActivityDependency[],
   startDate: string,
   percentile: number,
   calendar?: WorkCalendar | Calendar,
-  milestones?: Milestone[]
+  milestones?: Milestone[],
+  activityCalendars?: Map<string, WorkCalendar>,
+  statusDate?: string,
 ): DeterministicSchedule {
-  const graph = buildDependencyGraph(
-    activities.map((a) => a.id),
-    dependencies
-  );
+  const { axisCalendar, calendarResolver, calendarOf } =
+    activityCalendarContext(startDate, calendar, activityCalendars);
+  const { activities, releaseDates } =
+    applyStatusDate(plannedActivities, statusDate, calendar, calendarOf);
+  // Elapsed lags need the calendar in the integer domain too: totalDurationDays comes
+  // from the same critical-path engine the Monte Carlo trials use.
+  const lagResolver = hasElapsedLags(dependencies)
+    ? createElapsedLagResolver(buildElapsedLagCalendar(startDate, axisCalendar))
+    : undefined;
+  const activityIds = activities.map((a) => a.id);
+  let graph = buildDependencyGraph(activityIds, dependencies, lagResolver, calendarResolver);
   const durationMap = computeDependencyDurations(activities, percentile);
+  // Percentage lags become whole days here, from the durations just resolved; from then
+  // on they are ordinary day lags. The raw graph above still goes first, so a cycle is
+  // reported ahead of any estimate error, as it always has been.
+  const scheduledDeps = resolvePercentLags(dependencies, durationMap);
+  if (scheduledDeps !== dependencies) {
+    graph = buildDependencyGraph(activityIds, scheduledDeps, lagResolver, calendarResolver);
+  }
   const activityMap = new Map(activities.map((a) => [a.id, a]));
 
   let projectStart = parseDateISO(startDate);
-  projectStart = advanceToNextWorkingDay(projectStart, calendar);
+  projectStart = advanceToNextWorkingDay(projectStart, axisCalendar);
 
   const { startDates, endDates, networkStart, networkEnd, conflicts } = forwardPass({
-    graph, activityMap, durationMap, projectStart, calendar, milestones,
+    graph, activityMap, durationMap, projectStart, calendar, milestones, calendarOf, releaseDates,
   });
 
   // Project end is the latest constrained end date
@@ -794,35 +1156,36 @@ export function computeDependencySchedule(
   const projectEndISO = formatDateISO(projectEndDate);
 
   const { lateStartCon, lateFinishCon } = backwardPassConstrained({
-    graph, activityMap, durationMap, projectEndDate, calendar,
+    graph, activityMap, durationMap, projectEndDate, calendar, calendarOf,
   });
   const { lateStartNet, lateFinishNet } = backwardPassNetwork({
-    graph, durationMap, projectEndDate, calendar,
+    graph, durationMap, projectEndDate, calendar, calendarOf,
   });
 
   const totalFloatMap = new Map<string, number>();
   for (const id of graph.topologicalOrder) {
     const esDate = parseDateISO(networkStart.get(id)!);
     const lsDate = parseDateISO(lateStartNet.get(id)!);
-    totalFloatMap.set(id, countWorkingDays(esDate, lsDate, calendar));
+    totalFloatMap.set(id, countWorkingDays(esDate, lsDate, calendarOf ? calendarOf(id) : calendar));
   }
 
   const freeFloatMap = computeFreeFloat({
-    graph, totalFloatMap, startDates, endDates, calendar,
+    graph, totalFloatMap, startDates, endDates, calendar, durationMap, calendarOf,
   });
 
   conflicts.push(...detectSoftConflicts({
-    graph, activityMap, networkStart, networkEnd, lateStartNet, lateFinishNet, calendar,
+    graph, activityMap, networkStart, networkEnd, lateStartNet, lateFinishNet, calendar, calendarOf,
   }));
 
   const dependencyConflicts = validateDependencies({
-    dependencies, startDates, endDates, activityMap, calendar,
+    dependencies: scheduledDeps, startDates, endDates, activityMap, calendar, durationMap, calendarOf,
   });
 
   const { scheduledActivities, totalDurationDays, spanDays } = buildScheduleResult({
     graph, activityMap, durationMap, startDates, endDates,
     lateStartCon, lateFinishCon, lateStartNet, lateFinishNet,
     totalFloatMap, freeFloatMap, projectStart, projectEndISO, calendar,
+    toProjectDays: calendarResolver?.fromAxis,
   });
 
   return {
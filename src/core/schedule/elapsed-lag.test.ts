@@ -0,0 +1,130 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { ActivityDependency, DependencyType } from "@domain/models/types";
+import { buildWorkCalendar, CalendarConfigurationError } from "@core/calendar/work-calendar";
+import {
+  buildElapsedLagCalendar,
+  createElapsedLagResolver,
+  elapsedEarlyStart,
+  elapsedLateStart,
+  hasElapsedLags,
+} from "./elapsed-lag";
+
+// Mon Jan 6 2025 — working day 0 and calendar day 0.
+const START = "2025-01-06";
+
+function weekdayResolver() {
+  return createElapsedLagResolver(buildElapsedLagCalendar(START));
+}
+
+describe("hasElapsedLags", () => {
+  const dep = (lagUnit?: "working" | "elapsed"): ActivityDependency => ({
+    fromActivityId: "a",
+    toActivityId: "b",
+    type: "FS",
+    lagDays: 2,
+    ...(lagUnit && { lagUnit }),
+  });
+
+  it("is false for working-day and unset units", () => {
+    expect(hasElapsedLags([dep(), dep("working")])).toBe(false);
+  });
+
+  it("is true when any dependency is elapsed", () => {
+    expect(hasElapsedLags([dep(), dep("elapsed")])).toBe(true);
+  });
+});
+
+describe("createElapsedLagResolver — Mon–Fri calendar", () => {
+  it("maps working days to calendar days across a weekend", () => {
+    const r = weekdayResolver();
+    expect(r.calendarDayOf(0)).toBe(0); // Mon Jan 6
+    expect(r.calendarDayOf(4)).toBe(4); // Fri Jan 10
+    expect(r.calendarDayOf(5)).toBe(7); // Mon Jan 13
+    expect(r.calendarDayOf(-1)).toBe(-3); // Fri Jan 3
+  });
+
+  it("rolls weekend days forward or back to the nearest working day", () => {
+    const r = weekdayResolver();
+    expect(r.workingDayOnOrAfter(5)).toBe(5); // Sat → Mon
+    expect(r.workingDayOnOrAfter(6)).toBe(5); // Sun → Mon
+    expect(r.workingDayOnOrBefore(5)).toBe(4); // Sat → Fri
+    expect(r.workingDayOnOrBefore(6)).toBe(4); // Sun → Fri
+    expect(r.workingDayOnOrBefore(7)).toBe(5); // Mon stays
+  });
+
+  it("repeats the edge week beyond the sampled horizon", () => {
+    const r = weekdayResolver();
+    expect(r.calendarDayOf(5000)).toBe(7000);
+    expect(r.workingDayOnOrAfter(7000)).toBe(5000);
+    expect(r.workingDayOnOrAfter(7005)).toBe(5005); // Sat → Mon
+    expect(r.calendarDayOf(-500)).toBe(-700);
+    expect(r.workingDayOnOrBefore(-701)).toBe(-501); // Sun → Fri
+  });
+
+  it("skips holidays inside the horizon", () => {
+    const calendar = buildWorkCalendar([1, 2, 3, 4, 5], [
+      { id: "h1", name: "Closure", startDate: "2025-01-13", endDate: "2025-01-13" },
+    ], []);
+    const r = createElapsedLagResolver(buildElapsedLagCalendar(START, calendar));
+    expect(r.calendarDayOf(5)).toBe(8); // Tue Jan 14
+    expect(r.workingDayOnOrAfter(7)).toBe(5);
+  });
+
+  it("throws CalendarConfigurationError on an empty sample", () => {
+    expect(() => createElapsedLagResolver({ workingDayOffsets: [], zeroIndex: -1 })).toThrow(
+      CalendarConfigurationError
+    );
+  });
+});
+
+describe("elapsedEarlyStart / elapsedLateStart", () => {
+  it("FS+2ed from a Friday finish lands on Monday", () => {
+    // A occupies working days 0–4 (Mon–Fri). Sat and Sun use up the lag.
+    expect(elapsedEarlyStart("FS", 0, 5, 2, 3, weekdayResolver())).toBe(5);
+  });
+
+  it("FS+7ed counts a full calendar week, not seven working days", () => {
+    // Fri Jan 10 + 1 + 7 = Sat Jan 18 → Mon Jan 20 (working day 10)
+    expect(elapsedEarlyStart("FS", 0, 5, 7, 3, weekdayResolver())).toBe(10);
+  });
+
+  it("looks a fractional finish up in the last day it touches", () => {
+    // EF 4.2 has used Fri Jan 10; +1+2 → Mon Jan 13
+    expect(elapsedEarlyStart("FS", 0, 4.2, 2, 3, weekdayResolver())).toBe(5);
+  });
+
+  it("late start inverts the early start across a weekend", () => {
+    const r = weekdayResolver();
+    // Successor starts Mon (5). The latest FS+2ed predecessor of 5 days finishes Fri.
+    expect(elapsedLateStart("FS", 5, 8, 2, 5, r)).toBe(0);
+    // SS+3ed onto Mon Jan 13: latest start is Fri Jan 10.
+    expect(elapsedLateStart("SS", 5, 8, 3, 5, r)).toBe(4);
+  });
+
+  it("reduces to the working-day formulas on a seven-day calendar", () => {
+    const everyDay = buildWorkCalendar([0, 1, 2, 3, 4, 5, 6], [], []);
+    const r = createElapsedLagResolver(buildElapsedLagCalendar(START, everyDay));
+    const forward: Record<DependencyType, (es: number, ef: number, lag: number, dur: number) => number> = {
+      FS: (_es, ef, lag) => ef + lag,
+      SS: (es, _ef, lag) => es + lag,
+      FF: (_es, ef, lag, dur) => ef + lag - dur,
+      SF: (es, _ef, lag, dur) => es + lag - dur,
+    };
+    const backward: Record<DependencyType, (ls: number, lf: number, lag: number, dur: number) => number> = {
+      FS: (ls, _lf, lag, dur) => ls - lag - dur,
+      SS: (ls, _lf, lag) => ls - lag,
+      FF: (_ls, lf, lag, dur) => lf - lag - dur,
+      SF: (_ls, lf, lag) => lf - lag,
+    };
+    for (const type of ["FS", "SS", "FF", "SF"] as const) {
+      for (const lag of [-4, 0, 3]) {
+        expect(elapsedEarlyStart(type, 6, 10, lag, 3, r)).toBe(forward[type](6, 10, lag, 3));
+        expect(elapsedLateStart(type, 20, 23, lag, 4, r)).toBe(backward[type](20, 23, lag, 4));
+      }
+    }
+  });
+});
@@ -0,0 +1,192 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Elapsed (calendar-day) lags in the integer working-day domain.
+ *
+ * The date-domain scheduler resolves an elapsed lag directly with calendar-day
+ * arithmetic. The critical-path engine and the Monte Carlo trials work in working-day
+ * offsets from the project start and have no dates, so they need a map between the two:
+ * which calendar day a working-day offset falls on, and which working day is the first
+ * (or last) one on either side of a calendar day. That map depends on where in the
+ * calendar a predecessor happens to finish — a 7-day cure spans one weekend or two —
+ * so it cannot be folded into a fixed working-day lag once, up front.
+ *
+ * `ElapsedLagCalendar` is the serializable form (it crosses the worker boundary);
+ * `createElapsedLagResolver` turns it into lookups the passes can call per edge.
+ */
+
+import type { ActivityDependency, Calendar, DependencyType } from "@domain/models/types";
+import { CalendarConfigurationError, advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
+import { addCalendarDays, isWorkingDay, parseDateISO } from "@core/calendar/calendar";
+
+/** Calendar days covered BEFORE the project start: the largest lead (−365) plus a week. */
+const LOOKBEHIND_DAYS = 372;
+/** Calendar days covered AFTER the project start. Beyond it the last week repeats. */
+const LOOKAHEAD_DAYS = 3660;
+const DAYS_PER_WEEK = 7;
+
+export interface ElapsedLagCalendar {
+  /** Calendar-day offset, from the (advanced) project start, of each working day in the horizon, ascending. */
+  workingDayOffsets: number[];
+  /** Index into `workingDayOffsets` of working day 0 — the project start itself. */
+  zeroIndex: number;
+}
+
+export interface ElapsedLagResolver {
+  /** Calendar-day offset of working day `workingDay`. */
+  calendarDayOf(workingDay: number): number;
+  /** First working day falling on or after calendar day `calendarDay`. */
+  workingDayOnOrAfter(calendarDay: number): number;
+  /** Last working day falling on or before calendar day `calendarDay`. */
+  workingDayOnOrBefore(calendarDay: number): number;
+}
+
+/** True when any dependency counts its lag in elapsed days. */
+export function hasElapsedLags(dependencies: ActivityDependency[]): boolean {
+  return dependencies.some((d) => d.lagUnit === "elapsed");
+}
+
+/**
+ * Sample the calendar around the project start. The project start is advanced to a
+ * working day first, matching every other offset the simulation receives.
+ */
+export function buildElapsedLagCalendar(
+  startDate: string,
+  calendar?: WorkCalendar | Calendar,
+): ElapsedLagCalendar {
+  const projectStart = advanceToNextWorkingDay(parseDateISO(startDate), calendar);
+  const workingDayOffsets: number[] = [];
+  let zeroIndex = -1;
+  for (let day = -LOOKBEHIND_DAYS; day <= LOOKAHEAD_DAYS; day++) {
+    if (!isWorkingDay(addCalendarDays(projectStart, day), calendar)) continue;
+    if (day === 0) zeroIndex = workingDayOffsets.length;
+    workingDayOffsets.push(day);
+  }
+  return { workingDayOffsets, zeroIndex };
+}
+
+/** Working days in the week ending at (or starting at) the given edge of the table. */
+function weekCount(offsets: number[], fromEnd: boolean): number {
+  const n = offsets.length;
+  if (fromEnd) {
+    const last = offsets[n - 1]!;
+    let count = 0;
+    for (let i = n - 1; i >= 0 && offsets[i]! > last - DAYS_PER_WEEK; i--) count++;
+    return count;
+  }
+  const first = offsets[0]!;
+  let count = 0;
+  for (let i = 0; i < n && offsets[i]! < first + DAYS_PER_WEEK; i++) count++;
+  return count;
+}
+
+/**
+ * Build the lookups. Inside the sampled horizon they are exact; outside it the edge
+ * week of the table is repeated, which is exact for any calendar whose holidays all
+ * fall inside the horizon.
+ */
+export function createElapsedLagResolver(spec: ElapsedLagCalendar): ElapsedLagResolver {
+  const offsets = spec.workingDayOffsets;
+  const zero = spec.zeroIndex;
+  const n = offsets.length;
+  if (n === 0 || zero < 0) {
+    throw new CalendarConfigurationError(
+      "No working day found within the configured calendar — check for an all-non-working work week or excessive holidays."
+    );
+  }
+  const first = offsets[0]!;
+  const last = offsets[n - 1]!;
+  const perWeekAfter = weekCount(offsets, true);
+  const perWeekBefore = weekCount(offsets, false);
+
+  function calendarDayAt(index: number): number {
+    if (index >= n) {
+      const weeks = Math.ceil((index - (n - 1)) / perWeekAfter);
+      return offsets[index - weeks * perWeekAfter]! + weeks * DAYS_PER_WEEK;
+    }
+    if (index < 0) {
+      const weeks = Math.ceil(-index / perWeekBefore);
+      return offsets[index + weeks * perWeekBefore]! - weeks * DAYS_PER_WEEK;
+    }
+    return offsets[index]!;
+  }
+
+  /** Table index of the first working day on or after `day`. */
+  function indexOnOrAfter(day: number): number {
+    if (day > last) {
+      const weeks = Math.ceil((day - last) / DAYS_PER_WEEK);
+      return indexOnOrAfter(day - weeks * DAYS_PER_WEEK) + weeks * perWeekAfter;
+    }
+    if (day < first) {
+      const weeks = Math.ceil((first - day) / DAYS_PER_WEEK);
+      return indexOnOrAfter(day + weeks * DAYS_PER_WEEK) - weeks * perWeekBefore;
+    }
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid]! < day) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  return {
+    calendarDayOf: (workingDay) => calendarDayAt(workingDay + zero),
+    workingDayOnOrAfter: (calendarDay) => indexOnOrAfter(calendarDay) - zero,
+    workingDayOnOrBefore: (calendarDay) => indexOnOrAfter(calendarDay + 1) - 1 - zero,
+  };
+}
+
+/**
+ * Candidate early start for a successor across one ELAPSED-lag edge (integer domain).
+ * A target that lands on a non-working day rolls forward — the lag must have fully run.
+ *   FS: first working day on/after (pred's last day + 1 + lag)
+ *   SS: first working day on/after (pred's first day + lag)
+ *   FF: finish on/after (pred's last day + lag), then back off the duration
+ *   SF: finish on/after (pred's first day + lag − 1), then back off the duration
+ * With every day a working day these reduce to the working-day formulas in
+ * dependency-graph.ts, which is what the tests pin.
+ *
+ * Monte Carlo positions are fractional. The calendar is looked up by whole day: a start
+ * in the day it falls in, a finish in the last day it touches (so a finish at 4.2 has
+ * used day 4). Integer positions — the deterministic schedule — are unaffected.
+ */
+export function elapsedEarlyStart(
+  type: DependencyType,
+  predES: number,
+  predEF: number,
+  lagDays: number,
+  succDuration: number,
+  r: ElapsedLagResolver,
+): number {
+  const predFirstDay = r.calendarDayOf(Math.floor(predES));
+  if (type === "SS") return r.workingDayOnOrAfter(predFirstDay + lagDays);
+  if (type === "SF") return r.workingDayOnOrAfter(predFirstDay + lagDays - 1) + 1 - succDuration;
+  const predLastDay = r.calendarDayOf(Math.ceil(predEF) - 1);
+  if (type === "FF") return r.workingDayOnOrAfter(predLastDay + lagDays) + 1 - succDuration;
+  return r.workingDayOnOrAfter(predLastDay + 1 + lagDays); // FS
+}
+
+/**
+ * Candidate late start for a predecessor across one ELAPSED-lag edge — the inverse of
+ * {@link elapsedEarlyStart}: the latest start whose forward candidate still lands on or
+ * before the successor's late dates.
+ */
+export function elapsedLateStart(
+  type: DependencyType,
+  succLS: number,
+  succLF: number,
+  lagDays: number,
+  predDuration: number,
+  r: ElapsedLagResolver,
+): number {
+  const succFirstDay = r.calendarDayOf(Math.floor(succLS));
+  const succLastDay = r.calendarDayOf(Math.floor(succLF) - 1);
+  if (type === "SS") return r.workingDayOnOrBefore(succFirstDay - lagDays);
+  if (type === "FF") return r.workingDayOnOrBefore(succLastDay - lagDays) + 1 - predDuration;
+  if (type === "SF") return r.workingDayOnOrBefore(succLastDay + 1 - lagDays);
+  return r.workingDayOnOrBefore(succFirstDay - 1 - lagDays) + 1 - predDuration; // FS
+}
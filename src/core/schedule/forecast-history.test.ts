@@ -0,0 +1,145 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  appendForecastEntry,
+  computeInputFingerprint,
+  forecastHistoryEntry,
+} from "./forecast-history";
+import {
+  DEFAULT_SCENARIO_SETTINGS,
+  FORECAST_HISTORY_MAX,
+  FORECAST_HISTORY_RECENT,
+  type ForecastHistoryEntry,
+  type Scenario,
+  type SimulationRun,
+} from "@domain/models/types";
+
+function makeScenario(overrides: Partial<Scenario> = {}): Scenario {
+  return {
+    id: "s1",
+    name: "Plan",
+    startDate: "2026-03-02",
+    activities: [
+      {
+        id: "a1",
+        name: "Design",
+        min: 3,
+        mostLikely: 5,
+        max: 10,
+        confidenceLevel: "mediumConfidence",
+        distributionType: "normal",
+        status: "planned",
+      },
+    ],
+    dependencies: [],
+    milestones: [],
+    settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+    ...overrides,
+  };
+}
+
+function makeRun(percentiles: Record<number, number>): SimulationRun {
+  return {
+    id: "r1",
+    timestamp: "2026-03-02T09:00:00.000Z",
+    trialCount: 10000,
+    seed: "seed",
+    engineVersion: "1",
+    percentiles,
+    histogramBins: [],
+    mean: 0,
+    standardDeviation: 0,
+    minSample: 0,
+    maxSample: 0,
+    samples: [],
+  };
+}
+
+/** An entry at noon UTC on `day`, its P80 finish `p80`. */
+function entry(day: string, p80: string, fingerprint = "f1"): ForecastHistoryEntry {
+  return { timestamp: `${day}T12:00:00.000Z`, fingerprint, finishDates: { 50: p80, 80: p80, 95: p80 } };
+}
+
+describe("computeInputFingerprint", () => {
+  it("ignores the names and notes and follows the estimates", () => {
+    const base = makeScenario();
+    const renamed = makeScenario({ name: "Renamed", notes: "Sponsor copy" });
+    renamed.activities[0] = { ...renamed.activities[0]!, name: "UX", notes: "n", description: "d" };
+    expect(computeInputFingerprint(renamed)).toBe(computeInputFingerprint(base));
+
+    const longer = makeScenario();
+    longer.activities[0] = { ...longer.activities[0]!, max: 12 };
+    expect(computeInputFingerprint(longer)).not.toBe(computeInputFingerprint(base));
+    expect(computeInputFingerprint(makeScenario({ statusDate: "2026-03-09" }))).not.toBe(
+      computeInputFingerprint(base),
+    );
+  });
+
+  it("is eight hex digits", () => {
+    expect(computeInputFingerprint(makeScenario())).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
+
+describe("forecastHistoryEntry", () => {
+  it("turns the percentiles into finish dates from the start date", () => {
+    const result = forecastHistoryEntry(makeRun({ 50: 10, 80: 12.4, 95: 15 }), makeScenario(), 3);
+    expect(result).toEqual({
+      timestamp: "2026-03-02T09:00:00.000Z",
+      fingerprint: computeInputFingerprint(makeScenario()),
+      finishDates: { 50: "2026-03-13", 80: "2026-03-17", 95: "2026-03-20" },
+      bufferDays: 3,
+    });
+  });
+
+  it("leaves out a missing percentile and an absent buffer", () => {
+    const result = forecastHistoryEntry(makeRun({ 50: 10 }), makeScenario(), undefined);
+    expect(result.finishDates).toEqual({ 50: "2026-03-13" });
+    expect("bufferDays" in result).toBe(false);
+  });
+});
+
+describe("appendForecastEntry", () => {
+  it("appends a moved forecast and leaves out a repeat of the latest entry (ref-equal)", () => {
+    const first = entry("2026-03-02", "2026-04-20");
+    const moved = entry("2026-03-03", "2026-04-24");
+    const history = appendForecastEntry(appendForecastEntry([], first), moved);
+    expect(history).toEqual([first, moved]);
+
+    expect(appendForecastEntry(history, entry("2026-03-04", "2026-04-24"))).toBe(history);
+  });
+
+  it("keeps a changed input as its own entry even when the dates hold", () => {
+    const history = [entry("2026-03-02", "2026-04-20")];
+    expect(appendForecastEntry(history, entry("2026-03-03", "2026-04-20", "f2"))).toHaveLength(2);
+  });
+
+  it("summarizes runs older than the recent ones to the latest of each week", () => {
+    // Three runs in the week of 2 March, two in the week of 9 March, then the recent ones.
+    const older = ["02", "03", "05", "09", "13"].map((d, i) => entry(`2026-03-${d}`, `2026-05-0${i + 1}`));
+    const recent = Array.from({ length: FORECAST_HISTORY_RECENT }, (_, i) =>
+      entry(`2026-04-${String(i + 1).padStart(2, "0")}`, `2026-06-${String(i + 1).padStart(2, "0")}`),
+    );
+    let history: ForecastHistoryEntry[] = [];
+    for (const e of [...older, ...recent]) history = appendForecastEntry(history, e);
+
+    expect(history.slice(0, 2)).toEqual([
+      { ...older[2]!, runs: 3 },
+      { ...older[4]!, runs: 2 },
+    ]);
+    expect(history.slice(2)).toEqual(recent);
+  });
+
+  it("drops the oldest entries past the cap", () => {
+    let history: ForecastHistoryEntry[] = [];
+    const start = new Date("2025-01-06T12:00:00.000Z");
+    for (let week = 0; week < FORECAST_HISTORY_MAX + 5; week++) {
+      const day = new Date(start.getTime() + week * 7 * 86_400_000).toISOString().slice(0, 10);
+      history = appendForecastEntry(history, entry(day, day));
+    }
+    expect(history).toHaveLength(FORECAST_HISTORY_MAX);
+    expect(history[0]!.timestamp.slice(0, 10)).toBe("2025-02-10");
+  });
+});
@@ -0,0 +1,161 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Forecast history — how a scenario's simulated finish has moved from run to run.
+ *
+ * `simulationResults` holds the latest run only; the history keeps a compact entry per
+ * run (its timestamp, a fingerprint of its inputs, the FORECAST_HISTORY_PERCENTILES as
+ * finish dates and the buffer), so the trend survives the next run. It persists with the
+ * scenario, so it is bounded:
+ *
+ *   - A run that repeats the latest entry — same inputs, same dates, same buffer — is
+ *     not recorded: the entry already says it, and an auto-run after every edit would
+ *     otherwise save the history for nothing.
+ *   - The FORECAST_HISTORY_RECENT newest entries stay as they are. Older ones are
+ *     summarized to one per week (Monday to Sunday): the week's latest forecast, with
+ *     the count of runs it stands for.
+ *   - Past FORECAST_HISTORY_MAX, the oldest entries are dropped.
+ *
+ * The fingerprint hashes what the scenario feeds the simulation. The project calendar
+ * and resource pool are not part of it, so a calendar change shows as a moved forecast
+ * under an unchanged fingerprint.
+ */
+
+import type {
+  Activity,
+  Calendar,
+  ForecastHistoryEntry,
+  Scenario,
+  SimulationRun,
+} from "@domain/models/types";
+import {
+  FORECAST_HISTORY_MAX,
+  FORECAST_HISTORY_PERCENTILES,
+  FORECAST_HISTORY_RECENT,
+} from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import {
+  addCalendarDays,
+  durationToFinishDateISO,
+  formatDateISO,
+  parseDateISO,
+} from "@core/calendar/calendar";
+
+/** Activity fields that describe the work without changing its simulation. */
+const DESCRIPTIVE_FIELDS = [
+  "name",
+  "notes",
+  "description",
+  "checklist",
+  "deliverables",
+  "constraintNote",
+] as const satisfies readonly (keyof Activity)[];
+
+/** 32-bit FNV-1a of a string, as 8 hex digits. */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** A short hash of everything in the scenario that feeds its simulation. */
+export function computeInputFingerprint(scenario: Scenario): string {
+  const activities = scenario.activities.map((activity) => {
+    const copy: Partial<Activity> = { ...activity };
+    for (const field of DESCRIPTIVE_FIELDS) delete copy[field];
+    return copy;
+  });
+  return fnv1a(
+    JSON.stringify([
+      scenario.startDate,
+      scenario.statusDate ?? null,
+      scenario.settings,
+      activities,
+      scenario.dependencies,
+      scenario.milestones,
+      scenario.summaries ?? [],
+      scenario.correlationGroups ?? [],
+      scenario.risks ?? [],
+      scenario.branches ?? [],
+    ]),
+  );
+}
+
+/** The history entry for a run of `scenario`; `bufferDays` is the buffer it showed, if any. */
+export function forecastHistoryEntry(
+  run: SimulationRun,
+  scenario: Scenario,
+  bufferDays: number | undefined,
+  calendar?: WorkCalendar | Calendar,
+): ForecastHistoryEntry {
+  const finishDates: Record<number, string> = {};
+  for (const p of FORECAST_HISTORY_PERCENTILES) {
+    const days = run.percentiles[p];
+    const finish = days === undefined ? null : durationToFinishDateISO(scenario.startDate, days, calendar);
+    if (finish) finishDates[p] = finish;
+  }
+  return {
+    timestamp: run.timestamp,
+    fingerprint: computeInputFingerprint(scenario),
+    finishDates,
+    ...(bufferDays !== undefined ? { bufferDays } : {}),
+  };
+}
+
+function runsOf(entry: ForecastHistoryEntry): number {
+  return entry.runs ?? 1;
+}
+
+/** Whether two entries forecast the same thing from the same inputs. */
+function sameForecast(a: ForecastHistoryEntry, b: ForecastHistoryEntry): boolean {
+  return (
+    a.fingerprint === b.fingerprint &&
+    a.bufferDays === b.bufferDays &&
+    FORECAST_HISTORY_PERCENTILES.every((p) => a.finishDates[p] === b.finishDates[p])
+  );
+}
+
+/** The Monday of the week an entry's run fell in, "YYYY-MM-DD". */
+function weekOf(entry: ForecastHistoryEntry): string {
+  const day = parseDateISO(entry.timestamp.slice(0, 10));
+  return formatDateISO(addCalendarDays(day, -((day.getDay() + 6) % 7)));
+}
+
+/** Older entries, one per week: each week's latest, standing for all of its runs. */
+function summarizeByWeek(entries: ForecastHistoryEntry[]): ForecastHistoryEntry[] {
+  const summarized: ForecastHistoryEntry[] = [];
+  let week: string | null = null;
+  for (const entry of entries) {
+    const entryWeek = weekOf(entry);
+    const previous = summarized.at(-1);
+    if (previous && entryWeek === week) {
+      summarized[summarized.length - 1] = { ...entry, runs: runsOf(previous) + runsOf(entry) };
+    } else {
+      summarized.push(entry);
+    }
+    week = entryWeek;
+  }
+  return summarized;
+}
+
+/**
+ * The history with `entry` recorded, summarized and trimmed as the module comment
+ * describes. `history` is oldest first and is not modified; a repeat of its latest entry
+ * returns it as it is (ref-equal).
+ */
+export function appendForecastEntry(
+  history: ForecastHistoryEntry[],
+  entry: ForecastHistoryEntry,
+): ForecastHistoryEntry[] {
+  const last = history.at(-1);
+  if (last && sameForecast(last, entry)) return history;
+  const all = [...history, entry];
+  const older = all.slice(0, -FORECAST_HISTORY_RECENT);
+  const recent = all.slice(-FORECAST_HISTORY_RECENT);
+  return [...summarizeByWeek(older), ...recent].slice(-FORECAST_HISTORY_MAX);
+}
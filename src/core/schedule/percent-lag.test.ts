@@ -0,0 +1,64 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { ActivityDependency } from "@domain/models/types";
+import { hasPercentLags, percentLagDays, resolvePercentLags } from "./percent-lag";
+
+function dep(overrides: Partial<ActivityDependency> = {}): ActivityDependency {
+  return { fromActivityId: "a", toActivityId: "b", type: "SS", lagDays: 0, ...overrides };
+}
+
+describe("hasPercentLags", () => {
+  it("is false for day lags only", () => {
+    expect(hasPercentLags([dep({ lagDays: 3 })])).toBe(false);
+  });
+
+  it("is true when any dependency carries a percentage, including 0%", () => {
+    expect(hasPercentLags([dep(), dep({ lagPercent: 0 })])).toBe(true);
+  });
+});
+
+describe("percentLagDays", () => {
+  it("is the percentage of the predecessor's duration, unrounded", () => {
+    expect(percentLagDays(60, 10)).toBe(6);
+    expect(percentLagDays(60, 7.5)).toBeCloseTo(4.5);
+    expect(percentLagDays(-25, 8)).toBe(-2);
+  });
+});
+
+describe("resolvePercentLags", () => {
+  const durations = new Map([["a", 5], ["b", 3]]);
+
+  it("returns the same array when there is nothing to resolve", () => {
+    const deps = [dep({ lagDays: 2 })];
+    expect(resolvePercentLags(deps, durations)).toBe(deps);
+  });
+
+  it("replaces a percentage with whole days and drops the percentage", () => {
+    const [resolved] = resolvePercentLags([dep({ lagPercent: 60 })], durations);
+    expect(resolved).toEqual({ fromActivityId: "a", toActivityId: "b", type: "SS", lagDays: 3 });
+  });
+
+  it("rounds halves away from zero, so leads mirror lags", () => {
+    const [lag, lead] = resolvePercentLags(
+      [dep({ lagPercent: 50 }), dep({ lagPercent: -50 })],
+      durations,
+    );
+    expect(lag!.lagDays).toBe(3);
+    expect(lead!.lagDays).toBe(-3);
+  });
+
+  it("resolves a small lead to 0, not -0", () => {
+    const [resolved] = resolvePercentLags([dep({ lagPercent: -5 })], durations);
+    expect(Object.is(resolved!.lagDays, 0)).toBe(true);
+  });
+
+  it("leaves day-lag dependencies untouched", () => {
+    const plain = dep({ lagDays: 4 });
+    const resolved = resolvePercentLags([plain, dep({ lagPercent: 20 })], durations);
+    expect(resolved[0]).toBe(plain);
+    expect(resolved[1]!.lagDays).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Percentage lags — "start testing when development is 60% done" (SS+60%).
+ *
+ * A percentage lag has no fixed length: it is a share of the PREDECESSOR's duration, so
+ * it has to be resolved wherever that duration is known.
+ *
+ *   - The deterministic schedule knows every duration up front. It resolves each
+ *     percentage to whole working days once ({@link resolvePercentLags}) and then
+ *     schedules the result exactly like a day lag, so the date arithmetic, float and
+ *     violation checks need no second code path.
+ *   - The Monte Carlo trials sample a new predecessor duration every trial. The
+ *     dependency graph resolves the lag per edge, per trial ({@link percentLagDays}),
+ *     unrounded like the sampled durations themselves — so the overlap stretches and
+ *     shrinks with the predecessor, which is the point of a percentage lag.
+ */
+
+import type { ActivityDependency } from "@domain/models/types";
+
+/** True when any dependency carries a percentage lag. */
+export function hasPercentLags(dependencies: ActivityDependency[]): boolean {
+  return dependencies.some((d) => d.lagPercent !== undefined);
+}
+
+/** Lag, in (fractional) days, of `lagPercent`% of a predecessor lasting `predDuration`. */
+export function percentLagDays(lagPercent: number, predDuration: number): number {
+  return (lagPercent / 100) * predDuration;
+}
+
+/**
+ * Replace every percentage lag with the whole number of working days it comes to for
+ * the given durations. Returns the input array itself when there is nothing to resolve.
+ *
+ * ⚠️ Rounds half away from zero, so +50% of a 5-day task is 3 days and −50% is −3 —
+ * a lead and a lag of the same percentage stay mirror images.
+ */
+export function resolvePercentLags(
+  dependencies: ActivityDependency[],
+  durations: Map<string, number>,
+): ActivityDependency[] {
+  if (!hasPercentLags(dependencies)) return dependencies;
+  return dependencies.map((dep) => {
+    if (dep.lagPercent === undefined) return dep;
+    const { lagPercent, ...rest } = dep;
+    const days = percentLagDays(lagPercent, durations.get(dep.fromActivityId) ?? 0);
+    // `|| 0` folds a rounded −0 into 0.
+    return { ...rest, lagDays: Math.sign(days) * Math.round(Math.abs(days)) || 0 };
+  });
+}
@@ -0,0 +1,272 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, ActivityDependency, Resource } from "@domain/models/types";
+import { buildDependencyGraph } from "./dependency-graph";
+import { computeDependencySchedule } from "./deterministic";
+import { resolveActivityCalendars } from "./activity-calendars";
+import {
+  buildResourceDemands,
+  buildResourceLevelingModel,
+  hasResourceAssignments,
+  levelActivities,
+  levelDependencySchedule,
+} from "./resource-leveling";
+
+function fixedActivity(id: string, days: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: days,
+    mostLikely: days,
+    max: days,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function holding(resourceId: string, units = 1): Partial<Activity> {
+  return { resourceAssignments: [{ resourceId, units }] };
+}
+
+function fsDep(from: string, to: string): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays: 0 };
+}
+
+const dev: Resource = { id: "dev", name: "Developer", capacity: 1 };
+
+/** Level a network with the given planned durations; returns the leveled offsets. */
+function level(
+  activities: Activity[],
+  dependencies: ActivityDependency[],
+  resources: Resource[],
+) {
+  const durations = new Map(activities.map((a) => [a.id, a.mostLikely]));
+  const graph = buildDependencyGraph(activities.map((a) => a.id), dependencies);
+  const model = buildResourceLevelingModel(activities, graph, resources, durations)!;
+  return levelActivities(graph, durations, model);
+}
+
+describe("hasResourceAssignments", () => {
+  it("is false without a pool, or when assignments point outside it", () => {
+    const activities = [fixedActivity("a", 2, holding("dev"))];
+    expect(hasResourceAssignments(activities, undefined)).toBe(false);
+    expect(hasResourceAssignments(activities, [{ id: "qa", name: "QA", capacity: 1 }])).toBe(false);
+    expect(hasResourceAssignments(activities, [dev])).toBe(true);
+  });
+});
+
+describe("buildResourceDemands", () => {
+  it("drops unknown resources, sums duplicates and caps at capacity", () => {
+    const demands = buildResourceDemands(
+      [
+        fixedActivity("a", 2, {
+          resourceAssignments: [
+            { resourceId: "dev", units: 0.5 },
+            { resourceId: "dev", units: 0.25 },
+            { resourceId: "gone", units: 1 },
+          ],
+        }),
+        fixedActivity("b", 2, holding("dev", 3)),
+        fixedActivity("c", 2),
+      ],
+      [dev],
+    );
+    expect(demands).toEqual({
+      a: [{ resourceId: "dev", units: 0.75 }],
+      b: [{ resourceId: "dev", units: 1 }],
+    });
+  });
+});
+
+describe("buildResourceLevelingModel", () => {
+  it("is undefined when no activity holds a resource", () => {
+    const activities = [fixedActivity("a", 2)];
+    const graph = buildDependencyGraph(["a"], []);
+    expect(buildResourceLevelingModel(activities, graph, [dev], new Map([["a", 2]]))).toBeUndefined();
+  });
+
+  it("orders by least float, then earliest start, then activity order", () => {
+    // a → c is the 6-day critical path; b (3 days) floats by 3.
+    const activities = [fixedActivity("b", 3), fixedActivity("a", 2, holding("dev")), fixedActivity("c", 4)];
+    const durations = new Map(activities.map((a) => [a.id, a.mostLikely]));
+    const graph = buildDependencyGraph(["b", "a", "c"], [fsDep("a", "c")]);
+    const model = buildResourceLevelingModel(activities, graph, [dev], durations)!;
+    expect(model.placementOrder).toEqual(["a", "c", "b"]);
+  });
+});
+
+describe("levelActivities", () => {
+  it("serializes two activities sharing a single-unit resource", () => {
+    const result = level(
+      [fixedActivity("a", 4, holding("dev")), fixedActivity("b", 4, holding("dev"))],
+      [],
+      [dev],
+    );
+    expect(result.earlyStart.get("a")).toBe(0);
+    expect(result.earlyStart.get("b")).toBe(4);
+    expect(result.projectDuration).toBe(8);
+  });
+
+  it("runs them side by side when capacity allows", () => {
+    const result = level(
+      [fixedActivity("a", 4, holding("dev")), fixedActivity("b", 4, holding("dev"))],
+      [],
+      [{ ...dev, capacity: 2 }],
+    );
+    expect(result.earlyStart.get("b")).toBe(0);
+    expect(result.projectDuration).toBe(4);
+  });
+
+  it("fits fractional units together", () => {
+    const result = level(
+      [fixedActivity("a", 4, holding("dev", 0.5)), fixedActivity("b", 4, holding("dev", 0.5))],
+      [],
+      [dev],
+    );
+    expect(result.projectDuration).toBe(4);
+  });
+
+  it("delays the activity with more float", () => {
+    // a → c is critical; b shares the developer with a and has float, so b waits.
+    const result = level(
+      [
+        fixedActivity("b", 2, holding("dev")),
+        fixedActivity("a", 3, holding("dev")),
+        fixedActivity("c", 5),
+      ],
+      [fsDep("a", "c")],
+      [dev],
+    );
+    expect(result.earlyStart.get("a")).toBe(0);
+    expect(result.earlyStart.get("b")).toBe(3);
+    expect(result.projectDuration).toBe(8);
+  });
+
+  it("moves successors with a delayed predecessor", () => {
+    const result = level(
+      [
+        fixedActivity("a", 2, holding("dev")),
+        fixedActivity("b", 3, holding("dev")),
+        fixedActivity("c", 1),
+      ],
+      [fsDep("b", "c")],
+      [dev],
+    );
+    // b (on the longer path) goes first; a waits for it.
+    expect(result.earlyStart.get("b")).toBe(0);
+    expect(result.earlyStart.get("a")).toBe(3);
+    expect(result.earlyStart.get("c")).toBe(3);
+  });
+
+  it("fills a gap that is long enough", () => {
+    const durations = new Map([["a", 2], ["b", 2], ["c", 1]]);
+    const activities = [
+      fixedActivity("a", 2, holding("dev")),
+      fixedActivity("b", 2, holding("dev")),
+      fixedActivity("c", 1, holding("dev")),
+    ];
+    const graph = buildDependencyGraph(["a", "b", "c"], []);
+    const model = buildResourceLevelingModel(activities, graph, [dev], durations)!;
+    // b may not start before day 3, leaving days 2–3 free for c.
+    const result = levelActivities(graph, durations, { ...model, placementOrder: ["a", "b", "c"] }, {
+      activityEarliestStart: new Map([["b", 3]]),
+    });
+    expect(result.earlyStart.get("b")).toBe(3);
+    expect(result.earlyStart.get("c")).toBe(2);
+  });
+
+  it("never delays a zero-duration activity", () => {
+    const result = level(
+      [fixedActivity("a", 3, holding("dev")), fixedActivity("m", 0, holding("dev"))],
+      [],
+      [dev],
+    );
+    expect(result.earlyStart.get("m")).toBe(0);
+  });
+});
+
+describe("levelDependencySchedule", () => {
+  const activities = [fixedActivity("a", 4, holding("dev")), fixedActivity("b", 4, holding("dev"))];
+
+  it("returns the same schedule when no activity holds a resource", () => {
+    const plain = [fixedActivity("a", 4), fixedActivity("b", 4)];
+    const schedule = computeDependencySchedule(plain, [], "2025-01-06", 0.5);
+    expect(
+      levelDependencySchedule(schedule, {
+        activities: plain,
+        dependencies: [],
+        resources: [dev],
+        startDate: "2025-01-06",
+      }),
+    ).toBe(schedule);
+  });
+
+  it("shifts the delayed activity's dates and records the delay", () => {
+    const schedule = computeDependencySchedule(activities, [], "2025-01-06", 0.5);
+    const leveled = levelDependencySchedule(schedule, {
+      activities,
+      dependencies: [],
+      resources: [dev],
+      startDate: "2025-01-06",
+    });
+    const [a, b] = leveled.activities;
+    expect(a).toBe(schedule.activities[0]); // untouched
+    expect(b!.startDate).toBe("2025-01-10"); // Friday, after a's Mon–Thu
+    expect(b!.endDate).toBe("2025-01-15");
+    expect(b!.levelingDelay).toBe(4);
+    expect(leveled.projectEndDate).toBe("2025-01-15");
+    expect(leveled.spanDays).toBe(8);
+    expect(leveled.totalDurationDays).toBe(8);
+  });
+
+  it("keeps a hard start constraint as the floor", () => {
+    const constrained = [
+      activities[0]!,
+      fixedActivity("b", 4, {
+        ...holding("dev"),
+        constraintType: "SNET",
+        constraintDate: "2025-01-13",
+        constraintMode: "hard",
+      }),
+    ];
+    const schedule = computeDependencySchedule(constrained, [], "2025-01-06", 0.5);
+    const leveled = levelDependencySchedule(schedule, {
+      activities: constrained,
+      dependencies: [],
+      resources: [dev],
+      startDate: "2025-01-06",
+    });
+    // b already starts after a finishes: nothing to level.
+    expect(leveled.activities[1]!.startDate).toBe("2025-01-13");
+    expect(leveled.activities[1]!.levelingDelay).toBeUndefined();
+  });
+
+  it("delays an activity onto the next day of its own calendar", () => {
+    const mixed = [
+      fixedActivity("a", 5, holding("dev")),
+      fixedActivity("v", 2, { ...holding("dev"), calendarId: "vendor" }),
+    ];
+    const activityCalendars = resolveActivityCalendars(mixed, [
+      { id: "vendor", name: "Vendor", workDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] },
+    ]);
+    const schedule = computeDependencySchedule(mixed, [], "2025-01-06", 0.5, undefined, undefined, activityCalendars);
+    const leveled = levelDependencySchedule(schedule, {
+      activities: mixed,
+      dependencies: [],
+      resources: [dev],
+      startDate: "2025-01-06",
+      activityCalendars,
+    });
+    const v = leveled.activities[1]!;
+    // a holds the developer Mon–Fri; the vendor works the weekend.
+    expect(v.startDate).toBe("2025-01-11");
+    expect(v.endDate).toBe("2025-01-12");
+    expect(v.levelingDelay).toBe(5);
+    expect(leveled.totalDurationDays).toBe(leveled.spanDays);
+  });
+});
@@ -0,0 +1,416 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Resource-constrained scheduling (leveling).
+ *
+ * The dependency schedule assumes unlimited hands: two activities for the same person run
+ * side by side whenever the network allows it. Leveling is a second pass that delays
+ * activities until no resource is asked for more units than it has on any day.
+ *
+ * It is a serial schedule-generation scheme, the textbook heuristic for the problem:
+ * activities are placed one at a time, each at the earliest point its dependencies allow
+ * AND its resources are free for its whole duration. Nothing already placed is moved
+ * again, so the result is over-allocation-free by construction — a good schedule, not a
+ * provably shortest one.
+ *
+ * The placement order is the priority rule, and it is fixed ONCE from the unleveled plan
+ * ({@link buildResourceLevelingModel}): of the activities whose predecessors are placed,
+ * least total float goes first, then earliest start, then activity order. The Monte Carlo
+ * trials re-level every trial with their own sampled durations but keep that order — the
+ * team keeps its priorities when a task overruns — which also keeps the per-trial pass
+ * free of sorting.
+ *
+ * Everything here works in the integer working-day domain of dependency-graph.ts. The
+ * deterministic schedule is converted in and out by {@link levelDependencySchedule}.
+ */
+
+import type {
+  Activity,
+  ActivityDependency,
+  Calendar,
+  DeterministicSchedule,
+  Resource,
+  ScheduledActivity,
+} from "@domain/models/types";
+import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
+import {
+  activityEndDate,
+  addWorkingDays,
+  countWorkingDays,
+  formatDateISO,
+  parseDateISO,
+} from "@core/calendar/calendar";
+import {
+  activityFinish,
+  buildDependencyGraph,
+  computeNetworkOffsets,
+  placeActivityForward,
+  startOnCalendar,
+  type DependencyGraph,
+} from "./dependency-graph";
+import { buildElapsedLagCalendar, createElapsedLagResolver, hasElapsedLags } from "./elapsed-lag";
+import { resolvePercentLags } from "./percent-lag";
+import {
+  buildActivityCalendarAxis,
+  createActivityCalendarResolver,
+  scheduleAxisCalendar,
+} from "./activity-calendars";
+
+/** Slack for comparing fractional units against capacity. */
+const UNITS_EPSILON = 1e-9;
+
+// -- Types -------------------------------------------------------------------
+
+export interface ResourceDemand {
+  resourceId: string;
+  units: number;
+}
+
+/**
+ * Everything a leveling pass needs beyond the graph and the durations. Plain data rather
+ * than Maps because it crosses the worker boundary as-is, like `ElapsedLagCalendar`.
+ */
+export interface ResourceLevelingModel {
+  /** activityId → resources it holds while it runs. Activities holding none are absent. */
+  demands: Record<string, ResourceDemand[]>;
+  /** resourceId → units available per working day. */
+  capacities: Record<string, number>;
+  /** Every activity id in placement order — predecessors first, then by priority. */
+  placementOrder: string[];
+}
+
+export interface LeveledPositions {
+  earlyStart: Map<string, number>;
+  earlyFinish: Map<string, number>;
+  projectDuration: number;
+}
+
+/** Optional per-trial floors, as `computeCriticalPathWithMilestones` takes them. */
+export interface LevelingFloors {
+  activityEarliestStart?: Map<string, number>;
+  constraintMap?: Map<string, { type: string; offsetFromStart: number; mode: string }>;
+}
+
+interface Booking {
+  start: number;
+  end: number;
+  units: number;
+}
+
+// -- Model -------------------------------------------------------------------
+
+/** True when any activity holds a resource that exists in the pool. */
+export function hasResourceAssignments(activities: Activity[], resources: Resource[] | undefined): boolean {
+  if (!resources || resources.length === 0) return false;
+  const ids = new Set(resources.map((r) => r.id));
+  return activities.some((a) => a.resourceAssignments?.some((ra) => ids.has(ra.resourceId)));
+}
+
+/**
+ * Per-activity demands against the pool. Assignments to a resource no longer in the pool
+ * are dropped; two assignments to the same resource are summed.
+ *
+ * ⚠️ A demand is capped at the resource's capacity. An activity needing 3 units of a
+ * 2-unit resource could never start; capped, it runs holding the whole resource, which is
+ * the only schedule that exists.
+ */
+export function buildResourceDemands(
+  activities: Activity[],
+  resources: Resource[],
+): Record<string, ResourceDemand[]> {
+  const capacity = new Map(resources.map((r) => [r.id, r.capacity]));
+  const demands: Record<string, ResourceDemand[]> = {};
+  for (const activity of activities) {
+    const units = new Map<string, number>();
+    for (const ra of activity.resourceAssignments ?? []) {
+      if (!capacity.has(ra.resourceId)) continue;
+      units.set(ra.resourceId, (units.get(ra.resourceId) ?? 0) + ra.units);
+    }
+    if (units.size === 0) continue;
+    demands[activity.id] = Array.from(units, ([resourceId, u]) => ({
+      resourceId,
+      units: Math.min(u, capacity.get(resourceId)!),
+    }));
+  }
+  return demands;
+}
+
+/**
+ * Placement order: repeatedly take, among the activities whose predecessors are all
+ * placed, the one with the least total float, then the earliest start, then the lowest
+ * position in `activityIds`.
+ */
+function buildPlacementOrder(
+  graph: DependencyGraph,
+  durations: Map<string, number>,
+  activityIds: string[],
+): string[] {
+  const { earlyStart, lateStart } = computeNetworkOffsets(graph, durations);
+  const position = new Map(activityIds.map((id, i) => [id, i]));
+  const rank = (id: string): [number, number, number] => {
+    const es = earlyStart.get(id) ?? 0;
+    return [(lateStart.get(id) ?? es) - es, es, position.get(id) ?? 0];
+  };
+  const before = (a: string, b: string): boolean => {
+    const ra = rank(a);
+    const rb = rank(b);
+    for (let i = 0; i < ra.length; i++) {
+      if (ra[i] !== rb[i]) return ra[i]! < rb[i]!;
+    }
+    return false;
+  };
+
+  const waiting = new Map(activityIds.map((id) => [id, graph.predecessors.get(id)?.length ?? 0]));
+  const ready = activityIds.filter((id) => waiting.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    let best = 0;
+    for (let i = 1; i < ready.length; i++) {
+      if (before(ready[i]!, ready[best]!)) best = i;
+    }
+    const id = ready.splice(best, 1)[0]!;
+    order.push(id);
+    for (const succ of graph.successors.get(id) ?? []) {
+      const left = (waiting.get(succ.id) ?? 1) - 1;
+      waiting.set(succ.id, left);
+      if (left === 0) ready.push(succ.id);
+    }
+  }
+  return order;
+}
+
+/**
+ * Build the leveling model for a set of activities, or `undefined` when no activity holds
+ * a resource — callers treat that as "do not level" and keep the unleveled fast path.
+ *
+ * `durations` are the planned (deterministic) durations the priority is taken from.
+ */
+export function buildResourceLevelingModel(
+  activities: Activity[],
+  graph: DependencyGraph,
+  resources: Resource[] | undefined,
+  durations: Map<string, number>,
+): ResourceLevelingModel | undefined {
+  if (!resources || !hasResourceAssignments(activities, resources)) return undefined;
+  const capacities: Record<string, number> = {};
+  for (const r of resources) capacities[r.id] = r.capacity;
+  return {
+    demands: buildResourceDemands(activities, resources),
+    capacities,
+    placementOrder: buildPlacementOrder(graph, durations, activities.map((a) => a.id)),
+  };
+}
+
+// -- Leveling pass -----------------------------------------------------------
+
+/** Peak units booked on `bookings` at any point in [start, end). */
+function peakUsage(bookings: Booking[], start: number, end: number): number {
+  let peak = 0;
+  for (const probe of bookings) {
+    // Usage only rises where a booking starts, so the window start and every booking
+    // start inside the window are the only points worth measuring.
+    const at = probe.start > start ? probe.start : start;
+    if (at >= end || probe.end <= at) continue;
+    let usage = 0;
+    for (const b of bookings) {
+      if (b.start <= at && at < b.end) usage += b.units;
+    }
+    if (usage > peak) peak = usage;
+  }
+  return peak;
+}
+
+function fitsAt(
+  start: number,
+  end: number,
+  demands: ResourceDemand[],
+  bookings: Map<string, Booking[]>,
+  capacities: Record<string, number>,
+): boolean {
+  for (const d of demands) {
+    const booked = bookings.get(d.resourceId);
+    if (!booked) continue;
+    const capacity = capacities[d.resourceId] ?? 0;
+    if (peakUsage(booked, start, end) + d.units > capacity + UNITS_EPSILON) return false;
+  }
+  return true;
+}
+
+/**
+ * Earliest start at or after `from` at which every demand fits. Usage only falls where a
+ * booking ends, so the answer is `from` itself or one of those ends (moved to a day the
+ * activity's own calendar works) — and past the last one everything is free, so there
+ * always is an answer.
+ */
+function earliestFeasibleStart(
+  graph: DependencyGraph,
+  id: string,
+  from: number,
+  dur: number,
+  demands: ResourceDemand[],
+  bookings: Map<string, Booking[]>,
+  capacities: Record<string, number>,
+): number {
+  if (fitsAt(from, activityFinish(graph, id, from, dur), demands, bookings, capacities)) return from;
+  const candidates: number[] = [];
+  for (const d of demands) {
+    for (const b of bookings.get(d.resourceId) ?? []) {
+      if (b.end > from) candidates.push(startOnCalendar(graph, id, b.end));
+    }
+  }
+  candidates.sort((a, b) => a - b);
+  for (const t of candidates) {
+    if (fitsAt(t, activityFinish(graph, id, t, dur), demands, bookings, capacities)) return t;
+  }
+  return candidates[candidates.length - 1] ?? from;
+}
+
+function book(bookings: Map<string, Booking[]>, demands: ResourceDemand[], start: number, end: number): void {
+  for (const d of demands) {
+    const list = bookings.get(d.resourceId);
+    const booking = { start, end, units: d.units };
+    if (list) list.push(booking);
+    else bookings.set(d.resourceId, [booking]);
+  }
+}
+
+/**
+ * Level one set of durations: place every activity in `model.placementOrder`, delaying it
+ * past its network position until its resources are free.
+ *
+ * ⚠️ HOT in Monte Carlo — once per trial. Resources are checked only for activities that
+ * hold one, and zero-duration activities never wait (they hold nothing for any time).
+ */
+export function levelActivities(
+  graph: DependencyGraph,
+  durations: Map<string, number>,
+  model: ResourceLevelingModel,
+  floors: LevelingFloors = {},
+): LeveledPositions {
+  const { demands, capacities, placementOrder } = model;
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  const bookings = new Map<string, Booking[]>();
+  let projectDuration = 0;
+
+  for (const id of placementOrder) {
+    const dur = durations.get(id) ?? 0;
+    const network = placeActivityForward(
+      graph, id, dur, earlyStart, earlyFinish,
+      floors.activityEarliestStart, floors.constraintMap?.get(id),
+    );
+    let es = network.es;
+    let ef = network.ef;
+    const held = demands[id];
+    if (held && dur > 0) {
+      const start = earliestFeasibleStart(graph, id, es, dur, held, bookings, capacities);
+      if (start !== es) {
+        es = start;
+        ef = activityFinish(graph, id, start, dur);
+      }
+      book(bookings, held, es, activityFinish(graph, id, es, dur));
+    }
+    earlyStart.set(id, es);
+    earlyFinish.set(id, ef);
+    if (ef > projectDuration) projectDuration = ef;
+  }
+
+  return { earlyStart, earlyFinish, projectDuration };
+}
+
+// -- Deterministic schedule --------------------------------------------------
+
+export interface LevelScheduleInput {
+  activities: Activity[];
+  dependencies: ActivityDependency[];
+  resources: Resource[] | undefined;
+  startDate: string;
+  calendar?: WorkCalendar | Calendar;
+  /** Each activity's own calendar, from resolveActivityCalendars; absent = none. */
+  activityCalendars?: Map<string, WorkCalendar>;
+}
+
+/**
+ * Level a schedule from `computeDependencySchedule`. Returns the input unchanged when no
+ * activity holds a resource.
+ *
+ * Each activity's unleveled start is its floor — that position already carries its
+ * milestone start, hard constraint and elapsed-lag calendar — and the pass only ever
+ * delays from it. A delayed activity keeps its duration, gets new dates and records the
+ * delay in `levelingDelay`.
+ *
+ * With per-activity calendars the offsets are axis days (activity-calendars.ts): counted
+ * on the union calendar, and converted back to project days for the durations.
+ *
+ * ⚠️ Late dates, float and the dependency/constraint warnings stay those of the UNLEVELED
+ * network. Leveling spends float to remove over-allocation; re-deriving float against a
+ * leveled schedule would report the delay as float lost rather than as what it is.
+ */
+export function levelDependencySchedule(
+  schedule: DeterministicSchedule,
+  input: LevelScheduleInput,
+): DeterministicSchedule {
+  const { activities, dependencies, resources, startDate, calendar, activityCalendars } = input;
+  if (!hasResourceAssignments(activities, resources) || schedule.activities.length === 0) {
+    return schedule;
+  }
+
+  const durations = new Map(schedule.activities.map((sa) => [sa.activityId, sa.duration]));
+  const axisCalendar = scheduleAxisCalendar(calendar, activityCalendars);
+  const lagResolver = hasElapsedLags(dependencies)
+    ? createElapsedLagResolver(buildElapsedLagCalendar(startDate, axisCalendar))
+    : undefined;
+  const calendars = activityCalendars
+    ? createActivityCalendarResolver(buildActivityCalendarAxis(startDate, calendar, activityCalendars))
+    : undefined;
+  const graph = buildDependencyGraph(
+    activities.map((a) => a.id),
+    resolvePercentLags(dependencies, durations),
+    lagResolver,
+    calendars,
+  );
+  const model = buildResourceLevelingModel(activities, graph, resources, durations)!;
+
+  const projectStart = advanceToNextWorkingDay(parseDateISO(startDate), axisCalendar);
+  const floors = new Map(
+    schedule.activities.map((sa) => [
+      sa.activityId,
+      countWorkingDays(projectStart, parseDateISO(sa.startDate), axisCalendar),
+    ]),
+  );
+  const leveled = levelActivities(graph, durations, model, { activityEarliestStart: floors });
+
+  const toProjectDays = (axisDays: number) => (calendars ? calendars.fromAxis(axisDays) : axisDays);
+  let projectEnd = projectStart;
+  const scheduled: ScheduledActivity[] = schedule.activities.map((sa) => {
+    const delay = (leveled.earlyStart.get(sa.activityId) ?? 0) - (floors.get(sa.activityId) ?? 0);
+    let result = sa;
+    if (delay > 0) {
+      const start = addWorkingDays(projectStart, leveled.earlyStart.get(sa.activityId)!, axisCalendar);
+      const own = activityCalendars?.get(sa.activityId) ?? calendar;
+      result = {
+        ...sa,
+        startDate: formatDateISO(start),
+        endDate: formatDateISO(activityEndDate(start, sa.duration, own)),
+        // Reported in the activity's own working days when it has a calendar of its own.
+        levelingDelay: activityCalendars
+          ? countWorkingDays(parseDateISO(sa.startDate), start, own)
+          : delay,
+      };
+    }
+    const end = parseDateISO(result.endDate);
+    if (end > projectEnd) projectEnd = end;
+    return result;
+  });
+
+  return {
+    ...schedule,
+    activities: scheduled,
+    // Same domain as the Monte Carlo trials with no floors: network plus resources.
+    totalDurationDays: toProjectDays(levelActivities(graph, durations, model).projectDuration),
+    spanDays: countWorkingDays(projectStart, projectEnd, calendar) + 1,
+    projectEndDate: formatDateISO(projectEnd),
+  };
+}
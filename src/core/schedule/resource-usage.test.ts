@@ -0,0 +1,63 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, Resource, ScheduledActivity } from "@domain/models/types";
+import { computeResourceUsage } from "./resource-usage";
+
+function activity(id: string, units?: number): Activity {
+  return {
+    id,
+    name: id,
+    min: 2,
+    mostLikely: 2,
+    max: 2,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...(units !== undefined && { resourceAssignments: [{ resourceId: "dev", units }] }),
+  };
+}
+
+function scheduled(activityId: string, startDate: string, endDate: string, duration: number): ScheduledActivity {
+  return { activityId, name: activityId, duration, startDate, endDate, isActual: false };
+}
+
+const pool: Resource[] = [
+  { id: "dev", name: "Developer", capacity: 1 },
+  { id: "qa", name: "QA", capacity: 2 },
+];
+
+describe("computeResourceUsage", () => {
+  it("is empty without a pool", () => {
+    expect(computeResourceUsage([], [], undefined, "2025-01-06")).toEqual([]);
+  });
+
+  it("sums units per working day and counts over-allocated days", () => {
+    // Overlap on Wednesday; Friday 2025-01-10 to Monday 2025-01-13 skips the weekend.
+    const usage = computeResourceUsage(
+      [
+        scheduled("a", "2025-01-06", "2025-01-08", 3),
+        scheduled("b", "2025-01-08", "2025-01-09", 2),
+        scheduled("c", "2025-01-10", "2025-01-13", 2),
+      ],
+      [activity("a", 1), activity("b", 0.5), activity("c", 1)],
+      pool,
+      "2025-01-06",
+    );
+    const dev = usage[0]!;
+    expect(dev.days.map((d) => [d.date, d.units])).toEqual([
+      ["2025-01-06", 1],
+      ["2025-01-07", 1],
+      ["2025-01-08", 1.5],
+      ["2025-01-09", 0.5],
+      ["2025-01-10", 1],
+      ["2025-01-13", 1],
+    ]);
+    expect(dev.peak).toBe(1.5);
+    expect(dev.overallocatedDays).toBe(1);
+    // An idle resource is listed, with no days.
+    expect(usage[1]).toMatchObject({ resourceId: "qa", days: [], peak: 0, overallocatedDays: 0 });
+  });
+});
@@ -0,0 +1,76 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Daily resource usage — the data behind the resource histogram under the Gantt.
+ *
+ * Usage is read off the scheduled dates, so it shows whatever schedule it is given: after
+ * leveling no bar should exceed capacity, and a bar that does points at a demand the
+ * leveling pass could not honour (there is none today, but the chart is the check).
+ */
+
+import type { Activity, Calendar, Resource, ScheduledActivity } from "@domain/models/types";
+import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
+import { addWorkingDays, countWorkingDays, formatDateISO, parseDateISO } from "@core/calendar/calendar";
+import { buildResourceDemands } from "./resource-leveling";
+
+export interface ResourceUsageDay {
+  /** ISO date of the working day. */
+  date: string;
+  units: number;
+}
+
+export interface ResourceUsage {
+  resourceId: string;
+  name: string;
+  capacity: number;
+  /** One entry per working day from the project start to the last day the resource is used. */
+  days: ResourceUsageDay[];
+  peak: number;
+  /** Working days on which usage exceeds capacity. */
+  overallocatedDays: number;
+}
+
+/**
+ * Units in use per working day, per resource in the pool. Resources nobody holds are
+ * included with no days, so the caller can still list them.
+ */
+export function computeResourceUsage(
+  scheduledActivities: ScheduledActivity[],
+  activities: Activity[],
+  resources: Resource[] | undefined,
+  startDate: string,
+  calendar?: WorkCalendar | Calendar,
+): ResourceUsage[] {
+  if (!resources || resources.length === 0) return [];
+  const demands = buildResourceDemands(activities, resources);
+  const projectStart = advanceToNextWorkingDay(parseDateISO(startDate), calendar);
+
+  const usage = new Map<string, number[]>(resources.map((r) => [r.id, []]));
+  for (const sa of scheduledActivities) {
+    const activityDemands = demands[sa.activityId];
+    if (!activityDemands || sa.duration <= 0) continue;
+    const offset = countWorkingDays(projectStart, parseDateISO(sa.startDate), calendar);
+    for (const { resourceId, units } of activityDemands) {
+      const perDay = usage.get(resourceId)!;
+      for (let d = offset; d < offset + sa.duration; d++) {
+        perDay[d] = (perDay[d] ?? 0) + units;
+      }
+    }
+  }
+
+  return resources.map((r) => {
+    const perDay = usage.get(r.id)!;
+    const days: ResourceUsageDay[] = [];
+    let peak = 0;
+    let overallocatedDays = 0;
+    for (let d = 0; d < perDay.length; d++) {
+      const units = perDay[d] ?? 0;
+      days.push({ date: formatDateISO(addWorkingDays(projectStart, d, calendar)), units });
+      if (units > peak) peak = units;
+      if (units > r.capacity + 1e-9) overallocatedDays++;
+    }
+    return { resourceId: r.id, name: r.name, capacity: r.capacity, days, peak, overallocatedDays };
+  });
+}
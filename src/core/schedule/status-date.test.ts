@@ -0,0 +1,162 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity } from "@domain/models/types";
+import { computeDependencySchedule, computeDeterministicSchedule } from "./deterministic";
+import { applyStatusDate, releaseOffsets } from "./status-date";
+
+function fixedActivity(id: string, days: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: days,
+    mostLikely: days,
+    max: days,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+// Mon 2026-01-05 start; status date Wed 2026-01-14.
+const START = "2026-01-05";
+const STATUS = "2026-01-14";
+
+describe("applyStatusDate", () => {
+  it("derives durations from actual dates, counting both ends", () => {
+    const { activities } = applyStatusDate(
+      [
+        fixedActivity("done", 3, {
+          status: "complete",
+          actualStartDate: "2026-01-05",
+          actualFinishDate: "2026-01-12",
+        }),
+        fixedActivity("doing", 5, { status: "inProgress", actualStartDate: "2026-01-13" }),
+      ],
+      STATUS,
+      undefined,
+    );
+    expect(activities.map((a) => a.actualDuration)).toEqual([6, 2]);
+  });
+
+  it("releases started work at its actual start and the rest after the status date", () => {
+    const { releaseDates } = applyStatusDate(
+      [
+        fixedActivity("doing", 5, { status: "inProgress", actualStartDate: "2026-01-13" }),
+        fixedActivity("next", 2),
+        fixedActivity("done", 1, { status: "complete", actualDuration: 1 }),
+      ],
+      STATUS,
+      undefined,
+    );
+    expect(Object.fromEntries(releaseDates!)).toEqual({ doing: "2026-01-13", next: "2026-01-15" });
+  });
+
+  it("floors in-progress work with no actual start at the status date", () => {
+    const { releaseDates } = applyStatusDate(
+      [fixedActivity("doing", 5, { status: "inProgress" }), fixedActivity("next", 2)],
+      STATUS,
+      undefined,
+    );
+    expect(Object.fromEntries(releaseDates!)).toEqual({ doing: STATUS, next: "2026-01-15" });
+  });
+
+  it("floors in-progress work with elapsed days but no actual start where those days began", () => {
+    const { releaseDates } = applyStatusDate(
+      [fixedActivity("doing", 5, { status: "inProgress", actualDuration: 3 })],
+      STATUS,
+      undefined,
+    );
+    // Mon–Wed 2026-01-12..14 are the three elapsed days.
+    expect(releaseDates!.get("doing")).toBe("2026-01-12");
+  });
+
+  it("returns the input array and no releases when there is nothing to apply", () => {
+    const activities = [fixedActivity("a", 2), fixedActivity("b", 1, { status: "inProgress", actualDuration: 1 })];
+    const progress = applyStatusDate(activities, undefined, undefined);
+    expect(progress.activities).toBe(activities);
+    expect(progress.releaseDates).toBeUndefined();
+  });
+
+  it("needs a status date on or after the actual start to count elapsed time", () => {
+    const doing = fixedActivity("doing", 5, { status: "inProgress", actualStartDate: "2026-01-20" });
+    expect(applyStatusDate([doing], STATUS, undefined).activities[0]!.actualDuration).toBeUndefined();
+    expect(applyStatusDate([doing], undefined, undefined).releaseDates?.get("doing")).toBe("2026-01-20");
+  });
+});
+
+describe("releaseOffsets", () => {
+  it("counts working days from the project start and skips dates before it", () => {
+    const offsets = releaseOffsets(
+      new Map([["a", "2026-01-15"], ["b", "2026-01-10"], ["c", "2026-01-01"]]),
+      START,
+      undefined,
+    );
+    // Sat 2026-01-10 snaps to Mon 2026-01-12.
+    expect(offsets).toEqual({ a: 8, b: 5 });
+  });
+});
+
+describe("scheduling with a status date", () => {
+  const activities = [
+    fixedActivity("done", 3, {
+      status: "complete",
+      actualStartDate: "2026-01-05",
+      actualFinishDate: "2026-01-08",
+    }),
+    fixedActivity("doing", 5, {
+      status: "inProgress",
+      actualStartDate: "2026-01-12",
+      remainingEstimate: { min: 2, mostLikely: 2, max: 2 },
+    }),
+    fixedActivity("next", 2),
+  ];
+
+  it("sequential: keeps actuals and moves unstarted work past the status date", () => {
+    const schedule = computeDeterministicSchedule(activities, START, 0.5, undefined, undefined, STATUS);
+    const dates = schedule.activities.map((a) => [a.activityId, a.startDate, a.endDate, a.duration]);
+    expect(dates).toEqual([
+      ["done", "2026-01-05", "2026-01-08", 4],
+      // 3 elapsed days (Mon–Wed) + 2 remaining.
+      ["doing", "2026-01-12", "2026-01-16", 5],
+      ["next", "2026-01-19", "2026-01-20", 2],
+    ]);
+  });
+
+  it("sequential: an unstarted activity waits for the status date even with no predecessor work left", () => {
+    const schedule = computeDeterministicSchedule([fixedActivity("next", 2)], START, 0.5, undefined, undefined, STATUS);
+    expect(schedule.activities[0]!.startDate).toBe("2026-01-15");
+    expect(schedule.spanDays).toBe(10);
+  });
+
+  it("dependency: floors parallel work at the day after the status date", () => {
+    const schedule = computeDependencySchedule(
+      activities, [], START, 0.5, undefined, undefined, undefined, STATUS,
+    );
+    const starts = Object.fromEntries(schedule.activities.map((a) => [a.activityId, a.startDate]));
+    expect(starts).toEqual({ done: "2026-01-05", doing: "2026-01-12", next: "2026-01-15" });
+  });
+
+  it("schedules the elapsed days of work with no actual start once, ending on the status date", () => {
+    const statusDate = "2026-01-09";
+    const elapsed = fixedActivity("doing", 6, { status: "inProgress", actualDuration: 4 });
+    const withStart = { ...elapsed, actualStartDate: "2026-01-06" };
+    const end = (activity: Activity) =>
+      computeDependencySchedule([activity], [], START, 0.5, undefined, undefined, undefined, statusDate)
+        .activities[0]!.endDate;
+    expect(end(elapsed)).toBe("2026-01-13");
+    expect(end(elapsed)).toBe(end(withStart));
+    expect(
+      computeDeterministicSchedule([elapsed], START, 0.5, undefined, undefined, statusDate).activities[0]!.endDate,
+    ).toBe("2026-01-13");
+  });
+
+  it("changes nothing without a status date or actual dates", () => {
+    const plain = [fixedActivity("a", 2), fixedActivity("b", 3)];
+    expect(computeDeterministicSchedule(plain, START, 0.5, undefined, undefined, undefined))
+      .toEqual(computeDeterministicSchedule(plain, START, 0.5));
+  });
+});
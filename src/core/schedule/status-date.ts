@@ -0,0 +1,162 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Status date (data date) — progress "as of" a day.
+ *
+ * The status date says progress is reported THROUGH that day: whatever has not been done
+ * by then is done from the next working day on. Two things follow, and this module
+ * derives both from the scenario so the engines stay free of date bookkeeping:
+ *
+ *   - Actual dates become `actualDuration`. A complete activity with both actual dates
+ *     lasted the working days between them, inclusive; an in-progress activity with an
+ *     actual start has run the working days from it through the status date, inclusive.
+ *     From there the existing seams take over — the deterministic elapsed+1 floor and the
+ *     conditional (X | X > t) draw in `truncated.ts`, or `t + remaining` when the activity
+ *     carries a remaining estimate.
+ *   - Release dates floor each activity's start. A started activity cannot start before
+ *     its actual start — or, with no actual start recorded, before the day its elapsed
+ *     `actualDuration` would have begun to end on the status date; work not yet started
+ *     cannot start before the day after the status date. Both schedulers apply them as
+ *     floors, like `startsAtMilestoneId`, and the Monte Carlo trials receive them as
+ *     earliest-start offsets.
+ *
+ * ⚠️ Floors, not pins. A started activity whose logic would put it later than its actual
+ * start (progress out of sequence) is shown at the later, logic-driven date, and the
+ * deterministic schedule and the trials agree on that because both apply the same floor.
+ * Pinning instead would need a retained-logic/progress-override choice this scheduler
+ * does not offer.
+ *
+ * Without a status date, actual dates still count: a complete activity's dates still give
+ * its duration and an actual start still floors. Only the elapsed time of in-progress work
+ * and the "not before the status date" release need one.
+ */
+
+import type { Activity, Calendar } from "@domain/models/types";
+import {
+  advanceToNextWorkingDay,
+  retreatToPreviousWorkingDay,
+  type WorkCalendar,
+} from "@core/calendar/work-calendar";
+import {
+  activityStartDate,
+  addCalendarDays,
+  countWorkingDays,
+  formatDateISO,
+  parseDateISO,
+} from "@core/calendar/calendar";
+
+type Cal = WorkCalendar | Calendar | undefined;
+
+export interface StatusDateProgress {
+  /** Activities with `actualDuration` derived from their actual dates; the input array when none changed. */
+  activities: Activity[];
+  /** Earliest start (ISO) per activity id; undefined when no activity has one. */
+  releaseDates: Map<string, string> | undefined;
+}
+
+/** Working days from `fromISO` through `toISO`, both inclusive. */
+function inclusiveWorkingDays(fromISO: string, toISO: string, calendar: Cal): number {
+  return countWorkingDays(parseDateISO(fromISO), addCalendarDays(parseDateISO(toISO), 1), calendar);
+}
+
+/** The duration the activity's actual dates imply, or undefined when they imply none. */
+function derivedActualDuration(
+  activity: Activity,
+  statusDate: string | undefined,
+  calendar: Cal,
+): number | undefined {
+  const start = activity.actualStartDate;
+  if (!start) return undefined;
+  if (activity.status === "complete" && activity.actualFinishDate) {
+    return inclusiveWorkingDays(start, activity.actualFinishDate, calendar);
+  }
+  if (activity.status === "inProgress" && statusDate && statusDate >= start) {
+    return inclusiveWorkingDays(start, statusDate, calendar);
+  }
+  return undefined;
+}
+
+/**
+ * Where in-progress work with no actual start recorded began at the latest: far enough
+ * before the status date for its elapsed days to end on it. The engines schedule the
+ * elapsed days as part of the duration, so flooring at the status date itself would
+ * schedule them a second time.
+ */
+function elapsedStart(statusDate: string, elapsed: number | undefined, calendar: Cal): string {
+  if (!elapsed || elapsed <= 1) return statusDate;
+  const through = retreatToPreviousWorkingDay(parseDateISO(statusDate), calendar);
+  return formatDateISO(activityStartDate(through, Math.ceil(elapsed), calendar));
+}
+
+/**
+ * Apply the status date and actual dates to a scenario's activities.
+ *
+ * `calendarOf` gives an activity its own calendar (dependency mode, activity-calendars.ts);
+ * its elapsed days are counted on that calendar, as its duration is.
+ */
+export function applyStatusDate(
+  activities: Activity[],
+  statusDate: string | undefined,
+  calendar: Cal,
+  calendarOf?: (activityId: string) => Cal,
+): StatusDateProgress {
+  const releaseDates = new Map<string, string>();
+  // Unstarted work can start the day after the status date at the earliest; the engines
+  // move that onto a working day of each activity's own calendar.
+  const nextDay = statusDate
+    ? formatDateISO(addCalendarDays(parseDateISO(statusDate), 1))
+    : undefined;
+  let changed = false;
+  const progressed = activities.map((activity) => {
+    const own = calendarOf ? calendarOf(activity.id) : calendar;
+    if (activity.actualStartDate && activity.status !== "planned") {
+      releaseDates.set(activity.id, activity.actualStartDate);
+    } else if (statusDate && activity.status === "inProgress") {
+      // Started, but nobody recorded when: it is under way by the status date at the latest.
+      releaseDates.set(activity.id, elapsedStart(statusDate, activity.actualDuration, own));
+    } else if (nextDay && activity.status === "planned") {
+      releaseDates.set(activity.id, nextDay);
+    }
+    const actualDuration = derivedActualDuration(activity, statusDate, own);
+    if (actualDuration === undefined || actualDuration === activity.actualDuration) return activity;
+    changed = true;
+    return { ...activity, actualDuration };
+  });
+  return {
+    activities: changed ? progressed : activities,
+    releaseDates: releaseDates.size > 0 ? releaseDates : undefined,
+  };
+}
+
+/**
+ * Release dates as working-day offsets from the project start, for the Monte Carlo
+ * trials — the same shape and calendar as the `startsAtMilestoneId` offsets
+ * (milestone-sim-params.ts). Dates before the project start floor nothing and are left out.
+ */
+export function releaseOffsets(
+  releaseDates: Map<string, string>,
+  startDate: string,
+  calendar: Cal,
+): Record<string, number> {
+  const projStart = advanceToNextWorkingDay(parseDateISO(startDate), calendar);
+  const offsets: Record<string, number> = {};
+  for (const [id, iso] of releaseDates) {
+    const release = advanceToNextWorkingDay(parseDateISO(iso), calendar);
+    if (release > projStart) offsets[id] = countWorkingDays(projStart, release, calendar);
+  }
+  return offsets;
+}
+
+/** The later of a start and the activity's release date, if it has one. */
+export function applyReleaseFloor(
+  activityId: string,
+  activityStart: Date,
+  releaseDates: Map<string, string> | undefined,
+): Date {
+  const release = releaseDates?.get(activityId);
+  if (!release) return activityStart;
+  const releaseDate = parseDateISO(release);
+  return releaseDate > activityStart ? releaseDate : activityStart;
+}
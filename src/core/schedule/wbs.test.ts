@@ -0,0 +1,127 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import type { Activity, WbsSummary } from "@domain/models/types";
+import { computeDeterministicSchedule } from "./deterministic";
+import {
+  attachSummaryRollups,
+  buildWbsOutline,
+  collectSummaryActivityIds,
+  isWithinSummary,
+  summaryForecastFinishDates,
+  visibleWbsOutline,
+} from "./wbs";
+
+function fixedActivity(id: string, days: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: days,
+    mostLikely: days,
+    max: days,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "normal",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function summary(id: string, parentId?: string, collapsed?: boolean): WbsSummary {
+  return { id, name: id, parentId, collapsed };
+}
+
+/** Phase 1 (Design → a1, a3 direct), Phase 2 (a2), a4 at the top, one empty summary. */
+const summaries = [summary("p1"), summary("design", "p1"), summary("p2"), summary("empty")];
+const activities = [
+  fixedActivity("a1", 3, { summaryId: "design" }),
+  fixedActivity("a2", 2, { summaryId: "p2" }),
+  fixedActivity("a3", 2, { summaryId: "p1" }),
+  fixedActivity("a4", 1),
+];
+
+const codes = (outline: ReturnType<typeof buildWbsOutline>) =>
+  outline.map((item) => `${item.code} ${item.kind === "summary" ? item.summary.id : item.activity.id}`);
+
+describe("buildWbsOutline", () => {
+  it("nests by parent links, orders by first activity and codes by position", () => {
+    const outline = buildWbsOutline(activities, summaries);
+    expect(codes(outline)).toEqual([
+      "1 p1", "1.1 design", "1.1.1 a1", "1.2 a3", "2 p2", "2.1 a2", "3 a4", "4 empty",
+    ]);
+    expect(outline.map((item) => item.depth)).toEqual([0, 1, 2, 1, 0, 1, 0, 0]);
+  });
+
+  it("codes a flat list 1..n with no summaries", () => {
+    expect(codes(buildWbsOutline(activities.slice(0, 2), []))).toEqual(["1 a1", "2 a2"]);
+  });
+
+  it("follows the activity order when activities move", () => {
+    const reordered = [activities[1]!, activities[0]!, activities[2]!, activities[3]!];
+    expect(codes(buildWbsOutline(reordered, summaries)).slice(0, 2)).toEqual(["1 p2", "1.1 a2"]);
+  });
+
+  it("puts dangling links and parent loops at the top level without losing nodes", () => {
+    const broken = [summary("w1", "w2"), summary("w2", "w1"), summary("w3", "w1"), summary("w4", "gone")];
+    const outline = buildWbsOutline([fixedActivity("a", 1, { summaryId: "gone" })], broken);
+    expect(codes(outline)).toEqual(["1 a", "2 w1", "2.1 w3", "3 w2", "4 w4"]);
+  });
+});
+
+describe("visibleWbsOutline", () => {
+  it("hides everything beneath a collapsed summary but keeps the summary", () => {
+    const collapsed = summaries.map((s) => (s.id === "p1" ? { ...s, collapsed: true } : s));
+    const visible = visibleWbsOutline(buildWbsOutline(activities, collapsed));
+    expect(codes(visible)).toEqual(["1 p1", "2 p2", "2.1 a2", "3 a4", "4 empty"]);
+  });
+});
+
+describe("collectSummaryActivityIds", () => {
+  it("lists every activity beneath each summary and omits empty ones", () => {
+    const groups = collectSummaryActivityIds(activities, summaries);
+    expect(Object.fromEntries(groups)).toEqual({
+      p1: ["a1", "a3"],
+      design: ["a1"],
+      p2: ["a2"],
+    });
+  });
+});
+
+describe("isWithinSummary", () => {
+  it("is true for the summary itself and its descendants only", () => {
+    expect(isWithinSummary(summaries, "p1", "p1")).toBe(true);
+    expect(isWithinSummary(summaries, "design", "p1")).toBe(true);
+    expect(isWithinSummary(summaries, "p1", "design")).toBe(false);
+    expect(isWithinSummary(summaries, "p2", "p1")).toBe(false);
+  });
+});
+
+describe("summary roll-ups", () => {
+  it("rolls start, finish and span up through every level", () => {
+    // Mon 2026-01-05: a1 Mon–Wed, a2 Thu–Fri, a3 Mon–Tue, a4 Wed.
+    const schedule = computeDeterministicSchedule(activities, "2026-01-05", 0.5, undefined, summaries);
+    expect(schedule.summaries).toEqual([
+      { summaryId: "p1", name: "p1", startDate: "2026-01-05", endDate: "2026-01-13", duration: 7 },
+      { summaryId: "design", name: "design", startDate: "2026-01-05", endDate: "2026-01-07", duration: 3 },
+      { summaryId: "p2", name: "p2", startDate: "2026-01-08", endDate: "2026-01-09", duration: 2 },
+    ]);
+  });
+
+  it("returns the schedule itself when there is nothing to roll up", () => {
+    const schedule = computeDeterministicSchedule(activities, "2026-01-05", 0.5);
+    expect(schedule.summaries).toBeUndefined();
+    expect(attachSummaryRollups(schedule, activities, [])).toBe(schedule);
+    expect(attachSummaryRollups(schedule, activities, [summary("empty")])).toBe(schedule);
+  });
+});
+
+describe("summaryForecastFinishDates", () => {
+  it("turns the target percentile into a working-day finish date", () => {
+    const stats = (p95: number) => ({ percentiles: { 50: 1, 95: p95 }, mean: 1, standardDeviation: 0 });
+    const dates = summaryForecastFinishDates({ p1: stats(7), p2: stats(3) }, "2026-01-05", 0.95);
+    expect(Object.fromEntries(dates)).toEqual({ p1: "2026-01-13", p2: "2026-01-07" });
+    expect(summaryForecastFinishDates({ p1: stats(7) }, "2026-01-05", 0.8).size).toBe(0);
+    expect(summaryForecastFinishDates(undefined, "2026-01-05", 0.95).size).toBe(0);
+  });
+});
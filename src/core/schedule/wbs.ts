@@ -0,0 +1,275 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * Work breakdown structure — summaries nested to any depth over the activity list.
+ *
+ * The tree is stored as parent links only (`WbsSummary.parentId`, `Activity.summaryId`);
+ * its ORDER is not stored. Within each parent, children sort by the earliest activity
+ * beneath them in the scenario's activity order, so the outline reads in the same order
+ * as the flat list and dragging activities reorders the WBS with them. A summary with
+ * nothing beneath it sorts after its populated siblings, in `summaries` order. WBS codes
+ * (1, 1.1, 1.1.2) are positions in that order.
+ *
+ * A summary has no estimate of its own. Its dates roll up from the finished schedule
+ * ({@link attachSummaryRollups}) and its finish distribution from the Monte Carlo trials,
+ * which record it like a milestone ({@link collectSummaryActivityIds}).
+ *
+ * ⚠️ Links are repaired, never trusted: a parent or summary id that no longer exists, or
+ * a parent chain that loops back on itself, puts the node at the top level rather than
+ * dropping it from the outline.
+ */
+
+import type {
+  Activity,
+  Calendar,
+  DeterministicSchedule,
+  ScheduledActivity,
+  ScheduledSummary,
+  SimulationRun,
+  WbsSummary,
+} from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { countWorkingDays, durationToFinishDateISO, parseDateISO } from "@core/calendar/calendar";
+
+export type WbsOutlineItem =
+  | { kind: "summary"; summary: WbsSummary; code: string; depth: number }
+  | { kind: "activity"; activity: Activity; code: string; depth: number };
+
+type WbsChild =
+  | { kind: "summary"; summary: WbsSummary }
+  | { kind: "activity"; activity: Activity };
+
+/** True when following `parentOf` from `id` comes back to `id`. */
+function isInCycle(id: string, parentOf: Map<string, string | undefined>): boolean {
+  const seen = new Set<string>();
+  let current = parentOf.get(id);
+  while (current !== undefined && !seen.has(current)) {
+    if (current === id) return true;
+    seen.add(current);
+    current = parentOf.get(current);
+  }
+  return false;
+}
+
+/**
+ * Each summary's effective parent: its `parentId` when that summary exists and the chain
+ * does not loop, otherwise undefined (top level). Every member of a loop goes to the top
+ * level; summaries hanging beneath a loop keep their parent.
+ */
+function resolveSummaryParents(summaries: WbsSummary[]): Map<string, string | undefined> {
+  const ids = new Set(summaries.map((s) => s.id));
+  const parentOf = new Map<string, string | undefined>();
+  for (const s of summaries) {
+    parentOf.set(s.id, s.parentId !== undefined && ids.has(s.parentId) ? s.parentId : undefined);
+  }
+  const cyclic = summaries.filter((s) => isInCycle(s.id, parentOf));
+  for (const s of cyclic) parentOf.set(s.id, undefined);
+  return parentOf;
+}
+
+/** The summary an activity effectively sits under, or undefined for the top level. */
+function activityParent(
+  activity: Activity,
+  parentOf: Map<string, string | undefined>,
+): string | undefined {
+  return activity.summaryId !== undefined && parentOf.has(activity.summaryId)
+    ? activity.summaryId
+    : undefined;
+}
+
+/** Children of every node, keyed by summary id (`undefined` = top level), in display order. */
+function buildChildren(
+  activities: Activity[],
+  summaries: WbsSummary[],
+): Map<string | undefined, WbsChild[]> {
+  const parentOf = resolveSummaryParents(summaries);
+  const children = new Map<string | undefined, WbsChild[]>();
+  const push = (parent: string | undefined, child: WbsChild) => {
+    const list = children.get(parent);
+    if (list) list.push(child);
+    else children.set(parent, [child]);
+  };
+  for (const summary of summaries) push(parentOf.get(summary.id), { kind: "summary", summary });
+  for (const activity of activities) push(activityParent(activity, parentOf), { kind: "activity", activity });
+
+  // Sort key: an activity's index, or the smallest index beneath a summary (Infinity
+  // when empty). Only empty summaries can tie, and the stable sort keeps them in
+  // `summaries` order.
+  const activityIndex = new Map(activities.map((a, i) => [a.id, i]));
+  const firstIndex = new Map<string, number>();
+  const keyOf = (child: WbsChild): number => {
+    if (child.kind === "activity") return activityIndex.get(child.activity.id)!;
+    const cached = firstIndex.get(child.summary.id);
+    if (cached !== undefined) return cached;
+    let min = Infinity;
+    for (const grandchild of children.get(child.summary.id) ?? []) {
+      min = Math.min(min, keyOf(grandchild));
+    }
+    firstIndex.set(child.summary.id, min);
+    return min;
+  };
+  for (const list of children.values()) list.sort((a, b) => keyOf(a) - keyOf(b));
+  return children;
+}
+
+/**
+ * The whole WBS flattened in display order, each node with its code and nesting depth
+ * (0 = top level). With no summaries this is the activity list itself, coded 1..n.
+ */
+export function buildWbsOutline(activities: Activity[], summaries: WbsSummary[]): WbsOutlineItem[] {
+  const children = buildChildren(activities, summaries);
+  const outline: WbsOutlineItem[] = [];
+  const visit = (parent: string | undefined, prefix: string, depth: number) => {
+    (children.get(parent) ?? []).forEach((child, i) => {
+      const code = `${prefix}${i + 1}`;
+      if (child.kind === "activity") {
+        outline.push({ kind: "activity", activity: child.activity, code, depth });
+        return;
+      }
+      outline.push({ kind: "summary", summary: child.summary, code, depth });
+      visit(child.summary.id, `${code}.`, depth + 1);
+    });
+  };
+  visit(undefined, "", 0);
+  return outline;
+}
+
+/**
+ * The outline with everything beneath a collapsed summary removed. The collapsed
+ * summary itself stays, so its roll-up still shows.
+ */
+export function visibleWbsOutline(outline: WbsOutlineItem[]): WbsOutlineItem[] {
+  const visible: WbsOutlineItem[] = [];
+  let hiddenBelowDepth: number | null = null;
+  for (const item of outline) {
+    if (hiddenBelowDepth !== null && item.depth > hiddenBelowDepth) continue;
+    hiddenBelowDepth = null;
+    visible.push(item);
+    if (item.kind === "summary" && item.summary.collapsed) hiddenBelowDepth = item.depth;
+  }
+  return visible;
+}
+
+/**
+ * Map of summaryId → every activity beneath it, at any depth. Summaries with no
+ * activities are omitted, the same as milestones with none assigned
+ * (milestone-sim-params.ts).
+ */
+export function collectSummaryActivityIds(
+  activities: Activity[],
+  summaries: WbsSummary[],
+): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  const open: string[] = [];
+  for (const item of buildWbsOutline(activities, summaries)) {
+    open.length = item.depth;
+    if (item.kind === "summary") {
+      open.push(item.summary.id);
+      continue;
+    }
+    for (const summaryId of open) {
+      const list = map.get(summaryId);
+      if (list) list.push(item.activity.id);
+      else map.set(summaryId, [item.activity.id]);
+    }
+  }
+  return map;
+}
+
+/**
+ * True when `candidateId` is `ancestorId` or sits anywhere beneath it — the move that
+ * would make a summary its own ancestor.
+ */
+export function isWithinSummary(
+  summaries: WbsSummary[],
+  candidateId: string,
+  ancestorId: string,
+): boolean {
+  const parentOf = resolveSummaryParents(summaries);
+  const seen = new Set<string>();
+  let current: string | undefined = candidateId;
+  while (current !== undefined && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = parentOf.get(current);
+  }
+  return false;
+}
+
+/**
+ * Roll each summary's dates up from the scheduled activities beneath it: earliest start,
+ * latest finish, and the working days between them inclusive. Summaries with nothing
+ * scheduled beneath them are left out. Display order.
+ */
+export function rollUpSummaries(
+  scheduled: ScheduledActivity[],
+  activities: Activity[],
+  summaries: WbsSummary[],
+  calendar?: WorkCalendar | Calendar,
+): ScheduledSummary[] {
+  const byId = new Map(scheduled.map((sa) => [sa.activityId, sa]));
+  const summaryById = new Map(summaries.map((s) => [s.id, s]));
+  const rollups: ScheduledSummary[] = [];
+  for (const [summaryId, activityIds] of collectSummaryActivityIds(activities, summaries)) {
+    let startDate: string | null = null;
+    let endDate: string | null = null;
+    for (const id of activityIds) {
+      const sa = byId.get(id);
+      if (!sa) continue;
+      // ISO dates compare correctly as strings.
+      if (startDate === null || sa.startDate < startDate) startDate = sa.startDate;
+      if (endDate === null || sa.endDate > endDate) endDate = sa.endDate;
+    }
+    if (startDate === null || endDate === null) continue;
+    rollups.push({
+      summaryId,
+      name: summaryById.get(summaryId)!.name,
+      startDate,
+      endDate,
+      duration: countWorkingDays(parseDateISO(startDate), parseDateISO(endDate), calendar) + 1,
+    });
+  }
+  return rollups;
+}
+
+/**
+ * The schedule with its summary roll-ups attached. Returns the same object when there is
+ * nothing to roll up, so a memo keyed on it does not invalidate for a flat list.
+ *
+ * Runs on the FINISHED schedule — after leveling, in dependency mode — so the roll-up
+ * always spans the dates the grid and Gantt actually show.
+ */
+export function attachSummaryRollups(
+  schedule: DeterministicSchedule,
+  activities: Activity[],
+  summaries: WbsSummary[] | undefined,
+  calendar?: WorkCalendar | Calendar,
+): DeterministicSchedule {
+  if (!summaries || summaries.length === 0) return schedule;
+  const rollups = rollUpSummaries(schedule.activities, activities, summaries, calendar);
+  return rollups.length > 0 ? { ...schedule, summaries: rollups } : schedule;
+}
+
+/**
+ * Each summary's finish date at `probabilityTarget`, from its Monte Carlo finish
+ * percentiles. Like milestones, those are working days from the scenario start, so the
+ * date comes out of the same calendar walk as the project finish. Summaries without
+ * results (empty, or simulated before they existed) are left out.
+ */
+export function summaryForecastFinishDates(
+  summaryResults: SimulationRun["summaryResults"],
+  startDate: string,
+  probabilityTarget: number,
+  calendar?: WorkCalendar | Calendar,
+): Map<string, string> {
+  const dates = new Map<string, string>();
+  const pctKey = Math.round(probabilityTarget * 100);
+  for (const [summaryId, stats] of Object.entries(summaryResults ?? {})) {
+    const days = stats.percentiles[pctKey];
+    const finish = days === undefined ? null : durationToFinishDateISO(startDate, days, calendar);
+    if (finish) dates.set(summaryId, finish);
+  }
+  return dates;
+}
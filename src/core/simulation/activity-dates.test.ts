@@ -0,0 +1,121 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { computeActivityDateForecasts, createActivityDateRecorder } from "./activity-dates";
+import { runDependencyTrials, runMonteCarloSimulation } from "./monte-carlo";
+import type { Activity, ActivityDependency } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 15,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays: 0 };
+}
+
+describe("createActivityDateRecorder", () => {
+  it("reports P50/P80/P95 of each activity's starts and finishes", () => {
+    const recorder = createActivityDateRecorder([makeActivity("a")], 5)!;
+    [0, 1, 2, 3, 4].forEach((t) => recorder.set(t, 0, t, t + 10));
+    const { start, finish } = recorder.results()!.a!;
+    expect(start[50]).toBe(2);
+    expect(start[80]).toBeCloseTo(3.2, 10);
+    expect(start[95]).toBeCloseTo(3.8, 10);
+    expect(finish[50]).toBe(12);
+    expect(finish[95]).toBeCloseTo(13.8, 10);
+  });
+
+  it("leaves out completed work, skipped trials, and trials past the sample", () => {
+    const done = makeActivity("done", { status: "complete", actualDuration: 4 });
+    const recorder = createActivityDateRecorder([done, makeActivity("a")], 3)!;
+    recorder.set(0, 0, 0, 4);
+    recorder.set(0, 1, 4, 9);
+    recorder.set(1, 1, Number.NaN, Number.NaN);
+    recorder.set(2, 1, 4, 11);
+    recorder.set(3, 1, 100, 200);
+    const results = recorder.results()!;
+    expect(Object.keys(results)).toEqual(["a"]);
+    expect(results.a!.finish[50]).toBe(10);
+  });
+
+  it("is null when every activity is complete", () => {
+    const done = makeActivity("done", { status: "complete", actualDuration: 4 });
+    expect(createActivityDateRecorder([done], 10)).toBeNull();
+  });
+});
+
+describe("activity dates in the trials", () => {
+  it("sequential: each activity starts where the one before it finishes", () => {
+    const result = runMonteCarloSimulation({
+      activities: [makeActivity("a"), makeActivity("b")],
+      trialCount: 2000,
+      rngSeed: "activity-dates-seq",
+    });
+    const { a, b } = result.activityDates!;
+    expect(a!.start).toEqual({ 50: 0, 80: 0, 95: 0 });
+    expect(b!.start[80]).toBeCloseTo(a!.finish[80]!, 4);
+    // The last activity's finish IS the project duration.
+    expect(b!.finish[80]).toBeCloseTo(result.percentiles[80]!, 4);
+  });
+
+  it("sequential: a hard start constraint holds the start, completed work shifts it", () => {
+    const result = runMonteCarloSimulation({
+      activities: [makeActivity("done", { status: "complete", actualDuration: 3 }), makeActivity("a"), makeActivity("b")],
+      trialCount: 500,
+      rngSeed: "activity-dates-snet",
+      sequentialConstraints: [null, null, { type: "SNET", offsetFromStart: 30, mode: "hard" }],
+    });
+    const { a, b } = result.activityDates!;
+    expect(a!.start[50]).toBe(3);
+    expect(b!.start).toEqual({ 50: 30, 80: 30, 95: 30 });
+    expect("done" in result.activityDates!).toBe(false);
+  });
+
+  it("dependency: a merge point starts at the later of its predecessors' finishes", () => {
+    const result = runDependencyTrials({
+      activities: [makeActivity("a"), makeActivity("b"), makeActivity("m")],
+      dependencies: [fsDep("a", "m"), fsDep("b", "m")],
+      trialCount: 2000,
+      rngSeed: "activity-dates-dep",
+    });
+    const { a, b, m } = result.activityDates!;
+    expect(a!.start[95]).toBe(0);
+    expect(m!.start[50]).toBeGreaterThan(Math.max(a!.finish[50]!, b!.finish[50]!));
+    expect(m!.start[50]).toBeCloseTo(result.mergePoints!.m!.p50Start, 4);
+  });
+});
+
+describe("computeActivityDateForecasts", () => {
+  it("turns start and finish offsets into working dates", () => {
+    // 2025-01-06 is a Monday.
+    const forecasts = computeActivityDateForecasts(
+      {
+        a: { start: { 50: 0, 80: 2.4, 95: 5 }, finish: { 50: 5, 80: 7.6, 95: 9 } },
+        kickoff: { start: { 50: 0, 80: 0, 95: 0 }, finish: { 50: 0, 80: 0, 95: 0 } },
+      },
+      "2025-01-06",
+    );
+    expect(forecasts.get("a")).toEqual({
+      start: { 50: "2025-01-06", 80: "2025-01-08", 95: "2025-01-13" },
+      finish: { 50: "2025-01-10", 80: "2025-01-15", 95: "2025-01-16" },
+    });
+    // A zero-length activity at the very start finishes on the day it starts.
+    expect(forecasts.get("kickoff")!.finish[95]).toBe("2025-01-06");
+  });
+
+  it("is empty without results", () => {
+    expect(computeActivityDateForecasts(undefined, "2025-01-06").size).toBe(0);
+  });
+});
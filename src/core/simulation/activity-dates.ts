@@ -0,0 +1,181 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, ActivityDateResult, Calendar } from "@domain/models/types";
+import { ACTIVITY_DATE_PERCENTILES } from "@domain/models/types";
+import { percentile } from "@core/analytics/analytics";
+import { placeActivityForward, type DependencyGraph } from "@core/schedule/dependency-graph";
+import {
+  levelActivities,
+  type LevelingFloors,
+  type ResourceLevelingModel,
+} from "@core/schedule/resource-leveling";
+import type { ActivityCalendarResolver } from "@core/schedule/activity-calendars";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { durationToFinishDateISO } from "@core/calendar/calendar";
+
+/**
+ * Per-activity start and finish percentiles.
+ *
+ * The run's project and milestone percentiles say when groups of work end, not when one
+ * activity starts or finishes — and a handoff date promised to a subcontractor is exactly
+ * that. Each trial's start and finish of every not-yet-complete activity is kept for the
+ * first ACTIVITY_DATE_SAMPLE_TRIALS trials, and the run reports their P50/P80/P95.
+ *
+ * Completed activities are left out for the criticality index's reason: their dates are
+ * history, not a forecast.
+ */
+
+/**
+ * Trials whose dates are kept. Two numbers per activity per trial is the largest series
+ * the run holds, so it is capped like the sensitivity sample; 5,000 trials put the P95
+ * within a fraction of a day for any realistic spread.
+ */
+export const ACTIVITY_DATE_SAMPLE_TRIALS = 5000;
+
+export interface ActivityDateRecorder {
+  /** Trials recorded — the first `sampleTrials` of the run; `set` ignores later ones. */
+  readonly sampleTrials: number;
+  /**
+   * Record the activity at `index` in the activity list. A trial that skipped it
+   * (branching.ts) records NaN for both; completed activities are ignored.
+   */
+  set(trial: number, index: number, start: number, finish: number): void;
+  /** Per-activity percentiles, converted from axis days when the run had activity calendars. */
+  results(calendars?: ActivityCalendarResolver): Record<string, ActivityDateResult> | undefined;
+}
+
+/** Build the recorder, or null when every activity is complete. */
+export function createActivityDateRecorder(
+  activities: Activity[],
+  trialCount: number,
+): ActivityDateRecorder | null {
+  const sampleTrials = Math.min(trialCount, ACTIVITY_DATE_SAMPLE_TRIALS);
+  // activity index → row in the series, −1 for completed work.
+  const rows = new Int32Array(activities.length).fill(-1);
+  const trackedIds: string[] = [];
+  activities.forEach((a, i) => {
+    if (a.status === "complete" && a.actualDuration != null) return;
+    rows[i] = trackedIds.length;
+    trackedIds.push(a.id);
+  });
+  if (trackedIds.length === 0) return null;
+
+  // Float32 halves the footprint; offsets are days, and a ten-thousandth of one is noise.
+  const starts = new Float32Array(sampleTrials * trackedIds.length);
+  const finishes = new Float32Array(sampleTrials * trackedIds.length);
+
+  return {
+    sampleTrials,
+    set(trial, index, start, finish) {
+      const row = rows[index]!;
+      if (trial >= sampleTrials || row < 0) return;
+      starts[row * sampleTrials + trial] = start;
+      finishes[row * sampleTrials + trial] = finish;
+    },
+    results(calendars) {
+      const results: Record<string, ActivityDateResult> = {};
+      trackedIds.forEach((id, row) => {
+        const offset = row * sampleTrials;
+        const start = percentilesOf(starts.subarray(offset, offset + sampleTrials), calendars);
+        const finish = percentilesOf(finishes.subarray(offset, offset + sampleTrials), calendars);
+        if (start && finish) results[id] = { start, finish };
+      });
+      return Object.keys(results).length > 0 ? results : undefined;
+    },
+  };
+}
+
+/** P50/P80/P95 of the trials that ran the activity, or undefined when none did. */
+function percentilesOf(
+  series: Float32Array,
+  calendars: ActivityCalendarResolver | undefined,
+): Record<number, number> | undefined {
+  const ran = Float64Array.from(series.filter((v) => !Number.isNaN(v)));
+  if (ran.length === 0) return undefined;
+  if (calendars) {
+    for (let i = 0; i < ran.length; i++) ran[i] = calendars.fromAxis(ran[i]!);
+  }
+  ran.sort();
+  return Object.fromEntries(ACTIVITY_DATE_PERCENTILES.map((p) => [p, percentile(ran, p / 100)]));
+}
+
+/**
+ * The dependency-mode placement step: position this trial's durations the way the trial
+ * recorder did — leveled around resources when the run levels, otherwise the
+ * milestone-aware forward pass — and record every activity's start and finish.
+ *
+ * ⚠️ One extra placement per sampled trial; past the sample it is a single comparison. The
+ * recorders' own passes do not keep the early starts.
+ */
+export function makeNetworkDateRecorder(
+  graph: DependencyGraph,
+  activities: Activity[],
+  dates: ActivityDateRecorder,
+  floors: LevelingFloors,
+  resourceLeveling: ResourceLevelingModel | undefined,
+  skipped: ReadonlySet<string> | undefined,
+): (trial: number, durations: Map<string, number>) => void {
+  const { activityEarliestStart, constraintMap } = floors;
+  // Reused across trials, like the duration map in runDependencyTrials.
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+
+  const place = (durations: Map<string, number>) => {
+    if (resourceLeveling) return levelActivities(graph, durations, resourceLeveling, floors);
+    earlyStart.clear();
+    earlyFinish.clear();
+    for (const id of graph.topologicalOrder) {
+      const placed = placeActivityForward(
+        graph, id, durations.get(id) ?? 0, earlyStart, earlyFinish,
+        activityEarliestStart, constraintMap?.get(id),
+      );
+      earlyStart.set(id, placed.es);
+      earlyFinish.set(id, placed.ef);
+    }
+    return { earlyStart, earlyFinish };
+  };
+
+  return (trial, durations) => {
+    if (trial >= dates.sampleTrials) return;
+    const placed = place(durations);
+    activities.forEach((a, i) => {
+      if (skipped?.has(a.id)) dates.set(trial, i, Number.NaN, Number.NaN);
+      else dates.set(trial, i, placed.earlyStart.get(a.id) ?? 0, placed.earlyFinish.get(a.id) ?? 0);
+    });
+  };
+}
+
+// -- Report -------------------------------------------------------------------
+
+/** One activity's simulated dates as ISO strings, keyed by percentile like the offsets. */
+export interface ActivityDateForecast {
+  start: Record<number, string>;
+  finish: Record<number, string>;
+}
+
+/**
+ * Turn the run's offsets into dates on the project calendar — the conversion the
+ * Percentile Summary uses for the project finish. A start offset is a day index, so it
+ * lands on day `offset + 1`; a zero-length activity at the very start finishes on the
+ * day it starts.
+ */
+export function computeActivityDateForecasts(
+  activityDates: Record<string, ActivityDateResult> | undefined,
+  startDate: string,
+  calendar?: WorkCalendar | Calendar,
+): Map<string, ActivityDateForecast> {
+  const forecasts = new Map<string, ActivityDateForecast>();
+  if (!activityDates) return forecasts;
+  for (const [activityId, result] of Object.entries(activityDates)) {
+    const start: Record<number, string> = {};
+    const finish: Record<number, string> = {};
+    for (const p of ACTIVITY_DATE_PERCENTILES) {
+      start[p] = durationToFinishDateISO(startDate, (result.start[p] ?? 0) + 1, calendar)!;
+      finish[p] = durationToFinishDateISO(startDate, result.finish[p] ?? 0, calendar) ?? start[p];
+    }
+    forecasts.set(activityId, { start, finish });
+  }
+  return forecasts;
+}
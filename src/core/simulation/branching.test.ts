@@ -0,0 +1,112 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { createBranchSampler } from "./branching";
+import { createSeededRng } from "@infrastructure/rng";
+import type { Activity, ExclusiveBranch } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function branch(paths: [string[], number][], id = "b1"): ExclusiveBranch {
+  return {
+    id,
+    name: id,
+    paths: paths.map(([activityIds, probability], i) => ({ id: `p${i}`, name: `Path ${i}`, probability, activityIds })),
+  };
+}
+
+describe("createBranchSampler", () => {
+  const activities = [makeActivity("a"), makeActivity("b"), makeActivity("c")];
+
+  it("returns null when nothing is conditional", () => {
+    expect(createBranchSampler(activities, undefined)).toBeNull();
+    expect(createBranchSampler(activities, [])).toBeNull();
+    expect(createBranchSampler(activities, [branch([[[], 1], [[], 1]])])).toBeNull();
+    expect(createBranchSampler(activities, [branch([[["a"], 1], [["b"], 0]])])).toBeNull();
+    expect(createBranchSampler(activities, [branch([[["missing"], 1], [[], 1]])])).toBeNull();
+    const started = [makeActivity("a", { status: "inProgress", occurrenceProbability: 0.5 })];
+    expect(createBranchSampler(started, undefined)).toBeNull();
+    const malformed = [makeActivity("a", { occurrenceProbability: 1.5 })];
+    expect(createBranchSampler(malformed, undefined)).toBeNull();
+  });
+
+  it("runs a conditional activity at its probability", () => {
+    const sampler = createBranchSampler([makeActivity("a"), makeActivity("b", { occurrenceProbability: 0.3 })], [])!;
+    const rng = createSeededRng("rate");
+    let ran = 0;
+    for (let t = 0; t < 20000; t++) {
+      sampler.beginTrial(rng);
+      expect(sampler.skipsSlot(0)).toBe(false);
+      if (!sampler.skipsSlot(1)) ran++;
+    }
+    expect(ran / 20000).toBeCloseTo(0.3, 1);
+  });
+
+  it("takes exactly one path per trial, in proportion to the weights", () => {
+    const sampler = createBranchSampler(activities, [branch([[["a"], 3], [["b", "c"], 1]])])!;
+    const rng = createSeededRng("paths");
+    let first = 0;
+    for (let t = 0; t < 20000; t++) {
+      sampler.beginTrial(rng);
+      const skipped = [...sampler.skipped].sort().join();
+      expect(["a", "b,c"]).toContain(skipped);
+      if (skipped === "b,c") first++;
+    }
+    expect(first / 20000).toBeCloseTo(0.75, 1);
+  });
+
+  it("zeroes skipped activities in a duration map, with slots skipping finished work", () => {
+    const acts = [makeActivity("done", { status: "complete", actualDuration: 2 }), makeActivity("x", { occurrenceProbability: 0.01 })];
+    const sampler = createBranchSampler(acts, [])!;
+    const rng = createSeededRng("zero");
+    let skipped = false;
+    for (let t = 0; t < 50 && !skipped; t++) {
+      sampler.beginTrial(rng);
+      skipped = sampler.skipsSlot(0);
+    }
+    expect(skipped).toBe(true);
+    const durations = new Map([["done", 2], ["x", 7]]);
+    sampler.zeroSkipped(durations);
+    expect([...durations.values()]).toEqual([2, 0]);
+  });
+
+  it("treats a branch with started or finished work on a path as decided", () => {
+    const acts = [makeActivity("a", { status: "complete", actualDuration: 4 }), makeActivity("b")];
+    const sampler = createBranchSampler(acts, [branch([[["a"], 1], [["b"], 1]])])!;
+    const rng = createSeededRng("decided");
+    for (let t = 0; t < 100; t++) {
+      sampler.beginTrial(rng);
+      expect([...sampler.skipped]).toEqual(["b"]);
+      // "b" is the only sampled activity, so it holds slot 0.
+      expect(sampler.skipsSlot(0)).toBe(true);
+    }
+    // Decided without a draw: the stream is untouched.
+    expect(rng.next()).toBe(createSeededRng("decided").next());
+  });
+
+  it("draws a fixed count per trial, so what follows in the stream does not depend on the outcome", () => {
+    const after = (probability: number) => {
+      const rng = createSeededRng("stream");
+      const sampler = createBranchSampler([makeActivity("a", { occurrenceProbability: probability })], [
+        branch([[["a"], probability], [[], 1]]),
+      ])!;
+      for (let t = 0; t < 100; t++) sampler.beginTrial(rng);
+      return rng.next();
+    };
+    expect(after(0.01)).toBe(after(0.99));
+  });
+});
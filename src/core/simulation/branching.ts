@@ -0,0 +1,164 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, ExclusiveBranch } from "@domain/models/types";
+import type { SeededRng } from "@infrastructure/rng";
+
+/**
+ * Conditional work in the Monte Carlo trials.
+ *
+ * Each trial decides, before any duration is drawn, which conditional activities run
+ * (one draw each, against `occurrenceProbability`) and which path of every exclusive
+ * branch is taken (one draw per branch, weighted by the paths' probabilities). The
+ * activities left out are SKIPPED: their duration is still drawn, so the stream of every
+ * other activity is the same whatever was skipped, and then replaced by 0. A skipped
+ * activity is a zero-length pass-through — its links still carry the timing from its
+ * predecessors to its successors, lags included.
+ *
+ * Only planned work is conditional. An activity that has started or finished has
+ * happened, so it always runs, and a branch with started work on one of its paths is
+ * decided: that path is always taken, and the planned work on the others is skipped in
+ * every trial without a draw. A scenario with no conditional work builds no
+ * sampler and draws nothing extra.
+ */
+
+interface ConditionalEntry {
+  slot: number;
+  id: string;
+  /** Chance it runs; 0 for work left out by a decided branch. */
+  probability: number;
+}
+
+interface PathEntry {
+  slots: number[];
+  ids: string[];
+}
+
+interface BranchEntry {
+  /** Running totals of the path weights, for one draw to pick a path. */
+  cumulative: number[];
+  paths: PathEntry[];
+}
+
+export interface BranchSampler {
+  /** Decide what runs in this trial. Call once at the top of every trial. */
+  beginTrial(rng: SeededRng): void;
+  /** Whether the active activity at distribution index `slot` is skipped this trial. */
+  skipsSlot(slot: number): boolean;
+  /** This trial's skipped activity ids — live: refilled by every `beginTrial`. */
+  readonly skipped: ReadonlySet<string>;
+  /** Set this trial's skipped activities to 0 in the dependency-mode duration map. */
+  zeroSkipped(durations: Map<string, number>): void;
+}
+
+function hasStarted(activity: Activity): boolean {
+  return activity.status !== "planned";
+}
+
+/**
+ * The branches that are still open, each path reduced to the activities of the scenario.
+ * An activity on two paths follows the first; a branch left with fewer than two weighted
+ * paths is not a choice any more and is dropped.
+ *
+ * A branch decided by started work is not a choice either, but it is not dropped: the
+ * first path with started work is the one taken, and the planned work on every other path
+ * goes into `decided` — skipped in every trial, without a draw.
+ */
+function openBranches(
+  branches: ExclusiveBranch[] | undefined,
+  byId: Map<string, Activity>,
+  slotOf: Map<string, number>,
+): { open: BranchEntry[]; decided: ConditionalEntry[] } {
+  const placed = new Set<string>();
+  const open: BranchEntry[] = [];
+  const decided: ConditionalEntry[] = [];
+  for (const branch of branches ?? []) {
+    const paths = branch.paths.map((path) => {
+      const ids = path.activityIds.filter((id) => byId.has(id) && !placed.has(id));
+      ids.forEach((id) => placed.add(id));
+      return { weight: path.probability, ids };
+    });
+    const taken = paths.findIndex((p) => p.ids.some((id) => hasStarted(byId.get(id)!)));
+    if (taken >= 0) {
+      paths.forEach((path, p) => {
+        if (p === taken) return;
+        for (const id of path.ids) {
+          if (!hasStarted(byId.get(id)!)) decided.push({ slot: slotOf.get(id)!, id, probability: 0 });
+        }
+      });
+      continue;
+    }
+    const weighted = paths.filter((p) => p.weight > 0);
+    if (weighted.length < 2 || weighted.every((p) => p.ids.length === 0)) continue;
+    let total = 0;
+    open.push({
+      cumulative: weighted.map((p) => (total += p.weight)),
+      paths: weighted.map((p) => ({ slots: p.ids.map((id) => slotOf.get(id)!), ids: p.ids })),
+    });
+  }
+  return { open, decided };
+}
+
+/**
+ * Build the sampler for a simulation, or null when nothing is conditional. Slots follow
+ * the order `buildActivityDistributions` gives the active activities, as in risk-events.ts.
+ */
+export function createBranchSampler(
+  activities: Activity[],
+  branches: ExclusiveBranch[] | undefined,
+): BranchSampler | null {
+  // Every activity by id, since finished work still decides a branch; slots only for the
+  // ones still sampled. An open branch holds planned work only, so each of its ids has one.
+  const byId = new Map(activities.map((a) => [a.id, a]));
+  const slotOf = new Map<string, number>();
+  for (const activity of activities) {
+    if (activity.status === "complete" && activity.actualDuration != null) continue;
+    slotOf.set(activity.id, slotOf.size);
+  }
+
+  const conditionals: ConditionalEntry[] = [];
+  for (const activity of activities) {
+    const p = activity.occurrenceProbability;
+    // Outside (0, 1) — absent, or a malformed value from a worker payload — it always runs.
+    if (typeof p !== "number" || !(p > 0 && p < 1) || hasStarted(activity)) continue;
+    conditionals.push({ slot: slotOf.get(activity.id)!, id: activity.id, probability: p });
+  }
+  const { open, decided } = openBranches(branches, byId, slotOf);
+  if (conditionals.length === 0 && open.length === 0 && decided.length === 0) return null;
+
+  const skippedSlots = new Uint8Array(slotOf.size);
+  const skipped = new Set<string>();
+  const skip = (slot: number, id: string) => {
+    skippedSlots[slot] = 1;
+    skipped.add(id);
+  };
+
+  return {
+    beginTrial(rng) {
+      if (skipped.size > 0) {
+        skippedSlots.fill(0);
+        skipped.clear();
+      }
+      for (const d of decided) skip(d.slot, d.id);
+      for (const c of conditionals) {
+        if (rng.next() >= c.probability) skip(c.slot, c.id);
+      }
+      for (const branch of open) {
+        const u = rng.next() * branch.cumulative[branch.cumulative.length - 1]!;
+        let taken = branch.cumulative.findIndex((c) => u < c);
+        if (taken < 0) taken = branch.paths.length - 1;
+        branch.paths.forEach((path, p) => {
+          if (p !== taken) path.ids.forEach((id, i) => skip(path.slots[i]!, id));
+        });
+      }
+    },
+    skipsSlot(slot) {
+      return skippedSlots[slot] === 1;
+    },
+    skipped,
+    zeroSkipped(durations) {
+      for (const id of skipped) durations.set(id, 0);
+    },
+  };
+}
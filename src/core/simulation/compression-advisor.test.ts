@@ -0,0 +1,111 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  FAST_TRACK_LAG_PERCENT,
+  adviseCompression,
+  compressionCandidates,
+  fastTrackDependency,
+} from "./compression-advisor";
+import { GOAL_SEEK_TRIALS } from "./goal-seek";
+import type { DependencyMonteCarloInput } from "./monte-carlo";
+import type { Activity, ActivityDependency } from "@domain/models/types";
+
+function makeActivity(id: string, mostLikely: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: mostLikely * 0.8,
+    mostLikely,
+    max: mostLikely * 1.5,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string, lagDays = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays };
+}
+
+const critical = new Set(["a", "b"]);
+
+describe("compressionCandidates", () => {
+  it("fast-tracks FS links within the critical path and crashes critical activities, largest saving first", () => {
+    const candidates = compressionCandidates(
+      [makeActivity("a", 10), makeActivity("b", 8), makeActivity("side", 4)],
+      [fsDep("a", "b"), fsDep("side", "b")],
+      critical,
+    );
+    expect(candidates).toEqual([
+      {
+        proposal: { kind: "fastTrack", fromActivityId: "a", toActivityId: "b", lagPercent: FAST_TRACK_LAG_PERCENT },
+        nominalDays: 10 * (1 - FAST_TRACK_LAG_PERCENT / 100),
+      },
+      // A quarter of 10 days, rounded to whole days.
+      { proposal: { kind: "crash", activityId: "a", days: 3 }, nominalDays: 3 },
+      { proposal: { kind: "crash", activityId: "b", days: 2 }, nominalDays: 2 },
+    ]);
+  });
+
+  it("skips links into work already started and completed activities", () => {
+    const candidates = compressionCandidates(
+      [makeActivity("a", 10, { status: "complete" }), makeActivity("b", 8, { status: "inProgress" })],
+      [fsDep("a", "b")],
+      critical,
+    );
+    expect(candidates.map((c) => c.proposal)).toEqual([{ kind: "crash", activityId: "b", days: 2 }]);
+  });
+});
+
+describe("fastTrackDependency", () => {
+  it("turns the link into start-to-start at a share of the predecessor, dropping its day lag", () => {
+    expect(fastTrackDependency({ ...fsDep("a", "b", 2), lagUnit: "elapsed" }, 60)).toEqual({
+      fromActivityId: "a",
+      toActivityId: "b",
+      type: "SS",
+      lagDays: 0,
+      lagPercent: 60,
+    });
+  });
+});
+
+describe("adviseCompression", () => {
+  const input = (activities: Activity[], dependencies: ActivityDependency[]): DependencyMonteCarloInput => ({
+    activities,
+    dependencies,
+    trialCount: 50000,
+    rngSeed: "compression-advisor",
+  });
+
+  it("ranks the candidates by the P80 each buys", () => {
+    const advice = adviseCompression(input([makeActivity("a", 10), makeActivity("b", 10)], [fsDep("a", "b")]), critical);
+    expect(advice.triedCount).toBe(3);
+    expect(advice.ranked[0]!.proposal.kind).toBe("fastTrack");
+    expect(advice.ranked[0]!.improvementDays).toBeGreaterThan(advice.ranked[1]!.improvementDays);
+    for (const r of advice.ranked) {
+      expect(r.p80Days).toBeLessThan(advice.baselineDays);
+    }
+  });
+
+  it("reports progress after the baseline and each candidate", () => {
+    const progress: number[] = [];
+    adviseCompression(input([makeActivity("a", 10), makeActivity("b", 10)], [fsDep("a", "b")]), critical, (done, total) => {
+      expect(total).toBe(4 * GOAL_SEEK_TRIALS);
+      progress.push(done);
+    });
+    expect(progress).toEqual([1, 2, 3, 4].map((n) => n * GOAL_SEEK_TRIALS));
+  });
+
+  it("leaves out a change that buys nothing", () => {
+    // b is driven by the long side path, so overlapping a with b gains nothing.
+    const advice = adviseCompression(
+      input([makeActivity("a", 2), makeActivity("side", 30), makeActivity("b", 5)], [fsDep("a", "b"), fsDep("side", "b")]),
+      critical,
+    );
+    expect(advice.ranked.map((r) => r.proposal)).toEqual([{ kind: "crash", activityId: "b", days: 1 }]);
+  });
+});
@@ -0,0 +1,146 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, ActivityDependency } from "@domain/models/types";
+import { percentile, sortSamples } from "@core/analytics/analytics";
+import { runDependencyTrials, type DependencyMonteCarloInput } from "./monte-carlo";
+import { GOAL_SEEK_TRIALS, roomFor, withCompression, type RerunProgress } from "./goal-seek";
+
+/**
+ * Schedule compression advisor: the two textbook ways to pull the finish in, each tried
+ * on its own against re-runs of the trials and ranked by what it buys at the P80.
+ *
+ *   - Fast-tracking: an FS link between two critical activities becomes SS+FAST_TRACK_LAG_PERCENT%
+ *     — the successor starts once that share of its predecessor is done, instead of
+ *     waiting for all of it. Only links into work not yet started can move.
+ *   - Crashing: a critical activity gives up CRASH_SHARE of its most likely duration
+ *     (compressActivity, goal-seek.ts — the whole estimate scales), within the same
+ *     MAX_COMPRESSION_SHARE room the goal-seek plan respects.
+ *
+ * Critical means on the deterministic critical path (computeCriticalPathActivities).
+ * Every re-run uses the scenario's own seed, so the candidates differ from the baseline
+ * only by the change. Goal-seek (goal-seek.ts) finds a set of cuts for a target; this
+ * compares single moves, so the planner can weigh overlap risk against added resource.
+ */
+
+/** The finish percentile the advisor ranks candidates by. */
+export const COMPRESSION_ADVISOR_CONFIDENCE = 80;
+
+/** Share of the predecessor done before a fast-tracked successor may start. */
+export const FAST_TRACK_LAG_PERCENT = 60;
+
+/** Share of its most likely duration a crashing candidate gives up. */
+export const CRASH_SHARE = 0.25;
+
+/** Candidates re-run per request, at most — the largest nominal savings first. */
+const MAX_CANDIDATES = 20;
+
+export type CompressionProposal =
+  | { kind: "fastTrack"; fromActivityId: string; toActivityId: string; lagPercent: number }
+  | { kind: "crash"; activityId: string; days: number };
+
+export interface RankedCompression {
+  proposal: CompressionProposal;
+  /** The candidate's P80, working days. */
+  p80Days: number;
+  /** Working days the P80 comes in by, to one decimal; always positive. */
+  improvementDays: number;
+}
+
+export interface CompressionAdvice {
+  /** The re-run's P80 with no change, working days. */
+  baselineDays: number;
+  /** Candidates that improve the P80, best first. */
+  ranked: RankedCompression[];
+  /** Candidates tried, ranked or not. */
+  triedCount: number;
+}
+
+/** The dependency fast-tracked to start-to-start at `lagPercent`% of its predecessor. */
+export function fastTrackDependency(dep: ActivityDependency, lagPercent: number): ActivityDependency {
+  return { fromActivityId: dep.fromActivityId, toActivityId: dep.toActivityId, type: "SS", lagDays: 0, lagPercent };
+}
+
+/** Whether `dep` is the link a fast-tracking proposal changes. */
+export function isProposalLink(
+  dep: ActivityDependency,
+  proposal: Extract<CompressionProposal, { kind: "fastTrack" }>,
+): boolean {
+  return dep.fromActivityId === proposal.fromActivityId && dep.toActivityId === proposal.toActivityId;
+}
+
+/**
+ * The candidates for a network, each with the days it would save on paper — the
+ * predecessor's un-overlapped share for a fast-track, the cut for a crash — largest first.
+ */
+export function compressionCandidates(
+  activities: Activity[],
+  dependencies: ActivityDependency[],
+  criticalIds: ReadonlySet<string>,
+): { proposal: CompressionProposal; nominalDays: number }[] {
+  const byId = new Map(activities.map((a) => [a.id, a]));
+  const candidates: { proposal: CompressionProposal; nominalDays: number }[] = [];
+  for (const dep of dependencies) {
+    if (dep.type !== "FS" || !criticalIds.has(dep.fromActivityId) || !criticalIds.has(dep.toActivityId)) continue;
+    const from = byId.get(dep.fromActivityId);
+    if (!from || from.status === "complete" || byId.get(dep.toActivityId)?.status !== "planned") continue;
+    candidates.push({
+      proposal: {
+        kind: "fastTrack",
+        fromActivityId: dep.fromActivityId,
+        toActivityId: dep.toActivityId,
+        lagPercent: FAST_TRACK_LAG_PERCENT,
+      },
+      nominalDays: from.mostLikely * (1 - FAST_TRACK_LAG_PERCENT / 100) + Math.max(0, dep.lagDays),
+    });
+  }
+  for (const activity of activities) {
+    if (!criticalIds.has(activity.id)) continue;
+    const days = Math.min(Math.max(1, Math.round(activity.mostLikely * CRASH_SHARE)), roomFor(activity, 0));
+    if (days <= 0) continue;
+    candidates.push({ proposal: { kind: "crash", activityId: activity.id, days }, nominalDays: days });
+  }
+  return candidates.sort((a, b) => b.nominalDays - a.nominalDays);
+}
+
+/** `input` with one proposal made. */
+function withProposal(input: DependencyMonteCarloInput, proposal: CompressionProposal): DependencyMonteCarloInput {
+  if (proposal.kind === "crash") return withCompression(input, new Map([[proposal.activityId, proposal.days]]));
+  return {
+    ...input,
+    dependencies: input.dependencies.map((dep) =>
+      isProposalLink(dep, proposal) ? fastTrackDependency(dep, proposal.lagPercent) : dep
+    ),
+  };
+}
+
+/**
+ * Rank the compression candidates for `input`'s network (the scenario's own run; its
+ * trial count is replaced by GOAL_SEEK_TRIALS) by the P80 each buys. Nothing in `input`
+ * is modified. Like the goal-seek plan, the UI runs it in the simulation worker, with
+ * `onProgress` after each re-run.
+ */
+export function adviseCompression(
+  input: DependencyMonteCarloInput,
+  criticalIds: ReadonlySet<string>,
+  onProgress?: RerunProgress,
+): CompressionAdvice {
+  const candidates = compressionCandidates(input.activities, input.dependencies, criticalIds).slice(0, MAX_CANDIDATES);
+  const totalTrials = (candidates.length + 1) * GOAL_SEEK_TRIALS;
+  let reruns = 0;
+  const p80 = (trials: DependencyMonteCarloInput) => {
+    const result = runDependencyTrials({ ...trials, trialCount: GOAL_SEEK_TRIALS, onProgress: undefined });
+    onProgress?.(++reruns * GOAL_SEEK_TRIALS, totalTrials);
+    return percentile(sortSamples(result.samples), COMPRESSION_ADVISOR_CONFIDENCE / 100);
+  };
+  const baselineDays = p80(input);
+  const ranked: RankedCompression[] = [];
+  for (const { proposal } of candidates) {
+    const p80Days = p80(withProposal(input, proposal));
+    const improvementDays = Math.round((baselineDays - p80Days) * 10) / 10;
+    if (improvementDays > 0) ranked.push({ proposal, p80Days, improvementDays });
+  }
+  ranked.sort((a, b) => b.improvementDays - a.improvementDays);
+  return { baselineDays, ranked, triedCount: candidates.length };
+}
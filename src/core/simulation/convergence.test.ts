@@ -0,0 +1,158 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  CONVERGENCE_INITIAL_TRIALS,
+  CONVERGENCE_MAX_TRIALS,
+  nextTrialCount,
+  percentileHalfWidth,
+  runUntilConverged,
+  scenarioConvergenceTarget,
+  scenarioTrialCount,
+} from "./convergence";
+import { runTrials } from "./monte-carlo";
+import { DEFAULT_SCENARIO_SETTINGS, type Activity } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 30,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+const ACTIVITIES = [makeActivity("a"), makeActivity("b"), makeActivity("c")];
+
+describe("percentileHalfWidth", () => {
+  const samples = runTrials({ activities: ACTIVITIES, trialCount: 2000, rngSeed: "hw" }).samples;
+
+  it("is reproducible for a seed", () => {
+    expect(percentileHalfWidth(samples, 95, "s")).toBe(percentileHalfWidth(samples, 95, "s"));
+  });
+
+  it("is zero when every trial agrees", () => {
+    expect(percentileHalfWidth(new Float64Array(1000).fill(12), 95, "s")).toBe(0);
+  });
+});
+
+describe("nextTrialCount", () => {
+  it("projects from the 1/√n shrink of the interval, with a margin", () => {
+    // Twice the tolerance needs four times the trials; 10% margin → 4,400.
+    expect(nextTrialCount(1000, 1, 0.5, 100000)).toBe(5000);
+  });
+
+  it("grows by at least half when the run is nearly there", () => {
+    expect(nextTrialCount(4000, 0.51, 0.5, 100000)).toBe(6000);
+  });
+
+  it("never passes the ceiling", () => {
+    expect(nextTrialCount(50000, 5, 0.5, 100000)).toBe(100000);
+  });
+});
+
+describe("runUntilConverged", () => {
+  const runBatch = (trialCount: number) =>
+    runTrials({ activities: ACTIVITIES, trialCount, rngSeed: "converge" });
+
+  it("PREMISE: a shorter run is the start of a longer one on the same seed", () => {
+    const short = runBatch(1000).samples;
+    const long = runBatch(3000).samples;
+    expect(Array.from(long.subarray(0, 1000))).toEqual(Array.from(short));
+  });
+
+  it("stops at the first batch that meets the tolerance", () => {
+    const batches: number[] = [];
+    const { trialCount, convergence, outcome } = runUntilConverged(
+      (n) => {
+        batches.push(n);
+        return runBatch(n);
+      },
+      { percentile: 95, toleranceDays: 1 },
+      CONVERGENCE_MAX_TRIALS,
+      "converge",
+    );
+    expect(batches[0]).toBe(CONVERGENCE_INITIAL_TRIALS);
+    expect(trialCount).toBe(batches[batches.length - 1]);
+    expect(outcome.samples).toHaveLength(trialCount);
+    expect(convergence.converged).toBe(true);
+    expect(convergence.achievedHalfWidthDays).toBeLessThanOrEqual(1);
+    // Reproducible: the same seed stops at the same count.
+    const again = runUntilConverged(runBatch, { percentile: 95, toleranceDays: 1 }, CONVERGENCE_MAX_TRIALS, "converge");
+    expect(again.trialCount).toBe(trialCount);
+  });
+
+  it("computes under three times the final count across all batches", () => {
+    const batches: number[] = [];
+    const { trialCount } = runUntilConverged(
+      (n) => {
+        batches.push(n);
+        return runBatch(n);
+      },
+      { percentile: 95, toleranceDays: 0.5 },
+      CONVERGENCE_MAX_TRIALS,
+      "converge",
+    );
+    expect(batches.length).toBeGreaterThan(1);
+    const computed = batches.reduce((sum, n) => sum + n, 0);
+    expect(computed).toBeLessThan(3 * trialCount);
+  });
+
+  it("reports progress across batches instead of restarting each one", () => {
+    const progress: [number, number][] = [];
+    const batches: number[] = [];
+    runUntilConverged(
+      (n, onProgress) => {
+        batches.push(n);
+        return runTrials({
+          activities: ACTIVITIES, trialCount: n, rngSeed: "converge", onProgress, progressInterval: 500,
+        });
+      },
+      { percentile: 95, toleranceDays: 0.5 },
+      CONVERGENCE_MAX_TRIALS,
+      "converge",
+      (completed, total) => progress.push([completed, total]),
+    );
+    expect(batches.length).toBeGreaterThan(1);
+    const completed = progress.map(([c]) => c);
+    expect(completed).toEqual([...completed].sort((a, b) => a - b));
+    // The last batch's reports start from every trial the earlier batches computed,
+    // against those plus the ceiling.
+    const earlier = batches.slice(0, -1).reduce((sum, n) => sum + n, 0);
+    const [lastCompleted, lastTotal] = progress[progress.length - 1]!;
+    expect(lastCompleted).toBeGreaterThan(earlier);
+    expect(lastTotal).toBe(earlier + CONVERGENCE_MAX_TRIALS);
+  });
+
+  it("reports the precision reached when the ceiling stops it first", () => {
+    const { trialCount, convergence } = runUntilConverged(
+      runBatch, { percentile: 95, toleranceDays: 0.01 }, 3000, "converge",
+    );
+    expect(trialCount).toBe(3000);
+    expect(convergence.converged).toBe(false);
+    expect(convergence.achievedHalfWidthDays).toBeGreaterThan(0.01);
+  });
+});
+
+describe("scenario settings", () => {
+  it("runs the fixed count without a tolerance", () => {
+    const settings = { ...DEFAULT_SCENARIO_SETTINGS, trialCount: 25000 };
+    expect(scenarioConvergenceTarget(settings)).toBeUndefined();
+    expect(scenarioTrialCount(settings)).toBe(25000);
+  });
+
+  it("targets the project percentile up to the ceiling with one", () => {
+    const settings = {
+      ...DEFAULT_SCENARIO_SETTINGS, projectProbabilityTarget: 0.85, convergenceToleranceDays: 0.5,
+    };
+    expect(scenarioConvergenceTarget(settings)).toEqual({ percentile: 85, toleranceDays: 0.5 });
+    expect(scenarioTrialCount(settings)).toBe(CONVERGENCE_MAX_TRIALS);
+  });
+});
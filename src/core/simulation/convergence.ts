@@ -0,0 +1,142 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { ScenarioSettings, SimulationConvergence } from "@domain/models/types";
+import { bootstrapPercentileCI } from "@core/analytics/analytics";
+import { createSeededRng } from "@infrastructure/rng";
+
+/**
+ * "Until converged" trial counts.
+ *
+ * A fixed trial count is a guess: too many for a ten-activity plan, too few to pin the
+ * P95 of a wide network. In this mode the run starts small, measures how precisely it has
+ * pinned the project-target percentile — the half-width of the percentile's 95% bootstrap
+ * confidence interval — and runs more trials until that half-width is within the
+ * scenario's tolerance or the trial ceiling is reached.
+ *
+ * Each batch re-runs the engine with a larger trial count rather than appending trials:
+ * the per-trial recorders (sensitivity, criticality, activity dates, …) are sized up front.
+ * The seeded stream makes that cheap to reason about — a run of N trials IS the first N
+ * trials of any longer run on the same seed — and the next batch is sized from the
+ * 1/√n shrink of the interval, so a run rarely takes more than two or three batches.
+ * Because every batch is at least MIN_BATCH_GROWTH times the last, the repeated prefixes
+ * form a geometric series: the trials computed in total stay under 1 / (1 − 1/1.5) = 3
+ * times the final count, never the quadratic growth of a fixed-step schedule.
+ */
+
+/** The first batch. Below this the bootstrap interval of a tail percentile is too noisy. */
+export const CONVERGENCE_INITIAL_TRIALS = 1000;
+
+/** Bootstrap resamples per check — enough for a stopping rule, and the check stays cheap. */
+export const CONVERGENCE_BOOTSTRAP_ITERATIONS = 200;
+
+/** Batches grow by at least this factor, so a near miss does not crawl. */
+const MIN_BATCH_GROWTH = 1.5;
+
+/** Aim past the projected count; the projection comes from a noisy interval. */
+const PROJECTION_MARGIN = 1.1;
+
+/** What the run has to pin down, and how tightly. */
+export interface ConvergenceTarget {
+  /** Percentile as an integer, e.g. 95 — the scenario's project target. */
+  percentile: number;
+  toleranceDays: number;
+}
+
+/**
+ * Half-width of the percentile's 95% bootstrap interval. The resampling is seeded from
+ * the run's seed, so the same scenario stops at the same trial count every time.
+ */
+export function percentileHalfWidth(
+  samples: Float64Array | number[],
+  percentile: number,
+  rngSeed: string,
+): number {
+  const rng = createSeededRng(`${rngSeed}:convergence`);
+  const ci = bootstrapPercentileCI(
+    samples, percentile, CONVERGENCE_BOOTSTRAP_ITERATIONS, 0.95, () => rng.next(),
+  );
+  return (ci.upper - ci.lower) / 2;
+}
+
+/**
+ * The next batch: the count at which the interval is projected to meet the tolerance,
+ * at least MIN_BATCH_GROWTH times this one, rounded up to a thousand and capped.
+ */
+export function nextTrialCount(
+  trialCount: number,
+  halfWidth: number,
+  toleranceDays: number,
+  maxTrials: number,
+): number {
+  const projected = trialCount * (halfWidth / toleranceDays) ** 2 * PROJECTION_MARGIN;
+  const next = Math.max(projected, trialCount * MIN_BATCH_GROWTH);
+  return Math.min(maxTrials, Math.ceil(next / 1000) * 1000);
+}
+
+/** Engine progress: trials completed of the total the reporter expects. */
+export type ConvergenceProgress = (completedTrials: number, totalTrials: number) => void;
+
+/**
+ * Run batches until the target percentile is pinned to within the tolerance, or until
+ * `maxTrials` have run. Returns the last batch's outcome — an ordinary run of
+ * `trialCount` trials — with the precision it reached.
+ *
+ * `onProgress` sees the whole run, not each batch: completed counts every trial computed
+ * so far, against those plus the ceiling — the most the batch in flight can still take.
+ * Handing it to the batch wraps the engine's per-batch reporter, so the bar keeps
+ * climbing across batches instead of restarting at zero.
+ */
+export function runUntilConverged<T extends { samples: Float64Array | number[] }>(
+  runBatch: (trialCount: number, onProgress?: ConvergenceProgress) => T,
+  target: ConvergenceTarget,
+  maxTrials: number,
+  rngSeed: string,
+  onProgress?: ConvergenceProgress,
+): { outcome: T; trialCount: number; convergence: SimulationConvergence } {
+  let trialCount = Math.min(CONVERGENCE_INITIAL_TRIALS, maxTrials);
+  let trialsComputed = 0;
+  for (;;) {
+    const before = trialsComputed;
+    const outcome = runBatch(
+      trialCount,
+      onProgress && ((completed) => onProgress(before + completed, before + maxTrials)),
+    );
+    trialsComputed += trialCount;
+    const halfWidth = percentileHalfWidth(outcome.samples, target.percentile, rngSeed);
+    const converged = halfWidth <= target.toleranceDays;
+    if (converged || trialCount >= maxTrials) {
+      return {
+        outcome,
+        trialCount,
+        convergence: {
+          percentile: target.percentile,
+          toleranceDays: target.toleranceDays,
+          achievedHalfWidthDays: halfWidth,
+          converged,
+        },
+      };
+    }
+    trialCount = nextTrialCount(trialCount, halfWidth, target.toleranceDays, maxTrials);
+  }
+}
+
+// -- Scenario settings --------------------------------------------------------
+
+/** Fixed-count ceiling for an "until converged" run — the top of the trial range. */
+export const CONVERGENCE_MAX_TRIALS = 100000;
+
+/** The scenario's convergence target, or undefined when it runs a fixed trial count. */
+export function scenarioConvergenceTarget(settings: ScenarioSettings): ConvergenceTarget | undefined {
+  if (settings.convergenceToleranceDays === undefined) return undefined;
+  return {
+    percentile: Math.round(settings.projectProbabilityTarget * 100),
+    toleranceDays: settings.convergenceToleranceDays,
+  };
+}
+
+/** Trials to request: the fixed count, or the ceiling when the run stops itself. */
+export function scenarioTrialCount(settings: ScenarioSettings): number {
+  return settings.convergenceToleranceDays === undefined ? settings.trialCount : CONVERGENCE_MAX_TRIALS;
+}
@@ -0,0 +1,109 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { copulaCorrelationForRank, createCorrelationSampler } from "./correlation";
+import { TriangularDistribution } from "@core/distributions/triangular";
+import { NormalDistribution } from "@core/distributions/normal";
+import { spearmanCorrelation, mean } from "@core/analytics/analytics";
+import { createSeededRng } from "@infrastructure/rng";
+import type { Activity, CorrelationGroup } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function group(activityIds: string[], coefficient: number, id = "g1"): CorrelationGroup {
+  return { id, name: id, activityIds, coefficient };
+}
+
+/** Draw `n` trials of the given wrapped distributions, one series per distribution. */
+function drawSeries(
+  groups: CorrelationGroup[],
+  activities: Activity[],
+  n: number,
+  seed: string,
+): Float64Array[] {
+  const sampler = createCorrelationSampler(groups, activities)!;
+  const dists = activities.map((a, i) =>
+    sampler.wrap(a.id, i % 2 === 0 ? new TriangularDistribution(2, 5, 15) : new NormalDistribution(10, 2)),
+  );
+  const rng = createSeededRng(seed);
+  const series = activities.map(() => new Float64Array(n));
+  for (let t = 0; t < n; t++) {
+    sampler.beginTrial(rng);
+    for (let i = 0; i < dists.length; i++) series[i]![t] = dists[i]!.sample(rng);
+  }
+  return series;
+}
+
+describe("copulaCorrelationForRank", () => {
+  it("maps 0 and 1 to themselves and lifts values in between", () => {
+    expect(copulaCorrelationForRank(0)).toBe(0);
+    expect(copulaCorrelationForRank(1)).toBeCloseTo(1, 12);
+    expect(copulaCorrelationForRank(0.5)).toBeCloseTo(0.5176, 4);
+  });
+});
+
+describe("createCorrelationSampler", () => {
+  const activities = [makeActivity("a1"), makeActivity("a2"), makeActivity("a3")];
+
+  it("returns null when no group would change the sampling", () => {
+    expect(createCorrelationSampler(undefined, activities)).toBeNull();
+    expect(createCorrelationSampler([], activities)).toBeNull();
+    expect(createCorrelationSampler([group(["a1", "a2"], 0)], activities)).toBeNull();
+    expect(createCorrelationSampler([group(["a1", "missing"], 0.5)], activities)).toBeNull();
+    const done = [makeActivity("a1", { status: "complete", actualDuration: 4 }), activities[1]!];
+    expect(createCorrelationSampler([group(["a1", "a2"], 0.5)], done)).toBeNull();
+  });
+
+  it("leaves ungrouped activities' distributions untouched", () => {
+    const sampler = createCorrelationSampler([group(["a1", "a2"], 0.5)], activities)!;
+    const dist = new TriangularDistribution(1, 2, 3);
+    expect(sampler.wrap("a3", dist)).toBe(dist);
+    expect(sampler.wrap("a1", dist)).not.toBe(dist);
+  });
+
+  it("induces the target rank correlation within a group, and none across groups", () => {
+    const acts = [makeActivity("a"), makeActivity("b"), makeActivity("c"), makeActivity("d")];
+    const groups = [group(["a", "b"], 0.7, "g1"), group(["c", "d"], 0.3, "g2")];
+    const [a, b, c, d] = drawSeries(groups, acts, 20000, "rank");
+    expect(spearmanCorrelation(a!, b!)).toBeCloseTo(0.7, 1);
+    expect(spearmanCorrelation(c!, d!)).toBeCloseTo(0.3, 1);
+    expect(Math.abs(spearmanCorrelation(a!, c!))).toBeLessThan(0.05);
+  });
+
+  it("keeps every member's marginal distribution", () => {
+    const acts = [makeActivity("a"), makeActivity("b")];
+    const [a, b] = drawSeries([group(["a", "b"], 0.9)], acts, 20000, "marginal");
+    expect(mean(a!)).toBeCloseTo(new TriangularDistribution(2, 5, 15).mean(), 1);
+    expect(mean(b!)).toBeCloseTo(10, 1);
+  });
+
+  it("is reproducible for a seed", () => {
+    const acts = [makeActivity("a"), makeActivity("b")];
+    const first = drawSeries([group(["a", "b"], 0.5)], acts, 500, "same");
+    const second = drawSeries([group(["a", "b"], 0.5)], acts, 500, "same");
+    expect(first).toEqual(second);
+  });
+
+  it("follows the first group when an activity is listed twice", () => {
+    const acts = [makeActivity("a"), makeActivity("b"), makeActivity("c")];
+    const groups = [group(["a", "b"], 0.9, "g1"), group(["b", "c"], 0.9, "g2")];
+    const [a, b, c] = drawSeries(groups, acts, 5000, "twice");
+    expect(spearmanCorrelation(a!, b!)).toBeGreaterThan(0.8);
+    // g2 is left with one member, so c samples independently.
+    expect(Math.abs(spearmanCorrelation(b!, c!))).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,131 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, CorrelationGroup } from "@domain/models/types";
+import type { Distribution } from "@core/distributions/distribution";
+import { normalErf, normalQuantile } from "@core/distributions/normal";
+import type { SeededRng } from "@infrastructure/rng";
+
+/**
+ * Correlated activity durations — a one-factor Gaussian copula per correlation group.
+ *
+ * Each trial draws one standard normal Z per group. A member's duration is then
+ * F⁻¹(Φ(√r·Z + √(1−r)·ε)), with ε its own standard normal and F its (possibly
+ * conditional) distribution. Every member keeps its marginal exactly, and any two share
+ * the latent correlation r. This induces the same rank-correlation structure Iman–Conover
+ * would, but one trial at a time: Iman–Conover reorders a full sample matrix, which the
+ * streaming trial loops never hold.
+ *
+ * Seed reproducibility: the group factors come from the same SeededRng, drawn at the top
+ * of each trial in group order, and a grouped activity takes exactly one draw. A scenario
+ * with no effective group builds no sampler and draws nothing extra, so its stream (and
+ * the numeric oracle) is unchanged.
+ */
+
+/** Keeps inverse-CDF arguments strictly inside (0, 1) — see TruncatedDistribution.sample. */
+export function clampUnit(p: number): number {
+  return Math.min(Math.max(p, Number.EPSILON), 1 - Number.EPSILON);
+}
+
+function standardNormalCdf(z: number): number {
+  return 0.5 * (1 + normalErf(z / Math.SQRT2));
+}
+
+/**
+ * The latent (Pearson) correlation a Gaussian copula needs for a target Spearman ρs:
+ * r = 2·sin(π·ρs / 6), the inverse of ρs = (6/π)·asin(r / 2).
+ */
+export function copulaCorrelationForRank(rankCorrelation: number): number {
+  return 2 * Math.sin((Math.PI * rankCorrelation) / 6);
+}
+
+/** A group member's distribution, sampled through its group's factor for this trial. */
+class GroupCorrelatedDistribution implements Distribution {
+  private readonly loading: number;
+  private readonly residual: number;
+
+  constructor(
+    private readonly base: Distribution,
+    private readonly factors: Float64Array,
+    private readonly group: number,
+    latentCorrelation: number,
+  ) {
+    this.loading = Math.sqrt(latentCorrelation);
+    this.residual = Math.sqrt(1 - latentCorrelation);
+  }
+
+  sample(rng: SeededRng): number {
+    const own = normalQuantile(clampUnit(rng.next()));
+    const z = this.loading * this.factors[this.group]! + this.residual * own;
+    return this.base.inverseCDF(clampUnit(standardNormalCdf(z)));
+  }
+
+  inverseCDF(p: number): number {
+    return this.base.inverseCDF(p);
+  }
+  cdf(x: number): number {
+    return this.base.cdf(x);
+  }
+  mean(): number {
+    return this.base.mean();
+  }
+  variance(): number {
+    return this.base.variance();
+  }
+  parameters(): Record<string, number> {
+    return this.base.parameters();
+  }
+}
+
+export interface CorrelationSampler {
+  /** Draw this trial's group factors. Call once at the top of every trial. */
+  beginTrial(rng: SeededRng): void;
+  /** The distribution an activity samples from: `dist` itself unless it is grouped. */
+  wrap(activityId: string, dist: Distribution): Distribution;
+}
+
+/**
+ * Build the sampler for a simulation, or null when no group would change anything.
+ *
+ * Only activities still sampled count as members — a completed activity has its actual
+ * duration — and a group needs two of them and a coefficient above 0 to take effect.
+ * An activity listed in several groups (the services prevent it) follows the first.
+ */
+export function createCorrelationSampler(
+  groups: CorrelationGroup[] | undefined,
+  activities: Activity[],
+): CorrelationSampler | null {
+  if (!groups || groups.length === 0) return null;
+  const sampled = new Set(
+    activities
+      .filter((a) => !(a.status === "complete" && a.actualDuration != null))
+      .map((a) => a.id),
+  );
+
+  const memberGroup = new Map<string, number>();
+  const latent: number[] = [];
+  for (const group of groups) {
+    if (group.coefficient <= 0) continue;
+    const members = group.activityIds.filter((id) => sampled.has(id) && !memberGroup.has(id));
+    if (members.length < 2) continue;
+    const index = latent.length;
+    latent.push(copulaCorrelationForRank(group.coefficient));
+    for (const id of members) memberGroup.set(id, index);
+  }
+  if (latent.length === 0) return null;
+
+  const factors = new Float64Array(latent.length);
+  return {
+    beginTrial(rng) {
+      for (let g = 0; g < factors.length; g++) {
+        factors[g] = normalQuantile(clampUnit(rng.next()));
+      }
+    },
+    wrap(activityId, dist) {
+      const group = memberGroup.get(activityId);
+      if (group === undefined) return dist;
+      return new GroupCorrelatedDistribution(dist, factors, group, latent[group]!);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { computeCostResult, createCostRecorder } from "./cost";
+import { runDependencyTrials, runMonteCarloSimulation, runTrials } from "./monte-carlo";
+import { createSeededRng } from "@infrastructure/rng";
+import { JCL_LEVELS, JCL_SCATTER_TRIALS, type Activity } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 30,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+describe("createCostRecorder", () => {
+  it("builds nothing when no activity has a cost", () => {
+    expect(createCostRecorder([makeActivity("a")], 100, "s")).toBeNull();
+    expect(createCostRecorder([makeActivity("a", { cost: { fixed: 0, dailyRate: 0 } })], 100, "s")).toBeNull();
+  });
+
+  it("charges nothing for skipped work and the rate over any risk delay", () => {
+    const activities = [
+      makeActivity("a", { cost: { fixed: 100, dailyRate: 10 } }),
+      makeActivity("b", { cost: { fixed: 50, dailyRate: 1 } }),
+    ];
+    const recorder = createCostRecorder(activities, 2, "s")!;
+    recorder.recordSlots(0, Float64Array.from([4, Number.NaN]), null);
+    recorder.recordSlots(1, Float64Array.from([4, 6]), null);
+    expect(Array.from(recorder.samples)).toEqual([140, 196]);
+
+    recorder.recordDurations(0, new Map([["a", 4], ["b", 6]]), new Set(["a"]));
+    expect(recorder.samples[0]).toBe(56);
+  });
+
+  it("prices a completed activity over its actual duration", () => {
+    const activities = [
+      makeActivity("done", { status: "complete", actualDuration: 7, cost: { fixed: 10, dailyRate: 100 } }),
+      makeActivity("a"),
+    ];
+    const { costSamples } = runTrials({ activities, trialCount: 50, rngSeed: "s" });
+    expect(new Set(costSamples)).toEqual(new Set([710]));
+  });
+});
+
+describe("costs in the trial loops", () => {
+  it("sequential: fixed plus the rate over each trial's duration", () => {
+    const activities = [makeActivity("a", { cost: { fixed: 100, dailyRate: 10 } })];
+    const { samples, costSamples } = runTrials({ activities, trialCount: 500, rngSeed: "s" });
+    expect(Array.from(costSamples!)).toEqual(Array.from(samples, (d) => 100 + 10 * d));
+  });
+
+  it("dependency: the same along a chain", () => {
+    const activities = [
+      makeActivity("a", { cost: { fixed: 100, dailyRate: 10 } }),
+      makeActivity("b", { cost: { fixed: 0, dailyRate: 10 } }),
+    ];
+    const { samples, costSamples } = runDependencyTrials({
+      activities,
+      dependencies: [{ fromActivityId: "a", toActivityId: "b", type: "FS", lagDays: 0 }],
+      trialCount: 500,
+      rngSeed: "s",
+    });
+    for (let i = 0; i < samples.length; i++) expect(costSamples![i]).toBeCloseTo(100 + 10 * samples[i]!, 9);
+  });
+
+  it("draws an uncertain fixed cost within its range without moving a duration draw", () => {
+    const priced = [makeActivity("a", { cost: { fixed: 500, dailyRate: 0, fixedMin: 400, fixedMax: 900 } })];
+    const run = runTrials({ activities: priced, trialCount: 1000, rngSeed: "s" });
+    const plain = runTrials({ activities: [makeActivity("a")], trialCount: 1000, rngSeed: "s" });
+    expect(Array.from(run.samples)).toEqual(Array.from(plain.samples));
+    const costs = Array.from(run.costSamples!);
+    expect(Math.min(...costs)).toBeGreaterThanOrEqual(400);
+    expect(Math.max(...costs)).toBeLessThanOrEqual(900);
+    expect(new Set(costs).size).toBeGreaterThan(900);
+  });
+
+  it("attaches the cost result to the run, and nothing without costs", () => {
+    const input = { trialCount: 2000, rngSeed: "s" };
+    const costed = runMonteCarloSimulation({
+      ...input,
+      activities: [makeActivity("a", { cost: { fixed: 100, dailyRate: 10 } })],
+    });
+    expect(costed.costResults!.percentiles[50]).toBeCloseTo(100 + 10 * costed.percentiles[50]!, 6);
+    expect(costed.costResults!.scatter).toHaveLength(JCL_SCATTER_TRIALS);
+    expect(runMonteCarloSimulation({ ...input, activities: [makeActivity("a")] }).costResults).toBeUndefined();
+  });
+});
+
+describe("computeCostResult", () => {
+  const rng = createSeededRng("jcl");
+  const n = 4000;
+  const durations = Float64Array.from({ length: n }, () => 20 + rng.next() * 20);
+  const costs = Float64Array.from(durations, (d) => 1000 + 50 * d + rng.next() * 800);
+  const before = Array.from(durations);
+  const result = computeCostResult(durations, costs);
+
+  it("leaves both arrays in trial order", () => {
+    expect(Array.from(durations)).toEqual(before);
+  });
+
+  it("keeps the first trials as the scatter", () => {
+    expect(result.scatter).toHaveLength(JCL_SCATTER_TRIALS);
+    expect(result.scatter[3]).toEqual({ duration: durations[3], cost: costs[3] });
+  });
+
+  it("draws each contour at its joint confidence, costs falling as the duration grows", () => {
+    for (const level of JCL_LEVELS) {
+      const contour = result.contours[level]!;
+      expect(contour.length).toBeGreaterThan(1);
+      for (let i = 0; i < contour.length; i++) {
+        const { duration, cost } = contour[i]!;
+        let within = 0;
+        for (let t = 0; t < n; t++) if (durations[t]! <= duration && costs[t]! <= cost) within++;
+        expect(within / n).toBeGreaterThanOrEqual(level / 100);
+        expect(within / n).toBeLessThan(level / 100 + 0.01);
+        if (i > 0) expect(cost).toBeLessThanOrEqual(contour[i - 1]!.cost);
+      }
+    }
+  });
+
+  it("puts a higher level's contour above and to the right", () => {
+    expect(result.contours[90]![0]!.duration).toBeGreaterThan(result.contours[50]![0]!.duration);
+    expect(result.contours[90]!.at(-1)!.cost).toBeGreaterThan(result.contours[50]!.at(-1)!.cost);
+  });
+});
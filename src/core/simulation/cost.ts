@@ -0,0 +1,184 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, CostPoint, CostResult } from "@domain/models/types";
+import { JCL_LEVELS, JCL_SCATTER_TRIALS } from "@domain/models/types";
+import { TriangularDistribution } from "@core/distributions/triangular";
+import type { Distribution } from "@core/distributions/distribution";
+import {
+  computeStandardPercentiles,
+  mean as computeMean,
+  standardDeviation as computeSD,
+} from "@core/analytics/analytics";
+import { createSeededRng } from "@infrastructure/rng";
+import type { RiskSampler } from "./risk-events";
+
+/**
+ * Project cost per trial, and its joint confidence with the finish.
+ *
+ * An activity costs its fixed amount plus its daily rate for every day it ran in the trial —
+ * risk delays included, since the team burns through them — and nothing in a trial that
+ * skipped it (branching.ts). A completed activity costs its fixed amount and its rate over
+ * its actual duration. A three-point fixed amount is drawn triangular from a stream of its
+ * own, `${rngSeed}:cost`, so costing a project leaves every duration draw as it was.
+ *
+ * The run keeps every trial's cost next to its duration. The cost percentiles come from
+ * all of them, and so does the joint confidence level (JCL): the share of trials that
+ * finish within a duration AND a cost. Sponsors approve the two together, and a plan at
+ * P80 on each is well short of 80% on both.
+ */
+
+/** Points along each JCL contour, from the level's duration percentile to the longest trial. */
+const CONTOUR_POINTS = 21;
+
+/** One costed activity, as the trial loops price it. */
+interface CostEntry {
+  id: string;
+  /** Distribution index of a sampled activity; −1 for completed work. */
+  slot: number;
+  /** A completed activity's actual duration. */
+  actualDuration: number;
+  fixed: number;
+  /** The three-point fixed amount; null when the amount is certain. */
+  fixedDist: Distribution | null;
+  dailyRate: number;
+}
+
+export interface CostRecorder {
+  /** Project cost per trial, in trial order. */
+  readonly samples: Float64Array;
+  /** Sequential mode: this trial's floored draw per slot (NaN = skipped), before risk delays. */
+  recordSlots(trial: number, slots: Float64Array, risks: RiskSampler | null): void;
+  /** Dependency mode: this trial's durations by id, risk delays added and skipped work zeroed. */
+  recordDurations(trial: number, durations: Map<string, number>, skipped: ReadonlySet<string> | undefined): void;
+}
+
+/** An activity's entry at `slot` (−1 when complete), or null when it costs nothing. */
+function costEntry(activity: Activity, slot: number): CostEntry | null {
+  const cost = activity.cost;
+  if (!cost || !(cost.fixed > 0 || cost.dailyRate > 0 || (cost.fixedMax ?? 0) > 0)) return null;
+  const ranged = slot >= 0 && cost.fixedMin !== undefined && cost.fixedMax !== undefined && cost.fixedMin < cost.fixedMax;
+  return {
+    id: activity.id,
+    slot,
+    actualDuration: slot < 0 ? activity.actualDuration! : 0,
+    fixed: cost.fixed,
+    fixedDist: ranged ? new TriangularDistribution(cost.fixedMin!, cost.fixed, cost.fixedMax!) : null,
+    dailyRate: cost.dailyRate,
+  };
+}
+
+/** The costed activities, their slots numbered as buildActivityDistributions numbers them. */
+function buildCostEntries(activities: Activity[]): CostEntry[] {
+  const entries: CostEntry[] = [];
+  let slot = 0;
+  for (const activity of activities) {
+    const complete = activity.status === "complete" && activity.actualDuration != null;
+    const entry = costEntry(activity, complete ? -1 : slot);
+    if (entry) entries.push(entry);
+    if (!complete) slot++;
+  }
+  return entries;
+}
+
+/** Build the recorder, or null when no activity has a cost. */
+export function createCostRecorder(
+  activities: Activity[],
+  trialCount: number,
+  rngSeed: string,
+): CostRecorder | null {
+  const entries = buildCostEntries(activities);
+  if (entries.length === 0) return null;
+
+  const rng = createSeededRng(`${rngSeed}:cost`);
+  const samples = new Float64Array(trialCount);
+  // This trial's fixed amount per entry — every ranged one drawn, skipped or not, so the
+  // cost stream does not depend on which work ran.
+  const fixed = new Float64Array(entries.length);
+  const drawFixed = () => {
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]!;
+      fixed[i] = entry.fixedDist ? entry.fixedDist.sample(rng) : entry.fixed;
+    }
+  };
+
+  return {
+    samples,
+    recordSlots(trial, slots, risks) {
+      drawFixed();
+      let total = 0;
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i]!;
+        if (entry.slot < 0) {
+          total += fixed[i]! + entry.dailyRate * entry.actualDuration;
+          continue;
+        }
+        const duration = slots[entry.slot]!;
+        if (Number.isNaN(duration)) continue;
+        total += fixed[i]! + entry.dailyRate * (duration + (risks?.delayAt(entry.slot) ?? 0));
+      }
+      samples[trial] = total;
+    },
+    recordDurations(trial, durations, skipped) {
+      drawFixed();
+      let total = 0;
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i]!;
+        if (skipped?.has(entry.id)) continue;
+        total += fixed[i]! + entry.dailyRate * (durations.get(entry.id) ?? 0);
+      }
+      samples[trial] = total;
+    },
+  };
+}
+
+/**
+ * One JCL contour: for durations from the level's percentile out to the longest trial, the
+ * least cost c with P(duration ≤ d and cost ≤ c) at the level — the k-th cheapest of the
+ * trials no longer than d, k being the level's share of all trials.
+ */
+function jclContour(
+  durations: Float64Array,
+  costs: Float64Array,
+  byDuration: Uint32Array,
+  level: number,
+): CostPoint[] {
+  const n = byDuration.length;
+  const k = Math.max(1, Math.ceil((level / 100) * n));
+  const points: CostPoint[] = [];
+  for (let step = 0; step < CONTOUR_POINTS; step++) {
+    const within = Math.round(k + ((n - k) * step) / (CONTOUR_POINTS - 1));
+    const prefix = new Float64Array(within);
+    for (let i = 0; i < within; i++) prefix[i] = costs[byDuration[i]!]!;
+    prefix.sort();
+    const point = { duration: durations[byDuration[within - 1]!]!, cost: prefix[k - 1]! };
+    const last = points[points.length - 1];
+    if (!last || last.duration !== point.duration || last.cost !== point.cost) points.push(point);
+  }
+  return points;
+}
+
+/**
+ * The run's cost result from its per-trial durations and costs, both in trial order —
+ * call it before anything sorts the durations. Neither array is modified.
+ */
+export function computeCostResult(durations: Float64Array, costs: Float64Array): CostResult {
+  const n = costs.length;
+  const scatter = Array.from({ length: Math.min(n, JCL_SCATTER_TRIALS) }, (_, i) => ({
+    duration: durations[i]!,
+    cost: costs[i]!,
+  }));
+  const byDuration = Uint32Array.from({ length: n }, (_, i) => i).sort((a, b) => durations[a]! - durations[b]!);
+  const contours: Record<number, CostPoint[]> = {};
+  for (const level of JCL_LEVELS) contours[level] = jclContour(durations, costs, byDuration, level);
+
+  const sorted = Float64Array.from(costs).sort();
+  return {
+    percentiles: computeStandardPercentiles(sorted),
+    mean: computeMean(sorted),
+    standardDeviation: computeSD(sorted),
+    scatter,
+    contours,
+  };
+}
@@ -0,0 +1,128 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  GOAL_SEEK_TRIALS,
+  MAX_COMPRESSION_SHARE,
+  compressActivity,
+  computeTargetGap,
+  planCompression,
+} from "./goal-seek";
+import { durationToFinishDateISO } from "@core/calendar/calendar";
+import type { DependencyMonteCarloInput } from "./monte-carlo";
+import type { Activity, ActivityDependency } from "@domain/models/types";
+
+function makeActivity(id: string, mostLikely: number, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: mostLikely * 0.8,
+    mostLikely,
+    max: mostLikely * 1.5,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays: 0 };
+}
+
+describe("computeTargetGap", () => {
+  // Mon 2 Mar through Fri 13 Mar 2026: ten working days.
+  const gap = (percentiles: Record<number, number>, started = false, target = "2026-03-13") =>
+    computeTargetGap(target, "2026-03-02", percentiles, 80, started);
+
+  it("measures the shortfall in whole working days and finds the latest start", () => {
+    expect(gap({ 80: 12.4 })).toEqual({
+      durationDays: 12,
+      availableDays: 10,
+      shortfallDays: 2,
+      latestStartDate: "2026-02-26",
+    });
+    expect(durationToFinishDateISO("2026-02-26", 12)).toBe("2026-03-13");
+  });
+
+  it("reports the days to spare when the target holds, a weekend target counting to its Friday", () => {
+    const result = gap({ 80: 8 }, false, "2026-03-15")!;
+    expect(result.shortfallDays).toBe(-2);
+    expect(result.latestStartDate).toBe("2026-03-04");
+  });
+
+  it("withholds the latest start once work has begun, and answers nothing without the percentile", () => {
+    expect(gap({ 80: 12 }, true)!.latestStartDate).toBeNull();
+    expect(gap({ 50: 12 })).toBeNull();
+  });
+});
+
+describe("compressActivity", () => {
+  it("takes the days off the most likely duration and scales the rest of the estimate alike", () => {
+    const compressed = compressActivity(
+      makeActivity("a", 10, { min: 8, max: 20, remainingEstimate: { min: 4, mostLikely: 5, max: 10 } }),
+      2,
+    );
+    expect(compressed).toMatchObject({ min: 6.4, mostLikely: 8, max: 16 });
+    expect(compressed.remainingEstimate).toEqual({ min: 3.2, mostLikely: 4, max: 8 });
+  });
+
+  it("leaves an activity with nothing to cut as it is", () => {
+    const activity = makeActivity("a", 10);
+    expect(compressActivity(activity, 0)).toBe(activity);
+  });
+});
+
+describe("planCompression", () => {
+  const input = (activities: Activity[], dependencies: ActivityDependency[]): DependencyMonteCarloInput => ({
+    activities,
+    dependencies,
+    trialCount: 50000,
+    rngSeed: "goal-seek",
+  });
+
+  it("cuts the critical chain until the percentile meets the target", () => {
+    const chain = input([makeActivity("a", 10), makeActivity("b", 20), makeActivity("side", 5)], [
+      fsDep("a", "b"),
+    ]);
+    const plan = planCompression(chain, 80, 28);
+    expect(plan.startingDays).toBeGreaterThan(28);
+    expect(plan.feasible).toBe(true);
+    expect(plan.achievedDays).toBeLessThanOrEqual(28);
+    expect(plan.cuts.map((c) => c.activityId)).not.toContain("side");
+    expect(plan.cuts[0]!.criticality).toBe(1);
+  });
+
+  it("follows the criticality onto a parallel path", () => {
+    const parallel = input([makeActivity("a", 20), makeActivity("b", 18)], []);
+    const plan = planCompression(parallel, 80, 17);
+    expect(plan.feasible).toBe(true);
+    expect(new Set(plan.cuts.map((c) => c.activityId))).toEqual(new Set(["a", "b"]));
+  });
+
+  it("stops at the compression limit and says the target is out of reach", () => {
+    const plan = planCompression(input([makeActivity("a", 10)], []), 80, 3);
+    expect(plan.feasible).toBe(false);
+    expect(plan.cuts).toEqual([{ activityId: "a", days: 10 * MAX_COMPRESSION_SHARE, criticality: 1 }]);
+    expect(plan.achievedDays).toBeGreaterThan(3);
+  });
+
+  it("cuts nothing when the target already holds", () => {
+    const plan = planCompression(input([makeActivity("a", 10)], []), 80, 30);
+    expect(plan).toMatchObject({ feasible: true, cuts: [] });
+    expect(plan.achievedDays).toBe(plan.startingDays);
+  });
+
+  it("reports progress after each re-run, against the most the plan could take", () => {
+    const progress: [number, number][] = [];
+    const plan = planCompression(input([makeActivity("a", 10)], []), 80, 3, (done, total) => progress.push([done, total]));
+    // The first run, then one re-run for the single cut the limit allows.
+    expect(plan.cuts).toHaveLength(1);
+    expect(progress).toEqual([
+      [GOAL_SEEK_TRIALS, 31 * GOAL_SEEK_TRIALS],
+      [2 * GOAL_SEEK_TRIALS, 31 * GOAL_SEEK_TRIALS],
+    ]);
+  });
+});
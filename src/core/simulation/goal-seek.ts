@@ -0,0 +1,237 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, Calendar } from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { retreatToPreviousWorkingDay } from "@core/calendar/work-calendar";
+import {
+  activityStartDate,
+  addCalendarDays,
+  countWorkingDays,
+  formatDateISO,
+  parseDateISO,
+} from "@core/calendar/calendar";
+import { percentile, sortSamples } from "@core/analytics/analytics";
+import { runDependencyTrials, type DependencyMonteCarloInput } from "./monte-carlo";
+
+/**
+ * Goal-seek: what it takes to meet a target finish at a chosen confidence.
+ *
+ * computeTargetRAGColor (target-rag.ts) says whether the target holds; this says what to
+ * change when it does not. Both answers are for one percentile of the finish, compared
+ * the way the RAG compares it — the duration rounded to whole working days:
+ *
+ *   - The gap: the working days the percentile runs past the target, and the latest
+ *     start that would still meet it. The latest start assumes the whole network moves
+ *     with the start date; a constraint or milestone date pinned to the calendar does not,
+ *     and neither does work already under way, so it is only offered before any has begun.
+ *   - The compression plan (dependency mode): which activities to shorten, and by how
+ *     much, to close the gap. It is greedy against re-runs of the trials — the scenario's
+ *     own seed, so consecutive runs differ only by the cuts. Each step shortens the most
+ *     critical activity that still has room by the remaining gap, then re-runs to see what
+ *     the cut bought; when criticality moves to a parallel path, the next step follows it.
+ *
+ * Shortening an activity by d days scales its estimate by (mostLikely − d) / mostLikely —
+ * range, SD override, history and remaining estimate with it — and its Parkinson floor the
+ * same way. No activity gives up more than MAX_COMPRESSION_SHARE of its most likely
+ * duration: past that the work is being rescoped, which is the planner's call.
+ */
+
+/** Trials per re-run. Enough to rank cuts; the plan reports its own percentile. */
+export const GOAL_SEEK_TRIALS = 2000;
+
+/** The most of an activity's most likely duration a plan may cut. */
+export const MAX_COMPRESSION_SHARE = 0.5;
+
+/** Re-runs per plan after the first, at most. */
+const MAX_PLAN_STEPS = 30;
+
+/**
+ * Progress through a sequence of re-runs, in trials: `totalTrials` is the most the
+ * sequence can take, and it may finish short of it.
+ */
+export type RerunProgress = (completedTrials: number, totalTrials: number) => void;
+
+/** Confidence levels the goal-seek offers — standard percentiles, so the run has each. */
+export const GOAL_SEEK_CONFIDENCES = [50, 70, 75, 80, 85, 90, 95] as const;
+
+/** How far the target is from the run at one confidence. */
+export interface TargetGap {
+  /** The run's duration at the confidence, whole working days. */
+  durationDays: number;
+  /** Working days from the start date through the target, both inclusive. */
+  availableDays: number;
+  /** Days the duration runs past the target; 0 or less when the target holds. */
+  shortfallDays: number;
+  /** The latest start that still meets the target; null once work has begun. */
+  latestStartDate: string | null;
+}
+
+/** Working days from `startISO` through `targetISO`, both inclusive. */
+function workingDaysThrough(startISO: string, targetISO: string, calendar?: WorkCalendar | Calendar): number {
+  return countWorkingDays(parseDateISO(startISO), addCalendarDays(parseDateISO(targetISO), 1), calendar);
+}
+
+/**
+ * The gap at `confidence` (a standard percentile), or null when the run lacks that
+ * percentile. `started` withholds the latest start (see the module comment).
+ */
+export function computeTargetGap(
+  targetFinishDate: string,
+  startDate: string,
+  percentiles: Record<number, number>,
+  confidence: number,
+  started: boolean,
+  calendar?: WorkCalendar | Calendar,
+): TargetGap | null {
+  const duration = percentiles[confidence];
+  if (duration == null) return null;
+  const durationDays = Math.max(1, Math.round(duration));
+  const availableDays = workingDaysThrough(startDate, targetFinishDate, calendar);
+  const lastDay = retreatToPreviousWorkingDay(parseDateISO(targetFinishDate), calendar);
+  return {
+    durationDays,
+    availableDays,
+    shortfallDays: durationDays - availableDays,
+    latestStartDate: started ? null : formatDateISO(activityStartDate(lastDay, durationDays, calendar)),
+  };
+}
+
+/** One activity's cut in a compression plan. */
+export interface CompressionCut {
+  activityId: string;
+  /** Working days off its most likely duration. */
+  days: number;
+  /** Its criticality index when the plan first cut it. */
+  criticality: number;
+}
+
+export interface CompressionPlan {
+  /** The re-run's duration at the confidence before any cut, whole working days. */
+  startingDays: number;
+  /** The same with every cut made. */
+  achievedDays: number;
+  /** Whether the cuts bring the duration within the target. */
+  feasible: boolean;
+  /** Per activity, in the order the plan made them. */
+  cuts: CompressionCut[];
+}
+
+/** The activity with `days` off its most likely duration, the rest of its estimate scaled alike. */
+export function compressActivity(activity: Activity, days: number): Activity {
+  if (days <= 0 || activity.mostLikely <= 0) return activity;
+  const factor = Math.max(0, (activity.mostLikely - days) / activity.mostLikely);
+  const scale = (value: number) => value * factor;
+  return {
+    ...activity,
+    min: scale(activity.min),
+    mostLikely: scale(activity.mostLikely),
+    max: scale(activity.max),
+    ...(activity.sdOverride !== undefined && { sdOverride: Math.max(scale(activity.sdOverride), 1e-6) }),
+    ...(activity.historicalDurations && { historicalDurations: activity.historicalDurations.map(scale) }),
+    ...(activity.remainingEstimate && {
+      remainingEstimate: {
+        min: scale(activity.remainingEstimate.min),
+        mostLikely: scale(activity.remainingEstimate.mostLikely),
+        max: scale(activity.remainingEstimate.max),
+      },
+    }),
+  };
+}
+
+/**
+ * `input` with each activity in `cuts` shortened by its days (compressActivity), and its
+ * Parkinson floor scaled alike.
+ */
+export function withCompression(
+  input: DependencyMonteCarloInput,
+  cuts: ReadonlyMap<string, number>,
+): DependencyMonteCarloInput {
+  const byId = new Map(input.activities.map((a) => [a.id, a]));
+  const floors = input.deterministicDurationMap && new Map(
+    [...input.deterministicDurationMap].map(([id, floor]) => {
+      const activity = byId.get(id);
+      const days = cuts.get(id) ?? 0;
+      return [id, activity && days > 0 ? (floor * (activity.mostLikely - days)) / activity.mostLikely : floor];
+    }),
+  );
+  return {
+    ...input,
+    activities: input.activities.map((a) => compressActivity(a, cuts.get(a.id) ?? 0)),
+    deterministicDurationMap: floors,
+  };
+}
+
+/** Days an activity can still give up, 0 for completed work. */
+export function roomFor(activity: Activity, cut: number): number {
+  if (activity.status === "complete") return 0;
+  return Math.floor(activity.mostLikely * MAX_COMPRESSION_SHARE) - cut;
+}
+
+/** The next activity to cut: most critical with room left, the roomier on a tie. */
+function nextCut(
+  activities: Activity[],
+  cuts: Map<string, CompressionCut>,
+  criticalityIndex: Record<string, number> | undefined,
+): { activity: Activity; room: number; criticality: number } | null {
+  let best: { activity: Activity; room: number; criticality: number } | null = null;
+  for (const activity of activities) {
+    const criticality = criticalityIndex?.[activity.id] ?? 0;
+    const room = roomFor(activity, cuts.get(activity.id)?.days ?? 0);
+    if (criticality <= 0 || room <= 0) continue;
+    if (!best || criticality > best.criticality || (criticality === best.criticality && room > best.room)) {
+      best = { activity, room, criticality };
+    }
+  }
+  return best;
+}
+
+/**
+ * A compression plan to bring the `confidence` percentile of `input`'s trials within
+ * `targetDays` working days. `input` is the scenario's own run (its trial count is
+ * replaced by GOAL_SEEK_TRIALS); nothing in it is modified. Tens of thousands of trials:
+ * the UI runs it in the simulation worker, with `onProgress` after each re-run.
+ */
+export function planCompression(
+  input: DependencyMonteCarloInput,
+  confidence: number,
+  targetDays: number,
+  onProgress?: RerunProgress,
+): CompressionPlan {
+  const cuts = new Map<string, CompressionCut>();
+  let reruns = 0;
+  const run = () => {
+    const cutDays = new Map([...cuts].map(([id, cut]) => [id, cut.days]));
+    const result = runDependencyTrials({
+      ...withCompression(input, cutDays),
+      trialCount: GOAL_SEEK_TRIALS,
+      onProgress: undefined,
+    });
+    const days = Math.round(percentile(sortSamples(result.samples), confidence / 100));
+    onProgress?.(++reruns * GOAL_SEEK_TRIALS, (MAX_PLAN_STEPS + 1) * GOAL_SEEK_TRIALS);
+    return { days, criticalityIndex: result.criticalityIndex };
+  };
+
+  let current = run();
+  const startingDays = current.days;
+  for (let step = 0; step < MAX_PLAN_STEPS && current.days > targetDays; step++) {
+    const pick = nextCut(input.activities, cuts, current.criticalityIndex);
+    if (!pick) break;
+    const days = Math.min(pick.room, current.days - targetDays);
+    const previous = cuts.get(pick.activity.id);
+    cuts.set(pick.activity.id, {
+      activityId: pick.activity.id,
+      days: (previous?.days ?? 0) + days,
+      criticality: previous?.criticality ?? pick.criticality,
+    });
+    current = run();
+  }
+
+  return {
+    startingDays,
+    achievedDays: current.days,
+    feasible: current.days <= targetDays,
+    cuts: [...cuts.values()],
+  };
+}
@@ -4,12 +4,18 @@
 
 export { runMonteCarloSimulation } from "./monte-carlo";
 export type { MonteCarloInput } from "./monte-carlo";
-export { runSimulationInWorker } from "./worker-client";
-export type { SimulationCallbacks, SimulationHandle } from "./worker-client";
+export { adviseCompressionInWorker, planCompressionInWorker, runSimulationInWorker } from "./worker-client";
+export type { CompressionRunParams, SimulationCallbacks, SimulationHandle, WorkerTaskCallbacks } from "./worker-client";
 export type {
   SimulationRequest,
+  CompressionPlanRequest,
+  CompressionAdviceRequest,
+  WorkerIncomingMessage,
   SimulationProgress,
   SimulationResult,
+  SimulationShardResult,
+  CompressionPlanResult,
+  CompressionAdviceResult,
   SimulationError,
   WorkerOutgoingMessage,
 } from "./worker-protocol";
@@ -0,0 +1,93 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { createStratifiedSampler } from "./latin-hypercube";
+import { runDependencyTrials, runMonteCarloSimulation, runTrials } from "./monte-carlo";
+import { UniformDistribution } from "@core/distributions/uniform";
+import { createSeededRng } from "@infrastructure/rng";
+import type { Activity } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 30,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+// The triangular mean, (5 + 10 + 30) / 3.
+const TRIANGULAR_MEAN = 15;
+
+describe("createStratifiedSampler", () => {
+  it("builds nothing for random sampling", () => {
+    expect(createStratifiedSampler(undefined, 1000, "s")).toBeNull();
+    expect(createStratifiedSampler("random", 1000, "s")).toBeNull();
+  });
+
+  it("draws from every stratum exactly once across the run", () => {
+    const dist = createStratifiedSampler("latinHypercube", 500, "s")!.wrap(new UniformDistribution(0, 1));
+    const rng = createSeededRng("trials");
+    const strata = Array.from({ length: 500 }, () => Math.floor(dist.sample(rng) * 500));
+    expect([...strata].sort((a, b) => a - b)).toEqual(Array.from({ length: 500 }, (_, i) => i));
+    // A permutation, not the strata in order.
+    expect(strata.slice(0, 10)).not.toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("gives each activity its own permutation, reproducibly for a seed", () => {
+    const draws = (seed: string) => {
+      const sampler = createStratifiedSampler("latinHypercube", 100, seed)!;
+      const a = sampler.wrap(new UniformDistribution(0, 1));
+      const b = sampler.wrap(new UniformDistribution(0, 1));
+      const rng = createSeededRng("trials");
+      return Array.from({ length: 5 }, () => [a.sample(rng), b.sample(rng)]);
+    };
+    const first = draws("s");
+    expect(draws("s")).toEqual(first);
+    expect(first.map(([a]) => Math.floor(a! * 100))).not.toEqual(first.map(([, b]) => Math.floor(b! * 100)));
+  });
+});
+
+describe("Latin Hypercube runs", () => {
+  it("sequential: pins the mean far closer than random draws at the same trial count", () => {
+    const run = (samplingMethod?: "latinHypercube") =>
+      runTrials({ activities: [makeActivity("a")], trialCount: 1000, rngSeed: "lhs", samplingMethod }).samples;
+    const mean = (samples: Float64Array) => samples.reduce((sum, x) => sum + x, 0) / samples.length;
+    expect(Math.abs(mean(run("latinHypercube")) - TRIANGULAR_MEAN)).toBeLessThan(0.01);
+    expect(Math.abs(mean(run()) - TRIANGULAR_MEAN)).toBeGreaterThan(0.01);
+  });
+
+  it("dependency: stratifies sampleTrialDurations the same way", () => {
+    const { samples } = runDependencyTrials({
+      activities: [makeActivity("a")],
+      dependencies: [],
+      trialCount: 1000,
+      rngSeed: "lhs",
+      samplingMethod: "latinHypercube",
+    });
+    const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+    expect(Math.abs(mean - TRIANGULAR_MEAN)).toBeLessThan(0.01);
+  });
+
+  it("leaves a correlation-group member on its copula draw", () => {
+    const activities = [makeActivity("a"), makeActivity("b")];
+    const correlationGroups = [{ id: "g", name: "g", activityIds: ["a", "b"], coefficient: 0.8 }];
+    const run = (samplingMethod?: "latinHypercube") =>
+      Array.from(runTrials({ activities, trialCount: 1000, rngSeed: "lhs", correlationGroups, samplingMethod }).samples);
+    expect(run("latinHypercube")).toEqual(run());
+  });
+
+  it("records the method on the run, and nothing for random sampling", () => {
+    const input = { activities: [makeActivity("a")], trialCount: 1000, rngSeed: "lhs" };
+    expect(runMonteCarloSimulation({ ...input, samplingMethod: "latinHypercube" }).samplingMethod)
+      .toBe("latinHypercube");
+    expect(runMonteCarloSimulation(input).samplingMethod).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { createMergeStartRecorder, computeMergeBias } from "./merge-points";
+import { runDependencyTrials } from "./monte-carlo";
+import { buildDependencyGraph } from "@core/schedule/dependency-graph";
+import type { Activity, ActivityDependency, MergePointResult, ScheduledActivity } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 15,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function fsDep(from: string, to: string, lag = 0): ActivityDependency {
+  return { fromActivityId: from, toActivityId: to, type: "FS", lagDays: lag };
+}
+
+const ACTIVITIES = [makeActivity("a"), makeActivity("b"), makeActivity("m")];
+const DEPENDENCIES = [fsDep("a", "m"), fsDep("b", "m")];
+
+function scheduled(activityId: string, startDate: string): ScheduledActivity {
+  return { activityId, name: activityId, duration: 1, startDate, endDate: startDate, isActual: false };
+}
+
+describe("createMergeStartRecorder", () => {
+  const graph = buildDependencyGraph(["a", "b", "m"], DEPENDENCIES);
+
+  it("records each trial's start and which link set it", () => {
+    const recorder = createMergeStartRecorder(graph, ACTIVITIES, 3, undefined, undefined, undefined)!;
+    recorder.record(0, new Map([["a", 4], ["b", 8], ["m", 1]]));
+    recorder.record(1, new Map([["a", 9], ["b", 2], ["m", 1]]));
+    recorder.record(2, new Map([["a", 6], ["b", 7], ["m", 1]]));
+    const result = recorder.results()!.m!;
+    expect(result.meanStart).toBeCloseTo(8, 10);
+    expect(result.p50Start).toBe(8);
+    expect(result.drivers).toEqual({ a: 1 / 3, b: 2 / 3 });
+  });
+
+  it("credits no link when a floor sets the start", () => {
+    const floors = new Map([["m", 20]]);
+    const recorder = createMergeStartRecorder(graph, ACTIVITIES, 1, floors, undefined, undefined)!;
+    recorder.record(0, new Map([["a", 4], ["b", 8], ["m", 1]]));
+    expect(recorder.results()!.m).toEqual({ meanStart: 20, p50Start: 20, p80Start: 20, drivers: {} });
+  });
+
+  it("leaves out skipped trials, and a merge point skipped in every trial", () => {
+    const skipped = new Set<string>();
+    const recorder = createMergeStartRecorder(graph, ACTIVITIES, 2, undefined, undefined, skipped)!;
+    recorder.record(0, new Map([["a", 4], ["b", 8], ["m", 1]]));
+    skipped.add("m");
+    recorder.record(1, new Map([["a", 20], ["b", 8], ["m", 0]]));
+    expect(recorder.results()!.m!.meanStart).toBe(8);
+
+    const never = createMergeStartRecorder(graph, ACTIVITIES, 1, undefined, undefined, new Set(["m"]))!;
+    never.record(0, new Map([["a", 4], ["b", 8], ["m", 0]]));
+    expect(never.results()).toBeUndefined();
+  });
+
+  it("is null without a not-yet-complete merge point", () => {
+    const done = [makeActivity("a"), makeActivity("b"), makeActivity("m", { status: "complete", actualDuration: 3 })];
+    expect(createMergeStartRecorder(graph, done, 1, undefined, undefined, undefined)).toBeNull();
+    const chain = buildDependencyGraph(["a", "m"], [fsDep("a", "m")]);
+    expect(createMergeStartRecorder(chain, ACTIVITIES, 1, undefined, undefined, undefined)).toBeNull();
+  });
+});
+
+describe("merge bias in runDependencyTrials", () => {
+  it("starts a merge of two equal paths later on average than either path finishes", () => {
+    const result = runDependencyTrials({
+      activities: ACTIVITIES,
+      dependencies: DEPENDENCIES,
+      trialCount: 4000,
+      rngSeed: "merge-bias",
+    });
+    const m = result.mergePoints!.m!;
+    // E[max] of two Triangular(5, 10, 15) is about 11.2; either alone averages 10.
+    expect(m.meanStart).toBeGreaterThan(10.8);
+    expect(m.meanStart).toBeLessThan(11.6);
+    expect(m.drivers.a! + m.drivers.b!).toBeCloseTo(1, 10);
+    expect(m.drivers.a!).toBeGreaterThan(0.4);
+  });
+
+  it("is omitted for a network with no merge point", () => {
+    const result = runDependencyTrials({
+      activities: ACTIVITIES,
+      dependencies: [fsDep("a", "m")],
+      trialCount: 100,
+      rngSeed: "merge-none",
+    });
+    expect(result.mergePoints).toBeUndefined();
+  });
+});
+
+describe("computeMergeBias", () => {
+  const mergePoints: Record<string, MergePointResult> = {
+    m: { meanStart: 12.5, p50Start: 12, p80Start: 14, drivers: { a: 0.3, b: 0.7 } },
+    n: { meanStart: 4, p50Start: 4, p80Start: 5, drivers: { c: 1 } },
+    gone: { meanStart: 1, p50Start: 1, p80Start: 1, drivers: {} },
+  };
+  // 2025-01-06 is a Monday; 2025-01-20 is ten working days on, 2025-01-09 three.
+  const schedule = [scheduled("m", "2025-01-20"), scheduled("n", "2025-01-09")];
+
+  it("compares the simulated mean with the planned start, largest bias first", () => {
+    const rows = computeMergeBias(mergePoints, schedule, "2025-01-06");
+    expect(rows.map((r) => [r.activityId, r.deterministicStart, r.biasDays])).toEqual([
+      ["m", 10, 2.5],
+      ["n", 3, 1],
+    ]);
+  });
+
+  it("orders the drivers by share", () => {
+    const rows = computeMergeBias(mergePoints, schedule, "2025-01-06");
+    expect(rows[0]!.drivers).toEqual([
+      { predecessorId: "b", share: 0.7 },
+      { predecessorId: "a", share: 0.3 },
+    ]);
+  });
+
+  it("is empty without results", () => {
+    expect(computeMergeBias(undefined, schedule, "2025-01-06")).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type {
+  Activity,
+  Calendar,
+  MergePointResult,
+  ScheduledActivity,
+} from "@domain/models/types";
+import { percentile } from "@core/analytics/analytics";
+import {
+  drivingPredecessor,
+  findMergePoints,
+  placeActivityForward,
+  type DependencyGraph,
+} from "@core/schedule/dependency-graph";
+import type { ActivityCalendarResolver } from "@core/schedule/activity-calendars";
+import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
+import { countWorkingDays, parseDateISO } from "@core/calendar/calendar";
+
+/**
+ * Merge bias at convergence points.
+ *
+ * Where several parallel paths meet, the successor starts when the LAST of them finishes,
+ * and the expected maximum of several uncertain finishes is later than any one of their
+ * expected finishes. The deterministic schedule, built from one duration per activity,
+ * cannot show that. The trials can: each one records the start of every merge point and
+ * which incoming link set it.
+ *
+ * Placement is the milestone-aware pass — dependencies, milestone and release floors, hard
+ * constraints. Resource leveling is NOT applied: the report is about what converging paths
+ * do to a start, and a wait for a resource is a different delay.
+ */
+
+type ConstraintEntry = { type: string; offsetFromStart: number; mode: string };
+
+export interface MergeStartRecorder {
+  /** Place this trial's durations and record every merge point's start and driver. */
+  record(trial: number, durations: Map<string, number>): void;
+  /** Per-merge-point results, converted from axis days when the run had activity calendars. */
+  results(calendars?: ActivityCalendarResolver): Record<string, MergePointResult> | undefined;
+}
+
+interface TrackedMergePoint {
+  id: string;
+  starts: Float64Array;
+  /** Trials each predecessor's link set the start in; floors and constraints count for none. */
+  driverCounts: Map<string, number>;
+}
+
+/**
+ * Build the recorder for a simulation, or null when no not-yet-complete activity is a
+ * merge point. Completed work is left out for the criticality index's reason: its start
+ * is history, not a forecast.
+ *
+ * A trial that skipped the merge point (branching.ts) records NaN; its statistics cover
+ * the trials it ran in.
+ *
+ * ⚠️ One extra forward pass per trial when there is a merge point — the recorders' passes
+ * do not keep the early starts, and leveling would move them anyway.
+ */
+export function createMergeStartRecorder(
+  graph: DependencyGraph,
+  activities: Activity[],
+  trialCount: number,
+  activityEarliestStart: Map<string, number> | undefined,
+  constraintMap: Map<string, ConstraintEntry> | undefined,
+  skipped: ReadonlySet<string> | undefined,
+): MergeStartRecorder | null {
+  const completed = new Set(
+    activities.filter((a) => a.status === "complete" && a.actualDuration != null).map((a) => a.id),
+  );
+  const tracked: TrackedMergePoint[] = findMergePoints(graph)
+    .filter((id) => !completed.has(id))
+    .map((id) => ({ id, starts: new Float64Array(trialCount), driverCounts: new Map() }));
+  if (tracked.length === 0) return null;
+
+  // Reused across trials, like the duration map in runDependencyTrials.
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+
+  return {
+    record(trial, durations) {
+      earlyStart.clear();
+      earlyFinish.clear();
+      for (const id of graph.topologicalOrder) {
+        const placed = placeActivityForward(
+          graph, id, durations.get(id) ?? 0, earlyStart, earlyFinish,
+          activityEarliestStart, constraintMap?.get(id),
+        );
+        earlyStart.set(id, placed.es);
+        earlyFinish.set(id, placed.ef);
+      }
+      for (const point of tracked) {
+        if (skipped?.has(point.id)) {
+          point.starts[trial] = Number.NaN;
+          continue;
+        }
+        const es = earlyStart.get(point.id)!;
+        point.starts[trial] = es;
+        const driver = drivingPredecessor(
+          graph, point.id, durations.get(point.id) ?? 0, es, earlyStart, earlyFinish,
+        );
+        if (driver !== undefined) point.driverCounts.set(driver, (point.driverCounts.get(driver) ?? 0) + 1);
+      }
+    },
+    results(calendars) {
+      const results: Record<string, MergePointResult> = {};
+      for (const point of tracked) {
+        const result = summarizeStarts(point, calendars);
+        if (result) results[point.id] = result;
+      }
+      return Object.keys(results).length > 0 ? results : undefined;
+    },
+  };
+}
+
+function summarizeStarts(
+  point: TrackedMergePoint,
+  calendars: ActivityCalendarResolver | undefined,
+): MergePointResult | undefined {
+  const ran = point.starts.filter((s) => !Number.isNaN(s));
+  if (ran.length === 0) return undefined;
+  if (calendars) {
+    for (let i = 0; i < ran.length; i++) ran[i] = calendars.fromAxis(ran[i]!);
+  }
+  let sum = 0;
+  for (const s of ran) sum += s;
+  ran.sort();
+  return {
+    meanStart: sum / ran.length,
+    p50Start: percentile(ran, 0.5),
+    p80Start: percentile(ran, 0.8),
+    drivers: Object.fromEntries(
+      Array.from(point.driverCounts, ([id, n]) => [id, n / ran.length]),
+    ),
+  };
+}
+
+// -- Report -------------------------------------------------------------------
+
+/** One merge point as the report shows it. */
+export interface MergeBiasRow {
+  activityId: string;
+  /** Deterministic early start, working days from project start. */
+  deterministicStart: number;
+  result: MergePointResult;
+  /** Mean simulated start less the deterministic start, in working days. */
+  biasDays: number;
+  /** Incoming links that set the start in some trial, most frequent first. */
+  drivers: { predecessorId: string; share: number }[];
+}
+
+/**
+ * The merge-bias report: every merge point the last run measured next to its start in
+ * the deterministic schedule, largest bias first. A merge point the schedule does not
+ * place (conditional work the plan leaves out) is skipped.
+ */
+export function computeMergeBias(
+  mergePoints: Record<string, MergePointResult> | undefined,
+  scheduledActivities: ScheduledActivity[],
+  startDate: string,
+  calendar?: WorkCalendar | Calendar,
+): MergeBiasRow[] {
+  if (!mergePoints) return [];
+  const projectStart = advanceToNextWorkingDay(parseDateISO(startDate), calendar);
+  const scheduled = new Map(scheduledActivities.map((sa) => [sa.activityId, sa]));
+  const rows: MergeBiasRow[] = [];
+  for (const [activityId, result] of Object.entries(mergePoints)) {
+    const sa = scheduled.get(activityId);
+    if (!sa) continue;
+    const deterministicStart = countWorkingDays(projectStart, parseDateISO(sa.startDate), calendar);
+    rows.push({
+      activityId,
+      deterministicStart,
+      result,
+      biasDays: result.meanStart - deterministicStart,
+      drivers: Object.entries(result.drivers)
+        .map(([predecessorId, share]) => ({ predecessorId, share }))
+        .sort((a, b) => b.share - a.share),
+    });
+  }
+  return rows.sort((a, b) => b.biasDays - a.biasDays);
+}
@@ -149,6 +149,7 @@ function buildCases(): Case[] {
             ...depP.dependencyParams!,
             deterministicDurationMap: durMap,
             milestoneActivityIds: toMap(depP.dependencyParams!.milestoneActivityIds),
+            summaryActivityIds: toMap(depP.dependencyParams!.summaryActivityIds),
             constraintMap: toMap(depP.dependencyParams!.constraintMap),
             activityEarliestStart: toMap(depP.dependencyParams!.activityEarliestStart),
             trialCount,
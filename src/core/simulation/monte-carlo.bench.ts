@@ -175,6 +175,7 @@ describe("§3.7 Phase 1 — Monte Carlo hot loops", () => {
           ...depParams.dependencyParams!,
           deterministicDurationMap: durMap,
           milestoneActivityIds: toMap(depParams.dependencyParams!.milestoneActivityIds),
+          summaryActivityIds: toMap(depParams.dependencyParams!.summaryActivityIds),
           constraintMap: toMap(depParams.dependencyParams!.constraintMap),
           activityEarliestStart: toMap(depParams.dependencyParams!.activityEarliestStart),
           trialCount: TRIALS,
@@ -238,6 +239,7 @@ describe("§3.7 Phase 1 — Monte Carlo hot loops", () => {
               ...depParams.dependencyParams!,
               deterministicDurationMap: durMap,
               milestoneActivityIds: toMap(depParams.dependencyParams!.milestoneActivityIds),
+              summaryActivityIds: toMap(depParams.dependencyParams!.summaryActivityIds),
           constraintMap: toMap(depParams.dependencyParams!.constraintMap),
               activityEarliestStart: toMap(depParams.dependencyParams!.activityEarliestStart),
               trialCount: n,
@@ -4,8 +4,17 @@
 
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
-import { runMonteCarloSimulation, runTrials, runDependencyTrials, computeSimulationStats } from "./monte-carlo";
+import {
+  runMonteCarloSimulation,
+  runTrials,
+  runDependencyTrials,
+  computeSimulationStats,
+  computeMilestoneStats,
+} from "./monte-carlo";
 import type { Activity, ActivityDependency } from "@domain/models/types";
+import { buildElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import { buildActivityCalendarAxis } from "@core/schedule/activity-calendars";
+import { buildNamedWorkCalendar } from "@core/calendar/work-calendar";
 
 function makeActivity(overrides: Partial<Activity> = {}): Activity {
   return {
@@ -425,6 +434,92 @@ describe("runDependencyTrials", () => {
       expect(result.samples[i]!).toBe(13);
     }
   });
+
+  it("resolves elapsed-day lags against the supplied calendar sample", () => {
+    const activities = [
+      makeActivity({ id: "a1", status: "complete", actualDuration: 5 }),
+      makeActivity({ id: "a2", status: "complete", actualDuration: 3 }),
+    ];
+    const deps: ActivityDependency[] = [{ ...fsDep("a1", "a2", 2), lagUnit: "elapsed" }];
+    const base = { activities, dependencies: deps, trialCount: 100, rngSeed: "elapsed-lag" };
+
+    // Project starts Mon Jan 6: a1 ends Fri, the weekend covers the lag, a2 runs Mon–Wed.
+    const elapsed = runDependencyTrials({
+      ...base,
+      elapsedLagCalendar: buildElapsedLagCalendar("2025-01-06"),
+    });
+    expect(elapsed.samples[0]).toBe(8);
+
+    // Without a calendar sample the lag falls back to working days: 5 + 2 + 3.
+    expect(runDependencyTrials(base).samples[0]).toBe(10);
+  });
+
+  it("resolves percentage lags per trial from the sampled predecessor duration", () => {
+    const activities = [
+      makeActivity({ id: "a1", min: 10, mostLikely: 15, max: 20, distributionType: "uniform" }),
+      makeActivity({ id: "a2", status: "complete", actualDuration: 100 }),
+    ];
+    const deps: ActivityDependency[] = [
+      { fromActivityId: "a1", toActivityId: "a2", type: "SS", lagDays: 0, lagPercent: 60 },
+    ];
+    const result = runDependencyTrials({
+      activities,
+      dependencies: deps,
+      trialCount: 1000,
+      rngSeed: "percent-lag",
+    });
+    // Project = 60% of a1's sampled 10–20 days + 100, so it moves with a1.
+    const samples = Array.from(result.samples);
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(106);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(112);
+    expect(new Set(samples).size).toBeGreaterThan(1);
+  });
+
+  it("levels every trial when a resource model is supplied", () => {
+    const activities = [
+      makeActivity({ id: "a1", min: 2, mostLikely: 4, max: 8, distributionType: "uniform" }),
+      makeActivity({ id: "a2", min: 2, mostLikely: 4, max: 8, distributionType: "uniform" }),
+    ];
+    const base = { activities, dependencies: [], trialCount: 500, rngSeed: "leveling" };
+    const resourceLeveling = {
+      demands: {
+        a1: [{ resourceId: "r1", units: 1 }],
+        a2: [{ resourceId: "r1", units: 1 }],
+      },
+      capacities: { r1: 1 },
+      placementOrder: ["a1", "a2"],
+    };
+    const parallel = runDependencyTrials(base).samples;
+    const leveled = runDependencyTrials({ ...base, resourceLeveling }).samples;
+    // Same seed, same sampled durations: leveled = a1 + a2, unleveled = max(a1, a2).
+    for (let i = 0; i < 500; i++) {
+      expect(leveled[i]!).toBeGreaterThan(parallel[i]!);
+    }
+  });
+
+  it("runs activities on their own calendars and reports project days", () => {
+    const activities = [
+      makeActivity({ id: "a1", status: "complete", actualDuration: 4 }),
+      makeActivity({ id: "a2", status: "complete", actualDuration: 3, calendarId: "vendor" }),
+      makeActivity({ id: "a3", status: "complete", actualDuration: 2 }),
+    ];
+    const base = {
+      activities,
+      dependencies: [fsDep("a1", "a2"), fsDep("a2", "a3")],
+      trialCount: 100,
+      rngSeed: "calendars",
+    };
+    const vendor = buildNamedWorkCalendar({
+      id: "vendor", name: "Vendor", workDays: [0, 1, 2, 3, 4, 5, 6], holidays: [],
+    });
+    // Mon Jan 5: a1 Mon–Thu, a2 Fri–Sun on the vendor's 7-day week, a3 Mon–Tue.
+    const withCalendars = runDependencyTrials({
+      ...base,
+      activityCalendarAxis: buildActivityCalendarAxis("2026-01-05", undefined, new Map([["a2", vendor]])),
+    });
+    expect(withCalendars.samples[0]).toBe(7);
+    expect(runDependencyTrials(base).samples[0]).toBe(9);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -833,6 +928,358 @@ describe("milestone Monte Carlo", () => {
       expect(ms[i]!).toBeGreaterThanOrEqual(15);
     }
   });
+
+  it("activityEarliestStart floors the project without any milestone (status-date releases)", () => {
+    const activities = [
+      makeActivity({ id: "a1", min: 5, mostLikely: 5, max: 5 }),
+      makeActivity({ id: "a2", min: 5, mostLikely: 5, max: 5 }),
+    ];
+    const result = runDependencyTrials({
+      activities,
+      dependencies: [],
+      trialCount: 100,
+      rngSeed: "release-offset",
+      activityEarliestStart: new Map([["a2", 10]]),
+    });
+    for (let i = 0; i < result.samples.length; i++) {
+      expect(result.samples[i]!).toBeGreaterThanOrEqual(15);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// WBS summary Monte Carlo
+// ---------------------------------------------------------------------------
+
+describe("WBS summary Monte Carlo", () => {
+  const activities = [
+    makeActivity({ id: "a1", min: 3, mostLikely: 5, max: 10 }),
+    makeActivity({ id: "a2", min: 3, mostLikely: 5, max: 10 }),
+    makeActivity({ id: "a3", min: 3, mostLikely: 5, max: 10 }),
+  ];
+  const deps = [fsDep("a1", "a2"), fsDep("a2", "a3")];
+
+  it("records each summary as the latest finish beneath it", () => {
+    const result = runDependencyTrials({
+      activities,
+      dependencies: deps,
+      trialCount: 500,
+      rngSeed: "wbs-summary",
+      summaryActivityIds: new Map([["w1", ["a1", "a2"]], ["w0", ["a1", "a2", "a3"]]]),
+    });
+
+    expect(result.milestoneSamples).toBeUndefined();
+    const outer = result.summarySamples!.get("w0")!;
+    const inner = result.summarySamples!.get("w1")!;
+    for (let i = 0; i < result.samples.length; i++) {
+      expect(outer[i]!).toBe(result.samples[i]!);
+      expect(inner[i]!).toBeLessThan(outer[i]!);
+    }
+  });
+
+  it("keeps milestone and summary series apart when both are present", () => {
+    const result = runDependencyTrials({
+      activities,
+      dependencies: deps,
+      trialCount: 500,
+      rngSeed: "wbs-and-milestone",
+      milestoneActivityIds: new Map([["m1", ["a1"]]]),
+      summaryActivityIds: new Map([["w1", ["a1", "a2"]]]),
+    });
+
+    expect(Array.from(result.milestoneSamples!.keys())).toEqual(["m1"]);
+    expect(Array.from(result.summarySamples!.keys())).toEqual(["w1"]);
+    const ms = result.milestoneSamples!.get("m1")!;
+    const ws = result.summarySamples!.get("w1")!;
+    for (let i = 0; i < ms.length; i++) expect(ms[i]!).toBeLessThan(ws[i]!);
+  });
+
+  it("gives the same project samples with or without summaries", () => {
+    const base = { activities, dependencies: deps, trialCount: 500, rngSeed: "wbs-neutral" };
+    const plain = runDependencyTrials(base);
+    const withWbs = runDependencyTrials({ ...base, summaryActivityIds: new Map([["w1", ["a2"]]]) });
+    expect(Array.from(withWbs.samples)).toEqual(Array.from(plain.samples));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Criticality index
+// ---------------------------------------------------------------------------
+
+describe("criticality index", () => {
+  it("is 1 for every activity of a serial chain", () => {
+    const result = runDependencyTrials({
+      activities: [makeActivity({ id: "a1" }), makeActivity({ id: "a2" }), makeActivity({ id: "a3" })],
+      dependencies: [fsDep("a1", "a2"), fsDep("a2", "a3")],
+      trialCount: 200,
+      rngSeed: "crit-chain",
+    });
+    expect(result.criticalityIndex).toEqual({ a1: 1, a2: 1, a3: 1 });
+  });
+
+  it("splits between competing branches and never reaches a dominated one", () => {
+    const result = runDependencyTrials({
+      activities: [
+        makeActivity({ id: "a", min: 5, mostLikely: 10, max: 15, distributionType: "triangular" }),
+        makeActivity({ id: "b", min: 5, mostLikely: 10, max: 15, distributionType: "triangular" }),
+        makeActivity({ id: "c", min: 1, mostLikely: 2, max: 3, distributionType: "triangular" }),
+        makeActivity({ id: "end", min: 1, mostLikely: 2, max: 3, distributionType: "triangular" }),
+      ],
+      dependencies: [fsDep("a", "end"), fsDep("b", "end"), fsDep("c", "end")],
+      trialCount: 2000,
+      rngSeed: "crit-branches",
+    });
+    const index = result.criticalityIndex!;
+    expect(index.end).toBe(1);
+    expect(index.c).toBe(0);
+    expect(index.a!).toBeGreaterThan(0.35);
+    expect(index.b!).toBeGreaterThan(0.35);
+    expect(index.a! + index.b!).toBeCloseTo(1, 2);
+  });
+
+  it("leaves completed activities out", () => {
+    const result = runDependencyTrials({
+      activities: [makeActivity({ id: "a1", status: "complete", actualDuration: 4 }), makeActivity({ id: "a2" })],
+      dependencies: [fsDep("a1", "a2")],
+      trialCount: 200,
+      rngSeed: "crit-complete",
+    });
+    expect(result.criticalityIndex).toEqual({ a2: 1 });
+  });
+
+  it("is omitted when every activity is complete", () => {
+    const result = runDependencyTrials({
+      activities: [makeActivity({ id: "a1", status: "complete", actualDuration: 4 })],
+      dependencies: [],
+      trialCount: 50,
+      rngSeed: "crit-done",
+    });
+    expect(result.criticalityIndex).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sample-based sensitivity
+// ---------------------------------------------------------------------------
+
+describe("sample-based sensitivity", () => {
+  // "wide" is the most uncertain activity but sits on a branch that never drives the
+  // finish; the analytic view ranks it first, the sample-based one should not.
+  const activities = [
+    makeActivity({ id: "main", min: 20, mostLikely: 30, max: 40, distributionType: "triangular" }),
+    makeActivity({ id: "wide", min: 1, mostLikely: 5, max: 15, distributionType: "triangular" }),
+    makeActivity({ id: "end", min: 2, mostLikely: 3, max: 4, distributionType: "triangular" }),
+  ];
+  const dependencies = [fsDep("main", "end"), fsDep("wide", "end")];
+
+  it("ranks the driving chain above a wide activity off the critical path", () => {
+    const result = runDependencyTrials({ activities, dependencies, trialCount: 3000, rngSeed: "ssi" });
+    const s = result.activitySensitivity!;
+    expect(s.main!.rankCorrelation).toBeGreaterThan(0.9);
+    expect(Math.abs(s.wide!.rankCorrelation)).toBeLessThan(0.1);
+    expect(s.wide!.ssi).toBe(0);
+    expect(s.main!.ssi).toBeGreaterThan(s.end!.ssi);
+  });
+
+  it("keeps measuring past the SENSITIVITY_SAMPLE_TRIALS cap", () => {
+    const result = runDependencyTrials({ activities, dependencies, trialCount: 6000, rngSeed: "ssi-cap" });
+    expect(Object.keys(result.activitySensitivity!).sort()).toEqual(["end", "main", "wide"]);
+    expect(result.activitySensitivity!.main!.rankCorrelation).toBeGreaterThan(0.9);
+  });
+
+  it("measures a sequential run too, every activity on the one path", () => {
+    const done = makeActivity({ id: "done", status: "complete", actualDuration: 4 });
+    const result = runTrials({ activities: [...activities, done], trialCount: 3000, rngSeed: "ssi-seq" });
+    const s = result.activitySensitivity!;
+    expect(Object.keys(s).sort()).toEqual(["end", "main", "wide"]);
+    expect(s.main!.rankCorrelation).toBeGreaterThan(s.wide!.rankCorrelation);
+    expect(s.wide!.rankCorrelation).toBeGreaterThan(0.2);
+    expect(s.wide!.ssi).toBeGreaterThan(0);
+    // The pure function carries it onto the run.
+    expect(runMonteCarloSimulation({ activities, trialCount: 500, rngSeed: "ssi-seq" }).activitySensitivity)
+      .toBeDefined();
+  });
+
+  it("scores a branch-skipped activity by the trials it ran in", () => {
+    const sometimes = makeActivity({
+      id: "sometimes", min: 5, mostLikely: 10, max: 20, distributionType: "triangular", occurrenceProbability: 0.5,
+    });
+    const result = runTrials({ activities: [activities[0]!, sometimes], trialCount: 3000, rngSeed: "ssi-skip" });
+    const s = result.activitySensitivity!;
+    expect(s.sometimes!.ssi).toBeGreaterThan(0);
+    expect(s.sometimes!.rankCorrelation).toBeGreaterThan(0.5);
+  });
+});
+
+describe("correlated durations", () => {
+  const activities = ["a", "b", "c", "d"].map((id) =>
+    makeActivity({ id, min: 5, mostLikely: 10, max: 20, distributionType: "triangular" }),
+  );
+  const allFour = [{ id: "g", name: "Team", activityIds: ["a", "b", "c", "d"], coefficient: 0.8 }];
+  const spread = (samples: Float64Array) => {
+    const sorted = Float64Array.from(samples).sort();
+    return sorted[Math.floor(sorted.length * 0.9)]! - sorted[Math.floor(sorted.length * 0.1)]!;
+  };
+
+  it("leaves the sample stream untouched when no group takes effect", () => {
+    const base = runTrials({ activities, trialCount: 2000, rngSeed: "corr" }).samples;
+    const ineffective = [{ id: "g", name: "Solo", activityIds: ["a"], coefficient: 0.8 }];
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "corr", correlationGroups: [] }).samples)
+      .toEqual(base);
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "corr", correlationGroups: ineffective }).samples)
+      .toEqual(base);
+  });
+
+  it("widens the sequential finish distribution without moving its mean", () => {
+    const independent = runTrials({ activities, trialCount: 20000, rngSeed: "corr" }).samples;
+    const correlated = runTrials({
+      activities, trialCount: 20000, rngSeed: "corr", correlationGroups: allFour,
+    }).samples;
+    expect(spread(correlated)).toBeGreaterThan(spread(independent) * 1.4);
+    const avg = (x: Float64Array) => x.reduce((sum, v) => sum + v, 0) / x.length;
+    expect(avg(correlated)).toBeCloseTo(avg(independent), 0);
+  });
+
+  it("applies in dependency mode and is reproducible for a seed", () => {
+    const dependencies = [fsDep("a", "b"), fsDep("c", "d")];
+    const run = () =>
+      runDependencyTrials({
+        activities, dependencies, trialCount: 5000, rngSeed: "corr-dep", correlationGroups: allFour,
+      }).samples;
+    const independent = runDependencyTrials({
+      activities, dependencies, trialCount: 5000, rngSeed: "corr-dep",
+    }).samples;
+    const correlated = run();
+    expect(correlated).toEqual(run());
+    expect(spread(correlated)).toBeGreaterThan(spread(independent) * 1.3);
+  });
+});
+
+describe("risk events", () => {
+  const activities = ["a", "b", "c"].map((id) =>
+    makeActivity({ id, min: 5, mostLikely: 10, max: 20, distributionType: "triangular" }),
+  );
+  const vendor = {
+    id: "r", name: "Vendor API late", probability: 0.3,
+    impactMin: 10, impactMostLikely: 15, impactMax: 20, activityIds: ["b"],
+  };
+  const p95 = (samples: Float64Array) => {
+    const sorted = Float64Array.from(samples).sort();
+    return sorted[Math.floor(sorted.length * 0.95)]!;
+  };
+
+  it("leaves the sample stream untouched when no risk takes effect", () => {
+    const base = runTrials({ activities, trialCount: 2000, rngSeed: "risk" }).samples;
+    const unplaced = [{ ...vendor, activityIds: [] }];
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "risk", risks: [] }).samples).toEqual(base);
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "risk", risks: unplaced }).samples)
+      .toEqual(base);
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "risk", risks: unplaced }).riskResults)
+      .toBeUndefined();
+  });
+
+  it("pushes out the sequential tail and reports the risk's contribution", () => {
+    const without = runTrials({ activities, trialCount: 20000, rngSeed: "risk" }).samples;
+    const result = runTrials({ activities, trialCount: 20000, rngSeed: "risk", risks: [vendor] });
+    expect(p95(result.samples) - p95(without)).toBeGreaterThan(8);
+    const measured = result.riskResults!["r"]!;
+    expect(measured.occurrence).toBeCloseTo(0.3, 1);
+    expect(measured.p95Contribution).toBeGreaterThan(8);
+  });
+
+  it("applies on the constrained sequential path", () => {
+    const input = {
+      activities, trialCount: 5000, rngSeed: "risk-con",
+      sequentialConstraints: [null, { type: "SNET", offsetFromStart: 2, mode: "hard" }, null],
+    };
+    const without = runTrials(input).samples;
+    const withRisk = runTrials({ ...input, risks: [vendor] }).samples;
+    expect(p95(withRisk) - p95(without)).toBeGreaterThan(8);
+  });
+
+  it("applies in dependency mode only through the affected activity's paths", () => {
+    // b runs in parallel with a → c, which is far longer; even a late b never drives the
+    // finish, so its measured contribution is subsample noise around 0.
+    const acts = [
+      makeActivity({ id: "a", min: 20, mostLikely: 25, max: 30, distributionType: "triangular" }),
+      makeActivity({ id: "b", min: 1, mostLikely: 2, max: 3, distributionType: "triangular" }),
+      makeActivity({ id: "c", min: 20, mostLikely: 25, max: 30, distributionType: "triangular" }),
+    ];
+    const dependencies = [fsDep("a", "c")];
+    const run = (risks = [vendor]) =>
+      runDependencyTrials({ activities: acts, dependencies, trialCount: 5000, rngSeed: "risk-dep", risks });
+    const offPath = run();
+    expect(offPath.samples).toEqual(run().samples);
+    expect(offPath.riskResults!["r"]!.p95Contribution).toBeCloseTo(0, 0);
+    const onPath = run([{ ...vendor, activityIds: ["a"] }]);
+    expect(onPath.riskResults!["r"]!.p95Contribution).toBeGreaterThan(8);
+  });
+});
+
+describe("conditional work", () => {
+  const activities = ["a", "b", "c"].map((id) =>
+    makeActivity({ id, min: 5, mostLikely: 10, max: 20, distributionType: "triangular" }),
+  );
+  const mean = (samples: Float64Array) => samples.reduce((sum, s) => sum + s, 0) / samples.length;
+  // Triangular(5, 10, 20) has mean 35 / 3.
+  const activityMean = 35 / 3;
+  const withOccurrence = (p: number) =>
+    activities.map((a) => (a.id === "b" ? { ...a, occurrenceProbability: p } : a));
+
+  it("leaves the sample stream untouched when nothing is conditional", () => {
+    const base = runTrials({ activities, trialCount: 2000, rngSeed: "branch" }).samples;
+    const emptyBranch = {
+      id: "x", name: "Empty",
+      paths: [
+        { id: "p1", name: "One", probability: 1, activityIds: [] },
+        { id: "p2", name: "Two", probability: 1, activityIds: [] },
+      ],
+    };
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "branch", branches: [] }).samples).toEqual(base);
+    expect(runTrials({ activities, trialCount: 2000, rngSeed: "branch", branches: [emptyBranch] }).samples)
+      .toEqual(base);
+  });
+
+  it("drops a skipped activity's duration on the fast sequential path", () => {
+    const without = mean(runTrials({ activities, trialCount: 20000, rngSeed: "cond" }).samples);
+    const withCond = mean(runTrials({ activities: withOccurrence(0.3), trialCount: 20000, rngSeed: "cond" }).samples);
+    expect(without - withCond).toBeCloseTo(0.7 * activityMean, 0);
+  });
+
+  it("applies on the constrained sequential path", () => {
+    const input = {
+      activities: withOccurrence(0.3), trialCount: 5000, rngSeed: "cond-con",
+      sequentialConstraints: [null, null, { type: "SNET", offsetFromStart: 2, mode: "hard" }],
+    };
+    const without = mean(runTrials({ ...input, activities }).samples);
+    expect(without - mean(runTrials(input).samples)).toBeGreaterThan(0.5 * activityMean);
+  });
+
+  it("takes one branch path per trial and reports how often a milestone is reached", () => {
+    // a → b → c or a → c: when the "Rework" path is not taken, b passes a's finish to c.
+    const dependencies = [fsDep("a", "b"), fsDep("b", "c")];
+    const branches = [
+      {
+        id: "rework", name: "Rework",
+        paths: [
+          { id: "yes", name: "Rework", probability: 0.25, activityIds: ["b"] },
+          { id: "no", name: "Accepted", probability: 0.75, activityIds: [] },
+        ],
+      },
+    ];
+    const milestoneActivityIds = new Map([["m1", ["b"]]]);
+    const run = (withBranches: boolean) =>
+      runDependencyTrials({
+        activities, dependencies, trialCount: 10000, rngSeed: "branch-dep", milestoneActivityIds,
+        ...(withBranches ? { branches } : {}),
+      });
+    const without = run(false);
+    const result = run(true);
+    expect(mean(without.samples) - mean(result.samples)).toBeCloseTo(0.75 * activityMean, 0);
+    const stats = computeMilestoneStats(result.milestoneSamples!);
+    expect(stats["m1"]!.occurrence).toBeCloseTo(0.25, 1);
+    expect(computeMilestoneStats(without.milestoneSamples!)["m1"]!.occurrence).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
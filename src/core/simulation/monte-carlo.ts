@@ -2,7 +2,19 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, ActivityDependency, SimulationRun } from "@domain/models/types";
+import type {
+  Activity,
+  ActivityDateResult,
+  ActivityDependency,
+  ActivitySensitivity,
+  CorrelationGroup,
+  ExclusiveBranch,
+  MergePointResult,
+  RiskEvent,
+  RiskResult,
+  SamplingMethod,
+  SimulationRun,
+} from "@domain/models/types";
 import { ENGINE_VERSION } from "@domain/models/types";
 import { createDistributionForActivity } from "@core/distributions/factory";
 import { buildMcDistribution } from "@core/distributions/truncated";
@@ -17,11 +29,32 @@ import {
   standardDeviation as computeSD,
   histogram,
 } from "@core/analytics/analytics";
+import { computeSampleSensitivity, SENSITIVITY_SAMPLE_TRIALS } from "@core/analytics/sensitivity";
 import {
   buildDependencyGraph,
   computeCriticalPathDuration,
   computeCriticalPathWithMilestones,
+  computeMilestoneDurations,
+  computeNetworkOffsets,
 } from "@core/schedule/dependency-graph";
+import { createElapsedLagResolver, type ElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import { levelActivities, type ResourceLevelingModel } from "@core/schedule/resource-leveling";
+import {
+  createActivityCalendarResolver,
+  type ActivityCalendarAxis,
+  type ActivityCalendarResolver,
+} from "@core/schedule/activity-calendars";
+import { createCorrelationSampler, type CorrelationSampler } from "./correlation";
+import { createStratifiedSampler, type StratifiedSampler } from "./latin-hypercube";
+import { computeCostResult, createCostRecorder } from "./cost";
+import { createRiskSampler, type RiskSampler } from "./risk-events";
+import { createBranchSampler, type BranchSampler } from "./branching";
+import { createMergeStartRecorder } from "./merge-points";
+import {
+  createActivityDateRecorder,
+  makeNetworkDateRecorder,
+  type ActivityDateRecorder,
+} from "./activity-dates";
 
 /** Per-activity constraint info for sequential mode (parallel to activities array). */
 export interface SequentialConstraintEntry {
@@ -38,6 +71,14 @@ export interface MonteCarloInput {
   deterministicDurations?: number[];
   /** Per-activity constraint info for sequential mode (parallel to activities array, null = no constraint). */
   sequentialConstraints?: (SequentialConstraintEntry | null)[];
+  /** Groups of activities whose durations are correlated; absent = independent (correlation.ts). */
+  correlationGroups?: CorrelationGroup[];
+  /** The scenario's risk register; absent = no discrete risk events (risk-events.ts). */
+  risks?: RiskEvent[];
+  /** Exclusive branches; absent = none. Conditional activities need no input (branching.ts). */
+  branches?: ExclusiveBranch[];
+  /** How the trials draw durations; absent = random (latin-hypercube.ts). */
+  samplingMethod?: SamplingMethod;
   /** Optional progress callback, called every `progressInterval` trials. */
   onProgress?: (completedTrials: number, totalTrials: number) => void;
   /** How often to report progress (default: 10000). */
@@ -49,14 +90,34 @@ type SequentialActivityInfo =
   | { type: "complete"; duration: number }
   | { type: "active"; distIndex: number; floor: number };
 
+/**
+ * The distribution an activity samples from: through its correlation group when it has
+ * one, else stratified when the run samples by Latin Hypercube, else `dist` itself.
+ */
+function samplingDistribution(
+  activityId: string,
+  dist: Distribution,
+  correlation: CorrelationSampler | null,
+  strata: StratifiedSampler | null,
+): Distribution {
+  const correlated = correlation ? correlation.wrap(activityId, dist) : dist;
+  return correlated === dist && strata ? strata.wrap(dist) : correlated;
+}
+
 /**
  * Split activities into a completed-duration sum and a distribution list.
  *
  * Runs ONCE per simulation, not per trial — extracting it costs nothing measurable.
  * The conditional-sampling seam (v0.49.0) lives here: in-progress activities draw from
- * X | X > t, and an activity whose model is exhausted is reported by id.
+ * X | X > t, and an activity whose model is exhausted is reported by id. A grouped
+ * activity's distribution is wrapped by the correlation sampler, conditioning included;
+ * under Latin Hypercube sampling every other one is wrapped in its strata.
  */
-function buildActivityDistributions(activities: Activity[]): {
+function buildActivityDistributions(
+  activities: Activity[],
+  correlation: CorrelationSampler | null,
+  strata: StratifiedSampler | null,
+): {
   completedSum: number;
   distributions: Distribution[];
   exhaustedIds: string[];
@@ -70,7 +131,7 @@ function buildActivityDistributions(activities: Activity[]): {
     } else {
       const base = createDistributionForActivity(activity);
       const { dist, isExhausted } = buildMcDistribution(activity, base);
-      distributions.push(dist);
+      distributions.push(samplingDistribution(activity.id, dist, correlation, strata));
       if (isExhausted) exhaustedIds.push(activity.id);
     }
   }
@@ -140,24 +201,150 @@ function applyHardConstraint(
   }
 }
 
-/** The per-trial sample loop for the constrained path — positions, not a plain sum. */
+/**
+ * The per-trial event samplers, each null when the scenario does not use it. Kept in one
+ * bundle so the trial loops take one parameter for all of them.
+ */
+interface TrialSamplers {
+  correlation: CorrelationSampler | null;
+  risks: RiskSampler | null;
+  branches: BranchSampler | null;
+}
+
+/**
+ * Draw this trial's events. Risks first, then branches, then correlation factors — the
+ * order fixes the stream, so a run without branches draws exactly what it did before.
+ */
+function beginTrial(samplers: TrialSamplers, rng: SeededRng, trial: number): void {
+  samplers.risks?.fire(rng, trial);
+  samplers.branches?.beginTrial(rng);
+  samplers.correlation?.beginTrial(rng);
+}
+
+/**
+ * One active activity's duration in the constrained loop, or null when the trial skips
+ * it. The duration is drawn either way, which keeps the stream independent of branching.
+ * The floored draw is also written to `slots` (NaN when skipped) for the trial recorders.
+ */
+function activeTrialDuration(
+  info: Extract<SequentialActivityInfo, { type: "active" }>,
+  distributions: Distribution[],
+  samplers: TrialSamplers,
+  rng: SeededRng,
+  slots: Float64Array,
+): number | null {
+  const sampled = distributions[info.distIndex]!.sample(rng);
+  if (samplers.branches?.skipsSlot(info.distIndex)) {
+    slots[info.distIndex] = Number.NaN;
+    return null;
+  }
+  const duration = Math.max(info.floor, sampled);
+  slots[info.distIndex] = duration;
+  return duration + (samplers.risks?.delayAt(info.distIndex) ?? 0);
+}
+
+/**
+ * Record one sequential trial's activity dates from its slot durations: positions in
+ * activity order, completed work and risk delays included, hard constraints applied the
+ * way the constrained loop applies them. The fast loop never tracks positions, so both
+ * loops leave this to one place.
+ */
+function recordSequentialDates(
+  dates: ActivityDateRecorder,
+  trial: number,
+  infos: SequentialActivityInfo[],
+  slots: Float64Array,
+  risks: RiskSampler | null,
+  sequentialConstraints: (SequentialConstraintEntry | null)[] | undefined,
+): void {
+  if (trial >= dates.sampleTrials) return;
+  let pos = 0;
+  for (let a = 0; a < infos.length; a++) {
+    const info = infos[a]!;
+    const duration = info.type === "complete"
+      ? info.duration
+      : slots[info.distIndex]! + (risks?.delayAt(info.distIndex) ?? 0);
+    // NaN = skipped: recorded as such, and it holds no position.
+    if (Number.isNaN(duration)) {
+      dates.set(trial, a, duration, duration);
+      continue;
+    }
+    const constraint = sequentialConstraints?.[a];
+    if (constraint?.mode === "hard") pos = applyHardConstraint(pos, duration, constraint);
+    dates.set(trial, a, pos, pos + duration);
+    pos += duration;
+  }
+}
+
+/**
+ * Sample-based sensitivity for a sequential run, from the same `slots` the date recorder
+ * reads: each active activity's duration (risk delay included, 0 when skipped) over the
+ * first SENSITIVITY_SAMPLE_TRIALS trials, as makeDurationSampler keeps it in dependency
+ * mode. A sequential plan has one path, so an activity counts as critical in every trial
+ * it runs — its criticality is the share of kept trials a branch did not skip. Where a
+ * hard constraint's idle gap absorbs an activity, that overstates its SSI; the rank
+ * correlation still shows the weaker link.
+ */
+function createSequentialSensitivityRecorder(
+  activities: Activity[],
+  slots: Float64Array,
+  risks: RiskSampler | null,
+  trialCount: number,
+): {
+  record: (trial: number) => void;
+  results: (samples: Float64Array) => Record<string, ActivitySensitivity> | undefined;
+} {
+  const kept = Math.min(trialCount, SENSITIVITY_SAMPLE_TRIALS);
+  const slotIds = activities
+    .filter((a) => !(a.status === "complete" && a.actualDuration != null))
+    .map((a) => a.id);
+  const series = slotIds.map(() => new Float64Array(kept));
+  const ran = new Uint32Array(slotIds.length);
+  return {
+    record: (trial) => {
+      if (trial >= kept) return;
+      for (let i = 0; i < series.length; i++) {
+        const duration = slots[i]!;
+        if (Number.isNaN(duration)) continue;
+        series[i]![trial] = duration + (risks?.delayAt(i) ?? 0);
+        ran[i]!++;
+      }
+    },
+    results: (samples) => {
+      if (kept === 0 || slotIds.length === 0) return undefined;
+      const criticality = Object.fromEntries(slotIds.map((id, i) => [id, ran[i]! / kept]));
+      return computeSampleSensitivity(
+        new Map(slotIds.map((id, i) => [id, series[i]!])), samples, criticality,
+      );
+    },
+  };
+}
+
+/**
+ * The per-trial sample loop for the constrained path — positions, not a plain sum.
+ * `recordTrial` is the per-trial recording step (activity dates, sensitivity).
+ */
 function runConstrainedTrials(
   samples: Float64Array,
   infos: SequentialActivityInfo[],
   distributions: Distribution[],
   sequentialConstraints: (SequentialConstraintEntry | null)[],
   rng: SeededRng,
+  samplers: TrialSamplers,
+  slots: Float64Array,
+  recordTrial: (trial: number) => void,
   reportProgress: ((trial: number) => void) | null,
 ): void {
   const trialCount = samples.length;
   for (let trial = 0; trial < trialCount; trial++) {
+    beginTrial(samplers, rng, trial);
     let currentPos = 0; // cumulative working-day offset from project start
     for (let a = 0; a < infos.length; a++) {
       const info = infos[a]!;
       const duration =
-        info.type === "complete"
-          ? info.duration
-          : Math.max(info.floor, distributions[info.distIndex]!.sample(rng));
+        info.type === "complete" ? info.duration : activeTrialDuration(info, distributions, samplers, rng, slots);
+      // Skipped: zero length, and its constraint does not hold the position either.
+      if (duration === null) continue;
       const constraint = sequentialConstraints[a];
       if (constraint && constraint.mode === "hard") {
         currentPos = applyHardConstraint(currentPos, duration, constraint);
@@ -165,28 +352,50 @@ function runConstrainedTrials(
       currentPos += duration;
     }
     samples[trial] = currentPos;
+    recordTrial(trial);
     reportProgress?.(trial);
   }
 }
 
-/** The per-trial sample loop for the unconstrained fast path — a plain sum. */
+/**
+ * The per-trial sample loop for the unconstrained fast path — a plain sum. Each slot's
+ * floored draw also goes to `slots` (NaN when skipped) for `recordTrial`, as in the
+ * constrained loop; one typed-array store per activity, measured below the bench's noise.
+ * Like `sampleTrialDurations`, it draws every slot once per trial, skipped or not — the
+ * count a Latin Hypercube distribution keeps.
+ */
 function runFastTrials(
   samples: Float64Array,
   completedSum: number,
   distributions: Distribution[],
   deterministicDurations: number[] | undefined,
   rng: SeededRng,
+  samplers: TrialSamplers,
+  slots: Float64Array,
+  recordTrial: (trial: number) => void,
   reportProgress: ((trial: number) => void) | null,
 ): void {
   const trialCount = samples.length;
+  const { risks, branches } = samplers;
   for (let trial = 0; trial < trialCount; trial++) {
+    beginTrial(samplers, rng, trial);
     let totalDays = completedSum;
     for (let i = 0; i < distributions.length; i++) {
       const sampled = distributions[i]!.sample(rng);
+      if (branches?.skipsSlot(i)) {
+        // Skipped work takes no time, and a risk on it has nothing to delay.
+        if (risks) totalDays -= risks.delayAt(i);
+        slots[i] = Number.NaN;
+        continue;
+      }
       const floor = deterministicDurations?.[i] ?? 0;
-      totalDays += Math.max(floor, sampled);
+      const duration = Math.max(floor, sampled);
+      slots[i] = duration;
+      totalDays += duration;
     }
+    if (risks) totalDays += risks.totalDelay();
     samples[trial] = totalDays;
+    recordTrial(trial);
     reportProgress?.(trial);
   }
 }
@@ -217,39 +426,77 @@ function makeProgressReporter(
  * Parkinson's Law: each activity's duration is at least its deterministic
  * (scheduled) duration, because work expands to fill time allotted.
  */
-export function runTrials(input: MonteCarloInput): { samples: Float64Array; exhaustedIds: string[] } {
+export function runTrials(input: MonteCarloInput): {
+  samples: Float64Array;
+  exhaustedIds: string[];
+  activitySensitivity?: Record<string, ActivitySensitivity>;
+  riskResults?: Record<string, RiskResult>;
+  activityDates?: Record<string, ActivityDateResult>;
+  /** Project cost per trial, in trial order; absent when no activity has a cost (cost.ts). */
+  costSamples?: Float64Array;
+} {
   const {
     activities,
     trialCount,
     rngSeed,
     deterministicDurations,
     sequentialConstraints,
+    correlationGroups,
     onProgress,
     progressInterval = 10000,
   } = input;
 
   const rng = createSeededRng(rngSeed);
-  const { completedSum, distributions, exhaustedIds } = buildActivityDistributions(activities);
+  const correlation = createCorrelationSampler(correlationGroups, activities);
+  const risks = createRiskSampler(input.risks, activities, trialCount);
+  const samplers = { correlation, risks, branches: createBranchSampler(activities, input.branches) };
+  const { completedSum, distributions, exhaustedIds } = buildActivityDistributions(
+    activities, correlation, createStratifiedSampler(input.samplingMethod, trialCount, rngSeed),
+  );
   const samples = new Float64Array(trialCount);
   const reportProgress = makeProgressReporter(trialCount, onProgress, progressInterval);
   const hasConstraints = sequentialConstraints?.some((c) => c !== null) ?? false;
+  const infos = buildSequentialActivityInfos(activities, deterministicDurations);
+  // This trial's floored draw per slot, written by either loop for the trial recorders.
+  const slots = new Float64Array(distributions.length);
+  const dates = createActivityDateRecorder(activities, trialCount);
+  const sensitivity = createSequentialSensitivityRecorder(activities, slots, risks, trialCount);
+  const costs = createCostRecorder(activities, trialCount, rngSeed);
+  // All read this trial's `slots`, so the loops call one per-trial step for them.
+  const recordTrial = (trial: number) => {
+    if (dates) recordSequentialDates(dates, trial, infos, slots, risks, sequentialConstraints);
+    sensitivity.record(trial);
+    costs?.recordSlots(trial, slots, risks);
+  };
 
   if (hasConstraints) {
     // Position-tracking path: constraints can insert idle gaps, so a running position is
     // tracked rather than a plain sum, and activity order must be preserved.
     runConstrainedTrials(
       samples,
-      buildSequentialActivityInfos(activities, deterministicDurations),
+      infos,
       distributions,
       sequentialConstraints!,
       rng,
+      samplers,
+      slots,
+      recordTrial,
       reportProgress,
     );
   } else {
-    runFastTrials(samples, completedSum, distributions, deterministicDurations, rng, reportProgress);
+    runFastTrials(
+      samples, completedSum, distributions, deterministicDurations, rng, samplers, slots, recordTrial, reportProgress,
+    );
   }
 
-  return { samples, exhaustedIds };
+  return {
+    samples,
+    exhaustedIds,
+    activitySensitivity: sensitivity.results(samples),
+    riskResults: risks?.results(samples),
+    activityDates: dates?.results(),
+    costSamples: costs?.samples,
+  };
 }
 
 // -- Dependency-aware Monte Carlo --------------------------------------------
@@ -263,10 +510,29 @@ export interface DependencyMonteCarloInput {
   deterministicDurationMap?: Map<string, number>;
   /** Map of milestoneId → list of activity IDs assigned to that milestone. */
   milestoneActivityIds?: Map<string, string[]>;
+  /** Map of WBS summaryId → every activity beneath it (wbs.ts#collectSummaryActivityIds). */
+  summaryActivityIds?: Map<string, string[]>;
   /** Map of activityId → earliest start offset in working days (from startsAtMilestoneId). */
   activityEarliestStart?: Map<string, number>;
   /** Map of activityId → constraint info for per-trial clamping. */
   constraintMap?: Map<string, { type: string; offsetFromStart: number; mode: string }>;
+  /** Calendar sample for elapsed-day lags; absent when no dependency uses one. */
+  elapsedLagCalendar?: ElapsedLagCalendar;
+  /** Resource leveling model; absent when no activity holds a resource. */
+  resourceLeveling?: ResourceLevelingModel;
+  /**
+   * Calendar tracks for activities on a calendar of their own; absent when none is. The
+   * trials then run on the union axis and samples are converted back to project days.
+   */
+  activityCalendarAxis?: ActivityCalendarAxis;
+  /** Groups of activities whose durations are correlated; absent = independent (correlation.ts). */
+  correlationGroups?: CorrelationGroup[];
+  /** The scenario's risk register; absent = no discrete risk events (risk-events.ts). */
+  risks?: RiskEvent[];
+  /** Exclusive branches; absent = none. Conditional activities need no input (branching.ts). */
+  branches?: ExclusiveBranch[];
+  /** How the trials draw durations; absent = random (latin-hypercube.ts). */
+  samplingMethod?: SamplingMethod;
   /** Optional progress callback. */
   onProgress?: (completedTrials: number, totalTrials: number) => void;
   /** How often to report progress (default: 10000). */
@@ -283,7 +549,20 @@ export interface DependencyMonteCarloInput {
 export interface DependencyTrialsResult {
   samples: Float64Array;
   milestoneSamples?: Map<string, Float64Array>;
+  summarySamples?: Map<string, Float64Array>;
   exhaustedIds: string[];
+  /** Share of trials each not-yet-complete activity was critical in; see makeCriticalityCounter. */
+  criticalityIndex?: Record<string, number>;
+  /** Spearman correlation and SSI per not-yet-complete activity; see computeSampleSensitivity. */
+  activitySensitivity?: Record<string, ActivitySensitivity>;
+  /** Occurrence and P80/P95 contribution per risk event; absent without an effective risk. */
+  riskResults?: Record<string, RiskResult>;
+  /** Start and incoming drivers per not-yet-complete merge point; see merge-points.ts. */
+  mergePoints?: Record<string, MergePointResult>;
+  /** Start and finish percentiles per not-yet-complete activity; see activity-dates.ts. */
+  activityDates?: Record<string, ActivityDateResult>;
+  /** Project cost per trial, in trial order; absent when no activity has a cost (cost.ts). */
+  costSamples?: Float64Array;
 }
 
 /** Per-activity sampling inputs for dependency mode, keyed by activity id. */
@@ -292,6 +571,8 @@ interface DependencySamplingModel {
   activeDistributions: Map<string, Distribution>;
   activeFloors: Map<string, number>;
   exhaustedIds: string[];
+  /** Draws the per-trial group factors; null when durations are independent. */
+  correlation: CorrelationSampler | null;
 }
 
 /**
@@ -304,7 +585,10 @@ interface DependencySamplingModel {
 function buildDependencySamplingModel(
   activities: Activity[],
   deterministicDurationMap: Map<string, number> | undefined,
+  correlationGroups: CorrelationGroup[] | undefined,
+  strata: StratifiedSampler | null,
 ): DependencySamplingModel {
+  const correlation = createCorrelationSampler(correlationGroups, activities);
   const completedDurations = new Map<string, number>();
   const activeDistributions = new Map<string, Distribution>();
   const activeFloors = new Map<string, number>();
@@ -316,12 +600,12 @@ function buildDependencySamplingModel(
       // Conditional sampling seam (dependency mode): X | X > t for in-progress.
       const base = createDistributionForActivity(activity);
       const { dist, isExhausted } = buildMcDistribution(activity, base);
-      activeDistributions.set(activity.id, dist);
+      activeDistributions.set(activity.id, samplingDistribution(activity.id, dist, correlation, strata));
       if (isExhausted) exhaustedIds.push(activity.id);
       activeFloors.set(activity.id, deterministicDurationMap?.get(activity.id) ?? 0);
     }
   }
-  return { completedDurations, activeDistributions, activeFloors, exhaustedIds };
+  return { completedDurations, activeDistributions, activeFloors, exhaustedIds, correlation };
 }
 
 /**
@@ -331,6 +615,9 @@ function buildDependencySamplingModel(
  * is deliberate: the original cleared and refilled a single Map across all trials to avoid
  * an allocation per trial, and that property is preserved here. Measured, not assumed —
  * see `monte-carlo.bench.ts`.
+ *
+ * Every active activity draws exactly once, branch-skipped or not: a Latin Hypercube
+ * distribution (latin-hypercube.ts) counts its draws as its trials.
  */
 function sampleTrialDurations(
   out: Map<string, number>,
@@ -344,6 +631,7 @@ function sampleTrialDurations(
   // measuring +3.8% against the pre-decomposition baseline. Hoisting them brought it back
   // under the benchmark's resolution. Do not re-inline these.
   const { completedDurations, activeDistributions, activeFloors } = model;
+  model.correlation?.beginTrial(rng);
   out.clear();
   for (const id of activityIds) {
     const completedDur = completedDurations.get(id);
@@ -356,17 +644,52 @@ function sampleTrialDurations(
   }
 }
 
+/**
+ * Leveled variant of the trial recorder: the trial's durations are placed around each
+ * other's resources (resource-leveling.ts), with the same milestone floors and hard
+ * constraints the milestone-aware path applies. Milestone durations come from the leveled
+ * finishes, so a milestone feels the contention too.
+ */
+function makeLeveledTrialRecorder(
+  graph: ReturnType<typeof buildDependencyGraph>,
+  model: ResourceLevelingModel,
+  samples: Float64Array,
+  milestoneSamples: Map<string, Float64Array> | undefined,
+  milestoneActivityIds: Map<string, string[]> | undefined,
+  activityEarliestStart: Map<string, number> | undefined,
+  constraintMap: Map<string, { type: string; offsetFromStart: number; mode: string }> | undefined,
+  skipped: ReadonlySet<string> | undefined,
+): (trial: number, durations: Map<string, number>) => void {
+  const floors = { activityEarliestStart, constraintMap };
+  return (trial, durations) => {
+    const leveled = levelActivities(graph, durations, model, floors);
+    samples[trial] = leveled.projectDuration;
+    if (!milestoneSamples || !milestoneActivityIds) return;
+    const finishes = computeMilestoneDurations(milestoneActivityIds, leveled.earlyFinish, skipped);
+    for (const [milestoneId, finish] of finishes) {
+      milestoneSamples.get(milestoneId)![trial] = finish;
+    }
+  };
+}
+
 /**
  * Build the per-trial "compute the project duration and record it" step, choosing the
  * critical-path variant ONCE rather than re-branching on every trial.
  *
  * Three shapes, and which one applies never changes within a simulation:
  *   - milestones present            -> milestone-aware path, fills the milestone arrays
- *   - constraints but no milestones -> the same call with an empty milestone map
+ *   - floors but no milestones      -> the same call with an empty milestone map
  *   - neither                       -> the plain critical-path call
+ * "Floors" are constraints or earliest starts; the latter arrive without milestones when
+ * they are status-date releases (status-date.ts).
+ * (A leveled run replaces all three — see makeLeveledTrialRecorder.) "Milestones" here
+ * are the finish groups, WBS summaries included — see mergeFinishGroups.
  *
  * Returning a closure rather than branching in the loop is what let `runDependencyTrials`
  * drop from 17 to under the threshold, and it removes a per-trial branch as a side effect.
+ *
+ * `skipped` is the branch sampler's live set of this trial's skipped activities; only the
+ * milestone finishes need it, since a skipped activity is already 0 in `durations`.
  */
 function makeTrialRecorder(
   graph: ReturnType<typeof buildDependencyGraph>,
@@ -375,6 +698,7 @@ function makeTrialRecorder(
   milestoneActivityIds: Map<string, string[]> | undefined,
   activityEarliestStart: Map<string, number> | undefined,
   constraintMap: Map<string, { type: string; offsetFromStart: number; mode: string }> | undefined,
+  skipped: ReadonlySet<string> | undefined,
 ): (trial: number, durations: Map<string, number>) => void {
   const hasMilestones = !!milestoneActivityIds && milestoneActivityIds.size > 0;
 
@@ -386,6 +710,7 @@ function makeTrialRecorder(
         milestoneActivityIds,
         activityEarliestStart,
         constraintMap,
+        skipped,
       );
       samples[trial] = result.projectDuration;
       for (const [milestoneId, duration] of result.milestoneDurations) {
@@ -394,8 +719,9 @@ function makeTrialRecorder(
     };
   }
 
-  if (constraintMap && constraintMap.size > 0) {
-    // Constraints without milestones: same engine call, empty milestone map. Allocated
+  const hasFloors = (constraintMap?.size ?? 0) > 0 || (activityEarliestStart?.size ?? 0) > 0;
+  if (hasFloors) {
+    // Floors without milestones: same engine call, empty milestone map. Allocated
     // once here rather than per trial, which the inlined version did not do.
     const noMilestones = new Map<string, string[]>();
     return (trial, durations) => {
@@ -415,6 +741,152 @@ function makeTrialRecorder(
   };
 }
 
+/**
+ * Total float below this counts as zero. Trial durations are continuous, and the backward
+ * pass subtracts what the forward pass added, so a critical activity's LS − ES can come
+ * back as 1e-15 rather than 0.
+ */
+const CRITICAL_FLOAT_TOLERANCE = 1e-9;
+
+/**
+ * Count, per activity, the trials in which it sat on the critical path, and turn the
+ * counts into the criticality index (share of trials, 0–1) once the trials are done.
+ *
+ * "Critical" is the network definition the Gantt's highlight uses
+ * (computeCriticalPathActivities): zero total float over the trial's durations and links.
+ * Milestone floors, hard constraints and resource leveling are NOT applied — they move
+ * the trial's dates, not which chain of work drives it.
+ *
+ * Completed activities are left out: their duration is fixed, and "critical in 100% of
+ * trials" on work already done reads as a warning it is not. Conditional work counts only
+ * in the trials it runs in, so its index is a share of ALL trials, occurrence included.
+ *
+ * ⚠️ One extra forward and backward pass per trial, on top of whatever the recorder runs.
+ * That is the price of the index; there is no cheaper way to learn the float of every
+ * activity, and the recorders' passes are not reusable (they stop at the early finish).
+ */
+function makeCriticalityCounter(
+  graph: ReturnType<typeof buildDependencyGraph>,
+  model: DependencySamplingModel,
+  skipped: ReadonlySet<string> | undefined,
+): {
+  count: (durations: Map<string, number>) => void;
+  index: (trialCount: number) => Record<string, number> | undefined;
+} {
+  const counts = new Map<string, number>(
+    Array.from(model.activeDistributions.keys(), (id) => [id, 0]),
+  );
+  return {
+    count: (durations) => {
+      if (counts.size === 0) return;
+      const { earlyStart, lateStart } = computeNetworkOffsets(graph, durations);
+      for (const [id, n] of counts) {
+        // Skipped work is a zero-length pass-through; it is on no path in this trial.
+        if (skipped?.has(id)) continue;
+        const totalFloat = (lateStart.get(id) ?? 0) - (earlyStart.get(id) ?? 0);
+        if (totalFloat < CRITICAL_FLOAT_TOLERANCE) counts.set(id, n + 1);
+      }
+    },
+    index: (trialCount) => {
+      if (counts.size === 0 || trialCount === 0) return undefined;
+      return Object.fromEntries(Array.from(counts, ([id, n]) => [id, n / trialCount]));
+    },
+  };
+}
+
+/**
+ * Keep each not-yet-complete activity's duration for the first SENSITIVITY_SAMPLE_TRIALS
+ * trials — the raw material of the rank correlation. Completed activities are left out for
+ * the criticality index's reason: a fixed duration has no influence to measure.
+ *
+ * Cheap by construction: past the sampled trials `record` is a single comparison.
+ */
+function makeDurationSampler(
+  model: DependencySamplingModel,
+  trialCount: number,
+): {
+  record: (trial: number, durations: Map<string, number>) => void;
+  series: Map<string, Float64Array>;
+} {
+  const kept = Math.min(trialCount, SENSITIVITY_SAMPLE_TRIALS);
+  const series = new Map<string, Float64Array>(
+    Array.from(model.activeDistributions.keys(), (id) => [id, new Float64Array(kept)]),
+  );
+  return {
+    record: (trial, durations) => {
+      if (trial >= kept) return;
+      for (const [id, values] of series) values[trial] = durations.get(id) ?? 0;
+    },
+    series,
+  };
+}
+
+/**
+ * Move the working-day offsets the caller computed on the project calendar onto the
+ * calendar axis. Runs once per simulation.
+ */
+function floorsOnAxis(
+  calendars: ActivityCalendarResolver,
+  activityEarliestStart: Map<string, number> | undefined,
+  constraintMap: Map<string, { type: string; offsetFromStart: number; mode: string }> | undefined,
+): {
+  activityEarliestStart?: Map<string, number>;
+  constraintMap?: Map<string, { type: string; offsetFromStart: number; mode: string }>;
+} {
+  return {
+    activityEarliestStart: activityEarliestStart && new Map(
+      Array.from(activityEarliestStart, ([id, offset]) => [id, calendars.toAxis(offset)]),
+    ),
+    constraintMap: constraintMap && new Map(
+      Array.from(constraintMap, ([id, c]) => [id, { ...c, offsetFromStart: calendars.toAxis(c.offsetFromStart) }]),
+    ),
+  };
+}
+
+/** Convert axis-day samples back to project days, in place. Runs once, after the trials. */
+function samplesToProjectDays(
+  calendars: ActivityCalendarResolver,
+  samples: Float64Array,
+  milestoneSamples: Map<string, Float64Array> | undefined,
+): void {
+  for (let i = 0; i < samples.length; i++) samples[i] = calendars.fromAxis(samples[i]!);
+  for (const series of milestoneSamples?.values() ?? []) {
+    for (let i = 0; i < series.length; i++) {
+      // NaN = the milestone's work was all skipped in that trial; there is no date to move.
+      if (!Number.isNaN(series[i]!)) series[i] = calendars.fromAxis(series[i]!);
+    }
+  }
+}
+
+/** One zeroed series per group, or undefined when there are no groups. */
+function allocateGroupSamples(
+  groups: Map<string, string[]> | undefined,
+  trialCount: number,
+): Map<string, Float64Array> | undefined {
+  if (!groups || groups.size === 0) return undefined;
+  return new Map(Array.from(groups.keys(), (id) => [id, new Float64Array(trialCount)]));
+}
+
+/**
+ * Milestones and WBS summaries are the same measurement — the latest finish among a set
+ * of activities — so the recorders take them as ONE set of finish groups. The series are
+ * shared, not copied: filling a group fills the milestone or summary series it came from.
+ * Milestone and summary ids are both generated ids and never collide.
+ */
+function mergeFinishGroups(
+  milestoneActivityIds: Map<string, string[]> | undefined,
+  milestoneSamples: Map<string, Float64Array> | undefined,
+  summaryActivityIds: Map<string, string[]> | undefined,
+  summarySamples: Map<string, Float64Array> | undefined,
+): { groupActivityIds?: Map<string, string[]>; groupSamples?: Map<string, Float64Array> } {
+  if (!summarySamples) return { groupActivityIds: milestoneActivityIds, groupSamples: milestoneSamples };
+  if (!milestoneSamples) return { groupActivityIds: summaryActivityIds, groupSamples: summarySamples };
+  return {
+    groupActivityIds: new Map([...milestoneActivityIds!, ...summaryActivityIds!]),
+    groupSamples: new Map([...milestoneSamples, ...summarySamples]),
+  };
+}
+
 export function runDependencyTrials(input: DependencyMonteCarloInput): DependencyTrialsResult {
   const {
     activities,
@@ -423,65 +895,138 @@ export function runDependencyTrials(input: DependencyMonteCarloInput): Dependenc
     rngSeed,
     deterministicDurationMap,
     milestoneActivityIds,
-    activityEarliestStart,
-    constraintMap,
+    summaryActivityIds,
+    elapsedLagCalendar,
+    resourceLeveling,
+    activityCalendarAxis,
     onProgress,
     progressInterval = 10000,
   } = input;
 
   const rng = createSeededRng(rngSeed);
   const activityIds = activities.map((a) => a.id);
-  // Built once and reused across all trials.
-  const graph = buildDependencyGraph(activityIds, dependencies);
-  const model = buildDependencySamplingModel(activities, deterministicDurationMap);
+  // Built once and reused across all trials, lag and calendar resolvers included.
+  const lagResolver = elapsedLagCalendar ? createElapsedLagResolver(elapsedLagCalendar) : undefined;
+  const calendars = activityCalendarAxis ? createActivityCalendarResolver(activityCalendarAxis) : undefined;
+  const graph = buildDependencyGraph(activityIds, dependencies, lagResolver, calendars);
+  const { activityEarliestStart, constraintMap } = calendars
+    ? floorsOnAxis(calendars, input.activityEarliestStart, input.constraintMap)
+    : input;
+  const model = buildDependencySamplingModel(
+    activities,
+    deterministicDurationMap,
+    input.correlationGroups,
+    createStratifiedSampler(input.samplingMethod, trialCount, rngSeed),
+  );
+  const branches = createBranchSampler(activities, input.branches);
 
-  const hasMilestones = !!milestoneActivityIds && milestoneActivityIds.size > 0;
   const samples = new Float64Array(trialCount);
   const reportProgress = makeProgressReporter(trialCount, onProgress, progressInterval);
   // One Map reused across trials — see sampleTrialDurations on why it is not reallocated.
   const trialDurations = new Map<string, number>();
 
-  const milestoneSamples = hasMilestones
-    ? new Map<string, Float64Array>(
-        Array.from(milestoneActivityIds.keys()).map((id) => [id, new Float64Array(trialCount)]),
+  const milestoneSamples = allocateGroupSamples(milestoneActivityIds, trialCount);
+  const summarySamples = allocateGroupSamples(summaryActivityIds, trialCount);
+  const { groupActivityIds, groupSamples } = mergeFinishGroups(
+    milestoneActivityIds, milestoneSamples, summaryActivityIds, summarySamples,
+  );
+
+  const record = resourceLeveling
+    ? makeLeveledTrialRecorder(
+        graph,
+        resourceLeveling,
+        samples,
+        groupSamples,
+        groupActivityIds,
+        activityEarliestStart,
+        constraintMap,
+        branches?.skipped,
       )
-    : undefined;
+    : makeTrialRecorder(
+        graph,
+        samples,
+        groupSamples,
+        groupActivityIds,
+        activityEarliestStart,
+        constraintMap,
+        branches?.skipped,
+      );
 
-  const record = makeTrialRecorder(
-    graph,
-    samples,
-    milestoneSamples,
-    milestoneActivityIds,
-    activityEarliestStart,
-    constraintMap,
+  const criticality = makeCriticalityCounter(graph, model, branches?.skipped);
+  const durationSampler = makeDurationSampler(model, trialCount);
+  const risks = createRiskSampler(input.risks, activities, trialCount);
+  const mergeStarts = createMergeStartRecorder(
+    graph, activities, trialCount, activityEarliestStart, constraintMap, branches?.skipped,
+  );
+  const costs = createCostRecorder(activities, trialCount, rngSeed);
+  const dates = createActivityDateRecorder(activities, trialCount);
+  const recordDates = dates && makeNetworkDateRecorder(
+    graph, activities, dates, { activityEarliestStart, constraintMap }, resourceLeveling, branches?.skipped,
   );
 
   for (let trial = 0; trial < trialCount; trial++) {
+    risks?.fire(rng, trial);
+    branches?.beginTrial(rng);
     sampleTrialDurations(trialDurations, activityIds, model, rng);
+    risks?.addDelays(trialDurations);
+    branches?.zeroSkipped(trialDurations);
+    costs?.recordDurations(trial, trialDurations, branches?.skipped);
     record(trial, trialDurations);
+    criticality.count(trialDurations);
+    durationSampler.record(trial, trialDurations);
+    mergeStarts?.record(trial, trialDurations);
+    recordDates?.(trial, trialDurations);
     reportProgress?.(trial);
   }
+  if (calendars) samplesToProjectDays(calendars, samples, groupSamples);
 
-  return { samples, milestoneSamples, exhaustedIds: model.exhaustedIds };
+  // Before computeSimulationStats sorts `samples` in place: the correlation needs trial order.
+  const criticalityIndex = criticality.index(trialCount);
+  const activitySensitivity = criticalityIndex
+    ? computeSampleSensitivity(durationSampler.series, samples, criticalityIndex)
+    : undefined;
+
+  return {
+    samples,
+    milestoneSamples,
+    summarySamples,
+    exhaustedIds: model.exhaustedIds,
+    criticalityIndex,
+    activitySensitivity,
+    riskResults: risks?.results(samples),
+    mergePoints: mergeStarts?.results(calendars),
+    activityDates: dates?.results(calendars),
+    costSamples: costs?.samples,
+  };
 }
 
 /**
  * Compute per-milestone statistics from milestone MC samples.
+ *
+ * A NaN sample is a trial that skipped all of the milestone's work (branching.ts). The
+ * statistics cover the other trials, and `occurrence` says what share those were; it is
+ * omitted when the milestone was reached in every trial, and a milestone reached in none
+ * has no statistics at all.
  */
 export function computeMilestoneStats(
   milestoneSamples: Map<string, Float64Array>,
   _trialCount?: number
-): Record<string, { percentiles: Record<number, number>; mean: number; standardDeviation: number }> {
-  const results: Record<string, { percentiles: Record<number, number>; mean: number; standardDeviation: number }> = {};
+): NonNullable<SimulationRun["milestoneResults"]> {
+  const results: NonNullable<SimulationRun["milestoneResults"]> = {};
 
-  for (const [milestoneId, samples] of milestoneSamples) {
-    // Sort in-place for percentile calculation
-    sortSamples(samples);
+  for (const [milestoneId, all] of milestoneSamples) {
+    // Sort in-place for percentile calculation; NaN sorts last in a typed array.
+    sortSamples(all);
+    let reached = all.length;
+    while (reached > 0 && Number.isNaN(all[reached - 1]!)) reached--;
+    if (reached === 0) continue;
+    const samples = reached === all.length ? all : all.subarray(0, reached);
     results[milestoneId] = {
       percentiles: computeStandardPercentiles(samples),
       mean: computeMean(samples),
       standardDeviation: computeSD(samples),
     };
+    if (reached < all.length) results[milestoneId].occurrence = reached / all.length;
   }
 
   return results;
@@ -535,6 +1080,14 @@ export function computeSimulationStats(
  * Run a Monte Carlo simulation. Pure function, no DOM, no Worker API.
  */
 export function runMonteCarloSimulation(input: MonteCarloInput): SimulationRun {
-  const { samples, exhaustedIds } = runTrials(input);
-  return computeSimulationStats(samples, input.trialCount, input.rngSeed, exhaustedIds);
+  const { samples, exhaustedIds, activitySensitivity, riskResults, activityDates, costSamples } = runTrials(input);
+  // Before computeSimulationStats sorts `samples`: the joint confidence pairs trials.
+  const costResults = costSamples && computeCostResult(samples, costSamples);
+  const result = computeSimulationStats(samples, input.trialCount, input.rngSeed, exhaustedIds);
+  if (activitySensitivity) result.activitySensitivity = activitySensitivity;
+  if (riskResults) result.riskResults = riskResults;
+  if (activityDates) result.activityDates = activityDates;
+  if (input.samplingMethod === "latinHypercube") result.samplingMethod = input.samplingMethod;
+  if (costResults) result.costResults = costResults;
+  return result;
 }
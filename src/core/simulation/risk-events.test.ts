@@ -0,0 +1,132 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import { createRiskSampler, rankRisks } from "./risk-events";
+import { createSeededRng } from "@infrastructure/rng";
+import type { Activity, RiskEvent, RiskResult } from "@domain/models/types";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+function risk(activityIds: string[], probability: number, id = "r1", impact = [10, 15, 20]): RiskEvent {
+  return {
+    id,
+    name: id,
+    probability,
+    impactMin: impact[0]!,
+    impactMostLikely: impact[1]!,
+    impactMax: impact[2]!,
+    activityIds,
+  };
+}
+
+/** Fire the sampler `n` times over a flat 100-day base, returning per-trial totals. */
+function simulate(risks: RiskEvent[], activities: Activity[], n: number, seed: string) {
+  const sampler = createRiskSampler(risks, activities, n)!;
+  const rng = createSeededRng(seed);
+  const samples = new Float64Array(n);
+  for (let t = 0; t < n; t++) {
+    sampler.fire(rng, t);
+    samples[t] = 100 + sampler.totalDelay();
+  }
+  return { sampler, samples };
+}
+
+describe("createRiskSampler", () => {
+  const activities = [makeActivity("a1"), makeActivity("a2")];
+
+  it("returns null when no risk could fire", () => {
+    expect(createRiskSampler(undefined, activities, 10)).toBeNull();
+    expect(createRiskSampler([], activities, 10)).toBeNull();
+    expect(createRiskSampler([risk(["a1"], 0)], activities, 10)).toBeNull();
+    expect(createRiskSampler([risk([], 0.5)], activities, 10)).toBeNull();
+    expect(createRiskSampler([risk(["missing"], 0.5)], activities, 10)).toBeNull();
+    const done = [makeActivity("a1", { status: "complete", actualDuration: 4 })];
+    expect(createRiskSampler([risk(["a1"], 0.5)], done, 10)).toBeNull();
+  });
+
+  it("fires at the risk's probability with a delay inside its impact range", () => {
+    const { sampler, samples } = simulate([risk(["a1"], 0.3)], activities, 20000, "rate");
+    const result = sampler.results(samples)["r1"]!;
+    expect(result.occurrence).toBeCloseTo(0.3, 1);
+    expect(result.meanImpact).toBeCloseTo(15, 0);
+    for (const s of samples) {
+      expect(s === 100 || (s >= 110 && s <= 120)).toBe(true);
+    }
+  });
+
+  it("adds the delay once per affected activity, at each activity's slot", () => {
+    const acts = [makeActivity("a"), makeActivity("done", { status: "complete", actualDuration: 2 }), makeActivity("b")];
+    const sampler = createRiskSampler([risk(["a", "b"], 0.99, "r1", [4, 4, 4])], acts, 50)!;
+    const rng = createSeededRng("slots");
+    let fired = false;
+    for (let t = 0; t < 50 && !fired; t++) {
+      sampler.fire(rng, t);
+      fired = sampler.totalDelay() > 0;
+    }
+    expect(fired).toBe(true);
+    expect(sampler.totalDelay()).toBe(8);
+    // The completed activity takes no slot, so "b" is slot 1.
+    expect(sampler.delayAt(0)).toBe(4);
+    expect(sampler.delayAt(1)).toBe(4);
+    const durations = new Map([["a", 5], ["done", 2], ["b", 6]]);
+    sampler.addDelays(durations);
+    expect([...durations.values()]).toEqual([9, 2, 10]);
+  });
+
+  it("measures each risk's contribution to P80 and P95", () => {
+    const risks = [risk(["a1"], 0.3, "big", [20, 30, 40]), risk(["a2"], 0.1, "small", [1, 2, 3])];
+    const { sampler, samples } = simulate(risks, activities, 20000, "contribution");
+    const results = sampler.results(samples);
+    expect(results["big"]!.p95Contribution).toBeGreaterThan(20);
+    expect(results["big"]!.p80Contribution).toBeGreaterThan(results["small"]!.p80Contribution);
+    expect(results["small"]!.p95Contribution).toBeGreaterThanOrEqual(0);
+  });
+
+  it("is reproducible for a seed and draws the same count whether or not a risk fires", () => {
+    const first = simulate([risk(["a1"], 0.5)], activities, 500, "same").samples;
+    expect(simulate([risk(["a1"], 0.5)], activities, 500, "same").samples).toEqual(first);
+
+    // Two draws per risk per trial, so what follows in the stream is independent of firing.
+    const after = (probability: number) => {
+      const rng = createSeededRng("stream");
+      const sampler = createRiskSampler([risk(["a1"], probability)], activities, 100)!;
+      for (let t = 0; t < 100; t++) sampler.fire(rng, t);
+      return rng.next();
+    };
+    expect(after(0.01)).toBe(after(0.99));
+  });
+});
+
+describe("rankRisks", () => {
+  const risks = [risk(["a"], 0.5, "r1"), risk(["a"], 0.5, "r2"), risk(["a"], 0.5, "r3"), risk(["a"], 0.5, "r4")];
+  const result = (p80: number, p95: number): RiskResult => ({
+    occurrence: 0.5,
+    meanImpact: 10,
+    p80Contribution: p80,
+    p95Contribution: p95,
+  });
+
+  it("orders by P95 contribution, then P80, with unmeasured risks last in register order", () => {
+    const ranked = rankRisks(risks, { r1: result(1, 2), r3: result(5, 8), r4: result(3, 2) });
+    expect(ranked.map((r) => r.risk.id)).toEqual(["r3", "r4", "r1", "r2"]);
+    expect(ranked[3]!.result).toBeUndefined();
+  });
+
+  it("keeps register order with no results", () => {
+    expect(rankRisks(risks, undefined).map((r) => r.risk.id)).toEqual(["r1", "r2", "r3", "r4"]);
+  });
+});
@@ -0,0 +1,178 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { Activity, RiskEvent, RiskResult } from "@domain/models/types";
+import { TriangularDistribution } from "@core/distributions/triangular";
+import { percentile } from "@core/analytics/analytics";
+import type { SeededRng } from "@infrastructure/rng";
+
+/**
+ * Discrete risk events in the Monte Carlo trials.
+ *
+ * Every trial fires each risk with its probability; a fired risk adds one delay, drawn
+ * from its three-point impact, to every affected activity's duration — after the
+ * Parkinson floor, since the delay is work the estimate never held. Each risk takes two
+ * draws per trial, fired or not, so the stream never depends on what fired. A scenario
+ * with no effective risk builds no sampler and draws nothing extra.
+ *
+ * Contribution: a risk fires independently of everything else in the trial, so the trials
+ * it did NOT fire in are a sample of the project without it. P80 over all trials less P80
+ * over those is its contribution to P80 — no second run needed.
+ */
+
+interface ActiveRisk {
+  id: string;
+  probability: number;
+  impact: TriangularDistribution;
+  /** Distribution indexes of the affected activities (sequential mode). */
+  slots: number[];
+  /** Ids of the affected activities (dependency mode). */
+  ids: string[];
+  fired: Uint8Array;
+  firedCount: number;
+  impactSum: number;
+}
+
+export interface RiskSampler {
+  /** Fire every risk for this trial. Call once at the top of every trial. */
+  fire(rng: SeededRng, trial: number): void;
+  /** This trial's delay summed over every affected activity — for the sequential plain sum. */
+  totalDelay(): number;
+  /** This trial's delay for the active activity at distribution index `slot`. */
+  delayAt(slot: number): number;
+  /** Add this trial's delays to the dependency-mode duration map. */
+  addDelays(durations: Map<string, number>): void;
+  /** Per-risk results. `samples` must still be in trial order (not yet sorted). */
+  results(samples: Float64Array): Record<string, RiskResult>;
+}
+
+/**
+ * Build the sampler for a simulation, or null when no risk could fire.
+ *
+ * A risk takes effect with a probability above 0 and at least one affected activity still
+ * sampled — a completed activity keeps its actual duration. Slots follow the order
+ * `buildActivityDistributions` gives the active activities.
+ */
+export function createRiskSampler(
+  risks: RiskEvent[] | undefined,
+  activities: Activity[],
+  trialCount: number,
+): RiskSampler | null {
+  if (!risks || risks.length === 0) return null;
+  const slotOf = new Map<string, number>();
+  for (const activity of activities) {
+    if (activity.status === "complete" && activity.actualDuration != null) continue;
+    slotOf.set(activity.id, slotOf.size);
+  }
+
+  const active: ActiveRisk[] = [];
+  for (const risk of risks) {
+    const ids = [...new Set(risk.activityIds)].filter((id) => slotOf.has(id));
+    if (risk.probability <= 0 || ids.length === 0) continue;
+    active.push({
+      id: risk.id,
+      probability: risk.probability,
+      impact: new TriangularDistribution(risk.impactMin, risk.impactMostLikely, risk.impactMax),
+      slots: ids.map((id) => slotOf.get(id)!),
+      ids,
+      fired: new Uint8Array(trialCount),
+      firedCount: 0,
+      impactSum: 0,
+    });
+  }
+  if (active.length === 0) return null;
+
+  const delays = new Float64Array(slotOf.size);
+  const trialImpact = new Float64Array(active.length);
+  let trialTotal = 0;
+  let dirty = false;
+
+  return {
+    fire(rng, trial) {
+      if (dirty) delays.fill(0);
+      dirty = false;
+      trialTotal = 0;
+      for (let r = 0; r < active.length; r++) {
+        const risk = active[r]!;
+        const hit = rng.next() < risk.probability;
+        const impact = risk.impact.sample(rng);
+        trialImpact[r] = hit ? impact : 0;
+        if (!hit) continue;
+        risk.fired[trial] = 1;
+        risk.firedCount++;
+        risk.impactSum += impact;
+        for (const slot of risk.slots) delays[slot]! += impact;
+        trialTotal += impact * risk.slots.length;
+        dirty = true;
+      }
+    },
+    totalDelay() {
+      return trialTotal;
+    },
+    delayAt(slot) {
+      return delays[slot]!;
+    },
+    addDelays(durations) {
+      for (let r = 0; r < active.length; r++) {
+        const impact = trialImpact[r]!;
+        if (impact === 0) continue;
+        for (const id of active[r]!.ids) durations.set(id, durations.get(id)! + impact);
+      }
+    },
+    results(samples) {
+      return computeRiskResults(active, samples);
+    },
+  };
+}
+
+function computeRiskResults(active: ActiveRisk[], samples: Float64Array): Record<string, RiskResult> {
+  const trialCount = samples.length;
+  const sorted = Float64Array.from(samples).sort();
+  const p80 = percentile(sorted, 0.8);
+  const p95 = percentile(sorted, 0.95);
+  const results: Record<string, RiskResult> = {};
+  for (const risk of active) {
+    // Fired in every trial (possible only for tiny runs): nothing to compare against.
+    if (risk.firedCount === trialCount) continue;
+    const without = new Float64Array(trialCount - risk.firedCount);
+    let k = 0;
+    for (let t = 0; t < trialCount; t++) {
+      if (!risk.fired[t]) without[k++] = samples[t]!;
+    }
+    without.sort();
+    results[risk.id] = {
+      occurrence: risk.firedCount / trialCount,
+      meanImpact: risk.firedCount > 0 ? risk.impactSum / risk.firedCount : 0,
+      p80Contribution: p80 - percentile(without, 0.8),
+      p95Contribution: p95 - percentile(without, 0.95),
+    };
+  }
+  return results;
+}
+
+/** A register entry next to what the last run measured for it (absent when not measured). */
+export interface RankedRisk {
+  risk: RiskEvent;
+  result: RiskResult | undefined;
+}
+
+/**
+ * The register in ranking order: largest P95 contribution first, then P80; risks the run
+ * did not measure (no affected activity, probability 0, or no run yet) keep register order
+ * at the end. Shared by the risk panel and the printed report.
+ */
+export function rankRisks(
+  risks: RiskEvent[],
+  results: Record<string, RiskResult> | undefined,
+): RankedRisk[] {
+  const ranked = risks.map((risk) => ({ risk, result: results?.[risk.id] }));
+  const measured = ranked.filter((r) => r.result !== undefined);
+  const unmeasured = ranked.filter((r) => r.result === undefined);
+  measured.sort(
+    (a, b) =>
+      b.result!.p95Contribution - a.result!.p95Contribution ||
+      b.result!.p80Contribution - a.result!.p80Contribution,
+  );
+  return [...measured, ...unmeasured];
+}
@@ -0,0 +1,160 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_SIMULATION_WORKERS,
+  combineShardProgress,
+  mergeShardOutcomes,
+  planSimulationShards,
+  simulationWorkerCount,
+  type ShardOutcome,
+} from "./simulation-shards";
+import { computeMilestoneStats, computeSimulationStats, runTrials } from "./monte-carlo";
+import { computeCostResult } from "./cost";
+import type { Activity } from "@domain/models/types";
+
+function makeActivity(id: string): Activity {
+  return {
+    id,
+    name: id,
+    min: 5,
+    mostLikely: 10,
+    max: 30,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+  };
+}
+
+const ACTIVITIES = [makeActivity("a"), makeActivity("b")];
+
+function shardOutcome(trialCount: number, rngSeed: string): ShardOutcome {
+  const { samples, exhaustedIds } = runTrials({ activities: ACTIVITIES, trialCount, rngSeed });
+  return { trialCount, samples, exhaustedIds };
+}
+
+describe("simulationWorkerCount", () => {
+  it("keeps an until-converged run on one worker", () => {
+    expect(simulationWorkerCount(100000, 8, true)).toBe(1);
+  });
+
+  it("caps the pool at the core count and MAX_SIMULATION_WORKERS", () => {
+    expect(simulationWorkerCount(100000, 4, false)).toBe(4);
+    expect(simulationWorkerCount(1000000, 32, false)).toBe(MAX_SIMULATION_WORKERS);
+    expect(simulationWorkerCount(100000, undefined, false)).toBe(1);
+  });
+
+  it("leaves every shard at least MIN_SHARD_TRIALS", () => {
+    expect(simulationWorkerCount(25000, 8, false)).toBe(2);
+    expect(simulationWorkerCount(5000, 8, false)).toBe(1);
+  });
+});
+
+describe("planSimulationShards", () => {
+  it("keeps the run's seed on a single shard", () => {
+    expect(planSimulationShards(50000, "s", 1)).toEqual([{ trialCount: 50000, rngSeed: "s" }]);
+  });
+
+  it("splits the trials evenly, the first shards taking the remainder, each on its own seed", () => {
+    const shards = planSimulationShards(10, "s", 3);
+    expect(shards.map((s) => s.trialCount)).toEqual([4, 3, 3]);
+    expect(new Set(shards.map((s) => s.rngSeed)).size).toBe(3);
+    expect(shards.every((s) => s.rngSeed.startsWith("s:"))).toBe(true);
+  });
+});
+
+describe("mergeShardOutcomes", () => {
+  const shards = planSimulationShards(3000, "merge", 3).map((s) => shardOutcome(s.trialCount, s.rngSeed));
+
+  it("computes the statistics of every shard's trials together", () => {
+    const merged = mergeShardOutcomes(shards, "merge");
+    const all = new Float64Array(3000);
+    shards.forEach((s, i) => all.set(s.samples, i * 1000));
+    const expected = computeSimulationStats(all, 3000, "merge", []);
+    expect(merged.percentiles).toEqual(expected.percentiles);
+    expect(merged.mean).toBe(expected.mean);
+    expect(merged.trialCount).toBe(3000);
+    expect(merged.workerCount).toBe(3);
+  });
+
+  it("leaves the shards' samples in trial order", () => {
+    const before = Array.from(shards[0]!.samples);
+    mergeShardOutcomes(shards, "merge");
+    expect(Array.from(shards[0]!.samples)).toEqual(before);
+  });
+
+  it("is reproducible for a seed and worker count", () => {
+    const again = planSimulationShards(3000, "merge", 3).map((s) => shardOutcome(s.trialCount, s.rngSeed));
+    expect(mergeShardOutcomes(again, "merge").percentiles).toEqual(mergeShardOutcomes(shards, "merge").percentiles);
+  });
+
+  it("merges milestone finishes from the raw trials, NaN where a shard never reached it", () => {
+    const withMilestones: ShardOutcome[] = [
+      { ...shards[0]!, milestoneSamples: { m: new Float64Array(1000).fill(4) } },
+      { ...shards[1]!, milestoneSamples: { m: new Float64Array(1000).fill(8) } },
+      { ...shards[2]! },
+    ];
+    const merged = mergeShardOutcomes(withMilestones, "merge");
+    const expected = new Float64Array(3000).fill(Number.NaN);
+    expected.fill(4, 0, 1000).fill(8, 1000, 2000);
+    expect(merged.milestoneResults).toEqual(computeMilestoneStats(new Map([["m", expected]])));
+    expect(merged.milestoneResults!.m!.occurrence).toBeCloseTo(2 / 3);
+  });
+
+  it("computes the cost result from every shard's per-trial costs, paired with their durations", () => {
+    const withCosts = shards.map((s) => ({ ...s, costSamples: Float64Array.from(s.samples, (d) => 100 + 10 * d) }));
+    const merged = mergeShardOutcomes(withCosts, "merge");
+    const durations = new Float64Array(3000);
+    const costs = new Float64Array(3000);
+    withCosts.forEach((s, i) => {
+      durations.set(s.samples, i * 1000);
+      costs.set(s.costSamples, i * 1000);
+    });
+    expect(merged.costResults).toEqual(computeCostResult(durations, costs));
+    expect(mergeShardOutcomes(shards, "merge").costResults).toBeUndefined();
+  });
+
+  it("pools per-activity shares by trial weight", () => {
+    const merged = mergeShardOutcomes(
+      [
+        { ...shards[0]!, trialCount: 1000, criticalityIndex: { a: 1, b: 0.5 } },
+        { ...shards[1]!, trialCount: 1000, criticalityIndex: { a: 0 } },
+      ],
+      "merge",
+    );
+    expect(merged.criticalityIndex).toEqual({ a: 0.5, b: 0.25 });
+    expect(merged.activitySensitivity).toBeUndefined();
+  });
+
+  it("weights a risk's mean impact by the trials it fired in", () => {
+    const risk = { p80Contribution: 2, p95Contribution: 4 };
+    const merged = mergeShardOutcomes(
+      [
+        { ...shards[0]!, trialCount: 1000, riskResults: { r: { ...risk, occurrence: 0.3, meanImpact: 2 } } },
+        { ...shards[1]!, trialCount: 1000, riskResults: { r: { ...risk, occurrence: 0.1, meanImpact: 6 } } },
+      ],
+      "merge",
+    );
+    // 300 firings at 2 days and 100 at 6: 1,200 days over 400 firings.
+    expect(merged.riskResults!.r!.meanImpact).toBeCloseTo(3, 9);
+    expect(merged.riskResults!.r!.occurrence).toBeCloseTo(0.2, 9);
+    expect(merged.riskResults!.r!.p80Contribution).toBe(2);
+  });
+
+  it("records no worker count for a single shard", () => {
+    expect(mergeShardOutcomes([shards[0]!], "merge").workerCount).toBeUndefined();
+  });
+});
+
+describe("combineShardProgress", () => {
+  it("reports the pool's completed trials against the run's total", () => {
+    const reports: [number, number][] = [];
+    const report = combineShardProgress(planSimulationShards(30000, "p", 3), (c, t) => reports.push([c, t]));
+    report(0, 5000);
+    report(2, 2000);
+    report(0, 7000);
+    expect(reports).toEqual([[5000, 30000], [7000, 30000], [9000, 30000]]);
+  });
+});
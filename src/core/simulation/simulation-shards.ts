@@ -0,0 +1,244 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type {
+  ActivityDateResult,
+  ActivitySensitivity,
+  MergePointResult,
+  RiskResult,
+  SamplingMethod,
+  SimulationRun,
+} from "@domain/models/types";
+import { computeMilestoneStats, computeSimulationStats } from "./monte-carlo";
+import { computeCostResult } from "./cost";
+
+/**
+ * Parallel runs: one run's trials split across a pool of workers.
+ *
+ * Each shard is an ordinary run of its share of the trials on a seed derived from the
+ * run's — `${rngSeed}:shard-${i}` — so a shard is reproducible on its own and the merged
+ * run is reproducible for a given seed AND worker count. A different worker count draws
+ * different trials: the count is recorded on the run (`workerCount`) for that reason.
+ *
+ * What merges exactly and what is pooled:
+ *   - Exact: the project samples and every statistic computed from them, the milestone
+ *     and summary results (from their raw per-trial finishes), the cost results (from
+ *     the per-trial costs), the exhausted ids.
+ *   - Pooled: the per-activity extras each shard already reduced — criticality,
+ *     sensitivity, risk results, merge points, activity dates. Each is the trial-weighted
+ *     mean of the shards' figures, except a risk's mean impact, a mean over the trials it
+ *     fired in, which is weighted by those trials. A share over every trial (criticality,
+ *     occurrence) pools exactly.
+ *   - Approximate: everything else pooled. The mean of the shards' percentiles (activity
+ *     dates, merge-point starts, risk contributions) is not the percentile of their trials
+ *     together, nor is the mean of their rank correlations the correlation of the pooled
+ *     trials — both average independent estimates of the same quantity, close at shard
+ *     sizes of MIN_SHARD_TRIALS but not what one worker would report. A merge point's mean
+ *     start and driver shares cover only the trials that reached it, which a shard does
+ *     not report, so where a branch skips it they too are weighted by trials, not by those.
+ */
+
+/** Upper bound on the pool, whatever the machine reports. */
+export const MAX_SIMULATION_WORKERS = 8;
+
+/** Below this many trials per shard a worker's startup costs more than its share saves. */
+export const MIN_SHARD_TRIALS = 10000;
+
+/**
+ * Workers for a run: one per core, no more than MAX_SIMULATION_WORKERS, and few enough
+ * that every shard keeps MIN_SHARD_TRIALS. An "until converged" run stays on one worker —
+ * its batches decide the next size from the last, which shards cannot share.
+ */
+export function simulationWorkerCount(
+  trialCount: number,
+  hardwareConcurrency: number | undefined,
+  converging: boolean,
+): number {
+  if (converging) return 1;
+  const cores = Math.max(1, Math.floor(hardwareConcurrency ?? 1));
+  return Math.max(1, Math.min(cores, MAX_SIMULATION_WORKERS, Math.floor(trialCount / MIN_SHARD_TRIALS)));
+}
+
+/** One worker's share of a run. */
+export interface SimulationShard {
+  trialCount: number;
+  rngSeed: string;
+}
+
+/** Split the trials evenly — the first shards take the remainder — each on its own seed. */
+export function planSimulationShards(
+  trialCount: number,
+  rngSeed: string,
+  workerCount: number,
+): SimulationShard[] {
+  if (workerCount <= 1) return [{ trialCount, rngSeed }];
+  const base = Math.floor(trialCount / workerCount);
+  const remainder = trialCount % workerCount;
+  return Array.from({ length: workerCount }, (_, i) => ({
+    trialCount: base + (i < remainder ? 1 : 0),
+    rngSeed: `${rngSeed}:shard-${i}`,
+  }));
+}
+
+/** What a shard worker posts back: its raw trials and the extras it reduced itself. */
+export interface ShardOutcome {
+  trialCount: number;
+  /** Project duration per trial, in trial order. */
+  samples: Float64Array;
+  exhaustedIds: string[];
+  /** Project cost per trial, in trial order; absent when no activity has a cost. */
+  costSamples?: Float64Array;
+  /** Finish per trial per milestone (NaN when no activity of it ran), dependency mode. */
+  milestoneSamples?: Record<string, Float64Array>;
+  /** Likewise per WBS summary. */
+  summarySamples?: Record<string, Float64Array>;
+  criticalityIndex?: Record<string, number>;
+  activitySensitivity?: Record<string, ActivitySensitivity>;
+  riskResults?: Record<string, RiskResult>;
+  mergePoints?: Record<string, MergePointResult>;
+  activityDates?: Record<string, ActivityDateResult>;
+}
+
+/**
+ * Trial-weighted mean of the shards' values, walked key by key. A number missing from a
+ * shard that has the enclosing record counts as 0 (a driver that never set a start); a
+ * record missing from a shard leaves that shard out of the mean below it.
+ */
+function pooled(values: unknown[], weights: number[]): unknown {
+  const present = values.map((v, i) => ({ v, w: weights[i]! })).filter(({ v }) => v !== undefined);
+  if (present.length === 0) return undefined;
+  if (present.every(({ v }) => typeof v === "number")) {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return values.reduce<number>((sum, v, i) => sum + (typeof v === "number" ? v * weights[i]! : 0), 0) / total;
+  }
+  const records = present.map(({ v }) => v as Record<string, unknown>);
+  const recordWeights = present.map(({ w }) => w);
+  const keys = new Set(records.flatMap((r) => Object.keys(r)));
+  const result: Record<string, unknown> = {};
+  for (const key of keys) {
+    const merged = pooled(records.map((r) => r[key]), recordWeights);
+    if (merged !== undefined) result[key] = merged;
+  }
+  return result;
+}
+
+function pooledField<K extends keyof ShardOutcome>(shards: ShardOutcome[], key: K): ShardOutcome[K] {
+  if (shards.every((s) => s[key] === undefined)) return undefined as ShardOutcome[K];
+  return pooled(shards.map((s) => s[key]), shards.map((s) => s.trialCount)) as ShardOutcome[K];
+}
+
+/**
+ * The risk results pooled, each mean impact then re-weighted by the trials the risk fired
+ * in — a shard where it fired once says little about its impact.
+ */
+function pooledRiskResults(shards: ShardOutcome[]): Record<string, RiskResult> | undefined {
+  const results = pooledField(shards, "riskResults");
+  if (!results) return undefined;
+  for (const [id, result] of Object.entries(results)) {
+    let fired = 0;
+    let impact = 0;
+    for (const shard of shards) {
+      const own = shard.riskResults?.[id];
+      if (!own) continue;
+      const firedCount = own.occurrence * shard.trialCount;
+      fired += firedCount;
+      impact += own.meanImpact * firedCount;
+    }
+    result.meanImpact = fired > 0 ? impact / fired : 0;
+  }
+  return results;
+}
+
+/** Concatenate each group's per-trial finishes across the shards, in shard order. */
+function concatGroupSamples(
+  shards: ShardOutcome[],
+  key: "milestoneSamples" | "summarySamples",
+  trialCount: number,
+): Map<string, Float64Array> | undefined {
+  if (shards.every((s) => s[key] === undefined)) return undefined;
+  const groups = new Map<string, Float64Array>();
+  let offset = 0;
+  for (const shard of shards) {
+    for (const [id, series] of Object.entries(shard[key] ?? {})) {
+      let merged = groups.get(id);
+      if (!merged) {
+        merged = new Float64Array(trialCount).fill(Number.NaN);
+        groups.set(id, merged);
+      }
+      merged.set(series, offset);
+    }
+    offset += shard.trialCount;
+  }
+  return groups;
+}
+
+/**
+ * The cost result of the merged trials — every shard carries costs or none does, the
+ * activities being the same. Call it with `samples` still in trial order.
+ */
+function mergedCostResult(shards: ShardOutcome[], samples: Float64Array) {
+  if (shards.some((s) => s.costSamples === undefined)) return undefined;
+  const costs = new Float64Array(samples.length);
+  let offset = 0;
+  for (const shard of shards) {
+    costs.set(shard.costSamples!, offset);
+    offset += shard.trialCount;
+  }
+  return computeCostResult(samples, costs);
+}
+
+/** One run from its shards, in shard order — the order fixes the merged trial sequence. */
+export function mergeShardOutcomes(
+  shards: ShardOutcome[],
+  rngSeed: string,
+  samplingMethod?: SamplingMethod,
+): SimulationRun {
+  const trialCount = shards.reduce((sum, s) => sum + s.trialCount, 0);
+  const samples = new Float64Array(trialCount);
+  let offset = 0;
+  for (const shard of shards) {
+    samples.set(shard.samples, offset);
+    offset += shard.trialCount;
+  }
+  const exhaustedIds = [...new Set(shards.flatMap((s) => s.exhaustedIds))];
+  const costResults = mergedCostResult(shards, samples);
+  const result = computeSimulationStats(samples, trialCount, rngSeed, exhaustedIds);
+  if (costResults) result.costResults = costResults;
+
+  const milestoneSamples = concatGroupSamples(shards, "milestoneSamples", trialCount);
+  if (milestoneSamples) result.milestoneResults = computeMilestoneStats(milestoneSamples, trialCount);
+  const summarySamples = concatGroupSamples(shards, "summarySamples", trialCount);
+  if (summarySamples) result.summaryResults = computeMilestoneStats(summarySamples, trialCount);
+
+  const criticalityIndex = pooledField(shards, "criticalityIndex");
+  if (criticalityIndex) result.criticalityIndex = criticalityIndex;
+  const activitySensitivity = pooledField(shards, "activitySensitivity");
+  if (activitySensitivity) result.activitySensitivity = activitySensitivity;
+  const riskResults = pooledRiskResults(shards);
+  if (riskResults) result.riskResults = riskResults;
+  const mergePoints = pooledField(shards, "mergePoints");
+  if (mergePoints) result.mergePoints = mergePoints;
+  const activityDates = pooledField(shards, "activityDates");
+  if (activityDates) result.activityDates = activityDates;
+
+  if (shards.length > 1) result.workerCount = shards.length;
+  if (samplingMethod === "latinHypercube") result.samplingMethod = samplingMethod;
+  return result;
+}
+
+/**
+ * One progress callback for the whole pool: each shard reports its own completed trials,
+ * and the run's progress is their sum against the run's total.
+ */
+export function combineShardProgress(
+  shards: SimulationShard[],
+  onProgress: (completedTrials: number, totalTrials: number) => void,
+): (shardIndex: number, completedTrials: number) => void {
+  const completed = new Array<number>(shards.length).fill(0);
+  const total = shards.reduce((sum, s) => sum + s.trialCount, 0);
+  return (shardIndex, completedTrials) => {
+    completed[shardIndex] = completedTrials;
+    onProgress(completed.reduce((sum, n) => sum + n, 0), total);
+  };
+}
@@ -2,11 +2,37 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, ActivityDependency, SimulationRun } from "@domain/models/types";
 import type {
+  Activity,
+  ActivityDependency,
+  CorrelationGroup,
+  ExclusiveBranch,
+  RiskEvent,
+  SamplingMethod,
+  SimulationRun,
+} from "@domain/models/types";
+import type { ElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import type { ResourceLevelingModel } from "@core/schedule/resource-leveling";
+import type { ActivityCalendarAxis } from "@core/schedule/activity-calendars";
+import type { ConvergenceTarget } from "./convergence";
+import type {
+  CompressionAdviceRequest,
+  CompressionPlanRequest,
   SimulationRequest,
+  SimulationResult,
+  WorkerIncomingMessage,
   WorkerOutgoingMessage,
 } from "./worker-protocol";
+import { GOAL_SEEK_TRIALS, type CompressionPlan } from "./goal-seek";
+import type { CompressionAdvice } from "./compression-advisor";
+import {
+  combineShardProgress,
+  mergeShardOutcomes,
+  planSimulationShards,
+  simulationWorkerCount,
+  type ShardOutcome,
+  type SimulationShard,
+} from "./simulation-shards";
 
 export interface SimulationCallbacks {
   onProgress?: (completedTrials: number, totalTrials: number) => void;
@@ -18,18 +44,132 @@ export interface SimulationHandle {
   cancel: () => void;
 }
 
+/** Callbacks for a worker task that answers with one result of type `T`. */
+export interface WorkerTaskCallbacks<T> {
+  onProgress?: (completedTrials: number, totalTrials: number) => void;
+  onComplete: (result: T) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * The dependency-mode run the goal-seek re-runs start from, worker-shaped — the same
+ * params a manual run sends.
+ */
+export interface CompressionRunParams {
+  activities: Activity[];
+  rngSeed: string;
+  dependencyParams: DependencySimulationParams;
+  uncertainty?: UncertaintyParams;
+}
+
 export interface DependencySimulationParams {
   dependencyMode: boolean;
   dependencies: ActivityDependency[];
   deterministicDurationMap?: Record<string, number>;
   milestoneActivityIds?: Record<string, string[]>;
+  summaryActivityIds?: Record<string, string[]>;
   activityEarliestStart?: Record<string, number>;
   constraintMap?: Record<string, { type: string; offsetFromStart: number; mode: string }>;
+  elapsedLagCalendar?: ElapsedLagCalendar;
+  resourceLeveling?: ResourceLevelingModel;
+  activityCalendarAxis?: ActivityCalendarAxis;
+}
+
+/**
+ * Scenario-level uncertainty beyond the per-activity estimates, and how the trials sample
+ * it; applies in either mode.
+ */
+export interface UncertaintyParams {
+  correlationGroups?: CorrelationGroup[];
+  risks?: RiskEvent[];
+  branches?: ExclusiveBranch[];
+  samplingMethod?: SamplingMethod;
+}
+
+/** The start payload every shard shares; each gets its own trial count and seed. */
+type StartPayload = SimulationRequest["payload"];
+
+function buildStartPayload(
+  activities: Activity[],
+  trialCount: number,
+  rngSeed: string,
+  deterministicDurations: number[] | undefined,
+  dependencyParams: DependencySimulationParams | undefined,
+  sequentialConstraints: ({ type: string; offsetFromStart: number; mode: string } | null)[] | undefined,
+  uncertainty: UncertaintyParams | undefined,
+  convergence: ConvergenceTarget | undefined,
+): StartPayload {
+  return {
+    activities,
+    trialCount,
+    rngSeed,
+    deterministicDurations,
+    sequentialConstraints: sequentialConstraints ?? undefined,
+    correlationGroups: uncertainty?.correlationGroups,
+    risks: uncertainty?.risks,
+    branches: uncertainty?.branches,
+    samplingMethod: uncertainty?.samplingMethod,
+    convergence,
+    ...(dependencyParams && {
+      dependencyMode: dependencyParams.dependencyMode,
+      dependencies: dependencyParams.dependencies,
+      deterministicDurationMap: dependencyParams.deterministicDurationMap,
+      milestoneActivityIds: dependencyParams.milestoneActivityIds,
+      summaryActivityIds: dependencyParams.summaryActivityIds,
+      activityEarliestStart: dependencyParams.activityEarliestStart,
+      constraintMap: dependencyParams.constraintMap,
+      elapsedLagCalendar: dependencyParams.elapsedLagCalendar,
+      resourceLeveling: dependencyParams.resourceLeveling,
+      activityCalendarAxis: dependencyParams.activityCalendarAxis,
+    }),
+  };
+}
+
+/** The start payload for a goal-seek run: its trial count is replaced per re-run. */
+function compressionRunPayload(params: CompressionRunParams): StartPayload {
+  return buildStartPayload(
+    params.activities, GOAL_SEEK_TRIALS, params.rngSeed, undefined,
+    params.dependencyParams, undefined, params.uncertainty, undefined,
+  );
+}
+
+/**
+ * Start one worker on `request`. Every message is handed to `onMessage` after the
+ * structural check; a malformed message or a worker-level error goes to `onFailure`.
+ */
+function startWorker(
+  request: WorkerIncomingMessage,
+  onMessage: (msg: WorkerOutgoingMessage) => void,
+  onFailure: (message: string) => void,
+): Worker {
+  const worker = new Worker(
+    new URL("../../workers/simulation.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+
+  worker.onmessage = (event: MessageEvent<WorkerOutgoingMessage>) => {
+    const msg = event.data;
+
+    // Defensive validation: ensure message has expected structure
+    if (!msg || typeof msg !== "object" || !("type" in msg)) {
+      onFailure("Invalid worker message received");
+      return;
+    }
+    onMessage(msg);
+  };
+
+  worker.onerror = (event) => {
+    onFailure(event.message || "Worker encountered an error");
+  };
+
+  worker.postMessage(request);
+  return worker;
 }
 
 /**
- * Launch a Monte Carlo simulation in a Web Worker.
- * Worker is created per-run and terminated on completion/error/cancel.
+ * Launch a Monte Carlo simulation in Web Workers — one per core for a large fixed-count
+ * run, split by simulation-shards.ts, and one otherwise.
+ * Workers are created per-run and terminated on completion/error/cancel.
  */
 export function runSimulationInWorker(
   activities: Activity[],
@@ -39,78 +179,185 @@ export function runSimulationInWorker(
   callbacks: SimulationCallbacks,
   dependencyParams?: DependencySimulationParams,
   sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+  uncertainty?: UncertaintyParams,
+  convergence?: ConvergenceTarget,
 ): SimulationHandle {
-  const worker = new Worker(
-    new URL("../../workers/simulation.worker.ts", import.meta.url),
-    { type: "module" }
+  const payload = buildStartPayload(
+    activities, trialCount, rngSeed, deterministicDurations,
+    dependencyParams, sequentialConstraints, uncertainty, convergence,
   );
+  const workerCount = simulationWorkerCount(trialCount, navigator.hardwareConcurrency, convergence !== undefined);
+  return workerCount > 1
+    ? runShardedSimulation(payload, planSimulationShards(trialCount, rngSeed, workerCount), callbacks)
+    : runSingleWorker(payload, callbacks);
+}
 
+function runSingleWorker(payload: StartPayload, callbacks: SimulationCallbacks): SimulationHandle {
+  return runWorkerTask<SimulationResult["payload"]>(
+    { type: "simulation:start", payload },
+    "simulation:result",
+    {
+      onProgress: callbacks.onProgress,
+      onComplete: (result) => callbacks.onComplete(result, result.elapsedMs),
+      onError: callbacks.onError,
+    },
+  );
+}
+
+/**
+ * The pool: one worker per shard, each posting its raw trials. The run completes when
+ * the last shard does, merged in shard order; the first error or cancel ends them all.
+ */
+function runShardedSimulation(
+  payload: StartPayload,
+  shards: SimulationShard[],
+  callbacks: SimulationCallbacks,
+): SimulationHandle {
+  const startTime = performance.now();
+  const outcomes: (ShardOutcome | undefined)[] = new Array(shards.length);
+  const reportProgress = callbacks.onProgress && combineShardProgress(shards, callbacks.onProgress);
+  let remaining = shards.length;
   let terminated = false;
 
   function terminate() {
     if (!terminated) {
       terminated = true;
-      worker.terminate();
+      for (const worker of workers) worker.terminate();
     }
   }
 
-  worker.onmessage = (event: MessageEvent<WorkerOutgoingMessage>) => {
-    const msg = event.data;
+  function fail(message: string) {
+    if (terminated) return;
+    terminate();
+    callbacks.onError(message);
+  }
 
-    // Defensive validation: ensure message has expected structure
-    if (!msg || typeof msg !== "object" || !("type" in msg)) {
-      callbacks.onError("Invalid worker message received");
-      terminate();
-      return;
+  function complete(index: number, outcome: ShardOutcome) {
+    outcomes[index] = outcome;
+    reportProgress?.(index, outcome.trialCount);
+    remaining--;
+    if (remaining > 0) return;
+    terminate();
+    try {
+      const merged = mergeShardOutcomes(outcomes as ShardOutcome[], payload.rngSeed, payload.samplingMethod);
+      callbacks.onComplete(merged, performance.now() - startTime);
+    } catch (err) {
+      callbacks.onError(err instanceof Error ? err.message : String(err));
     }
+  }
 
+  function onShardMessage(index: number, msg: WorkerOutgoingMessage) {
+    if (terminated) return;
     switch (msg.type) {
       case "simulation:progress":
-        callbacks.onProgress?.(
-          msg.payload.completedTrials,
-          msg.payload.totalTrials
-        );
+        reportProgress?.(index, msg.payload.completedTrials);
+        break;
+      case "simulation:shard-result":
+        complete(index, msg.payload);
         break;
       case "simulation:result":
-        callbacks.onComplete(msg.payload, msg.payload.elapsedMs);
-        terminate();
+        fail("Worker returned a full result for a shard");
         break;
       case "simulation:error":
-        callbacks.onError(msg.payload.message);
-        terminate();
+        fail(msg.payload.message);
         break;
     }
-  };
+  }
 
-  worker.onerror = (event) => {
-    callbacks.onError(event.message || "Worker encountered an error");
+  const workers: Worker[] = [];
+  try {
+    shards.forEach((shard, index) => {
+      workers.push(startWorker(
+        {
+          type: "simulation:start",
+          payload: { ...payload, trialCount: shard.trialCount, rngSeed: shard.rngSeed, shard: true },
+        },
+        (msg) => onShardMessage(index, msg),
+        fail,
+      ));
+    });
+  } catch (err) {
+    // Worker creation failed part-way: stop the ones already started, and let the
+    // caller fall back to the synchronous run.
     terminate();
-  };
+    throw err;
+  }
 
-  const request: SimulationRequest = {
-    type: "simulation:start",
-    payload: {
-      activities,
-      trialCount,
-      rngSeed,
-      deterministicDurations,
-      sequentialConstraints: sequentialConstraints ?? undefined,
-      ...(dependencyParams && {
-        dependencyMode: dependencyParams.dependencyMode,
-        dependencies: dependencyParams.dependencies,
-        deterministicDurationMap: dependencyParams.deterministicDurationMap,
-        milestoneActivityIds: dependencyParams.milestoneActivityIds,
-        activityEarliestStart: dependencyParams.activityEarliestStart,
-        constraintMap: dependencyParams.constraintMap,
-      }),
+  return {
+    cancel: () => {
+      terminate();
     },
   };
+}
 
-  worker.postMessage(request);
+/**
+ * Run one request that answers with a single `resultType` message — an unsharded run, a
+ * goal-seek plan or ranking — in its own worker, terminated on completion, error or cancel.
+ */
+function runWorkerTask<T>(
+  request: WorkerIncomingMessage,
+  resultType: WorkerOutgoingMessage["type"],
+  callbacks: WorkerTaskCallbacks<T>,
+): SimulationHandle {
+  let terminated = false;
 
-  return {
-    cancel: () => {
+  function terminate() {
+    if (!terminated) {
+      terminated = true;
+      worker.terminate();
+    }
+  }
+
+  const worker = startWorker(
+    request,
+    (msg) => {
+      if (terminated) return;
+      if (msg.type === "simulation:progress") {
+        callbacks.onProgress?.(msg.payload.completedTrials, msg.payload.totalTrials);
+      } else if (msg.type === "simulation:error") {
+        terminate();
+        callbacks.onError(msg.payload.message);
+      } else if (msg.type === resultType) {
+        terminate();
+        callbacks.onComplete(msg.payload as T);
+      }
+    },
+    (message) => {
+      if (terminated) return;
       terminate();
+      callbacks.onError(message);
     },
+  );
+
+  return { cancel: terminate };
+}
+
+/**
+ * Make a goal-seek compression plan (goal-seek.ts) in a Web Worker: tens of thousands of
+ * trials, reported after each re-run.
+ */
+export function planCompressionInWorker(
+  params: CompressionRunParams,
+  confidence: number,
+  targetDays: number,
+  callbacks: WorkerTaskCallbacks<CompressionPlan>,
+): SimulationHandle {
+  const request: CompressionPlanRequest = {
+    type: "simulation:plan-compression",
+    payload: { run: compressionRunPayload(params), confidence, targetDays },
+  };
+  return runWorkerTask(request, "simulation:compression-plan", callbacks);
+}
+
+/** Rank the compression advisor's candidates (compression-advisor.ts) in a Web Worker. */
+export function adviseCompressionInWorker(
+  params: CompressionRunParams,
+  criticalIds: ReadonlySet<string>,
+  callbacks: WorkerTaskCallbacks<CompressionAdvice>,
+): SimulationHandle {
+  const request: CompressionAdviceRequest = {
+    type: "simulation:advise-compression",
+    payload: { run: compressionRunPayload(params), criticalIds: [...criticalIds] },
   };
+  return runWorkerTask(request, "simulation:compression-advice", callbacks);
 }
@@ -2,7 +2,22 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, ActivityDependency, SimulationRun } from "@domain/models/types";
+import type {
+  Activity,
+  ActivityDependency,
+  CorrelationGroup,
+  ExclusiveBranch,
+  RiskEvent,
+  SamplingMethod,
+  SimulationRun,
+} from "@domain/models/types";
+import type { ElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import type { ResourceLevelingModel } from "@core/schedule/resource-leveling";
+import type { ActivityCalendarAxis } from "@core/schedule/activity-calendars";
+import type { ConvergenceTarget } from "./convergence";
+import type { ShardOutcome } from "./simulation-shards";
+import type { CompressionPlan } from "./goal-seek";
+import type { CompressionAdvice } from "./compression-advisor";
 
 // -- Main thread --> Worker ---------------------------------------------------
 
@@ -15,6 +30,24 @@ export interface SimulationRequest {
     deterministicDurations?: number[];
     /** Per-activity constraint info for sequential mode (parallel to activities array). */
     sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[];
+    /** Groups of activities with correlated durations, either mode (sent only when defined). */
+    correlationGroups?: CorrelationGroup[];
+    /** The scenario's risk register, either mode (sent only when defined). */
+    risks?: RiskEvent[];
+    /** Exclusive branches, either mode (sent only when defined). */
+    branches?: ExclusiveBranch[];
+    /** How the trials draw durations, either mode (sent only when defined). */
+    samplingMethod?: SamplingMethod;
+    /**
+     * "Until converged": run batches until the target percentile is this precise, either
+     * mode (sent only when defined). `trialCount` is then the ceiling.
+     */
+    convergence?: ConvergenceTarget;
+    /**
+     * One shard of a parallel run (simulation-shards.ts): post the raw trials as a
+     * `simulation:shard-result` for the coordinator to merge, not the run's statistics.
+     */
+    shard?: boolean;
     /** When true, use dependency-aware simulation. */
     dependencyMode?: boolean;
     /** Dependencies for dependency-aware simulation. */
@@ -23,13 +56,48 @@ export interface SimulationRequest {
     deterministicDurationMap?: Record<string, number>;
     /** Map of milestoneId → activity IDs assigned to that milestone (serialized as Record). */
     milestoneActivityIds?: Record<string, string[]>;
+    /** Map of WBS summaryId → every activity beneath it (serialized as Record). */
+    summaryActivityIds?: Record<string, string[]>;
     /** Map of activityId → earliest start offset in working days (serialized as Record). */
     activityEarliestStart?: Record<string, number>;
     /** Map of activityId → constraint info for MC per-trial clamping (serialized as Record). */
     constraintMap?: Record<string, { type: string; offsetFromStart: number; mode: string }>;
+    /** Calendar sample for elapsed-day lags (only sent when a dependency uses one). */
+    elapsedLagCalendar?: ElapsedLagCalendar;
+    /** Resource leveling model (only sent when an activity holds a resource). */
+    resourceLeveling?: ResourceLevelingModel;
+    /** Per-activity calendar tracks (only sent when an activity has a calendar of its own). */
+    activityCalendarAxis?: ActivityCalendarAxis;
   };
 }
 
+/**
+ * A goal-seek compression plan (goal-seek.ts) over the dependency-mode run in `run` — its
+ * re-runs are too many to make on the main thread.
+ */
+export interface CompressionPlanRequest {
+  type: "simulation:plan-compression";
+  payload: {
+    run: SimulationRequest["payload"];
+    /** The finish percentile to meet the target at. */
+    confidence: number;
+    /** Working days the target allows. */
+    targetDays: number;
+  };
+}
+
+/** The compression advisor's ranking (compression-advisor.ts), in the same worker. */
+export interface CompressionAdviceRequest {
+  type: "simulation:advise-compression";
+  payload: {
+    run: SimulationRequest["payload"];
+    /** The deterministic critical path the candidates come from. */
+    criticalIds: string[];
+  };
+}
+
+export type WorkerIncomingMessage = SimulationRequest | CompressionPlanRequest | CompressionAdviceRequest;
+
 // -- Worker --> Main thread ---------------------------------------------------
 
 export interface SimulationProgress {
@@ -45,6 +113,21 @@ export interface SimulationResult {
   payload: SimulationRun & { elapsedMs: number };
 }
 
+export interface SimulationShardResult {
+  type: "simulation:shard-result";
+  payload: ShardOutcome & { elapsedMs: number };
+}
+
+export interface CompressionPlanResult {
+  type: "simulation:compression-plan";
+  payload: CompressionPlan;
+}
+
+export interface CompressionAdviceResult {
+  type: "simulation:compression-advice";
+  payload: CompressionAdvice;
+}
+
 export interface SimulationError {
   type: "simulation:error";
   payload: {
@@ -55,4 +138,7 @@ export interface SimulationError {
 export type WorkerOutgoingMessage =
   | SimulationProgress
   | SimulationResult
+  | SimulationShardResult
+  | CompressionPlanResult
+  | CompressionAdviceResult
   | SimulationError;
@@ -6,8 +6,11 @@ import { describe, it, expect } from "vitest";
 import {
   distributionLabel,
   distributionShortLabel,
+  usesConfidenceLevel,
   statusLabel,
   dependencyLabel,
+  lagUnitSuffix,
+  formatLag,
 } from "./format-labels";
 
 describe("distributionLabel", () => {
@@ -26,6 +29,12 @@ describe("distributionLabel", () => {
   it("formats uniform correctly", () => {
     expect(distributionLabel("uniform")).toBe("Uniform");
   });
+
+  it("formats pertBeta, weibull and empirical correctly", () => {
+    expect(distributionLabel("pertBeta")).toBe("PERT-Beta");
+    expect(distributionLabel("weibull")).toBe("Weibull");
+    expect(distributionLabel("empirical")).toBe("Empirical");
+  });
 });
 
 describe("distributionShortLabel", () => {
@@ -44,6 +53,24 @@ describe("distributionShortLabel", () => {
   it("formats uniform correctly", () => {
     expect(distributionShortLabel("uniform")).toBe("Uni");
   });
+
+  it("formats pertBeta, weibull and empirical correctly", () => {
+    expect(distributionShortLabel("pertBeta")).toBe("Beta");
+    expect(distributionShortLabel("weibull")).toBe("Weib");
+    expect(distributionShortLabel("empirical")).toBe("Emp");
+  });
+});
+
+describe("usesConfidenceLevel", () => {
+  it("is true only for the types whose SD comes from the confidence level", () => {
+    expect(usesConfidenceLevel("normal")).toBe(true);
+    expect(usesConfidenceLevel("logNormal")).toBe(true);
+    expect(usesConfidenceLevel("weibull")).toBe(true);
+    expect(usesConfidenceLevel("triangular")).toBe(false);
+    expect(usesConfidenceLevel("uniform")).toBe(false);
+    expect(usesConfidenceLevel("pertBeta")).toBe(false);
+    expect(usesConfidenceLevel("empirical")).toBe(false);
+  });
 });
 
 describe("statusLabel", () => {
@@ -72,4 +99,34 @@ describe("dependencyLabel", () => {
   it("formats FF correctly", () => {
     expect(dependencyLabel("FF")).toBe("Finish-to-Finish");
   });
+
+  it("formats SF correctly", () => {
+    expect(dependencyLabel("SF")).toBe("Start-to-Finish");
+  });
+});
+
+describe("lagUnitSuffix", () => {
+  it("uses d for working days, including an unset unit", () => {
+    expect(lagUnitSuffix("working")).toBe("d");
+    expect(lagUnitSuffix(undefined)).toBe("d");
+  });
+
+  it("uses ed for elapsed days", () => {
+    expect(lagUnitSuffix("elapsed")).toBe("ed");
+  });
+});
+
+describe("formatLag", () => {
+  it("signs day lags and omits a zero lag", () => {
+    expect(formatLag({ lagDays: 3 })).toBe("+3d");
+    expect(formatLag({ lagDays: -2 })).toBe("-2d");
+    expect(formatLag({ lagDays: 7, lagUnit: "elapsed" })).toBe("+7ed");
+    expect(formatLag({ lagDays: 0 })).toBe("");
+  });
+
+  it("shows a percentage lag as a percentage", () => {
+    expect(formatLag({ lagDays: 0, lagPercent: 60 })).toBe("+60%");
+    expect(formatLag({ lagDays: 0, lagPercent: -25 })).toBe("-25%");
+    expect(formatLag({ lagDays: 0, lagPercent: 0 })).toBe("");
+  });
 });
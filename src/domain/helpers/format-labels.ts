@@ -2,7 +2,13 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { DistributionType, ActivityStatus, DependencyType } from "@domain/models/types";
+import type {
+  ActivityDependency,
+  ActivityStatus,
+  DependencyType,
+  DistributionType,
+  LagUnit,
+} from "@domain/models/types";
 
 /** Full display label for distribution types. */
 export function distributionLabel(dt: DistributionType): string {
@@ -15,6 +21,12 @@ export function distributionLabel(dt: DistributionType): string {
       return "Triangular";
     case "uniform":
       return "Uniform";
+    case "pertBeta":
+      return "PERT-Beta";
+    case "weibull":
+      return "Weibull";
+    case "empirical":
+      return "Empirical";
   }
 }
 
@@ -29,9 +41,24 @@ export function distributionShortLabel(dt: DistributionType): string {
       return "Tri";
     case "uniform":
       return "Uni";
+    case "pertBeta":
+      return "Beta";
+    case "weibull":
+      return "Weib";
+    case "empirical":
+      return "Emp";
   }
 }
 
+/**
+ * Whether the confidence level (the RSM behind the SPERT SD) shapes this distribution.
+ * Normal, LogNormal and Weibull are fitted to the PERT mean and that SD; the bounded types
+ * take their spread from the estimate itself, and Empirical from the history.
+ */
+export function usesConfidenceLevel(dt: DistributionType): boolean {
+  return dt === "normal" || dt === "logNormal" || dt === "weibull";
+}
+
 /** Display label for activity statuses. */
 export function statusLabel(status: ActivityStatus): string {
   switch (status) {
@@ -53,9 +80,30 @@ export function dependencyLabel(dt: DependencyType): string {
       return "Start-to-Start";
     case "FF":
       return "Finish-to-Finish";
+    case "SF":
+      return "Start-to-Finish";
   }
 }
 
+/**
+ * Unit suffix for a displayed lag: "d" for working days, "ed" for elapsed (calendar)
+ * days — the MS Project notation, so "+7ed" reads the same in an export as in the app.
+ */
+export function lagUnitSuffix(unit: LagUnit | undefined): string {
+  return unit === "elapsed" ? "ed" : "d";
+}
+
+/**
+ * Signed lag with its unit — "+3d", "-2d", "+7ed", "+60%" — or "" when there is none.
+ * A percentage lag shows the percentage, not the days it currently resolves to.
+ */
+export function formatLag(dep: Pick<ActivityDependency, "lagDays" | "lagUnit" | "lagPercent">): string {
+  const value = dep.lagPercent ?? dep.lagDays;
+  if (value === 0) return "";
+  const suffix = dep.lagPercent !== undefined ? "%" : lagUnitSuffix(dep.lagUnit);
+  return `${value > 0 ? "+" : ""}${value}${suffix}`;
+}
+
 // -- Milestone health --------------------------------------------------------
 
 export type MilestoneHealth = "green" | "amber" | "red";
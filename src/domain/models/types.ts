@@ -12,7 +12,7 @@
 export const ENGINE_VERSION = "1.1.1";
 
 /** Operational. Drives persistence migration system. */
-export const SCHEMA_VERSION = 23;
+export const SCHEMA_VERSION = 46;
 
 // -- Schema Limits -----------------------------------------------------------
 
@@ -44,15 +44,26 @@ export const RSM_LEVELS = [
 
 export type RSMLevel = (typeof RSM_LEVELS)[number];
 
-export const DISTRIBUTION_TYPES = [
+/** Distribution types defined by the three-point estimate alone. */
+export const PARAMETRIC_DISTRIBUTION_TYPES = [
   "normal",
   "logNormal",
   "triangular",
   "uniform",
+  "pertBeta",
+  "weibull",
 ] as const;
 
+/** Every distribution type; "empirical" samples the activity's `historicalDurations`. */
+export const DISTRIBUTION_TYPES = [...PARAMETRIC_DISTRIBUTION_TYPES, "empirical"] as const;
+
 export type DistributionType = (typeof DISTRIBUTION_TYPES)[number];
 
+/** Fewest historical durations an empirical distribution is built from. */
+export const HISTORICAL_DURATIONS_MIN = 5;
+/** Most historical durations an activity keeps. */
+export const HISTORICAL_DURATIONS_MAX = 500;
+
 export const ACTIVITY_STATUSES = [
   "planned",
   "inProgress",
@@ -76,10 +87,25 @@ export const CONSTRAINT_MODES = ["hard", "soft"] as const;
 
 export type ConstraintMode = (typeof CONSTRAINT_MODES)[number];
 
-export const DEPENDENCY_TYPES = ["FS", "SS", "FF"] as const;
+export const DEPENDENCY_TYPES = ["FS", "SS", "FF", "SF"] as const;
 
 export type DependencyType = (typeof DEPENDENCY_TYPES)[number];
 
+/**
+ * How a dependency's lag is counted: "working" days follow the work calendar, "elapsed"
+ * days run straight through weekends and holidays (curing, regulatory waiting periods).
+ */
+export const LAG_UNITS = ["working", "elapsed"] as const;
+
+export type LagUnit = (typeof LAG_UNITS)[number];
+
+/**
+ * Bounds for a percentage lag. ±100% covers "start when the predecessor is N% done"
+ * and a lead of up to the predecessor's whole duration; anything longer is a day lag.
+ */
+export const LAG_PERCENT_MIN = -100;
+export const LAG_PERCENT_MAX = 100;
+
 // -- RSM Lookup Table --------------------------------------------------------
 // RSM = sqrt(k) / 10 for specific k values
 
@@ -158,13 +184,75 @@ export interface Activity {
   deliverables?: DeliverableItem[]; // deliverable checklist, max 50 items
   description?: string; // plain-language scope, max 2000 chars — shared/exported (unlike notes)
   notes?: string; // free-text activity notes, max 2000 chars
+  resourceAssignments?: ResourceAssignment[]; // resources held while it runs; leveled in dependency mode
+  calendarId?: string; // a NamedCalendar of the project; absent = the project calendar (dependency mode only)
+  summaryId?: string; // the WbsSummary this activity rolls up into; absent = top level
+  actualStartDate?: string; // ISO "YYYY-MM-DD" the work actually began
+  actualFinishDate?: string; // ISO "YYYY-MM-DD" the work actually ended (status "complete")
+  remainingEstimate?: RemainingEstimate; // re-estimate of the work left (status "inProgress")
+  occurrenceProbability?: number; // conditional work: share of trials it runs in, 0 < p < 1; absent = always
+  historicalDurations?: number[]; // past durations (working days) the "empirical" distribution samples
+  cost?: ActivityCost; // what the work costs; absent = nothing (cost.ts)
+}
+
+/**
+ * What an activity costs, in the project's currency: a fixed amount (materials, licences,
+ * a contract) plus a burn rate for every working day it runs. `fixedMin` and `fixedMax`,
+ * set together, make the fixed amount a three-point estimate with `fixed` the most likely.
+ */
+export interface ActivityCost {
+  fixed: number;
+  dailyRate: number;
+  fixedMin?: number;
+  fixedMax?: number;
+}
+
+/**
+ * Three-point estimate of the work still to do on an in-progress activity, in working
+ * days from the status date. When present it replaces the original estimate's
+ * conditional remainder (status-date.ts).
+ */
+export interface RemainingEstimate {
+  min: number;
+  mostLikely: number;
+  max: number;
 }
 
 export interface ActivityDependency {
   fromActivityId: string; // predecessor
   toActivityId: string; // successor
-  type: DependencyType; // FS only for v1
+  type: DependencyType; // FS, SS, FF or SF
   lagDays: number; // 0 default; negative = lead time
+  lagUnit?: LagUnit; // absent = "working"
+  lagPercent?: number; // lag as % of the predecessor's duration; when set, replaces lagDays
+}
+
+/** Upper bound on a resource's capacity and on the units one activity may hold. */
+export const RESOURCE_UNITS_MAX = 100;
+
+export interface Resource {
+  id: string;
+  name: string; // e.g., "DBA team", "Alice" — max 200 chars
+  capacity: number; // units available per working day (1 = one full-time person)
+}
+
+/** Upper bound on the named calendars one project may define. */
+export const NAMED_CALENDARS_MAX = 20;
+
+/**
+ * A work calendar an activity can run on instead of the project's — e.g. a vendor who
+ * works weekends. It stands alone: the global and project holidays do not apply to it.
+ */
+export interface NamedCalendar {
+  id: string;
+  name: string; // e.g., "Vendor (7-day)" — max 200 chars
+  workDays: number[]; // active day indices, 0=Sun … 6=Sat
+  holidays: Holiday[]; // this calendar's own non-work days
+}
+
+export interface ResourceAssignment {
+  resourceId: string; // a Resource in the project's pool
+  units: number; // units held every working day the activity runs (1 = full time)
 }
 
 export interface Milestone {
@@ -180,6 +268,171 @@ export interface ActivityBand {
   color?: string; // hex #RRGGBB from preset palette; undefined = muted default
 }
 
+/** Upper bound on the WBS summaries one scenario may define. */
+export const WBS_SUMMARIES_MAX = 200;
+
+/**
+ * A WBS summary: a named work package grouping activities and other summaries, nested
+ * to any depth. It carries no estimate — its dates and finish distribution roll up from
+ * the activities beneath it. WBS codes (1, 1.1, 1.1.2) come from the tree order and are
+ * never stored.
+ */
+export interface WbsSummary {
+  id: string;
+  name: string; // max 200 chars, empty string allowed
+  parentId?: string; // enclosing summary; absent = top level
+  collapsed?: boolean; // hides everything beneath it in the grid and Gantt
+}
+
+/** Upper bound on the baselines one scenario may keep. */
+export const BASELINES_MAX = 10;
+
+/** An activity's planned dates as a baseline recorded them. */
+export interface BaselineActivity {
+  activityId: string;
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string; // "YYYY-MM-DD"
+  duration: number; // working days at the activity probability target
+}
+
+/** A milestone's planned finish (its latest activity) as a baseline recorded it. */
+export interface BaselineMilestone {
+  milestoneId: string;
+  finishDate: string; // "YYYY-MM-DD"
+}
+
+/**
+ * A named snapshot of a scenario's plan, for measuring the current plan against. It
+ * copies what the schedule showed at capture — nothing is re-derived from it later, so
+ * it stays valid however the activities, calendar or engine change afterwards.
+ */
+export interface ScenarioBaseline {
+  id: string;
+  name: string; // e.g., "Approved plan" — max 200 chars
+  capturedAt: string; // ISO 8601
+  projectEndDate: string; // deterministic finish, "YYYY-MM-DD"
+  spanDays: number; // deterministic span, working days
+  activities: BaselineActivity[];
+  milestones: BaselineMilestone[];
+  percentiles?: Record<number, number>; // project MC percentiles; absent when not simulated
+  bufferDays?: number; // schedule buffer at the project target; absent when not simulated
+}
+
+/** Project percentiles a forecast history entry records as finish dates. */
+export const FORECAST_HISTORY_PERCENTILES = [50, 80, 95] as const;
+
+/** Most recent runs a forecast history keeps one entry each; older ones are summarized. */
+export const FORECAST_HISTORY_RECENT = 10;
+
+/**
+ * Upper bound on one scenario's forecast history. An entry is about 170 bytes, so a
+ * project at MAX_SCENARIOS_PER_PROJECT, every history full, spends about a quarter of
+ * its single document on them.
+ */
+export const FORECAST_HISTORY_MAX = 30;
+
+/**
+ * One simulation run as the scenario's forecast history remembers it — enough to chart
+ * how the forecast moved, not to reproduce the run. Summarized entries stand for every
+ * run of one week and carry its latest (forecast-history.ts).
+ */
+export interface ForecastHistoryEntry {
+  timestamp: string; // ISO 8601 — the run's; the latest run's when summarized
+  fingerprint: string; // hash of the simulation inputs the run saw
+  finishDates: Record<number, string>; // FORECAST_HISTORY_PERCENTILES → "YYYY-MM-DD"
+  bufferDays?: number; // schedule buffer at the project target; absent without a schedule
+  runs?: number; // runs the entry stands for; absent = 1
+}
+
+/** Upper bound on the fever chart points a Critical Chain plan keeps. */
+export const FEVER_POINTS_MAX = 100;
+
+/** An activity on the critical chain and its aggressive duration when the plan was set. */
+export interface CriticalChainLink {
+  activityId: string;
+  days: number; // working days
+}
+
+/** A feeding buffer: where a non-critical chain joins the critical chain, and its size. */
+export interface FeedingBuffer {
+  fromActivityId: string; // the feeding chain's last activity
+  toActivityId: string; // the critical chain activity it joins
+  bufferDays: number; // working days
+}
+
+/** One status date on the fever chart: chain done against project buffer used, both 0–1. */
+export interface FeverPoint {
+  statusDate: string; // "YYYY-MM-DD"
+  chainCompleted: number; // share of the chain's planned days done, 0–1
+  bufferConsumed: number; // share of the project buffer used; negative = the chain is ahead
+}
+
+/**
+ * A Critical Chain plan (critical-chain.ts): the chain and its buffers as they stood
+ * when the plan was set, and the fever chart tracked against them since. Like a
+ * baseline, nothing in it is re-derived later.
+ */
+export interface CriticalChainPlan {
+  capturedAt: string; // ISO 8601
+  chain: CriticalChainLink[]; // in schedule order
+  chainDays: number; // deterministic span at aggressive durations, working days
+  projectBufferDays: number; // working days, > 0
+  feedingBuffers: FeedingBuffer[];
+  fever: FeverPoint[]; // oldest first
+}
+
+/**
+ * The calibration multiplier (calibration.ts) last applied to a scenario's planned
+ * activities, and how many actuals it came from. A multiplier compounds if applied twice,
+ * so the same recommendation from the same actuals is not offered again.
+ */
+export interface AppliedCalibration {
+  multiplier: number;
+  actualCount: number; // completed activities with an actual when it was applied
+}
+
+/** Upper bound on the correlation groups one scenario may define. */
+export const CORRELATION_GROUPS_MAX = 20;
+
+/** Largest rank correlation a group may ask for; 1 would make its members one activity. */
+export const CORRELATION_COEFFICIENT_MAX = 0.95;
+
+/**
+ * Activities whose durations move together in the Monte Carlo — work sharing a team, a
+ * vendor or an unknown, so that one running long makes the others likelier to as well.
+ * `coefficient` is the target rank (Spearman) correlation between any two members. An
+ * activity belongs to at most one group, which keeps every group's correlation valid
+ * whatever the coefficients.
+ */
+export interface CorrelationGroup {
+  id: string;
+  name: string; // e.g., "Vendor integration" — max 200 chars
+  activityIds: string[];
+  coefficient: number; // 0 – CORRELATION_COEFFICIENT_MAX
+}
+
+/** Upper bound on the risks one scenario's register may hold. */
+export const RISKS_MAX = 50;
+
+/** Largest probability a risk may have; a certain event belongs in the estimates. */
+export const RISK_PROBABILITY_MAX = 0.99;
+
+/**
+ * A discrete risk event from the scenario's register: something that might happen (a
+ * vendor API not ready, a failed inspection) rather than the background uncertainty the
+ * three-point estimates already carry. In each trial it fires with `probability`; when it
+ * does, every affected activity takes a delay drawn from the three-point impact.
+ */
+export interface RiskEvent {
+  id: string;
+  name: string; // e.g., "Vendor API not ready" — max 200 chars
+  probability: number; // 0 – RISK_PROBABILITY_MAX
+  impactMin: number; // working days
+  impactMostLikely: number; // working days
+  impactMax: number; // working days
+  activityIds: string[];
+}
+
 export interface ScenarioSettings {
   defaultConfidenceLevel: RSMLevel;
   defaultDistributionType: DistributionType;
@@ -192,8 +445,24 @@ export interface ScenarioSettings {
   heuristicMaxPercent: number; // 101-1000, percentage of ML for max estimate (default 200)
   dependencyMode: boolean; // when true, use dependency graph instead of sequential order (default false)
   parkinsonsLawEnabled: boolean; // when true, clamp MC samples to deterministic floor (default true)
+  branchSchedulePolicy?: BranchSchedulePolicy; // conditional work in the deterministic schedule; absent = "all"
+  convergenceToleranceDays?: number; // run until the project-target percentile is known to ± this; absent = fixed trialCount
+  samplingMethod?: SamplingMethod; // how the trials draw activity durations; absent = "random"
+  criticalChain?: boolean; // Critical Chain mode (dependency mode; critical-chain.ts); absent = off
 }
 
+/**
+ * How the Monte Carlo draws activity durations:
+ *   - "random":         plain Monte Carlo — every draw independent
+ *   - "latinHypercube": each activity's draws stratified across the run (latin-hypercube.ts),
+ *                       so the percentiles settle in far fewer trials
+ */
+export const SAMPLING_METHODS = ["random", "latinHypercube"] as const;
+export type SamplingMethod = (typeof SAMPLING_METHODS)[number];
+
+/** The precisions offered for an "until converged" run, in working days. */
+export const CONVERGENCE_TOLERANCE_OPTIONS = [0.25, 0.5, 1, 2] as const;
+
 export interface HistogramBin {
   binStart: number;
   binEnd: number;
@@ -222,13 +491,174 @@ export interface SimulationRun {
     percentiles: Record<number, number>;
     mean: number;
     standardDeviation: number;
+    /**
+     * Share of trials, 0–1, in which any of its activities ran — conditional work can skip
+     * them all. The statistics above cover those trials only. Omitted when it is every trial.
+     */
+    occurrence?: number;
   }>;
+  /** Finish-date statistics per WBS summary, same shape as milestoneResults (dependency mode). */
+  summaryResults?: SimulationRun["milestoneResults"];
   /**
    * Activity IDs whose planning-time estimate is exhausted (in-progress elapsed time
    * has consumed essentially all of the modeled probability mass). Conditional-sampling
    * breach signal. Omitted (not []) when empty. See core/distributions/truncated.ts.
    */
   modelExhaustedActivityIds?: string[];
+  /**
+   * Criticality index per not-yet-complete activity (dependency mode): the share of trials,
+   * 0–1, in which it had zero total float. Flags work that is usually critical even when
+   * the deterministic schedule gives it float. Omitted in sequential mode.
+   */
+  criticalityIndex?: Record<string, number>;
+  /**
+   * Sample-based sensitivity per not-yet-complete activity. Unlike the analytic view
+   * (core/analytics/sensitivity.ts) it sees the network: an activity that never drives
+   * the finish scores near zero however wide its estimate. In sequential mode every
+   * activity is on the one path, so it measures the draws alone.
+   */
+  activitySensitivity?: Record<string, ActivitySensitivity>;
+  /** What each risk in the register did to the finish, keyed by risk id; omitted without risks. */
+  riskResults?: Record<string, RiskResult>;
+  /**
+   * Start of each not-yet-complete merge point (an activity two or more predecessors
+   * converge on), keyed by activity id (dependency mode). Omitted when the network has none.
+   */
+  mergePoints?: Record<string, MergePointResult>;
+  /**
+   * Simulated start and finish percentiles per not-yet-complete activity, keyed by activity
+   * id. Both modes record them; measured over the first trials of the run (activity-dates.ts).
+   */
+  activityDates?: Record<string, ActivityDateResult>;
+  /** Set by an "until converged" run: the precision asked for and the precision reached. */
+  convergence?: SimulationConvergence;
+  /**
+   * Workers the trials were split across (simulation-shards.ts); absent = one. The seed
+   * reproduces the run only with the same count — each shard draws on a seed of its own.
+   */
+  workerCount?: number;
+  /** How the trials drew activity durations; absent = "random", the only method before it. */
+  samplingMethod?: SamplingMethod;
+  /** Project cost and its joint confidence with the finish; omitted when no activity has a cost. */
+  costResults?: CostResult;
+}
+
+/**
+ * How precisely an "until converged" run pinned the project-target percentile. Precision
+ * is the half-width of the percentile's 95% bootstrap confidence interval, in working days.
+ */
+export interface SimulationConvergence {
+  /** The percentile measured — the scenario's project target at run time, e.g. 95. */
+  percentile: number;
+  toleranceDays: number;
+  achievedHalfWidthDays: number;
+  /** False when the trial ceiling stopped the run before the tolerance was met. */
+  converged: boolean;
+}
+
+/** The percentiles each activity's simulated start and finish are reported at. */
+export const ACTIVITY_DATE_PERCENTILES = [50, 80, 95] as const;
+
+/** The joint confidence levels the cost/schedule contours are drawn at, in percent. */
+export const JCL_LEVELS = [50, 70, 90] as const;
+
+/** Trials a run keeps as (duration, cost) pairs for the joint confidence scatter. */
+export const JCL_SCATTER_TRIALS = 1000;
+
+/** One trial's — or one contour point's — project duration (working days) and cost. */
+export interface CostPoint {
+  duration: number;
+  cost: number;
+}
+
+/** The project cost distribution of a run, and its joint confidence with the duration. */
+export interface CostResult {
+  /** Project cost at the standard percentiles. */
+  percentiles: Record<number, number>;
+  mean: number;
+  standardDeviation: number;
+  /** The first JCL_SCATTER_TRIALS trials, for the scatter. */
+  scatter: CostPoint[];
+  /**
+   * Per JCL level: the durations and costs a plan can commit to together and still meet
+   * both in that share of trials, in order of duration. Each point (d, c) is the least c
+   * with P(duration ≤ d and cost ≤ c) at the level.
+   */
+  contours: Record<number, CostPoint[]>;
+}
+
+/**
+ * One activity's simulated dates, in working days from project start and keyed by
+ * percentile (ACTIVITY_DATE_PERCENTILES). `start` is the offset of its first day (0 = the
+ * project's first working day); `finish` is the elapsed days at its end — the unit of the
+ * project's own percentiles, so durationToFinishDateISO turns either into a date.
+ */
+export interface ActivityDateResult {
+  start: Record<number, number>;
+  finish: Record<number, number>;
+}
+
+/** One activity's sample-based sensitivity, measured inside a run. */
+export interface ActivitySensitivity {
+  /** Spearman correlation of its sampled duration with the project duration, −1…1. */
+  rankCorrelation: number;
+  /** Schedule Sensitivity Index: criticality × σ_activity / σ_project. */
+  ssi: number;
+}
+
+/** One risk event as a run measured it. */
+export interface RiskResult {
+  /** Share of trials, 0–1, the risk fired in. */
+  occurrence: number;
+  /** Mean delay, in working days, the risk added to each affected activity when it fired. */
+  meanImpact: number;
+  /** Project P80 / P95 less the same percentile of the trials in which the risk did not fire. */
+  p80Contribution: number;
+  p95Contribution: number;
+}
+
+/** One merge point's start as a run measured it, in working days from project start (0 = day 1). */
+export interface MergePointResult {
+  meanStart: number;
+  p50Start: number;
+  p80Start: number;
+  /** Share of trials, 0–1, in which each incoming link set the start, keyed by predecessor id. */
+  drivers: Record<string, number>;
+}
+
+/** Upper bound on the exclusive branches one scenario may define. */
+export const BRANCHES_MAX = 20;
+
+/** Upper bound on the paths of one exclusive branch. */
+export const BRANCH_PATHS_MAX = 6;
+
+/**
+ * Which conditional work the deterministic schedule plans for:
+ *   - "all":      every conditional activity and every branch path — budget for all of it
+ *   - "expected": only conditional activities at 50% or more, and each branch's likeliest path
+ * The Monte Carlo is unaffected: it decides what runs trial by trial.
+ */
+export const BRANCH_SCHEDULE_POLICIES = ["all", "expected"] as const;
+export type BranchSchedulePolicy = (typeof BRANCH_SCHEDULE_POLICIES)[number];
+
+/** One way an exclusive branch can go. */
+export interface BranchPath {
+  id: string;
+  name: string; // e.g., "Audit passes" — max 200 chars
+  probability: number; // relative weight, > 0; the paths' weights need not sum to 1
+  activityIds: string[];
+}
+
+/**
+ * Alternative paths of which exactly one runs in each trial — "audit passes" or "audit
+ * fails and rework follows". The activities on the paths not taken are skipped. An
+ * activity sits on at most one path of one branch. Once work on a path has started the
+ * branch is decided and that path always runs.
+ */
+export interface ExclusiveBranch {
+  id: string;
+  name: string; // e.g., "Security audit outcome" — max 200 chars
+  paths: BranchPath[]; // 2 – BRANCH_PATHS_MAX
 }
 
 export interface Scenario {
@@ -243,6 +673,16 @@ export interface Scenario {
   locked?: boolean; // default false - prevents modifications when true
   notes?: string; // free-text scenario notes, max 2000 chars
   bands?: ActivityBand[]; // absence treated as [] throughout the app
+  summaries?: WbsSummary[]; // WBS tree; absence treated as [] (flat list)
+  statusDate?: string; // "YYYY-MM-DD" progress is reported through; absent = no data date
+  baselines?: ScenarioBaseline[]; // oldest first; absence treated as []
+  activeBaselineId?: string; // the baseline variance is reported against; absent = none
+  correlationGroups?: CorrelationGroup[]; // absence treated as [] (independent durations)
+  risks?: RiskEvent[]; // the risk register; absence treated as []
+  branches?: ExclusiveBranch[]; // absence treated as [] (no alternative paths)
+  forecastHistory?: ForecastHistoryEntry[]; // oldest first; absence treated as []
+  criticalChainPlan?: CriticalChainPlan; // set in Critical Chain mode; absent = none
+  appliedCalibration?: AppliedCalibration; // absent = no multiplier applied
 }
 
 // -- Gantt Appearance Settings ------------------------------------------------
@@ -299,6 +739,10 @@ export interface Project {
   archived?: boolean; // default false
   /** Optional muted accent color for the project tile (hex #RRGGBB). Undefined = none. */
   tileColor?: string;
+  /** Resource pool shared by every scenario; activities reference it by id. Absent = none. */
+  resources?: Resource[];
+  /** Named calendars activities may run on; shared by every scenario. Absent = none. */
+  calendars?: NamedCalendar[];
 }
 
 /** Preset muted tile colors for grouping projects (e.g., by program). */
@@ -328,6 +772,7 @@ export interface ScheduledActivity {
   lateFinishNet?: string; // network-driven late finish (for SNLT/FNLT eval)
   totalFloat?: number; // lateStartNet − ES_net (network-driven CPM float)
   freeFloat?: number;  // min gap to successors' early start (working days)
+  levelingDelay?: number; // working days resource leveling pushed the start back (absent = not delayed)
 }
 
 export interface ConstraintConflict {
@@ -351,10 +796,20 @@ export interface DependencyConflict {
   toActivityName: string;
   dependencyType: DependencyType;
   lagDays: number;
+  lagUnit?: LagUnit;
   severity: "warning";
   message: string;
 }
 
+/** A WBS summary's dates, rolled up from the scheduled activities beneath it. */
+export interface ScheduledSummary {
+  summaryId: string;
+  name: string;
+  startDate: string; // earliest start beneath it, "YYYY-MM-DD"
+  endDate: string; // latest finish beneath it, "YYYY-MM-DD"
+  duration: number; // working days, start and finish inclusive
+}
+
 export interface DeterministicSchedule {
   activities: ScheduledActivity[];
   totalDurationDays: number;
@@ -369,6 +824,8 @@ export interface DeterministicSchedule {
   projectEndDate: string; // "YYYY-MM-DD"
   constraintConflicts?: ConstraintConflict[];
   dependencyConflicts?: DependencyConflict[];
+  /** Roll-ups for the WBS summaries that have scheduled activities; absent when none. */
+  summaries?: ScheduledSummary[];
 }
 
 export interface MilestoneBufferInfo {
@@ -457,6 +914,8 @@ export interface UserPreferences {
   targetFinishAmberPct?: number;
   /** When true, suppresses the local-storage caution banner on startup */
   suppressLocalStorageWarning?: boolean;
+  /** Show the activity grid's simulated start/finish percentile columns (default false) */
+  gridShowDatePercentiles?: boolean;
 }
 
 export const DEFAULT_USER_PREFERENCES: UserPreferences = {
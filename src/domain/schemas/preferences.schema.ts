@@ -41,4 +41,5 @@ export const UserPreferencesSchema = z.object({
   targetFinishGreenPct: z.number().int().min(5).max(99).optional(),
   targetFinishAmberPct: z.number().int().min(5).max(99).optional(),
   suppressLocalStorageWarning: z.boolean().optional(),
+  gridShowDatePercentiles: z.boolean().optional(),
 });
@@ -9,9 +9,25 @@ import {
   ProjectSchema,
   CalendarSchema,
   ActivityBandSchema,
+  ActivityDependencySchema,
   ScenarioSchema,
+  ResourceSchema,
+  NamedCalendarSchema,
+  WbsSummarySchema,
+  ScenarioBaselineSchema,
+  ForecastHistoryEntrySchema,
+  CriticalChainPlanSchema,
+  AppliedCalibrationSchema,
+  SimulationRunSchema,
+  CorrelationGroupSchema,
+  RiskEventSchema,
+  ExclusiveBranchSchema,
 } from "./project.schema";
-import { MAX_SCENARIOS_PER_PROJECT } from "@domain/models/types";
+import {
+  HISTORICAL_DURATIONS_MAX,
+  HISTORICAL_DURATIONS_MIN,
+  MAX_SCENARIOS_PER_PROJECT,
+} from "@domain/models/types";
 
 describe("ActivitySchema", () => {
   const validActivity = {
@@ -139,6 +155,21 @@ describe("ScenarioSettingsSchema", () => {
     expect(result.success).toBe(false);
   });
 
+  it("accepts a convergence tolerance and rejects a non-positive one", () => {
+    const parse = (convergenceToleranceDays: number) =>
+      ScenarioSettingsSchema.safeParse({ ...validSettings, convergenceToleranceDays }).success;
+    expect(parse(0.5)).toBe(true);
+    expect(parse(0)).toBe(false);
+  });
+
+  it("accepts the sampling methods and rejects any other", () => {
+    const parse = (samplingMethod: string) =>
+      ScenarioSettingsSchema.safeParse({ ...validSettings, samplingMethod }).success;
+    expect(parse("random")).toBe(true);
+    expect(parse("latinHypercube")).toBe(true);
+    expect(parse("sobol")).toBe(false);
+  });
+
   it("rejects probabilityTarget below 0.01", () => {
     const result = ScenarioSettingsSchema.safeParse({
       ...validSettings,
@@ -604,3 +635,409 @@ describe("ScenarioSchema with bands", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("ActivityDependencySchema lagUnit", () => {
+  const dep = { fromActivityId: "a1", toActivityId: "a2", type: "FS" as const, lagDays: 7 };
+
+  it("accepts a dependency without a lag unit", () => {
+    expect(ActivityDependencySchema.safeParse(dep).success).toBe(true);
+  });
+
+  it("accepts working and elapsed lag units", () => {
+    expect(ActivityDependencySchema.safeParse({ ...dep, lagUnit: "working" }).success).toBe(true);
+    expect(ActivityDependencySchema.safeParse({ ...dep, lagUnit: "elapsed" }).success).toBe(true);
+  });
+
+  it("rejects an unknown lag unit", () => {
+    expect(ActivityDependencySchema.safeParse({ ...dep, lagUnit: "hours" }).success).toBe(false);
+  });
+});
+
+describe("ActivityDependencySchema lagPercent", () => {
+  const dep = { fromActivityId: "a1", toActivityId: "a2", type: "SS" as const, lagDays: 0 };
+
+  it("accepts percentages from -100 to 100, fractional included", () => {
+    for (const lagPercent of [-100, -12.5, 0, 60, 100]) {
+      expect(ActivityDependencySchema.safeParse({ ...dep, lagPercent }).success).toBe(true);
+    }
+  });
+
+  it("rejects percentages outside -100..100", () => {
+    expect(ActivityDependencySchema.safeParse({ ...dep, lagPercent: 101 }).success).toBe(false);
+    expect(ActivityDependencySchema.safeParse({ ...dep, lagPercent: -101 }).success).toBe(false);
+  });
+});
+
+describe("ResourceSchema", () => {
+  it("accepts fractional capacities up to the maximum", () => {
+    for (const capacity of [0.5, 1, 100]) {
+      expect(ResourceSchema.safeParse({ id: "r1", name: "Dev", capacity }).success).toBe(true);
+    }
+  });
+
+  it("rejects zero, negative and excessive capacities", () => {
+    for (const capacity of [0, -1, 101]) {
+      expect(ResourceSchema.safeParse({ id: "r1", name: "Dev", capacity }).success).toBe(false);
+    }
+  });
+});
+
+describe("ActivitySchema resourceAssignments", () => {
+  const activity = {
+    id: "a1",
+    name: "Design",
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence" as const,
+    distributionType: "normal" as const,
+    status: "planned" as const,
+  };
+
+  it("accepts positive units", () => {
+    const result = ActivitySchema.safeParse({
+      ...activity,
+      resourceAssignments: [{ resourceId: "r1", units: 0.5 }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects zero units", () => {
+    const result = ActivitySchema.safeParse({
+      ...activity,
+      resourceAssignments: [{ resourceId: "r1", units: 0 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("NamedCalendarSchema", () => {
+  const calendar = { id: "c1", name: "Vendor", workDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] };
+
+  it("accepts a seven-day calendar with its own holidays", () => {
+    const result = NamedCalendarSchema.safeParse({
+      ...calendar,
+      holidays: [{ id: "h1", name: "Shutdown", startDate: "2025-12-24", endDate: "2025-12-26" }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects day indices outside 0..6", () => {
+    expect(NamedCalendarSchema.safeParse({ ...calendar, workDays: [7] }).success).toBe(false);
+    expect(NamedCalendarSchema.safeParse({ ...calendar, workDays: [-1] }).success).toBe(false);
+  });
+
+  it("rejects an empty name", () => {
+    expect(NamedCalendarSchema.safeParse({ ...calendar, name: "" }).success).toBe(false);
+  });
+});
+
+describe("WbsSummarySchema", () => {
+  it("accepts a nested, collapsed summary with an empty name", () => {
+    const result = WbsSummarySchema.safeParse({ id: "w2", name: "", parentId: "w1", collapsed: true });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an empty parentId", () => {
+    expect(WbsSummarySchema.safeParse({ id: "w1", name: "Design", parentId: "" }).success).toBe(false);
+  });
+});
+
+describe("progress fields", () => {
+  const activity = {
+    id: "a1",
+    name: "Build",
+    min: 3,
+    mostLikely: 5,
+    max: 10,
+    confidenceLevel: "mediumConfidence" as const,
+    distributionType: "normal" as const,
+    status: "inProgress" as const,
+  };
+
+  it("accepts actual dates and a remaining estimate", () => {
+    const result = ActivitySchema.safeParse({
+      ...activity,
+      actualStartDate: "2026-03-02",
+      remainingEstimate: { min: 0, mostLikely: 2, max: 4 },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an actual finish before the actual start", () => {
+    const result = ActivitySchema.safeParse({
+      ...activity,
+      status: "complete",
+      actualStartDate: "2026-03-02",
+      actualFinishDate: "2026-03-01",
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects an unordered or all-zero remaining estimate", () => {
+    const parse = (remainingEstimate: object) =>
+      ActivitySchema.safeParse({ ...activity, remainingEstimate }).success;
+    expect(parse({ min: 3, mostLikely: 2, max: 4 })).toBe(false);
+    expect(parse({ min: 0, mostLikely: 0, max: 0 })).toBe(false);
+  });
+});
+
+describe("ScenarioBaselineSchema", () => {
+  const baseline = {
+    id: "b1",
+    name: "Approved",
+    capturedAt: "2026-03-01T09:00:00.000Z",
+    projectEndDate: "2026-04-20",
+    spanDays: 26,
+    activities: [{ activityId: "a1", startDate: "2026-03-16", endDate: "2026-03-30", duration: 11 }],
+    milestones: [{ milestoneId: "m1", finishDate: "2026-03-30" }],
+    percentiles: { 50: 24, 95: 31 },
+    bufferDays: 5,
+  };
+
+  it("accepts a captured baseline, with or without simulation fields", () => {
+    expect(ScenarioBaselineSchema.safeParse(baseline).success).toBe(true);
+    const bare = { ...baseline, percentiles: undefined, bufferDays: undefined };
+    expect(ScenarioBaselineSchema.safeParse(bare).success).toBe(true);
+  });
+
+  it("rejects an empty name or an invalid date", () => {
+    expect(ScenarioBaselineSchema.safeParse({ ...baseline, name: "" }).success).toBe(false);
+    expect(ScenarioBaselineSchema.safeParse({ ...baseline, projectEndDate: "2026-02-30" }).success).toBe(false);
+  });
+});
+
+describe("ForecastHistoryEntrySchema", () => {
+  const entry = {
+    timestamp: "2026-03-02T09:00:00.000Z",
+    fingerprint: "1a2b3c4d",
+    finishDates: { 50: "2026-04-20", 80: "2026-04-28", 95: "2026-05-06" },
+    bufferDays: 4,
+  };
+
+  it("accepts a single run and a summarized one", () => {
+    expect(ForecastHistoryEntrySchema.safeParse(entry).success).toBe(true);
+    expect(ForecastHistoryEntrySchema.safeParse({ ...entry, runs: 3, bufferDays: undefined }).success).toBe(true);
+  });
+
+  it("rejects an invalid finish date or a summary of fewer than two runs", () => {
+    const badDate = { ...entry, finishDates: { 80: "2026-02-30" } };
+    expect(ForecastHistoryEntrySchema.safeParse(badDate).success).toBe(false);
+    expect(ForecastHistoryEntrySchema.safeParse({ ...entry, runs: 1 }).success).toBe(false);
+  });
+});
+
+describe("CriticalChainPlanSchema", () => {
+  const plan = {
+    capturedAt: "2026-03-02T09:00:00.000Z",
+    chain: [{ activityId: "a1", days: 10 }, { activityId: "a2", days: 6 }],
+    chainDays: 16,
+    projectBufferDays: 5,
+    feedingBuffers: [{ fromActivityId: "a3", toActivityId: "a2", bufferDays: 2 }],
+    fever: [{ statusDate: "2026-03-09", chainCompleted: 0.25, bufferConsumed: -0.2 }],
+  };
+
+  it("accepts a plan, a fever point ahead of plan included", () => {
+    expect(CriticalChainPlanSchema.safeParse(plan).success).toBe(true);
+  });
+
+  it("rejects an empty project buffer or a completion over 100%", () => {
+    expect(CriticalChainPlanSchema.safeParse({ ...plan, projectBufferDays: 0 }).success).toBe(false);
+    const done = { ...plan, fever: [{ statusDate: "2026-03-09", chainCompleted: 1.2, bufferConsumed: 0 }] };
+    expect(CriticalChainPlanSchema.safeParse(done).success).toBe(false);
+  });
+});
+
+describe("AppliedCalibrationSchema", () => {
+  it("accepts a multiplier and its actual count", () => {
+    expect(AppliedCalibrationSchema.safeParse({ multiplier: 1.26, actualCount: 3 }).success).toBe(true);
+  });
+
+  it("rejects a non-positive multiplier or a fractional count", () => {
+    expect(AppliedCalibrationSchema.safeParse({ multiplier: 0, actualCount: 3 }).success).toBe(false);
+    expect(AppliedCalibrationSchema.safeParse({ multiplier: 1.26, actualCount: 2.5 }).success).toBe(false);
+  });
+});
+
+describe("CorrelationGroupSchema", () => {
+  const group = { id: "g1", name: "Vendor", activityIds: ["a1", "a2"], coefficient: 0.6 };
+
+  it("accepts a group, including one with no members yet", () => {
+    expect(CorrelationGroupSchema.safeParse(group).success).toBe(true);
+    expect(CorrelationGroupSchema.safeParse({ ...group, activityIds: [] }).success).toBe(true);
+  });
+
+  it("rejects a coefficient outside 0 – 0.95", () => {
+    expect(CorrelationGroupSchema.safeParse({ ...group, coefficient: -0.1 }).success).toBe(false);
+    expect(CorrelationGroupSchema.safeParse({ ...group, coefficient: 1 }).success).toBe(false);
+  });
+});
+
+describe("RiskEventSchema", () => {
+  const risk = {
+    id: "r1",
+    name: "Vendor API not ready",
+    probability: 0.3,
+    impactMin: 10,
+    impactMostLikely: 12,
+    impactMax: 20,
+    activityIds: ["a1"],
+  };
+
+  it("accepts a risk", () => {
+    expect(RiskEventSchema.safeParse(risk).success).toBe(true);
+  });
+
+  it("rejects a certain risk, a negative impact or an unordered impact", () => {
+    expect(RiskEventSchema.safeParse({ ...risk, probability: 1 }).success).toBe(false);
+    expect(RiskEventSchema.safeParse({ ...risk, impactMin: -1 }).success).toBe(false);
+    expect(RiskEventSchema.safeParse({ ...risk, impactMostLikely: 25 }).success).toBe(false);
+  });
+});
+
+describe("ExclusiveBranchSchema", () => {
+  const branch = {
+    id: "b1",
+    name: "Audit outcome",
+    paths: [
+      { id: "p1", name: "Passes", probability: 0.75, activityIds: [] },
+      { id: "p2", name: "Fails", probability: 0.25, activityIds: ["a1"] },
+    ],
+  };
+
+  it("accepts a branch", () => {
+    expect(ExclusiveBranchSchema.safeParse(branch).success).toBe(true);
+  });
+
+  it("rejects a single path or a path without weight", () => {
+    expect(ExclusiveBranchSchema.safeParse({ ...branch, paths: [branch.paths[0]] }).success).toBe(false);
+    const weightless = [branch.paths[0], { ...branch.paths[1], probability: 0 }];
+    expect(ExclusiveBranchSchema.safeParse({ ...branch, paths: weightless }).success).toBe(false);
+  });
+});
+
+describe("ActivitySchema occurrenceProbability", () => {
+  const activity = {
+    id: "a1", name: "Rework", min: 3, mostLikely: 5, max: 10,
+    confidenceLevel: "mediumConfidence" as const, distributionType: "normal" as const, status: "planned" as const,
+  };
+
+  it("accepts a probability strictly between 0 and 1", () => {
+    expect(ActivitySchema.safeParse({ ...activity, occurrenceProbability: 0.25 }).success).toBe(true);
+    expect(ActivitySchema.safeParse({ ...activity, occurrenceProbability: 0 }).success).toBe(false);
+    expect(ActivitySchema.safeParse({ ...activity, occurrenceProbability: 1 }).success).toBe(false);
+  });
+});
+
+describe("ActivitySchema historicalDurations", () => {
+  const activity = {
+    id: "a1", name: "Deploy", min: 3, mostLikely: 5, max: 10,
+    confidenceLevel: "mediumConfidence" as const, distributionType: "empirical" as const, status: "planned" as const,
+  };
+
+  it("accepts non-negative durations up to HISTORICAL_DURATIONS_MAX", () => {
+    expect(ActivitySchema.safeParse({ ...activity, historicalDurations: [0, 4.5, 6, 7, 9] }).success).toBe(true);
+    expect(ActivitySchema.safeParse({ ...activity, historicalDurations: [4, -1, 5, 6, 7] }).success).toBe(false);
+    const tooMany = Array.from({ length: HISTORICAL_DURATIONS_MAX + 1 }, () => 5);
+    expect(ActivitySchema.safeParse({ ...activity, historicalDurations: tooMany }).success).toBe(false);
+  });
+
+  it("requires HISTORICAL_DURATIONS_MIN durations for an empirical activity only", () => {
+    const tooFew = Array.from({ length: HISTORICAL_DURATIONS_MIN - 1 }, () => 5);
+    expect(ActivitySchema.safeParse({ ...activity, historicalDurations: tooFew }).success).toBe(false);
+    expect(ActivitySchema.safeParse(activity).success).toBe(false);
+    expect(
+      ActivitySchema.safeParse({ ...activity, distributionType: "pertBeta", historicalDurations: tooFew }).success,
+    ).toBe(true);
+  });
+});
+
+describe("ActivitySchema cost", () => {
+  const activity = {
+    id: "a1", name: "Build", min: 3, mostLikely: 5, max: 10,
+    confidenceLevel: "mediumConfidence" as const, distributionType: "normal" as const, status: "planned" as const,
+  };
+  const parse = (cost: Record<string, number>) => ActivitySchema.safeParse({ ...activity, cost }).success;
+
+  it("accepts a fixed cost and daily rate, with or without a three-point fixed cost", () => {
+    expect(parse({ fixed: 5000, dailyRate: 800 })).toBe(true);
+    expect(parse({ fixed: 5000, dailyRate: 800, fixedMin: 4000, fixedMax: 9000 })).toBe(true);
+    expect(parse({ fixed: -1, dailyRate: 800 })).toBe(false);
+  });
+
+  it("needs both ends of the fixed-cost range, around the most likely", () => {
+    expect(parse({ fixed: 5000, dailyRate: 0, fixedMin: 4000 })).toBe(false);
+    expect(parse({ fixed: 5000, dailyRate: 0, fixedMin: 6000, fixedMax: 9000 })).toBe(false);
+  });
+});
+
+describe("SimulationRunSchema criticalityIndex", () => {
+  const run = {
+    id: "r1",
+    timestamp: "2026-03-01T09:00:00.000Z",
+    trialCount: 100,
+    seed: "seed",
+    engineVersion: "1.1.1",
+    percentiles: { 50: 20 },
+    histogramBins: [],
+    mean: 20,
+    standardDeviation: 2,
+    minSample: 15,
+    maxSample: 26,
+    samples: [],
+  };
+
+  it("accepts a run with or without an index", () => {
+    expect(SimulationRunSchema.safeParse(run).success).toBe(true);
+    expect(SimulationRunSchema.safeParse({ ...run, criticalityIndex: { a1: 1, a2: 0.37 } }).success).toBe(true);
+  });
+
+  it("rejects a share outside 0–1", () => {
+    expect(SimulationRunSchema.safeParse({ ...run, criticalityIndex: { a1: 1.2 } }).success).toBe(false);
+    expect(SimulationRunSchema.safeParse({ ...run, criticalityIndex: { a1: -0.1 } }).success).toBe(false);
+  });
+
+  it("accepts merge-point starts and rejects a driver share outside 0–1", () => {
+    const point = { meanStart: 11.2, p50Start: 11, p80Start: 12.4, drivers: { a1: 0.6, a2: 0.4 } };
+    expect(SimulationRunSchema.safeParse({ ...run, mergePoints: { m1: point } }).success).toBe(true);
+    const bad = { ...point, drivers: { a1: 1.5 } };
+    expect(SimulationRunSchema.safeParse({ ...run, mergePoints: { m1: bad } }).success).toBe(false);
+  });
+
+  it("accepts activity date percentiles and rejects a negative offset", () => {
+    const dates = { start: { 50: 4, 80: 5.5, 95: 7 }, finish: { 50: 9, 80: 11.2, 95: 13 } };
+    expect(SimulationRunSchema.safeParse({ ...run, activityDates: { a1: dates } }).success).toBe(true);
+    const bad = { ...dates, start: { 50: -1, 80: 0, 95: 0 } };
+    expect(SimulationRunSchema.safeParse({ ...run, activityDates: { a1: bad } }).success).toBe(false);
+  });
+
+  it("accepts the precision an until-converged run reached", () => {
+    const convergence = { percentile: 95, toleranceDays: 0.5, achievedHalfWidthDays: 0.47, converged: true };
+    expect(SimulationRunSchema.safeParse({ ...run, convergence }).success).toBe(true);
+    const bad = { ...convergence, achievedHalfWidthDays: -0.1 };
+    expect(SimulationRunSchema.safeParse({ ...run, convergence: bad }).success).toBe(false);
+  });
+
+  it("accepts a worker count of two or more", () => {
+    expect(SimulationRunSchema.safeParse({ ...run, workerCount: 4 }).success).toBe(true);
+    expect(SimulationRunSchema.safeParse({ ...run, workerCount: 1 }).success).toBe(false);
+  });
+
+  it("accepts the sampling method a run used", () => {
+    expect(SimulationRunSchema.safeParse({ ...run, samplingMethod: "latinHypercube" }).success).toBe(true);
+    expect(SimulationRunSchema.safeParse({ ...run, samplingMethod: "halton" }).success).toBe(false);
+  });
+
+  it("accepts cost results with a scatter and contours", () => {
+    const costResults = {
+      percentiles: { 50: 120000, 95: 150000 },
+      mean: 125000,
+      standardDeviation: 9000,
+      scatter: [{ duration: 40, cost: 118000 }],
+      contours: { 70: [{ duration: 42, cost: 140000 }, { duration: 50, cost: 131000 }] },
+    };
+    expect(SimulationRunSchema.safeParse({ ...run, costResults }).success).toBe(true);
+    expect(SimulationRunSchema.safeParse({ ...run, costResults: { ...costResults, standardDeviation: -1 } }).success)
+      .toBe(false);
+  });
+});
@@ -8,9 +8,29 @@ import {
   DISTRIBUTION_TYPES,
   ACTIVITY_STATUSES,
   DEPENDENCY_TYPES,
+  LAG_UNITS,
+  LAG_PERCENT_MIN,
+  LAG_PERCENT_MAX,
+  RESOURCE_UNITS_MAX,
+  NAMED_CALENDARS_MAX,
   CONSTRAINT_TYPES,
   CONSTRAINT_MODES,
   MAX_SCENARIOS_PER_PROJECT,
+  WBS_SUMMARIES_MAX,
+  BASELINES_MAX,
+  CORRELATION_GROUPS_MAX,
+  CORRELATION_COEFFICIENT_MAX,
+  RISKS_MAX,
+  RISK_PROBABILITY_MAX,
+  BRANCHES_MAX,
+  BRANCH_PATHS_MAX,
+  BRANCH_SCHEDULE_POLICIES,
+  SAMPLING_METHODS,
+  HISTORICAL_DURATIONS_MAX,
+  JCL_SCATTER_TRIALS,
+  HISTORICAL_DURATIONS_MIN,
+  FORECAST_HISTORY_MAX,
+  FEVER_POINTS_MAX,
 } from "../models/types";
 
 // -- Primitive Schemas -------------------------------------------------------
@@ -78,8 +98,57 @@ export const DeliverableItemSchema = z.object({
   completed: z.boolean(),
 });
 
+// -- Resources ---------------------------------------------------------------
+
+export const ResourceSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  capacity: z.number().positive().max(RESOURCE_UNITS_MAX),
+});
+
+export const ResourceAssignmentSchema = z.object({
+  resourceId: z.string().min(1).max(64),
+  units: z.number().positive().max(RESOURCE_UNITS_MAX),
+});
+
+// -- Named calendars ---------------------------------------------------------
+
+export const NamedCalendarSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  workDays: z.array(z.number().int().min(0).max(6)).max(7),
+  holidays: z.array(HolidaySchema).max(1000),
+});
+
 // -- Activity ----------------------------------------------------------------
 
+export const RemainingEstimateSchema = z
+  .object({
+    min: z.number().nonnegative(),
+    mostLikely: z.number().nonnegative(),
+    max: z.number().positive(),
+  })
+  .refine((r) => r.min <= r.mostLikely && r.mostLikely <= r.max, {
+    message: "Remaining estimate must satisfy min <= most likely <= max",
+    path: ["mostLikely"],
+  });
+
+export const ActivityCostSchema = z
+  .object({
+    fixed: z.number().nonnegative().finite(),
+    dailyRate: z.number().nonnegative().finite(),
+    fixedMin: z.number().nonnegative().finite().optional(),
+    fixedMax: z.number().nonnegative().finite().optional(),
+  })
+  .refine((c) => (c.fixedMin === undefined) === (c.fixedMax === undefined), {
+    message: "Fixed cost min and max must be set together",
+    path: ["fixedMin"],
+  })
+  .refine((c) => c.fixedMin === undefined || (c.fixedMin <= c.fixed && c.fixed <= c.fixedMax!), {
+    message: "Fixed cost must satisfy min <= most likely <= max",
+    path: ["fixed"],
+  });
+
 export const ActivitySchema = z
   .object({
     id: z.string().min(1).max(64),
@@ -102,6 +171,15 @@ export const ActivitySchema = z
     deliverables: z.array(DeliverableItemSchema).max(50).optional(),
     description: z.string().max(2000).optional(),
     notes: z.string().max(2000).optional(),
+    resourceAssignments: z.array(ResourceAssignmentSchema).max(20).optional(),
+    calendarId: z.string().min(1).max(64).optional(),
+    summaryId: z.string().min(1).max(64).optional(),
+    actualStartDate: ISODateString.optional(),
+    actualFinishDate: ISODateString.optional(),
+    remainingEstimate: RemainingEstimateSchema.optional(),
+    occurrenceProbability: z.number().gt(0).lt(1).optional(),
+    historicalDurations: z.array(z.number().nonnegative().finite()).max(HISTORICAL_DURATIONS_MAX).optional(),
+    cost: ActivityCostSchema.optional(),
   })
   .refine((a) => a.min <= a.mostLikely, {
     message: "Min must be <= Most Likely",
@@ -123,7 +201,20 @@ export const ActivitySchema = z
         path: ["constraintType"],
       });
     }
-  });
+  })
+  .refine(
+    (a) => !a.actualStartDate || !a.actualFinishDate || a.actualFinishDate >= a.actualStartDate,
+    { message: "Actual finish must be on or after actual start", path: ["actualFinishDate"] },
+  )
+  .refine(
+    (a) =>
+      a.distributionType !== "empirical" ||
+      (a.historicalDurations?.length ?? 0) >= HISTORICAL_DURATIONS_MIN,
+    {
+      message: `Empirical distribution needs at least ${HISTORICAL_DURATIONS_MIN} historical durations`,
+      path: ["historicalDurations"],
+    },
+  );
 
 // -- Activity Dependency -----------------------------------------------------
 
@@ -132,6 +223,8 @@ export const ActivityDependencySchema = z.object({
   toActivityId: z.string().min(1).max(64),
   type: z.enum(DEPENDENCY_TYPES),
   lagDays: z.number().int().min(-365).max(365),
+  lagUnit: z.enum(LAG_UNITS).optional(),
+  lagPercent: z.number().min(LAG_PERCENT_MIN).max(LAG_PERCENT_MAX).optional(),
 });
 
 // -- Milestone ---------------------------------------------------------------
@@ -151,6 +244,125 @@ export const ActivityBandSchema = z.object({
   color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
 });
 
+// -- WBS Summary -------------------------------------------------------------
+
+export const WbsSummarySchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().max(200), // empty string allowed
+  parentId: z.string().min(1).max(64).optional(),
+  collapsed: z.boolean().optional(),
+});
+
+// -- Baseline ----------------------------------------------------------------
+
+export const BaselineActivitySchema = z.object({
+  activityId: z.string().min(1).max(64),
+  startDate: ISODateString,
+  endDate: ISODateString,
+  duration: z.number().nonnegative(),
+});
+
+export const BaselineMilestoneSchema = z.object({
+  milestoneId: z.string().min(1).max(64),
+  finishDate: ISODateString,
+});
+
+export const ScenarioBaselineSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  capturedAt: z.string().max(64),
+  projectEndDate: ISODateString,
+  spanDays: z.number().int().nonnegative(),
+  activities: z.array(BaselineActivitySchema).max(500),
+  milestones: z.array(BaselineMilestoneSchema).max(100),
+  percentiles: z.record(z.coerce.number(), z.number()).optional(),
+  bufferDays: z.number().optional(),
+});
+
+// -- Forecast History --------------------------------------------------------
+
+export const ForecastHistoryEntrySchema = z.object({
+  timestamp: z.string().max(64),
+  fingerprint: z.string().min(1).max(64),
+  finishDates: z.record(z.coerce.number(), ISODateString),
+  bufferDays: z.number().optional(),
+  runs: z.number().int().min(2).optional(),
+});
+
+// -- Critical Chain ----------------------------------------------------------
+
+export const CriticalChainPlanSchema = z.object({
+  capturedAt: z.string().max(64),
+  chain: z
+    .array(z.object({ activityId: z.string().min(1).max(64), days: z.number().nonnegative() }))
+    .max(500),
+  chainDays: z.number().int().nonnegative(),
+  projectBufferDays: z.number().int().positive(),
+  feedingBuffers: z
+    .array(
+      z.object({
+        fromActivityId: z.string().min(1).max(64),
+        toActivityId: z.string().min(1).max(64),
+        bufferDays: z.number().int().nonnegative(),
+      })
+    )
+    .max(500),
+  fever: z
+    .array(
+      z.object({
+        statusDate: ISODateString,
+        chainCompleted: z.number().min(0).max(1),
+        bufferConsumed: z.number(),
+      })
+    )
+    .max(FEVER_POINTS_MAX),
+});
+
+export const AppliedCalibrationSchema = z.object({
+  multiplier: z.number().positive(),
+  actualCount: z.number().int().nonnegative(),
+});
+
+// -- Correlation Group -------------------------------------------------------
+
+export const CorrelationGroupSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  activityIds: z.array(z.string().min(1).max(64)).max(500),
+  coefficient: z.number().min(0).max(CORRELATION_COEFFICIENT_MAX),
+});
+
+// -- Risk Event --------------------------------------------------------------
+
+export const RiskEventSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    name: z.string().min(1).max(200),
+    probability: z.number().min(0).max(RISK_PROBABILITY_MAX),
+    impactMin: z.number().nonnegative(),
+    impactMostLikely: z.number().nonnegative(),
+    impactMax: z.number().nonnegative(),
+    activityIds: z.array(z.string().min(1).max(64)).max(500),
+  })
+  .refine((r) => r.impactMin <= r.impactMostLikely && r.impactMostLikely <= r.impactMax, {
+    message: "Impact must satisfy min <= most likely <= max",
+  });
+
+// -- Exclusive Branch --------------------------------------------------------
+
+export const BranchPathSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  probability: z.number().positive(),
+  activityIds: z.array(z.string().min(1).max(64)).max(500),
+});
+
+export const ExclusiveBranchSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(200),
+  paths: z.array(BranchPathSchema).min(2).max(BRANCH_PATHS_MAX),
+});
+
 // -- Scenario Settings -------------------------------------------------------
 
 export const ScenarioSettingsSchema = z.object({
@@ -165,6 +377,10 @@ export const ScenarioSettingsSchema = z.object({
   heuristicMaxPercent: z.number().int().min(101).max(1000).optional(),
   dependencyMode: z.boolean().optional(),
   parkinsonsLawEnabled: z.boolean().optional(),
+  branchSchedulePolicy: z.enum(BRANCH_SCHEDULE_POLICIES).optional(),
+  convergenceToleranceDays: z.number().positive().max(30).optional(),
+  samplingMethod: z.enum(SAMPLING_METHODS).optional(),
+  criticalChain: z.boolean().optional(),
 });
 
 // -- Histogram / CDF ---------------------------------------------------------
@@ -182,6 +398,11 @@ export const CDFPointSchema = z.object({
 
 // -- Simulation Run ----------------------------------------------------------
 
+const CostPointSchema = z.object({
+  duration: z.number(),
+  cost: z.number(),
+});
+
 export const SimulationRunSchema = z.object({
   id: z.string().min(1).max(64),
   timestamp: z.string().max(64),
@@ -199,8 +420,51 @@ export const SimulationRunSchema = z.object({
     percentiles: z.record(z.coerce.number(), z.number()),
     mean: z.number(),
     standardDeviation: z.number().nonnegative(),
+    occurrence: z.number().min(0).max(1).optional(),
+  })).optional(),
+  summaryResults: z.record(z.string(), z.object({
+    percentiles: z.record(z.coerce.number(), z.number()),
+    mean: z.number(),
+    standardDeviation: z.number().nonnegative(),
+    occurrence: z.number().min(0).max(1).optional(),
   })).optional(),
   modelExhaustedActivityIds: z.array(z.string().max(64)).max(500).optional(),
+  criticalityIndex: z.record(z.string().max(64), z.number().min(0).max(1)).optional(),
+  activitySensitivity: z.record(z.string().max(64), z.object({
+    rankCorrelation: z.number().min(-1).max(1),
+    ssi: z.number().nonnegative(),
+  })).optional(),
+  riskResults: z.record(z.string().max(64), z.object({
+    occurrence: z.number().min(0).max(1),
+    meanImpact: z.number().nonnegative(),
+    p80Contribution: z.number(),
+    p95Contribution: z.number(),
+  })).optional(),
+  mergePoints: z.record(z.string().max(64), z.object({
+    meanStart: z.number().nonnegative(),
+    p50Start: z.number().nonnegative(),
+    p80Start: z.number().nonnegative(),
+    drivers: z.record(z.string().max(64), z.number().min(0).max(1)),
+  })).optional(),
+  activityDates: z.record(z.string().max(64), z.object({
+    start: z.record(z.coerce.number(), z.number().nonnegative()),
+    finish: z.record(z.coerce.number(), z.number().nonnegative()),
+  })).optional(),
+  convergence: z.object({
+    percentile: z.number().min(1).max(99),
+    toleranceDays: z.number().positive(),
+    achievedHalfWidthDays: z.number().nonnegative(),
+    converged: z.boolean(),
+  }).optional(),
+  workerCount: z.number().int().min(2).max(64).optional(),
+  samplingMethod: z.enum(SAMPLING_METHODS).optional(),
+  costResults: z.object({
+    percentiles: z.record(z.coerce.number(), z.number()),
+    mean: z.number(),
+    standardDeviation: z.number().nonnegative(),
+    scatter: z.array(CostPointSchema).max(JCL_SCATTER_TRIALS),
+    contours: z.record(z.coerce.number(), z.array(CostPointSchema).max(100)),
+  }).optional(),
 });
 
 // -- Scenario ----------------------------------------------------------------
@@ -217,6 +481,16 @@ export const ScenarioSchema = z.object({
   locked: z.boolean().optional(), // default false
   notes: z.string().max(2000).optional(),
   bands: z.array(ActivityBandSchema).max(50).optional(),
+  summaries: z.array(WbsSummarySchema).max(WBS_SUMMARIES_MAX).optional(),
+  statusDate: ISODateString.optional(),
+  baselines: z.array(ScenarioBaselineSchema).max(BASELINES_MAX).optional(),
+  activeBaselineId: z.string().min(1).max(64).optional(),
+  correlationGroups: z.array(CorrelationGroupSchema).max(CORRELATION_GROUPS_MAX).optional(),
+  risks: z.array(RiskEventSchema).max(RISKS_MAX).optional(),
+  branches: z.array(ExclusiveBranchSchema).max(BRANCHES_MAX).optional(),
+  forecastHistory: z.array(ForecastHistoryEntrySchema).max(FORECAST_HISTORY_MAX).optional(),
+  criticalChainPlan: CriticalChainPlanSchema.optional(),
+  appliedCalibration: AppliedCalibrationSchema.optional(),
 });
 
 // -- Gantt Appearance Settings ------------------------------------------------
@@ -272,4 +546,6 @@ export const ProjectSchema = z.object({
     .string()
     .regex(/^#[0-9a-fA-F]{6}$/, "Must be a hex color like #94a3b8")
     .optional(),
+  resources: z.array(ResourceSchema).max(200).optional(),
+  calendars: z.array(NamedCalendarSchema).max(NAMED_CALENDARS_MAX).optional(),
 });
@@ -1369,4 +1369,321 @@ describe("applyMigrations", () => {
     expect(result.schemaVersion).toBe(22);
     expect(result.forcedWorkDays).toEqual(["2025-01-01"]);
   });
+
+  // -- v23 → v24 --------------------------------------------------------------
+
+  it("v23→v24: relabels schemaVersion and leaves dependencies untouched", () => {
+    const dependencies = [
+      { fromActivityId: "a1", toActivityId: "a2", type: "FF", lagDays: 2 },
+    ];
+    const v23Data = {
+      schemaVersion: 23,
+      scenarios: [{ id: "s1", activities: [], dependencies, milestones: [] }],
+    };
+    const result = applyMigrations(v23Data, 23, 24) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(24);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.dependencies).toEqual(dependencies);
+  });
+
+  // -- v24 → v25 --------------------------------------------------------------
+
+  it("v24→v25: relabels schemaVersion and does not add a lag unit to existing dependencies", () => {
+    const dependencies = [
+      { fromActivityId: "a1", toActivityId: "a2", type: "FS", lagDays: 3 },
+    ];
+    const v24Data = {
+      schemaVersion: 24,
+      scenarios: [{ id: "s1", activities: [], dependencies, milestones: [] }],
+    };
+    const result = applyMigrations(v24Data, 24, 25) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(25);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.dependencies).toEqual(dependencies);
+  });
+
+  // -- v25 → v26 --------------------------------------------------------------
+
+  it("v25→v26: relabels schemaVersion and keeps day lags as they were", () => {
+    const dependencies = [
+      { fromActivityId: "a1", toActivityId: "a2", type: "SS", lagDays: 2, lagUnit: "elapsed" },
+    ];
+    const v25Data = {
+      schemaVersion: 25,
+      scenarios: [{ id: "s1", activities: [], dependencies, milestones: [] }],
+    };
+    const result = applyMigrations(v25Data, 25, 26) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(26);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.dependencies).toEqual(dependencies);
+  });
+
+  // -- v26 → v27 --------------------------------------------------------------
+
+  it("v26→v27: relabels schemaVersion and adds no resource pool", () => {
+    const v26Data = {
+      schemaVersion: 26,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], dependencies: [], milestones: [] }],
+    };
+    const result = applyMigrations(v26Data, 26, 27) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(27);
+    expect("resources" in result).toBe(false);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.activities).toEqual([{ id: "a1" }]);
+  });
+
+  // -- v27 → v28 --------------------------------------------------------------
+
+  it("v27→v28: relabels schemaVersion and adds no named calendars", () => {
+    const v27Data = {
+      schemaVersion: 27,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], dependencies: [], milestones: [] }],
+    };
+    const result = applyMigrations(v27Data, 27, 28) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(28);
+    expect("calendars" in result).toBe(false);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.activities).toEqual([{ id: "a1" }]);
+  });
+
+  // -- v28 → v29 --------------------------------------------------------------
+
+  it("v28→v29: relabels schemaVersion and adds no WBS summaries", () => {
+    const v28Data = {
+      schemaVersion: 28,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], dependencies: [], milestones: [] }],
+    };
+    const result = applyMigrations(v28Data, 28, 29) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(29);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("summaries" in scenarios[0]!).toBe(false);
+    expect(scenarios[0]!.activities).toEqual([{ id: "a1" }]);
+  });
+
+  // -- v29 → v30 --------------------------------------------------------------
+
+  it("v29→v30: relabels schemaVersion and adds no status date or actuals", () => {
+    const v29Data = {
+      schemaVersion: 29,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], dependencies: [], milestones: [] }],
+    };
+    const result = applyMigrations(v29Data, 29, 30) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(30);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("statusDate" in scenarios[0]!).toBe(false);
+    expect(scenarios[0]!.activities).toEqual([{ id: "a1" }]);
+  });
+
+  // -- v30 → v31 --------------------------------------------------------------
+
+  it("v30→v31: relabels schemaVersion and adds no baselines", () => {
+    const v30Data = {
+      schemaVersion: 30,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], dependencies: [], milestones: [] }],
+    };
+    const result = applyMigrations(v30Data, 30, 31) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(31);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("baselines" in scenarios[0]!).toBe(false);
+    expect("activeBaselineId" in scenarios[0]!).toBe(false);
+  });
+
+  // -- v31 → v32 --------------------------------------------------------------
+
+  it("v31→v32: relabels schemaVersion and leaves saved results without an index", () => {
+    const v31Data = {
+      schemaVersion: 31,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { id: "r1", samples: [] } }],
+    };
+    const result = applyMigrations(v31Data, 31, 32) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(32);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("criticalityIndex" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v32 → v33 --------------------------------------------------------------
+
+  it("v32→v33: relabels schemaVersion and leaves saved results without sensitivity", () => {
+    const v32Data = {
+      schemaVersion: 32,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { id: "r1", samples: [] } }],
+    };
+    const result = applyMigrations(v32Data, 32, 33) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(33);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("activitySensitivity" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v33 → v34 --------------------------------------------------------------
+
+  it("v33→v34: relabels schemaVersion and leaves scenarios without correlation groups", () => {
+    const v33Data = {
+      schemaVersion: 33,
+      scenarios: [{ id: "s1", activities: [] }],
+    };
+    const result = applyMigrations(v33Data, 33, 34) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(34);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("correlationGroups" in scenarios[0]!).toBe(false);
+  });
+
+  // -- v34 → v35 --------------------------------------------------------------
+
+  it("v34→v35: relabels schemaVersion and leaves scenarios without a risk register", () => {
+    const v34Data = {
+      schemaVersion: 34,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { id: "r1", samples: [] } }],
+    };
+    const result = applyMigrations(v34Data, 34, 35) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(35);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("risks" in scenarios[0]!).toBe(false);
+    expect("riskResults" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v35 → v36 --------------------------------------------------------------
+
+  it("v35→v36: relabels schemaVersion and leaves every activity unconditional", () => {
+    const v35Data = {
+      schemaVersion: 35,
+      scenarios: [{ id: "s1", activities: [{ id: "a1" }], settings: {} }],
+    };
+    const result = applyMigrations(v35Data, 35, 36) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(36);
+    const scenario = (result.scenarios as Array<Record<string, unknown>>)[0]!;
+    expect("branches" in scenario).toBe(false);
+    expect("branchSchedulePolicy" in (scenario.settings as object)).toBe(false);
+    expect("occurrenceProbability" in (scenario.activities as object[])[0]!).toBe(false);
+  });
+
+  // -- v36 → v37 --------------------------------------------------------------
+
+  it("v36→v37: relabels schemaVersion and keeps every activity's distribution", () => {
+    const v36Data = {
+      schemaVersion: 36,
+      scenarios: [{ id: "s1", activities: [{ id: "a1", distributionType: "triangular" }] }],
+    };
+    const result = applyMigrations(v36Data, 36, 37) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(37);
+    const activity = ((result.scenarios as Array<Record<string, unknown>>)[0]!.activities as object[])[0]!;
+    expect(activity).toEqual({ id: "a1", distributionType: "triangular" });
+  });
+
+  // -- v37 → v38 --------------------------------------------------------------
+
+  it("v37→v38: relabels schemaVersion and leaves saved results without merge points", () => {
+    const v37Data = {
+      schemaVersion: 37,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { id: "r1", samples: [] } }],
+    };
+    const result = applyMigrations(v37Data, 37, 38) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(38);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("mergePoints" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v38 → v39 --------------------------------------------------------------
+
+  it("v38→v39: relabels schemaVersion and leaves saved results without activity dates", () => {
+    const v38Data = {
+      schemaVersion: 38,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { id: "r1", samples: [] } }],
+    };
+    const result = applyMigrations(v38Data, 38, 39) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(39);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("activityDates" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v39 → v40 --------------------------------------------------------------
+
+  it("v39→v40: relabels schemaVersion and keeps the fixed trial count", () => {
+    const v39Data = {
+      schemaVersion: 39,
+      scenarios: [{ id: "s1", activities: [], settings: { trialCount: 50000 } }],
+    };
+    const result = applyMigrations(v39Data, 39, 40) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(40);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.settings).toEqual({ trialCount: 50000 });
+  });
+
+  // -- v40 → v41 --------------------------------------------------------------
+
+  it("v40→v41: relabels schemaVersion and leaves stored runs single-worker", () => {
+    const v40Data = {
+      schemaVersion: 40,
+      scenarios: [{ id: "s1", activities: [], simulationResults: { trialCount: 50000 } }],
+    };
+    const result = applyMigrations(v40Data, 40, 41) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(41);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("workerCount" in (scenarios[0]!.simulationResults as object)).toBe(false);
+  });
+
+  // -- v41 → v42 --------------------------------------------------------------
+
+  it("v41→v42: relabels schemaVersion and leaves settings on random sampling", () => {
+    const v41Data = {
+      schemaVersion: 41,
+      scenarios: [{ id: "s1", activities: [], settings: { trialCount: 50000 } }],
+    };
+    const result = applyMigrations(v41Data, 41, 42) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(42);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.settings).toEqual({ trialCount: 50000 });
+  });
+
+  // -- v42 → v43 --------------------------------------------------------------
+
+  it("v42→v43: relabels schemaVersion and leaves activities without a cost", () => {
+    const v42Data = {
+      schemaVersion: 42,
+      scenarios: [{ id: "s1", activities: [{ id: "a1", name: "A" }] }],
+    };
+    const result = applyMigrations(v42Data, 42, 43) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(43);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.activities).toEqual([{ id: "a1", name: "A" }]);
+  });
+
+  // -- v43 → v44 --------------------------------------------------------------
+
+  it("v43→v44: relabels schemaVersion and leaves scenarios without a forecast history", () => {
+    const v43Data = {
+      schemaVersion: 43,
+      scenarios: [{ id: "s1", activities: [] }],
+    };
+    const result = applyMigrations(v43Data, 43, 44) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(44);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("forecastHistory" in scenarios[0]!).toBe(false);
+  });
+
+  // -- v44 → v45 --------------------------------------------------------------
+
+  it("v44→v45: relabels schemaVersion and leaves scenarios out of Critical Chain mode", () => {
+    const v44Data = {
+      schemaVersion: 44,
+      scenarios: [{ id: "s1", activities: [], settings: { dependencyMode: true } }],
+    };
+    const result = applyMigrations(v44Data, 44, 45) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(45);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect(scenarios[0]!.settings).toEqual({ dependencyMode: true });
+    expect("criticalChainPlan" in scenarios[0]!).toBe(false);
+  });
+
+  // -- v45 → v46 --------------------------------------------------------------
+
+  it("v45→v46: relabels schemaVersion and leaves scenarios without an applied calibration", () => {
+    const v45Data = {
+      schemaVersion: 45,
+      scenarios: [{ id: "s1", activities: [{ id: "a1", status: "complete", actualDuration: 5 }] }],
+    };
+    const result = applyMigrations(v45Data, 45, 46) as Record<string, unknown>;
+    expect(result.schemaVersion).toBe(46);
+    const scenarios = result.scenarios as Array<Record<string, unknown>>;
+    expect("appliedCalibration" in scenarios[0]!).toBe(false);
+  });
 });
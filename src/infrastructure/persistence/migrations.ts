@@ -408,6 +408,255 @@ function migrateV22toV23(data: unknown): unknown {
   return project;
 }
 
+/**
+ * v23 → v24: Add the SF (Start-to-Finish) dependency relationship type.
+ * Pure schemaVersion relabel — existing dependencies keep their FS/SS/FF type.
+ * The bump is what matters: a pre-v24 client's future-version guard refuses a
+ * project carrying an SF link instead of failing its enum validation.
+ */
+function migrateV23toV24(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 24;
+  return project;
+}
+
+/**
+ * v24 → v25: Add optional per-dependency `lagUnit` ("working" | "elapsed").
+ * Pure schemaVersion relabel — absent means "working", which is how every
+ * existing lag has always been counted.
+ */
+function migrateV24toV25(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 25;
+  return project;
+}
+
+/**
+ * v25 → v26: Add optional per-dependency `lagPercent` (lag as a percentage of the
+ * predecessor's duration). Pure schemaVersion relabel — absent means the lag is
+ * `lagDays`, as it always has been.
+ */
+function migrateV25toV26(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 26;
+  return project;
+}
+
+/**
+ * v26 → v27: Add the optional project-level `resources` pool and per-activity
+ * `resourceAssignments`. Pure schemaVersion relabel — absent means no resources,
+ * so nothing is leveled and every schedule is unchanged.
+ */
+function migrateV26toV27(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 27;
+  return project;
+}
+
+/**
+ * v27 → v28: Add the optional project-level `calendars` and per-activity
+ * `calendarId`. Pure schemaVersion relabel — absent means every activity runs
+ * on the project calendar, exactly as before.
+ */
+function migrateV27toV28(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 28;
+  return project;
+}
+
+/**
+ * v28 → v29: Add the optional scenario-level `summaries` (WBS tree) and
+ * per-activity `summaryId`. Pure schemaVersion relabel — absent means a flat
+ * activity list, exactly as before.
+ */
+function migrateV28toV29(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 29;
+  return project;
+}
+
+/**
+ * v29 → v30: Add the optional scenario-level `statusDate` and per-activity
+ * `actualStartDate`, `actualFinishDate` and `remainingEstimate`. Pure
+ * schemaVersion relabel — absent means no data date and no actuals beyond
+ * `actualDuration`, exactly as before.
+ */
+function migrateV29toV30(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 30;
+  return project;
+}
+
+/**
+ * v30 → v31: Add the optional scenario-level `baselines` and
+ * `activeBaselineId`. Pure schemaVersion relabel — absent means no baselines
+ * and no variance reporting, exactly as before.
+ */
+function migrateV30toV31(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 31;
+  return project;
+}
+
+/**
+ * v31 → v32: Add the optional `criticalityIndex` to simulation results. Pure
+ * schemaVersion relabel — results saved before it simply carry no index until
+ * the next run.
+ */
+function migrateV31toV32(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 32;
+  return project;
+}
+
+/**
+ * v32 → v33: Add the optional `activitySensitivity` to simulation results.
+ * Pure schemaVersion relabel — older results show the analytic view until the
+ * next run.
+ */
+function migrateV32toV33(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 33;
+  return project;
+}
+
+/**
+ * v33 → v34: Add the optional `correlationGroups` to scenarios. Pure
+ * schemaVersion relabel — a scenario without groups samples independently,
+ * exactly as before.
+ */
+function migrateV33toV34(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 34;
+  return project;
+}
+
+/**
+ * v34 → v35: Add the optional risk register (`risks`) to scenarios and
+ * `riskResults` to simulation results. Pure schemaVersion relabel — a scenario
+ * without risks simulates exactly as before.
+ */
+function migrateV34toV35(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 35;
+  return project;
+}
+
+/**
+ * v35 → v36: Add conditional work — `occurrenceProbability` on activities, exclusive
+ * `branches` and `settings.branchSchedulePolicy` on scenarios, and `occurrence` on
+ * milestone and summary results. Pure schemaVersion relabel — every activity of an
+ * older project always runs, as before.
+ */
+function migrateV35toV36(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 36;
+  return project;
+}
+
+/**
+ * v36 → v37: Add the PERT-Beta, Weibull and empirical distribution types, and
+ * `historicalDurations` on activities for the empirical one. Pure schemaVersion relabel —
+ * every stored activity keeps its distribution.
+ */
+function migrateV36toV37(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 37;
+  return project;
+}
+
+/**
+ * v37 → v38: Add the optional `mergePoints` to simulation results. Pure schemaVersion
+ * relabel — results saved before it carry no merge-point starts until the next run.
+ */
+function migrateV37toV38(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 38;
+  return project;
+}
+
+/**
+ * v38 → v39: Add the optional `activityDates` to simulation results. Pure schemaVersion
+ * relabel — results saved before it carry no activity date percentiles until the next run.
+ */
+function migrateV38toV39(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 39;
+  return project;
+}
+
+/**
+ * v39 → v40: Add the optional `convergenceToleranceDays` to scenario settings and
+ * `convergence` to simulation results. Pure schemaVersion relabel — every stored scenario
+ * keeps its fixed trial count.
+ */
+function migrateV39toV40(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 40;
+  return project;
+}
+
+/**
+ * v40 → v41: Add the optional `workerCount` to simulation results — the worker pool a
+ * parallel run was split across. Pure schemaVersion relabel; stored runs ran on one.
+ */
+function migrateV40toV41(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 41;
+  return project;
+}
+
+/**
+ * v41 → v42: Add the optional `samplingMethod` to scenario settings and simulation
+ * results. Pure schemaVersion relabel; absent = plain random sampling, as before.
+ */
+function migrateV41toV42(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 42;
+  return project;
+}
+
+/**
+ * v42 → v43: Add the optional `cost` to activities and `costResults` to simulation
+ * results. Pure schemaVersion relabel; stored activities cost nothing.
+ */
+function migrateV42toV43(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 43;
+  return project;
+}
+
+/**
+ * v43 → v44: Add the optional `forecastHistory` to scenarios. Pure schemaVersion relabel;
+ * stored scenarios start their history with their next run.
+ */
+function migrateV43toV44(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 44;
+  return project;
+}
+
+/**
+ * v44 → v45: Add the optional `criticalChain` to scenario settings and
+ * `criticalChainPlan` to scenarios. Pure schemaVersion relabel; stored scenarios are not
+ * in Critical Chain mode.
+ */
+function migrateV44toV45(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 45;
+  return project;
+}
+
+/**
+ * v45 → v46: Add the optional `appliedCalibration` to scenarios. Pure schemaVersion
+ * relabel; no stored scenario has had a calibration multiplier recorded.
+ */
+function migrateV45toV46(data: unknown): unknown {
+  const project = data as Record<string, unknown>;
+  project.schemaVersion = 46;
+  return project;
+}
+
 export const MIGRATIONS: Record<number, Migration> = {
   1: migrateV1toV2,
   2: migrateV2toV3,
@@ -431,6 +680,29 @@ export const MIGRATIONS: Record<number, Migration> = {
   20: migrateV20toV21,
   21: migrateV21toV22,
   22: migrateV22toV23,
+  23: migrateV23toV24,
+  24: migrateV24toV25,
+  25: migrateV25toV26,
+  26: migrateV26toV27,
+  27: migrateV27toV28,
+  28: migrateV28toV29,
+  29: migrateV29toV30,
+  30: migrateV30toV31,
+  31: migrateV31toV32,
+  32: migrateV32toV33,
+  33: migrateV33toV34,
+  34: migrateV34toV35,
+  35: migrateV35toV36,
+  36: migrateV36toV37,
+  37: migrateV37toV38,
+  38: migrateV38toV39,
+  39: migrateV39toV40,
+  40: migrateV40toV41,
+  41: migrateV41toV42,
+  42: migrateV42toV43,
+  43: migrateV43toV44,
+  44: migrateV44toV45,
+  45: migrateV45toV46,
 };
 
 /**
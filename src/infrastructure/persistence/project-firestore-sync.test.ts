@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import { ProjectSchema } from "@domain/schemas/project.schema";
+
+/** Written by firestore-driver.ts, not part of ProjectSchema. */
+const DRIVER_ONLY_KEYS = ["members", "updatedAt"];
+
+/** The doc id — destructured out before every setDoc. */
+const OMITTED_SCHEMA_KEYS = ["id"];
+
+/**
+ * Extract the key list returned by spertSchedulerProjectFields() in
+ * firestore.rules — the create/update allowlist for spertscheduler_projects.
+ *
+ * If you change the format of firestore.rules in a way that breaks this regex,
+ * the test will fail with a descriptive message telling you to update the
+ * extraction logic.
+ */
+function extractProjectAllowlist(): string[] {
+  const rulesPath = path.resolve(process.cwd(), "firestore.rules");
+  const rulesContent = fs.readFileSync(rulesPath, "utf-8");
+
+  const fieldsMatch = rulesContent.match(
+    /function spertSchedulerProjectFields\(\)\s*\{\s*return \[([\s\S]*?)\];/
+  );
+  if (!fieldsMatch?.[1]) {
+    throw new Error(
+      "Could not extract spertSchedulerProjectFields() from firestore.rules. " +
+        "If the rules file format changed, update the regex in project-firestore-sync.test.ts."
+    );
+  }
+
+  const keys = [...fieldsMatch[1].matchAll(/'([^']+)'/g)].map((m) => m[1]!);
+  if (keys.length === 0) {
+    throw new Error(
+      "Extracted zero keys from spertSchedulerProjectFields(). " +
+        "Check that the rules file uses single-quoted key names."
+    );
+  }
+
+  return keys;
+}
+
+describe("project ↔ firestore.rules sync", () => {
+  const zodKeys = Object.keys(ProjectSchema.shape)
+    .filter((k) => !OMITTED_SCHEMA_KEYS.includes(k))
+    .sort();
+  const rulesKeys = extractProjectAllowlist().sort();
+
+  it("every saved ProjectSchema key appears in spertSchedulerProjectFields()", () => {
+    const missingFromRules = zodKeys.filter((k) => !rulesKeys.includes(k));
+    expect(missingFromRules).toEqual([]);
+  });
+
+  it("every allowlisted key is a ProjectSchema key or a driver-only field", () => {
+    const unknown = rulesKeys.filter(
+      (k) => !zodKeys.includes(k) && !DRIVER_ONLY_KEYS.includes(k)
+    );
+    expect(unknown).toEqual([]);
+  });
+});
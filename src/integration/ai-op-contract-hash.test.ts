@@ -38,7 +38,7 @@ import path from "node:path";
  * JSON, no insignificant whitespace, UTF-8.
  */
 const CANONICAL_CONTRACT_SHA256 =
-  "25dabe86334f7599f4bf7daef2fdae1c2e51e7d70a714851b9b50096cd7e33f1";
+  "30479dfe53d6e119b55ff07f20620fb0d164211062bc2c024ae2fd3f86739629";
 
 type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
 
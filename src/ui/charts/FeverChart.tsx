@@ -0,0 +1,95 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { RefObject } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import type { FeverPoint } from "@domain/models/types";
+import { FEVER_ZONE_LINES } from "@core/schedule/critical-chain";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+
+interface FeverChartProps {
+  /** The plan's points, oldest first. */
+  fever: FeverPoint[];
+  /** Attached to the capture div so the panel's copy-image button can target it. */
+  captureRef: RefObject<HTMLDivElement | null>;
+}
+
+const ZONE_COLORS = { amber: "#f59e0b", red: "#ef4444" } as const;
+
+/**
+ * The CCPM fever chart: chain completed along the x-axis, project buffer consumed up the
+ * y-axis, each status date a point. Above the amber line the buffer is being used faster
+ * than the chain is finishing; above the red, recovery needs action.
+ */
+export function FeverChart({ fever, captureRef }: FeverChartProps) {
+  const formatDate = useDateFormat();
+  const data = fever.map((p) => ({
+    statusDate: p.statusDate,
+    completed: Math.round(p.chainCompleted * 1000) / 10,
+    consumed: Math.round(p.bufferConsumed * 1000) / 10,
+  }));
+  const maxConsumed = Math.max(100, ...data.map((d) => d.consumed));
+  const minConsumed = Math.min(0, ...data.map((d) => d.consumed));
+
+  return (
+    <div ref={captureRef} className="bg-white dark:bg-gray-800">
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="completed"
+            type="number"
+            domain={[0, 100]}
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v) => `${v}%`}
+            label={{ value: "Chain completed", position: "insideBottom", offset: -5, fontSize: 12 }}
+          />
+          <YAxis
+            type="number"
+            domain={[Math.floor(minConsumed / 10) * 10, Math.ceil(maxConsumed / 10) * 10]}
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v) => `${v}%`}
+            label={{ value: "Buffer consumed", angle: -90, position: "insideLeft", fontSize: 12 }}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(_, payload) => {
+              const statusDate = payload?.[0]?.payload?.statusDate;
+              return statusDate ? `Status ${formatDate(String(statusDate))}` : "";
+            }}
+            formatter={(value) => [`${value}%`, "Buffer consumed"]}
+          />
+          {(["amber", "red"] as const).map((zone) => (
+            <ReferenceLine
+              key={zone}
+              segment={[
+                { x: 0, y: FEVER_ZONE_LINES[zone].start * 100 },
+                { x: 100, y: FEVER_ZONE_LINES[zone].end * 100 },
+              ]}
+              stroke={ZONE_COLORS[zone]}
+              strokeDasharray="5 5"
+              ifOverflow="extendDomain"
+            />
+          ))}
+          <Line
+            dataKey="consumed"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            dot={{ r: 3 }}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
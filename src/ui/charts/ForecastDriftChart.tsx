@@ -0,0 +1,90 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { RefObject } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { ForecastHistoryEntry } from "@domain/models/types";
+import { FORECAST_HISTORY_PERCENTILES } from "@domain/models/types";
+import { formatDateISO, parseDateISO } from "@core/calendar/calendar";
+import { useDateFormat, useDateFormatShort } from "@ui/hooks/use-date-format";
+
+interface ForecastDriftChartProps {
+  history: ForecastHistoryEntry[];
+  /** Attached to the capture div so the panel's copy-image button can target it. */
+  captureRef: RefObject<HTMLDivElement | null>;
+}
+
+const LINE_COLORS: Record<number, string> = {
+  50: "#3b82f6",
+  80: "#f59e0b",
+  95: "#ef4444",
+};
+
+/**
+ * Forecast drift: each recorded run along the x-axis, its percentile finish dates up the
+ * y-axis — a line climbing means the forecast is slipping.
+ */
+export function ForecastDriftChart({ history, captureRef }: ForecastDriftChartProps) {
+  const formatDate = useDateFormat();
+  const formatDateShort = useDateFormatShort();
+  // Dates plot as epoch milliseconds so the y-axis is a true time scale.
+  const data = history.map((entry) => {
+    const point: Record<string, number | string> = { run: entry.timestamp.slice(0, 10) };
+    for (const p of FORECAST_HISTORY_PERCENTILES) {
+      const finish = entry.finishDates[p];
+      if (finish) point[`p${p}`] = parseDateISO(finish).getTime();
+    }
+    return point;
+  });
+  const toDate = (ms: number) => formatDateISO(new Date(ms));
+
+  return (
+    <div ref={captureRef} className="bg-white dark:bg-gray-800">
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={data} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="run"
+            tick={{ fontSize: 11 }}
+            tickFormatter={formatDateShort}
+            label={{ value: "Run", position: "insideBottom", offset: -5, fontSize: 12 }}
+          />
+          <YAxis
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v) => formatDateShort(toDate(Number(v)))}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(label) => `Run ${formatDate(String(label))}`}
+            formatter={(value, name) => [formatDate(toDate(Number(value ?? 0))), name]}
+          />
+          <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 11 }} />
+          {FORECAST_HISTORY_PERCENTILES.map((p) => (
+            <Line
+              key={p}
+              dataKey={`p${p}`}
+              name={`P${p} finish`}
+              stroke={LINE_COLORS[p]}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { BaselineActivity } from "@domain/models/types";
+
+export interface GanttBaselineBarProps {
+  /** The activity's baseline dates; absent (nothing drawn) for an activity added since. */
+  planned: BaselineActivity | undefined;
+  /** Top of the activity's bar; the ghost sits in the same lane. */
+  barY: number;
+  barHeight: number;
+  /** Left edge of the chart area — a baseline start before the axis is clipped to it. */
+  minX: number;
+  toX: (isoDate: string) => number;
+  color: string;
+}
+
+/**
+ * The baseline "ghost" of one activity bar, shared by the interactive and print charts.
+ * Drawn BEFORE the activity bars, in the same lane, as a dashed outline: where the plan
+ * has not moved the live bar covers it, and what shows is exactly the slip or pull-in.
+ */
+export function GanttBaselineBar({ planned, barY, barHeight, minX, toX, color }: GanttBaselineBarProps) {
+  if (!planned) return null;
+  const x1 = Math.max(minX, toX(planned.startDate));
+  const x2 = Math.max(x1 + 2, toX(planned.endDate));
+  return (
+    <rect
+      data-baseline-activity-id={planned.activityId}
+      x={x1}
+      y={barY}
+      width={x2 - x1}
+      height={barHeight}
+      rx={2}
+      fill={color}
+      fillOpacity={0.12}
+      stroke={color}
+      strokeOpacity={0.6}
+      strokeWidth={1}
+      strokeDasharray="3 2"
+      className="pointer-events-none"
+    />
+  );
+}
@@ -10,10 +10,14 @@ import type {
   Milestone,
   MilestoneBufferInfo,
   ScheduledActivity,
+  ScenarioBaseline,
+  ScheduledSummary,
   Calendar,
+  WbsSummary,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
 import {
   addWorkingDays,
   parseDateISO,
@@ -21,7 +25,7 @@ import {
   durationToFinishDateISO,
 } from "@core/calendar/calendar";
 import { computeActivityUncertaintyDays } from "@core/schedule/deterministic";
-import { dependencyLabel } from "@domain/helpers/format-labels";
+import { dependencyLabel, formatLag } from "@domain/helpers/format-labels";
 import { useDateFormat, useDateFormatShort } from "@ui/hooks/use-date-format";
 import { useGanttPreferences } from "@ui/hooks/use-gantt-preferences";
 import { useGanttLayout } from "@ui/hooks/use-gantt-layout";
@@ -33,9 +37,14 @@ import {
 } from "./gantt-constants";
 import {
   dateToX, longDateLabel, computeWeekendShadingRects, computeActivityRowGeometry,
-  barLabelText as computeBarLabelText,
+  computeActivityCalendarShadingRows,
+  barLabelText as computeBarLabelText, dependencyArrowAnchors,
 } from "./gantt-utils";
 import { GanttActivityRow } from "./GanttActivityRow";
+import { GanttSummaryRow } from "./GanttSummaryRow";
+import { GanttBaselineBar } from "./GanttBaselineBar";
+import { GanttCriticalityShade } from "./GanttCriticalityShade";
+import { GanttDateWhiskers } from "./GanttDateWhiskers";
 import { GanttSvgDefs } from "./GanttSvgDefs";
 import { GanttLegend } from "./GanttLegend";
 
@@ -46,10 +55,9 @@ import { GanttLegend } from "./GanttLegend";
  */
 const TOOLTIP_HOVER_DELAY_MS = 1500;
 
-function formatLagLabel(lagDays: number): string {
-  if (lagDays === 0) return "";
-  if (lagDays > 0) return `, +${lagDays}d`;
-  return `, ${lagDays}d`;
+function formatLagLabel(dep: ActivityDependency): string {
+  const lag = formatLag(dep);
+  return lag ? `, ${lag}` : "";
 }
 
 function resolveArrowColor(
@@ -66,6 +74,15 @@ function resolveArrowColor(
   return normal;
 }
 
+/** Latest simulated P95 finish among the whiskers, or "" when there are none. */
+function latestWhiskerFinish(whiskers: Map<string, ActivityDateForecast> | undefined): string {
+  let latest = "";
+  for (const forecast of whiskers?.values() ?? []) {
+    if (forecast.finish[95]! > latest) latest = forecast.finish[95]!;
+  }
+  return latest;
+}
+
 function resolveArrowMarker(isHovered: boolean, isCriticalEdge: boolean): string {
   if (isHovered && isCriticalEdge) return "url(#arrowhead-critical-hover)";
   if (isHovered) return "url(#arrowhead-hover)";
@@ -233,6 +250,8 @@ interface GanttChartProps {
   activityTarget: number;
   projectTarget: number;
   calendar?: WorkCalendar | Calendar;
+  /** Activities on a calendar of their own; their rows shade that calendar's days off. */
+  activityCalendars?: Map<string, WorkCalendar>;
   milestones?: Milestone[];
   milestoneBuffers?: Map<string, MilestoneBufferInfo> | null;
   criticalPathIds?: Set<string> | null;
@@ -242,6 +261,16 @@ interface GanttChartProps {
   onEditDependency?: (fromActivityId: string, toActivityId: string) => void;
   onRenameActivity?: (activityId: string, newName: string) => void;
   onRenameBand?: (bandId: string, newName: string) => void;
+  /** WBS summaries: the chart follows the outline and draws a roll-up row for each. */
+  summaries?: WbsSummary[];
+  scheduledSummaries?: ScheduledSummary[];
+  onToggleSummary?: (summaryId: string) => void;
+  /** Active baseline: each activity gets a ghost bar at its baseline dates. */
+  baseline?: ScenarioBaseline;
+  /** Criticality index from the last simulation: each activity lane is shaded by it. */
+  criticalityIndex?: Record<string, number>;
+  /** Simulated start/finish dates from the last run: whiskers in the uncertainty view. */
+  activityDateForecasts?: Map<string, ActivityDateForecast>;
   isLocked?: boolean;
   showActivityNumbers?: boolean;
   onToggleActivityNumbers?: (v: boolean) => void;
@@ -267,6 +296,7 @@ export function GanttChart({
   activityTarget,
   projectTarget,
   calendar,
+  activityCalendars,
   milestones = [],
   milestoneBuffers,
   criticalPathIds,
@@ -276,6 +306,12 @@ export function GanttChart({
   onEditDependency,
   onRenameActivity,
   onRenameBand,
+  summaries,
+  scheduledSummaries,
+  onToggleSummary,
+  baseline,
+  criticalityIndex,
+  activityDateForecasts,
   isLocked,
   showActivityNumbers,
   onToggleActivityNumbers,
@@ -451,9 +487,12 @@ export function GanttChart({
     return m;
   }, [viewMode, orderedActivities, scheduleMap, uncertaintyMap, calendar]);
 
-  // Compute the furthest date considering all scheduled activities, uncertainty extensions,
-  // milestones, and (when toggled on) the finish target date. Including the target ensures
-  // the dashed target line is visible even when it falls past the buffered finish.
+  // Simulated date whiskers: uncertainty mode only, and only once a run has produced them.
+  const dateWhiskers = viewMode === "uncertainty" ? activityDateForecasts : undefined;
+
+  // Compute the furthest date considering all scheduled activities, uncertainty extensions
+  // and whiskers, milestones, and (when toggled on) the finish target date. Including the
+  // target ensures the dashed target line is visible even when it falls past the buffered finish.
   const furthestDate = useMemo(() => {
     let latest = timelineEnd;
     for (const sa of scheduledActivities) {
@@ -462,20 +501,30 @@ export function GanttChart({
     for (const extEnd of activityExtendedEndDates.values()) {
       if (extEnd > latest) latest = extEnd;
     }
+    const whiskerEnd = latestWhiskerFinish(dateWhiskers);
+    if (whiskerEnd > latest) latest = whiskerEnd;
     for (const m of milestones) {
       if (m.targetDate > latest) latest = m.targetDate;
     }
     if (showTargetOnGantt && targetFinishDate && targetFinishDate > latest) {
       latest = targetFinishDate;
     }
+    // A baseline that finished later than today's plan keeps its ghost bars on the axis.
+    if (baseline && baseline.projectEndDate > latest) latest = baseline.projectEndDate;
     return latest;
-  }, [timelineEnd, scheduledActivities, activityExtendedEndDates, milestones, showTargetOnGantt, targetFinishDate]);
+  }, [timelineEnd, scheduledActivities, activityExtendedEndDates, dateWhiskers, milestones, showTargetOnGantt, targetFinishDate, baseline]);
+
+  const baselineBars = useMemo(
+    () => (baseline ? new Map(baseline.activities.map((b) => [b.activityId, b])) : null),
+    [baseline],
+  );
 
   const showBuffer = !!(buffer && buffer.bufferDays > 0 && bufferedEndDate);
 
   const layout = useGanttLayout({
     orderedActivities,
     bands,
+    summaries,
     projectStartDate,
     furthestDate,
     bufferedEndDate,
@@ -500,6 +549,11 @@ export function GanttChart({
     renderItems,
   } = layout;
 
+  const summaryRollups = useMemo(
+    () => new Map((scheduledSummaries ?? []).map((s) => [s.summaryId, s])),
+    [scheduledSummaries],
+  );
+
   // In non-dependency mode, synthesize FS-0 dependencies between adjacent activities
   // so the implicit sequential order is visually explicit. These are non-interactive
   // and never carry critical-path styling (in sequential mode every activity is trivially
@@ -530,8 +584,9 @@ export function GanttChart({
       const toSa = scheduleMap.get(dep.toActivityId);
       if (fromRow === undefined || toRow === undefined || !fromSa || !toSa) return null;
 
-      const fromDate = dep.type === "SS" ? fromSa.startDate : fromSa.endDate;
-      const toDate = dep.type === "FF" ? toSa.endDate : toSa.startDate;
+      const { fromStart, toEnd } = dependencyArrowAnchors(dep.type);
+      const fromDate = fromStart ? fromSa.startDate : fromSa.endDate;
+      const toDate = toEnd ? toSa.endDate : toSa.startDate;
       const barEndX = dateToX(fromDate, minTimestamp, dateRange, chartAreaWidth, ra.leftMargin);
       const fromY = topMargin + fromRow * ra.rowHeight + ra.rowHeight / 2;
       const toX = dateToX(toDate, minTimestamp, dateRange, chartAreaWidth, ra.leftMargin);
@@ -543,7 +598,7 @@ export function GanttChart({
       const dySigned = toY - fromY;
 
       let path: string;
-      if (dep.type === "FF") {
+      if (toEnd) {
         const endX = toX + ARROW_HEAD_SIZE;
         const rightX = Math.max(stubX, endX) + Math.max(15, dyAbs * 0.3);
         path = `M${barEndX},${fromY} L${stubX},${fromY} C${rightX},${fromY} ${rightX},${toY} ${endX},${toY}`;
@@ -562,7 +617,7 @@ export function GanttChart({
         !!(criticalPathIds?.has(dep.fromActivityId) && criticalPathIds?.has(dep.toActivityId));
       const fromName = activities.find((a) => a.id === dep.fromActivityId)?.name ?? "";
       const toName = activities.find((a) => a.id === dep.toActivityId)?.name ?? "";
-      const lagLabel = formatLagLabel(dep.lagDays);
+      const lagLabel = formatLagLabel(dep);
       const label = `${fromName} → ${toName}, ${dependencyLabel(dep.type)}${lagLabel}`;
 
       return { dep, synthetic, path, barEndX, toX, fromY, toY, isCriticalEdge, label };
@@ -590,6 +645,14 @@ export function GanttChart({
     );
   }, [ra.weekendShading, ra.leftMargin, dateRange, calendar, projectStartDate, furthestDate, minTimestamp, chartAreaWidth]);
 
+  const activityCalendarShadingRows = useMemo(() => {
+    if (!ra.weekendShading) return [];
+    return computeActivityCalendarShadingRows(
+      activityCalendars, rowIndex, projectStartDate, furthestDate,
+      minTimestamp, dateRange, chartAreaWidth, ra.leftMargin,
+    );
+  }, [ra.weekendShading, ra.leftMargin, activityCalendars, rowIndex, projectStartDate, furthestDate, minTimestamp, dateRange, chartAreaWidth]);
+
   // Bar label helper — one definition, shared with PrintGanttChart.
   const barLabelText = useCallback(
     (sa: ScheduledActivity): string | null =>
@@ -654,6 +717,21 @@ export function GanttChart({
               fill={ra.shadingColor}
             />
           ))}
+          {activityCalendarShadingRows.map(({ row, rects }) => (
+            <g key={`row-shade-${row}`}>
+              <rect x={0} y={topMargin + row * ra.rowHeight} width={chartWidth} height={ra.rowHeight} fill={c.bg} />
+              {rects.map((rect, i) => (
+                <rect
+                  key={i}
+                  x={rect.x}
+                  y={topMargin + row * ra.rowHeight}
+                  width={rect.width}
+                  height={ra.rowHeight}
+                  fill={ra.shadingColor}
+                />
+              ))}
+            </g>
+          ))}
 
           {/* Row guide lines — faint horizontal lines every 3 rows.
               Band rows participate in the count; a guide line may occasionally
@@ -922,6 +1000,59 @@ export function GanttChart({
             );
           })}
 
+          {/* Pass 1b — WBS summary rows: label (click to collapse/expand) and the roll-up bracket. */}
+          {renderItems.map((item, idx) => {
+            if (item.kind !== "summary") return null;
+            return (
+              <GanttSummaryRow
+                key={`summary-${item.summary.id}`}
+                summary={item.summary}
+                code={item.code}
+                rollup={summaryRollups.get(item.summary.id)}
+                y={topMargin + idx * ra.rowHeight}
+                rowHeight={ra.rowHeight}
+                barHeight={ra.barHeight}
+                labelX={ra.leftMargin - 8}
+                fontSize={ra.nameFontSize}
+                nameCharLimit={ra.nameCharLimit}
+                toX={(d) => dateToX(d, minTimestamp, dateRange, chartAreaWidth, ra.leftMargin)}
+                color={c.text}
+                onToggle={!isLocked && onToggleSummary ? () => onToggleSummary(item.summary.id) : undefined}
+              />
+            );
+          })}
+
+          {/* Pass 1c — criticality shading of each activity lane, behind the row's bars. */}
+          {criticalityIndex && renderItems.map((item, idx) => (
+            item.kind === "activity" ? (
+              <GanttCriticalityShade
+                key={`criticality-${item.activity.id}`}
+                activityId={item.activity.id}
+                index={criticalityIndex[item.activity.id]}
+                rowY={topMargin + idx * ra.rowHeight}
+                rowHeight={ra.rowHeight}
+                x={ra.leftMargin}
+                width={chartAreaWidth}
+                color={ra.criticalPath}
+              />
+            ) : null
+          ))}
+
+          {/* Pass 1d — baseline ghost bars, under everything the live plan draws. */}
+          {baselineBars && renderItems.map((item, idx) => (
+            item.kind === "activity" ? (
+              <GanttBaselineBar
+                key={`baseline-${item.activity.id}`}
+                planned={baselineBars.get(item.activity.id)}
+                barY={topMargin + idx * ra.rowHeight + barYOffset}
+                barHeight={ra.barHeight}
+                minX={ra.leftMargin}
+                toX={(d) => dateToX(d, minTimestamp, dateRange, chartAreaWidth, ra.leftMargin)}
+                color={c.text}
+              />
+            ) : null
+          ))}
+
           {/* Dependency arrows — visible paths only (rendered before bars so bars paint on top) */}
           {showArrows && arrowPaths.map((ap, i) => {
             const isHovered = hoveredDep?.from === ap.dep.fromActivityId && hoveredDep?.to === ap.dep.toActivityId;
@@ -939,11 +1070,11 @@ export function GanttChart({
                 <path d={ap.path} stroke={arrowColor} strokeWidth={isHovered ? "3" : "2"}
                   fill="none" markerEnd={arrowMarker}
                   className="pointer-events-none transition-all duration-100" />
-                {ap.dep.lagDays !== 0 && (
+                {formatLag(ap.dep) !== "" && (
                   <text x={(ap.barEndX + ap.toX) / 2} y={(ap.fromY + ap.toY) / 2 - 4}
                     textAnchor="middle" fontSize="9" fill={arrowColor} fontWeight="600"
                     className="pointer-events-none">
-                    {ap.dep.lagDays > 0 ? "+" : ""}{ap.dep.lagDays}d
+                    {formatLag(ap.dep)}
                   </text>
                 )}
               </g>
@@ -981,6 +1112,22 @@ export function GanttChart({
             );
           })}
 
+          {/* Pass 2b — simulated start/finish whiskers, over the bars (uncertainty view). */}
+          {dateWhiskers && renderItems.map((item, idx) => (
+            item.kind === "activity" ? (
+              <GanttDateWhiskers
+                key={`whiskers-${item.activity.id}`}
+                activityId={item.activity.id}
+                forecast={dateWhiskers.get(item.activity.id)}
+                barY={topMargin + idx * ra.rowHeight + barYOffset}
+                barHeight={ra.barHeight}
+                toX={(d) => dateToX(d, minTimestamp, dateRange, chartAreaWidth, ra.leftMargin)}
+                color={c.text}
+                formatDate={formatDate}
+              />
+            ) : null
+          ))}
+
           {/* Schedule Buffer row */}
           {showBuffer && bufferedEndDate && (
             <g>
@@ -1165,6 +1312,7 @@ export function GanttChart({
           targetColor={tc[(targetRAGColor ?? "gray") as keyof typeof tc] ?? tc.gray}
           targetDash={TARGET_DASH_PATTERNS[targetRAGColor ?? "gray"] ?? TARGET_DASH_PATTERNS.gray}
           weekendShading={ra.weekendShading}
+          hasDateWhiskers={!!dateWhiskers && dateWhiskers.size > 0}
         />
       </div>
 
@@ -0,0 +1,51 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/** Opacity of the lane at a criticality index of 1; lower indices scale linearly. */
+const MAX_SHADE_OPACITY = 0.16;
+
+export interface GanttCriticalityShadeProps {
+  activityId: string;
+  /** Share of trials (0–1) the activity was critical in; nothing drawn when absent or 0. */
+  index: number | undefined;
+  /** Top and height of the activity's ROW, not its bar — the shade fills the lane. */
+  rowY: number;
+  rowHeight: number;
+  /** Left edge and width of the chart area. */
+  x: number;
+  width: number;
+  color: string;
+}
+
+/**
+ * Criticality shading of one activity lane, shared by the interactive and print charts.
+ * The critical-path color, deepening with the share of trials the activity was critical
+ * in, behind everything else in the row — so a bar with float that the simulation keeps
+ * finding on the critical path still reads as a risk.
+ */
+export function GanttCriticalityShade({
+  activityId,
+  index,
+  rowY,
+  rowHeight,
+  x,
+  width,
+  color,
+}: GanttCriticalityShadeProps) {
+  if (!index) return null;
+  return (
+    <rect
+      data-criticality-activity-id={activityId}
+      x={x}
+      y={rowY}
+      width={width}
+      height={rowHeight}
+      fill={color}
+      fillOpacity={MAX_SHADE_OPACITY * index}
+      className="pointer-events-none"
+    >
+      <title>{`Critical in ${Math.round(index * 100)}% of trials`}</title>
+    </rect>
+  );
+}
@@ -0,0 +1,77 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { ACTIVITY_DATE_PERCENTILES } from "@domain/models/types";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
+
+/** Half-height of a whisker's end caps, px. */
+const CAP_HALF_HEIGHT = 3;
+
+export interface GanttDateWhiskersProps {
+  activityId: string;
+  /** The activity's simulated dates; nothing drawn when absent. */
+  forecast: ActivityDateForecast | undefined;
+  /** Top and height of the activity's BAR: the start whisker runs along its top edge, the finish along its bottom. */
+  barY: number;
+  barHeight: number;
+  toX: (isoDate: string) => number;
+  color: string;
+  formatDate: (isoDate: string) => string;
+}
+
+/**
+ * Uncertainty whiskers of one activity on the interactive Gantt (uncertainty view): its
+ * simulated start and finish, each a line from P50 to P95 with caps at both ends and a
+ * dot at P80 — so a bar reads against the range the simulation puts it in.
+ */
+export function GanttDateWhiskers({
+  activityId,
+  forecast,
+  barY,
+  barHeight,
+  toX,
+  color,
+  formatDate,
+}: GanttDateWhiskersProps) {
+  if (!forecast) return null;
+  const describe = (label: string, dates: Record<number, string>) => {
+    const points = ACTIVITY_DATE_PERCENTILES.map((p) => `P${p} ${formatDate(dates[p]!)}`);
+    return `${label} ${points.join(", ")}`;
+  };
+  return (
+    <g
+      data-date-whiskers-activity-id={activityId}
+      stroke={color}
+      strokeWidth={1.25}
+      className="pointer-events-none"
+    >
+      <title>{`${describe("Simulated start", forecast.start)}\n${describe("Simulated finish", forecast.finish)}`}</title>
+      <Whisker dates={forecast.start} y={barY} toX={toX} color={color} />
+      <Whisker dates={forecast.finish} y={barY + barHeight} toX={toX} color={color} />
+    </g>
+  );
+}
+
+function Whisker({
+  dates,
+  y,
+  toX,
+  color,
+}: {
+  dates: Record<number, string>;
+  y: number;
+  toX: (isoDate: string) => number;
+  color: string;
+}) {
+  const x50 = toX(dates[50]!);
+  const x95 = toX(dates[95]!);
+  return (
+    <>
+      <line x1={x50} y1={y} x2={x95} y2={y} />
+      <line x1={x50} y1={y - CAP_HALF_HEIGHT} x2={x50} y2={y + CAP_HALF_HEIGHT} />
+      <line x1={x95} y1={y - CAP_HALF_HEIGHT} x2={x95} y2={y + CAP_HALF_HEIGHT} />
+      <circle cx={toX(dates[80]!)} cy={y} r={2} fill={color} stroke="none" />
+    </>
+  );
+}
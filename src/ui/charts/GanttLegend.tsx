@@ -35,6 +35,8 @@ interface GanttLegendProps {
   targetColor?: string;
   targetDash?: string;
   weekendShading?: boolean;
+  /** Simulated start/finish whiskers are drawn (uncertainty view, after a run). */
+  hasDateWhiskers?: boolean;
 }
 
 export function GanttLegend({
@@ -54,6 +56,7 @@ export function GanttLegend({
   targetColor,
   targetDash,
   weekendShading,
+  hasDateWhiskers,
 }: GanttLegendProps) {
   return (
     <div className="flex flex-wrap items-center gap-x-5 gap-y-1 px-3 py-2 text-xs text-gray-600 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700">
@@ -109,6 +112,19 @@ export function GanttLegend({
         </span>
       )}
 
+      {/* Simulated start/finish whiskers */}
+      {hasDateWhiskers && (
+        <span>
+          <svg width="16" height="12" className="inline-block align-middle mr-1.5" stroke="currentColor" strokeWidth="1.25">
+            <line x1="1" y1="6" x2="15" y2="6" />
+            <line x1="1" y1="3" x2="1" y2="9" />
+            <line x1="15" y1="3" x2="15" y2="9" />
+            <circle cx="10" cy="6" r="2" fill="currentColor" stroke="none" />
+          </svg>
+          <span className="align-middle">Simulated P50 · P80 · P95</span>
+        </span>
+      )}
+
       {/* Weekend / non-work day shading */}
       {weekendShading && (
         <span>
@@ -0,0 +1,70 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { ScheduledSummary, WbsSummary } from "@domain/models/types";
+
+export interface GanttSummaryRowProps {
+  summary: WbsSummary;
+  code: string;
+  /** Roll-up from the schedule; without one only the label renders. */
+  rollup: ScheduledSummary | undefined;
+  y: number;
+  rowHeight: number;
+  barHeight: number;
+  /** Right edge of the label column (labels are end-anchored). */
+  labelX: number;
+  fontSize: number;
+  nameCharLimit: number;
+  toX: (isoDate: string) => number;
+  color: string;
+  /** Click on the label collapses/expands. Absent in print and when locked. */
+  onToggle?: () => void;
+}
+
+/**
+ * One WBS summary row, shared by the interactive and print charts so the two cannot
+ * drift. The bar is the conventional summary bracket — a thin bar across the rolled-up
+ * span with a downward cap at each end — so it never reads as an activity bar.
+ */
+export function GanttSummaryRow({
+  summary, code, rollup, y, rowHeight, barHeight, labelX, fontSize, nameCharLimit,
+  toX, color, onToggle,
+}: GanttSummaryRowProps) {
+  const midY = y + rowHeight / 2;
+  const marker = summary.collapsed ? "▸" : "▾";
+  const name = summary.name.trim() || "(unnamed summary)";
+  const label = `${marker} ${code} ${name}`;
+  const truncated = label.length > nameCharLimit ? label.slice(0, nameCharLimit - 2) + "..." : label;
+
+  const thickness = Math.max(2, Math.round(barHeight * 0.35));
+  const capDepth = thickness + Math.max(2, Math.round(barHeight * 0.25));
+  const barTop = midY - thickness / 2;
+  const x1 = rollup ? toX(rollup.startDate) : 0;
+  const x2 = rollup ? Math.max(x1 + 4, toX(rollup.endDate)) : 0;
+  const cap = Math.min(capDepth, (x2 - x1) / 2);
+
+  return (
+    <g data-wbs-summary-id={summary.id}>
+      <text
+        x={labelX}
+        y={midY}
+        textAnchor="end"
+        dominantBaseline="central"
+        fontSize={fontSize}
+        fontWeight="700"
+        fill={color}
+        className={onToggle ? "cursor-pointer" : "pointer-events-none"}
+        onClick={onToggle}
+      >
+        {truncated}
+      </text>
+      {rollup && (
+        <path
+          d={`M${x1},${barTop} H${x2} V${barTop + capDepth} L${x2 - cap},${barTop + thickness} H${x1 + cap} L${x1},${barTop + capDepth} Z`}
+          fill={color}
+        />
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,100 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { RefObject } from "react";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ZAxis,
+  ResponsiveContainer,
+} from "recharts";
+import type { CostResult } from "@domain/models/types";
+import { JCL_LEVELS } from "@domain/models/types";
+
+interface JclScatterChartProps {
+  costResults: CostResult;
+  /** The scenario's probability target, 0–1: its cost percentile heads the chart. */
+  percentileTarget: number;
+  /** Attached to the capture div so the panel's copy-image button can target it. */
+  captureRef: RefObject<HTMLDivElement | null>;
+}
+
+const CONTOUR_COLORS: Record<number, string> = {
+  50: "#f59e0b",
+  70: "#10b981",
+  90: "#ef4444",
+};
+
+function formatCost(value: number): string {
+  return Math.round(value).toLocaleString();
+}
+
+/**
+ * Joint confidence: one dot per trial (the first JCL_SCATTER_TRIALS of the run), duration
+ * against cost, with a line per JCL level — every point on it finishes within its duration
+ * AND its cost in that share of the trials.
+ */
+export function JclScatterChart({ costResults, percentileTarget, captureRef }: JclScatterChartProps) {
+  const targetPct = Math.round(percentileTarget * 100);
+  const targetCost = costResults.percentiles[targetPct];
+  const scatter = costResults.scatter.filter(
+    (pt) => Number.isFinite(pt.duration) && Number.isFinite(pt.cost)
+  );
+
+  return (
+    <div ref={captureRef} className="bg-white dark:bg-gray-800">
+      <p className="text-xs text-gray-500 dark:text-gray-400 tabular-nums" data-testid="jcl-cost-summary">
+        Cost mean {formatCost(costResults.mean)} · P50 {formatCost(costResults.percentiles[50] ?? costResults.mean)}
+        {targetCost !== undefined && targetPct !== 50 && ` · P${targetPct} ${formatCost(targetCost)}`}
+      </p>
+      <ResponsiveContainer width="100%" height={350}>
+        <ScatterChart margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="duration"
+            type="number"
+            name="Duration"
+            tick={{ fontSize: 11 }}
+            tickFormatter={(v) => String(Math.round(v))}
+            label={{ value: "Duration (days)", position: "insideBottom", offset: -5, fontSize: 12 }}
+            domain={["dataMin", "dataMax"]}
+          />
+          <YAxis
+            dataKey="cost"
+            type="number"
+            name="Cost"
+            tick={{ fontSize: 11 }}
+            tickFormatter={formatCost}
+            domain={["dataMin", "dataMax"]}
+            width={70}
+          />
+          <Tooltip
+            formatter={(value, name) =>
+              name === "Cost" ? [formatCost(Number(value ?? 0)), "Cost"] : [`${Number(value ?? 0).toFixed(1)} days`, name]
+            }
+          />
+          <ZAxis range={[12, 12]} />
+          <Legend verticalAlign="top" height={24} wrapperStyle={{ fontSize: 11 }} />
+          <Scatter name="Trials" data={scatter} fill="#3b82f6" fillOpacity={0.3} isAnimationActive={false} />
+          {JCL_LEVELS.map((level) => (
+            <Scatter
+              key={level}
+              name={`JCL ${level}%`}
+              data={costResults.contours[level] ?? []}
+              fill={CONTOUR_COLORS[level]}
+              line={{ stroke: CONTOUR_COLORS[level], strokeWidth: 2 }}
+              shape={() => <g />}
+              isAnimationActive={false}
+            />
+          ))}
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
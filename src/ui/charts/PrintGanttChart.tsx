@@ -11,11 +11,15 @@ import type {
   Milestone,
   MilestoneBufferInfo,
   ScheduledActivity,
+  ScenarioBaseline,
+  ScheduledSummary,
   Calendar,
+  WbsSummary,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
 import { formatDateISO } from "@core/calendar/calendar";
+import { formatLag } from "@domain/helpers/format-labels";
 import {
   PRINT_RIGHT, PRINT_TOP,
   PRINT_BAR_RADIUS, PRINT_ARROW_SIZE, PRINT_MIN_TICK_PX, TODAY_PROXIMITY_PX,
@@ -23,13 +27,18 @@ import {
   COLORS, MILESTONE_COLORS, TARGET_COLORS, TARGET_DASH_PATTERNS,
   resolveGanttAppearance,
 } from "./gantt-constants";
-import { dateToX, generateTicks, longDateLabel, computeWeekendShadingRects, suppressOverlappingTicks, computeTodayLine, barLabelText as computeBarLabelText } from "./gantt-utils";
+import { dateToX, generateTicks, longDateLabel, computeWeekendShadingRects, computeActivityCalendarShadingRows, suppressOverlappingTicks, computeTodayLine, barLabelText as computeBarLabelText, dependencyArrowAnchors } from "./gantt-utils";
 import type { TickLevel } from "./gantt-utils";
 import { buildRenderList, buildActivitySlotMap } from "@ui/helpers/band-utils";
+import { GanttSummaryRow } from "./GanttSummaryRow";
+import { GanttBaselineBar } from "./GanttBaselineBar";
+import { GanttCriticalityShade } from "./GanttCriticalityShade";
 
 export interface PrintGanttChartProps {
   activities: Activity[];
   bands?: ActivityBand[];
+  summaries?: WbsSummary[];
+  scheduledSummaries?: ScheduledSummary[];
   scheduledActivities: ScheduledActivity[];
   projectStartDate: string;
   projectEndDate: string;
@@ -39,6 +48,8 @@ export interface PrintGanttChartProps {
   activityTarget: number;
   projectTarget: number;
   calendar?: WorkCalendar | Calendar;
+  /** Activities on a calendar of their own; their rows shade that calendar's days off. */
+  activityCalendars?: Map<string, WorkCalendar>;
   bufferedEndDate: string | null;
   formatDate: (iso: string) => string;
   /** Short form (no year) used for in-bar labels. Injected, not hooked — keeps the parity oracle deterministic. */
@@ -51,11 +62,17 @@ export interface PrintGanttChartProps {
   showTargetOnGantt?: boolean;
   targetRAGColor?: string;
   ganttAppearance?: GanttAppearanceSettings;
+  /** Active baseline: each activity gets a ghost bar at its baseline dates. */
+  baseline?: ScenarioBaseline;
+  /** Criticality index from the last simulation: each activity lane is shaded by it. */
+  criticalityIndex?: Record<string, number>;
 }
 
 export function PrintGanttChart({
   activities,
   bands = [],
+  summaries,
+  scheduledSummaries,
   scheduledActivities,
   projectStartDate,
   projectEndDate,
@@ -66,6 +83,7 @@ export function PrintGanttChart({
   formatDate,
   formatDateShort,
   calendar,
+  activityCalendars,
   milestones = [],
   milestoneBuffers,
   criticalPathIds,
@@ -74,6 +92,8 @@ export function PrintGanttChart({
   showTargetOnGantt,
   targetRAGColor,
   ganttAppearance,
+  baseline,
+  criticalityIndex,
 }: PrintGanttChartProps) {
   // Resolve appearance (print is always light mode)
   const ra = resolveGanttAppearance(ganttAppearance, false);
@@ -95,8 +115,18 @@ export function PrintGanttChart({
 
   // Build interleaved render list (bands + activities)
   const renderItems = useMemo(
-    () => buildRenderList(ordered, bands),
-    [ordered, bands]
+    () => buildRenderList(ordered, bands, summaries),
+    [ordered, bands, summaries]
+  );
+
+  const baselineBars = useMemo(
+    () => (baseline ? new Map(baseline.activities.map((b) => [b.activityId, b])) : null),
+    [baseline],
+  );
+
+  const summaryRollups = useMemo(
+    () => new Map((scheduledSummaries ?? []).map((s) => [s.summaryId, s])),
+    [scheduledSummaries],
   );
 
   // Row index map for dependency arrows. Bands are excluded as KEYS but counted as
@@ -116,6 +146,7 @@ export function PrintGanttChart({
   if (showTargetOnGantt && targetFinishDate && targetFinishDate > endDate) {
     endDate = targetFinishDate;
   }
+  if (baseline && baseline.projectEndDate > endDate) endDate = baseline.projectEndDate;
 
   // Dynamic top margin
   const topMargin = PRINT_TOP
@@ -247,6 +278,17 @@ export function PrintGanttChart({
     // eslint-disable-next-line react-hooks/preserve-manual-memoization
   }, [ra.weekendShading, range, calendar, projectStartDate, endDate, minTs, areaW, ra.printLeftMargin]);
 
+  const activityCalendarShadingRows = useMemo(() => {
+    if (!ra.weekendShading || range === 0) return [];
+    // Same print threshold as the column shading above.
+    if (areaW / (range / (1000 * 60 * 60 * 24)) < 1.5) return [];
+    return computeActivityCalendarShadingRows(
+      activityCalendars, rowIndex, projectStartDate, endDate,
+      minTs, range, areaW, ra.printLeftMargin, 0.5,
+    );
+    // eslint-disable-next-line react-hooks/preserve-manual-memoization
+  }, [ra.weekendShading, activityCalendars, rowIndex, projectStartDate, endDate, minTs, range, areaW, ra.printLeftMargin]);
+
   // Bar label helper — one definition, shared with GanttChart.
   const barLabelText = useCallback(
     (sa: ScheduledActivity): string | null =>
@@ -318,6 +360,21 @@ export function PrintGanttChart({
             fill="rgba(0,0,0,0.04)"
           />
         ))}
+        {activityCalendarShadingRows.map(({ row, rects }) => (
+          <g key={`row-shade-${row}`}>
+            <rect x={0} y={topMargin + row * ra.printRowHeight} width={chartW} height={ra.printRowHeight} fill="white" />
+            {rects.map((rect, i) => (
+              <rect
+                key={i}
+                x={rect.x}
+                y={topMargin + row * ra.printRowHeight}
+                width={rect.width}
+                height={ra.printRowHeight}
+                fill="rgba(0,0,0,0.04)"
+              />
+            ))}
+          </g>
+        ))}
 
         {/* Row guide lines — faint horizontal lines every 3 rows.
             Band rows participate in the count; overlap with a band rule is accepted. */}
@@ -449,6 +506,58 @@ export function PrintGanttChart({
           );
         })}
 
+        {/* WBS summary rows — same component as the interactive chart, without the toggle. */}
+        {renderItems.map((item, idx) => {
+          if (item.kind !== "summary") return null;
+          return (
+            <GanttSummaryRow
+              key={`summary-${item.summary.id}`}
+              summary={item.summary}
+              code={item.code}
+              rollup={summaryRollups.get(item.summary.id)}
+              y={topMargin + idx * ra.printRowHeight}
+              rowHeight={ra.printRowHeight}
+              barHeight={ra.printBarHeight}
+              labelX={ra.printLeftMargin - 4}
+              fontSize={fs7}
+              nameCharLimit={ra.printNameCharLimit}
+              toX={toX}
+              color={c.text}
+            />
+          );
+        })}
+
+        {/* Criticality lane shading — same component as the interactive chart. */}
+        {criticalityIndex && renderItems.map((item, idx) => (
+          item.kind === "activity" ? (
+            <GanttCriticalityShade
+              key={`criticality-${item.activity.id}`}
+              activityId={item.activity.id}
+              index={criticalityIndex[item.activity.id]}
+              rowY={topMargin + idx * ra.printRowHeight}
+              rowHeight={ra.printRowHeight}
+              x={ra.printLeftMargin}
+              width={areaW}
+              color={ra.criticalPath}
+            />
+          ) : null
+        ))}
+
+        {/* Baseline ghost bars — same component as the interactive chart. */}
+        {baselineBars && renderItems.map((item, idx) => (
+          item.kind === "activity" ? (
+            <GanttBaselineBar
+              key={`baseline-${item.activity.id}`}
+              planned={baselineBars.get(item.activity.id)}
+              barY={topMargin + idx * ra.printRowHeight + (ra.printRowHeight - ra.printBarHeight) / 2}
+              barHeight={ra.printBarHeight}
+              minX={ra.printLeftMargin}
+              toX={toX}
+              color={c.text}
+            />
+          ) : null
+        ))}
+
         {/* Dependency arrows — rendered before bars so bars paint on top */}
         {effectiveDependencies.map(({ dep, synthetic }, i) => {
           const fromRow = rowIndex.get(dep.fromActivityId);
@@ -457,8 +566,9 @@ export function PrintGanttChart({
           const toSa = scheduleMap.get(dep.toActivityId);
           if (fromRow === undefined || toRow === undefined || !fromSa || !toSa) return null;
 
-          const fromDate = dep.type === "SS" ? fromSa.startDate : fromSa.endDate;
-          const toDate = dep.type === "FF" ? toSa.endDate : toSa.startDate;
+          const { fromStart, toEnd } = dependencyArrowAnchors(dep.type);
+          const fromDate = fromStart ? fromSa.startDate : fromSa.endDate;
+          const toDate = toEnd ? toSa.endDate : toSa.startDate;
           const barEndX = toX(fromDate);
           const fromY = topMargin + fromRow * ra.printRowHeight + ra.printRowHeight / 2;
           const toStartX = toX(toDate);
@@ -470,7 +580,7 @@ export function PrintGanttChart({
           const dySigned = toY - fromY;
 
           let path: string;
-          if (dep.type === "FF") {
+          if (toEnd) {
             const endX = toStartX + PRINT_ARROW_SIZE;
             const rightX = Math.max(stubX, endX) + Math.max(10, dyAbs * 0.3);
             path = `M${barEndX},${fromY} L${stubX},${fromY} C${rightX},${fromY} ${rightX},${toY} ${endX},${toY}`;
@@ -493,10 +603,10 @@ export function PrintGanttChart({
           return (
             <g key={`dep-${i}`}>
               <path d={path} stroke={arrowColor} strokeWidth="1" fill="none" markerEnd={arrowMarker} />
-              {dep.lagDays !== 0 && (
+              {formatLag(dep) !== "" && (
                 <text x={(barEndX + toStartX) / 2} y={(fromY + toY) / 2 - 2}
                   textAnchor="middle" fontSize={fs4} fill={arrowColor} fontWeight="600">
-                  {dep.lagDays > 0 ? "+" : ""}{dep.lagDays}d
+                  {formatLag(dep)}
                 </text>
               )}
             </g>
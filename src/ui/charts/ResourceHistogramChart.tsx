@@ -0,0 +1,66 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import type { ResourceUsage } from "@core/schedule/resource-usage";
+
+interface ResourceHistogramChartProps {
+  usage: ResourceUsage;
+  formatDate: (iso: string) => string;
+}
+
+const OVER_CAPACITY_COLOR = "#ef4444";
+const WITHIN_CAPACITY_COLOR = "#3b82f6";
+
+export function ResourceHistogramChart({ usage, formatDate }: ResourceHistogramChartProps) {
+  const yMax = Math.max(usage.capacity, usage.peak);
+
+  return (
+    <ResponsiveContainer width="100%" height={160}>
+      <BarChart data={usage.days} margin={{ top: 16, right: 30, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="date"
+          tick={{ fontSize: 10 }}
+          tickFormatter={(d: string) => formatDate(d)}
+          minTickGap={24}
+        />
+        <YAxis tick={{ fontSize: 11 }} domain={[0, yMax]} allowDecimals />
+        <Tooltip
+          formatter={(value) => [value ?? 0, "Units"]}
+          labelFormatter={(label: unknown) => formatDate(String(label))}
+        />
+        <Bar dataKey="units" isAnimationActive={false}>
+          {usage.days.map((d) => (
+            <Cell
+              key={d.date}
+              fill={d.units > usage.capacity + 1e-9 ? OVER_CAPACITY_COLOR : WITHIN_CAPACITY_COLOR}
+            />
+          ))}
+        </Bar>
+        <ReferenceLine
+          y={usage.capacity}
+          stroke="#10b981"
+          strokeDasharray="5 5"
+          label={{
+            value: `Capacity: ${usage.capacity}`,
+            position: "insideTopRight",
+            fontSize: 10,
+            fill: "#10b981",
+          }}
+        />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -16,9 +16,11 @@ import {
   countSemiannualTicks,
   computeActivityRowGeometry,
   computeWeekendShadingRects,
+  computeActivityCalendarShadingRows,
   suppressOverlappingTicks,
   computeTodayLine,
   barLabelText,
+  dependencyArrowAnchors,
 } from "./gantt-utils";
 import {
   LEFT_MARGIN, ROW_HEIGHT, BAR_HEIGHT, BAR_Y_OFFSET,
@@ -721,6 +723,32 @@ describe("computeWeekendShadingRects", () => {
   });
 });
 
+// -- computeActivityCalendarShadingRows ---------------------------------------
+
+describe("computeActivityCalendarShadingRows", () => {
+  const min = new Date("2026-01-05T00:00:00").getTime(); // Monday
+  const range = 14 * 86_400_000;
+  const sevenDay = buildWorkCalendar([0, 1, 2, 3, 4, 5, 6], [], []);
+  const weekendsOnly = buildWorkCalendar([0, 6], [], []);
+  const rowIndex = new Map([["a", 0], ["v", 2], ["w", 3]]);
+
+  it("is empty without activity calendars", () => {
+    expect(
+      computeActivityCalendarShadingRows(undefined, rowIndex, "2026-01-05", "2026-01-18", min, range, 700, LEFT_MARGIN),
+    ).toEqual([]);
+  });
+
+  it("shades each row with its own calendar's days off, skipping unrendered activities", () => {
+    const rows = computeActivityCalendarShadingRows(
+      new Map([["v", sevenDay], ["w", weekendsOnly], ["gone", sevenDay]]),
+      rowIndex, "2026-01-05", "2026-01-18", min, range, 700, LEFT_MARGIN,
+    );
+    expect(rows.map((r) => r.row)).toEqual([2, 3]);
+    expect(rows[0]!.rects).toEqual([]); // works every day
+    expect(rows[1]!.rects).toHaveLength(2); // Mon–Fri twice
+  });
+});
+
 // -- suppressOverlappingTicks: targetX --------------------------------------
 //
 // Regression coverage for the "Always show Finish Target on Gantt when toggle
@@ -1027,3 +1055,21 @@ describe("bar-label dates are short enough to fit narrow bars", () => {
     expect(formatDateShort("2026-05-08", "YYYY/MM/DD")).toBe("May 8");
   });
 });
+
+describe("dependencyArrowAnchors", () => {
+  it("FS joins predecessor end to successor start", () => {
+    expect(dependencyArrowAnchors("FS")).toEqual({ fromStart: false, toEnd: false });
+  });
+
+  it("SS joins both starts", () => {
+    expect(dependencyArrowAnchors("SS")).toEqual({ fromStart: true, toEnd: false });
+  });
+
+  it("FF joins both ends", () => {
+    expect(dependencyArrowAnchors("FF")).toEqual({ fromStart: false, toEnd: true });
+  });
+
+  it("SF joins predecessor start to successor end", () => {
+    expect(dependencyArrowAnchors("SF")).toEqual({ fromStart: true, toEnd: true });
+  });
+});
@@ -2,7 +2,7 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { ScheduledActivity } from "@domain/models/types";
+import type { DependencyType, ScheduledActivity } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import { formatDateISO } from "@core/calendar/calendar";
 
@@ -39,6 +39,21 @@ export function barLabelText(
   return null;
 }
 
+/**
+ * Which bar edges a dependency arrow joins: it leaves the predecessor's START for SS/SF
+ * (END otherwise) and lands on the successor's END for FF/SF (START otherwise).
+ *
+ * Shared by GanttChart and PrintGanttChart so the two can't disagree on routing. `toEnd`
+ * also selects the path shape — an arrow landing on a bar's end enters from the right, so
+ * it takes the hook route rather than the left-entering S-curve.
+ */
+export function dependencyArrowAnchors(type: DependencyType): { fromStart: boolean; toEnd: boolean } {
+  return {
+    fromStart: type === "SS" || type === "SF",
+    toEnd: type === "FF" || type === "SF",
+  };
+}
+
 /**
  * Date string → X coordinate mapping.
  * Uses timestamp ratio within the date range.
@@ -434,6 +449,41 @@ export function computeWeekendShadingRects(
     .filter((r): r is { x: number; width: number } => r !== null);
 }
 
+/**
+ * Shading for the rows of activities on a calendar of their own (per-activity calendars,
+ * dependency mode). Each such row covers the project's column shading and shows its own
+ * calendar's non-work days instead — a vendor row that works weekends is unshaded there.
+ *
+ * `rowIndex` is the chart's activity → render-row map, so band rows keep their slots.
+ * Shared by GanttChart and PrintGanttChart; empty when no activity has its own calendar.
+ */
+export function computeActivityCalendarShadingRows(
+  activityCalendars: Map<string, WorkCalendar> | undefined,
+  rowIndex: Map<string, number>,
+  projectStartDate: string,
+  furthestDate: string,
+  minTimestamp: number,
+  dateRange: number,
+  chartAreaWidth: number,
+  leftMargin: number,
+  minRectWidth = 1,
+): { row: number; rects: { x: number; width: number }[] }[] {
+  if (!activityCalendars || dateRange === 0) return [];
+  const rows: { row: number; rects: { x: number; width: number }[] }[] = [];
+  for (const [activityId, calendar] of activityCalendars) {
+    const row = rowIndex.get(activityId);
+    if (row === undefined) continue;
+    rows.push({
+      row,
+      rects: computeWeekendShadingRects(
+        calendar, projectStartDate, furthestDate,
+        minTimestamp, dateRange, chartAreaWidth, leftMargin, minRectWidth,
+      ),
+    });
+  }
+  return rows;
+}
+
 
 // -- Activity row geometry ----------------------------------------------------
 
@@ -4,5 +4,8 @@
 
 export { HistogramChart } from "./HistogramChart";
 export { CDFChart } from "./CDFChart";
+export { JclScatterChart } from "./JclScatterChart";
+export { ForecastDriftChart } from "./ForecastDriftChart";
+export { FeverChart } from "./FeverChart";
 export { PercentileTable } from "./PercentileTable";
 export { GanttChart } from "./GanttChart";
@@ -0,0 +1,49 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { ACTIVITY_DATE_PERCENTILES } from "@domain/models/types";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
+import { useDateFormat, useDateFormatShort } from "@ui/hooks/use-date-format";
+
+interface ActivityDateCellsProps {
+  /** Whether the columns are shown; nothing renders when they are not. */
+  shown: boolean;
+  /** The activity's simulated dates; absent before a run, or for completed work. */
+  forecast?: ActivityDateForecast;
+}
+
+/**
+ * The grid's optional simulated-date columns — start, then finish — each reading
+ * P50 · P80 · P95. Two grid cells from one component that also owns the show/hide,
+ * so the row adds no branches.
+ */
+export function ActivityDateCells({ shown, forecast }: ActivityDateCellsProps) {
+  if (!shown) return null;
+  return (
+    <>
+      <DatePercentileCell label="Start" dates={forecast?.start} />
+      <DatePercentileCell label="Finish" dates={forecast?.finish} />
+    </>
+  );
+}
+
+function DatePercentileCell({ label, dates }: { label: string; dates?: Record<number, string> }) {
+  const formatDate = useDateFormat();
+  const formatDateShort = useDateFormatShort();
+  if (!dates) {
+    return <span className="text-gray-300 dark:text-gray-600 text-xs px-1">&mdash;</span>;
+  }
+  const title = ACTIVITY_DATE_PERCENTILES
+    .map((p) => `P${p} ${label.toLowerCase()} ${formatDate(dates[p]!)}`)
+    .join("\n");
+  return (
+    <span
+      className="block text-[11px] tabular-nums whitespace-nowrap truncate px-1 text-gray-600 dark:text-gray-300"
+      title={title}
+      aria-label={title}
+    >
+      {ACTIVITY_DATE_PERCENTILES.map((p) => formatDateShort(dates[p]!)).join(" · ")}
+    </span>
+  );
+}
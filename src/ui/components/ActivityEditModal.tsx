@@ -15,6 +15,9 @@ import type {
   ActivityStatus,
   ChecklistItem,
   DeliverableItem,
+  NamedCalendar,
+  WbsSummary,
+  Resource,
 } from "@domain/models/types";
 import {
   CONSTRAINT_TYPES,
@@ -23,12 +26,14 @@ import {
   RSM_LABELS,
   DISTRIBUTION_TYPES,
   ACTIVITY_STATUSES,
+  RESOURCE_UNITS_MAX,
 } from "@domain/models/types";
 import { useProjectStore } from "@ui/hooks/use-project-store";
 import { useWorkCalendar } from "@ui/hooks/use-work-calendar";
 import { useDateFormat } from "@ui/hooks/use-date-format";
 import { parseDateISO, isWorkingDay, formatDateISO, countWorkingDays, activityEndDate, MAX_CALENDAR_ITERATIONS } from "@core/calendar/calendar";
 import { detectConstraintConflict } from "@core/schedule/constraint-utils";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
 import { distributionLabel, statusLabel } from "@domain/helpers/format-labels";
 import { CONSTRAINT_LABELS } from "@domain/helpers/constraint-labels";
 import { ChecklistSection } from "@ui/components/ChecklistSection";
@@ -38,14 +43,43 @@ import {
   Section,
   computeConstraintUpdates,
   computeDescriptionUpdate,
+  computeHistoryUpdate,
+  isHistoryTooShort,
   computeGeneralUpdates,
   computeEstimateUpdates,
+  computeResourceUpdates,
+  computeCalendarUpdate,
+  computeSummaryUpdate,
+  computeProgressUpdates,
+  computeCostUpdate,
+  isCostDraftInvalid,
+  ProgressSection,
+  CostSection,
+  type CostDraft,
+  HistoricalDurationsField,
+  type ProgressDraft,
+  type ResourceUnitsDraft,
   DependenciesDisplaySection,
   ScheduleAnalysisSection,
+  SimulatedDatesSection,
 } from "@ui/components/activity-modal-sections";
 import { computeHeuristic } from "@core/estimation/heuristic";
 import { computeElapsedDays } from "./activity-row-helpers";
 
+const EMPTY_RESOURCES: Resource[] = [];
+const EMPTY_CALENDARS: NamedCalendar[] = [];
+const EMPTY_SUMMARIES: WbsSummary[] = [];
+
+/** The draft with `resourceId` set to `units` — appended if the pool grew while open. */
+function withResourceUnits(
+  draft: ResourceUnitsDraft[],
+  resourceId: string,
+  units: string | number,
+): ResourceUnitsDraft[] {
+  if (!draft.some((row) => row.resourceId === resourceId)) return [...draft, { resourceId, units }];
+  return draft.map((row) => (row.resourceId === resourceId ? { ...row, units } : row));
+}
+
 interface ActivityEditModalProps {
   activityId: string;
   scenarioId: string;
@@ -59,6 +93,8 @@ interface ActivityEditModalProps {
   onEditDependency?: (fromId: string, toId: string) => void;
   onAddDependency?: (fromId: string) => void;
   activityNumberMap?: Map<string, number> | null;
+  /** This activity's simulated start/finish dates from the last run; absent before one. */
+  dateForecast?: ActivityDateForecast;
 }
 
 
@@ -75,6 +111,7 @@ export function ActivityEditModal({
   onEditDependency,
   onAddDependency,
   activityNumberMap,
+  dateForecast,
 }: ActivityEditModalProps) {
   // -- Store selectors --
   const activity = useProjectStore((s) => {
@@ -95,6 +132,19 @@ export function ActivityEditModal({
     return scenario?.dependencies ?? [];
   });
 
+  // The pool is project-level; EMPTY_RESOURCES is a stable fallback so the selector doesn't
+  // return a fresh array (and re-render) on every store change.
+  const resources = useProjectStore(
+    (s) => s.projects.find((p) => p.id === projectId)?.resources ?? EMPTY_RESOURCES
+  );
+  const namedCalendars = useProjectStore(
+    (s) => s.projects.find((p) => p.id === projectId)?.calendars ?? EMPTY_CALENDARS
+  );
+  const summaries = useProjectStore((s) => {
+    const project = s.projects.find((p) => p.id === projectId);
+    return project?.scenarios.find((sc) => sc.id === scenarioId)?.summaries ?? EMPTY_SUMMARIES;
+  });
+
   const updateActivityField = useProjectStore((s) => s.updateActivityField);
   const updateActivityChecklist = useProjectStore((s) => s.updateActivityChecklist);
   const updateActivityDeliverables = useProjectStore((s) => s.updateActivityDeliverables);
@@ -138,6 +188,7 @@ export function ActivityEditModal({
   const [max, setMax] = useState<number | "">(activity?.max ?? "");
   const [confidenceLevel, setConfidenceLevel] = useState<RSMLevel>(activity?.confidenceLevel ?? "mediumConfidence");
   const [distributionType, setDistributionType] = useState<DistributionType>(activity?.distributionType ?? "normal");
+  const [historyText, setHistoryText] = useState(activity?.historicalDurations?.join(", ") ?? "");
 
   // -- Local draft state: Constraint --
   const [constraintType, setConstraintType] = useState<ConstraintType | null>(
@@ -154,6 +205,49 @@ export function ActivityEditModal({
   );
   const [dateAdjustedNote, setDateAdjustedNote] = useState<string | null>(null);
 
+  // -- Local draft state: Resources --
+  const [resourceUnits, setResourceUnits] = useState<ResourceUnitsDraft[]>(() =>
+    resources.map((r) => ({
+      resourceId: r.id,
+      units:
+        activity?.resourceAssignments?.find((ra) => ra.resourceId === r.id)?.units ?? "",
+    }))
+  );
+
+  // -- Local draft state: Calendar ("" = the project calendar) --
+  const [calendarId, setCalendarId] = useState<string>(activity?.calendarId ?? "");
+
+  // -- Local draft state: WBS summary ("" = the top level) --
+  const [summaryId, setSummaryId] = useState<string>(activity?.summaryId ?? "");
+
+  // -- Local draft state: Progress (actual dates, remaining estimate) --
+  const [progress, setProgress] = useState<ProgressDraft>(() => ({
+    actualStartDate: activity?.actualStartDate ?? "",
+    actualFinishDate: activity?.actualFinishDate ?? "",
+    remainingMin: activity?.remainingEstimate?.min ?? "",
+    remainingMostLikely: activity?.remainingEstimate?.mostLikely ?? "",
+    remainingMax: activity?.remainingEstimate?.max ?? "",
+  }));
+  const handleProgressChange = useCallback((updates: Partial<ProgressDraft>) => {
+    setProgress((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  // -- Local draft state: Cost --
+  const [cost, setCost] = useState<CostDraft>(() => ({
+    fixed: activity?.cost?.fixed ?? "",
+    dailyRate: activity?.cost?.dailyRate ?? "",
+    fixedMin: activity?.cost?.fixedMin ?? "",
+    fixedMax: activity?.cost?.fixedMax ?? "",
+  }));
+  const handleCostChange = useCallback((updates: Partial<CostDraft>) => {
+    setCost((prev) => ({ ...prev, ...updates }));
+  }, []);
+
+  const handleResourceUnitsChange = useCallback((resourceId: string, raw: string) => {
+    const units = raw === "" ? "" : Number(raw);
+    setResourceUnits((prev) => withResourceUnits(prev, resourceId, units));
+  }, []);
+
   // -- Local draft state: Checklist --
   const [checklist, setChecklist] = useState<ChecklistItem[]>(activity?.checklist ?? []);
 
@@ -389,10 +483,16 @@ export function ActivityEditModal({
       {} as Partial<Activity>,
       computeGeneralUpdates(activity, name, status, actualDuration),
       computeEstimateUpdates(activity, min, mostLikely, max, confidenceLevel, distributionType),
+      computeHistoryUpdate(activity, historyText),
       computeConstraintUpdates(activity, constraintType, constraintDate, constraintMode, constraintNote),
       computeDescriptionUpdate(activity, description),
+      computeResourceUpdates(activity, resourceUnits),
+      computeCalendarUpdate(activity, calendarId),
+      computeSummaryUpdate(activity, summaryId),
+      computeProgressUpdates(activity, status, progress),
+      computeCostUpdate(activity, cost),
     );
-  }, [activity, name, status, actualDuration, min, mostLikely, max, confidenceLevel, distributionType, constraintType, constraintDate, constraintMode, constraintNote, description]);
+  }, [activity, name, status, actualDuration, min, mostLikely, max, confidenceLevel, distributionType, historyText, constraintType, constraintDate, constraintMode, constraintNote, description, resourceUnits, calendarId, summaryId, progress, cost]);
 
   // -- Save: only send changed fields --
   const handleSave = useCallback(() => {
@@ -468,7 +568,9 @@ export function ActivityEditModal({
   const nameMissing = name.trim().length === 0;
   const isValid =
     name.trim().length > 0 &&
-    (!constraintType || (!!constraintType && !!constraintDate && !!constraintMode));
+    (!constraintType || (!!constraintType && !!constraintDate && !!constraintMode)) &&
+    !isHistoryTooShort(distributionType, historyText) &&
+    !isCostDraftInvalid(cost);
 
   // -- Dirty check: detect any unsaved changes --
   const hasChanges = useMemo(() => {
@@ -709,6 +811,23 @@ export function ActivityEditModal({
                   </select>
                 </div>
               </div>
+              {distributionType === "empirical" && (
+                <HistoricalDurationsField draft={historyText} onChange={setHistoryText} />
+              )}
+            </Section>
+
+            {/* ── Progress: actual dates and the remaining estimate ── */}
+            <Section
+              title="Progress"
+              defaultOpen={false}
+              indicator={progress.actualStartDate !== "" || progress.remainingMax !== ""}
+            >
+              <ProgressSection status={status} draft={progress} onChange={handleProgressChange} />
+            </Section>
+
+            {/* ── Cost: fixed amount and daily burn rate ── */}
+            <Section title="Cost" defaultOpen={false} indicator={cost.fixed !== "" || cost.dailyRate !== ""}>
+              <CostSection draft={cost} onChange={handleCostChange} />
             </Section>
 
             {/* ── Section 3: Scheduling Constraint ── */}
@@ -863,6 +982,84 @@ export function ActivityEditModal({
               </Section>
             )}
 
+            {/* ── Resources (dependency mode, when the project has a pool) ── */}
+            {dependencyMode && resources.length > 0 && (
+              <Section
+                title="Resources"
+                defaultOpen={false}
+                indicator={resourceUnits.some((row) => row.units !== "" && Number(row.units) > 0)}
+              >
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Units held on every working day of the activity. Leave blank if not needed.
+                </p>
+                {resources.map((r) => {
+                  const row = resourceUnits.find((u) => u.resourceId === r.id);
+                  const inputId = `${baseId}-resource-${r.id}`;
+                  return (
+                    <div key={r.id} className="flex items-center gap-2">
+                      <label htmlFor={inputId} className="flex-1 min-w-0 truncate text-sm text-gray-700 dark:text-gray-300">
+                        {r.name}
+                        <span className="ml-1 text-xs text-gray-400 dark:text-gray-500">(capacity {r.capacity})</span>
+                      </label>
+                      <input
+                        id={inputId}
+                        type="number"
+                        name="resourceUnits"
+                        min={0}
+                        max={RESOURCE_UNITS_MAX}
+                        step={0.5}
+                        value={row?.units ?? ""}
+                        onChange={(e) => handleResourceUnitsChange(r.id, e.target.value)}
+                        className="w-24 text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      />
+                    </div>
+                  );
+                })}
+              </Section>
+            )}
+
+            {/* ── Calendar (dependency mode, when the project has named calendars) ── */}
+            {dependencyMode && namedCalendars.length > 0 && (
+              <Section title="Calendar" defaultOpen={false} indicator={calendarId !== ""}>
+                <label htmlFor={`${baseId}-calendar`} className="block text-xs text-gray-500 dark:text-gray-400">
+                  The days this activity works. Its duration and float count on this calendar.
+                </label>
+                <select
+                  id={`${baseId}-calendar`}
+                  name="activityCalendar"
+                  value={calendarId}
+                  onChange={(e) => setCalendarId(e.target.value)}
+                  className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">Project calendar</option>
+                  {namedCalendars.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </Section>
+            )}
+
+            {/* ── WBS summary (when the scenario has any) ── */}
+            {summaries.length > 0 && (
+              <Section title="Summary" defaultOpen={false} indicator={summaryId !== ""}>
+                <label htmlFor={`${baseId}-summary`} className="block text-xs text-gray-500 dark:text-gray-400">
+                  The WBS summary this activity rolls up into.
+                </label>
+                <select
+                  id={`${baseId}-summary`}
+                  name="activitySummary"
+                  value={summaryId}
+                  onChange={(e) => setSummaryId(e.target.value)}
+                  className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                >
+                  <option value="">(top level)</option>
+                  {summaries.map((s) => (
+                    <option key={s.id} value={s.id}>{s.name || "Unnamed summary"}</option>
+                  ))}
+                </select>
+              </Section>
+            )}
+
             {/* ── Section 5: Tasks (Checklist) ── */}
             <Section
               title="Tasks"
@@ -914,6 +1111,13 @@ export function ActivityEditModal({
                 <ScheduleAnalysisSection sa={sa} formatDate={formatDate} />
               </Section>
             )}
+
+            {/* ── Section 9: Simulated Dates (after a run) ── */}
+            {dateForecast && (
+              <Section title="Simulated Dates" defaultOpen={false}>
+                <SimulatedDatesSection forecast={dateForecast} formatDate={formatDate} />
+              </Section>
+            )}
           </div>
 
           {/* Actions */}
@@ -7,7 +7,7 @@ import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import type { ActivityBand } from "@domain/models/types";
 import { BandColorPicker } from "./BandColorPicker";
-import { GRID_COLUMNS, GRID_COLUMNS_WITH_CONSTRAINT } from "./grid-columns";
+import { gridColumnsFor } from "./grid-columns";
 import { hexToTintedBackground } from "@ui/helpers/color-utils";
 import { useBufferedField } from "@ui/hooks/use-buffered-field";
 
@@ -15,6 +15,8 @@ interface BandHeaderRowProps {
   band: ActivityBand;
   locked: boolean;
   showConstraintColumn: boolean;
+  /** Show the simulated date columns, so the row's tracks line up with the activity rows. */
+  showDatePercentiles?: boolean;
   onUpdate: (bandId: string, updates: Partial<ActivityBand>) => void;
   onDelete: (bandId: string) => void;
   autoFocus?: boolean;
@@ -27,6 +29,7 @@ export function BandHeaderRow({
   band,
   locked,
   showConstraintColumn,
+  showDatePercentiles,
   onUpdate,
   onDelete,
   autoFocus,
@@ -36,7 +39,7 @@ export function BandHeaderRow({
 }: BandHeaderRowProps) {
   const nameInputRef = useRef<HTMLInputElement>(null);
   const [pickerOpen, setPickerOpen] = useState(false);
-  const gridCols = showConstraintColumn ? GRID_COLUMNS_WITH_CONSTRAINT : GRID_COLUMNS;
+  const gridCols = gridColumnsFor(showConstraintColumn, showDatePercentiles);
 
   const {
     attributes,
@@ -0,0 +1,214 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import { BASELINES_MAX, type ScenarioBaseline } from "@domain/models/types";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+import { VarianceBadge } from "./VarianceBadge";
+
+interface BaselinePanelProps {
+  baselines: ScenarioBaseline[];
+  activeBaselineId?: string;
+  /** Deterministic finish variance against the active baseline, in working days. */
+  projectFinishVariance?: number;
+  /** False while there is no schedule to snapshot. */
+  canCapture: boolean;
+  onCapture: (name: string) => void;
+  onRename: (baselineId: string, name: string) => void;
+  onRemove: (baselineId: string) => void;
+  onSetActive: (baselineId: string | undefined) => void;
+  isLocked?: boolean;
+}
+
+interface BaselineNameInputProps {
+  baselineId: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (baselineId: string, name: string) => void;
+}
+
+// Non-exported — buffered name input for a baseline row (see CalendarNameInput).
+function BaselineNameInput({ baselineId, name, disabled, onCommit }: BaselineNameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(baselineId, next.trim());
+    },
+    [baselineId, onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={`baseline-name-${baselineId}`}
+      type="text"
+      name="baselineName"
+      autoComplete="off"
+      aria-label="Baseline name"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder="Baseline name"
+    />
+  );
+}
+
+/**
+ * Named baselines of the scenario. Capturing one snapshots the schedule as it stands
+ * and makes it the active baseline — the one the grid, milestones, Gantt ghost bars and
+ * exports measure variance against. Choosing "None" hides the variance without losing
+ * any baseline.
+ */
+export function BaselinePanel({
+  baselines,
+  activeBaselineId,
+  projectFinishVariance,
+  canCapture,
+  onCapture,
+  onRename,
+  onRemove,
+  onSetActive,
+  isLocked,
+}: BaselinePanelProps) {
+  const [newName, setNewName] = useState("");
+  const [collapsed, setCollapsed] = useState(false);
+  const formatDate = useDateFormat();
+  const full = baselines.length >= BASELINES_MAX;
+
+  const handleCapture = () => {
+    if (!newName.trim() || !canCapture || full) return;
+    onCapture(newName.trim());
+    setNewName("");
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Baselines
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {baselines.length} of {BASELINES_MAX}
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          A baseline records the plan&apos;s dates, durations, percentiles and buffer. Variance
+          against the active one shows beside each finish date, in working days.
+        </p>
+
+        {/* Baseline list */}
+        <div role="radiogroup" aria-label="Active baseline" className="space-y-1">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input
+              type="radio"
+              name="activeBaseline"
+              checked={!activeBaselineId}
+              onChange={() => onSetActive(undefined)}
+              disabled={isLocked}
+            />
+            None
+          </label>
+          {baselines.map((b) => (
+            <div key={b.id} className="flex flex-wrap items-center gap-2">
+              <input
+                type="radio"
+                name="activeBaseline"
+                aria-label={`Measure variance against ${b.name}`}
+                checked={b.id === activeBaselineId}
+                onChange={() => onSetActive(b.id)}
+                disabled={isLocked}
+              />
+              <BaselineNameInput
+                baselineId={b.id}
+                name={b.name}
+                disabled={!!isLocked}
+                onCommit={onRename}
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                Captured {formatDate(b.capturedAt.slice(0, 10))} · Finish {formatDate(b.projectEndDate)}
+                {b.bufferDays !== undefined ? ` · Buffer ${b.bufferDays}d` : ""}
+              </span>
+              {b.id === activeBaselineId && projectFinishVariance !== undefined && (
+                <VarianceBadge
+                  days={projectFinishVariance}
+                  title="Current finish against this baseline, in working days"
+                />
+              )}
+              {!isLocked && (
+                <button
+                  onClick={() => onRemove(b.id)}
+                  className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1 ml-auto"
+                  title="Remove baseline"
+                  aria-label="Remove baseline"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Capture form */}
+        {!isLocked && (
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <input
+              type="text"
+              name="newBaselineName"
+              aria-label="New baseline name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Approved plan"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleCapture();
+              }}
+            />
+            <button
+              onClick={handleCapture}
+              disabled={!newName.trim() || !canCapture || full}
+              title={full ? `A scenario keeps at most ${BASELINES_MAX} baselines` : undefined}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+            >
+              Capture
+            </button>
+          </div>
+        )}
+      </div>)}
+    </section>
+  );
+}
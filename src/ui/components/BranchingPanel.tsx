@@ -0,0 +1,481 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import {
+  BRANCH_PATHS_MAX,
+  BRANCHES_MAX,
+  type Activity,
+  type BranchPath,
+  type BranchSchedulePolicy,
+  type ExclusiveBranch,
+} from "@domain/models/types";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+
+const DEFAULT_OCCURRENCE_PCT = 50;
+
+interface BranchingPanelProps {
+  activities: Activity[];
+  branches: ExclusiveBranch[];
+  policy: BranchSchedulePolicy;
+  onSetOccurrence: (activityId: string, probability: number | null) => void;
+  onAddBranch: (name: string) => void;
+  onRenameBranch: (branchId: string, name: string) => void;
+  onRemoveBranch: (branchId: string) => void;
+  onAddPath: (branchId: string, name: string, probability: number) => void;
+  onUpdatePath: (
+    branchId: string,
+    pathId: string,
+    updates: Partial<Pick<BranchPath, "name" | "probability">>
+  ) => void;
+  onRemovePath: (branchId: string, pathId: string) => void;
+  onSetActivityPath: (activityId: string, target: { branchId: string; pathId: string } | null) => void;
+  onPolicyChange: (policy: BranchSchedulePolicy) => void;
+  isLocked?: boolean;
+  formatActivityName?: (a: Activity) => string;
+}
+
+const INPUT_CLASS =
+  "px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60";
+
+const POLICY_LABELS: Record<BranchSchedulePolicy, string> = {
+  all: "Plan all conditional work",
+  expected: "Plan only the expected work",
+};
+
+interface NameInputProps {
+  id: string;
+  label: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (name: string) => void;
+}
+
+// Non-exported — buffered name input for a branch or path (see GroupNameInput).
+function NameInput({ id, label, name, disabled, onCommit }: NameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(next.trim());
+    },
+    [onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={id}
+      type="text"
+      autoComplete="off"
+      aria-label={label}
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder={label}
+    />
+  );
+}
+
+interface PercentFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  disabled: boolean;
+  onCommit: (pct: number) => void;
+}
+
+/** A percentage input that commits on blur; an entry the service refuses snaps back. */
+function PercentField({ id, label, value, disabled, onCommit }: PercentFieldProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      const parsed = Number(next);
+      if (next.trim() !== "" && Number.isFinite(parsed) && parsed > 0) onCommit(parsed);
+    },
+    [onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur } = useBufferedField(
+    String(value),
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={id}
+      type="number"
+      min={1}
+      aria-label={label}
+      title={label}
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      disabled={disabled}
+      className={`w-16 ${INPUT_CLASS}`}
+    />
+  );
+}
+
+function RemoveButton({ title, onClick, small }: { title: string; onClick: () => void; small?: boolean }) {
+  return (
+    <button
+      onClick={onClick}
+      className={small ? "text-gray-400 hover:text-red-500 dark:hover:text-red-400 p-0.5 shrink-0" : "text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1"}
+      title={title}
+      aria-label={title}
+    >
+      <svg className={small ? "w-3 h-3" : "w-4 h-4"} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+      </svg>
+    </button>
+  );
+}
+
+interface ConditionalSectionProps {
+  activities: Activity[];
+  onSetOccurrence: BranchingPanelProps["onSetOccurrence"];
+  isLocked: boolean;
+  label: (a: Activity) => string;
+}
+
+function ConditionalSection({ activities, onSetOccurrence, isLocked, label }: ConditionalSectionProps) {
+  const conditional = activities.filter((a) => a.occurrenceProbability !== undefined);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        Conditional activities
+      </h4>
+      {conditional.map((a) => (
+        <div key={a.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span className="truncate flex-1 min-w-0">{label(a)}</span>
+          <PercentField
+            id={`occurrence-${a.id}`}
+            label={`Chance ${a.name} happens (%)`}
+            value={Math.round((a.occurrenceProbability ?? 1) * 100)}
+            disabled={isLocked}
+            onCommit={(pct) => onSetOccurrence(a.id, pct / 100)}
+          />
+          <span className="text-xs text-gray-500 dark:text-gray-400">% of trials</span>
+          {!isLocked && <RemoveButton title="Always runs" small onClick={() => onSetOccurrence(a.id, null)} />}
+        </div>
+      ))}
+      {!isLocked && (
+        <select
+          id="conditional-activity-add"
+          name="conditionalActivity"
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onSetOccurrence(e.target.value, DEFAULT_OCCURRENCE_PCT / 100);
+          }}
+          className={`w-full ${INPUT_CLASS}`}
+        >
+          <option value="">Make activity conditional...</option>
+          {activities
+            .filter((a) => a.occurrenceProbability === undefined && a.status === "planned")
+            .map((a) => (
+              <option key={a.id} value={a.id}>{label(a)}</option>
+            ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+interface PathRowProps {
+  branch: ExclusiveBranch;
+  path: BranchPath;
+  share: number;
+  activities: Activity[];
+  available: Activity[];
+  onUpdatePath: BranchingPanelProps["onUpdatePath"];
+  onRemovePath: BranchingPanelProps["onRemovePath"];
+  onSetActivityPath: BranchingPanelProps["onSetActivityPath"];
+  isLocked: boolean;
+  label: (a: Activity) => string;
+}
+
+function PathRow({
+  branch,
+  path,
+  share,
+  activities,
+  available,
+  onUpdatePath,
+  onRemovePath,
+  onSetActivityPath,
+  isLocked,
+  label,
+}: PathRowProps) {
+  const handleRename = useCallback(
+    (name: string) => onUpdatePath(branch.id, path.id, { name }),
+    [onUpdatePath, branch.id, path.id],
+  );
+  const members = activities.filter((a) => path.activityIds.includes(a.id));
+
+  return (
+    <div className="pl-3 border-l-2 border-gray-200 dark:border-gray-700 space-y-1">
+      <div className="flex items-center gap-2">
+        <NameInput
+          id={`branch-path-name-${path.id}`}
+          label="Path name"
+          name={path.name}
+          disabled={isLocked}
+          onCommit={handleRename}
+        />
+        <PercentField
+          id={`branch-path-weight-${path.id}`}
+          label={`Weight of ${path.name}`}
+          value={Math.round(path.probability * 100)}
+          disabled={isLocked}
+          onCommit={(pct) => onUpdatePath(branch.id, path.id, { probability: pct / 100 })}
+        />
+        <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums w-16">
+          {Math.round(share * 100)}% taken
+        </span>
+        {!isLocked && branch.paths.length > 2 && (
+          <RemoveButton title="Remove path" small onClick={() => onRemovePath(branch.id, path.id)} />
+        )}
+      </div>
+      {members.map((a) => (
+        <div key={a.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+          <span className="truncate">{label(a)}</span>
+          {!isLocked && (
+            <span className="ml-auto">
+              <RemoveButton title="Remove activity from path" small onClick={() => onSetActivityPath(a.id, null)} />
+            </span>
+          )}
+        </div>
+      ))}
+      {members.length === 0 && (
+        <p className="text-xs text-gray-400 dark:text-gray-500">No activities — taking this path skips the others.</p>
+      )}
+      {!isLocked && (
+        <select
+          id={`branch-path-add-${path.id}`}
+          name="branchPathActivity"
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onSetActivityPath(e.target.value, { branchId: branch.id, pathId: path.id });
+          }}
+          className={`w-full ${INPUT_CLASS}`}
+        >
+          <option value="">Add activity to path...</option>
+          {available.map((a) => (
+            <option key={a.id} value={a.id}>{label(a)}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+interface BranchCardProps {
+  branch: ExclusiveBranch;
+  activities: Activity[];
+  available: Activity[];
+  onRenameBranch: BranchingPanelProps["onRenameBranch"];
+  onRemoveBranch: BranchingPanelProps["onRemoveBranch"];
+  onAddPath: BranchingPanelProps["onAddPath"];
+  onUpdatePath: BranchingPanelProps["onUpdatePath"];
+  onRemovePath: BranchingPanelProps["onRemovePath"];
+  onSetActivityPath: BranchingPanelProps["onSetActivityPath"];
+  isLocked: boolean;
+  label: (a: Activity) => string;
+}
+
+function BranchCard({
+  branch,
+  onRenameBranch,
+  onRemoveBranch,
+  onAddPath,
+  ...rowProps
+}: BranchCardProps) {
+  const handleRename = useCallback(
+    (name: string) => onRenameBranch(branch.id, name),
+    [onRenameBranch, branch.id],
+  );
+  const total = branch.paths.reduce((sum, p) => sum + p.probability, 0);
+  const canAddPath = branch.paths.length < BRANCH_PATHS_MAX;
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <NameInput
+          id={`branch-name-${branch.id}`}
+          label="Branch name"
+          name={branch.name}
+          disabled={rowProps.isLocked}
+          onCommit={handleRename}
+        />
+        {!rowProps.isLocked && <RemoveButton title="Remove branch" onClick={() => onRemoveBranch(branch.id)} />}
+      </div>
+      {branch.paths.map((path) => (
+        <PathRow key={path.id} branch={branch} path={path} share={total > 0 ? path.probability / total : 0} {...rowProps} />
+      ))}
+      {!rowProps.isLocked && canAddPath && (
+        <button
+          onClick={() => onAddPath(branch.id, `Path ${branch.paths.length + 1}`, 0.5)}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          + Add path
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Conditional work for the scenario: activities that happen only in some trials, and
+ * exclusive branches where each trial takes exactly one path. The policy says whether the
+ * deterministic schedule plans all of it or only the work a trial usually runs.
+ */
+export function BranchingPanel({
+  activities,
+  branches,
+  policy,
+  onSetOccurrence,
+  onAddBranch,
+  onRemoveBranch,
+  onRenameBranch,
+  onAddPath,
+  onUpdatePath,
+  onRemovePath,
+  onSetActivityPath,
+  onPolicyChange,
+  isLocked,
+  formatActivityName,
+}: BranchingPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [collapsed, setCollapsed] = useState(false);
+  const full = branches.length >= BRANCHES_MAX;
+  const label = formatActivityName ?? ((a: Activity) => a.name);
+  const onPath = new Set(branches.flatMap((b) => b.paths.flatMap((p) => p.activityIds)));
+  const available = activities.filter((a) => a.status === "planned" && !onPath.has(a.id));
+
+  const handleAdd = () => {
+    if (!newName.trim() || full) return;
+    onAddBranch(newName.trim());
+    setNewName("");
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Conditional Work
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {branches.length} of {BRANCHES_MAX} branches
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Work that happens only in some trials. A skipped activity takes no time, but its
+          successors still wait for its predecessors.
+        </p>
+
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>Deterministic schedule</span>
+          <select
+            id="branch-schedule-policy"
+            name="branchSchedulePolicy"
+            value={policy}
+            disabled={isLocked}
+            onChange={(e) => onPolicyChange(e.target.value as BranchSchedulePolicy)}
+            className={`flex-1 ${INPUT_CLASS}`}
+          >
+            {(Object.keys(POLICY_LABELS) as BranchSchedulePolicy[]).map((p) => (
+              <option key={p} value={p}>{POLICY_LABELS[p]}</option>
+            ))}
+          </select>
+        </label>
+
+        <ConditionalSection
+          activities={activities}
+          onSetOccurrence={onSetOccurrence}
+          isLocked={!!isLocked}
+          label={label}
+        />
+
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Exclusive branches
+          </h4>
+          {branches.map((branch) => (
+            <BranchCard
+              key={branch.id}
+              branch={branch}
+              activities={activities}
+              available={available}
+              onRenameBranch={onRenameBranch}
+              onRemoveBranch={onRemoveBranch}
+              onAddPath={onAddPath}
+              onUpdatePath={onUpdatePath}
+              onRemovePath={onRemovePath}
+              onSetActivityPath={onSetActivityPath}
+              isLocked={!!isLocked}
+              label={label}
+            />
+          ))}
+
+          {/* Add form */}
+          {!isLocked && (
+            <div className="flex gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+              <input
+                type="text"
+                name="newBranchName"
+                aria-label="New branch name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g., Permit approved or appealed"
+                className={`flex-1 py-1.5 ${INPUT_CLASS}`}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleAdd();
+                }}
+              />
+              <button
+                onClick={handleAdd}
+                disabled={!newName.trim() || full}
+                title={full ? `A scenario keeps at most ${BRANCHES_MAX} branches` : undefined}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+              >
+                Add branch
+              </button>
+            </div>
+          )}
+        </div>
+      </div>)}
+    </section>
+  );
+}
@@ -4,7 +4,7 @@
 
 import { useState } from "react";
 import type { RSMLevel, DistributionType, ActivityStatus } from "@domain/models/types";
-import { RSM_LEVELS, RSM_LABELS, DISTRIBUTION_TYPES, ACTIVITY_STATUSES } from "@domain/models/types";
+import { RSM_LEVELS, RSM_LABELS, PARAMETRIC_DISTRIBUTION_TYPES, ACTIVITY_STATUSES } from "@domain/models/types";
 import { distributionLabel, statusLabel } from "@domain/helpers/format-labels";
 
 export interface BulkApplyPayload {
@@ -92,7 +92,7 @@ export function BulkActionToolbar({
         className="px-2 py-1 text-sm border border-blue-300 dark:border-blue-600 rounded bg-white dark:bg-gray-700 dark:text-gray-100 focus:outline-none focus:border-blue-500"
       >
         <option value="">Set Distribution...</option>
-        {DISTRIBUTION_TYPES.map((dt) => (
+        {PARAMETRIC_DISTRIBUTION_TYPES.map((dt) => (
           <option key={dt} value={dt}>
             {distributionLabel(dt)}
           </option>
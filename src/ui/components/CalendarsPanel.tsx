@@ -0,0 +1,248 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import { WEEKDAY_LABELS, type Activity, type NamedCalendar } from "@domain/models/types";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+import { CalendarEditor } from "./CalendarEditor";
+
+interface CalendarsPanelProps {
+  calendars: NamedCalendar[];
+  activities: Activity[];
+  onAddCalendar: (name: string) => void;
+  onUpdateCalendar: (calendarId: string, updates: Partial<Omit<NamedCalendar, "id">>) => void;
+  onRemoveCalendar: (calendarId: string) => void;
+  isLocked?: boolean;
+}
+
+interface CalendarNameInputProps {
+  calendarId: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (calendarId: string, name: string) => void;
+}
+
+// Non-exported — buffered name input for a calendar row (see ResourceNameInput).
+function CalendarNameInput({ calendarId, name, disabled, onCommit }: CalendarNameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(calendarId, next.trim());
+    },
+    [calendarId, onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={`calendar-name-${calendarId}`}
+      type="text"
+      name="calendarName"
+      autoComplete="off"
+      aria-label="Calendar name"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder="Calendar name"
+    />
+  );
+}
+
+interface WorkDayTogglesProps {
+  workDays: number[];
+  disabled: boolean;
+  onChange: (workDays: number[]) => void;
+}
+
+// Non-exported — the Sun–Sat work-week chips (see the Work Days preference).
+function WorkDayToggles({ workDays, disabled, onChange }: WorkDayTogglesProps) {
+  const workDaySet = new Set(workDays);
+  const toggleDay = (day: number) => {
+    if (workDaySet.has(day)) {
+      if (workDaySet.size <= 1) return; // prevent empty
+      onChange(workDays.filter((d) => d !== day));
+    } else {
+      onChange([...workDays, day].sort((a, b) => a - b));
+    }
+  };
+  return (
+    <div className="flex items-center gap-1" role="group" aria-label="Work days">
+      {WEEKDAY_LABELS.map((label, i) => (
+        <button
+          key={i}
+          type="button"
+          onClick={() => toggleDay(i)}
+          disabled={disabled}
+          aria-pressed={workDaySet.has(i)}
+          className={`px-2 py-0.5 text-xs font-medium rounded-full transition-colors disabled:opacity-60 ${
+            workDaySet.has(i)
+              ? "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60"
+              : "bg-gray-100 text-gray-400 dark:bg-gray-700 dark:text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600"
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function formatCalendarCount(count: number): string {
+  if (count === 0) return "No calendars";
+  return `${count} ${count === 1 ? "calendar" : "calendars"}`;
+}
+
+export function CalendarsPanel({
+  calendars,
+  activities,
+  onAddCalendar,
+  onUpdateCalendar,
+  onRemoveCalendar,
+  isLocked,
+}: CalendarsPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [collapsed, setCollapsed] = useState(false);
+  const [holidaysOpenId, setHolidaysOpenId] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    onAddCalendar(newName.trim());
+    setNewName("");
+  };
+
+  const handleNameCommit = useCallback(
+    (id: string, nextName: string) => onUpdateCalendar(id, { name: nextName }),
+    [onUpdateCalendar],
+  );
+
+  // Activities on each calendar in this scenario
+  const userCount = new Map<string, number>();
+  for (const a of activities) {
+    if (a.calendarId) userCount.set(a.calendarId, (userCount.get(a.calendarId) ?? 0) + 1);
+  }
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Activity Calendars
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {formatCalendarCount(calendars.length)}
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Shared by every scenario. An activity on one of these works its days and holidays
+          instead of the project calendar's; choose it in the activity editor.
+        </p>
+
+        {/* Calendar list */}
+        {calendars.map((c) => (
+          <div key={c.id} className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <CalendarNameInput
+                calendarId={c.id}
+                name={c.name}
+                disabled={!!isLocked}
+                onCommit={handleNameCommit}
+              />
+              <WorkDayToggles
+                workDays={c.workDays}
+                disabled={!!isLocked}
+                onChange={(workDays) => onUpdateCalendar(c.id, { workDays })}
+              />
+              <button
+                type="button"
+                onClick={() => setHolidaysOpenId((open) => (open === c.id ? null : c.id))}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                aria-expanded={holidaysOpenId === c.id}
+              >
+                Holidays ({c.holidays.length})
+              </button>
+              <span className="text-xs text-gray-400 dark:text-gray-500 w-20 shrink-0">
+                {userCount.get(c.id) ?? 0} assigned
+              </span>
+              {!isLocked && (
+                <button
+                  onClick={() => onRemoveCalendar(c.id)}
+                  className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1"
+                  title="Remove calendar"
+                  aria-label="Remove calendar"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+            {holidaysOpenId === c.id && !isLocked && (
+              <div className="pl-2 border-l-2 border-gray-100 dark:border-gray-700">
+                <CalendarEditor
+                  calendar={{ holidays: c.holidays }}
+                  onUpdate={(next) => onUpdateCalendar(c.id, { holidays: next.holidays })}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* Add calendar form */}
+        {!isLocked && (
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <input
+              type="text"
+              name="newCalendarName"
+              aria-label="New calendar name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Vendor (7-day week)"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newName.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>)}
+    </section>
+  );
+}
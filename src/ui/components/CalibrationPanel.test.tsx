@@ -0,0 +1,83 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * The calibration multiplier compounds if applied twice. Whether it has been applied is
+ * kept on the scenario (`appliedCalibration`), not in the panel, so a remount — a scenario
+ * switch, a reload — must not offer it again.
+ */
+
+import { describe, it, expect } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { DEFAULT_SCENARIO_SETTINGS, type Activity, type Scenario } from "@domain/models/types";
+import { applyCalibration } from "@app/api/calibration-service";
+import { CalibrationPanel } from "./CalibrationPanel";
+
+function makeActivity(id: string, overrides: Partial<Activity> = {}): Activity {
+  return {
+    id,
+    name: id,
+    min: 8,
+    mostLikely: 10,
+    max: 14,
+    confidenceLevel: "mediumConfidence",
+    distributionType: "triangular",
+    status: "planned",
+    ...overrides,
+  };
+}
+
+const done = (id: string) => makeActivity(id, { status: "complete", actualDuration: 13 });
+
+function renderPanel(scenario: Scenario, onApply: (next: Scenario) => void) {
+  return render(
+    <CalibrationPanel
+      activities={scenario.activities}
+      appliedCalibration={scenario.appliedCalibration}
+      formatActivityName={(a) => a.name}
+      onApply={(adjustment) => onApply(applyCalibration(scenario, adjustment))}
+    />
+  );
+}
+
+const multiplierOffer = () => screen.queryByText(/Work ran ×1\.26/);
+
+describe("CalibrationPanel", () => {
+  it("does not offer an applied multiplier again after a remount", () => {
+    let scenario: Scenario = {
+      id: "s1",
+      name: "Baseline",
+      startDate: "2026-03-02",
+      activities: [done("a"), done("b"), done("c"), makeActivity("next")],
+      dependencies: [],
+      milestones: [],
+      settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+    };
+    const first = renderPanel(scenario, (next) => (scenario = next));
+    expect(multiplierOffer()).not.toBeNull();
+    fireEvent.click(multiplierOffer()!.parentElement!.querySelector("button")!);
+    expect(scenario.activities[3]!.mostLikely).toBeCloseTo(12.6, 6);
+    first.unmount();
+
+    renderPanel(scenario, (next) => (scenario = next));
+    expect(screen.getByTestId("calibration-summary")).toBeDefined();
+    expect(multiplierOffer()).toBeNull();
+    expect(scenario.activities[3]!.mostLikely).toBeCloseTo(12.6, 6);
+  });
+
+  it("offers the multiplier again once a new actual changes the recommendation", () => {
+    const scenario: Scenario = {
+      id: "s1",
+      name: "Baseline",
+      startDate: "2026-03-02",
+      activities: [done("a"), done("b"), done("c"), done("d"), makeActivity("next")],
+      dependencies: [],
+      milestones: [],
+      settings: { ...DEFAULT_SCENARIO_SETTINGS, rngSeed: "seed" },
+      appliedCalibration: { multiplier: 1.26, actualCount: 3 },
+    };
+    renderPanel(scenario, () => {});
+    expect(multiplierOffer()).not.toBeNull();
+  });
+});
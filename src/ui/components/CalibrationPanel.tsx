@@ -0,0 +1,204 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useMemo, useState } from "react";
+import type { Activity, AppliedCalibration } from "@domain/models/types";
+import { RSM_LABELS, RSM_VALUES } from "@domain/models/types";
+import {
+  CALIBRATION_MIN_ACTUALS,
+  computeCalibration,
+  isMultiplierApplied,
+  isMultiplierRecommended,
+  type ActivityCalibration,
+  type CalibrationAdjustment,
+  type EstimateBias,
+  type RangePosition,
+} from "@core/estimation/calibration";
+
+const COLLAPSED_ROWS = 5;
+
+interface CalibrationPanelProps {
+  activities: Activity[];
+  /** The multiplier already applied to the scenario, if any: it is not offered again. */
+  appliedCalibration?: AppliedCalibration;
+  formatActivityName: (activity: Activity) => string;
+  onApply: (adjustment: CalibrationAdjustment) => void;
+  isLocked?: boolean;
+}
+
+const BIAS_TEXT: Record<EstimateBias, string> = {
+  optimistic: "the estimates run optimistic",
+  calibrated: "the estimates look calibrated",
+  pessimistic: "the estimates run pessimistic",
+};
+
+const BIAS_CLASSES: Record<EstimateBias, string> = {
+  optimistic: "text-red-700 dark:text-red-400",
+  calibrated: "text-green-700 dark:text-green-400",
+  pessimistic: "text-amber-600 dark:text-amber-400",
+};
+
+const POSITION_TEXT: Record<RangePosition, string> = {
+  below: "Under min",
+  within: "In range",
+  above: "Past max",
+};
+
+const BUTTON_CLASS =
+  "text-xs px-2 py-0.5 rounded border border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Estimate calibration (calibration.ts): where completed activities' actuals landed in
+ * their estimates, whether that shows a bias, and the multiplier or confidence level the
+ * actuals support — applied to the remaining planned activities.
+ */
+export function CalibrationPanel({
+  activities,
+  appliedCalibration,
+  formatActivityName,
+  onApply,
+  isLocked,
+}: CalibrationPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const report = useMemo(() => computeCalibration(activities), [activities]);
+  const byId = useMemo(() => new Map(activities.map((a) => [a.id, a])), [activities]);
+
+  if (report.activities.length === 0) return null;
+  const planned = activities.filter((a) => a.status === "planned");
+  const { multiplier, confidenceLevel, bias } = report;
+  // Applying a multiplier twice would compound it; setting a confidence level twice is a no-op.
+  const offerMultiplier = isMultiplierRecommended(multiplier) && !isMultiplierApplied(report, appliedCalibration);
+  const offerConfidence = confidenceLevel !== null && planned.some((a) => a.confidenceLevel !== confidenceLevel);
+  const shown = expanded ? report.activities : report.activities.slice(0, COLLAPSED_ROWS);
+
+  return (
+    <div
+      className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+      data-testid="calibration-panel"
+    >
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Estimate Calibration</h3>
+      <p className="text-sm text-gray-700 dark:text-gray-300 tabular-nums" data-testid="calibration-summary">
+        {report.activities.length} completed {report.activities.length === 1 ? "activity" : "activities"}: actuals
+        land at P{Math.round(report.meanPercentile * 100)} of their estimates on average
+        {bias ? (
+          <>
+            {" — "}
+            <span className={`font-medium ${BIAS_CLASSES[bias]}`}>{BIAS_TEXT[bias]}</span>.
+          </>
+        ) : (
+          "."
+        )}{" "}
+        {report.aboveRangeCount} ran past their maximum, {report.belowRangeCount} finished under their minimum.
+      </p>
+      {!bias && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Recommendations start at {CALIBRATION_MIN_ACTUALS} actuals.
+        </p>
+      )}
+
+      {(offerMultiplier || offerConfidence) && (
+        <div className="space-y-1.5" data-testid="calibration-recommendations">
+          {offerMultiplier && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span>
+                Work ran ×{multiplier.toFixed(2)} its estimated mean: scale the {planned.length} remaining planned
+                estimates by it.
+              </span>
+              <button
+                type="button"
+                onClick={() => onApply({ kind: "multiplier", multiplier })}
+                disabled={isLocked || planned.length === 0}
+                className={BUTTON_CLASS}
+              >
+                Apply
+              </button>
+            </div>
+          )}
+          {offerConfidence && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span>
+                The actuals&apos; spread fits {RSM_LABELS[confidenceLevel]} confidence (RSM{" "}
+                {RSM_VALUES[confidenceLevel].toFixed(2)}): set it on the remaining planned activities. Normal,
+                log-normal and Weibull estimates take their spread from it.
+              </span>
+              <button
+                type="button"
+                onClick={() => onApply({ kind: "confidenceLevel", confidenceLevel })}
+                disabled={isLocked}
+                className={BUTTON_CLASS}
+              >
+                Apply
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-1 pr-2 font-medium">Activity</th>
+            <th className="py-1 px-2 font-medium text-right">Estimate</th>
+            <th className="py-1 px-2 font-medium text-right">Actual</th>
+            <th className="py-1 px-2 font-medium text-right">Landed at</th>
+            <th className="py-1 pl-2 font-medium">Range</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((row) => (
+            <CalibrationRow
+              key={row.activityId}
+              row={row}
+              activity={byId.get(row.activityId)!}
+              formatActivityName={formatActivityName}
+            />
+          ))}
+        </tbody>
+      </table>
+
+      {report.activities.length > COLLAPSED_ROWS && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          {expanded ? "Show less" : `Show all ${report.activities.length} activities`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function positionClass(position: RangePosition): string {
+  if (position === "above") return "text-red-600 dark:text-red-400";
+  if (position === "below") return "text-amber-600 dark:text-amber-400";
+  return "text-gray-600 dark:text-gray-300";
+}
+
+function CalibrationRow({
+  row,
+  activity,
+  formatActivityName,
+}: {
+  row: ActivityCalibration;
+  activity: Activity;
+  formatActivityName: (activity: Activity) => string;
+}) {
+  const fmt = (n: number) => String(Math.round(n * 10) / 10);
+  return (
+    <tr className="border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+      <td className="py-1.5 pr-2 text-gray-900 dark:text-gray-100">{formatActivityName(activity)}</td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        {fmt(activity.min)} / {fmt(activity.mostLikely)} / {fmt(activity.max)}
+      </td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        {fmt(row.actualDuration)}
+      </td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        P{Math.round(row.percentile * 100)}
+      </td>
+      <td className={`py-1.5 pl-2 ${positionClass(row.position)}`}>{POSITION_TEXT[row.position]}</td>
+    </tr>
+  );
+}
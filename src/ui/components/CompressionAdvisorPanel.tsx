@@ -0,0 +1,178 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useState } from "react";
+import type { CompressionRunParams } from "@core/simulation/worker-client";
+import { GOAL_SEEK_TRIALS } from "@core/simulation/goal-seek";
+import {
+  COMPRESSION_ADVISOR_CONFIDENCE,
+  type CompressionAdvice,
+  type CompressionProposal,
+} from "@core/simulation/compression-advisor";
+import { runCompressionAdvice } from "@app/api/simulation-service";
+import { useWorkerTask } from "@ui/hooks/use-worker-task";
+
+interface CompressionAdvisorPanelProps {
+  /** The trials to re-run, as goal-seek builds them; null when they cannot be built. */
+  buildInput: () => CompressionRunParams | null;
+  /** The deterministic critical path (computeCriticalPathActivities). */
+  criticalIds: ReadonlySet<string>;
+  /** Whether the Finish Target is red — the advisor then opens with a prompt. */
+  targetRed: boolean;
+  activityNameById: (id: string) => string;
+  /** Apply a proposal as a new scenario; `label` names the change. */
+  onApply: (proposal: CompressionProposal, label: string) => void;
+}
+
+/** A short name for the change — the clone is named after it. */
+function proposalLabel(proposal: CompressionProposal, nameOf: (id: string) => string): string {
+  return proposal.kind === "crash"
+    ? `Crash ${nameOf(proposal.activityId)} −${proposal.days}d`
+    : `Fast-track ${nameOf(proposal.fromActivityId)} → ${nameOf(proposal.toActivityId)}`;
+}
+
+function proposalDetail(proposal: CompressionProposal, nameOf: (id: string) => string): string {
+  if (proposal.kind === "fastTrack") {
+    return `Start ${nameOf(proposal.toActivityId)} when ${nameOf(proposal.fromActivityId)} is ${proposal.lagPercent}% done`;
+  }
+  return `Shorten ${nameOf(proposal.activityId)} by ${proposal.days} working ${proposal.days === 1 ? "day" : "days"}`;
+}
+
+/**
+ * Schedule compression advisor (compression-advisor.ts): fast-tracking and crashing
+ * candidates on the critical path, each re-run in the simulation worker and ranked by the
+ * P80 it buys, with any one applied as a new scenario. Dependency mode only.
+ */
+export function CompressionAdvisorPanel({
+  buildInput,
+  criticalIds,
+  targetRed,
+  activityNameById,
+  onApply,
+}: CompressionAdvisorPanelProps) {
+  // Advice answers one network: it is shown only for the trials and path it was made for.
+  const [advised, setAdvised] = useState<{
+    advice: CompressionAdvice;
+    buildInput: CompressionAdvisorPanelProps["buildInput"];
+    criticalIds: ReadonlySet<string>;
+  } | null>(null);
+  const advising = useWorkerTask<CompressionAdvice>();
+  const advice =
+    advised?.buildInput === buildInput && advised.criticalIds === criticalIds ? advised.advice : null;
+
+  const handleAdvise = () => {
+    const params = buildInput();
+    if (!params) return;
+    advising.run(
+      (callbacks) => runCompressionAdvice(params, criticalIds, callbacks),
+      (result) => setAdvised({ advice: result, buildInput, criticalIds }),
+    );
+  };
+
+  return (
+    <div
+      className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+      data-testid="compression-advisor-panel"
+    >
+      <div className="flex items-center gap-3 flex-wrap">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Compression Advisor</h3>
+        <div className="ml-auto flex items-center gap-2">
+          {advising.isRunning && (
+            <>
+              {advising.progress && (
+                <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                  {Math.round((advising.progress.completed / advising.progress.total) * 100)}%
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={advising.cancel}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:underline"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={handleAdvise}
+            disabled={advising.isRunning}
+            className="text-sm px-3 py-1 rounded border border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+          >
+            {advising.isRunning ? "Ranking…" : "Rank fast-track and crash options"}
+          </button>
+        </div>
+      </div>
+      {advising.error && (
+        <p className="text-xs text-red-700 dark:text-red-400">Ranking failed: {advising.error}</p>
+      )}
+      {!advice && (
+        <p className={`text-xs ${targetRed ? "text-red-700 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`}>
+          {targetRed && "The Finish Target is red. "}
+          Try overlapping critical activities or shortening them, one change at a time, and see what each
+          does to the P{COMPRESSION_ADVISOR_CONFIDENCE} finish.
+        </p>
+      )}
+      {advice && (
+        <AdviceTable advice={advice} activityNameById={activityNameById} onApply={onApply} />
+      )}
+    </div>
+  );
+}
+
+function AdviceTable({
+  advice,
+  activityNameById,
+  onApply,
+}: {
+  advice: CompressionAdvice;
+  activityNameById: (id: string) => string;
+  onApply: (proposal: CompressionProposal, label: string) => void;
+}) {
+  const p = COMPRESSION_ADVISOR_CONFIDENCE;
+  return (
+    <div className="space-y-1" data-testid="compression-advice">
+      {advice.ranked.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+              <th className="pr-4 font-normal">Change</th>
+              <th className="pr-4 font-normal text-right">P{p} (days)</th>
+              <th className="pr-4 font-normal text-right">Gain (days)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="tabular-nums text-gray-700 dark:text-gray-300">
+            {advice.ranked.map(({ proposal, p80Days, improvementDays }) => {
+              const label = proposalLabel(proposal, activityNameById);
+              return (
+                <tr key={label}>
+                  <td className="pr-4 py-0.5">{proposalDetail(proposal, activityNameById)}</td>
+                  <td className="pr-4 text-right">{p80Days.toFixed(1)}</td>
+                  <td className="pr-4 text-right text-green-700 dark:text-green-400">{improvementDays.toFixed(1)}</td>
+                  <td className="text-right">
+                    <button
+                      type="button"
+                      onClick={() => onApply(proposal, label)}
+                      className="text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                    >
+                      Apply as scenario
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        P{p} {advice.baselineDays.toFixed(1)} days as planned; {advice.triedCount}{" "}
+        {advice.triedCount === 1 ? "option" : "options"} re-run at {GOAL_SEEK_TRIALS.toLocaleString()} trials
+        {advice.ranked.length === 0 ? ", none of which brings it in." : `, ${advice.ranked.length} bring it in.`}
+        {advice.ranked.some((r) => r.proposal.kind === "fastTrack") &&
+          " Fast-tracking adds rework risk the estimates do not model."}
+      </p>
+    </div>
+  );
+}
@@ -34,8 +34,8 @@ Wait for my answers. Do not build until I confirm.
 CONCEPTS
 - Activities: name + three-point estimate (min <= mostLikely <= max, working
   days). A distribution is auto-recommended at create time; you may override
-  distributionType (normal | logNormal | triangular | uniform) or
-  confidenceLevel, but usually let the app choose.
+  distributionType (normal | logNormal | triangular | uniform | pertBeta |
+  weibull) or confidenceLevel, but usually let the app choose.
 - Scenarios: a project has one or more scenarios; ops apply to the OPEN
   scenario unless you pass a scenarioId. get_session_info / get_project tell
   you which scenario is open.
@@ -0,0 +1,284 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import {
+  CORRELATION_COEFFICIENT_MAX,
+  CORRELATION_GROUPS_MAX,
+  type Activity,
+  type CorrelationGroup,
+} from "@domain/models/types";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+
+const DEFAULT_COEFFICIENT = 0.5;
+
+/** The coefficients offered, with the words planners use for them. */
+const COEFFICIENT_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.2, label: "0.2 — weak" },
+  { value: 0.35, label: "0.35" },
+  { value: 0.5, label: "0.5 — moderate" },
+  { value: 0.65, label: "0.65" },
+  { value: 0.8, label: "0.8 — strong" },
+  { value: CORRELATION_COEFFICIENT_MAX, label: `${CORRELATION_COEFFICIENT_MAX} — near lockstep` },
+];
+
+interface CorrelationPanelProps {
+  groups: CorrelationGroup[];
+  activities: Activity[];
+  onAdd: (name: string, coefficient: number) => void;
+  onUpdate: (groupId: string, updates: Partial<Pick<CorrelationGroup, "name" | "coefficient">>) => void;
+  onRemove: (groupId: string) => void;
+  onSetActivityGroup: (activityId: string, groupId: string | null) => void;
+  isLocked?: boolean;
+  formatActivityName?: (a: Activity) => string;
+}
+
+interface GroupNameInputProps {
+  groupId: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (groupId: string, name: string) => void;
+}
+
+// Non-exported — buffered name input for a group row (see BaselineNameInput).
+function GroupNameInput({ groupId, name, disabled, onCommit }: GroupNameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(groupId, next.trim());
+    },
+    [groupId, onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={`correlation-group-name-${groupId}`}
+      type="text"
+      name="correlationGroupName"
+      autoComplete="off"
+      aria-label="Correlation group name"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder="Group name"
+    />
+  );
+}
+
+/** A coefficient not in the list (an imported project) still shows as itself. */
+function coefficientOptions(current: number): { value: number; label: string }[] {
+  return COEFFICIENT_OPTIONS.some((o) => o.value === current)
+    ? COEFFICIENT_OPTIONS
+    : [...COEFFICIENT_OPTIONS, { value: current, label: String(current) }].sort((a, b) => a.value - b.value);
+}
+
+interface GroupCardProps {
+  group: CorrelationGroup;
+  activities: Activity[];
+  onUpdate: CorrelationPanelProps["onUpdate"];
+  onRemove: CorrelationPanelProps["onRemove"];
+  onSetActivityGroup: CorrelationPanelProps["onSetActivityGroup"];
+  isLocked: boolean;
+  label: (a: Activity) => string;
+}
+
+function GroupCard({ group, activities, onUpdate, onRemove, onSetActivityGroup, isLocked, label }: GroupCardProps) {
+  const handleRename = useCallback(
+    (groupId: string, name: string) => onUpdate(groupId, { name }),
+    [onUpdate],
+  );
+  const members = activities.filter((a) => group.activityIds.includes(a.id));
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <GroupNameInput groupId={group.id} name={group.name} disabled={isLocked} onCommit={handleRename} />
+        <select
+          id={`correlation-coefficient-${group.id}`}
+          name="correlationCoefficient"
+          aria-label={`Rank correlation within ${group.name}`}
+          value={group.coefficient}
+          onChange={(e) => onUpdate(group.id, { coefficient: Number(e.target.value) })}
+          disabled={isLocked}
+          className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+        >
+          {coefficientOptions(group.coefficient).map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+        {!isLocked && (
+          <button
+            onClick={() => onRemove(group.id)}
+            className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1"
+            title="Remove group"
+            aria-label="Remove correlation group"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {!isLocked && (
+        <select
+          id={`correlation-assign-${group.id}`}
+          name="correlationAssignActivity"
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onSetActivityGroup(e.target.value, group.id);
+          }}
+          className="w-full px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+        >
+          <option value="">Add activity...</option>
+          {activities
+            .filter((a) => !group.activityIds.includes(a.id))
+            .map((a) => (
+              <option key={a.id} value={a.id}>{label(a)}</option>
+            ))}
+        </select>
+      )}
+      {members.map((a) => (
+        <div key={a.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+          <span className="truncate">{label(a)}</span>
+          {!isLocked && (
+            <button
+              onClick={() => onSetActivityGroup(a.id, null)}
+              className="text-gray-400 hover:text-red-500 dark:hover:text-red-400 p-0.5 ml-auto shrink-0"
+              title="Remove from group"
+              aria-label="Remove activity from group"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+      {members.length < 2 && (
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          Needs two or more activities to have any effect.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Correlation groups of the scenario: activities whose durations tend to run long (or
+ * short) together. The simulation samples each group's members with the chosen rank
+ * correlation, which widens the finish distribution where independent sampling would
+ * let overruns cancel out. An activity sits in at most one group.
+ */
+export function CorrelationPanel({
+  groups,
+  activities,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSetActivityGroup,
+  isLocked,
+  formatActivityName,
+}: CorrelationPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [collapsed, setCollapsed] = useState(false);
+  const full = groups.length >= CORRELATION_GROUPS_MAX;
+  const label = formatActivityName ?? ((a: Activity) => a.name);
+
+  const handleAdd = () => {
+    if (!newName.trim() || full) return;
+    onAdd(newName.trim(), DEFAULT_COEFFICIENT);
+    setNewName("");
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Correlated Durations
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {groups.length} of {CORRELATION_GROUPS_MAX}
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Group activities that share a team, vendor or unknown. The simulation makes their
+          durations move together with the chosen rank correlation; everything else stays
+          independent.
+        </p>
+
+        {groups.map((g) => (
+          <GroupCard
+            key={g.id}
+            group={g}
+            activities={activities}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+            onSetActivityGroup={onSetActivityGroup}
+            isLocked={!!isLocked}
+            label={label}
+          />
+        ))}
+
+        {/* Add form */}
+        {!isLocked && (
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <input
+              type="text"
+              name="newCorrelationGroupName"
+              aria-label="New correlation group name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Vendor integration"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newName.trim() || full}
+              title={full ? `A scenario keeps at most ${CORRELATION_GROUPS_MAX} groups` : undefined}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+            >
+              Add group
+            </button>
+          </div>
+        )}
+      </div>)}
+    </section>
+  );
+}
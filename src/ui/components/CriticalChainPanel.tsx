@@ -0,0 +1,258 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useMemo, useRef } from "react";
+import type { CriticalChainPlan, FeedingBuffer, FeverPoint, ScheduledActivity } from "@domain/models/types";
+import { feverZone, type CriticalChainProposal, type FeverZone } from "@core/schedule/critical-chain";
+import { FeverChart } from "@ui/charts/FeverChart";
+import { CopyImageButton } from "@ui/components/CopyImageButton";
+import { ToggleSwitch } from "@ui/components/ToggleSwitch";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+
+interface CriticalChainPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  /** What the current schedule and run support; null before a run or without a buffer. */
+  proposal: CriticalChainProposal | null;
+  plan?: CriticalChainPlan;
+  onPlanChange: (plan: CriticalChainPlan | undefined) => void;
+  /** The plan's fever point at the current status date; null without a plan or status date. */
+  feverPoint?: FeverPoint | null;
+  onRecordFeverPoint: (point: FeverPoint) => void;
+  /** The current schedule: feeding buffers are checked against its float. */
+  scheduledActivities: ScheduledActivity[];
+  nameOf: (activityId: string) => string;
+  isLocked?: boolean;
+}
+
+const ZONE_CLASSES: Record<FeverZone, string> = {
+  green: "text-green-600 dark:text-green-400",
+  amber: "text-amber-600 dark:text-amber-400",
+  red: "text-red-600 dark:text-red-400",
+};
+
+const BUTTON_CLASS =
+  "px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Critical Chain mode (critical-chain.ts): the chain at aggressive durations, the project
+ * and feeding buffers the run sizes — advisory, the schedule's dates do not include them —
+ * and, once a plan is set, the fever chart of buffer used against chain done, a point per
+ * status date the user records. Dependency mode only.
+ */
+export function CriticalChainPanel({
+  enabled,
+  onEnabledChange,
+  proposal,
+  plan,
+  onPlanChange,
+  feverPoint,
+  onRecordFeverPoint,
+  scheduledActivities,
+  nameOf,
+  isLocked,
+}: CriticalChainPanelProps) {
+  const shown = plan ?? proposal;
+
+  const handleSetPlan = () => {
+    if (!proposal) return;
+    onPlanChange({ ...proposal, capturedAt: new Date().toISOString(), fever: [] });
+  };
+
+  return (
+    <div
+      className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+      data-testid="critical-chain-panel"
+    >
+      <div className="flex items-center gap-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Critical Chain</h3>
+        <div className="ml-auto">
+          <ToggleSwitch
+            ariaLabel="Critical Chain mode"
+            checked={enabled}
+            onChange={onEnabledChange}
+            disabled={isLocked}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {enabled
+          ? "Activities are scheduled at their aggressive P50 estimates, with the safety pooled into a project buffer after the chain and feeding buffers where other paths join it."
+          : "Schedule at aggressive estimates and protect the finish with project and feeding buffers sized from the simulation."}
+      </p>
+
+      {enabled && !shown && (
+        <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="critical-chain-pending">
+          Run the simulation to size the buffers.
+        </p>
+      )}
+
+      {enabled && shown && (
+        <>
+          <p className="text-sm text-gray-700 dark:text-gray-300 tabular-nums" data-testid="critical-chain-summary">
+            {plan ? "Plan" : "Proposed"}: {shown.chain.length} chain{" "}
+            {shown.chain.length === 1 ? "activity" : "activities"}, {shown.chainDays} days + project buffer{" "}
+            {shown.projectBufferDays} days = {shown.chainDays + shown.projectBufferDays} working days.
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400" data-testid="critical-chain-advisory">
+            The buffers are advisory: the schedule&apos;s dates do not include them. Hold the project buffer
+            between the chain&apos;s finish and the commitment, and start each feeding path early enough for its
+            buffer to fit in its float.
+          </p>
+          <FeedingBufferTable
+            buffers={shown.feedingBuffers}
+            scheduledActivities={scheduledActivities}
+            nameOf={nameOf}
+          />
+          <div className="flex items-center gap-2">
+            {proposal && (
+              <button type="button" onClick={handleSetPlan} disabled={isLocked} className={BUTTON_CLASS}>
+                {plan ? "Re-plan" : "Set as plan"}
+              </button>
+            )}
+            {plan && (
+              <button
+                type="button"
+                onClick={() => onPlanChange(undefined)}
+                disabled={isLocked}
+                className={BUTTON_CLASS}
+              >
+                Clear plan
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {plan && <PlanProgress plan={plan} current={feverPoint ?? null} onRecord={onRecordFeverPoint} />}
+    </div>
+  );
+}
+
+function FeedingBufferTable({
+  buffers,
+  scheduledActivities,
+  nameOf,
+}: {
+  buffers: FeedingBuffer[];
+  scheduledActivities: ScheduledActivity[];
+  nameOf: (activityId: string) => string;
+}) {
+  const floatById = useMemo(
+    () => new Map(scheduledActivities.map((sa) => [sa.activityId, sa.totalFloat])),
+    [scheduledActivities],
+  );
+  if (buffers.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No other paths join the chain.</p>;
+  }
+
+  return (
+    <table className="w-full text-xs" data-testid="feeding-buffer-table">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <th className="py-1 pr-2 font-medium">Feeding path</th>
+          <th className="py-1 px-2 font-medium">Joins</th>
+          <th className="py-1 px-2 font-medium text-right">Buffer</th>
+          <th className="py-1 pl-2 font-medium text-right">Float</th>
+        </tr>
+      </thead>
+      <tbody>
+        {buffers.map((b) => {
+          const float = floatById.get(b.fromActivityId);
+          const short = float !== undefined && float < b.bufferDays;
+          return (
+            <tr
+              key={`${b.fromActivityId}-${b.toActivityId}`}
+              className="border-b border-gray-100 dark:border-gray-700 last:border-b-0"
+            >
+              <td className="py-1.5 pr-2 text-gray-900 dark:text-gray-100">{nameOf(b.fromActivityId)}</td>
+              <td className="py-1.5 px-2 text-gray-600 dark:text-gray-300">{nameOf(b.toActivityId)}</td>
+              <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+                {b.bufferDays}d
+              </td>
+              <td
+                className={`py-1.5 pl-2 text-right tabular-nums ${short ? ZONE_CLASSES.red : "text-gray-600 dark:text-gray-300"}`}
+                title={short ? "Less float than the buffer: start this path earlier or it will push the chain" : undefined}
+              >
+                {float === undefined ? "—" : `${float}d`}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Whether the point says something the chart does not: a later status date, or a new
+ * reading at the latest one. An earlier status date is not recorded.
+ */
+function isNewFeverPoint(point: FeverPoint, latest: FeverPoint | undefined): boolean {
+  if (!latest || point.statusDate > latest.statusDate) return true;
+  return (
+    point.statusDate === latest.statusDate &&
+    (point.chainCompleted !== latest.chainCompleted || point.bufferConsumed !== latest.bufferConsumed)
+  );
+}
+
+function FeverReading({ point }: { point: FeverPoint }) {
+  const formatDate = useDateFormat();
+  const zone = feverZone(point);
+  return (
+    <>
+      Status {formatDate(point.statusDate)}: {Math.round(point.chainCompleted * 100)}% of the chain done,{" "}
+      {Math.round(point.bufferConsumed * 100)}% of the buffer used —{" "}
+      <span className={`font-medium ${ZONE_CLASSES[zone]}`}>{zone}</span>
+    </>
+  );
+}
+
+function PlanProgress({
+  plan,
+  current,
+  onRecord,
+}: {
+  plan: CriticalChainPlan;
+  current: FeverPoint | null;
+  onRecord: (point: FeverPoint) => void;
+}) {
+  const formatDate = useDateFormat();
+  const captureRef = useRef<HTMLDivElement>(null);
+  const latest = plan.fever.at(-1);
+  const pending = current && isNewFeverPoint(current, latest) ? current : null;
+
+  return (
+    <div className="space-y-2">
+      {!latest && !pending && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Plan set {formatDate(plan.capturedAt.slice(0, 10))}. Set a status date to start the fever chart.
+        </p>
+      )}
+      {pending && (
+        <div className="flex items-center gap-3">
+          <p className="text-xs text-gray-600 dark:text-gray-300 tabular-nums" data-testid="fever-pending">
+            <FeverReading point={pending} />
+          </p>
+          <button type="button" onClick={() => onRecord(pending)} className={`ml-auto ${BUTTON_CLASS}`}>
+            Record on the fever chart
+          </button>
+        </div>
+      )}
+      {latest && (
+        <>
+          <div className="flex items-center gap-3">
+            <p className="text-xs text-gray-600 dark:text-gray-300 tabular-nums" data-testid="fever-latest">
+              Recorded — <FeverReading point={latest} />
+            </p>
+            <div className="ml-auto">
+              <CopyImageButton targetRef={captureRef} title="Copy chart as image" />
+            </div>
+          </div>
+          <FeverChart fever={plan.fever} captureRef={captureRef} />
+        </>
+      )}
+    </div>
+  );
+}
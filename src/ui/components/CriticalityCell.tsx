@@ -0,0 +1,49 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+/**
+ * At or above this share of trials, an activity the deterministic schedule gives float to
+ * is flagged: it is "usually critical" even though today's critical path does not show it.
+ */
+const CRITICALITY_WATCH_THRESHOLD = 0.5;
+
+interface CriticalityCellProps {
+  /** Share of trials (0–1) the activity was critical in; absent before a dependency-mode run. */
+  index?: number;
+  /** The scheduled activity's total float, when the schedule computed one. */
+  totalFloat?: number;
+}
+
+function criticalityClass(index: number, flagged: boolean): string {
+  if (flagged) return "text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 font-semibold";
+  if (index >= CRITICALITY_WATCH_THRESHOLD) return "text-red-600 dark:text-red-400 font-semibold";
+  if (index > 0) return "text-gray-600 dark:text-gray-300";
+  return "text-gray-400 dark:text-gray-500";
+}
+
+/**
+ * The grid's criticality column: percent of Monte Carlo trials the activity sat on the
+ * critical path. Highlighted when the activity is usually critical but has float in the
+ * deterministic schedule — the case the index exists to catch.
+ */
+export function CriticalityCell({ index, totalFloat }: CriticalityCellProps) {
+  if (index === undefined) {
+    return <span className="text-gray-300 dark:text-gray-600 text-xs px-1">&mdash;</span>;
+  }
+  const flagged = index >= CRITICALITY_WATCH_THRESHOLD && totalFloat !== undefined && totalFloat > 0;
+  const pct = Math.round(index * 100);
+  const title = flagged
+    ? `Critical in ${pct}% of trials, though the schedule gives it ${totalFloat} days of float`
+    : `Critical in ${pct}% of trials`;
+  return (
+    <span
+      className={`block text-right text-xs tabular-nums rounded px-1 ${criticalityClass(index, flagged)}`}
+      title={title}
+      aria-label={title}
+      data-criticality-flagged={flagged || undefined}
+    >
+      {pct}%
+    </span>
+  );
+}
@@ -4,17 +4,34 @@
 
 import { useId, useState, useCallback, useMemo } from "react";
 import * as Dialog from "@radix-ui/react-dialog";
-import type { Activity, ActivityDependency, DependencyType } from "@domain/models/types";
-import { DEPENDENCY_TYPES } from "@domain/models/types";
+import type { Activity, ActivityDependency, DependencyType, LagUnit } from "@domain/models/types";
+import { DEPENDENCY_TYPES, LAG_PERCENT_MAX, LAG_PERCENT_MIN, LAG_UNITS } from "@domain/models/types";
 import { dependencyLabel } from "@domain/helpers/format-labels";
 import { detectCycle } from "@core/schedule/dependency-graph";
 
+/** What the lag value counts: a day unit, or a percentage of the predecessor's duration. */
+type LagMode = LagUnit | "percent";
+
+const LAG_MODE_LABELS: Record<LagMode, string> = {
+  working: "Working days",
+  elapsed: "Calendar days (incl. weekends & holidays)",
+  percent: "% of predecessor duration",
+};
+
 interface DependencyEditModalProps {
   fromActivityId?: string;
   toActivityId?: string;
   activities: Activity[];
   dependencies: ActivityDependency[];
-  onSave: (fromId: string, toId: string, type: DependencyType, lagDays: number) => void;
+  /** `lagPercent` is set only for a percentage lag, in which case `lagDays` is 0. */
+  onSave: (
+    fromId: string,
+    toId: string,
+    type: DependencyType,
+    lagDays: number,
+    lagUnit: LagUnit,
+    lagPercent?: number
+  ) => void;
   onDelete?: (fromId: string, toId: string) => void;
   onClose: () => void;
   formatActivityName?: (a: Activity) => string;
@@ -47,13 +64,19 @@ export function DependencyEditModal({
   const [fromId, setFromId] = useState<string>(fromActivityId ?? "");
   const [toId, setToId] = useState<string>(toActivityId ?? "");
   const [type, setType] = useState<DependencyType>(existingDep?.type ?? "FS");
-  const [lagInput, setLagInput] = useState<string>(String(existingDep?.lagDays ?? 0));
+  const [lagInput, setLagInput] = useState<string>(
+    String(existingDep?.lagPercent ?? existingDep?.lagDays ?? 0)
+  );
+  const [lagMode, setLagMode] = useState<LagMode>(
+    existingDep?.lagPercent !== undefined ? "percent" : (existingDep?.lagUnit ?? "working")
+  );
   const [validationError, setValidationError] = useState<string | null>(null);
   const baseId = useId();
   const fromIdField = `${baseId}-from`;
   const toIdField = `${baseId}-to`;
   const typeIdField = `${baseId}-type`;
   const lagIdField = `${baseId}-lag`;
+  const lagUnitIdField = `${baseId}-lag-unit`;
 
   // Validation
   const validate = useCallback(
@@ -94,11 +117,16 @@ export function DependencyEditModal({
       setValidationError(error);
       return;
     }
-    const parsed = parseInt(lagInput, 10);
-    const lagDays = Number.isNaN(parsed) ? 0 : Math.max(-365, Math.min(365, parsed));
-    onSave(fromId, toId, type, lagDays);
+    const parsed = Number.parseInt(lagInput, 10);
+    const lagValue = Number.isNaN(parsed) ? 0 : parsed;
+    if (lagMode === "percent") {
+      const lagPercent = Math.max(LAG_PERCENT_MIN, Math.min(LAG_PERCENT_MAX, lagValue));
+      onSave(fromId, toId, type, 0, "working", lagPercent);
+    } else {
+      onSave(fromId, toId, type, Math.max(-365, Math.min(365, lagValue)), lagMode);
+    }
     onClose();
-  }, [fromId, toId, type, lagInput, validate, onSave, onClose]);
+  }, [fromId, toId, type, lagInput, lagMode, validate, onSave, onClose]);
 
   const handleDelete = useCallback(() => {
     if (onDelete && fromActivityId && toActivityId) {
@@ -210,7 +238,7 @@ export function DependencyEditModal({
               </div>
               <div className="w-24 shrink-0">
                 <label htmlFor={lagIdField} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                  Lag Days
+                  {lagMode === "percent" ? "Lag %" : "Lag Days"}
                 </label>
                 <input
                   id={lagIdField}
@@ -231,9 +259,31 @@ export function DependencyEditModal({
               </div>
             </div>
             <p className="text-xs text-gray-400 dark:text-gray-500 -mt-2">
-              Positive values add delay; negative values represent lead time.
+              {lagMode === "percent"
+                ? "A share of the predecessor's duration, e.g. SS +60% starts when it is 60% done."
+                : "Positive values add delay; negative values represent lead time."}
             </p>
 
+            {/* Lag unit — calendar days run through weekends and holidays (e.g. concrete cure) */}
+            <div>
+              <label htmlFor={lagUnitIdField} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Lag Counts
+              </label>
+              <select
+                id={lagUnitIdField}
+                name="dependencyLagUnit"
+                value={lagMode}
+                onChange={(e) => setLagMode(e.target.value as LagMode)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-md text-sm focus:border-blue-500 focus:outline-none"
+              >
+                {[...LAG_UNITS, "percent" as const].map((mode) => (
+                  <option key={mode} value={mode}>
+                    {LAG_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Validation Error */}
             {validationError && (
               <p className="text-sm text-red-600 dark:text-red-400">{validationError}</p>
@@ -4,8 +4,8 @@
 
 import { useState, useEffect, useMemo, useCallback } from "react";
 import type { Activity, ActivityDependency, DependencyType, DeterministicSchedule } from "@domain/models/types";
-import { DEPENDENCY_TYPES } from "@domain/models/types";
-import { dependencyLabel } from "@domain/helpers/format-labels";
+import { DEPENDENCY_TYPES, LAG_PERCENT_MAX, LAG_PERCENT_MIN } from "@domain/models/types";
+import { dependencyLabel, formatLag } from "@domain/helpers/format-labels";
 import { validateDependencies, detectCycle } from "@core/schedule/dependency-graph";
 
 type DependencySortMode = "alpha" | "schedule";
@@ -15,9 +15,9 @@ function depCountLabel(count: number): string {
   return `${count} ${count === 1 ? "dependency" : "dependencies"}`;
 }
 
-function formatLagSuffix(lagDays: number): string {
-  if (lagDays === 0) return "";
-  return `, ${lagDays > 0 ? "+" : ""}${lagDays}d`;
+function formatLagSuffix(dep: ActivityDependency): string {
+  const lag = formatLag(dep);
+  return lag ? `, ${lag}` : "";
 }
 
 interface DependencyPanelProps {
@@ -32,6 +32,8 @@ interface DependencyPanelProps {
   ) => void;
   onRemoveDependency: (fromActivityId: string, toActivityId: string) => void;
   onUpdateLag: (fromActivityId: string, toActivityId: string, lagDays: number) => void;
+  /** Edits a percentage lag in place; without it such a lag is edited as a day lag. */
+  onUpdateLagPercent?: (fromActivityId: string, toActivityId: string, lagPercent: number) => void;
   onUpdateType: (fromActivityId: string, toActivityId: string, type: DependencyType) => void;
   onEditDependency?: (fromActivityId: string, toActivityId: string) => void;
   isLocked?: boolean;
@@ -42,10 +44,12 @@ function LagInput({
   value,
   onChange,
   className,
+  ariaLabel = "Dependency lag days",
 }: {
   value: number;
   onChange: (v: number) => void;
   className?: string;
+  ariaLabel?: string;
 }) {
   const [input, setInput] = useState(value ? String(value) : "");
 
@@ -63,7 +67,7 @@ function LagInput({
     <input
       type="number"
       name="dependencyLagInline"
-      aria-label="Dependency lag days"
+      aria-label={ariaLabel}
       value={input}
       placeholder="0"
       onChange={(e) => setInput(e.target.value)}
@@ -86,6 +90,7 @@ export function DependencyPanel({
   onAddDependency,
   onRemoveDependency,
   onUpdateLag,
+  onUpdateLagPercent,
   onUpdateType,
   onEditDependency,
   isLocked,
@@ -279,7 +284,7 @@ export function DependencyPanel({
                   {getActivityName(dep.toActivityId)}
                 </span>
                 <span className="text-xs text-gray-400 dark:text-gray-500 shrink-0">
-                  ({dependencyLabel(dep.type)}{formatLagSuffix(dep.lagDays)})
+                  ({dependencyLabel(dep.type)}{formatLagSuffix(dep)})
                 </span>
               </div>
               {/* Editable lag */}
@@ -297,11 +302,27 @@ export function DependencyPanel({
                     ))}
                   </select>
                   <span className="text-xs text-gray-400 dark:text-gray-500">Lag:</span>
-                  <LagInput
-                    value={dep.lagDays}
-                    onChange={(val) => onUpdateLag(dep.fromActivityId, dep.toActivityId, val)}
-                    className="w-14 px-1 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-right tabular-nums focus:border-blue-400 focus:outline-none"
-                  />
+                  {dep.lagPercent !== undefined && onUpdateLagPercent ? (
+                    <>
+                      <LagInput
+                        value={dep.lagPercent}
+                        onChange={(val) => onUpdateLagPercent(
+                          dep.fromActivityId,
+                          dep.toActivityId,
+                          Math.max(LAG_PERCENT_MIN, Math.min(LAG_PERCENT_MAX, val))
+                        )}
+                        ariaLabel="Dependency lag percent"
+                        className="w-14 px-1 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-right tabular-nums focus:border-blue-400 focus:outline-none"
+                      />
+                      <span className="text-xs text-gray-400 dark:text-gray-500">%</span>
+                    </>
+                  ) : (
+                    <LagInput
+                      value={dep.lagDays}
+                      onChange={(val) => onUpdateLag(dep.fromActivityId, dep.toActivityId, val)}
+                      className="w-14 px-1 py-0.5 text-xs border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-right tabular-nums focus:border-blue-400 focus:outline-none"
+                    />
+                  )}
                   <button
                     onClick={() => onRemoveDependency(dep.fromActivityId, dep.toActivityId)}
                     className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-0.5"
@@ -9,6 +9,8 @@ interface DistributionSparklineProps {
   mostLikely: number;
   max: number;
   distributionType: DistributionType;
+  /** Historical durations, drawn as a histogram for the empirical type. */
+  samples?: readonly number[];
   width?: number;
   height?: number;
   className?: string;
@@ -23,6 +25,7 @@ export function DistributionSparkline({
   mostLikely,
   max,
   distributionType,
+  samples,
   width = 60,
   height = 20,
   className = "",
@@ -32,7 +35,10 @@ export function DistributionSparkline({
   const mlNorm = (mostLikely - min) / range;
 
   // Generate path based on distribution type
-  const path = generatePath(distributionType, mlNorm, width, height);
+  const path =
+    distributionType === "empirical" && samples && samples.length > 1
+      ? generateHistogram(samples, width, height)
+      : generatePath(distributionType, mlNorm, width, height);
 
   return (
     <svg
@@ -56,7 +62,7 @@ export function DistributionSparkline({
         strokeLinejoin="round"
       />
       {/* Mode marker (vertical line at most likely) */}
-      {distributionType !== "uniform" && (() => {
+      {distributionType !== "uniform" && distributionType !== "empirical" && (() => {
         const pad = 2;
         const markerX = pad + mlNorm * (width - 2 * pad);
         return (
@@ -95,8 +101,15 @@ function generatePath(
       return generateTriangle(mlNorm, width, height, pad, minY, maxY);
 
     case "uniform":
+    case "empirical": // without history to draw, only the range is known
       return generateUniform(width, height, pad, minY, maxY);
 
+    case "pertBeta":
+      return generateCurve(width, pad, minY, maxY, (t) => pertBetaShape(t, mlNorm));
+
+    case "weibull":
+      return generateCurve(width, pad, minY, maxY, (t) => weibullShape(t, mlNorm));
+
     default:
       return generateBellCurve(mlNorm, width, height, pad, minY, maxY, false);
   }
@@ -182,3 +195,64 @@ function generateUniform(
 
   return { fill: fillPath, stroke: strokePath };
 }
+
+/** PERT-Beta density shape (λ = 4) with its mode at mlNorm, unnormalized. */
+function pertBetaShape(t: number, mlNorm: number): number {
+  return Math.pow(t, 4 * mlNorm) * Math.pow(1 - t, 4 * (1 - mlNorm));
+}
+
+/** Rises from zero at the minimum, peaks at mlNorm and tails off slowly to the right. */
+function weibullShape(t: number, mlNorm: number): number {
+  const mode = Math.max(mlNorm, 0.05);
+  const r = t / mode;
+  return Math.pow(r, 2) * Math.exp(2 * (1 - r));
+}
+
+/** A curve sampled from `shape` over [0, 1], scaled so its peak touches the top. */
+function generateCurve(
+  width: number,
+  pad: number,
+  minY: number,
+  maxY: number,
+  shape: (t: number) => number
+): { fill: string; stroke: string } {
+  const numPoints = 30;
+  const values = Array.from({ length: numPoints + 1 }, (_, i) => shape(i / numPoints));
+  const peak = Math.max(...values) || 1;
+  const points = values.map((v, i) => {
+    const x = pad + (i / numPoints) * (width - 2 * pad);
+    const svgY = maxY - (v / peak) * (maxY - minY);
+    return `${x.toFixed(1)},${svgY.toFixed(1)}`;
+  });
+
+  const strokePath = `M ${points.join(" L ")}`;
+  const fillPath = `${strokePath} L ${width - pad},${maxY} L ${pad},${maxY} Z`;
+
+  return { fill: fillPath, stroke: strokePath };
+}
+
+/** Histogram of historical durations over their own range, as a stepped outline. */
+function generateHistogram(
+  samples: readonly number[],
+  width: number,
+  height: number
+): { fill: string; stroke: string } {
+  const pad = 2;
+  const maxY = height - pad;
+  const minY = pad;
+  const bins = Math.min(10, Math.max(3, Math.ceil(Math.sqrt(samples.length))));
+  const lo = Math.min(...samples);
+  const span = Math.max(...samples) - lo || 1;
+  const counts = new Array<number>(bins).fill(0);
+  for (const s of samples) counts[Math.min(bins - 1, Math.floor(((s - lo) / span) * bins))]!++;
+  const peak = Math.max(...counts);
+  const binWidth = (width - 2 * pad) / bins;
+
+  const steps = counts.flatMap((c, i) => {
+    const y = (maxY - (c / peak) * (maxY - minY)).toFixed(1);
+    return [`${(pad + i * binWidth).toFixed(1)},${y}`, `${(pad + (i + 1) * binWidth).toFixed(1)},${y}`];
+  });
+  const strokePath = `M ${pad},${maxY} L ${steps.join(" L ")} L ${width - pad},${maxY}`;
+
+  return { fill: `${strokePath} Z`, stroke: strokePath };
+}
@@ -0,0 +1,63 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useRef } from "react";
+import type { ForecastHistoryEntry } from "@domain/models/types";
+import { exportForecastHistoryCSV } from "@app/api/csv-export-service";
+import { downloadFile } from "@ui/helpers/download";
+import { formatExportTimestamp } from "@core/calendar/calendar";
+import { ForecastDriftChart } from "@ui/charts/ForecastDriftChart";
+import { CopyImageButton } from "@ui/components/CopyImageButton";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+
+interface ForecastTrendPanelProps {
+  /** Two or more entries, oldest first. */
+  history: ForecastHistoryEntry[];
+  scenarioName: string;
+  projectName: string;
+}
+
+/** The scenario's forecast history (forecast-history.ts): the drift chart and its CSV. */
+export function ForecastTrendPanel({ history, scenarioName, projectName }: ForecastTrendPanelProps) {
+  const formatDate = useDateFormat();
+  const captureRef = useRef<HTMLDivElement>(null);
+  const first = history[0]?.finishDates[80];
+  const latest = history.at(-1)?.finishDates[80];
+  const runs = history.reduce((sum, e) => sum + (e.runs ?? 1), 0);
+  const summarized = history.some((e) => (e.runs ?? 1) > 1);
+
+  const handleExportCSV = useCallback(() => {
+    const csv = exportForecastHistoryCSV(history, scenarioName, projectName);
+    const filename = `spert-forecast-history-${formatExportTimestamp(new Date())}.csv`;
+    downloadFile(csv, filename, "text/csv;charset=utf-8;");
+  }, [history, scenarioName, projectName]);
+
+  return (
+    <div
+      className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2"
+      data-testid="forecast-trend-panel"
+    >
+      <div className="flex items-center gap-3">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Forecast Trend</h3>
+        <div className="ml-auto flex items-center gap-2">
+          <CopyImageButton targetRef={captureRef} title="Copy chart as image" />
+          <button
+            type="button"
+            onClick={handleExportCSV}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 rounded text-sm hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+      {first && latest && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 tabular-nums" data-testid="forecast-trend-summary">
+          P80 finish {formatDate(first)} → {formatDate(latest)} over {runs} runs
+          {summarized && "; older runs are summarized to one per week"}.
+        </p>
+      )}
+      <ForecastDriftChart history={history} captureRef={captureRef} />
+    </div>
+  );
+}
@@ -11,10 +11,14 @@ import type {
   Milestone,
   MilestoneBufferInfo,
   ScheduledActivity,
+  ScheduledSummary,
+  ScenarioBaseline,
   Calendar,
+  WbsSummary,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
 import { resolveGanttAppearance } from "@ui/charts/gantt-constants";
 import { GanttChart } from "@ui/charts/GanttChart";
 import { GanttAppearancePanel } from "./GanttAppearancePanel";
@@ -32,6 +36,7 @@ interface GanttSectionProps {
   activityTarget: number;
   projectTarget: number;
   calendar?: WorkCalendar | Calendar;
+  activityCalendars?: Map<string, WorkCalendar>;
   milestones?: Milestone[];
   milestoneBuffers?: Map<string, MilestoneBufferInfo> | null;
   criticalPathIds?: Set<string> | null;
@@ -39,6 +44,12 @@ interface GanttSectionProps {
   onEditActivity?: (activityId: string) => void;
   onRenameActivity?: (activityId: string, newName: string) => void;
   onRenameBand?: (bandId: string, newName: string) => void;
+  summaries?: WbsSummary[];
+  scheduledSummaries?: ScheduledSummary[];
+  onToggleSummary?: (summaryId: string) => void;
+  baseline?: ScenarioBaseline;
+  criticalityIndex?: Record<string, number>;
+  activityDateForecasts?: Map<string, ActivityDateForecast>;
   onEditDependency?: (fromId: string, toId: string) => void;
   isLocked?: boolean;
   showActivityNumbers?: boolean;
@@ -0,0 +1,205 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useId, useMemo, useState } from "react";
+import type { Calendar } from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import type { CompressionRunParams } from "@core/simulation/worker-client";
+import {
+  GOAL_SEEK_CONFIDENCES,
+  GOAL_SEEK_TRIALS,
+  computeTargetGap,
+  type CompressionPlan,
+  type TargetGap,
+} from "@core/simulation/goal-seek";
+import { runCompressionPlan } from "@app/api/simulation-service";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+import { useWorkerTask } from "@ui/hooks/use-worker-task";
+
+interface GoalSeekPanelProps {
+  targetFinishDate: string;
+  startDate: string;
+  /** The scenario's run percentiles (working days). */
+  percentiles: Record<number, number>;
+  /** Whether any work has begun — the latest start is then withheld. */
+  started: boolean;
+  calendar?: WorkCalendar | Calendar;
+  /** The Finish Target's green percentile: the confidence the panel opens at. */
+  defaultConfidence: number;
+  /** The trials to re-run for a compression plan; null outside dependency mode. */
+  buildPlanInput: (() => CompressionRunParams | null) | null;
+  activityNameById: (id: string) => string;
+}
+
+/**
+ * Goal-seek in the Finish Target section of the summary card: at a chosen confidence, the
+ * gap to the target, the latest start that meets it and — on request — a compression plan
+ * (goal-seek.ts), made in the simulation worker.
+ */
+export function GoalSeekPanel({
+  targetFinishDate,
+  startDate,
+  percentiles,
+  started,
+  calendar,
+  defaultConfidence,
+  buildPlanInput,
+  activityNameById,
+}: GoalSeekPanelProps) {
+  const confidenceId = useId();
+  const formatDate = useDateFormat();
+  const [confidence, setConfidence] = useState<number>(
+    (GOAL_SEEK_CONFIDENCES as readonly number[]).includes(defaultConfidence) ? defaultConfidence : 80
+  );
+  // A plan answers one question: it is shown only for the gap and trials it was made for.
+  const [planned, setPlanned] = useState<{
+    plan: CompressionPlan;
+    gap: TargetGap;
+    buildPlanInput: GoalSeekPanelProps["buildPlanInput"];
+  } | null>(null);
+  const planning = useWorkerTask<CompressionPlan>();
+
+  const gap = useMemo(
+    () => computeTargetGap(targetFinishDate, startDate, percentiles, confidence, started, calendar),
+    [targetFinishDate, startDate, percentiles, confidence, started, calendar]
+  );
+
+  if (!gap) return null;
+  const met = gap.shortfallDays <= 0;
+  const plan = planned?.gap === gap && planned.buildPlanInput === buildPlanInput ? planned.plan : null;
+
+  const handlePlan = () => {
+    const params = buildPlanInput?.();
+    if (!params) return;
+    planning.run(
+      (callbacks) => runCompressionPlan(params, confidence, gap.availableDays, callbacks),
+      (result) => setPlanned({ plan: result, gap, buildPlanInput }),
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-700 pt-3 space-y-3" data-testid="goal-seek-panel">
+      <div className="flex items-center gap-3 flex-wrap">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Goal Seek</h3>
+        <label htmlFor={confidenceId} className="text-xs text-gray-500 dark:text-gray-400">
+          Meet the target at
+        </label>
+        <select
+          id={confidenceId}
+          name="goalSeekConfidence"
+          value={confidence}
+          onChange={(e) => setConfidence(parseInt(e.target.value, 10))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-400 focus:outline-none"
+        >
+          {GOAL_SEEK_CONFIDENCES.map((p) => (
+            <option key={p} value={p}>P{p}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-gray-700 dark:text-gray-300 tabular-nums" data-testid="goal-seek-gap">
+        P{confidence} takes {gap.durationDays} working days; the target allows {gap.availableDays}.{" "}
+        {met ? (
+          <span className="text-green-700 dark:text-green-400">
+            Met with {-gap.shortfallDays} {gap.shortfallDays === -1 ? "day" : "days"} to spare.
+          </span>
+        ) : (
+          <span className="text-red-700 dark:text-red-400">
+            {gap.shortfallDays} working {gap.shortfallDays === 1 ? "day" : "days"} short.
+          </span>
+        )}
+      </p>
+
+      <p className="text-sm text-gray-700 dark:text-gray-300" data-testid="goal-seek-latest-start">
+        {gap.latestStartDate ? (
+          <>Latest start that meets it: <span className="font-medium tabular-nums">{formatDate(gap.latestStartDate)}</span></>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">Work has begun, so the start date no longer moves the finish.</span>
+        )}
+      </p>
+
+      {!met && (
+        buildPlanInput ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handlePlan}
+                disabled={planning.isRunning}
+                className="text-sm px-3 py-1 rounded border border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50"
+              >
+                {planning.isRunning ? "Planning…" : "Find activities to compress"}
+              </button>
+              {planning.isRunning && (
+                <>
+                  {planning.progress && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                      {planning.progress.completed.toLocaleString()} trials re-run
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={planning.cancel}
+                    className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
+            </div>
+            {planning.error && (
+              <p className="text-xs text-red-700 dark:text-red-400">Planning failed: {planning.error}</p>
+            )}
+            {plan && <CompressionPlanTable plan={plan} confidence={confidence} activityNameById={activityNameById} />}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Turn on dependency mode to plan which activities to compress.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+function CompressionPlanTable({
+  plan,
+  confidence,
+  activityNameById,
+}: {
+  plan: CompressionPlan;
+  confidence: number;
+  activityNameById: (id: string) => string;
+}) {
+  const total = plan.cuts.reduce((sum, c) => sum + c.days, 0);
+  return (
+    <div className="space-y-1" data-testid="goal-seek-plan">
+      {plan.cuts.length > 0 && (
+        <table className="text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 dark:text-gray-400 text-left">
+              <th className="pr-4 font-normal">Activity</th>
+              <th className="pr-4 font-normal text-right">Cut (days)</th>
+              <th className="font-normal text-right">Criticality</th>
+            </tr>
+          </thead>
+          <tbody className="tabular-nums text-gray-700 dark:text-gray-300">
+            {plan.cuts.map((cut) => (
+              <tr key={cut.activityId}>
+                <td className="pr-4">{activityNameById(cut.activityId)}</td>
+                <td className="pr-4 text-right">{cut.days}</td>
+                <td className="text-right">{Math.round(cut.criticality * 100)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className={`text-xs ${plan.feasible ? "text-gray-500 dark:text-gray-400" : "text-amber-600 dark:text-amber-400"}`}>
+        {total} working {total === 1 ? "day" : "days"} cut in all: P{confidence} {plan.startingDays} → {plan.achievedDays} days
+        {" "}({GOAL_SEEK_TRIALS.toLocaleString()}-trial re-runs).
+        {!plan.feasible && " Compression alone does not reach the target — move the start or the target, or cut scope."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useMemo, useState } from "react";
+import type { Activity, MergePointResult, ScheduledActivity } from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { computeMergeBias, type MergeBiasRow } from "@core/simulation/merge-points";
+
+const COLLAPSED_ROWS = 5;
+
+/** Drivers under this share of trials are not listed; they rarely set the start. */
+const DRIVER_SHARE_MIN = 0.05;
+
+interface MergeBiasPanelProps {
+  activities: Activity[];
+  scheduledActivities: ScheduledActivity[];
+  mergePoints: Record<string, MergePointResult>;
+  startDate: string;
+  calendar?: WorkCalendar;
+  formatActivityName: (activity: Activity) => string;
+}
+
+/**
+ * Merge bias at convergence points: each activity several paths merge into, its start in
+ * the deterministic schedule next to the simulated start, and the incoming paths that set
+ * the simulated start most often. Dependency mode only — the run measures it.
+ */
+export function MergeBiasPanel({
+  activities,
+  scheduledActivities,
+  mergePoints,
+  startDate,
+  calendar,
+  formatActivityName,
+}: MergeBiasPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const rows = useMemo(
+    () => computeMergeBias(mergePoints, scheduledActivities, startDate, calendar),
+    [mergePoints, scheduledActivities, startDate, calendar],
+  );
+  const byId = useMemo(() => new Map(activities.map((a) => [a.id, a])), [activities]);
+
+  if (rows.length === 0) return null;
+  const shown = expanded ? rows : rows.slice(0, COLLAPSED_ROWS);
+  const nameOf = (id: string) => {
+    const activity = byId.get(id);
+    return activity ? formatActivityName(activity) : id;
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">
+        Merge Bias
+      </h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Where parallel paths converge, the successor waits for the latest of them, so its
+        expected start is later than any single path suggests.
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-1 pr-2 font-medium">Merge point</th>
+            <th className="py-1 px-2 font-medium text-right">Planned start</th>
+            <th className="py-1 px-2 font-medium text-right">Simulated mean / P80</th>
+            <th className="py-1 px-2 font-medium text-right">Bias</th>
+            <th className="py-1 pl-2 font-medium">Driving paths</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.map((row) => (
+            <MergeBiasTableRow key={row.activityId} row={row} nameOf={nameOf} />
+          ))}
+        </tbody>
+      </table>
+
+      {rows.length > COLLAPSED_ROWS && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          {expanded ? "Show less" : `Show all ${rows.length} merge points`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function biasClass(biasDays: number): string {
+  if (biasDays >= 5) return "text-red-600 dark:text-red-400";
+  if (biasDays >= 1) return "text-amber-600 dark:text-amber-400";
+  return "text-gray-600 dark:text-gray-300";
+}
+
+function MergeBiasTableRow({ row, nameOf }: { row: MergeBiasRow; nameOf: (id: string) => string }) {
+  const drivers = row.drivers.filter((d) => d.share >= DRIVER_SHARE_MIN);
+  return (
+    <tr className="border-b border-gray-100 dark:border-gray-700 last:border-b-0 align-top">
+      <td className="py-1.5 pr-2 text-gray-900 dark:text-gray-100">{nameOf(row.activityId)}</td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        day {row.deterministicStart + 1}
+      </td>
+      <td className="py-1.5 px-2 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        day {(row.result.meanStart + 1).toFixed(1)} / {(row.result.p80Start + 1).toFixed(1)}
+      </td>
+      <td className={`py-1.5 px-2 text-right tabular-nums font-medium ${biasClass(row.biasDays)}`}>
+        {row.biasDays >= 0 ? "+" : ""}
+        {row.biasDays.toFixed(1)}d
+      </td>
+      <td className="py-1.5 pl-2 text-gray-600 dark:text-gray-300">
+        {drivers.length === 0
+          ? "—"
+          : drivers.map((d) => `${nameOf(d.predecessorId)} ${Math.round(d.share * 100)}%`).join(", ")}
+      </td>
+    </tr>
+  );
+}
@@ -6,6 +6,7 @@ import { useCallback, useState } from "react";
 import type { Activity, Milestone, MilestoneBufferInfo } from "@domain/models/types";
 import { useDateFormat } from "@ui/hooks/use-date-format";
 import { useBufferedField } from "@ui/hooks/use-buffered-field";
+import { MilestoneVarianceBadge } from "./VarianceBadge";
 
 interface MilestonePanelProps {
   milestones: Milestone[];
@@ -18,6 +19,8 @@ interface MilestonePanelProps {
   onSetStartsAt: (activityId: string, milestoneId: string | null) => void;
   isLocked?: boolean;
   formatActivityName?: (a: Activity) => string;
+  /** milestoneId → finish variance against the active baseline; absent without one. */
+  baselineVariance?: Map<string, number>;
 }
 
 interface MilestoneNameInputProps {
@@ -95,6 +98,7 @@ export function MilestonePanel({
   onSetStartsAt,
   isLocked,
   formatActivityName,
+  baselineVariance,
 }: MilestonePanelProps) {
   const [newName, setNewName] = useState("");
   const [newDate, setNewDate] = useState("");
@@ -189,6 +193,7 @@ export function MilestonePanel({
                 disabled={isLocked}
                 className="px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
               />
+              <MilestoneVarianceBadge days={baselineVariance?.get(m.id)} />
               {buffer && <HealthBadge health={buffer.health} />}
               {!isLocked && (
                 <button
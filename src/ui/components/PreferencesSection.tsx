@@ -7,7 +7,7 @@ import { ToggleSwitch } from "./ToggleSwitch";
 import {
   RSM_LEVELS,
   RSM_LABELS,
-  DISTRIBUTION_TYPES,
+  PARAMETRIC_DISTRIBUTION_TYPES,
   DATE_FORMATS,
   THEME_OPTIONS,
   WEEKDAY_LABELS,
@@ -158,7 +158,7 @@ export function PreferencesSection() {
             }
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm focus:border-blue-400 focus:outline-none bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
           >
-            {DISTRIBUTION_TYPES.map((dt) => (
+            {PARAMETRIC_DISTRIBUTION_TYPES.map((dt) => (
               <option key={dt} value={dt}>
                 {distributionLabel(dt)}
               </option>
@@ -19,6 +19,7 @@ import {
 } from "@core/calendar/calendar";
 import { useDateFormat, useDateFormatShort } from "@ui/hooks/use-date-format";
 import { PrintGanttChart } from "@ui/charts/PrintGanttChart";
+import { activeBaseline } from "@core/schedule/baseline";
 import {
   PrintSummarySection,
   PrintActivityTable,
@@ -27,6 +28,7 @@ import {
   PrintConstraintsTable,
   PrintItemTable,
   PrintMilestonesTable,
+  PrintRiskRegisterTable,
   PrintSimulationResultsSection,
 } from "./print-sections";
 
@@ -38,6 +40,7 @@ interface PrintableReportProps {
   buffer: ScheduleBuffer | null;
   milestoneBuffers?: Map<string, MilestoneBufferInfo> | null;
   calendar?: WorkCalendar | Calendar;
+  activityCalendars?: Map<string, WorkCalendar>;
   criticalPathIds?: Set<string> | null;
   targetRAGColor?: string;
 }
@@ -50,6 +53,7 @@ export function PrintableReport({
   buffer,
   milestoneBuffers,
   calendar,
+  activityCalendars,
   criticalPathIds,
   targetRAGColor,
 }: PrintableReportProps) {
@@ -129,6 +133,8 @@ export function PrintableReport({
         <PrintGanttChart
           activities={scenario.activities}
           bands={scenario.bands ?? []}
+          summaries={scenario.summaries}
+          scheduledSummaries={schedule.summaries}
           scheduledActivities={scheduledActivities}
           projectStartDate={scenario.startDate}
           projectEndDate={schedule.projectEndDate}
@@ -138,6 +144,7 @@ export function PrintableReport({
           activityTarget={scenario.settings.probabilityTarget}
           projectTarget={scenario.settings.projectProbabilityTarget}
           calendar={calendar}
+          activityCalendars={activityCalendars}
           bufferedEndDate={ganttBufferedEndDate}
           formatDate={formatDate}
           formatDateShort={formatDateShort}
@@ -149,6 +156,8 @@ export function PrintableReport({
           showTargetOnGantt={project.showTargetOnGantt ?? false}
           targetRAGColor={targetRAGColor}
           ganttAppearance={project.ganttAppearance}
+          baseline={activeBaseline(scenario)}
+          criticalityIndex={simulationResults?.criticalityIndex}
         />
       )}
 
@@ -159,6 +168,8 @@ export function PrintableReport({
         />
       )}
 
+      <PrintRiskRegisterTable scenario={scenario} />
+
       {/* Footer */}
       <footer className="mt-4 pt-2 border-t border-gray-300 text-[9px] text-gray-500">
         <p>
@@ -0,0 +1,88 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useMemo, useState } from "react";
+import type { Activity, Calendar, Resource, ScheduledActivity } from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import { computeResourceUsage } from "@core/schedule/resource-usage";
+import { ResourceHistogramChart } from "@ui/charts/ResourceHistogramChart";
+import { useDateFormatShort } from "@ui/hooks/use-date-format";
+
+interface ResourceHistogramSectionProps {
+  scheduledActivities: ScheduledActivity[];
+  activities: Activity[];
+  resources: Resource[];
+  projectStartDate: string;
+  calendar?: WorkCalendar | Calendar;
+}
+
+export function ResourceHistogramSection({
+  scheduledActivities,
+  activities,
+  resources,
+  projectStartDate,
+  calendar,
+}: ResourceHistogramSectionProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const formatDate = useDateFormatShort();
+
+  // Only resources someone holds get a chart; an idle resource has nothing to show.
+  const usage = useMemo(
+    () =>
+      computeResourceUsage(scheduledActivities, activities, resources, projectStartDate, calendar)
+        .filter((u) => u.days.length > 0),
+    [scheduledActivities, activities, resources, projectStartDate, calendar]
+  );
+
+  if (usage.length === 0) return null;
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Resource Usage
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {usage.length} {usage.length === 1 ? "resource" : "resources"}
+        </span>
+      </div>
+
+      {!collapsed && (
+        <div className="p-4 space-y-4">
+          {usage.map((u) => (
+            <div key={u.resourceId} className="space-y-1">
+              <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-300">
+                <span className="font-medium text-gray-900 dark:text-gray-100">{u.name}</span>
+                <span>Peak: {u.peak} / {u.capacity}</span>
+                {u.overallocatedDays > 0 && (
+                  <span className="text-red-500 dark:text-red-400 font-medium">
+                    Over-allocated {u.overallocatedDays}d
+                  </span>
+                )}
+              </div>
+              <ResourceHistogramChart usage={u} formatDate={formatDate} />
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
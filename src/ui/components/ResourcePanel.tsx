@@ -0,0 +1,225 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import { RESOURCE_UNITS_MAX, type Activity, type Resource } from "@domain/models/types";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+
+interface ResourcePanelProps {
+  resources: Resource[];
+  activities: Activity[];
+  onAddResource: (name: string, capacity: number) => void;
+  onUpdateResource: (resourceId: string, updates: Partial<Omit<Resource, "id">>) => void;
+  onRemoveResource: (resourceId: string) => void;
+  isLocked?: boolean;
+}
+
+interface ResourceNameInputProps {
+  resourceId: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (resourceId: string, name: string) => void;
+}
+
+// Non-exported — buffered name input for a resource row (see MilestoneNameInput).
+function ResourceNameInput({ resourceId, name, disabled, onCommit }: ResourceNameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(resourceId, next.trim());
+    },
+    [resourceId, onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={`resource-name-${resourceId}`}
+      type="text"
+      name="resourceName"
+      autoComplete="off"
+      aria-label="Resource name"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder="Resource name"
+    />
+  );
+}
+
+function formatResourceCount(count: number): string {
+  if (count === 0) return "No resources";
+  return `${count} ${count === 1 ? "resource" : "resources"}`;
+}
+
+/** Parse a capacity input; null when it is not a usable capacity. */
+function parseCapacity(raw: string): number | null {
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0 || value > RESOURCE_UNITS_MAX) return null;
+  return value;
+}
+
+export function ResourcePanel({
+  resources,
+  activities,
+  onAddResource,
+  onUpdateResource,
+  onRemoveResource,
+  isLocked,
+}: ResourcePanelProps) {
+  const [newName, setNewName] = useState("");
+  const [newCapacity, setNewCapacity] = useState("1");
+  const [collapsed, setCollapsed] = useState(false);
+
+  const newCapacityValue = parseCapacity(newCapacity);
+  const handleAdd = () => {
+    if (!newName.trim() || newCapacityValue === null) return;
+    onAddResource(newName.trim(), newCapacityValue);
+    setNewName("");
+    setNewCapacity("1");
+  };
+
+  const handleNameCommit = useCallback(
+    (id: string, nextName: string) => onUpdateResource(id, { name: nextName }),
+    [onUpdateResource],
+  );
+
+  // Activities holding each resource in this scenario
+  const holderCount = new Map<string, number>();
+  for (const a of activities) {
+    for (const ra of a.resourceAssignments ?? []) {
+      holderCount.set(ra.resourceId, (holderCount.get(ra.resourceId) ?? 0) + 1);
+    }
+  }
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Resources
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {formatResourceCount(resources.length)}
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Shared by every scenario. Activities holding the same resource are delayed until it
+          is free; assign resources from the activity editor.
+        </p>
+
+        {/* Resource list */}
+        {resources.map((r) => (
+          <div key={r.id} className="flex items-center gap-2">
+            <ResourceNameInput
+              resourceId={r.id}
+              name={r.name}
+              disabled={!!isLocked}
+              onCommit={handleNameCommit}
+            />
+            <label htmlFor={`resource-capacity-${r.id}`} className="text-xs text-gray-500 dark:text-gray-400">
+              Capacity
+            </label>
+            <input
+              id={`resource-capacity-${r.id}`}
+              type="number"
+              name="resourceCapacity"
+              min={0.1}
+              max={RESOURCE_UNITS_MAX}
+              step={0.5}
+              value={r.capacity}
+              onChange={(e) => {
+                const capacity = parseCapacity(e.target.value);
+                if (capacity !== null) onUpdateResource(r.id, { capacity });
+              }}
+              disabled={isLocked}
+              className="w-20 px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+            />
+            <span className="text-xs text-gray-400 dark:text-gray-500 w-20 shrink-0">
+              {holderCount.get(r.id) ?? 0} assigned
+            </span>
+            {!isLocked && (
+              <button
+                onClick={() => onRemoveResource(r.id)}
+                className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1"
+                title="Remove resource"
+                aria-label="Remove resource"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+          </div>
+        ))}
+
+        {/* Add resource form */}
+        {!isLocked && (
+          <div className="flex items-center gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <input
+              type="text"
+              name="newResourceName"
+              aria-label="New resource name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Resource name"
+              className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+            />
+            <input
+              type="number"
+              name="newResourceCapacity"
+              aria-label="New resource capacity"
+              min={0.1}
+              max={RESOURCE_UNITS_MAX}
+              step={0.5}
+              value={newCapacity}
+              onChange={(e) => setNewCapacity(e.target.value)}
+              className="w-20 px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newName.trim() || newCapacityValue === null}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>)}
+    </section>
+  );
+}
@@ -0,0 +1,407 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback, useState } from "react";
+import {
+  RISK_PROBABILITY_MAX,
+  RISKS_MAX,
+  type Activity,
+  type RiskEvent,
+  type RiskResult,
+} from "@domain/models/types";
+import type { RiskFields } from "@app/api/risk-service";
+import { rankRisks } from "@core/simulation/risk-events";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+
+interface RiskRegisterPanelProps {
+  risks: RiskEvent[];
+  activities: Activity[];
+  /** Per-risk results of the last run, when there is one. */
+  riskResults?: Record<string, RiskResult>;
+  onAdd: (fields: RiskFields) => void;
+  onUpdate: (riskId: string, updates: Partial<RiskFields>) => void;
+  onRemove: (riskId: string) => void;
+  onSetRiskActivity: (riskId: string, activityId: string, affected: boolean) => void;
+  isLocked?: boolean;
+  formatActivityName?: (a: Activity) => string;
+}
+
+const INPUT_CLASS =
+  "px-2 py-1 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60";
+
+function formatDays(days: number): string {
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded > 0 ? "+" : ""}${rounded.toFixed(1)}d`;
+}
+
+interface RiskNameInputProps {
+  riskId: string;
+  name: string;
+  disabled: boolean;
+  onCommit: (riskId: string, name: string) => void;
+}
+
+// Non-exported — buffered name input for a risk row (see GroupNameInput).
+function RiskNameInput({ riskId, name, disabled, onCommit }: RiskNameInputProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      if (next.trim()) onCommit(riskId, next.trim());
+    },
+    [riskId, onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur, revertValue } = useBufferedField(
+    name,
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={`risk-name-${riskId}`}
+      type="text"
+      name="riskName"
+      autoComplete="off"
+      aria-label="Risk name"
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.preventDefault();
+          revertValue();
+          e.currentTarget.blur();
+        }
+      }}
+      disabled={disabled}
+      className="flex-1 min-w-0 px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 dark:hover:border-gray-600 dark:bg-gray-800 dark:text-gray-100 rounded focus:border-blue-400 focus:outline-none disabled:opacity-60"
+      placeholder="Risk name"
+    />
+  );
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  disabled: boolean;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * A small numeric input that commits on blur. An entry the service refuses (say a most
+ * likely above the max) leaves the stored value, so the field snaps back to it.
+ */
+function NumberField({ id, label, value, disabled, onCommit }: NumberFieldProps) {
+  const handleCommit = useCallback(
+    (next: string) => {
+      const parsed = Number(next);
+      if (next.trim() !== "" && Number.isFinite(parsed)) onCommit(parsed);
+    },
+    [onCommit],
+  );
+  const { localValue, setLocalValue, handleFocus, handleBlur } = useBufferedField(
+    String(value),
+    handleCommit,
+  );
+
+  return (
+    <input
+      id={id}
+      type="number"
+      min={0}
+      aria-label={label}
+      title={label}
+      value={localValue}
+      onChange={(e) => setLocalValue(e.target.value)}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      disabled={disabled}
+      className={`w-16 ${INPUT_CLASS}`}
+    />
+  );
+}
+
+interface RiskCardProps {
+  risk: RiskEvent;
+  result: RiskResult | undefined;
+  rank: number | null;
+  activities: Activity[];
+  onUpdate: RiskRegisterPanelProps["onUpdate"];
+  onRemove: RiskRegisterPanelProps["onRemove"];
+  onSetRiskActivity: RiskRegisterPanelProps["onSetRiskActivity"];
+  isLocked: boolean;
+  label: (a: Activity) => string;
+}
+
+function RiskCard({
+  risk,
+  result,
+  rank,
+  activities,
+  onUpdate,
+  onRemove,
+  onSetRiskActivity,
+  isLocked,
+  label,
+}: RiskCardProps) {
+  const handleRename = useCallback(
+    (riskId: string, name: string) => onUpdate(riskId, { name }),
+    [onUpdate],
+  );
+  const affected = activities.filter((a) => risk.activityIds.includes(a.id));
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        {rank !== null && (
+          <span className="text-xs font-semibold text-gray-400 dark:text-gray-500 tabular-nums" title="Rank by contribution to P95">
+            #{rank}
+          </span>
+        )}
+        <RiskNameInput riskId={risk.id} name={risk.name} disabled={isLocked} onCommit={handleRename} />
+        {!isLocked && (
+          <button
+            onClick={() => onRemove(risk.id)}
+            className="text-red-400 hover:text-red-600 dark:hover:text-red-300 p-1"
+            title="Remove risk"
+            aria-label="Remove risk"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <NumberField
+          id={`risk-probability-${risk.id}`}
+          label={`Probability of ${risk.name} (%)`}
+          value={Math.round(risk.probability * 100)}
+          disabled={isLocked}
+          onCommit={(pct) => onUpdate(risk.id, { probability: pct / 100 })}
+        />
+        <span>% chance, adds</span>
+        <NumberField
+          id={`risk-impact-min-${risk.id}`}
+          label="Impact minimum (days)"
+          value={risk.impactMin}
+          disabled={isLocked}
+          onCommit={(impactMin) => onUpdate(risk.id, { impactMin })}
+        />
+        <NumberField
+          id={`risk-impact-ml-${risk.id}`}
+          label="Impact most likely (days)"
+          value={risk.impactMostLikely}
+          disabled={isLocked}
+          onCommit={(impactMostLikely) => onUpdate(risk.id, { impactMostLikely })}
+        />
+        <NumberField
+          id={`risk-impact-max-${risk.id}`}
+          label="Impact maximum (days)"
+          value={risk.impactMax}
+          disabled={isLocked}
+          onCommit={(impactMax) => onUpdate(risk.id, { impactMax })}
+        />
+        <span>days</span>
+      </div>
+
+      {result && (
+        <p className="text-xs text-gray-600 dark:text-gray-300 tabular-nums">
+          Fired in {Math.round(result.occurrence * 100)}% of trials · P80 {formatDays(result.p80Contribution)} · P95{" "}
+          {formatDays(result.p95Contribution)}
+        </p>
+      )}
+
+      {!isLocked && (
+        <select
+          id={`risk-affect-${risk.id}`}
+          name="riskAffectActivity"
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onSetRiskActivity(risk.id, e.target.value, true);
+          }}
+          className={`w-full ${INPUT_CLASS}`}
+        >
+          <option value="">Affect activity...</option>
+          {activities
+            .filter((a) => !risk.activityIds.includes(a.id))
+            .map((a) => (
+              <option key={a.id} value={a.id}>{label(a)}</option>
+            ))}
+        </select>
+      )}
+      {affected.map((a) => (
+        <div key={a.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+          <span className="truncate">{label(a)}</span>
+          {!isLocked && (
+            <button
+              onClick={() => onSetRiskActivity(risk.id, a.id, false)}
+              className="text-gray-400 hover:text-red-500 dark:hover:text-red-400 p-0.5 ml-auto shrink-0"
+              title="No longer affected"
+              aria-label="Remove activity from risk"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+      {affected.length === 0 && (
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          Affects no activity yet, so it has no effect on the simulation.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The scenario's risk register: discrete events that might happen, each with a
+ * probability and a three-point delay added to the activities it affects. After a run
+ * the risks are ranked by how much they push out P95 (then P80).
+ */
+export function RiskRegisterPanel({
+  risks,
+  activities,
+  riskResults,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onSetRiskActivity,
+  isLocked,
+  formatActivityName,
+}: RiskRegisterPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [newProbability, setNewProbability] = useState("30");
+  const [newImpact, setNewImpact] = useState({ min: "5", ml: "10", max: "20" });
+  const [collapsed, setCollapsed] = useState(false);
+  const full = risks.length >= RISKS_MAX;
+  const label = formatActivityName ?? ((a: Activity) => a.name);
+  const ranked = rankRisks(risks, riskResults);
+
+  const fields: RiskFields = {
+    name: newName.trim(),
+    probability: Math.min(Number(newProbability) / 100, RISK_PROBABILITY_MAX),
+    impactMin: Number(newImpact.min),
+    impactMostLikely: Number(newImpact.ml),
+    impactMax: Number(newImpact.max),
+  };
+  const valid =
+    fields.name !== "" &&
+    fields.probability > 0 &&
+    fields.impactMin >= 0 &&
+    fields.impactMin <= fields.impactMostLikely &&
+    fields.impactMostLikely <= fields.impactMax;
+
+  const handleAdd = () => {
+    if (!valid || full) return;
+    onAdd(fields);
+    setNewName("");
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <button
+          className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          onClick={() => setCollapsed((c) => !c)}
+        >
+          <svg
+            className={`w-4 h-4 transition-transform ${collapsed ? "" : "rotate-90"}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+          Risk Register
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">
+          {risks.length} of {RISKS_MAX}
+        </span>
+      </div>
+
+      {!collapsed && (<div className="p-4 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Events the estimates leave out. Each trial fires a risk with its probability and
+          adds a delay from its impact range to every activity it affects.
+        </p>
+
+        {ranked.map(({ risk, result }, idx) => (
+          <RiskCard
+            key={risk.id}
+            risk={risk}
+            result={result}
+            rank={result ? idx + 1 : null}
+            activities={activities}
+            onUpdate={onUpdate}
+            onRemove={onRemove}
+            onSetRiskActivity={onSetRiskActivity}
+            isLocked={!!isLocked}
+            label={label}
+          />
+        ))}
+
+        {/* Add form */}
+        {!isLocked && (
+          <div className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-700">
+            <input
+              type="text"
+              name="newRiskName"
+              aria-label="New risk name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Vendor API not ready"
+              className={`w-full py-1.5 ${INPUT_CLASS}`}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+            />
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <input
+                type="number"
+                name="newRiskProbability"
+                aria-label="New risk probability (%)"
+                min={1}
+                max={Math.round(RISK_PROBABILITY_MAX * 100)}
+                value={newProbability}
+                onChange={(e) => setNewProbability(e.target.value)}
+                className={`w-16 ${INPUT_CLASS}`}
+              />
+              <span>%, days</span>
+              {(["min", "ml", "max"] as const).map((key) => (
+                <input
+                  key={key}
+                  type="number"
+                  name={`newRiskImpact-${key}`}
+                  aria-label={`New risk impact ${key} (days)`}
+                  min={0}
+                  value={newImpact[key]}
+                  onChange={(e) => setNewImpact((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className={`w-16 ${INPUT_CLASS}`}
+                />
+              ))}
+              <button
+                onClick={handleAdd}
+                disabled={!valid || full}
+                title={full ? `A scenario keeps at most ${RISKS_MAX} risks` : undefined}
+                className="ml-auto px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed shrink-0"
+              >
+                Add risk
+              </button>
+            </div>
+          </div>
+        )}
+      </div>)}
+    </section>
+  );
+}
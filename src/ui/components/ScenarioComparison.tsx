@@ -67,13 +67,17 @@ function computeEntry(
             scenario.startDate,
             scenario.settings.probabilityTarget,
             calendar,
-            scenario.milestones
+            scenario.milestones,
+            undefined,
+            scenario.statusDate
           )
         : computeSchedule(
             scenario.activities,
             scenario.startDate,
             scenario.settings.probabilityTarget,
-            calendar
+            calendar,
+            undefined,
+            scenario.statusDate
           );
     } catch (err) {
       error = err instanceof Error ? err.message : String(err);
@@ -4,7 +4,8 @@
 
 import { useId, useState, useCallback, useRef, useEffect, type ReactNode } from "react";
 import { ToggleSwitch } from "./ToggleSwitch";
-import type { Activity, ActivityBand, ActivityDependency, DeterministicSchedule, Milestone, ScenarioSettings, Calendar, MilestoneBufferInfo } from "@domain/models/types";
+import type { Activity, ActivityBand, ActivityDependency, DeterministicSchedule, Milestone, ScenarioSettings, Calendar, MilestoneBufferInfo, SamplingMethod } from "@domain/models/types";
+import { CONVERGENCE_TOLERANCE_OPTIONS } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import type { ScheduleBuffer } from "@core/schedule/buffer";
 import {
@@ -48,6 +49,95 @@ function milestoneHealthGlyph(health: MilestoneHealth): string {
   return "✗ At Risk";
 }
 
+const TRIAL_COUNT_OPTIONS = [1000, 5000, 10000, 25000, 50000, 100000];
+const CONVERGE_OPTION = "converge";
+const DEFAULT_CONVERGENCE_TOLERANCE_DAYS = 0.5;
+const SAMPLING_METHOD_LABELS: Record<SamplingMethod, string> = {
+  random: "Random",
+  latinHypercube: "Latin Hypercube",
+};
+const SETTINGS_SELECT_CLASS =
+  "px-1 py-1 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-sm font-medium focus:border-blue-400 focus:outline-none tabular-nums disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Trials: a fixed count, or "until converged" with the precision of the project-target
+ * percentile to stop at. Choosing a count again keeps it and drops the tolerance. The
+ * sampling method sits alongside — it decides how many trials a stable result needs.
+ */
+function TrialCountControl({
+  id,
+  settings,
+  isLocked,
+  onSettingsChange,
+}: {
+  id: string;
+  settings: ScenarioSettings;
+  isLocked?: boolean;
+  onSettingsChange: (updates: Partial<ScenarioSettings>) => void;
+}) {
+  const tolerance = settings.convergenceToleranceDays;
+  return (
+    <div className="flex items-center gap-1.5">
+      <label htmlFor={id} className="text-gray-500 dark:text-gray-400 text-xs whitespace-nowrap">
+        Trials:
+      </label>
+      <select
+        id={id}
+        name="scenarioTrialCount"
+        value={tolerance === undefined ? settings.trialCount : CONVERGE_OPTION}
+        onChange={(e) =>
+          onSettingsChange(
+            e.target.value === CONVERGE_OPTION
+              ? { convergenceToleranceDays: DEFAULT_CONVERGENCE_TOLERANCE_DAYS }
+              : { trialCount: parseInt(e.target.value, 10), convergenceToleranceDays: undefined },
+          )
+        }
+        disabled={isLocked}
+        className={SETTINGS_SELECT_CLASS}
+      >
+        {TRIAL_COUNT_OPTIONS.map((n) => (
+          <option key={n} value={n}>
+            {n.toLocaleString()}
+          </option>
+        ))}
+        <option value={CONVERGE_OPTION}>Until converged</option>
+      </select>
+      {tolerance !== undefined && (
+        <select
+          name="scenarioConvergenceTolerance"
+          aria-label="Convergence tolerance"
+          title={`Stop once the P${Math.round(settings.projectProbabilityTarget * 100)} is known to within this many working days (95% confidence)`}
+          value={tolerance}
+          onChange={(e) => onSettingsChange({ convergenceToleranceDays: parseFloat(e.target.value) })}
+          disabled={isLocked}
+          className={SETTINGS_SELECT_CLASS}
+        >
+          {CONVERGENCE_TOLERANCE_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              ±{days}d
+            </option>
+          ))}
+        </select>
+      )}
+      <select
+        name="scenarioSamplingMethod"
+        aria-label="Sampling method"
+        title="Latin Hypercube stratifies each activity's draws across the run, so tail percentiles settle in far fewer trials"
+        value={settings.samplingMethod ?? "random"}
+        onChange={(e) => onSettingsChange({ samplingMethod: e.target.value as SamplingMethod })}
+        disabled={isLocked}
+        className={SETTINGS_SELECT_CLASS}
+      >
+        {(Object.keys(SAMPLING_METHOD_LABELS) as SamplingMethod[]).map((method) => (
+          <option key={method} value={method}>
+            {SAMPLING_METHOD_LABELS[method]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
 interface ScenarioSummaryCardProps {
   startDate: string;
   schedule: DeterministicSchedule | null;
@@ -57,6 +147,9 @@ interface ScenarioSummaryCardProps {
   hasSimulationResults: boolean;
   onSettingsChange: (updates: Partial<ScenarioSettings>) => void;
   onStartDateChange: (startDate: string) => void;
+  /** Progress is reported through this day; absent = no status date. */
+  statusDate?: string;
+  onStatusDateChange?: (statusDate: string | undefined) => void;
   onNewSeed: () => void;
   isLocked?: boolean;
   onToggleLock?: () => void;
@@ -72,6 +165,8 @@ interface ScenarioSummaryCardProps {
   targetFinishDate?: string | null;
   onTargetFinishDateChange?: (date: string | null) => void;
   targetRAGColor?: string;
+  /** What it takes to meet the Finish Target (GoalSeekPanel), shown under the dates. */
+  finishTargetDetail?: ReactNode;
   scenarioNotes?: string;
   onScenarioNotesChange?: (notes: string | undefined) => void;
   onScenarioNotesFocus?: () => void;
@@ -149,6 +244,8 @@ export function ScenarioSummaryCard({
   hasSimulationResults,
   onSettingsChange,
   onStartDateChange,
+  statusDate,
+  onStatusDateChange,
   onNewSeed,
   isLocked,
   onToggleLock,
@@ -163,6 +260,7 @@ export function ScenarioSummaryCard({
   targetFinishDate,
   onTargetFinishDateChange,
   targetRAGColor,
+  finishTargetDetail,
   scenarioNotes,
   onScenarioNotesChange,
   onScenarioNotesFocus,
@@ -209,6 +307,7 @@ export function ScenarioSummaryCard({
   }, [scenarioNotes]);
   const baseId = useId();
   const startDateId = `${baseId}-start`;
+  const statusDateId = `${baseId}-status`;
   const targetFinishId = `${baseId}-target`;
   const notesId = `${baseId}-notes`;
   const activityTargetId = `${baseId}-activity`;
@@ -285,6 +384,29 @@ export function ScenarioSummaryCard({
             />
           </div>
         </div>
+        <div>
+          <label
+            htmlFor={statusDateId}
+            className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide"
+            title="Progress is reported through this day; unfinished work is scheduled after it"
+          >
+            Status Date
+          </label>
+          <div>
+            <input
+              id={statusDateId}
+              name="scenarioStatusDate"
+              type="date"
+              value={statusDate ?? ""}
+              min={startDate}
+              onChange={(e) => {
+                onStatusDateChange?.(e.target.value || undefined);
+              }}
+              disabled={isLocked}
+              className="text-lg tabular-nums text-gray-700 dark:text-gray-200 bg-transparent border border-transparent hover:border-gray-300 dark:hover:border-gray-600 focus:border-blue-400 dark:focus:border-blue-400 rounded px-1 -ml-1 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-transparent"
+            />
+          </div>
+        </div>
         <div className="border-l border-gray-200 dark:border-gray-600 self-stretch" />
         <div>
           <label htmlFor={targetFinishId} className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide">
@@ -409,6 +531,8 @@ export function ScenarioSummaryCard({
         </div>
       )}
 
+      {finishTargetDetail}
+
       {/* Row 2: Targets, trials, seed */}
       <div className="flex items-center gap-2 flex-wrap text-sm">
         {/* Targets */}
@@ -425,7 +549,8 @@ export function ScenarioSummaryCard({
                 probabilityTarget: parseFloat(e.target.value),
               })
             }
-            disabled={isLocked}
+            disabled={isLocked || settings.criticalChain}
+            title={settings.criticalChain ? "Critical Chain mode schedules activities at their aggressive P50 estimate" : undefined}
             className="px-1 py-1 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-sm font-medium focus:border-blue-400 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {ACTIVITY_PERCENTILE_OPTIONS.map((opt) => (
@@ -460,29 +585,12 @@ export function ScenarioSummaryCard({
         <div className="border-l border-gray-200 dark:border-gray-600 h-5" />
 
         {/* Trials */}
-        <div className="flex items-center gap-1.5">
-          <label htmlFor={trialsId} className="text-gray-500 dark:text-gray-400 text-xs whitespace-nowrap">
-            Trials:
-          </label>
-          <select
-            id={trialsId}
-            name="scenarioTrialCount"
-            value={settings.trialCount}
-            onChange={(e) =>
-              onSettingsChange({
-                trialCount: parseInt(e.target.value, 10),
-              })
-            }
-            disabled={isLocked}
-            className="px-1 py-1 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-sm font-medium focus:border-blue-400 focus:outline-none tabular-nums disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {[1000, 5000, 10000, 25000, 50000, 100000].map((n) => (
-              <option key={n} value={n}>
-                {n.toLocaleString()}
-              </option>
-            ))}
-          </select>
-        </div>
+        <TrialCountControl
+          id={trialsId}
+          settings={settings}
+          isLocked={isLocked}
+          onSettingsChange={onSettingsChange}
+        />
 
         {/* Seed */}
         <div className="flex items-center gap-1.5">
@@ -582,7 +690,10 @@ export function ScenarioSummaryCard({
             <ToggleSwitch
               ariaLabel="Dependency mode"
               checked={settings.dependencyMode}
-              onChange={(val) => onSettingsChange({ dependencyMode: val })}
+              onChange={(val) =>
+                // Critical Chain mode needs the dependency graph; it ends with it.
+                onSettingsChange(val ? { dependencyMode: true } : { dependencyMode: false, criticalChain: undefined })
+              }
               disabled={isLocked}
             />
           </div>
@@ -595,7 +706,7 @@ export function ScenarioSummaryCard({
               ariaLabel="Parkinson's Law"
               checked={settings.parkinsonsLawEnabled ?? true}
               onChange={(val) => onSettingsChange({ parkinsonsLawEnabled: val })}
-              disabled={isLocked}
+              disabled={isLocked || settings.criticalChain}
             />
           </div>
         </div>
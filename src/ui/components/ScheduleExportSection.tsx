@@ -19,6 +19,7 @@ import {
   computeDependencySchedule,
 } from "@core/schedule/deterministic";
 import { computeScheduleBuffer } from "@core/schedule/buffer";
+import { activeBaseline } from "@core/schedule/baseline";
 import { toast } from "@ui/hooks/use-notification-store";
 
 interface ScheduleExportSectionProps {
@@ -67,13 +68,17 @@ export function ScheduleExportSection({ projects }: ScheduleExportSectionProps)
           selectedScenario.startDate,
           settings.probabilityTarget,
           workCalendar,
-          selectedScenario.milestones
+          selectedScenario.milestones,
+          undefined,
+          selectedScenario.statusDate
         )
       : computeDeterministicSchedule(
           selectedScenario.activities,
           selectedScenario.startDate,
           settings.probabilityTarget,
-          workCalendar
+          workCalendar,
+          undefined,
+          selectedScenario.statusDate
         );
 
     const buffer = computeScheduleBuffer(
@@ -96,6 +101,9 @@ export function ScheduleExportSection({ projects }: ScheduleExportSectionProps)
       calendar: workCalendar,
       dateFormat,
       bands: selectedScenario.bands ?? [],
+      baseline: activeBaseline(selectedScenario),
+      criticalityIndex: selectedScenario.simulationResults?.criticalityIndex,
+      activityDates: selectedScenario.simulationResults?.activityDates,
     };
   }, [selectedProject, selectedScenario, workCalendar, dateFormat]);
 
@@ -3,14 +3,17 @@
 // See LICENSE file in the project root for full license text.
 
 import { useId, useMemo, useState } from "react";
-import type { Activity } from "@domain/models/types";
+import type { Activity, ActivitySensitivity } from "@domain/models/types";
 import {
   computeSensitivityAnalysis,
   type SensitivityResult,
 } from "@core/analytics/sensitivity";
+import { SensitivityTornado } from "./SensitivityTornado";
 
 interface SensitivityPanelProps {
   activities: Activity[];
+  /** Sample-based sensitivity from the last run, drawn as a tornado. */
+  simulated?: Record<string, ActivitySensitivity>;
 }
 
 type SortField = "impact" | "variance" | "cv";
@@ -34,9 +37,10 @@ function sortFieldBarWidth(
 
 /**
  * Displays sensitivity analysis results showing which activities
- * contribute most to project uncertainty.
+ * contribute most to project uncertainty. After a run the simulation's own tornado
+ * leads; the analytic ranking below it assumes every activity is on the path.
  */
-export function SensitivityPanel({ activities }: SensitivityPanelProps) {
+export function SensitivityPanel({ activities, simulated }: SensitivityPanelProps) {
   const [sortField, setSortField] = useState<SortField>("impact");
   const [expanded, setExpanded] = useState(false);
   const sortId = useId();
@@ -104,6 +108,8 @@ export function SensitivityPanel({ activities }: SensitivityPanelProps) {
         </div>
       </div>
 
+      {simulated && <SensitivityTornado activities={activities} sensitivity={simulated} />}
+
       <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
         Activities ranked by their contribution to project schedule uncertainty.
       </p>
@@ -0,0 +1,117 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useId, useMemo, useState } from "react";
+import type { Activity, ActivitySensitivity } from "@domain/models/types";
+
+const TORNADO_COLLAPSED_ROWS = 8;
+
+type TornadoSort = "correlation" | "ssi";
+
+interface TornadoRow extends ActivitySensitivity {
+  activityId: string;
+  name: string;
+}
+
+interface SensitivityTornadoProps {
+  activities: Activity[];
+  sensitivity: Record<string, ActivitySensitivity>;
+}
+
+function sortRows(rows: TornadoRow[], sort: TornadoSort): TornadoRow[] {
+  const key = sort === "ssi"
+    ? (r: TornadoRow) => r.ssi
+    : (r: TornadoRow) => Math.abs(r.rankCorrelation);
+  return [...rows].sort((a, b) => key(b) - key(a));
+}
+
+/**
+ * Tornado of the simulation's own sensitivity: one bar per activity, its Spearman
+ * correlation with the project duration drawn left (negative) or right (positive) of the
+ * centre line, with the SSI beside it. Activities that never drive the finish collapse
+ * to nothing here however wide their estimates — the point of measuring it in the run.
+ */
+export function SensitivityTornado({ activities, sensitivity }: SensitivityTornadoProps) {
+  const [sort, setSort] = useState<TornadoSort>("correlation");
+  const [expanded, setExpanded] = useState(false);
+  const sortId = useId();
+
+  const rows = useMemo(() => {
+    const named: TornadoRow[] = [];
+    for (const a of activities) {
+      const s = sensitivity[a.id];
+      if (s) named.push({ activityId: a.id, name: a.name, ...s });
+    }
+    return sortRows(named, sort);
+  }, [activities, sensitivity, sort]);
+
+  if (rows.length === 0) return null;
+  const shown = expanded ? rows : rows.slice(0, TORNADO_COLLAPSED_ROWS);
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-semibold text-gray-700 dark:text-gray-300">
+          Simulated drivers (rank correlation with finish)
+        </h4>
+        <div className="flex items-center gap-2">
+          <label htmlFor={sortId} className="text-xs text-gray-500 dark:text-gray-400">
+            Sort by:
+          </label>
+          <select
+            id={sortId}
+            name="tornadoSortField"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as TornadoSort)}
+            className="text-xs px-2 py-1 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded focus:outline-none focus:border-blue-400"
+          >
+            <option value="correlation">Correlation</option>
+            <option value="ssi">SSI</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1" role="list" aria-label="Sensitivity tornado">
+        {shown.map((row) => (
+          <TornadoBar key={row.activityId} row={row} />
+        ))}
+      </div>
+
+      {rows.length > TORNADO_COLLAPSED_ROWS && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          {expanded ? "Show less" : `Show all ${rows.length} activities`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function TornadoBar({ row }: { row: TornadoRow }) {
+  const pct = Math.abs(row.rankCorrelation) * 50; // half the track per side
+  const positive = row.rankCorrelation >= 0;
+  const title =
+    `${row.name}: correlation ${row.rankCorrelation.toFixed(2)}, ` +
+    `SSI ${row.ssi.toFixed(2)} (criticality × σ activity / σ project)`;
+  return (
+    <div role="listitem" className="flex items-center gap-2 text-xs" title={title}>
+      <span className="w-32 truncate text-gray-700 dark:text-gray-300">{row.name}</span>
+      <div className="relative flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden">
+        <div className="absolute inset-y-0 left-1/2 w-px bg-gray-300 dark:bg-gray-500" />
+        <div
+          className={`absolute inset-y-0 ${positive ? "bg-blue-500" : "bg-green-500"}`}
+          style={positive ? { left: "50%", width: `${pct}%` } : { right: "50%", width: `${pct}%` }}
+        />
+      </div>
+      <span className="w-10 text-right tabular-nums text-gray-600 dark:text-gray-300">
+        {row.rankCorrelation.toFixed(2)}
+      </span>
+      <span className="w-14 text-right tabular-nums text-gray-500 dark:text-gray-400">
+        SSI {row.ssi.toFixed(2)}
+      </span>
+    </div>
+  );
+}
@@ -3,13 +3,14 @@
 // See LICENSE file in the project root for full license text.
 
 import { useId, useRef, useState, useCallback, useMemo } from "react";
-import type { SimulationRun } from "@domain/models/types";
+import type { SimulationConvergence, SimulationRun } from "@domain/models/types";
 import { cdf, lookupProbability } from "@core/analytics/analytics";
 import { exportSimulationCSV } from "@app/api/csv-export-service";
 import { downloadFile } from "@ui/helpers/download";
 import { formatExportTimestamp } from "@core/calendar/calendar";
 import { HistogramChart } from "@ui/charts/HistogramChart";
 import { CDFChart } from "@ui/charts/CDFChart";
+import { JclScatterChart } from "@ui/charts/JclScatterChart";
 import { PercentileTable } from "@ui/charts/PercentileTable";
 import { CopyImageButton } from "@ui/components/CopyImageButton";
 
@@ -19,6 +20,24 @@ function healthColor(pct: number, greenPct: number, amberPct: number): string {
   return "#dc2626";
 }
 
+/**
+ * An "until converged" run's precision under the trial count: the half-width reached
+ * against the tolerance asked for, flagged when the trial ceiling stopped the run first.
+ */
+function ConvergenceNote({ convergence }: { convergence: SimulationConvergence }) {
+  const { percentile, toleranceDays, achievedHalfWidthDays, converged } = convergence;
+  return (
+    <p
+      className={`text-xs ${converged ? "text-gray-500 dark:text-gray-400" : "text-amber-600 dark:text-amber-400"}`}
+      title={`95% confidence interval of the P${percentile}; the run stops once it is within ±${toleranceDays} days`}
+      data-testid="simulation-convergence"
+    >
+      P{percentile} ±{achievedHalfWidthDays.toFixed(2)}d
+      {converged ? ` (target ±${toleranceDays}d)` : ` — trial limit reached before ±${toleranceDays}d`}
+    </p>
+  );
+}
+
 interface SimulationPanelProps {
   simulationResults: SimulationRun | undefined;
   probabilityTarget: number;
@@ -90,6 +109,7 @@ export function SimulationPanel({
   // title-row height even though the CDF panel has an extra "Finish by" row.
   const histogramCaptureRef = useRef<HTMLDivElement>(null);
   const cdfCaptureRef = useRef<HTMLDivElement>(null);
+  const jclCaptureRef = useRef<HTMLDivElement>(null);
 
   // Date probability lookup state
   const [targetDate, setTargetDate] = useState("");
@@ -220,6 +240,14 @@ export function SimulationPanel({
                   in {elapsedMs.toFixed(0)}ms
                 </p>
               )}
+              {simulationResults.convergence && (
+                <ConvergenceNote convergence={simulationResults.convergence} />
+              )}
+              {simulationResults.samplingMethod === "latinHypercube" && (
+                <p className="text-xs text-gray-400 dark:text-gray-500" data-testid="simulation-sampling-method">
+                  Latin Hypercube
+                </p>
+              )}
             </div>
           </div>
 
@@ -301,6 +329,23 @@ export function SimulationPanel({
             </div>
           </div>
 
+          {/* Joint cost/schedule confidence, when the activities carry costs */}
+          {simulationResults.costResults && (
+            <div className="relative bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 pb-2">
+              <div className="absolute top-2 right-2 z-10">
+                <CopyImageButton targetRef={jclCaptureRef} title="Copy chart as image" />
+              </div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Joint Confidence (Cost × Duration)
+              </h4>
+              <JclScatterChart
+                costResults={simulationResults.costResults}
+                percentileTarget={probabilityTarget}
+                captureRef={jclCaptureRef}
+              />
+            </div>
+          )}
+
           {/* Percentile Table */}
           <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 max-w-lg">
             <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
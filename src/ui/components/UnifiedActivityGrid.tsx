@@ -22,16 +22,21 @@ import type {
   ActivityBand,
   Calendar,
   ScheduledActivity,
+  ScheduledSummary,
+  WbsSummary,
 } from "@domain/models/types";
 import { computeHeuristic } from "@core/estimation/heuristic";
 import type { BulkApplyPayload } from "./BulkActionToolbar";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
+import type { ActivityVariance } from "@core/schedule/baseline";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
 import { UnifiedActivityRow } from "./UnifiedActivityRow";
 import { BandHeaderRow } from "./BandHeaderRow";
+import { WbsSummaryRow } from "./WbsSummaryRow";
 import { BulkActionToolbar } from "./BulkActionToolbar";
-import { GRID_COLUMNS, GRID_COLUMNS_WITH_CONSTRAINT } from "./grid-columns";
+import { gridColumnsFor } from "./grid-columns";
 import { shouldShowConstraintColumn, planBulkApply } from "./unified-activity-helpers";
-import { buildRenderList, deriveReorderResult } from "@ui/helpers/band-utils";
+import { buildRenderList, buildReorderList, deriveReorderResult, renderItemId } from "@ui/helpers/band-utils";
 import { useGridFocus, useGridSelection } from "@ui/hooks/use-grid-state";
 
 interface UnifiedActivityGridProps {
@@ -63,8 +68,30 @@ interface UnifiedActivityGridProps {
   onEditActivity?: (activityId: string) => void;
   constraintWarningIds?: Set<string>;
   activityNumberMap?: Map<string, number> | null;
+  /** WBS summaries; rows follow the outline when any exist. */
+  summaries?: WbsSummary[];
+  scheduledSummaries?: ScheduledSummary[];
+  /** summaryId → simulated finish date at the project probability target. */
+  summaryForecasts?: Map<string, string>;
+  projectProbabilityTarget?: number;
+  onAddSummary?: () => void;
+  onUpdateSummary?: (summaryId: string, updates: Partial<Omit<WbsSummary, "id">>) => void;
+  onRemoveSummary?: (summaryId: string) => void;
+  /** activityId → variance against the active baseline; absent without one. */
+  baselineVariance?: Map<string, ActivityVariance>;
+  /** Criticality index per activity from the last dependency-mode simulation. */
+  criticalityIndex?: Record<string, number>;
+  /** Simulated start/finish dates per activity from the last run; see activity-dates.ts. */
+  activityDateForecasts?: Map<string, ActivityDateForecast>;
+  /** Show the simulated date columns. */
+  showDatePercentiles?: boolean;
+  /** Toggle for the simulated date columns; the toggle is hidden without it. */
+  onToggleDatePercentiles?: (show: boolean) => void;
 }
 
+const NO_SUMMARIES: WbsSummary[] = [];
+const noopSummaryUpdate = () => {};
+
 export function UnifiedActivityGrid({
   activities,
   bands,
@@ -91,9 +118,21 @@ export function UnifiedActivityGrid({
   onEditActivity,
   constraintWarningIds,
   activityNumberMap,
+  summaries = NO_SUMMARIES,
+  scheduledSummaries,
+  summaryForecasts,
+  projectProbabilityTarget = 0.95,
+  onAddSummary,
+  onUpdateSummary,
+  onRemoveSummary,
+  baselineVariance,
+  criticalityIndex,
+  activityDateForecasts,
+  showDatePercentiles = false,
+  onToggleDatePercentiles,
 }: UnifiedActivityGridProps) {
   const showConstraintColumn = shouldShowConstraintColumn(dependencyMode, activities);
-  const gridCols = showConstraintColumn ? GRID_COLUMNS_WITH_CONSTRAINT : GRID_COLUMNS;
+  const gridCols = gridColumnsFor(showConstraintColumn, showDatePercentiles);
   const [, setInvalidIds] = useState<Set<string>>(new Set());
   // Global drag suppression for the insert-strip overlay. Wired through
   // DndContext callbacks below. `useDndContext()` can't be used here because
@@ -204,15 +243,18 @@ export function UnifiedActivityGrid({
   );
 
   const renderItems = useMemo(
-    () => buildRenderList(activities, bands),
-    [activities, bands],
+    () => buildRenderList(activities, bands, summaries),
+    [activities, bands, summaries],
+  );
+
+  const rollupMap = useMemo(
+    () => new Map((scheduledSummaries ?? []).map((s) => [s.summaryId, s])),
+    [scheduledSummaries],
   );
 
   const sortableIds = useMemo(
     () =>
-      renderItems.map((item) =>
-        item.kind === "activity" ? item.activity.id : item.band.id,
-      ),
+      renderItems.filter((item) => item.kind !== "summary").map(renderItemId),
     [renderItems],
   );
 
@@ -220,7 +262,7 @@ export function UnifiedActivityGrid({
     const { active, over } = event;
     if (!over) return;
     const result = deriveReorderResult(
-      renderItems,
+      buildReorderList(activities, bands, summaries),
       String(active.id),
       String(over.id),
     );
@@ -297,6 +339,13 @@ export function UnifiedActivityGrid({
         <div className="px-1">Distribution</div>
         <div className="px-1">Status</div>
         <div className="px-1 text-center" title="Working days elapsed (In Progress) or total (Complete)">Actual</div>
+        <div className="text-right px-1" title="Share of simulation trials the activity was on the critical path">Crit.</div>
+        {showDatePercentiles && (
+          <>
+            <div className="px-1" title="Simulated start dates at P50, P80 and P95">Sim. Start</div>
+            <div className="px-1" title="Simulated finish dates at P50, P80 and P95">Sim. Finish</div>
+          </>
+        )}
         {/* Separator */}
         <div />
         <div className="text-center">
@@ -329,6 +378,13 @@ export function UnifiedActivityGrid({
         <div />
         <div />
         <div />
+        {showDatePercentiles && (
+          <>
+            <div className="px-1 text-gray-400 dark:text-gray-500">P50 · P80 · P95</div>
+            <div className="px-1 text-gray-400 dark:text-gray-500">P50 · P80 · P95</div>
+          </>
+        )}
+        <div />
         <div />
         <div />
       </div>
@@ -357,6 +413,7 @@ export function UnifiedActivityGrid({
                   key={activity.id}
                   activity={activity}
                   activityNumber={activityNumberMap?.get(activity.id)}
+                  wbsDepth={item.depth}
                   scheduledActivity={scheduleMap.get(activity.id)}
                   activityProbabilityTarget={activityProbabilityTarget}
                   autoFocusName={activity.id === focusActivityId}
@@ -380,6 +437,29 @@ export function UnifiedActivityGrid({
                   }
                   isLastRow={isLastRow}
                   isAnyDragging={isAnyDragging}
+                  baselineVariance={baselineVariance?.get(activity.id)}
+                  criticality={criticalityIndex?.[activity.id]}
+                  showDatePercentiles={showDatePercentiles}
+                  dateForecast={activityDateForecasts?.get(activity.id)}
+                />
+              );
+            }
+            if (item.kind === "summary") {
+              return (
+                <WbsSummaryRow
+                  key={item.summary.id}
+                  summary={item.summary}
+                  code={item.code}
+                  depth={item.depth}
+                  summaries={summaries}
+                  rollup={rollupMap.get(item.summary.id)}
+                  forecastFinish={summaryForecasts?.get(item.summary.id)}
+                  forecastPct={Math.round(projectProbabilityTarget * 100)}
+                  locked={!!isScenarioLocked || !onUpdateSummary}
+                  showConstraintColumn={showConstraintColumn}
+                  showDatePercentiles={showDatePercentiles}
+                  onUpdate={onUpdateSummary ?? noopSummaryUpdate}
+                  onDelete={onRemoveSummary ?? noopSummaryUpdate}
                 />
               );
             }
@@ -389,6 +469,7 @@ export function UnifiedActivityGrid({
                 band={item.band}
                 locked={!!isScenarioLocked}
                 showConstraintColumn={showConstraintColumn}
+                showDatePercentiles={showDatePercentiles}
                 onUpdate={onUpdateBand}
                 onDelete={onDeleteBand}
                 autoFocus={item.band.id === focusBandId}
@@ -438,6 +519,13 @@ export function UnifiedActivityGrid({
           <div />
           <div />
           <div />
+          {showDatePercentiles && (
+            <>
+              <div />
+              <div />
+            </>
+          )}
+          <div />
           <div />
           <div />
         </div>
@@ -470,6 +558,35 @@ export function UnifiedActivityGrid({
         >
           + Section
         </button>
+        {onAddSummary && (
+          <button
+            data-field="add-summary"
+            onClick={() => {
+              if (isScenarioLocked) return;
+              onAddSummary();
+            }}
+            disabled={isScenarioLocked}
+            aria-label="Add WBS summary"
+            className="flex-1 py-2 border border-dashed border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-400 dark:text-gray-500 hover:border-blue-400 dark:hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400 focus:border-blue-400 dark:focus:border-blue-500 focus:text-blue-600 dark:focus:text-blue-400 focus:outline-none transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 dark:disabled:hover:border-gray-700 disabled:hover:text-gray-400 dark:disabled:hover:text-gray-500"
+          >
+            + Summary
+          </button>
+        )}
+        {onToggleDatePercentiles && (
+          <label
+            className="flex items-center gap-1.5 px-2 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap"
+            title="Show each activity's simulated start and finish at P50, P80 and P95"
+          >
+            <input
+              type="checkbox"
+              name="gridShowDatePercentiles"
+              checked={showDatePercentiles}
+              onChange={(e) => onToggleDatePercentiles(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600 dark:bg-gray-700"
+            />
+            Simulated dates
+          </label>
+        )}
       </div>
     </div>
   );
@@ -12,10 +12,9 @@ import type {
   ScheduledActivity,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
-import {
-  DISTRIBUTION_TYPES,
-  ACTIVITY_STATUSES,
-} from "@domain/models/types";
+import type { ActivityVariance } from "@core/schedule/baseline";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
+import { ACTIVITY_STATUSES } from "@domain/models/types";
 import { ActivitySchema } from "@domain/schemas/project.schema";
 import { recommendDistribution } from "@core/recommendation/recommendation";
 import { computeHeuristic } from "@core/estimation/heuristic";
@@ -24,6 +23,7 @@ import {
   distributionLabel,
   distributionShortLabel,
   statusLabel,
+  usesConfidenceLevel,
 } from "@domain/helpers/format-labels";
 import { computeElapsedDays, focusField } from "./activity-row-helpers";
 import {
@@ -33,12 +33,16 @@ import {
   handleOffOrderTabNav,
   handleCrossRowTabNav,
   handleInRowTabNav,
+  selectableDistributionTypes,
 } from "./unified-activity-helpers";
 import { useBufferedField } from "@ui/hooks/use-buffered-field";
 import { EstimateInputs } from "./EstimateInputs";
 import { ConfidenceLevelSelect } from "./ConfidenceLevelSelect";
 import { DistributionSparkline } from "./DistributionSparkline";
-import { GRID_COLUMNS, GRID_COLUMNS_WITH_CONSTRAINT } from "./grid-columns";
+import { ActivityVarianceBadge } from "./VarianceBadge";
+import { CriticalityCell } from "./CriticalityCell";
+import { ActivityDateCells } from "./ActivityDateCells";
+import { gridColumnsFor, WBS_INDENT_PX } from "./grid-columns";
 
 interface UnifiedActivityRowProps {
   activity: Activity;
@@ -59,9 +63,19 @@ interface UnifiedActivityRowProps {
   onEditActivity?: (activityId: string) => void;
   hasConstraintWarning?: boolean;
   activityNumber?: number;
+  /** WBS nesting level; indents the name beneath its summary rows. */
+  wbsDepth?: number;
   onInsertAfterActivity?: () => void;
   isLastRow?: boolean;
   isAnyDragging?: boolean;
+  /** Variance against the active baseline; absent without one or for a newer activity. */
+  baselineVariance?: ActivityVariance;
+  /** Criticality index from the last dependency-mode simulation (0–1). */
+  criticality?: number;
+  /** Show the simulated date columns. */
+  showDatePercentiles?: boolean;
+  /** Simulated start/finish dates from the last run. */
+  dateForecast?: ActivityDateForecast;
 }
 
 type FieldErrors = Partial<Record<string, string>>;
@@ -197,13 +211,18 @@ export function UnifiedActivityRow({
   onEditActivity,
   hasConstraintWarning,
   activityNumber,
+  wbsDepth = 0,
   onInsertAfterActivity,
   isLastRow,
   isAnyDragging,
+  baselineVariance,
+  criticality,
+  showDatePercentiles,
+  dateForecast,
 }: UnifiedActivityRowProps) {
   const nameInputRef = useRef<HTMLInputElement>(null);
   const formatDate = useDateFormat();
-  const gridCols = showConstraintColumn ? GRID_COLUMNS_WITH_CONSTRAINT : GRID_COLUMNS;
+  const gridCols = gridColumnsFor(!!showConstraintColumn, showDatePercentiles);
 
   useEffect(() => {
     if (autoFocusName && nameInputRef.current) {
@@ -358,8 +377,7 @@ export function UnifiedActivityRow({
   const isComplete = activity.status === "complete";
   const isInProgress = activity.status === "inProgress";
 
-  const confidenceApplies =
-    activity.distributionType === "normal" || activity.distributionType === "logNormal";
+  const confidenceApplies = usesConfidenceLevel(activity.distributionType);
 
   const tabFieldOrder = useMemo(
     () => buildTabFieldOrder(heuristicEnabled, confidenceApplies, isComplete, isInProgress),
@@ -418,9 +436,10 @@ export function UnifiedActivityRow({
         activity.min,
         activity.mostLikely,
         activity.max,
-        activity.confidenceLevel
+        activity.confidenceLevel,
+        activity.historicalDurations
       ),
-    [activity.min, activity.mostLikely, activity.max, activity.confidenceLevel]
+    [activity.min, activity.mostLikely, activity.max, activity.confidenceLevel, activity.historicalDurations]
   );
 
   const targetPct = Math.round(activityProbabilityTarget * 100);
@@ -474,7 +493,7 @@ export function UnifiedActivityRow({
       </div>
 
       {/* Name */}
-      <div>
+      <div style={{ paddingLeft: wbsDepth * WBS_INDENT_PX }}>
       <div className="relative">
         <div className={`flex items-center${onEditActivity ? " pr-5" : ""}`}>
           {activityNumber != null && (
@@ -572,7 +591,10 @@ export function UnifiedActivityRow({
       {/* Schedule: End */}
       <div className="tabular-nums text-gray-700 dark:text-gray-300 text-sm px-1">
         {scheduledActivity ? (
-          <span>{formatDate(scheduledActivity.endDate)}</span>
+          <span>
+            {formatDate(scheduledActivity.endDate)}
+            <ActivityVarianceBadge variance={baselineVariance} />
+          </span>
         ) : (
           <span className="text-gray-300 dark:text-gray-600">&mdash;</span>
         )}
@@ -616,7 +638,7 @@ export function UnifiedActivityRow({
           onChange={(level) =>
             onUpdate(activity.id, { confidenceLevel: level })
           }
-          disabled={isLocked || (activity.distributionType !== "normal" && activity.distributionType !== "logNormal")}
+          disabled={isLocked || !confidenceApplies}
           data-row-id={activity.id}
           data-field="confidence"
           onKeyDown={(e) => handleTabNav(e, "confidence")}
@@ -642,7 +664,7 @@ export function UnifiedActivityRow({
           className="w-full px-1 py-1 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded text-sm focus:border-blue-400 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
           tabIndex={heuristicEnabled ? 0 : -1}
         >
-          {DISTRIBUTION_TYPES.map((dt) => (
+          {selectableDistributionTypes(activity).map((dt) => (
             <option key={dt} value={dt}>
               {distributionLabel(dt)}
             </option>
@@ -670,6 +692,7 @@ export function UnifiedActivityRow({
               mostLikely={activity.mostLikely}
               max={activity.max}
               distributionType={activity.distributionType}
+              samples={activity.historicalDurations}
               width={80}
               height={30}
             />
@@ -760,6 +783,14 @@ export function UnifiedActivityRow({
         )}
       </div>
 
+      {/* Criticality index */}
+      <div>
+        <CriticalityCell index={criticality} totalFloat={scheduledActivity?.totalFloat} />
+      </div>
+
+      {/* Simulated start and finish percentiles (optional columns) */}
+      <ActivityDateCells shown={!!showDatePercentiles} forecast={dateForecast} />
+
       {/* Separator */}
       <div className="h-6 bg-gray-200 dark:bg-gray-600" />
 
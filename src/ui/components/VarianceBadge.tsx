@@ -0,0 +1,53 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import type { ActivityVariance } from "@core/schedule/baseline";
+
+/** Signed working days, "+" for a slip so it never reads as a bare count. */
+function signed(days: number): string {
+  return days > 0 ? `+${days}` : `${days}`;
+}
+
+function varianceClass(days: number): string {
+  if (days > 0) return "text-red-600 dark:text-red-400";
+  if (days < 0) return "text-green-600 dark:text-green-400";
+  return "text-gray-400 dark:text-gray-500";
+}
+
+interface VarianceBadgeProps {
+  /** Working days against the baseline; positive = later. */
+  days: number;
+  title: string;
+}
+
+/** A compact "+3d" against the active baseline — red for a slip, green for a pull-in. */
+export function VarianceBadge({ days, title }: VarianceBadgeProps) {
+  return (
+    <span
+      className={`ml-1 text-[10px] font-semibold tabular-nums whitespace-nowrap ${varianceClass(days)}`}
+      title={title}
+      aria-label={title}
+    >
+      {signed(days)}d
+    </span>
+  );
+}
+
+/**
+ * An activity's finish variance, with start and duration variance in the tooltip.
+ * Renders nothing when the baseline does not hold the activity (or there is none).
+ */
+export function ActivityVarianceBadge({ variance }: { variance?: ActivityVariance }) {
+  if (!variance) return null;
+  const title =
+    `Against baseline: start ${signed(variance.startDays)}, finish ${signed(variance.finishDays)}, ` +
+    `duration ${signed(variance.durationDays)} working days`;
+  return <VarianceBadge days={variance.finishDays} title={title} />;
+}
+
+/** A milestone's finish variance; nothing when the baseline has no finish for it. */
+export function MilestoneVarianceBadge({ days }: { days?: number }) {
+  if (days === undefined) return null;
+  return <VarianceBadge days={days} title={`Finish ${signed(days)} working days against baseline`} />;
+}
@@ -4,6 +4,7 @@
 
 import { useState, useCallback } from "react";
 import type { ConstraintConflict, DependencyConflict } from "@domain/models/types";
+import { formatLag } from "@domain/helpers/format-labels";
 import { useDateFormat } from "@ui/hooks/use-date-format";
 
 // -- Shared warning item component --------------------------------------------
@@ -25,11 +26,6 @@ const VARIANT_CLASSES = {
   },
 } as const;
 
-function formatLagSuffix(lagDays: number): string {
-  if (lagDays === 0) return "";
-  return `${lagDays > 0 ? "+" : ""}${lagDays}d`;
-}
-
 function WarningItem({ variant, title, detail, message, formatDate }: {
   variant: "error" | "warning";
   title: string;
@@ -136,7 +132,7 @@ export function WarningsPanel({ conflicts, dependencyConflicts = [], activityNum
             />
           ))}
           {dependencyConflicts.map((dc, i) => {
-            const lagSuffix = formatLagSuffix(dc.lagDays);
+            const lagSuffix = formatLag(dc);
             return (
             <WarningItem
               key={`dep-${i}`}
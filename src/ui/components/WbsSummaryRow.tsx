@@ -0,0 +1,173 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useCallback } from "react";
+import type { ScheduledSummary, WbsSummary } from "@domain/models/types";
+import { isWithinSummary } from "@core/schedule/wbs";
+import { gridColumnsFor, WBS_INDENT_PX } from "./grid-columns";
+import { useBufferedField } from "@ui/hooks/use-buffered-field";
+import { useDateFormat } from "@ui/hooks/use-date-format";
+
+interface WbsSummaryRowProps {
+  summary: WbsSummary;
+  code: string;
+  depth: number;
+  /** All summaries, for the parent picker. */
+  summaries: WbsSummary[];
+  /** Roll-up from the schedule; absent while nothing beneath is scheduled. */
+  rollup?: ScheduledSummary;
+  /** Simulated finish at the project probability target, with its percent label. */
+  forecastFinish?: string;
+  forecastPct: number;
+  locked: boolean;
+  showConstraintColumn: boolean;
+  /** Show the simulated date columns, so the row's tracks line up with the activity rows. */
+  showDatePercentiles?: boolean;
+  onUpdate: (summaryId: string, updates: Partial<Omit<WbsSummary, "id">>) => void;
+  onDelete: (summaryId: string) => void;
+}
+
+/**
+ * A WBS summary in the activity grid. It has no estimate of its own: the duration and
+ * dates are the roll-up of everything beneath it, read-only. Not draggable — a summary's
+ * place in the outline follows its first activity (wbs.ts), so it moves with its work.
+ */
+export function WbsSummaryRow({
+  summary,
+  code,
+  depth,
+  summaries,
+  rollup,
+  forecastFinish,
+  forecastPct,
+  locked,
+  showConstraintColumn,
+  showDatePercentiles,
+  onUpdate,
+  onDelete,
+}: WbsSummaryRowProps) {
+  const gridCols = gridColumnsFor(showConstraintColumn, showDatePercentiles);
+  const formatDate = useDateFormat();
+
+  const handleNameCommit = useCallback(
+    (name: string) => onUpdate(summary.id, { name }),
+    [summary.id, onUpdate]
+  );
+
+  // key={summary.id} in UnifiedActivityGrid ensures remount on entity change.
+  const {
+    localValue: editValue,
+    setLocalValue: setEditValue,
+    handleFocus: handleNameFocus,
+    handleBlur: commitName,
+  } = useBufferedField(summary.name, handleNameCommit);
+
+  // A summary cannot move beneath itself or its own descendants.
+  const parentOptions = summaries.filter((s) => !isWithinSummary(summaries, s.id, summary.id));
+
+  return (
+    <div
+      className="grid items-center gap-1 px-1 py-1.5 border-b border-gray-100 dark:border-gray-700 bg-slate-50 dark:bg-slate-800/60 text-sm"
+      style={{ gridTemplateColumns: gridCols }}
+      data-wbs-summary-id={summary.id}
+    >
+      {/* Collapse / expand (col 1) */}
+      <div className="flex items-center justify-center">
+        <button
+          type="button"
+          onClick={() => onUpdate(summary.id, { collapsed: !summary.collapsed })}
+          className="text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-200 text-xs leading-none"
+          aria-label={summary.collapsed ? "Expand summary" : "Collapse summary"}
+          aria-expanded={!summary.collapsed}
+          disabled={locked}
+          tabIndex={-1}
+        >
+          {summary.collapsed ? "▸" : "▾"}
+        </button>
+      </div>
+
+      {/* No drag handle (col 2) */}
+      <div />
+
+      {/* WBS code + name (col 3) */}
+      <div
+        className="flex items-center gap-1.5 min-w-0"
+        style={{ paddingLeft: depth * WBS_INDENT_PX }}
+      >
+        <span className="text-gray-400 dark:text-gray-500 text-xs font-mono select-none shrink-0">
+          {code}
+        </span>
+        <input
+          id={`wbs-summary-name-${summary.id}`}
+          name="wbsSummaryName"
+          type="text"
+          autoComplete="off"
+          aria-label="Summary name"
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          onFocus={handleNameFocus}
+          onBlur={commitName}
+          readOnly={locked}
+          placeholder="Summary"
+          className="w-full min-w-0 bg-transparent border-0 focus:border-0 focus:ring-0 focus:outline-none px-1 py-0.5 text-sm font-bold text-gray-800 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
+        />
+      </div>
+
+      {/* Rolled-up duration, start, end (cols 4–6) */}
+      <div className="text-right tabular-nums px-1 font-semibold text-gray-700 dark:text-gray-200">
+        {rollup ? `${rollup.duration}d` : ""}
+      </div>
+      <div className="px-1 text-xs text-gray-600 dark:text-gray-300">
+        {rollup ? formatDate(rollup.startDate) : ""}
+      </div>
+      <div className="px-1 text-xs text-gray-600 dark:text-gray-300">
+        {rollup ? formatDate(rollup.endDate) : ""}
+      </div>
+
+      {/* Forecast + parent picker, spanning to the delete track */}
+      <div
+        className="flex items-center gap-3 px-1 min-w-0 text-xs text-gray-500 dark:text-gray-400"
+        style={{ gridColumn: `${showConstraintColumn ? 8 : 7} / -2` }}
+      >
+        <span className="tabular-nums whitespace-nowrap" title="Simulated finish of everything beneath this summary">
+          {forecastFinish ? `P${forecastPct} finish ${formatDate(forecastFinish)}` : ""}
+        </span>
+        <label className="flex items-center gap-1 ml-auto">
+          <span>Within</span>
+          <select
+            name="wbsSummaryParent"
+            aria-label="Parent summary"
+            value={summary.parentId ?? ""}
+            disabled={locked}
+            onChange={(e) => onUpdate(summary.id, { parentId: e.target.value || undefined })}
+            className="max-w-[10rem] text-xs border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5 bg-white dark:bg-gray-700 dark:text-gray-200"
+          >
+            <option value="">(top level)</option>
+            {parentOptions.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name || "Unnamed summary"}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Delete (last track) */}
+      <div className="flex items-center justify-center">
+        {!locked && (
+          <button
+            type="button"
+            onClick={() => onDelete(summary.id)}
+            className="text-gray-300 dark:text-gray-600 hover:text-red-500 dark:hover:text-red-400 text-sm transition-colors"
+            title="Delete summary (its activities move up a level)"
+            aria-label="Delete summary"
+            tabIndex={-1}
+          >
+            &#10005;
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,14 @@ import {
   computeDescriptionUpdate,
   computeGeneralUpdates,
   computeEstimateUpdates,
+  computeResourceUpdates,
+  computeProgressUpdates,
+  computeHistoryUpdate,
+  isHistoryTooShort,
+  computeCostUpdate,
+  isCostDraftInvalid,
+  type CostDraft,
+  type ProgressDraft,
 } from "./activity-modal-sections";
 
 function makeActivity(overrides: Partial<Activity> = {}): Activity {
@@ -321,3 +329,165 @@ describe("computeEstimateUpdates", () => {
     expect(computeEstimateUpdates(base, 0, 2, 3, "mediumConfidence", "normal")).toEqual({ min: 0 });
   });
 });
+
+describe("computeResourceUpdates", () => {
+  const holding = makeActivity({
+    resourceAssignments: [
+      { resourceId: "r2", units: 0.5 },
+      { resourceId: "r1", units: 1 },
+    ],
+  });
+
+  it("returns {} when the draft matches, whatever the order", () => {
+    expect(
+      computeResourceUpdates(holding, [
+        { resourceId: "r1", units: 1 },
+        { resourceId: "r2", units: 0.5 },
+      ]),
+    ).toEqual({});
+    expect(computeResourceUpdates(makeActivity(), [{ resourceId: "r1", units: "" }])).toEqual({});
+  });
+
+  it("treats blank and non-positive rows as unassigned", () => {
+    const updates = computeResourceUpdates(makeActivity(), [
+      { resourceId: "r1", units: 2 },
+      { resourceId: "r2", units: "" },
+      { resourceId: "r3", units: 0 },
+    ]);
+    expect(updates).toEqual({ resourceAssignments: [{ resourceId: "r1", units: 2 }] });
+  });
+
+  it("clamps units to the schema maximum", () => {
+    const updates = computeResourceUpdates(makeActivity(), [{ resourceId: "r1", units: 500 }]);
+    expect(updates.resourceAssignments).toEqual([{ resourceId: "r1", units: 100 }]);
+  });
+
+  it("emits an explicit undefined when every assignment is cleared", () => {
+    const updates = computeResourceUpdates(holding, [
+      { resourceId: "r1", units: "" },
+      { resourceId: "r2", units: "" },
+    ]);
+    expect("resourceAssignments" in updates).toBe(true);
+    expect(updates.resourceAssignments).toBeUndefined();
+  });
+});
+
+describe("computeProgressUpdates", () => {
+  const blank: ProgressDraft = {
+    actualStartDate: "",
+    actualFinishDate: "",
+    remainingMin: "",
+    remainingMostLikely: "",
+    remainingMax: "",
+  };
+  const started = makeActivity({
+    status: "inProgress",
+    actualStartDate: "2026-03-02",
+    remainingEstimate: { min: 1, mostLikely: 2, max: 4 },
+  });
+  const startedDraft: ProgressDraft = {
+    ...blank,
+    actualStartDate: "2026-03-02",
+    remainingMin: 1,
+    remainingMostLikely: 2,
+    remainingMax: 4,
+  };
+
+  it("returns empty object when nothing changes", () => {
+    expect(computeProgressUpdates(makeActivity(), "planned", blank)).toEqual({});
+    expect(computeProgressUpdates(started, "inProgress", startedDraft)).toEqual({});
+  });
+
+  it("saves an actual start and a remaining estimate while in progress", () => {
+    const updates = computeProgressUpdates(makeActivity(), "inProgress", startedDraft);
+    expect(updates).toEqual({
+      actualStartDate: "2026-03-02",
+      remainingEstimate: { min: 1, mostLikely: 2, max: 4 },
+    });
+  });
+
+  it("skips a half-typed or unordered remaining estimate", () => {
+    expect(computeProgressUpdates(started, "inProgress", { ...startedDraft, remainingMax: "" })).toEqual({});
+    expect(computeProgressUpdates(started, "inProgress", { ...startedDraft, remainingMin: 5 })).toEqual({});
+  });
+
+  it("keeps the actual finish only when complete, and drops the remaining estimate", () => {
+    const draft = { ...startedDraft, actualFinishDate: "2026-03-06" };
+    const updates = computeProgressUpdates(started, "complete", draft);
+    expect(updates.actualFinishDate).toBe("2026-03-06");
+    expect("remainingEstimate" in updates).toBe(true);
+    expect(updates.remainingEstimate).toBeUndefined();
+    expect(computeProgressUpdates(makeActivity(), "inProgress", draft).actualFinishDate).toBeUndefined();
+  });
+
+  it("clears every actual when going back to planned", () => {
+    const updates = computeProgressUpdates(started, "planned", startedDraft);
+    expect(updates).toEqual({ actualStartDate: undefined, remainingEstimate: undefined });
+    expect("actualStartDate" in updates).toBe(true);
+  });
+});
+
+describe("isHistoryTooShort", () => {
+  it("holds an empirical save until there are enough durations", () => {
+    expect(isHistoryTooShort("empirical", "4, 5, 6, 7")).toBe(true);
+    expect(isHistoryTooShort("empirical", "4, 5, 6, 7, 9")).toBe(false);
+    expect(isHistoryTooShort("pertBeta", "")).toBe(false);
+  });
+});
+
+describe("computeHistoryUpdate", () => {
+  it("saves parsed durations", () => {
+    expect(computeHistoryUpdate(makeActivity(), "4, 5\n6 x 7")).toEqual({ historicalDurations: [4, 5, 6, 7] });
+  });
+
+  it("returns nothing when the parsed list is unchanged", () => {
+    const a = makeActivity({ historicalDurations: [4, 5, 6] });
+    expect(computeHistoryUpdate(a, "4;5;6")).toEqual({});
+    expect(computeHistoryUpdate(makeActivity(), "")).toEqual({});
+  });
+
+  it("emits an EXPLICIT undefined to clear the history", () => {
+    const a = makeActivity({ historicalDurations: [4, 5, 6] });
+    const update = computeHistoryUpdate(a, "  ");
+    expect("historicalDurations" in update).toBe(true);
+    expect(update.historicalDurations).toBeUndefined();
+  });
+});
+
+describe("computeCostUpdate", () => {
+  const blank: CostDraft = { fixed: "", dailyRate: "", fixedMin: "", fixedMax: "" };
+
+  it("saves a fixed cost and rate, blanks counting as 0", () => {
+    expect(computeCostUpdate(makeActivity(), { ...blank, dailyRate: 800 })).toEqual({
+      cost: { fixed: 0, dailyRate: 800 },
+    });
+  });
+
+  it("saves a three-point fixed cost", () => {
+    const draft = { fixed: 5000, dailyRate: 0, fixedMin: 4000, fixedMax: 9000 };
+    expect(computeCostUpdate(makeActivity(), draft)).toEqual({
+      cost: { fixed: 5000, dailyRate: 0, fixedMin: 4000, fixedMax: 9000 },
+    });
+  });
+
+  it("returns nothing when the cost is unchanged, or for a blank draft without one", () => {
+    const a = makeActivity({ cost: { fixed: 100, dailyRate: 50 } });
+    expect(computeCostUpdate(a, { ...blank, fixed: 100, dailyRate: 50 })).toEqual({});
+    expect(computeCostUpdate(makeActivity(), blank)).toEqual({});
+  });
+
+  it("holds a half-typed range or a fixed cost outside it", () => {
+    const halfTyped = { ...blank, fixed: 100, fixedMin: 50 };
+    const outside = { fixed: 100, dailyRate: 0, fixedMin: 150, fixedMax: 200 };
+    expect(computeCostUpdate(makeActivity(), halfTyped)).toEqual({});
+    expect(isCostDraftInvalid(halfTyped)).toBe(true);
+    expect(isCostDraftInvalid(outside)).toBe(true);
+    expect(isCostDraftInvalid(blank)).toBe(false);
+  });
+
+  it("emits an EXPLICIT undefined to clear the cost", () => {
+    const update = computeCostUpdate(makeActivity({ cost: { fixed: 100, dailyRate: 0 } }), blank);
+    expect("cost" in update).toBe(true);
+    expect(update.cost).toBeUndefined();
+  });
+});
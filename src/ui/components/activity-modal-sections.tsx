@@ -5,14 +5,24 @@
 import { useId, useState } from "react";
 import type {
   Activity,
+  ActivityCost,
   ActivityDependency,
   ActivityStatus,
   ConstraintMode,
   ConstraintType,
   DistributionType,
+  RemainingEstimate,
   RSMLevel,
 } from "@domain/models/types";
-import { dependencyLabel } from "@domain/helpers/format-labels";
+import {
+  ACTIVITY_DATE_PERCENTILES,
+  HISTORICAL_DURATIONS_MAX,
+  HISTORICAL_DURATIONS_MIN,
+  RESOURCE_UNITS_MAX,
+} from "@domain/models/types";
+import { parseDurationList } from "@core/distributions/empirical";
+import type { ActivityDateForecast } from "@core/simulation/activity-dates";
+import { dependencyLabel, formatLag } from "@domain/helpers/format-labels";
 
 function actualDurTitle(status: ActivityStatus): string {
   if (status === "planned") return "Set status to In Progress or Complete to enter actual duration";
@@ -20,9 +30,9 @@ function actualDurTitle(status: ActivityStatus): string {
   return "Total working days from scheduled start to actual finish";
 }
 
-function formatDepLagSuffix(lagDays: number): string {
-  if (lagDays === 0) return "";
-  return `, ${lagDays > 0 ? "+" : ""}${lagDays}d`;
+function formatDepLagSuffix(dep: ActivityDependency): string {
+  const lag = formatLag(dep);
+  return lag ? `, ${lag}` : "";
 }
 
 function totalFloatLabel(totalFloat: number | null | undefined): string {
@@ -232,6 +242,31 @@ export function computeDescriptionUpdate(
   return {};
 }
 
+/**
+ * Builds the historical-durations update from the pasted draft text (see
+ * parseDurationList), keeping at most HISTORICAL_DURATIONS_MAX values. A draft with no
+ * valid number clears the list with an explicit `{ historicalDurations: undefined }`, the
+ * same clear convention as computeDescriptionUpdate. Returns `{}` when unchanged.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeHistoryUpdate(activity: Activity, draft: string): Partial<Activity> {
+  const parsed = parseDurationList(draft).slice(0, HISTORICAL_DURATIONS_MAX);
+  const next = parsed.length > 0 ? parsed : undefined;
+  const current = activity.historicalDurations;
+  if (next?.join() === current?.join()) return {};
+  return { historicalDurations: next };
+}
+
+/**
+ * True when the activity would sample an empirical distribution from fewer than
+ * HISTORICAL_DURATIONS_MIN pasted durations — an activity ActivitySchema rejects, so the
+ * modal holds the save until the list is long enough or another type is chosen.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function isHistoryTooShort(distributionType: DistributionType, draft: string): boolean {
+  return distributionType === "empirical" && parseDurationList(draft).length < HISTORICAL_DURATIONS_MIN;
+}
+
 /**
  * Builds the General-section field updates: name, status, and actual duration.
  *
@@ -301,6 +336,336 @@ export function computeEstimateUpdates(
   return updates;
 }
 
+/** One row of the Resources-section draft: units of a pool resource, "" while blank. */
+export interface ResourceUnitsDraft {
+  resourceId: string;
+  units: string | number;
+}
+
+/**
+ * Builds the Resources-section update. A blank or non-positive row is "not assigned";
+ * units above the schema maximum are clamped to it.
+ *
+ * The comparison ignores order — the draft lists the pool in pool order, while the stored
+ * assignments keep the order they were made in — so opening and saving without an edit
+ * produces no update. Clearing every row emits an explicit `{ resourceAssignments:
+ * undefined }`, the same clear convention as computeDescriptionUpdate.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeResourceUpdates(
+  activity: Activity,
+  draft: ResourceUnitsDraft[],
+): Partial<Activity> {
+  const next = draft
+    .filter((row) => row.units !== "" && Number(row.units) > 0)
+    .map((row) => ({
+      resourceId: row.resourceId,
+      units: Math.min(Number(row.units), RESOURCE_UNITS_MAX),
+    }));
+  const current = activity.resourceAssignments ?? [];
+  const unchanged =
+    next.length === current.length &&
+    next.every((ra) =>
+      current.some((c) => c.resourceId === ra.resourceId && c.units === ra.units)
+    );
+  if (unchanged) return {};
+  return { resourceAssignments: next.length > 0 ? next : undefined };
+}
+
+/**
+ * Builds the Calendar-section update. "" is the project calendar, which clears the stored
+ * id with an explicit `{ calendarId: undefined }` (see computeResourceUpdates).
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeCalendarUpdate(activity: Activity, calendarId: string): Partial<Activity> {
+  if (calendarId === (activity.calendarId ?? "")) return {};
+  return { calendarId: calendarId || undefined };
+}
+
+/**
+ * Builds the Summary-section update. "" is the top level of the WBS, which clears the
+ * stored id the same explicit way as computeCalendarUpdate.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeSummaryUpdate(activity: Activity, summaryId: string): Partial<Activity> {
+  if (summaryId === (activity.summaryId ?? "")) return {};
+  return { summaryId: summaryId || undefined };
+}
+
+/** The Progress-section draft: actual dates ("" = none) and the remaining estimate, "" while blank. */
+export interface ProgressDraft {
+  actualStartDate: string;
+  actualFinishDate: string;
+  remainingMin: string | number;
+  remainingMostLikely: string | number;
+  remainingMax: string | number;
+}
+
+/**
+ * The remaining estimate a draft describes: undefined when all three fields are blank,
+ * null when it is half-typed or out of order (no update — see computeEstimateUpdates).
+ */
+function draftRemainingEstimate(draft: ProgressDraft): RemainingEstimate | undefined | null {
+  const fields = [draft.remainingMin, draft.remainingMostLikely, draft.remainingMax];
+  if (fields.every((f) => f === "")) return undefined;
+  if (fields.some((f) => f === "")) return null;
+  const [min, mostLikely, max] = fields.map(Number) as [number, number, number];
+  if (!(min >= 0 && min <= mostLikely && mostLikely <= max && max > 0)) return null;
+  return { min, mostLikely, max };
+}
+
+function sameRemaining(a: RemainingEstimate | undefined, b: RemainingEstimate | undefined): boolean {
+  return a?.min === b?.min && a?.mostLikely === b?.mostLikely && a?.max === b?.max;
+}
+
+/**
+ * Builds the Progress-section updates. What each field means depends on the status, so
+ * the status being saved decides what is kept: a planned activity has no actuals, only a
+ * complete one has an actual finish, and only an in-progress one a remaining estimate.
+ * Dropped or cleared fields emit an explicit `undefined` (see computeDescriptionUpdate).
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeProgressUpdates(
+  activity: Activity,
+  status: ActivityStatus,
+  draft: ProgressDraft,
+): Partial<Activity> {
+  const updates: Partial<Activity> = {};
+  const start = status === "planned" ? undefined : draft.actualStartDate || undefined;
+  const finish = status === "complete" ? draft.actualFinishDate || undefined : undefined;
+  if (start !== activity.actualStartDate) updates.actualStartDate = start;
+  if (finish !== activity.actualFinishDate) updates.actualFinishDate = finish;
+
+  const remaining = status === "inProgress" ? draftRemainingEstimate(draft) : undefined;
+  if (remaining !== null && !sameRemaining(remaining, activity.remainingEstimate)) {
+    updates.remainingEstimate = remaining;
+  }
+  return updates;
+}
+
+/** The Cost-section draft, "" while blank: the fixed amount, its optional range, the daily rate. */
+export interface CostDraft {
+  fixed: string | number;
+  dailyRate: string | number;
+  fixedMin: string | number;
+  fixedMax: string | number;
+}
+
+/**
+ * The cost a draft describes: undefined when it costs nothing, null when the range is
+ * half-typed or the fixed amount falls outside it (no update, as draftRemainingEstimate).
+ * A blank fixed amount or rate is 0.
+ */
+function draftCost(draft: CostDraft): ActivityCost | undefined | null {
+  const fixed = draft.fixed === "" ? 0 : Number(draft.fixed);
+  const dailyRate = draft.dailyRate === "" ? 0 : Number(draft.dailyRate);
+  if (!(fixed >= 0 && dailyRate >= 0)) return null;
+  if ((draft.fixedMin === "") !== (draft.fixedMax === "")) return null;
+  if (draft.fixedMin === "") {
+    return fixed === 0 && dailyRate === 0 ? undefined : { fixed, dailyRate };
+  }
+  const fixedMin = Number(draft.fixedMin);
+  const fixedMax = Number(draft.fixedMax);
+  if (!(fixedMin >= 0 && fixedMin <= fixed && fixed <= fixedMax)) return null;
+  return { fixed, dailyRate, fixedMin, fixedMax };
+}
+
+/** Whether the Cost section holds a draft that will not save (see draftCost). */
+// eslint-disable-next-line react-refresh/only-export-components
+export function isCostDraftInvalid(draft: CostDraft): boolean {
+  return draftCost(draft) === null;
+}
+
+/**
+ * Builds the Cost-section update. A draft that costs nothing clears the stored cost with
+ * an explicit `{ cost: undefined }` (see computeDescriptionUpdate).
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export function computeCostUpdate(activity: Activity, draft: CostDraft): Partial<Activity> {
+  const cost = draftCost(draft);
+  if (cost === null) return {};
+  const current = activity.cost;
+  const unchanged =
+    cost?.fixed === current?.fixed &&
+    cost?.dailyRate === current?.dailyRate &&
+    cost?.fixedMin === current?.fixedMin &&
+    cost?.fixedMax === current?.fixedMax;
+  return unchanged ? {} : { cost };
+}
+
+const PROGRESS_INPUT_CLASS =
+  "w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-400 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * The historical durations an empirical distribution samples, pasted as a list. The
+ * count under the field shows how many values parse, so a stray word is easy to spot.
+ */
+export function HistoricalDurationsField({
+  draft,
+  onChange,
+}: {
+  draft: string;
+  onChange: (draft: string) => void;
+}) {
+  const id = useId();
+  const count = parseDurationList(draft).length;
+  const tooFew = count < HISTORICAL_DURATIONS_MIN;
+  return (
+    <div className="mt-3">
+      <label htmlFor={id} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+        Historical durations (working days)
+      </label>
+      <textarea
+        id={id}
+        name="historicalDurations"
+        rows={2}
+        value={draft}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g., 12, 9, 15, 11, 20"
+        className="w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1.5 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:border-blue-400 focus:outline-none"
+      />
+      <p className={`text-xs mt-1 ${tooFew ? "text-amber-600 dark:text-amber-400" : "text-gray-500 dark:text-gray-400"}`}>
+        {count} {count === 1 ? "value" : "values"}
+        {tooFew && ` — the empirical distribution needs at least ${HISTORICAL_DURATIONS_MIN}`}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Actual dates and the remaining estimate. Dates, once entered, are what the schedule
+ * and the simulation go by (status-date.ts): a complete activity's duration comes from
+ * its actual start and finish, an in-progress one's elapsed time from its actual start
+ * through the scenario's status date.
+ */
+export function ProgressSection({
+  status,
+  draft,
+  onChange,
+}: {
+  status: ActivityStatus;
+  draft: ProgressDraft;
+  onChange: (updates: Partial<ProgressDraft>) => void;
+}) {
+  const baseId = useId();
+  const numberValue = (raw: string) => (raw === "" ? "" : Number(raw));
+  const remainingFields = [
+    { key: "remainingMin", label: "Min" },
+    { key: "remainingMostLikely", label: "ML" },
+    { key: "remainingMax", label: "Max" },
+  ] as const;
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${baseId}-start`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            Actual Start
+          </label>
+          <input
+            id={`${baseId}-start`}
+            name="actualStartDate"
+            type="date"
+            value={draft.actualStartDate}
+            onChange={(e) => onChange({ actualStartDate: e.target.value })}
+            disabled={status === "planned"}
+            className={PROGRESS_INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${baseId}-finish`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            Actual Finish
+          </label>
+          <input
+            id={`${baseId}-finish`}
+            name="recordedFinishDate"
+            type="date"
+            value={draft.actualFinishDate}
+            min={draft.actualStartDate || undefined}
+            onChange={(e) => onChange({ actualFinishDate: e.target.value })}
+            disabled={status !== "complete"}
+            className={PROGRESS_INPUT_CLASS}
+          />
+        </div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+          Remaining work (working days from the status date). Leave blank to forecast from
+          the original estimate.
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {remainingFields.map(({ key, label }) => (
+            <div key={key}>
+              <label htmlFor={`${baseId}-${key}`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                {label}
+              </label>
+              <input
+                id={`${baseId}-${key}`}
+                name={key}
+                type="number"
+                min={0}
+                step={0.5}
+                value={draft[key]}
+                onChange={(e) => onChange({ [key]: numberValue(e.target.value) })}
+                disabled={status !== "inProgress"}
+                className={PROGRESS_INPUT_CLASS}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Fixed cost and daily burn rate. The rate is charged for every simulated working day, so
+ * the project cost follows the duration; a min/max around the fixed amount makes it a
+ * three-point estimate of its own.
+ */
+export function CostSection({
+  draft,
+  onChange,
+}: {
+  draft: CostDraft;
+  onChange: (updates: Partial<CostDraft>) => void;
+}) {
+  const baseId = useId();
+  const numberValue = (raw: string) => (raw === "" ? "" : Number(raw));
+  const fields = [
+    { key: "fixed", label: "Fixed cost" },
+    { key: "dailyRate", label: "Daily rate" },
+    { key: "fixedMin", label: "Fixed min" },
+    { key: "fixedMax", label: "Fixed max" },
+  ] as const;
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3">
+        {fields.map(({ key, label }) => (
+          <div key={key}>
+            <label htmlFor={`${baseId}-${key}`} className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+              {label}
+            </label>
+            <input
+              id={`${baseId}-${key}`}
+              name={`cost-${key}`}
+              type="number"
+              min={0}
+              value={draft[key]}
+              onChange={(e) => onChange({ [key]: numberValue(e.target.value) })}
+              className={PROGRESS_INPUT_CLASS}
+            />
+          </div>
+        ))}
+      </div>
+      <p className={`text-xs ${isCostDraftInvalid(draft) ? "text-amber-600 dark:text-amber-400" : "text-gray-500 dark:text-gray-400"}`}>
+        {isCostDraftInvalid(draft)
+          ? "Set both the min and the max, with the fixed cost between them, or leave both blank."
+          : "The daily rate is charged for every working day the activity runs. Min and max make the fixed cost uncertain."}
+      </p>
+    </div>
+  );
+}
+
 /**
  * Display-only list of predecessors/successors for a single activity.
  *
@@ -353,7 +718,7 @@ export function DependenciesDisplaySection({
                     {activityNameById(otherId)}
                   </span>
                   <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">
-                    {dependencyLabel(dep.type)}{formatDepLagSuffix(dep.lagDays)}
+                    {dependencyLabel(dep.type)}{formatDepLagSuffix(dep)}
                   </span>
                 </div>
                 {onEditDependency && (
@@ -388,7 +753,14 @@ export function ScheduleAnalysisSection({
   sa,
   formatDate,
 }: {
-  sa: { startDate: string; endDate: string; duration: number; totalFloat?: number; freeFloat?: number | null };
+  sa: {
+    startDate: string;
+    endDate: string;
+    duration: number;
+    totalFloat?: number;
+    freeFloat?: number | null;
+    levelingDelay?: number;
+  };
   formatDate: (iso: string) => string;
 }) {
   return (
@@ -409,6 +781,41 @@ export function ScheduleAnalysisSection({
           <div className="text-gray-900 dark:text-gray-100">{sa.freeFloat} days</div>
         </>
       )}
+      {sa.levelingDelay != null && (
+        <>
+          <div className="text-gray-500 dark:text-gray-400">Leveling Delay</div>
+          <div className="text-amber-600 dark:text-amber-400">{sa.levelingDelay} working days</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The activity's simulated start and finish at each reported percentile, from the last
+ * run — the dates to quote when a handoff needs a confidence level.
+ */
+export function SimulatedDatesSection({
+  forecast,
+  formatDate,
+}: {
+  forecast: ActivityDateForecast;
+  formatDate: (iso: string) => string;
+}) {
+  return (
+    <div className="grid grid-cols-4 gap-x-4 gap-y-2 text-sm">
+      <div />
+      {ACTIVITY_DATE_PERCENTILES.map((p) => (
+        <div key={p} className="text-xs font-medium text-gray-500 dark:text-gray-400">P{p}</div>
+      ))}
+      <div className="text-gray-500 dark:text-gray-400">Start</div>
+      {ACTIVITY_DATE_PERCENTILES.map((p) => (
+        <div key={p} className="text-gray-900 dark:text-gray-100 tabular-nums">{formatDate(forecast.start[p]!)}</div>
+      ))}
+      <div className="text-gray-500 dark:text-gray-400">Finish</div>
+      {ACTIVITY_DATE_PERCENTILES.map((p) => (
+        <div key={p} className="text-gray-900 dark:text-gray-100 tabular-nums">{formatDate(forecast.finish[p]!)}</div>
+      ))}
     </div>
   );
 }
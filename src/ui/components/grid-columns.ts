@@ -4,8 +4,24 @@
 
 /** Shared CSS grid column template for the activity grid (header + subheader + rows). */
 export const GRID_COLUMNS =
-  "24px 20px 1fr 40px 90px 90px 38px 38px 38px 96px 110px 110px 40px 1px 40px 8px";
+  "24px 20px 1fr 40px 90px 90px 38px 38px 38px 96px 110px 110px 40px 40px 1px 40px 8px";
 
 /** Grid column template with constraint column (dependency mode). */
 export const GRID_COLUMNS_WITH_CONSTRAINT =
-  "24px 20px 1fr 40px 90px 90px 80px 38px 38px 38px 96px 110px 110px 40px 1px 40px 8px";
+  "24px 20px 1fr 40px 90px 90px 80px 38px 38px 38px 96px 110px 110px 40px 40px 1px 40px 8px";
+
+/** The optional simulated start and finish columns, inserted after the criticality column. */
+const DATE_PERCENTILE_COLUMNS = "130px 130px";
+
+/**
+ * The grid template for a row: with or without the constraint column, and with the
+ * simulated date columns when they are shown. Every row kind must use the same call.
+ */
+export function gridColumnsFor(showConstraintColumn: boolean, showDatePercentiles = false): string {
+  const base = showConstraintColumn ? GRID_COLUMNS_WITH_CONSTRAINT : GRID_COLUMNS;
+  // Inserted ahead of the 1px separator track.
+  return showDatePercentiles ? base.replace(" 1px ", ` ${DATE_PERCENTILE_COLUMNS} 1px `) : base;
+}
+
+/** Left indent per WBS nesting level for the name column (activity and summary rows). */
+export const WBS_INDENT_PX = 14;
@@ -18,19 +18,17 @@ import {
   statusLabel,
   milestoneHealthTextClass,
   milestoneHealthLabel,
+  formatLag,
+  usesConfidenceLevel,
 } from "@domain/helpers/format-labels";
 import { CONSTRAINT_LABELS } from "@domain/helpers/constraint-labels";
+import { rankRisks } from "@core/simulation/risk-events";
 
 function formatSignedBufferDays(buffer: { bufferDays: number } | null): string {
   if (!buffer) return "—";
   return `${buffer.bufferDays > 0 ? "+" : ""}${buffer.bufferDays} days`;
 }
 
-function formatSignedLag(lagDays: number): string {
-  if (lagDays === 0) return "0";
-  return `${lagDays > 0 ? "+" : ""}${lagDays}`;
-}
-
 function formatSignedSlackDays(slackDays: number | null | undefined): string {
   if (slackDays === null || slackDays === undefined) return "—";
   return `${slackDays >= 0 ? "+" : ""}${slackDays}d`;
@@ -227,7 +225,7 @@ export function PrintActivityTable({
                   {activity.max}
                 </td>
                 <td className="py-0.5 pr-1">
-                  {activity.distributionType === "normal" || activity.distributionType === "logNormal"
+                  {usesConfidenceLevel(activity.distributionType)
                     ? RSM_LABELS[activity.confidenceLevel]
                     : "—"}
                 </td>
@@ -288,7 +286,7 @@ export function PrintDependenciesTable({ scenario }: PrintDependenciesTableProps
                 <td className="py-0.5 pr-1 font-medium">{toName}</td>
                 <td className="py-0.5 pr-1 text-center">{dep.type}</td>
                 <td className="py-0.5 tabular-nums">
-                  {formatSignedLag(dep.lagDays)}
+                  {formatLag(dep) || "0"}
                 </td>
               </tr>
             );
@@ -517,6 +515,67 @@ export function PrintMilestonesTable({
   );
 }
 
+// -- Risk Register -----------------------------------------------------------
+
+interface PrintRiskRegisterTableProps {
+  scenario: Scenario;
+}
+
+function formatContribution(days: number | undefined): string {
+  if (days === undefined) return "—";
+  const rounded = Math.round(days * 10) / 10;
+  return rounded > 0 ? `+${rounded.toFixed(1)}d` : `${rounded.toFixed(1)}d`;
+}
+
+/** The register, ranked by contribution to P95 when the scenario has been simulated. */
+export function PrintRiskRegisterTable({ scenario }: PrintRiskRegisterTableProps) {
+  const risks = scenario.risks ?? [];
+  if (risks.length === 0) return null;
+  const nameById = new Map(scenario.activities.map((a) => [a.id, a.name]));
+  const ranked = rankRisks(risks, scenario.simulationResults?.riskResults);
+  return (
+    <section className="mb-3 print-section-keep">
+      <h2 className="text-base font-semibold border-b border-gray-300 pb-1 mb-2">
+        Risk Register ({risks.length})
+      </h2>
+      <table className="w-full text-[9px] border-collapse">
+        <thead>
+          <tr className="border-b-2 border-gray-400 text-left">
+            <th className="py-1 pr-1">#</th>
+            <th className="py-1 pr-1">Risk</th>
+            <th className="py-1 pr-1 text-right">Probability</th>
+            <th className="py-1 pr-1 text-right">Impact (days)</th>
+            <th className="py-1 pr-1">Affects</th>
+            <th className="py-1 pr-1 text-right">Fired</th>
+            <th className="py-1 pr-1 text-right">P80 impact</th>
+            <th className="py-1 text-right">P95 impact</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map(({ risk, result }, idx) => (
+            <tr key={risk.id} className="border-b border-gray-200">
+              <td className="py-0.5 pr-1 text-gray-500">{idx + 1}</td>
+              <td className="py-0.5 pr-1 font-medium">{risk.name}</td>
+              <td className="py-0.5 pr-1 text-right tabular-nums">{Math.round(risk.probability * 100)}%</td>
+              <td className="py-0.5 pr-1 text-right tabular-nums">
+                {risk.impactMin}–{risk.impactMostLikely}–{risk.impactMax}
+              </td>
+              <td className="py-0.5 pr-1">
+                {risk.activityIds.map((id) => nameById.get(id)).filter(Boolean).join(", ") || "—"}
+              </td>
+              <td className="py-0.5 pr-1 text-right tabular-nums">
+                {result ? `${Math.round(result.occurrence * 100)}%` : "—"}
+              </td>
+              <td className="py-0.5 pr-1 text-right tabular-nums">{formatContribution(result?.p80Contribution)}</td>
+              <td className="py-0.5 text-right tabular-nums">{formatContribution(result?.p95Contribution)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
 // -- Simulation Results ------------------------------------------------------
 
 export interface PrintSimulationResultsSectionProps {
@@ -16,6 +16,7 @@ import {
   getActivityRowIds,
   handleCrossRowTabNav,
   handleInRowTabNav,
+  selectableDistributionTypes,
 } from "./unified-activity-helpers";
 
 const focusFieldMock = vi.fn();
@@ -507,3 +508,12 @@ describe("planBulkApply", () => {
     ]);
   });
 });
+
+describe("selectableDistributionTypes", () => {
+  it("offers empirical only with enough history or when already selected", () => {
+    expect(selectableDistributionTypes(makeActivity())).not.toContain("empirical");
+    expect(selectableDistributionTypes(makeActivity({ historicalDurations: [3] }))).not.toContain("empirical");
+    expect(selectableDistributionTypes(makeActivity({ historicalDurations: [3, 4, 5, 6, 8] }))).toContain("empirical");
+    expect(selectableDistributionTypes(makeActivity({ distributionType: "empirical" }))).toContain("empirical");
+  });
+});
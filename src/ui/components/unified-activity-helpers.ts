@@ -2,7 +2,12 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity } from "@domain/models/types";
+import type { Activity, DistributionType } from "@domain/models/types";
+import {
+  DISTRIBUTION_TYPES,
+  HISTORICAL_DURATIONS_MIN,
+  PARAMETRIC_DISTRIBUTION_TYPES,
+} from "@domain/models/types";
 import { hasAnyConstraint } from "@domain/helpers/constraint-labels";
 import { focusField, focusNextRow, focusPrevRow } from "./activity-row-helpers";
 
@@ -11,6 +16,19 @@ import { focusField, focusNextRow, focusPrevRow } from "./activity-row-helpers";
 // an app → UI import.
 export { hasAnyConstraint };
 
+/**
+ * The distribution types the grid offers for an activity: "empirical" only once it has
+ * enough historical durations to sample (entered in the edit modal) or already uses it.
+ */
+export function selectableDistributionTypes(
+  activity: Pick<Activity, "distributionType" | "historicalDurations">,
+): readonly DistributionType[] {
+  const offersEmpirical =
+    activity.distributionType === "empirical" ||
+    (activity.historicalDurations?.length ?? 0) >= HISTORICAL_DURATIONS_MIN;
+  return offersEmpirical ? DISTRIBUTION_TYPES : PARAMETRIC_DISTRIBUTION_TYPES;
+}
+
 export function constraintBadgeClass(
   hasConstraint: boolean,
   mode: "hard" | "soft" | null | undefined,
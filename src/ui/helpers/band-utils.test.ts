@@ -6,8 +6,10 @@ import { describe, it, expect } from "vitest";
 import type { Activity, ActivityBand } from "@domain/models/types";
 import {
   buildRenderList,
+  buildReorderList,
   buildActivitySlotMap,
   deriveReorderResult,
+  renderItemId,
   type GanttRenderItem,
 } from "./band-utils";
 import {
@@ -70,7 +72,7 @@ describe("buildRenderList", () => {
     const bA: ActivityBand = { id: "bA", name: "Before a1", insertBeforeActivityId: "a1" };
     const bC: ActivityBand = { id: "bC", name: "Before a3", insertBeforeActivityId: "a3" };
     const items = buildRenderList([a1, a2, a3], [bA, bC]);
-    expect(items.map((i) => (i.kind === "activity" ? i.activity.id : i.band.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "bA",
       "a1",
       "a2",
@@ -84,7 +86,7 @@ describe("buildRenderList", () => {
     const bFirst: ActivityBand = { id: "b1", name: "First", insertBeforeActivityId: "a1" };
     const bSecond: ActivityBand = { id: "b2", name: "Second", insertBeforeActivityId: "a1" };
     const items = buildRenderList([a1], [bFirst, bSecond]);
-    expect(items.map((i) => (i.kind === "band" ? i.band.id : i.activity.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "b1",
       "b2",
       "a1",
@@ -107,7 +109,7 @@ describe("buildRenderList", () => {
     const b1: ActivityBand = { id: "b1", name: "1", insertBeforeActivityId: "a1" };
     const b2: ActivityBand = { id: "b2", name: "2", insertBeforeActivityId: null };
     const items = buildRenderList([], [b1, b2]);
-    expect(items.map((i) => (i.kind === "band" ? i.band.id : i.activity.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "b1",
       "b2",
     ]);
@@ -160,6 +162,35 @@ describe("buildRenderList", () => {
   });
 });
 
+describe("buildRenderList with WBS summaries", () => {
+  const a1 = { ...makeActivity("a1"), summaryId: "w1" };
+  const a2 = makeActivity("a2");
+  const summaries = [{ id: "w1", name: "Phase" }];
+
+  it("follows the outline: summary rows precede their activities, which carry a depth", () => {
+    const band: ActivityBand = { id: "b1", name: "X", insertBeforeActivityId: "a2" };
+    const items = buildRenderList([a1, a2], [band], summaries);
+    expect(items.map(renderItemId)).toEqual(["w1", "a1", "b1", "a2"]);
+    expect(items[0]).toMatchObject({ kind: "summary", code: "1", depth: 0 });
+    expect(items[1]).toMatchObject({ kind: "activity", depth: 1 });
+  });
+
+  it("hides activities beneath a collapsed summary, with the bands anchored to them", () => {
+    const band: ActivityBand = { id: "b1", name: "X", insertBeforeActivityId: "a1" };
+    const collapsed = [{ ...summaries[0]!, collapsed: true }];
+    const items = buildRenderList([a1, a2], [band], collapsed);
+    expect(items.map(renderItemId)).toEqual(["w1", "a2"]);
+    expect(buildActivitySlotMap(items).has("a1")).toBe(false);
+  });
+
+  it("keeps hidden activities when a drag reorders a collapsed outline", () => {
+    const collapsed = [{ ...summaries[0]!, collapsed: true }];
+    const a3 = makeActivity("a3");
+    const result = deriveReorderResult(buildReorderList([a1, a2, a3], [], collapsed), "a3", "a2");
+    expect(result!.activities.map((a) => a.id)).toEqual(["a1", "a3", "a2"]);
+  });
+});
+
 describe("buildActivitySlotMap", () => {
   it("returns correct slot index for each activity when no bands present", () => {
     const a1 = makeActivity("a1");
@@ -369,7 +400,7 @@ describe("buildRenderList after insert actions", () => {
     const inserted = makeActivity("ins");
     const updated = insertActivityAfter(s, inserted, "a2");
     const items = buildRenderList(updated.activities, updated.bands ?? []);
-    expect(items.map((i) => (i.kind === "activity" ? i.activity.id : i.band.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "a1",
       "a2",
       "ins",
@@ -393,7 +424,7 @@ describe("buildRenderList after insert actions", () => {
     const updated = insertActivityAfterBand(s, inserted, "b2")!;
     const items = buildRenderList(updated.activities, updated.bands ?? []);
     // Expected: b1 (re-anchored to ins), b2 (re-anchored to ins), ins, b3 (still on a2), a2 — preceded by a1
-    expect(items.map((i) => (i.kind === "activity" ? i.activity.id : i.band.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "a1",
       "b1",
       "b2",
@@ -418,7 +449,7 @@ describe("buildRenderList after insert actions", () => {
     const updated = insertActivityAfterBand(s, inserted, "b2")!;
     const items = buildRenderList(updated.activities, updated.bands ?? []);
     // Expected render: a1, b1 (anchored to ins), b2 (anchored to ins), ins, b3 (still trailing)
-    expect(items.map((i) => (i.kind === "activity" ? i.activity.id : i.band.id))).toEqual([
+    expect(items.map(renderItemId)).toEqual([
       "a1",
       "b1",
       "b2",
@@ -2,11 +2,17 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, ActivityBand } from "@domain/models/types";
+import type { Activity, ActivityBand, WbsSummary } from "@domain/models/types";
+import { buildWbsOutline, visibleWbsOutline } from "@core/schedule/wbs";
 
+/**
+ * One row of the grid or Gantt. `depth` is the WBS nesting level (0 = top level); it is
+ * absent on a flat list, where every row is at the top level.
+ */
 export type GanttRenderItem =
-  | { kind: "activity"; activity: Activity }
-  | { kind: "band"; band: ActivityBand };
+  | { kind: "activity"; activity: Activity; depth?: number }
+  | { kind: "band"; band: ActivityBand }
+  | { kind: "summary"; summary: WbsSummary; code: string; depth: number };
 
 interface PartitionedBands {
   anchoredByActivity: Map<string, ActivityBand[]>;
@@ -40,21 +46,34 @@ function partitionBands(
  *   immediately before that activity, preserving relative order from `bands`.
  * - Bands with a null anchor, or whose anchor ID does not exist in
  *   `activities`, render after all activities (trailing) in `bands` order.
+ * - With WBS `summaries`, rows follow the outline instead (wbs.ts): each summary row
+ *   precedes what sits beneath it, and nothing beneath a collapsed summary renders —
+ *   including a band anchored to a hidden activity. Without any, the list is exactly
+ *   the flat one above.
  */
 export function buildRenderList(
   activities: Activity[],
   bands: ActivityBand[],
+  summaries: WbsSummary[] = [],
 ): GanttRenderItem[] {
   const activityIds = new Set(activities.map((a) => a.id));
   const { anchoredByActivity, trailing } = partitionBands(bands, activityIds);
 
   const items: GanttRenderItem[] = [];
-  for (const activity of activities) {
+  const pushActivity = (activity: Activity, depth?: number) => {
     const anchored = anchoredByActivity.get(activity.id);
     if (anchored) {
       for (const band of anchored) items.push({ kind: "band", band });
     }
-    items.push({ kind: "activity", activity });
+    items.push(depth === undefined ? { kind: "activity", activity } : { kind: "activity", activity, depth });
+  };
+  if (summaries.length === 0) {
+    for (const activity of activities) pushActivity(activity);
+  } else {
+    for (const item of visibleWbsOutline(buildWbsOutline(activities, summaries))) {
+      if (item.kind === "activity") pushActivity(item.activity, item.depth);
+      else items.push(item);
+    }
   }
   for (const band of trailing) items.push({ kind: "band", band });
   return items;
@@ -62,9 +81,9 @@ export function buildRenderList(
 
 /**
  * Map each activity ID to its 0-based slot index in the render list.
- * The slot counter increments for every item (band or activity), so the
- * returned index reflects the activity's actual render-list position.
- * Bands are not included in the map.
+ * The slot counter increments for every item (band, summary or activity), so
+ * the returned index reflects the activity's actual render-list position.
+ * Bands and summaries are not included in the map.
  */
 export function buildActivitySlotMap(
   items: GanttRenderItem[],
@@ -79,8 +98,31 @@ export function buildActivitySlotMap(
   return map;
 }
 
-function itemId(item: GanttRenderItem): string {
-  return item.kind === "activity" ? item.activity.id : item.band.id;
+/**
+ * The render list with every summary expanded — what a drag must reorder. The visible
+ * list leaves out whatever sits beneath a collapsed summary, and deriveReorderResult
+ * rebuilds the WHOLE activity order from the list it is given, so reordering the visible
+ * list would drop the hidden activities from the scenario.
+ */
+export function buildReorderList(
+  activities: Activity[],
+  bands: ActivityBand[],
+  summaries: WbsSummary[] = [],
+): GanttRenderItem[] {
+  const expanded = summaries.map((s) => (s.collapsed ? { ...s, collapsed: false } : s));
+  return buildRenderList(activities, bands, expanded);
+}
+
+/** The row's id — the sortable id in the grid. */
+export function renderItemId(item: GanttRenderItem): string {
+  switch (item.kind) {
+    case "activity":
+      return item.activity.id;
+    case "band":
+      return item.band.id;
+    case "summary":
+      return item.summary.id;
+  }
 }
 
 /**
@@ -89,6 +131,8 @@ function itemId(item: GanttRenderItem): string {
  * Applies the move (`activeId` → `overId`) to a copy of `renderItems`, then
  * walks the result once to extract the new activity order and re-anchor each
  * band to the first activity that follows it (or `null` when none follows).
+ * Summary rows are not draggable and contribute nothing: an activity's summary
+ * is its `summaryId`, which a drag does not change.
  *
  * Returns `null` if either ID is not found in `renderItems` or `activeId`
  * equals `overId`.
@@ -103,7 +147,7 @@ export function deriveReorderResult(
   let oldIndex = -1;
   let newIndex = -1;
   for (let i = 0; i < renderItems.length; i++) {
-    const id = itemId(renderItems[i]!);
+    const id = renderItemId(renderItems[i]!);
     if (id === activeId) oldIndex = i;
     if (id === overId) newIndex = i;
   }
@@ -125,7 +169,7 @@ export function deriveReorderResult(
     if (item.kind === "activity") {
       activities.unshift(item.activity);
       nextActivityId = item.activity.id;
-    } else {
+    } else if (item.kind === "band") {
       bands.unshift({
         ...item.band,
         insertBeforeActivityId: nextActivityId,
@@ -89,6 +89,25 @@ describe("buildSimulationParams", () => {
     expect(result.dependencyParams!.milestoneActivityIds!["m1"]).toContain("a1");
   });
 
+  it("adds a resource leveling model only when an activity holds a pool resource", () => {
+    const deps: ActivityDependency[] = [];
+    const pool = [{ id: "r1", name: "Dev", capacity: 1 }];
+    const plain = buildSimulationParams(
+      activities, true, 0.5, deps, milestones, "2026-01-05", undefined, true, pool,
+    );
+    expect(plain.dependencyParams!.resourceLeveling).toBeUndefined();
+
+    const held = activities.map((a) => ({ ...a, resourceAssignments: [{ resourceId: "r1", units: 1 }] }));
+    const leveled = buildSimulationParams(
+      held, true, 0.5, deps, milestones, "2026-01-05", undefined, true, pool,
+    );
+    expect(leveled.dependencyParams!.resourceLeveling).toMatchObject({
+      capacities: { r1: 1 },
+      demands: { a1: [{ resourceId: "r1", units: 1 }], a2: [{ resourceId: "r1", units: 1 }] },
+    });
+    expect(leveled.dependencyParams!.resourceLeveling!.placementOrder).toHaveLength(2);
+  });
+
   // -- Parkinson's Law toggle ------------------------------------------------
 
   it("sequential: parkinsonsLawEnabled=false produces undefined deterministicDurations", () => {
@@ -120,4 +139,46 @@ describe("buildSimulationParams", () => {
     expect(result.deterministicDurations).toBeDefined();
     expect(result.deterministicDurations).toHaveLength(2);
   });
+
+  describe("status date", () => {
+    const progressed: Activity[] = [
+      makeActivity({ id: "a1", status: "inProgress", actualStartDate: "2026-01-05" }),
+      makeActivity({ id: "a2" }),
+    ];
+
+    it("returns the progressed activities for the trials", () => {
+      const result = buildSimulationParams(
+        progressed, true, 0.5, dependencies, milestones, "2026-01-05", undefined, true,
+        undefined, undefined, undefined, "2026-01-07",
+      );
+      expect(result.activities[0]!.actualDuration).toBe(3);
+      expect(result.activities[1]).toBe(progressed[1]);
+    });
+
+    it("dependency: adds release offsets to the earliest starts", () => {
+      const result = buildSimulationParams(
+        progressed, true, 0.5, dependencies, milestones, "2026-01-05", undefined, true,
+        undefined, undefined, undefined, "2026-01-07",
+      );
+      // a1 started on the project start, so it floors nothing; a2 waits for Thu 2026-01-08.
+      expect(result.dependencyParams!.activityEarliestStart).toEqual({ a2: 3 });
+    });
+
+    it("sequential: adds release offsets as hard SNET entries, keeping the later of an own SNET", () => {
+      const constrained = [
+        progressed[0]!,
+        makeActivity({ id: "a2", constraintType: "SNET", constraintDate: "2026-01-06", constraintMode: "hard" }),
+        makeActivity({ id: "a3", constraintType: "SNET", constraintDate: "2026-01-20", constraintMode: "hard" }),
+      ];
+      const result = buildSimulationParams(
+        constrained, false, 0.5, dependencies, milestones, "2026-01-05", undefined, true,
+        undefined, undefined, undefined, "2026-01-07",
+      );
+      expect(result.sequentialConstraints).toEqual([
+        null,
+        { type: "SNET", offsetFromStart: 3, mode: "hard" },
+        { type: "SNET", offsetFromStart: 11, mode: "hard" },
+      ]);
+    });
+  });
 });
@@ -2,22 +2,33 @@
 // Licensed under the GNU General Public License v3.0.
 // See LICENSE file in the project root for full license text.
 
-import type { Activity, Calendar, Milestone, ActivityDependency } from "@domain/models/types";
+import type { Activity, Calendar, Milestone, ActivityDependency, Resource, WbsSummary } from "@domain/models/types";
 import { advanceToNextWorkingDay, type WorkCalendar } from "@core/calendar/work-calendar";
 import type { DependencySimulationParams } from "@core/simulation/worker-client";
 import { computeDeterministicDurations, computeDependencyDurations } from "@core/schedule/deterministic";
 import { buildMilestoneSimParams } from "@core/schedule/milestone-sim-params";
+import { buildElapsedLagCalendar, hasElapsedLags } from "@core/schedule/elapsed-lag";
+import { buildDependencyGraph } from "@core/schedule/dependency-graph";
+import { resolvePercentLags } from "@core/schedule/percent-lag";
+import { buildResourceLevelingModel, hasResourceAssignments } from "@core/schedule/resource-leveling";
+import { buildActivityCalendarAxis, scheduleAxisCalendar } from "@core/schedule/activity-calendars";
+import { collectSummaryActivityIds } from "@core/schedule/wbs";
+import { applyStatusDate, releaseOffsets } from "@core/schedule/status-date";
 import { parseDateISO, countWorkingDays } from "@core/calendar/calendar";
 
 /** Per-activity constraint info for sequential MC (parallel to activities array). */
 export type SequentialConstraintEntry = { type: string; offsetFromStart: number; mode: string } | null;
 
 export interface SimulationParams {
+  /** The activities to simulate: the scenario's, with durations derived from actual dates. */
+  activities: Activity[];
   deterministicDurations: number[] | undefined;
   dependencyParams: DependencySimulationParams | undefined;
   sequentialConstraints: SequentialConstraintEntry[] | undefined;
 }
 
+type Cal = WorkCalendar | Calendar | undefined;
+
 type ConstraintOffsetEntry = { type: string; offsetFromStart: number; mode: string };
 
 /**
@@ -27,7 +38,7 @@ type ConstraintOffsetEntry = { type: string; offsetFromStart: number; mode: stri
 function resolveConstraintOffsets(
   activities: Activity[],
   startDate: string,
-  calendar: WorkCalendar | Calendar | undefined,
+  calendar: Cal,
 ): Record<string, ConstraintOffsetEntry> | undefined {
   const constrained = activities.filter(
     (a) => a.constraintType && a.constraintDate && a.constraintMode
@@ -50,49 +61,181 @@ function resolveConstraintOffsets(
   return map;
 }
 
+/**
+ * Leveling model for the trials, or undefined when no activity holds a resource. The
+ * placement priority comes from the planned durations, the same ones the deterministic
+ * schedule levels with.
+ */
+function buildLevelingParams(
+  activities: Activity[],
+  dependencies: ActivityDependency[],
+  resources: Resource[] | undefined,
+  durationMap: Map<string, number>,
+) {
+  if (!hasResourceAssignments(activities, resources)) return undefined;
+  const graph = buildDependencyGraph(
+    activities.map((a) => a.id),
+    resolvePercentLags(dependencies, durationMap),
+  );
+  return buildResourceLevelingModel(activities, graph, resources, durationMap);
+}
+
+/** Summary → activities record for the trials, or undefined when no summary has any. */
+function buildSummarySimParam(
+  activities: Activity[],
+  summaries: WbsSummary[] | undefined,
+): Record<string, string[]> | undefined {
+  if (!summaries || summaries.length === 0) return undefined;
+  const groups = collectSummaryActivityIds(activities, summaries);
+  return groups.size > 0 ? Object.fromEntries(groups) : undefined;
+}
+
+/** Milestone start offsets and release offsets together, the later of the two per activity. */
+function mergeEarliestStarts(
+  milestoneStarts: Record<string, number> | undefined,
+  releases: Record<string, number> | undefined,
+): Record<string, number> | undefined {
+  if (!releases || Object.keys(releases).length === 0) return milestoneStarts;
+  const merged = { ...milestoneStarts };
+  for (const [id, offset] of Object.entries(releases)) {
+    merged[id] = Math.max(merged[id] ?? 0, offset);
+  }
+  return merged;
+}
+
+/**
+ * Release offsets as hard SNET entries for the sequential trials, which floor starts the
+ * same way the deterministic schedule does. An activity's own hard SNET/MSO keeps the
+ * later of the two offsets; a soft constraint has no per-trial effect, so it gives way.
+ *
+ * ⚠️ An activity with a hard MFO/FNET keeps that constraint and loses its release floor
+ * in the trials — there is one constraint slot per activity. It only matters when the
+ * release is the later bound, i.e. a finish constraint that progress has overtaken.
+ */
+function withReleaseConstraints(
+  activities: Activity[],
+  constraints: SequentialConstraintEntry[] | undefined,
+  releases: Record<string, number> | undefined,
+): SequentialConstraintEntry[] | undefined {
+  if (!releases || Object.keys(releases).length === 0) return constraints;
+  return activities.map((a, i) => {
+    const own = constraints?.[i] ?? null;
+    const release = releases[a.id];
+    if (release === undefined) return own;
+    if (!own || own.mode !== "hard") return { type: "SNET", offsetFromStart: release, mode: "hard" };
+    if (own.type === "SNET" || own.type === "MSO") {
+      return { ...own, offsetFromStart: Math.max(own.offsetFromStart, release) };
+    }
+    return own;
+  });
+}
+
+/** Status-date progress for the trials: the activities to run and release offsets, if any. */
+function progressForTrials(
+  activities: Activity[],
+  statusDate: string | undefined,
+  startDate: string,
+  calendar: Cal,
+  activityCalendars: Map<string, WorkCalendar> | undefined,
+): { activities: Activity[]; releases: Record<string, number> | undefined } {
+  const calendarOf = activityCalendars
+    ? (id: string) => activityCalendars.get(id) ?? calendar
+    : undefined;
+  const progress = applyStatusDate(activities, statusDate, calendar, calendarOf);
+  return {
+    activities: progress.activities,
+    releases: progress.releaseDates && releaseOffsets(progress.releaseDates, startDate, calendar),
+  };
+}
+
+/** The dependency-mode half of buildSimulationParams. */
+function buildDependencyParams(
+  activities: Activity[],
+  probabilityTarget: number,
+  dependencies: ActivityDependency[],
+  milestones: Milestone[],
+  startDate: string,
+  calendar: Cal,
+  parkinsonsLawEnabled: boolean,
+  resources: Resource[] | undefined,
+  activityCalendars: Map<string, WorkCalendar> | undefined,
+  summaries: WbsSummary[] | undefined,
+  releases: Record<string, number> | undefined,
+): DependencySimulationParams {
+  const durationMap = computeDependencyDurations(activities, probabilityTarget);
+  const durMapRecord: Record<string, number> = {};
+  for (const [k, v] of durationMap) durMapRecord[k] = v;
+
+  const msParams = buildMilestoneSimParams(activities, milestones, startDate, calendar);
+  const constraintMap = resolveConstraintOffsets(activities, startDate, calendar);
+
+  return {
+    dependencyMode: true,
+    dependencies,
+    deterministicDurationMap: parkinsonsLawEnabled ? durMapRecord : undefined,
+    ...msParams,
+    activityEarliestStart: mergeEarliestStarts(msParams.activityEarliestStart, releases),
+    summaryActivityIds: buildSummarySimParam(activities, summaries),
+    constraintMap,
+    elapsedLagCalendar: hasElapsedLags(dependencies)
+      ? buildElapsedLagCalendar(startDate, scheduleAxisCalendar(calendar, activityCalendars))
+      : undefined,
+    resourceLeveling: buildLevelingParams(activities, dependencies, resources, durationMap),
+    activityCalendarAxis: activityCalendars
+      ? buildActivityCalendarAxis(startDate, calendar, activityCalendars)
+      : undefined,
+  };
+}
+
 /**
  * Build simulation parameters for either sequential or dependency mode.
  * Pure function — used by both manual run and auto-run to avoid duplication.
+ *
+ * `resources` is the project's pool; only dependency mode levels against it. Likewise
+ * `activityCalendars` (from resolveActivityCalendars): milestone and constraint offsets stay
+ * in project-calendar days, and the engine moves them onto the calendar axis. `summaries`
+ * (the WBS) adds a finish series per summary, also dependency mode only, like milestones.
+ * `statusDate` (status-date.ts) derives durations from actual dates — the trials must run
+ * the returned `activities` — and floors every activity at its release date, in both modes.
  */
 export function buildSimulationParams(
-  activities: Activity[],
+  plannedActivities: Activity[],
   dependencyMode: boolean,
   probabilityTarget: number,
   dependencies: ActivityDependency[],
   milestones: Milestone[],
   startDate: string,
-  calendar: WorkCalendar | Calendar | undefined,
+  calendar: Cal,
   parkinsonsLawEnabled: boolean,
+  resources?: Resource[],
+  activityCalendars?: Map<string, WorkCalendar>,
+  summaries?: WbsSummary[],
+  statusDate?: string,
 ): SimulationParams {
-  if (dependencyMode) {
-    const durationMap = computeDependencyDurations(activities, probabilityTarget);
-    const durMapRecord: Record<string, number> = {};
-    for (const [k, v] of durationMap) durMapRecord[k] = v;
-
-    const msParams = buildMilestoneSimParams(activities, milestones, startDate, calendar);
-    const constraintMap = resolveConstraintOffsets(activities, startDate, calendar);
+  const { activities, releases } =
+    progressForTrials(plannedActivities, statusDate, startDate, calendar, activityCalendars);
 
+  if (dependencyMode) {
     return {
+      activities,
       deterministicDurations: undefined,
-      dependencyParams: {
-        dependencyMode: true,
-        dependencies,
-        deterministicDurationMap: parkinsonsLawEnabled ? durMapRecord : undefined,
-        ...msParams,
-        constraintMap,
-      },
+      dependencyParams: buildDependencyParams(
+        activities, probabilityTarget, dependencies, milestones, startDate, calendar,
+        parkinsonsLawEnabled, resources, activityCalendars, summaries, releases,
+      ),
       sequentialConstraints: undefined,
     };
   }
 
   const constraintOffsets = resolveConstraintOffsets(activities, startDate, calendar);
-  const sequentialConstraints: SequentialConstraintEntry[] | undefined = constraintOffsets
+  const ownConstraints: SequentialConstraintEntry[] | undefined = constraintOffsets
     ? activities.map((a) => constraintOffsets[a.id] ?? null)
     : undefined;
 
   return {
+    activities,
     deterministicDurations: parkinsonsLawEnabled ? computeDeterministicDurations(activities, probabilityTarget) : undefined,
     dependencyParams: undefined,
-    sequentialConstraints,
+    sequentialConstraints: withReleaseConstraints(activities, ownConstraints, releases),
   };
 }
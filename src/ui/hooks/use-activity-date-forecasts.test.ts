@@ -0,0 +1,45 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+
+import { useActivityDateForecasts } from "./use-activity-date-forecasts";
+import { usePreferencesStore } from "./use-preferences-store";
+
+const ACTIVITY_DATES = {
+  a: { start: { 50: 0, 80: 0, 95: 0 }, finish: { 50: 5, 80: 6, 95: 8 } },
+};
+
+function setShowColumns(value: boolean | undefined) {
+  usePreferencesStore.setState({
+    preferences: { ...usePreferencesStore.getState().preferences, gridShowDatePercentiles: value },
+  });
+}
+
+describe("useActivityDateForecasts", () => {
+  beforeEach(() => setShowColumns(undefined));
+
+  it("converts the run's offsets to dates", () => {
+    // 2025-01-06 is a Monday.
+    const { result } = renderHook(() => useActivityDateForecasts(ACTIVITY_DATES, "2025-01-06"));
+    expect(result.current.forecasts.get("a")!.finish[50]).toBe("2025-01-10");
+  });
+
+  it("offers no columns or toggle before a run records dates", () => {
+    setShowColumns(true);
+    const { result } = renderHook(() => useActivityDateForecasts(undefined, "2025-01-06"));
+    expect(result.current.forecasts.size).toBe(0);
+    expect(result.current.showColumns).toBe(false);
+    expect(result.current.onToggleColumns).toBeUndefined();
+  });
+
+  it("keeps the columns hidden until the user turns them on", () => {
+    const { result } = renderHook(() => useActivityDateForecasts(ACTIVITY_DATES, "2025-01-06"));
+    expect(result.current.showColumns).toBe(false);
+    act(() => result.current.onToggleColumns!(true));
+    expect(usePreferencesStore.getState().preferences.gridShowDatePercentiles).toBe(true);
+    expect(result.current.showColumns).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useMemo } from "react";
+import type { ActivityDateResult } from "@domain/models/types";
+import type { WorkCalendar } from "@core/calendar/work-calendar";
+import {
+  computeActivityDateForecasts,
+  type ActivityDateForecast,
+} from "@core/simulation/activity-dates";
+import { usePreferencesStore } from "./use-preferences-store";
+
+export interface ActivityDateForecastsState {
+  /** Simulated start/finish dates per activity; empty until a run records them. */
+  forecasts: Map<string, ActivityDateForecast>;
+  /** The grid's date columns: the user's preference, once there are dates to show. */
+  showColumns: boolean;
+  /** Grid toggle for the date columns; undefined while there are no dates. */
+  onToggleColumns?: (show: boolean) => void;
+}
+
+/**
+ * The last run's per-activity date percentiles as calendar dates, shared by the grid
+ * columns, the edit modal and the Gantt whiskers, plus the grid's column preference.
+ */
+export function useActivityDateForecasts(
+  activityDates: Record<string, ActivityDateResult> | undefined,
+  startDate: string | undefined,
+  calendar?: WorkCalendar,
+): ActivityDateForecastsState {
+  const preference = usePreferencesStore((s) => s.preferences.gridShowDatePercentiles) ?? false;
+  const updatePreferences = usePreferencesStore((s) => s.updatePreferences);
+
+  const forecasts = useMemo(
+    () => (startDate ? computeActivityDateForecasts(activityDates, startDate, calendar) : new Map()),
+    [activityDates, startDate, calendar],
+  );
+
+  if (forecasts.size === 0) return { forecasts, showColumns: false };
+  return {
+    forecasts,
+    showColumns: preference,
+    onToggleColumns: (show) => updatePreferences({ gridShowDatePercentiles: show }),
+  };
+}
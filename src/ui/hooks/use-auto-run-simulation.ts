@@ -3,8 +3,20 @@
 // See LICENSE file in the project root for full license text.
 
 import { useEffect, useRef } from "react";
-import type { Activity, Scenario, Calendar, SimulationRun } from "@domain/models/types";
+import type {
+  Activity,
+  Calendar,
+  Resource,
+  Scenario,
+  SimulationRun,
+} from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
+import type { DependencySimulationParams, UncertaintyParams } from "@core/simulation/worker-client";
+import {
+  scenarioConvergenceTarget,
+  scenarioTrialCount,
+  type ConvergenceTarget,
+} from "@core/simulation/convergence";
 import { usePreferencesStore } from "@ui/hooks/use-preferences-store";
 import { buildSimulationParams, type SimulationParams } from "@ui/helpers/build-simulation-params";
 import { currentSimulationGeneration } from "@infrastructure/simulation/simulation-cancellation";
@@ -14,6 +26,10 @@ interface UseAutoRunSimulationArgs {
   scenario: Scenario | undefined;
   allActivitiesValid: boolean;
   workCalendar: WorkCalendar | Calendar | undefined;
+  /** The project's resource pool — dependency-mode runs level against it. */
+  resources?: Resource[];
+  /** Activities on a calendar of their own (dependency mode), from resolveActivityCalendars. */
+  activityCalendars?: Map<string, WorkCalendar>;
   isRunning: boolean;
   runSimulation: (
     activities: Activity[],
@@ -21,8 +37,10 @@ interface UseAutoRunSimulationArgs {
     rngSeed: string,
     deterministicDurations: number[] | undefined,
     onComplete: (result: SimulationRun, elapsedMs: number) => void,
-    dependencyParams?: import("@core/simulation/worker-client").DependencySimulationParams,
+    dependencyParams?: DependencySimulationParams,
     sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+    uncertainty?: UncertaintyParams,
+    convergence?: ConvergenceTarget,
   ) => void;
   setSimulationResults: (projectId: string, scenarioId: string, result: SimulationRun) => void;
 }
@@ -36,6 +54,8 @@ export function useAutoRunSimulation({
   scenario,
   allActivitiesValid,
   workCalendar,
+  resources,
+  activityCalendars,
   isRunning,
   runSimulation,
   setSimulationResults,
@@ -75,6 +95,10 @@ export function useAutoRunSimulation({
           scenario.startDate,
           workCalendar,
           scenario.settings.parkinsonsLawEnabled ?? true,
+          resources,
+          activityCalendars,
+          scenario.summaries,
+          scenario.statusDate,
         );
       } catch (err) {
         // Silent to the user (see rationale below) but not silent to the developer:
@@ -93,8 +117,8 @@ export function useAutoRunSimulation({
       // longer matches — the result is dropped before touching the store.
       const startGen = currentSimulationGeneration();
       runSimulation(
-        activitiesRef.current,
-        scenario.settings.trialCount,
+        params.activities,
+        scenarioTrialCount(scenario.settings),
         scenario.settings.rngSeed,
         params.deterministicDurations,
         (result) => {
@@ -103,6 +127,13 @@ export function useAutoRunSimulation({
         },
         params.dependencyParams,
         params.sequentialConstraints,
+        {
+          correlationGroups: scenario.correlationGroups,
+          risks: scenario.risks,
+          branches: scenario.branches,
+          samplingMethod: scenario.settings.samplingMethod,
+        },
+        scenarioConvergenceTarget(scenario.settings),
       );
     }, 500);
 
@@ -117,12 +148,21 @@ export function useAutoRunSimulation({
     scenario?.settings.probabilityTarget,
     scenario?.settings.projectProbabilityTarget,
     scenario?.settings.trialCount,
+    scenario?.settings.convergenceToleranceDays,
+    scenario?.settings.samplingMethod,
     scenario?.settings.rngSeed,
     scenario?.settings.parkinsonsLawEnabled,
     scenario?.milestones,
+    scenario?.summaries,
+    scenario?.correlationGroups,
+    scenario?.risks,
+    scenario?.branches,
+    scenario?.statusDate,
     // Recompute when calendar inputs change (converted/forced work days,
     // project holidays, global calendar, work-week mask) — workCalendar is the
     // memoized value from useWorkCalendar(), stable across unrelated renders.
     workCalendar,
+    resources,
+    activityCalendars,
   ]);
 }
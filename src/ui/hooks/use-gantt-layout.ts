@@ -4,7 +4,7 @@
 
 import { useState, useEffect, useMemo } from "react";
 import type { RefObject } from "react";
-import type { Activity, ActivityBand, Milestone } from "@domain/models/types";
+import type { Activity, ActivityBand, Milestone, WbsSummary } from "@domain/models/types";
 import {
   RIGHT_MARGIN, TOP_MARGIN,
   MIN_CHART_WIDTH, MIN_TICK_SPACING_PX, TODAY_PROXIMITY_PX, PROJECT_NAME_HEIGHT,
@@ -38,6 +38,7 @@ export interface GanttLayout {
 interface UseGanttLayoutArgs {
   orderedActivities: Activity[];
   bands?: ActivityBand[];
+  summaries?: WbsSummary[];
   projectStartDate: string;
   furthestDate: string;
   bufferedEndDate: string | null;
@@ -59,6 +60,7 @@ interface UseGanttLayoutArgs {
 export function useGanttLayout({
   orderedActivities,
   bands = [],
+  summaries,
   projectStartDate,
   furthestDate,
   bufferedEndDate,
@@ -93,8 +95,8 @@ export function useGanttLayout({
   }, [svgContainerRef]);
 
   const renderItems = useMemo(
-    () => buildRenderList(orderedActivities, bands),
-    [orderedActivities, bands]
+    () => buildRenderList(orderedActivities, bands, summaries),
+    [orderedActivities, bands, summaries]
   );
 
   const activitySlotMap = useMemo(
@@ -24,19 +24,30 @@ import { useProjectStore } from "./use-project-store";
 /** Every key ProjectPage relies on. Update deliberately, never to make a test pass. */
 const EXPECTED_ACTIONS = [
   "loadProjects",
-  "addScenario", "deleteScenario", "duplicateScenario",
+  "addScenario", "deleteScenario", "duplicateScenario", "cloneWithCompression",
   "addActivity", "insertActivityAfterActivity", "insertActivityAfterBand",
   "deleteActivity", "updateActivityField",
   "addBand", "deleteBand", "updateBand", "reorderWithBands",
   "setSimulationResults",
-  "updateScenarioStartDate", "updateScenarioSettings",
+  "updateScenarioStartDate", "updateScenarioStatusDate", "updateScenarioSettings",
   "renameProject", "renameScenario",
   "bulkUpdateActivities", "bulkDeleteActivities",
   "undo", "redo", "canUndo", "canRedo",
   "toggleScenarioLock",
   "addDependency", "removeDependency", "updateDependencyLag", "updateDependencyType",
+  "updateDependencyLagUnit", "updateDependencyLagPercent",
   "addMilestone", "removeMilestone", "updateMilestone",
   "assignActivityToMilestone", "setActivityStartsAtMilestone",
+  "addSummary", "updateSummary", "removeSummary", "setActivitySummary",
+  "captureBaseline", "renameBaseline", "removeBaseline", "setActiveBaseline", "recordForecast",
+  "setCriticalChainPlan", "recordFeverPoint", "applyCalibration",
+  "addCorrelationGroup", "updateCorrelationGroup", "removeCorrelationGroup",
+  "setActivityCorrelationGroup",
+  "addRisk", "updateRisk", "removeRisk", "setRiskActivity",
+  "setActivityOccurrence", "addBranch", "renameBranch", "removeBranch",
+  "addBranchPath", "updateBranchPath", "removeBranchPath", "setActivityBranchPath",
+  "addResource", "updateResource", "removeResource",
+  "addCalendar", "updateCalendar", "removeCalendar",
   "updateProjectField", "updateGanttAppearance", "updateScenarioNotes",
   "reorderScenarios", "beginUndoGroup", "endUndoGroup",
 ] as const;
@@ -20,6 +20,7 @@ export function useProjectActions() {
       addScenario: s.addScenario,
       deleteScenario: s.deleteScenario,
       duplicateScenario: s.duplicateScenario,
+      cloneWithCompression: s.cloneWithCompression,
       addActivity: s.addActivity,
       insertActivityAfterActivity: s.insertActivityAfterActivity,
       insertActivityAfterBand: s.insertActivityAfterBand,
@@ -31,6 +32,7 @@ export function useProjectActions() {
       reorderWithBands: s.reorderWithBands,
       setSimulationResults: s.setSimulationResults,
       updateScenarioStartDate: s.updateScenarioStartDate,
+      updateScenarioStatusDate: s.updateScenarioStatusDate,
       updateScenarioSettings: s.updateScenarioSettings,
       renameProject: s.renameProject,
       renameScenario: s.renameScenario,
@@ -45,11 +47,47 @@ export function useProjectActions() {
       removeDependency: s.removeDependency,
       updateDependencyLag: s.updateDependencyLag,
       updateDependencyType: s.updateDependencyType,
+      updateDependencyLagUnit: s.updateDependencyLagUnit,
+      updateDependencyLagPercent: s.updateDependencyLagPercent,
       addMilestone: s.addMilestone,
       removeMilestone: s.removeMilestone,
       updateMilestone: s.updateMilestone,
       assignActivityToMilestone: s.assignActivityToMilestone,
       setActivityStartsAtMilestone: s.setActivityStartsAtMilestone,
+      addSummary: s.addSummary,
+      updateSummary: s.updateSummary,
+      removeSummary: s.removeSummary,
+      setActivitySummary: s.setActivitySummary,
+      captureBaseline: s.captureBaseline,
+      renameBaseline: s.renameBaseline,
+      removeBaseline: s.removeBaseline,
+      setActiveBaseline: s.setActiveBaseline,
+      recordForecast: s.recordForecast,
+      setCriticalChainPlan: s.setCriticalChainPlan,
+      recordFeverPoint: s.recordFeverPoint,
+      applyCalibration: s.applyCalibration,
+      addCorrelationGroup: s.addCorrelationGroup,
+      updateCorrelationGroup: s.updateCorrelationGroup,
+      removeCorrelationGroup: s.removeCorrelationGroup,
+      setActivityCorrelationGroup: s.setActivityCorrelationGroup,
+      addRisk: s.addRisk,
+      updateRisk: s.updateRisk,
+      removeRisk: s.removeRisk,
+      setRiskActivity: s.setRiskActivity,
+      setActivityOccurrence: s.setActivityOccurrence,
+      addBranch: s.addBranch,
+      renameBranch: s.renameBranch,
+      removeBranch: s.removeBranch,
+      addBranchPath: s.addBranchPath,
+      updateBranchPath: s.updateBranchPath,
+      removeBranchPath: s.removeBranchPath,
+      setActivityBranchPath: s.setActivityBranchPath,
+      addResource: s.addResource,
+      updateResource: s.updateResource,
+      removeResource: s.removeResource,
+      addCalendar: s.addCalendar,
+      updateCalendar: s.updateCalendar,
+      removeCalendar: s.removeCalendar,
       updateProjectField: s.updateProjectField,
       updateGanttAppearance: s.updateGanttAppearance,
       updateScenarioNotes: s.updateScenarioNotes,
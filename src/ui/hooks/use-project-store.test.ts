@@ -288,6 +288,28 @@ describe("useProjectStore", () => {
     expect(after.scenarios[0]!.id).toBe(newId);
   });
 
+  it("cloneWithCompression clones the scenario with the proposal made, leaving the source as it was", () => {
+    const store = useProjectStore.getState();
+    const project = store.addProject("Compression Clone Test", null);
+    const baselineId = project.scenarios[0]!.id;
+    store.addActivity(project.id, baselineId, "Task 1");
+    store.updateScenarioStatusDate(project.id, baselineId, "2026-03-06");
+    const source = useProjectStore.getState().getProject(project.id)!.scenarios[0]!;
+    const activity = source.activities[0]!;
+
+    const newId = store.cloneWithCompression(
+      project.id, baselineId, { kind: "crash", activityId: activity.id, days: 1 }, "Crash Task 1"
+    );
+
+    const after = useProjectStore.getState().getProject(project.id)!;
+    const clone = after.scenarios.find((s) => s.id === newId)!;
+    expect(clone.name).toBe("Crash Task 1");
+    expect(clone.activities[0]!.mostLikely).toBe(activity.mostLikely - 1);
+    // The advisor measured the proposal as of the source's status date.
+    expect(clone.statusDate).toBe("2026-03-06");
+    expect(after.scenarios.find((s) => s.id === baselineId)!.activities[0]).toEqual(activity);
+  });
+
   it("duplicateScenario returns undefined for unknown projectId", () => {
     const store = useProjectStore.getState();
     const project = store.addProject("Unknown Project Test", null);
@@ -1729,6 +1751,64 @@ describe("useProjectStore", () => {
       expect(events).toHaveLength(0);
     });
 
+    it("recordForecast saves the history to the cloud without an undo step", async () => {
+      const store = useProjectStore.getState();
+      const project = store.addProject("Forecast History Test", null);
+      const scenarioId = project.scenarios[0]!.id;
+      await Promise.resolve();
+
+      const events: string[] = [];
+      const unsub = cloudSyncBus.subscribe((event) => {
+        if (event.projectId === project.id) events.push(event.type);
+      });
+      const entry = { timestamp: "2026-05-24T00:00:00.000Z", fingerprint: "f1", finishDates: { 80: "2026-07-01" } };
+      const undoStack = useProjectStore.getState().undoStack;
+      useProjectStore.getState().recordForecast(project.id, scenarioId, entry);
+      useProjectStore.getState().recordForecast(project.id, scenarioId, entry);
+      // A later run forecasting the same from the same inputs is not saved either.
+      useProjectStore.getState().recordForecast(project.id, scenarioId, { ...entry, timestamp: "2026-05-25T00:00:00.000Z" });
+      await Promise.resolve();
+      await Promise.resolve();
+      unsub();
+
+      const scenario = useProjectStore.getState().getProject(project.id)!.scenarios[0]!;
+      expect(scenario.forecastHistory).toEqual([entry]);
+      expect(events).toEqual(["save"]);
+      expect(useProjectStore.getState().undoStack).toBe(undoStack);
+    });
+
+    it("recordFeverPoint adds to the Critical Chain plan without an undo step", async () => {
+      const store = useProjectStore.getState();
+      const project = store.addProject("Fever Chart Test", null);
+      const scenarioId = project.scenarios[0]!.id;
+      useProjectStore.getState().setCriticalChainPlan(project.id, scenarioId, {
+        capturedAt: "2026-05-24T00:00:00.000Z",
+        chain: [{ activityId: "a1", days: 10 }],
+        chainDays: 10,
+        projectBufferDays: 4,
+        feedingBuffers: [],
+        fever: [],
+      });
+      await Promise.resolve();
+
+      const events: string[] = [];
+      const unsub = cloudSyncBus.subscribe((event) => {
+        if (event.projectId === project.id) events.push(event.type);
+      });
+      const point = { statusDate: "2026-06-05", chainCompleted: 0.3, bufferConsumed: 0.1 };
+      const undoStack = useProjectStore.getState().undoStack;
+      useProjectStore.getState().recordFeverPoint(project.id, scenarioId, point);
+      useProjectStore.getState().recordFeverPoint(project.id, scenarioId, point);
+      await Promise.resolve();
+      await Promise.resolve();
+      unsub();
+
+      const scenario = useProjectStore.getState().getProject(project.id)!.scenarios[0]!;
+      expect(scenario.criticalChainPlan!.fever).toEqual([point]);
+      expect(events).toEqual(["save"]);
+      expect(useProjectStore.getState().undoStack).toBe(undoStack);
+    });
+
     it("setProjects preserves in-memory simulationResults on re-fetch (SC1-1)", () => {
       const store = useProjectStore.getState();
       const project = store.addProject("setProjects Sim Preservation", null);
@@ -13,9 +13,19 @@ import type {
   DeliverableItem,
   DependencyType,
   GanttAppearanceSettings,
+  LagUnit,
   Milestone,
+  NamedCalendar,
+  Resource,
   ScenarioSettings,
   SimulationRun,
+  WbsSummary,
+  ScenarioBaseline,
+  ForecastHistoryEntry,
+  CriticalChainPlan,
+  FeverPoint,
+  CorrelationGroup,
+  BranchPath,
 } from "@domain/models/types";
 import { MAX_SCENARIOS_PER_PROJECT } from "@domain/models/types";
 import { SAMPLE_PROJECT_NAME } from "@domain/data/sample-project-meta";
@@ -45,12 +55,49 @@ import {
   removeDependency as removeDependencyFn,
   updateDependencyLag as updateDependencyLagFn,
   updateDependencyType as updateDependencyTypeFn,
+  updateDependencyLagUnit as updateDependencyLagUnitFn,
+  updateDependencyLagPercent as updateDependencyLagPercentFn,
   removeActivitiesDeps,
   addMilestone as addMilestoneFn,
   removeMilestone as removeMilestoneFn,
   updateMilestone as updateMilestoneFn,
   assignActivityToMilestone as assignActivityToMilestoneFn,
   setActivityStartsAtMilestone as setActivityStartsAtMilestoneFn,
+  addSummary as addSummaryFn,
+  updateSummary as updateSummaryFn,
+  removeSummary as removeSummaryFn,
+  setActivitySummary as setActivitySummaryFn,
+  captureBaseline as captureBaselineFn,
+  renameBaseline as renameBaselineFn,
+  removeBaseline as removeBaselineFn,
+  setActiveBaseline as setActiveBaselineFn,
+  recordForecast as recordForecastFn,
+  setCriticalChainPlan as setCriticalChainPlanFn,
+  recordFeverPoint as recordFeverPointFn,
+  applyCompressionProposal,
+  applyCalibration as applyCalibrationFn,
+  addCorrelationGroup as addCorrelationGroupFn,
+  updateCorrelationGroup as updateCorrelationGroupFn,
+  removeCorrelationGroup as removeCorrelationGroupFn,
+  setActivityCorrelationGroup as setActivityCorrelationGroupFn,
+  addRisk as addRiskFn,
+  updateRisk as updateRiskFn,
+  removeRisk as removeRiskFn,
+  setRiskActivity as setRiskActivityFn,
+  setActivityOccurrence as setActivityOccurrenceFn,
+  addBranch as addBranchFn,
+  renameBranch as renameBranchFn,
+  removeBranch as removeBranchFn,
+  addBranchPath as addBranchPathFn,
+  updateBranchPath as updateBranchPathFn,
+  removeBranchPath as removeBranchPathFn,
+  setActivityBranchPath as setActivityBranchPathFn,
+  addResource as addResourceFn,
+  updateResource as updateResourceFn,
+  removeResource as removeResourceFn,
+  addCalendar as addCalendarFn,
+  updateCalendar as updateCalendarFn,
+  removeCalendar as removeCalendarFn,
 } from "@app/api/project-service";
 import {
   addBand as addBandSvc,
@@ -59,7 +106,12 @@ import {
   reorderBands as reorderBandsSvc,
   reanchorBandsAfterRemovals,
 } from "@app/api/band-service";
+import { pruneCorrelationGroups } from "@app/api/correlation-service";
+import { pruneRiskActivities, type RiskFields } from "@app/api/risk-service";
+import { pruneBranchActivities } from "@app/api/branch-service";
 import type { CloneOptions } from "@app/api/project-service";
+import type { CompressionProposal } from "@core/simulation/compression-advisor";
+import type { CalibrationAdjustment } from "@core/estimation/calibration";
 import { generateId } from "@app/api/id";
 import {
   applyAiOpsToProject,
@@ -326,6 +378,24 @@ export interface ProjectStore {
   ) => void;
   updateGanttAppearance: (projectId: string, appearance: GanttAppearanceSettings) => void;
 
+  // Resource pool (project-level)
+  addResource: (projectId: string, name: string, capacity: number) => void;
+  updateResource: (
+    projectId: string,
+    resourceId: string,
+    updates: Partial<Omit<Resource, "id">>
+  ) => void;
+  removeResource: (projectId: string, resourceId: string) => void;
+
+  // Named calendars (project-level)
+  addCalendar: (projectId: string, name: string) => void;
+  updateCalendar: (
+    projectId: string,
+    calendarId: string,
+    updates: Partial<Omit<NamedCalendar, "id">>
+  ) => void;
+  removeCalendar: (projectId: string, calendarId: string) => void;
+
   // Rename
   renameProject: (projectId: string, name: string) => void;
   renameScenario: (
@@ -362,11 +432,23 @@ export interface ProjectStore {
     newName: string,
     options?: CloneOptions
   ) => string | undefined;
+  /** A clone of the scenario with one compression-advisor proposal made; the clone's id. */
+  cloneWithCompression: (
+    projectId: string,
+    scenarioId: string,
+    proposal: CompressionProposal,
+    newName: string
+  ) => string | undefined;
   updateScenarioStartDate: (
     projectId: string,
     scenarioId: string,
     startDate: string
   ) => void;
+  updateScenarioStatusDate: (
+    projectId: string,
+    scenarioId: string,
+    statusDate: string | undefined
+  ) => void;
   updateScenarioSettings: (
     projectId: string,
     scenarioId: string,
@@ -453,6 +535,14 @@ export interface ProjectStore {
     scenarioId: string,
     results: SimulationRun
   ) => void;
+  /** Record a run in the scenario's forecast history (not undoable; saved to the cloud). */
+  recordForecast: (projectId: string, scenarioId: string, entry: ForecastHistoryEntry) => void;
+  /** Set (or clear, with undefined) the scenario's Critical Chain plan. */
+  setCriticalChainPlan: (projectId: string, scenarioId: string, plan: CriticalChainPlan | undefined) => void;
+  /** Record a fever chart point for the plan (not undoable; saved to the cloud). */
+  recordFeverPoint: (projectId: string, scenarioId: string, point: FeverPoint) => void;
+  /** Apply an estimate calibration adjustment to the remaining planned activities. */
+  applyCalibration: (projectId: string, scenarioId: string, adjustment: CalibrationAdjustment) => void;
 
   // Calendar
   setProjectCalendar: (
@@ -494,7 +584,9 @@ export interface ProjectStore {
     fromActivityId: string,
     toActivityId: string,
     type?: DependencyType,
-    lagDays?: number
+    lagDays?: number,
+    lagUnit?: LagUnit,
+    lagPercent?: number
   ) => void;
   removeDependency: (
     projectId: string,
@@ -516,6 +608,20 @@ export interface ProjectStore {
     toActivityId: string,
     type: DependencyType
   ) => void;
+  updateDependencyLagUnit: (
+    projectId: string,
+    scenarioId: string,
+    fromActivityId: string,
+    toActivityId: string,
+    lagUnit: LagUnit
+  ) => void;
+  updateDependencyLagPercent: (
+    projectId: string,
+    scenarioId: string,
+    fromActivityId: string,
+    toActivityId: string,
+    lagPercent: number
+  ) => void;
 
   // Milestones
   addMilestone: (
@@ -548,6 +654,89 @@ export interface ProjectStore {
     milestoneId: string | null
   ) => void;
 
+  // WBS summaries
+  /** Returns the new summary's id, or null when nothing was added (locked, bad parent). */
+  addSummary: (projectId: string, scenarioId: string, parentId?: string) => string | null;
+  updateSummary: (
+    projectId: string,
+    scenarioId: string,
+    summaryId: string,
+    updates: Partial<Omit<WbsSummary, "id">>
+  ) => void;
+  removeSummary: (projectId: string, scenarioId: string, summaryId: string) => void;
+  setActivitySummary: (
+    projectId: string,
+    scenarioId: string,
+    activityId: string,
+    summaryId: string | null
+  ) => void;
+
+  // Baselines (display only — none of these clear the simulation results)
+  captureBaseline: (projectId: string, scenarioId: string, baseline: ScenarioBaseline) => void;
+  renameBaseline: (projectId: string, scenarioId: string, baselineId: string, name: string) => void;
+  removeBaseline: (projectId: string, scenarioId: string, baselineId: string) => void;
+  setActiveBaseline: (projectId: string, scenarioId: string, baselineId: string | undefined) => void;
+
+  // Correlation groups (members and coefficient feed the simulation)
+  addCorrelationGroup: (projectId: string, scenarioId: string, name: string, coefficient: number) => void;
+  updateCorrelationGroup: (
+    projectId: string,
+    scenarioId: string,
+    groupId: string,
+    updates: Partial<Pick<CorrelationGroup, "name" | "coefficient">>
+  ) => void;
+  removeCorrelationGroup: (projectId: string, scenarioId: string, groupId: string) => void;
+  setActivityCorrelationGroup: (
+    projectId: string,
+    scenarioId: string,
+    activityId: string,
+    groupId: string | null
+  ) => void;
+
+  // Risk register (anything but a rename clears the simulation results)
+  addRisk: (projectId: string, scenarioId: string, fields: RiskFields) => void;
+  updateRisk: (projectId: string, scenarioId: string, riskId: string, updates: Partial<RiskFields>) => void;
+  removeRisk: (projectId: string, scenarioId: string, riskId: string) => void;
+  setRiskActivity: (
+    projectId: string,
+    scenarioId: string,
+    riskId: string,
+    activityId: string,
+    affected: boolean
+  ) => void;
+
+  // Conditional work (anything but a rename clears the simulation results)
+  setActivityOccurrence: (
+    projectId: string,
+    scenarioId: string,
+    activityId: string,
+    probability: number | null
+  ) => void;
+  addBranch: (projectId: string, scenarioId: string, name: string) => void;
+  renameBranch: (projectId: string, scenarioId: string, branchId: string, name: string) => void;
+  removeBranch: (projectId: string, scenarioId: string, branchId: string) => void;
+  addBranchPath: (
+    projectId: string,
+    scenarioId: string,
+    branchId: string,
+    name: string,
+    probability: number
+  ) => void;
+  updateBranchPath: (
+    projectId: string,
+    scenarioId: string,
+    branchId: string,
+    pathId: string,
+    updates: Partial<Pick<BranchPath, "name" | "probability">>
+  ) => void;
+  removeBranchPath: (projectId: string, scenarioId: string, branchId: string, pathId: string) => void;
+  setActivityBranchPath: (
+    projectId: string,
+    scenarioId: string,
+    activityId: string,
+    target: { branchId: string; pathId: string } | null
+  ) => void;
+
   // Scenario Lock
   toggleScenarioLock: (projectId: string, scenarioId: string) => void;
   isScenarioLocked: (projectId: string, scenarioId: string) => boolean;
@@ -703,6 +892,40 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
     });
   }
 
+  /** Undo + add `makeClone(scenario)` right after its source + persist; the clone's id. */
+  function addClone(
+    projectId: string,
+    scenarioId: string,
+    makeClone: (s: Scenario) => Scenario
+  ): string | undefined {
+    // Invariant guard (before pushUndo so a rejected clone leaves no dead undo
+    // entry): never grow a project past the schema's scenario cap, or the doc
+    // would fail ProjectSchema.safeParse on its next load. UI paths toast first;
+    // this is the belt-and-suspenders enforcement for any programmatic caller.
+    const target = get().projects.find((p) => p.id === projectId);
+    if (target && target.scenarios.length >= MAX_SCENARIOS_PER_PROJECT) {
+      return undefined;
+    }
+    pushUndo(projectId);
+    let newCloneId: string | undefined;
+    set((state) => {
+      const project = state.projects.find((p) => p.id === projectId);
+      if (!project) return state;
+      const scenario = project.scenarios.find((s) => s.id === scenarioId);
+      if (!scenario) return state;
+
+      const sourceIndex = project.scenarios.findIndex((s) => s.id === scenarioId);
+      const clone = makeClone(scenario);
+      newCloneId = clone.id;
+      const projects = state.projects.map((p) =>
+        p.id === projectId ? addScenarioToProject(p, clone, sourceIndex) : p
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+    return newCloneId;
+  }
+
   return {
   projects: [],
   loadError: false,
@@ -937,34 +1160,13 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
     });
   },
 
-  duplicateScenario: (projectId, scenarioId, newName, options) => {
-    // Invariant guard (before pushUndo so a rejected clone leaves no dead undo
-    // entry): never grow a project past the schema's scenario cap, or the doc
-    // would fail ProjectSchema.safeParse on its next load. UI paths toast first;
-    // this is the belt-and-suspenders enforcement for any programmatic caller.
-    const target = get().projects.find((p) => p.id === projectId);
-    if (target && target.scenarios.length >= MAX_SCENARIOS_PER_PROJECT) {
-      return undefined;
-    }
-    pushUndo(projectId);
-    let newCloneId: string | undefined;
-    set((state) => {
-      const project = state.projects.find((p) => p.id === projectId);
-      if (!project) return state;
-      const scenario = project.scenarios.find((s) => s.id === scenarioId);
-      if (!scenario) return state;
+  duplicateScenario: (projectId, scenarioId, newName, options) =>
+    addClone(projectId, scenarioId, (scenario) => cloneScenario(scenario, newName, options)),
 
-      const sourceIndex = project.scenarios.findIndex((s) => s.id === scenarioId);
-      const clone = cloneScenario(scenario, newName, options);
-      newCloneId = clone.id;
-      const projects = state.projects.map((p) =>
-        p.id === projectId ? addScenarioToProject(p, clone, sourceIndex) : p
-      );
-      persist(projects, projectId);
-      return { projects };
-    });
-    return newCloneId;
-  },
+  cloneWithCompression: (projectId, scenarioId, proposal, newName) =>
+    addClone(projectId, scenarioId, (scenario) =>
+      cloneScenario(applyCompressionProposal(scenario, proposal), newName)
+    ),
 
   updateScenarioStartDate: (projectId, scenarioId, startDate) =>
     mutateScenario(projectId, scenarioId, (s) => ({
@@ -973,6 +1175,13 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
       simulationResults: undefined,
     })),
 
+  updateScenarioStatusDate: (projectId, scenarioId, statusDate) =>
+    mutateScenario(projectId, scenarioId, (s) => ({
+      ...s,
+      statusDate,
+      simulationResults: undefined,
+    })),
+
   updateScenarioSettings: (projectId, scenarioId, settings) =>
     mutateScenario(projectId, scenarioId, (s) => ({
       ...s,
@@ -1215,6 +1424,43 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
     });
   },
 
+  recordForecast: (projectId, scenarioId, entry) => {
+    // Unlike the results, the history is persisted everywhere — a normal save. It is a
+    // record of runs rather than an edit, so it takes no undo step and ignores the lock.
+    const scenario = get()
+      .projects.find((p) => p.id === projectId)
+      ?.scenarios.find((s) => s.id === scenarioId);
+    if (!scenario || recordForecastFn(scenario, entry) === scenario) return;
+    set((state) => {
+      const projects = updateScenarioInList(state.projects, projectId, scenarioId, (s) =>
+        recordForecastFn(s, entry)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  setCriticalChainPlan: (projectId, scenarioId, plan) =>
+    mutateScenario(projectId, scenarioId, (s) => setCriticalChainPlanFn(s, plan)),
+
+  recordFeverPoint: (projectId, scenarioId, point) => {
+    // Like recordForecast: a record of progress, so no undo step and no lock check.
+    const scenario = get()
+      .projects.find((p) => p.id === projectId)
+      ?.scenarios.find((s) => s.id === scenarioId);
+    if (!scenario || recordFeverPointFn(scenario, point) === scenario) return;
+    set((state) => {
+      const projects = updateScenarioInList(state.projects, projectId, scenarioId, (s) =>
+        recordFeverPointFn(s, point)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  applyCalibration: (projectId, scenarioId, adjustment) =>
+    mutateScenario(projectId, scenarioId, (s) => applyCalibrationFn(s, adjustment)),
+
   setProjectCalendar: (projectId, calendar) => {
     pushUndo(projectId);
     set((state) => {
@@ -1373,6 +1619,72 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
     });
   },
 
+  addResource: (projectId, name, capacity) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        addResourceFn(p, name, capacity)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  updateResource: (projectId, resourceId, updates) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        updateResourceFn(p, resourceId, updates)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  removeResource: (projectId, resourceId) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        removeResourceFn(p, resourceId)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  addCalendar: (projectId, name) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        addCalendarFn(p, name)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  updateCalendar: (projectId, calendarId, updates) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        updateCalendarFn(p, calendarId, updates)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
+  removeCalendar: (projectId, calendarId) => {
+    pushUndo(projectId);
+    set((state) => {
+      const projects = updateProjectInList(state.projects, projectId, (p) =>
+        removeCalendarFn(p, calendarId)
+      );
+      persist(projects, projectId);
+      return { projects };
+    });
+  },
+
   renameProject: (projectId, name) => {
     pushUndo(projectId);
     set((state) => {
@@ -1418,6 +1730,9 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
         ...cleaned,
         activities: survivors,
         bands: newBands,
+        correlationGroups: pruneCorrelationGroups(s.correlationGroups, new Set(activityIds)),
+        risks: pruneRiskActivities(s.risks, new Set(activityIds)),
+        branches: pruneBranchActivities(s.branches, new Set(activityIds)),
         simulationResults: undefined,
       };
     }),
@@ -1680,9 +1995,9 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
     }));
   },
 
-  addDependency: (projectId, scenarioId, fromActivityId, toActivityId, type, lagDays) =>
+  addDependency: (projectId, scenarioId, fromActivityId, toActivityId, type, lagDays, lagUnit, lagPercent) =>
     mutateScenario(projectId, scenarioId, (s) =>
-      addDependencyFn(s, fromActivityId, toActivityId, type, lagDays)
+      addDependencyFn(s, fromActivityId, toActivityId, type, lagDays, lagUnit, lagPercent)
     ),
 
   removeDependency: (projectId, scenarioId, fromActivityId, toActivityId) =>
@@ -1700,6 +2015,16 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
       updateDependencyTypeFn(s, fromActivityId, toActivityId, type)
     ),
 
+  updateDependencyLagUnit: (projectId, scenarioId, fromActivityId, toActivityId, lagUnit) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      updateDependencyLagUnitFn(s, fromActivityId, toActivityId, lagUnit)
+    ),
+
+  updateDependencyLagPercent: (projectId, scenarioId, fromActivityId, toActivityId, lagPercent) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      updateDependencyLagPercentFn(s, fromActivityId, toActivityId, lagPercent)
+    ),
+
   addMilestone: (projectId, scenarioId, name, targetDate) =>
     mutateScenario(projectId, scenarioId, (s) =>
       addMilestoneFn(s, name, targetDate)
@@ -1725,6 +2050,105 @@ export const useProjectStore = create<ProjectStore>((set, get) => {
       setActivityStartsAtMilestoneFn(s, activityId, milestoneId)
     ),
 
+  addSummary: (projectId, scenarioId, parentId) => {
+    if (isLocked(get().projects, projectId, scenarioId)) return null;
+    const id = generateId();
+    let added = false;
+    mutateScenario(projectId, scenarioId, (s) => {
+      const next = addSummaryFn(s, "", parentId, id);
+      added = next !== s;
+      return next;
+    });
+    return added ? id : null;
+  },
+
+  updateSummary: (projectId, scenarioId, summaryId, updates) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      updateSummaryFn(s, summaryId, updates)
+    ),
+
+  removeSummary: (projectId, scenarioId, summaryId) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      removeSummaryFn(s, summaryId)
+    ),
+
+  setActivitySummary: (projectId, scenarioId, activityId, summaryId) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      setActivitySummaryFn(s, activityId, summaryId)
+    ),
+
+  captureBaseline: (projectId, scenarioId, baseline) =>
+    mutateScenario(projectId, scenarioId, (s) => captureBaselineFn(s, baseline)),
+
+  renameBaseline: (projectId, scenarioId, baselineId, name) =>
+    mutateScenario(projectId, scenarioId, (s) => renameBaselineFn(s, baselineId, name)),
+
+  removeBaseline: (projectId, scenarioId, baselineId) =>
+    mutateScenario(projectId, scenarioId, (s) => removeBaselineFn(s, baselineId)),
+
+  setActiveBaseline: (projectId, scenarioId, baselineId) =>
+    mutateScenario(projectId, scenarioId, (s) => setActiveBaselineFn(s, baselineId)),
+
+  addCorrelationGroup: (projectId, scenarioId, name, coefficient) =>
+    mutateScenario(projectId, scenarioId, (s) => addCorrelationGroupFn(s, name, coefficient)),
+
+  updateCorrelationGroup: (projectId, scenarioId, groupId, updates) =>
+    mutateScenario(projectId, scenarioId, (s) => updateCorrelationGroupFn(s, groupId, updates)),
+
+  removeCorrelationGroup: (projectId, scenarioId, groupId) =>
+    mutateScenario(projectId, scenarioId, (s) => removeCorrelationGroupFn(s, groupId)),
+
+  setActivityCorrelationGroup: (projectId, scenarioId, activityId, groupId) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      setActivityCorrelationGroupFn(s, activityId, groupId)
+    ),
+
+  addRisk: (projectId, scenarioId, fields) =>
+    mutateScenario(projectId, scenarioId, (s) => addRiskFn(s, fields)),
+
+  updateRisk: (projectId, scenarioId, riskId, updates) =>
+    mutateScenario(projectId, scenarioId, (s) => updateRiskFn(s, riskId, updates)),
+
+  removeRisk: (projectId, scenarioId, riskId) =>
+    mutateScenario(projectId, scenarioId, (s) => removeRiskFn(s, riskId)),
+
+  setRiskActivity: (projectId, scenarioId, riskId, activityId, affected) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      setRiskActivityFn(s, riskId, activityId, affected)
+    ),
+
+  setActivityOccurrence: (projectId, scenarioId, activityId, probability) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      setActivityOccurrenceFn(s, activityId, probability)
+    ),
+
+  addBranch: (projectId, scenarioId, name) =>
+    mutateScenario(projectId, scenarioId, (s) => addBranchFn(s, name)),
+
+  renameBranch: (projectId, scenarioId, branchId, name) =>
+    mutateScenario(projectId, scenarioId, (s) => renameBranchFn(s, branchId, name)),
+
+  removeBranch: (projectId, scenarioId, branchId) =>
+    mutateScenario(projectId, scenarioId, (s) => removeBranchFn(s, branchId)),
+
+  addBranchPath: (projectId, scenarioId, branchId, name, probability) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      addBranchPathFn(s, branchId, name, probability)
+    ),
+
+  updateBranchPath: (projectId, scenarioId, branchId, pathId, updates) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      updateBranchPathFn(s, branchId, pathId, updates)
+    ),
+
+  removeBranchPath: (projectId, scenarioId, branchId, pathId) =>
+    mutateScenario(projectId, scenarioId, (s) => removeBranchPathFn(s, branchId, pathId)),
+
+  setActivityBranchPath: (projectId, scenarioId, activityId, target) =>
+    mutateScenario(projectId, scenarioId, (s) =>
+      setActivityBranchPathFn(s, activityId, target)
+    ),
+
   toggleScenarioLock: (projectId, scenarioId) => {
     pushUndo(projectId);
     set((state) => {
@@ -138,7 +138,7 @@ describe("useSchedule", () => {
 
     rerender({ target: 0.8 });
     expect(mockCompute).toHaveBeenCalledTimes(2);
-    expect(mockCompute).toHaveBeenLastCalledWith(ACTS, "2026-04-06", 0.8, undefined);
+    expect(mockCompute).toHaveBeenLastCalledWith(ACTS, "2026-04-06", 0.8, undefined, undefined, undefined);
   });
 
   it("does not recompute when nothing changes", () => {
@@ -7,6 +7,7 @@ import type {
   Activity,
   Calendar,
   DeterministicSchedule,
+  WbsSummary,
 } from "@domain/models/types";
 import type { WorkCalendar } from "@core/calendar/work-calendar";
 import { isCalendarError } from "@core/calendar/work-calendar";
@@ -25,7 +26,8 @@ export interface ScheduleError {
 
 /**
  * Memoized deterministic schedule computation.
- * Recomputes only when activities, startDate, probabilityTarget, or calendar change.
+ * Recomputes only when activities, startDate, probabilityTarget, calendar, the WBS
+ * summaries or the status date change.
  *
  * Fires onScheduleError (if provided) with every schedule computation failure —
  * not just calendar misconfigurations. The isCalendarError flag on the error
@@ -38,12 +40,16 @@ export function useSchedule(
   startDate: string,
   probabilityTarget: number,
   calendar?: WorkCalendar | Calendar,
-  onScheduleError?: (error: ScheduleError | null) => void
+  onScheduleError?: (error: ScheduleError | null) => void,
+  summaries?: WbsSummary[],
+  statusDate?: string
 ): DeterministicSchedule | null {
   return useMemo(() => {
     if (activities.length === 0) return null;
     try {
-      const result = computeSchedule(activities, startDate, probabilityTarget, calendar);
+      const result = computeSchedule(
+        activities, startDate, probabilityTarget, calendar, summaries, statusDate,
+      );
       onScheduleError?.(null);
       return result;
     } catch (err) {
@@ -57,5 +63,5 @@ export function useSchedule(
       return null;
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps -- onScheduleError is a setState, stable ref
-  }, [activities, startDate, probabilityTarget, calendar]);
+  }, [activities, startDate, probabilityTarget, calendar, summaries, statusDate]);
 }
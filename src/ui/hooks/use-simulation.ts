@@ -5,7 +5,12 @@
 import { useState, useCallback, useRef } from "react";
 import type { Activity, SimulationRun } from "@domain/models/types";
 import { runSimulation } from "@app/api/simulation-service";
-import type { SimulationHandle, DependencySimulationParams } from "@core/simulation/worker-client";
+import type {
+  SimulationHandle,
+  DependencySimulationParams,
+  UncertaintyParams,
+} from "@core/simulation/worker-client";
+import type { ConvergenceTarget } from "@core/simulation/convergence";
 
 export interface SimulationState {
   isRunning: boolean;
@@ -33,6 +38,8 @@ export function useSimulation() {
       onComplete: (result: SimulationRun, elapsedMs: number) => void,
       dependencyParams?: DependencySimulationParams,
       sequentialConstraints?: ({ type: string; offsetFromStart: number; mode: string } | null)[],
+      uncertainty?: UncertaintyParams,
+      convergence?: ConvergenceTarget,
     ) => {
       setState({
         isRunning: true,
@@ -67,7 +74,7 @@ export function useSimulation() {
           });
           handleRef.current = null;
         },
-      }, dependencyParams, sequentialConstraints);
+      }, dependencyParams, sequentialConstraints, uncertainty, convergence);
     },
     []
   );
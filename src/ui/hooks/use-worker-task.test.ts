@@ -0,0 +1,74 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+
+import { useWorkerTask } from "./use-worker-task";
+import type { WorkerTaskCallbacks } from "@core/simulation/worker-client";
+
+/** A launcher that hands its callbacks back so the test can drive them. */
+function deferred() {
+  let callbacks: WorkerTaskCallbacks<number> | null = null;
+  const cancel = vi.fn();
+  const launch = (cb: WorkerTaskCallbacks<number>) => {
+    callbacks = cb;
+    return { cancel };
+  };
+  return { launch, cancel, callbacks: () => callbacks! };
+}
+
+describe("useWorkerTask", () => {
+  it("runs, reports progress and hands the result over", () => {
+    const { result } = renderHook(() => useWorkerTask<number>());
+    const task = deferred();
+    const onComplete = vi.fn();
+
+    act(() => result.current.run(task.launch, onComplete));
+    expect(result.current.isRunning).toBe(true);
+
+    act(() => task.callbacks().onProgress!(2000, 62000));
+    expect(result.current.progress).toEqual({ completed: 2000, total: 62000 });
+
+    act(() => task.callbacks().onComplete(7));
+    expect(onComplete).toHaveBeenCalledWith(7);
+    expect(result.current).toMatchObject({ isRunning: false, progress: null, error: null });
+  });
+
+  it("keeps the error, and cancels the running task on cancel or unmount", () => {
+    const { result, unmount } = renderHook(() => useWorkerTask<number>());
+    const failing = deferred();
+    act(() => result.current.run(failing.launch, vi.fn()));
+    act(() => failing.callbacks().onError("boom"));
+    expect(result.current).toMatchObject({ isRunning: false, error: "boom" });
+
+    const cancelled = deferred();
+    act(() => result.current.run(cancelled.launch, vi.fn()));
+    act(() => result.current.cancel());
+    expect(cancelled.cancel).toHaveBeenCalledTimes(1);
+    expect(result.current.isRunning).toBe(false);
+
+    const running = deferred();
+    act(() => result.current.run(running.launch, vi.fn()));
+    unmount();
+    expect(running.cancel).toHaveBeenCalledTimes(1);
+    expect(failing.cancel).not.toHaveBeenCalled();
+  });
+
+  it("holds no handle for a task that answered before its launcher returned", () => {
+    const { result, unmount } = renderHook(() => useWorkerTask<number>());
+    const cancel = vi.fn();
+    const onComplete = vi.fn();
+    act(() =>
+      result.current.run((cb) => {
+        cb.onComplete(3);
+        return { cancel };
+      }, onComplete),
+    );
+    expect(onComplete).toHaveBeenCalledWith(3);
+    expect(result.current.isRunning).toBe(false);
+    unmount();
+    expect(cancel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+// Copyright (C) 2026 William W. Davis, MSPM, PMP. All rights reserved.
+// Licensed under the GNU General Public License v3.0.
+// See LICENSE file in the project root for full license text.
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import type { SimulationHandle, WorkerTaskCallbacks } from "@core/simulation/worker-client";
+
+export interface WorkerTaskState {
+  isRunning: boolean;
+  progress: { completed: number; total: number } | null;
+  error: string | null;
+}
+
+const IDLE: WorkerTaskState = { isRunning: false, progress: null, error: null };
+
+/**
+ * A one-result worker task (the goal-seek re-runs, simulation-service.ts) as component
+ * state: running, progress and error, with cancel. One task at a time — starting another
+ * cancels the first — and an unmounted component cancels its own.
+ */
+export function useWorkerTask<T>() {
+  const [state, setState] = useState<WorkerTaskState>(IDLE);
+  const handleRef = useRef<SimulationHandle | null>(null);
+
+  useEffect(() => () => handleRef.current?.cancel(), []);
+
+  const run = useCallback(
+    (launch: (callbacks: WorkerTaskCallbacks<T>) => SimulationHandle, onComplete: (result: T) => void) => {
+      handleRef.current?.cancel();
+      setState({ isRunning: true, progress: null, error: null });
+      let done = false;
+      const handle = launch({
+        onProgress: (completed, total) => {
+          setState((prev) => ({ ...prev, progress: { completed, total } }));
+        },
+        onComplete: (result) => {
+          done = true;
+          handleRef.current = null;
+          setState(IDLE);
+          onComplete(result);
+        },
+        onError: (message) => {
+          done = true;
+          handleRef.current = null;
+          setState({ isRunning: false, progress: null, error: message });
+        },
+      });
+      // The synchronous fallback has already answered by the time launch returns.
+      if (!done) handleRef.current = handle;
+    },
+    []
+  );
+
+  const cancel = useCallback(() => {
+    handleRef.current?.cancel();
+    handleRef.current = null;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, run, cancel };
+}
@@ -14,7 +14,7 @@ import { useMilestoneBuffers } from "@ui/hooks/use-milestone-buffers";
 import { usePreferencesStore } from "@ui/hooks/use-preferences-store";
 import { useAutoRunSimulation } from "@ui/hooks/use-auto-run-simulation";
 import { getLastScenarioId, setLastScenarioId } from "@infrastructure/persistence/scenario-memory";
-import type { Activity, ScenarioSettings, DeterministicSchedule } from "@domain/models/types";
+import type { Activity, ScenarioSettings, DeterministicSchedule, SimulationRun } from "@domain/models/types";
 import { BASELINE_SCENARIO_NAME, DEFAULT_GANTT_APPEARANCE, MAX_SCENARIOS_PER_PROJECT } from "@domain/models/types";
 import { formatDateISO, parseDateISO, countWorkingDays, durationToFinishDateISO } from "@core/calendar/calendar";
 import { useDateFormat } from "@ui/hooks/use-date-format";
@@ -24,16 +24,46 @@ import { isCalendarError } from "@core/calendar/work-calendar";
 import { computeDependencySchedule, computeDependencyDurations } from "@core/schedule/deterministic";
 import { isDependencyCycleError } from "@core/schedule/dependency-graph";
 import { buildDependencyGraph, computeCriticalPathActivities } from "@core/schedule/dependency-graph";
+import { buildElapsedLagCalendar, createElapsedLagResolver, hasElapsedLags } from "@core/schedule/elapsed-lag";
+import { resolvePercentLags } from "@core/schedule/percent-lag";
+import { levelDependencySchedule } from "@core/schedule/resource-leveling";
+import { applyBranchSchedulePolicy } from "@core/schedule/branch-policy";
+import { attachSummaryRollups, summaryForecastFinishDates } from "@core/schedule/wbs";
+import {
+  buildActivityCalendarAxis,
+  createActivityCalendarResolver,
+  resolveActivityCalendars,
+  scheduleAxisCalendar,
+} from "@core/schedule/activity-calendars";
+import { applyStatusDate } from "@core/schedule/status-date";
+import { activeBaseline, computeBaselineVariance, snapshotBaseline } from "@core/schedule/baseline";
+import { forecastHistoryEntry } from "@core/schedule/forecast-history";
+import { computeScheduleBuffer } from "@core/schedule/buffer";
+import {
+  CRITICAL_CHAIN_SETTINGS,
+  computeFeverPoint,
+  proposeCriticalChain,
+} from "@core/schedule/critical-chain";
 import { buildSimulationParams, type SimulationParams } from "@ui/helpers/build-simulation-params";
 import { currentSimulationGeneration } from "@infrastructure/simulation/simulation-cancellation";
 import { toast } from "@ui/hooks/use-notification-store";
 import { ScenarioTabs } from "@ui/components/ScenarioTabs";
 import { DependencyPanel } from "@ui/components/DependencyPanel";
 import { MilestonePanel } from "@ui/components/MilestonePanel";
+import { ResourcePanel } from "@ui/components/ResourcePanel";
+import { CalendarsPanel } from "@ui/components/CalendarsPanel";
+import { BaselinePanel } from "@ui/components/BaselinePanel";
+import { CorrelationPanel } from "@ui/components/CorrelationPanel";
+import { RiskRegisterPanel } from "@ui/components/RiskRegisterPanel";
+import { BranchingPanel } from "@ui/components/BranchingPanel";
+import { ResourceHistogramSection } from "@ui/components/ResourceHistogramSection";
 import { GanttSection } from "@ui/components/GanttSection";
 import { UnifiedActivityGrid } from "@ui/components/UnifiedActivityGrid";
 import { ScenarioSummaryCard } from "@ui/components/ScenarioSummaryCard";
 import { SimulationPanel } from "@ui/components/SimulationPanel";
+import { GoalSeekPanel } from "@ui/components/GoalSeekPanel";
+import { CompressionAdvisorPanel } from "@ui/components/CompressionAdvisorPanel";
+import { ForecastTrendPanel } from "@ui/components/ForecastTrendPanel";
 import { NewScenarioDialog } from "@ui/components/NewScenarioDialog";
 import { CloneScenarioDialog } from "@ui/components/CloneScenarioDialog";
 import { InlineEdit } from "@ui/components/InlineEdit";
@@ -41,8 +71,13 @@ import { InlineEdit } from "@ui/components/InlineEdit";
 import { ValidationSummary } from "@ui/components/ValidationSummary";
 import { ScenarioComparisonTable } from "@ui/components/ScenarioComparison";
 import { useScenarioComparison } from "@ui/hooks/use-scenario-comparison";
+import { useActivityDateForecasts } from "@ui/hooks/use-activity-date-forecasts";
+import { scenarioConvergenceTarget, scenarioTrialCount } from "@core/simulation/convergence";
 import { PrintableReport } from "@ui/components/PrintableReport";
 import { SensitivityPanel } from "@ui/components/SensitivityPanel";
+import { CalibrationPanel } from "@ui/components/CalibrationPanel";
+import { MergeBiasPanel } from "@ui/components/MergeBiasPanel";
+import { CriticalChainPanel } from "@ui/components/CriticalChainPanel";
 import { SharingSection } from "@ui/components/SharingSection";
 import { ActivityEditModal } from "@ui/components/ActivityEditModal";
 import { DependencyEditModal } from "@ui/components/DependencyEditModal";
@@ -54,6 +89,9 @@ import { ConnectAiPanel } from "@ui/components/ConnectAI/ConnectAiPanel";
 import type { AiFeedItem } from "@ui/components/ConnectAI/AiActivityFeed";
 import { AI_CONSENT_KEY, AI_SESSION_ID_KEY, AI_CONSENT_VERSION } from "@app/ai-connectivity-constants";
 import type { AiOpResult } from "@app/api/ai-batch-service";
+import { generateId } from "@app/api/id";
+import type { CompressionRunParams } from "@core/simulation/worker-client";
+import type { CompressionProposal } from "@core/simulation/compression-advisor";
 
 /**
  * Banner copy for a schedule-computation error. isCalendarError (set via the
@@ -71,6 +109,7 @@ export function ProjectPage() {
     addScenario,
     deleteScenario,
     duplicateScenario,
+    cloneWithCompression,
     addActivity,
     insertActivityAfterActivity,
     insertActivityAfterBand,
@@ -82,6 +121,7 @@ export function ProjectPage() {
     reorderWithBands,
     setSimulationResults,
     updateScenarioStartDate,
+    updateScenarioStatusDate,
     updateScenarioSettings,
     renameProject,
     renameScenario,
@@ -96,11 +136,46 @@ export function ProjectPage() {
     removeDependency,
     updateDependencyLag,
     updateDependencyType,
+    updateDependencyLagUnit,
+    updateDependencyLagPercent,
     addMilestone,
     removeMilestone,
     updateMilestone,
     assignActivityToMilestone,
     setActivityStartsAtMilestone,
+    addResource,
+    updateResource,
+    removeResource,
+    addCalendar,
+    updateCalendar,
+    removeCalendar,
+    addSummary,
+    updateSummary,
+    removeSummary,
+    captureBaseline,
+    renameBaseline,
+    removeBaseline,
+    setActiveBaseline,
+    recordForecast,
+    setCriticalChainPlan,
+    recordFeverPoint,
+    applyCalibration,
+    addCorrelationGroup,
+    updateCorrelationGroup,
+    removeCorrelationGroup,
+    setActivityCorrelationGroup,
+    addRisk,
+    updateRisk,
+    removeRisk,
+    setRiskActivity,
+    setActivityOccurrence,
+    addBranch,
+    renameBranch,
+    removeBranch,
+    addBranchPath,
+    updateBranchPath,
+    removeBranchPath,
+    setActivityBranchPath,
     updateProjectField,
     updateGanttAppearance,
     updateScenarioNotes,
@@ -268,21 +343,50 @@ export function ProjectPage() {
     setAiFeed([]);
   }, [stopSession]);
 
+  // The network the deterministic schedule plans: conditional work the scenario's policy
+  // leaves out is removed, its links bridged (branch-policy.ts). The Monte Carlo always
+  // sees the whole network and decides per trial. Same references when nothing is left out.
+  const scenarioActivities = scenario?.activities;
+  const scenarioDependencies = scenario?.dependencies;
+  const scenarioBranches = scenario?.branches;
+  const branchSchedulePolicy = scenario?.settings.branchSchedulePolicy;
+  const plannedNetwork = useMemo(
+    () =>
+      scenarioActivities && scenarioDependencies
+        ? applyBranchSchedulePolicy(scenarioActivities, scenarioDependencies, scenarioBranches, branchSchedulePolicy)
+        : undefined,
+    [scenarioActivities, scenarioDependencies, scenarioBranches, branchSchedulePolicy],
+  );
+
   // Deterministic schedule — uses sequential or dependency-aware engine
   const sequentialSchedule = useSchedule(
-    scenario?.settings.dependencyMode ? [] : (scenario?.activities ?? []),
+    scenario?.settings.dependencyMode ? [] : (plannedNetwork?.activities ?? []),
     scenario?.startDate ?? "2025-01-06",
     scenario?.settings.probabilityTarget ?? 0.5,
     workCalendar,
-    setSequentialScheduleError
+    setSequentialScheduleError,
+    scenario?.summaries,
+    scenario?.statusDate
   );
 
   const depMode = scenario?.settings.dependencyMode;
   const activities = scenario?.activities;
-  const dependencies = scenario?.dependencies;
+  const scheduleActivities = plannedNetwork?.activities;
+  const scheduleDependencies = plannedNetwork?.dependencies;
   const startDate = scenario?.startDate;
   const probTarget = scenario?.settings.probabilityTarget;
   const milestones = scenario?.milestones;
+  const resources = project?.resources;
+  const calendars = project?.calendars;
+  const summaries = scenario?.summaries;
+  const statusDate = scenario?.statusDate;
+
+  // Activities on a named calendar of their own — dependency mode only, like resources.
+  // undefined (the common case) keeps every engine on its single-calendar path.
+  const activityCalendars = useMemo(
+    () => (depMode && activities ? resolveActivityCalendars(activities, calendars) : undefined),
+    [depMode, activities, calendars],
+  );
 
   // Compute the dependency schedule purely — no state-setting during render.
   // null = no error (including "not yet computed"/n/a); every thrown error has an
@@ -294,18 +398,36 @@ export function ProjectPage() {
     schedule: DeterministicSchedule | null;
     scheduleError: ScheduleError | null;
   }>(() => {
-    if (!depMode || !activities || activities.length === 0 || !dependencies || !startDate || probTarget == null) {
+    if (
+      !depMode || !scheduleActivities || scheduleActivities.length === 0 || !scheduleDependencies ||
+      !startDate || probTarget == null
+    ) {
       return { schedule: null, scheduleError: null };
     }
     try {
-      const schedule = computeDependencySchedule(
-        activities,
-        dependencies,
-        startDate,
-        probTarget,
-        workCalendar,
-        milestones
+      // Leveling is a no-op (returns the same schedule) when no activity holds a resource.
+      // Summaries roll up last, from the leveled dates.
+      const leveled = levelDependencySchedule(
+        computeDependencySchedule(
+          scheduleActivities,
+          scheduleDependencies,
+          startDate,
+          probTarget,
+          workCalendar,
+          milestones,
+          activityCalendars,
+          statusDate,
+        ),
+        {
+          activities: scheduleActivities,
+          dependencies: scheduleDependencies,
+          resources,
+          startDate,
+          calendar: workCalendar,
+          activityCalendars,
+        }
       );
+      const schedule = attachSummaryRollups(leveled, scheduleActivities, summaries, workCalendar);
       return { schedule, scheduleError: null };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
@@ -318,7 +440,10 @@ export function ProjectPage() {
         },
       };
     }
-  }, [depMode, activities, dependencies, startDate, probTarget, workCalendar, milestones]);
+  }, [
+    depMode, scheduleActivities, scheduleDependencies, startDate, probTarget, workCalendar, milestones, resources,
+    activityCalendars, summaries, statusDate,
+  ]);
 
   const dependencySchedule = dependencyScheduleResult.schedule;
 
@@ -330,13 +455,30 @@ export function ProjectPage() {
 
   // Critical path activity IDs (only in dependency mode)
   const criticalPathIds = useMemo(() => {
-    if (!depMode || !activities || activities.length === 0 || !dependencies || probTarget == null) return null;
+    if (
+      !depMode || !scheduleActivities || scheduleActivities.length === 0 || !scheduleDependencies ||
+      probTarget == null
+    ) {
+      return null;
+    }
     try {
+      const lagResolver = startDate && hasElapsedLags(scheduleDependencies)
+        ? createElapsedLagResolver(
+            buildElapsedLagCalendar(startDate, scheduleAxisCalendar(workCalendar, activityCalendars)),
+          )
+        : undefined;
+      const calendarResolver = startDate && activityCalendars
+        ? createActivityCalendarResolver(buildActivityCalendarAxis(startDate, workCalendar, activityCalendars))
+        : undefined;
+      // Durations as the schedule resolves them, actual dates included (status-date.ts).
+      const progressed = applyStatusDate(scheduleActivities, statusDate, workCalendar).activities;
+      const durationMap = computeDependencyDurations(progressed, probTarget);
       const graph = buildDependencyGraph(
-        activities.map((a) => a.id),
-        dependencies
+        scheduleActivities.map((a) => a.id),
+        resolvePercentLags(scheduleDependencies, durationMap),
+        lagResolver,
+        calendarResolver,
       );
-      const durationMap = computeDependencyDurations(activities, probTarget);
       return computeCriticalPathActivities(graph, durationMap).criticalActivityIds;
     } catch {
       // Deliberately left as a bare, silent catch — not generalized like the memos
@@ -356,10 +498,31 @@ export function ProjectPage() {
       // an oversight.
       return null;
     }
-  }, [depMode, activities, dependencies, probTarget]);
+  }, [
+    depMode, scheduleActivities, scheduleDependencies, probTarget, startDate, statusDate, workCalendar,
+    activityCalendars,
+  ]);
 
   const schedule = scenario?.settings.dependencyMode ? dependencySchedule : sequentialSchedule;
 
+  // WBS summary finish dates at the project target, for the summary rows
+  const summaryResults = scenario?.simulationResults?.summaryResults;
+  const projTarget = scenario?.settings.projectProbabilityTarget;
+  const summaryForecasts = useMemo(
+    () =>
+      startDate && projTarget !== undefined
+        ? summaryForecastFinishDates(summaryResults, startDate, projTarget, workCalendar)
+        : undefined,
+    [summaryResults, startDate, projTarget, workCalendar],
+  );
+
+  // Simulated start/finish dates per activity: grid columns, edit modal, Gantt whiskers
+  const activityDates = useActivityDateForecasts(
+    scenario?.simulationResults?.activityDates,
+    startDate,
+    workCalendar,
+  );
+
   // Schedule buffer = MC percentile at project target - deterministic span
   const buffer = useScheduleBuffer(
     schedule?.spanDays ?? null,
@@ -392,6 +555,83 @@ export function ProjectPage() {
     workCalendar
   );
 
+  // Variance against the active baseline (baseline.ts) — grid, milestones, Gantt, exports
+  const baselines = scenario?.baselines;
+  const activeBaselineId = scenario?.activeBaselineId;
+  const currentBaseline = useMemo(
+    () => activeBaseline({ baselines, activeBaselineId }),
+    [baselines, activeBaselineId],
+  );
+  const baselineVariance = useMemo(
+    () =>
+      currentBaseline && schedule && activities && milestones
+        ? computeBaselineVariance(currentBaseline, schedule, activities, milestones, workCalendar)
+        : undefined,
+    [currentBaseline, schedule, activities, milestones, workCalendar],
+  );
+
+  const simulationResults = scenario?.simulationResults;
+  const handleCaptureBaseline = useCallback(
+    (name: string) => {
+      if (!id || !scenario || !schedule) return;
+      const meta = { id: generateId(), name, capturedAt: new Date().toISOString() };
+      captureBaseline(
+        id,
+        scenario.id,
+        snapshotBaseline(meta, schedule, scenario.activities, scenario.milestones, simulationResults, buffer?.bufferDays),
+      );
+    },
+    [id, scenario, schedule, simulationResults, buffer, captureBaseline],
+  );
+
+  // A finished run is stored and joins the scenario's forecast history (forecast-history.ts)
+  // from here — the completion handler of both the manual and the auto run — so a run
+  // reloaded from the cache is never recorded, and a repeat of the latest forecast is
+  // refused without a save.
+  const handleSimulationResult = useCallback(
+    (projectId: string, scenarioId: string, result: SimulationRun) => {
+      setSimulationResults(projectId, scenarioId, result);
+      const ran = useProjectStore.getState().getProject(projectId)?.scenarios.find((s) => s.id === scenarioId);
+      if (!ran) return;
+      const runBuffer = schedule
+        ? computeScheduleBuffer(
+            schedule.spanDays,
+            result.percentiles,
+            ran.settings.probabilityTarget,
+            ran.settings.projectProbabilityTarget,
+          )
+        : null;
+      recordForecast(projectId, scenarioId, forecastHistoryEntry(result, ran, runBuffer?.bufferDays, workCalendar));
+    },
+    [schedule, workCalendar, setSimulationResults, recordForecast],
+  );
+
+  // Critical Chain mode (critical-chain.ts): the chain and buffers the run supports, and
+  // the plan's fever chart point at the status date — recorded when the user asks.
+  const criticalChain = Boolean(depMode && scenario?.settings.criticalChain);
+  const criticalChainProposal = useMemo(
+    () =>
+      criticalChain && dependencySchedule && criticalPathIds && scheduleDependencies && startDate &&
+      projTarget !== undefined && buffer
+        ? proposeCriticalChain(
+            dependencySchedule, scheduleDependencies, criticalPathIds, buffer.bufferDays,
+            simulationResults?.activityDates, projTarget, startDate, workCalendar,
+          )
+        : null,
+    [
+      criticalChain, dependencySchedule, criticalPathIds, scheduleDependencies, startDate, projTarget, buffer,
+      simulationResults, workCalendar,
+    ],
+  );
+  const criticalChainPlan = scenario?.criticalChainPlan;
+  const feverPoint = useMemo(
+    () =>
+      criticalChain && criticalChainPlan && statusDate && dependencySchedule && scenarioActivities
+        ? computeFeverPoint(criticalChainPlan, dependencySchedule, scenarioActivities, statusDate, workCalendar)
+        : null,
+    [criticalChain, criticalChainPlan, statusDate, dependencySchedule, scenarioActivities, workCalendar],
+  );
+
   const autoRunSimulation = usePreferencesStore(
     (s) => s.preferences.autoRunSimulation,
   );
@@ -412,6 +652,44 @@ export function ProjectPage() {
     [project?.targetFinishDate, scenario?.simulationResults?.percentiles, scenario?.startDate, targetFinishGreenPct, targetFinishAmberPct, workCalendar],
   );
 
+  // Goal-seek re-runs (dependency mode only): the scenario's trials as the manual run builds them.
+  const buildGoalSeekInput = useMemo(() => {
+    if (!scenario?.settings.dependencyMode) return null;
+    return (): CompressionRunParams | null => {
+      try {
+        const params = buildSimulationParams(
+          scenario.activities,
+          true,
+          scenario.settings.probabilityTarget,
+          scenario.dependencies,
+          scenario.milestones,
+          scenario.startDate,
+          workCalendar,
+          scenario.settings.parkinsonsLawEnabled ?? true,
+          resources,
+          activityCalendars,
+          scenario.summaries,
+          scenario.statusDate,
+        );
+        if (!params.dependencyParams) return null;
+        return {
+          activities: params.activities,
+          rngSeed: scenario.settings.rngSeed,
+          dependencyParams: params.dependencyParams,
+          uncertainty: {
+            correlationGroups: scenario.correlationGroups,
+            risks: scenario.risks,
+            branches: scenario.branches,
+            samplingMethod: scenario.settings.samplingMethod,
+          },
+        };
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : String(err));
+        return null;
+      }
+    };
+  }, [scenario, workCalendar, resources, activityCalendars]);
+
   // Format a simulation duration (days) as a projected finish date for CDF tooltips
   const formatDate = useDateFormat();
   const formatDurationAsDate = useCallback(
@@ -441,9 +719,11 @@ export function ProjectPage() {
     scenario,
     allActivitiesValid,
     workCalendar,
+    resources,
+    activityCalendars,
     isRunning: simulation.isRunning,
     runSimulation: simulation.run,
-    setSimulationResults,
+    setSimulationResults: handleSimulationResult,
   });
 
   // Undo/Redo keyboard shortcuts
@@ -513,6 +793,23 @@ export function ProjectPage() {
     [id, project, cloneSourceId, duplicateScenario, setActiveScenarioId]
   );
 
+  // A compression-advisor proposal goes into a new scenario, named after the change.
+  const handleApplyCompression = useCallback(
+    (proposal: CompressionProposal, label: string) => {
+      if (!id || !project || !scenario) return;
+      if (project.scenarios.length >= MAX_SCENARIOS_PER_PROJECT) {
+        toast.error(
+          `This project already has the maximum of ${MAX_SCENARIOS_PER_PROJECT} scenarios. Remove one to add another.`
+        );
+        return;
+      }
+      const newName = `${scenario.name} (${label})`.slice(0, 200);
+      const newId = cloneWithCompression(id, scenario.id, proposal, newName);
+      if (newId) setActiveScenarioId(newId);
+    },
+    [id, project, scenario, cloneWithCompression, setActiveScenarioId]
+  );
+
   const handleRunSimulation = useCallback(() => {
     if (!id || !scenario) return;
 
@@ -527,6 +824,10 @@ export function ProjectPage() {
         scenario.startDate,
         workCalendar,
         scenario.settings.parkinsonsLawEnabled ?? true,
+        resources,
+        activityCalendars,
+        scenario.summaries,
+        scenario.statusDate,
       );
     } catch (err) {
       toast.error(err instanceof Error ? err.message : String(err));
@@ -537,18 +838,25 @@ export function ProjectPage() {
     // bumped the counter while the worker was in flight.
     const startGen = currentSimulationGeneration();
     simulation.run(
-      scenario.activities,
-      scenario.settings.trialCount,
+      params.activities,
+      scenarioTrialCount(scenario.settings),
       scenario.settings.rngSeed,
       params.deterministicDurations,
       (result) => {
         if (currentSimulationGeneration() !== startGen) return;
-        setSimulationResults(id, scenario.id, result);
+        handleSimulationResult(id, scenario.id, result);
       },
       params.dependencyParams,
       params.sequentialConstraints,
+      {
+        correlationGroups: scenario.correlationGroups,
+        risks: scenario.risks,
+        branches: scenario.branches,
+        samplingMethod: scenario.settings.samplingMethod,
+      },
+      scenarioConvergenceTarget(scenario.settings),
     );
-  }, [id, scenario, simulation, setSimulationResults, workCalendar]);
+  }, [id, scenario, simulation, handleSimulationResult, workCalendar, resources, activityCalendars]);
 
   const handleSettingsChange = useCallback(
     (updates: Partial<ScenarioSettings>) => {
@@ -748,6 +1056,10 @@ export function ProjectPage() {
             onStartDateChange={(startDate) =>
               updateScenarioStartDate(id!, scenario.id, startDate)
             }
+            statusDate={scenario.statusDate}
+            onStatusDateChange={(date) =>
+              updateScenarioStatusDate(id!, scenario.id, date)
+            }
             onNewSeed={handleNewSeed}
             isLocked={scenario.locked}
             onToggleLock={() => toggleScenarioLock(id!, scenario.id)}
@@ -766,6 +1078,23 @@ export function ProjectPage() {
               })
             }
             targetRAGColor={targetRAGColor}
+            finishTargetDetail={project.targetFinishDate && simulationResults && (
+              <GoalSeekPanel
+                targetFinishDate={project.targetFinishDate}
+                startDate={scenario.startDate}
+                percentiles={simulationResults.percentiles}
+                started={
+                  scenario.statusDate !== undefined ||
+                  scenario.activities.some((a) => a.status !== "planned")
+                }
+                calendar={workCalendar}
+                defaultConfidence={targetFinishGreenPct}
+                buildPlanInput={buildGoalSeekInput}
+                activityNameById={(activityId) =>
+                  scenario.activities.find((a) => a.id === activityId)?.name ?? activityId
+                }
+              />
+            )}
             scenarioNotes={scenario.notes}
             onScenarioNotesChange={(notes) => {
               // Defensive begin: idempotent during normal typing (group already
@@ -778,6 +1107,28 @@ export function ProjectPage() {
             onScenarioNotesBlur={() => endUndoGroup()}
           />
 
+          {/* Compression advisor — fast-tracking and crashing, ranked by re-runs */}
+          {buildGoalSeekInput && criticalPathIds && simulationResults && (
+            <CompressionAdvisorPanel
+              buildInput={buildGoalSeekInput}
+              criticalIds={criticalPathIds}
+              targetRed={targetRAGColor === "red"}
+              activityNameById={(activityId) =>
+                scenario.activities.find((a) => a.id === activityId)?.name ?? activityId
+              }
+              onApply={handleApplyCompression}
+            />
+          )}
+
+          {/* Forecast trend — how the finish moved across runs */}
+          {(scenario.forecastHistory?.length ?? 0) >= 2 && (
+            <ForecastTrendPanel
+              history={scenario.forecastHistory!}
+              scenarioName={scenario.name}
+              projectName={project.name}
+            />
+          )}
+
           {/* Validation errors */}
           {!allActivitiesValid && (
             <ValidationSummary activities={scenario.activities} />
@@ -826,6 +1177,88 @@ export function ProjectPage() {
             onEditActivity={setEditingActivityId}
             constraintWarningIds={constraintWarningIds}
             activityNumberMap={activityNumberMap}
+            summaries={scenario.summaries}
+            scheduledSummaries={schedule?.summaries}
+            summaryForecasts={summaryForecasts}
+            projectProbabilityTarget={scenario.settings.projectProbabilityTarget}
+            onAddSummary={() => addSummary(id!, scenario.id)}
+            onUpdateSummary={(summaryId, updates) =>
+              updateSummary(id!, scenario.id, summaryId, updates)
+            }
+            onRemoveSummary={(summaryId) => removeSummary(id!, scenario.id, summaryId)}
+            baselineVariance={baselineVariance?.activities}
+            criticalityIndex={simulationResults?.criticalityIndex}
+            activityDateForecasts={activityDates.forecasts}
+            showDatePercentiles={activityDates.showColumns}
+            onToggleDatePercentiles={activityDates.onToggleColumns}
+          />
+
+          {/* Baseline Panel — capture and choose what variance is measured against */}
+          <BaselinePanel
+            baselines={scenario.baselines ?? []}
+            activeBaselineId={scenario.activeBaselineId}
+            projectFinishVariance={baselineVariance?.projectFinishDays}
+            canCapture={!!schedule && scenario.activities.length > 0}
+            onCapture={handleCaptureBaseline}
+            onRename={(baselineId, name) => renameBaseline(id!, scenario.id, baselineId, name)}
+            onRemove={(baselineId) => removeBaseline(id!, scenario.id, baselineId)}
+            onSetActive={(baselineId) => setActiveBaseline(id!, scenario.id, baselineId)}
+            isLocked={scenario.locked}
+          />
+
+          {/* Correlation Panel — groups of activities whose durations move together */}
+          <CorrelationPanel
+            groups={scenario.correlationGroups ?? []}
+            activities={scenario.activities}
+            onAdd={(name, coefficient) => addCorrelationGroup(id!, scenario.id, name, coefficient)}
+            onUpdate={(groupId, updates) => updateCorrelationGroup(id!, scenario.id, groupId, updates)}
+            onRemove={(groupId) => removeCorrelationGroup(id!, scenario.id, groupId)}
+            onSetActivityGroup={(activityId, groupId) =>
+              setActivityCorrelationGroup(id!, scenario.id, activityId, groupId)
+            }
+            isLocked={scenario.locked}
+            formatActivityName={formatActivityName}
+          />
+
+          {/* Risk Register — discrete risk events fired in every trial */}
+          <RiskRegisterPanel
+            risks={scenario.risks ?? []}
+            activities={scenario.activities}
+            riskResults={scenario.simulationResults?.riskResults}
+            onAdd={(fields) => addRisk(id!, scenario.id, fields)}
+            onUpdate={(riskId, updates) => updateRisk(id!, scenario.id, riskId, updates)}
+            onRemove={(riskId) => removeRisk(id!, scenario.id, riskId)}
+            onSetRiskActivity={(riskId, activityId, affected) =>
+              setRiskActivity(id!, scenario.id, riskId, activityId, affected)
+            }
+            isLocked={scenario.locked}
+            formatActivityName={formatActivityName}
+          />
+
+          {/* Conditional Work — activities and branch paths that run in only some trials */}
+          <BranchingPanel
+            activities={scenario.activities}
+            branches={scenario.branches ?? []}
+            policy={scenario.settings.branchSchedulePolicy ?? "all"}
+            onSetOccurrence={(activityId, probability) =>
+              setActivityOccurrence(id!, scenario.id, activityId, probability)
+            }
+            onAddBranch={(name) => addBranch(id!, scenario.id, name)}
+            onRenameBranch={(branchId, name) => renameBranch(id!, scenario.id, branchId, name)}
+            onRemoveBranch={(branchId) => removeBranch(id!, scenario.id, branchId)}
+            onAddPath={(branchId, name, probability) =>
+              addBranchPath(id!, scenario.id, branchId, name, probability)
+            }
+            onUpdatePath={(branchId, pathId, updates) =>
+              updateBranchPath(id!, scenario.id, branchId, pathId, updates)
+            }
+            onRemovePath={(branchId, pathId) => removeBranchPath(id!, scenario.id, branchId, pathId)}
+            onSetActivityPath={(activityId, target) =>
+              setActivityBranchPath(id!, scenario.id, activityId, target)
+            }
+            onPolicyChange={(branchSchedulePolicy) => handleSettingsChange({ branchSchedulePolicy })}
+            isLocked={scenario.locked}
+            formatActivityName={formatActivityName}
           />
 
           {/* Milestone Panel — only shown when dependency mode is on */}
@@ -851,6 +1284,31 @@ export function ProjectPage() {
               }
               isLocked={scenario.locked}
               formatActivityName={formatActivityName}
+              baselineVariance={baselineVariance?.milestones}
+            />
+          )}
+
+          {/* Resource Panel — leveling only applies in dependency mode */}
+          {scenario.settings.dependencyMode && (
+            <ResourcePanel
+              resources={project.resources ?? []}
+              activities={scenario.activities}
+              onAddResource={(name, capacity) => addResource(id!, name, capacity)}
+              onUpdateResource={(resourceId, updates) => updateResource(id!, resourceId, updates)}
+              onRemoveResource={(resourceId) => removeResource(id!, resourceId)}
+              isLocked={scenario.locked}
+            />
+          )}
+
+          {/* Activity Calendars Panel — per-activity calendars only apply in dependency mode */}
+          {scenario.settings.dependencyMode && (
+            <CalendarsPanel
+              calendars={project.calendars ?? []}
+              activities={scenario.activities}
+              onAddCalendar={(name) => addCalendar(id!, name)}
+              onUpdateCalendar={(calendarId, updates) => updateCalendar(id!, calendarId, updates)}
+              onRemoveCalendar={(calendarId) => removeCalendar(id!, calendarId)}
+              isLocked={scenario.locked}
             />
           )}
 
@@ -869,6 +1327,9 @@ export function ProjectPage() {
               onUpdateLag={(fromId, toId, lag) =>
                 updateDependencyLag(id!, scenario.id, fromId, toId, lag)
               }
+              onUpdateLagPercent={(fromId, toId, lagPercent) =>
+                updateDependencyLagPercent(id!, scenario.id, fromId, toId, lagPercent)
+              }
               onUpdateType={(fromId, toId, type) =>
                 updateDependencyType(id!, scenario.id, fromId, toId, type)
               }
@@ -893,6 +1354,7 @@ export function ProjectPage() {
               activityTarget={scenario.settings.probabilityTarget}
               projectTarget={scenario.settings.projectProbabilityTarget}
               calendar={workCalendar}
+              activityCalendars={activityCalendars}
               milestones={scenario.milestones}
               milestoneBuffers={milestoneBuffers}
               criticalPathIds={criticalPathIds}
@@ -903,6 +1365,15 @@ export function ProjectPage() {
               onRenameBand={(bandId, newName) =>
                 updateBand(id!, scenario.id, bandId, { name: newName })
               }
+              summaries={scenario.summaries}
+              scheduledSummaries={schedule.summaries}
+              baseline={currentBaseline}
+              criticalityIndex={simulationResults?.criticalityIndex}
+              activityDateForecasts={activityDates.forecasts}
+              onToggleSummary={(summaryId) => {
+                const target = scenario.summaries?.find((s) => s.id === summaryId);
+                if (target) updateSummary(id!, scenario.id, summaryId, { collapsed: !target.collapsed });
+              }}
               onEditDependency={(fromId, toId) => setEditingDependency({ fromActivityId: fromId, toActivityId: toId })}
               isLocked={scenario.locked}
               showActivityNumbers={showActivityNumbers}
@@ -921,6 +1392,17 @@ export function ProjectPage() {
             />
           )}
 
+          {/* Resource histogram — under the Gantt it explains */}
+          {schedule && scenario.settings.dependencyMode && project.resources && project.resources.length > 0 && (
+            <ResourceHistogramSection
+              scheduledActivities={schedule.activities}
+              activities={scenario.activities}
+              resources={project.resources}
+              projectStartDate={scenario.startDate}
+              calendar={workCalendar}
+            />
+          )}
+
           {/* Monte Carlo Simulation */}
           <SimulationPanel
             simulationResults={scenario.simulationResults}
@@ -946,7 +1428,52 @@ export function ProjectPage() {
 
           {/* Sensitivity Analysis */}
           {scenario.activities.length >= 2 && (
-            <SensitivityPanel activities={scenario.activities} />
+            <SensitivityPanel
+              activities={scenario.activities}
+              simulated={simulationResults?.activitySensitivity}
+            />
+          )}
+
+          {/* Estimate calibration — what the actuals say about the estimates */}
+          <CalibrationPanel
+            activities={scenario.activities}
+            appliedCalibration={scenario.appliedCalibration}
+            formatActivityName={formatActivityName}
+            onApply={(adjustment) => applyCalibration(id!, scenario.id, adjustment)}
+            isLocked={scenario.locked}
+          />
+
+          {/* Merge Bias — simulated vs planned start where parallel paths converge */}
+          {depMode && dependencySchedule && simulationResults?.mergePoints && (
+            <MergeBiasPanel
+              activities={scenario.activities}
+              scheduledActivities={dependencySchedule.activities}
+              mergePoints={simulationResults.mergePoints}
+              startDate={scenario.startDate}
+              calendar={workCalendar}
+              formatActivityName={formatActivityName}
+            />
+          )}
+
+          {/* Critical Chain — aggressive durations, pooled buffers, fever chart */}
+          {depMode && (
+            <CriticalChainPanel
+              enabled={criticalChain}
+              onEnabledChange={(enabled) =>
+                handleSettingsChange(enabled ? CRITICAL_CHAIN_SETTINGS : { criticalChain: undefined })
+              }
+              proposal={criticalChainProposal}
+              plan={criticalChainPlan}
+              onPlanChange={(plan) => setCriticalChainPlan(id!, scenario.id, plan)}
+              feverPoint={feverPoint}
+              onRecordFeverPoint={(point) => recordFeverPoint(id!, scenario.id, point)}
+              scheduledActivities={dependencySchedule?.activities ?? []}
+              nameOf={(activityId) => {
+                const activity = scenario.activities.find((a) => a.id === activityId);
+                return activity ? formatActivityName(activity) : activityId;
+              }}
+              isLocked={scenario.locked}
+            />
           )}
         </div>
       ) : (
@@ -999,6 +1526,7 @@ export function ProjectPage() {
             setAddingDependencyFromId(fromId);
           }}
           activityNumberMap={activityNumberMap}
+          dateForecast={activityDates.forecasts.get(editingActivityId)}
         />
       )}
 
@@ -1009,16 +1537,21 @@ export function ProjectPage() {
           toActivityId={editingDependency.toActivityId}
           activities={scenario.activities}
           dependencies={scenario.dependencies}
-          onSave={(fromId, toId, type, lagDays) => {
+          onSave={(fromId, toId, type, lagDays, lagUnit, lagPercent) => {
             const pairChanged = fromId !== editingDependency.fromActivityId || toId !== editingDependency.toActivityId;
             if (pairChanged) {
               // Predecessor/successor changed: delete old, add new
               removeDependency(id!, scenario.id, editingDependency.fromActivityId, editingDependency.toActivityId);
-              addDependency(id!, scenario.id, fromId, toId, type, lagDays);
+              addDependency(id!, scenario.id, fromId, toId, type, lagDays, lagUnit, lagPercent);
             } else {
-              // Same pair: just update type and lag
+              // Same pair: just update type, lag and lag unit
               updateDependencyType(id!, scenario.id, fromId, toId, type);
-              updateDependencyLag(id!, scenario.id, fromId, toId, lagDays);
+              if (lagPercent === undefined) {
+                updateDependencyLag(id!, scenario.id, fromId, toId, lagDays);
+              } else {
+                updateDependencyLagPercent(id!, scenario.id, fromId, toId, lagPercent);
+              }
+              updateDependencyLagUnit(id!, scenario.id, fromId, toId, lagUnit);
             }
           }}
           onDelete={(fromId, toId) => {
@@ -1035,8 +1568,8 @@ export function ProjectPage() {
           fromActivityId={addingDependencyFromId}
           activities={scenario.activities}
           dependencies={scenario.dependencies}
-          onSave={(fromId, toId, type, lagDays) => {
-            addDependency(id!, scenario.id, fromId, toId, type, lagDays);
+          onSave={(fromId, toId, type, lagDays, lagUnit, lagPercent) => {
+            addDependency(id!, scenario.id, fromId, toId, type, lagDays, lagUnit, lagPercent);
           }}
           onClose={() => setAddingDependencyFromId(null)}
           formatActivityName={formatActivityName}
@@ -1053,6 +1586,7 @@ export function ProjectPage() {
           buffer={buffer}
           milestoneBuffers={milestoneBuffers}
           calendar={workCalendar}
+          activityCalendars={activityCalendars}
           criticalPathIds={criticalPathIds}
           targetRAGColor={targetRAGColor}
         />
@@ -12,6 +12,58 @@ export interface ChangelogEntry {
 }
 
 export const CHANGELOG: ChangelogEntry[] = [
+  {
+    version: "0.65.0",
+    date: "2026-10-19",
+    sections: [
+      {
+        title: "Added — scheduling",
+        items: [
+          "A large release: the scheduler gains the network features of a full CPM tool, the simulation measures far more than the finish date, and a set of planning tools works from what it measures. Projects saved by earlier versions are migrated to the new data format (schema v23 to v46) when they load; nothing in them changes.",
+          "Start-to-Finish links, alongside the other three types, in the schedule, the simulation and the dependency editor.",
+          "Lags in calendar days or as a percentage of the predecessor's duration, as well as working days. A curing time runs over weekends; a \"start when the design is half done\" link follows the design's simulated duration in every trial.",
+          "A resource pool and resource leveling. Activities can be assigned resources with a number of units; in dependency mode, work that would overload a resource is delayed until it is free, in the schedule and in every simulation trial. A histogram shows each resource's load.",
+          "Per-activity calendars. Named calendars — a vendor who works weekends, a crew on a four-day week — can be assigned to individual activities, whose dates then follow their own working days.",
+          "Summary activities. Activities can be grouped under a work breakdown structure whose summaries roll up their dates, and the simulation reports each summary's finish percentiles.",
+          "A status date. Work in progress is forecast from its remaining duration as of the status date, and nothing unfinished is scheduled before it.",
+          "Baselines. Capture the plan, then see the variance of the current schedule and forecast against it, activity by activity.",
+        ],
+      },
+      {
+        title: "Added — simulation",
+        items: [
+          "Criticality index: the share of trials in which each activity was on the critical path.",
+          "Schedule Sensitivity Index and a tornado chart, from the simulated durations, so the activities driving the finish's uncertainty are ranked by measurement rather than by their ranges.",
+          "Correlated durations. Activities that share a cause can be grouped with a correlation coefficient, so they run late together rather than independently.",
+          "A risk register. Discrete risk events with a probability and an impact on one or more activities fire in the trials they occur in; the run reports each risk's contribution to the P80 and P95.",
+          "Probabilistic branching. Exclusive branches choose one of several paths per trial, and conditional activities run in only a share of trials.",
+          "PERT-Beta, Weibull and empirical distributions, the last drawn from an activity's recorded historical durations.",
+          "Merge bias. Where several paths converge, the run shows how much later the merge point starts than any single path suggests, and which path drives it.",
+          "Start and finish percentiles for every activity, shown as optional columns in the activity grid.",
+          "Run until converged. Instead of a fixed trial count, a run can continue until the project-target percentile is pinned to a chosen precision.",
+          "Parallel runs. Large runs are split across several workers. A run is reproducible for its seed and worker count, which it records.",
+          "Latin Hypercube sampling, which reaches a given precision in fewer trials than random sampling.",
+          "Cost. Activities can carry a fixed cost and a daily rate; the run reports the project cost's percentiles and the joint confidence of meeting a budget and a date together.",
+        ],
+      },
+      {
+        title: "Added — planning tools",
+        items: [
+          "Goal-seek. For a target finish at a chosen confidence, the Finish Target card shows the start date that would meet it, or the scope to cut. The re-runs happen in the simulation worker, with progress and a Cancel button.",
+          "Forecast history. Each run with changed inputs or a moved forecast is kept in a compact history, charted as the trend of the forecast finish over time.",
+          "Critical Chain mode. The schedule uses aggressive P50 estimates, and the run sizes a project buffer and feeding buffers. The buffers are advisory: they are reported, not inserted into the schedule's dates. Once the plan is set, the fever chart tracks buffer use against chain completion at each status date you record.",
+          "Compression advisor. Ranks ways to shorten the project — crashing an activity or fast-tracking a link — by the finish each one buys, measured by re-running the simulation in the worker. A chosen option is applied to a new scenario.",
+          "Estimate calibration. Completed activities' actuals are compared with their estimates; when they show a bias, the app recommends a multiplier or confidence level for the remaining planned work. An applied multiplier is recorded on the scenario, so it is not offered twice for the same actuals.",
+        ],
+      },
+      {
+        title: "Internal",
+        items: [
+          "The copy of the Firestore security rules in this repository allows three new fields: resources and calendars on projects, and gridShowDatePercentiles in the settings. The same lines have to land in the canonical rules in the landing-page repository and deploy before this release, or every cloud save that carries one of these fields is rejected. project-firestore-sync.test.ts now fails when the project schema gains a key the project allowlist lacks.",
+        ],
+      },
+    ],
+  },
   {
     version: "0.64.7",
     date: "2026-08-21",
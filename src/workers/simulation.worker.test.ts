@@ -20,6 +20,11 @@ import { describe, it, expect, beforeEach, vi } from "vitest";
 import type { Activity, ActivityDependency } from "@domain/models/types";
 import type { SimulationRequest, WorkerOutgoingMessage } from "@core/simulation/worker-protocol";
 import { buildDependencyGraph } from "@core/schedule/dependency-graph";
+import { buildElapsedLagCalendar, type ElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import { buildActivityCalendarAxis, type ActivityCalendarAxis } from "@core/schedule/activity-calendars";
+import { buildNamedWorkCalendar } from "@core/calendar/work-calendar";
+import { GOAL_SEEK_TRIALS, planCompression } from "@core/simulation/goal-seek";
+import { adviseCompression } from "@core/simulation/compression-advisor";
 
 let posted: WorkerOutgoingMessage[] = [];
 let handler: (event: { data: unknown }) => void;
@@ -278,6 +283,66 @@ describe("simulation.worker — message seam", () => {
       expect(results()).toHaveLength(1);
     });
 
+    it("returns summary results next to milestone results, and only when sent", () => {
+      start({
+        activities: twoActivities,
+        dependencies: [fsDep("a", "b")],
+        dependencyMode: true,
+        milestoneActivityIds: { m1: ["a"] },
+        summaryActivityIds: { w1: ["a", "b"] },
+      });
+      const payload = results()[0]!.payload;
+      expect(Object.keys(payload.milestoneResults!)).toEqual(["m1"]);
+      expect(Object.keys(payload.summaryResults!)).toEqual(["w1"]);
+      expect(payload.summaryResults!.w1!.percentiles[50]).toBe(payload.percentiles[50]);
+
+      posted = [];
+      start({ activities: twoActivities, dependencies: [fsDep("a", "b")], dependencyMode: true });
+      expect(results()[0]!.payload.summaryResults).toBeUndefined();
+    });
+
+    it("posts a shard's raw trials instead of a run when asked for a shard", () => {
+      start({
+        activities: twoActivities,
+        dependencies: [fsDep("a", "b")],
+        dependencyMode: true,
+        milestoneActivityIds: { m1: ["a"] },
+        shard: true,
+      });
+      expect(results()).toHaveLength(0);
+      const shards = posted.filter((m) => m.type === "simulation:shard-result");
+      expect(shards).toHaveLength(1);
+      const payload = shards[0]!.payload;
+      expect(payload.trialCount).toBe(1000);
+      expect(payload.samples).toHaveLength(1000);
+      expect(payload.milestoneSamples!.m1).toHaveLength(1000);
+    });
+
+    it("attaches the cost result in either mode, and posts a shard's per-trial costs", () => {
+      const costed = [spread("a"), act("b", 4, { cost: { fixed: 1000, dailyRate: 50 } })];
+      start({ activities: costed });
+      const sequential = results()[0]!.payload.costResults!;
+      expect(sequential.percentiles[50]).toBeGreaterThan(1000);
+
+      posted = [];
+      start({ activities: costed, dependencies: [fsDep("a", "b")], dependencyMode: true, shard: true });
+      const shard = posted.find((m) => m.type === "simulation:shard-result")!.payload;
+      expect(shard.costSamples).toHaveLength(1000);
+      expect(new Set(shard.costSamples)).toEqual(new Set([1200]));
+    });
+
+    it("records Latin Hypercube sampling on the run and drops an unknown method", () => {
+      start({ activities: [spread("a")], samplingMethod: "latinHypercube" });
+      const stratified = results()[0]!.payload;
+      expect(stratified.samplingMethod).toBe("latinHypercube");
+
+      posted = [];
+      start({ activities: [spread("a")], samplingMethod: "sobol" as never });
+      const plain = results()[0]!.payload;
+      expect(plain.samplingMethod).toBeUndefined();
+      expect(plain.percentiles).not.toEqual(stratified.percentiles);
+    });
+
     it("drops a constraint outside the vocabulary, matching the sync fallback", () => {
       // This is the seam where the two simulation paths once disagreed: the service
       // fallback lacked this filter and silently kept invalid constraints.
@@ -294,6 +359,72 @@ describe("simulation.worker — message seam", () => {
       expect(JSON.stringify(results()[0]!.payload.percentiles)).toBe(dropped);
     });
 
+    it("uses a valid elapsed-lag calendar and drops a malformed one", () => {
+      const deps: ActivityDependency[] = [{ ...fsDep("a", "b", 2), lagUnit: "elapsed" }];
+      const fixed = [act("a", 5), act("b", 3)];
+      start({
+        activities: fixed,
+        dependencies: deps,
+        dependencyMode: true,
+        elapsedLagCalendar: buildElapsedLagCalendar("2025-01-06"),
+      });
+      // Mon start: a ends Fri, the weekend covers the lag → 5 + 3
+      expect(results()[0]!.payload.percentiles[50]).toBe(8);
+
+      posted = [];
+      start({
+        activities: fixed,
+        dependencies: deps,
+        dependencyMode: true,
+        elapsedLagCalendar: { workingDayOffsets: "bad", zeroIndex: 0 } as unknown as ElapsedLagCalendar,
+      });
+      expect(errors()).toHaveLength(0);
+      expect(results()[0]!.payload.percentiles[50]).toBe(10);
+    });
+
+    it("levels with a valid resource model and drops a malformed one", () => {
+      // Two independent 4-day activities for the same single-unit resource.
+      const fixed = [act("a", 4), act("b", 4)];
+      const resourceLeveling = {
+        demands: { a: [{ resourceId: "r1", units: 1 }], b: [{ resourceId: "r1", units: 1 }] },
+        capacities: { r1: 1 },
+        placementOrder: ["a", "b"],
+      };
+      start({ activities: fixed, dependencies: [], dependencyMode: true, resourceLeveling });
+      expect(results()[0]!.payload.percentiles[50]).toBe(8);
+
+      posted = [];
+      start({
+        activities: fixed,
+        dependencies: [],
+        dependencyMode: true,
+        resourceLeveling: { ...resourceLeveling, capacities: { r1: "one" as unknown as number } },
+      });
+      expect(errors()).toHaveLength(0);
+      expect(results()[0]!.payload.percentiles[50]).toBe(4);
+    });
+
+    it("runs on a valid calendar axis and drops a malformed one", () => {
+      // a (4d) → v (3d) on a 7-day vendor calendar; Mon start: v runs Fri–Sun.
+      const fixed = [act("a", 4), act("v", 3, { calendarId: "vendor" })];
+      const deps: ActivityDependency[] = [{ fromActivityId: "a", toActivityId: "v", type: "FS", lagDays: 0 }];
+      const vendor = buildNamedWorkCalendar({ id: "vendor", name: "Vendor", workDays: [0, 1, 2, 3, 4, 5, 6], holidays: [] });
+      const activityCalendarAxis = buildActivityCalendarAxis("2026-01-05", undefined, new Map([["v", vendor]]));
+      start({ activities: fixed, dependencies: deps, dependencyMode: true, activityCalendarAxis });
+      // Finishing on Sunday counts as the next project day.
+      expect(results()[0]!.payload.percentiles[50]).toBe(6);
+
+      posted = [];
+      start({
+        activities: fixed,
+        dependencies: deps,
+        dependencyMode: true,
+        activityCalendarAxis: { ...activityCalendarAxis, activityTracks: { v: 9 } } as ActivityCalendarAxis,
+      });
+      expect(errors()).toHaveLength(0);
+      expect(results()[0]!.payload.percentiles[50]).toBe(7);
+    });
+
     /**
      * ⚠️ RECORDED, NOT SPECIFIED — held to keep §3.5's decomposition honest.
      *
@@ -365,6 +496,94 @@ describe("simulation.worker — message seam", () => {
     });
   });
 
+  describe("until converged", () => {
+    it("stops below the ceiling once the target percentile is precise enough", () => {
+      start({
+        activities: [spread("a"), spread("b")],
+        trialCount: 100000,
+        convergence: { percentile: 95, toleranceDays: 1 },
+      });
+      const r = results()[0]!.payload;
+      expect(r.trialCount).toBeLessThan(100000);
+      expect(r.convergence).toMatchObject({ percentile: 95, toleranceDays: 1, converged: true });
+      expect(r.convergence!.achievedHalfWidthDays).toBeLessThanOrEqual(1);
+    });
+
+    it("runs the payload's trial count when the target is malformed", () => {
+      start({
+        activities: [spread("a")],
+        trialCount: 2000,
+        convergence: { percentile: 95, toleranceDays: -1 },
+      });
+      const r = results()[0]!.payload;
+      expect(r.trialCount).toBe(2000);
+      expect(r.convergence).toBeUndefined();
+    });
+  });
+
+  describe("compression plan and advice", () => {
+    const plan = (payload: Record<string, unknown>) =>
+      handler({ data: { type: "simulation:plan-compression", payload } });
+    const run = {
+      activities: [spread("a"), spread("b")],
+      trialCount: 2000,
+      rngSeed: "plan-seed",
+      dependencyMode: true,
+      dependencies: [fsDep("a", "b")],
+    };
+
+    it("posts the plan after a progress message per re-run, matching the direct call", () => {
+      plan({ run, confidence: 80, targetDays: 10 });
+      const answer = posted.filter((m) => m.type === "simulation:compression-plan");
+      expect(errors()).toHaveLength(0);
+      expect(answer).toHaveLength(1);
+      const expected = planCompression(
+        { activities: run.activities, dependencies: run.dependencies, trialCount: 2000, rngSeed: "plan-seed" },
+        80,
+        10,
+      );
+      expect(answer[0]!.payload).toEqual(expected);
+      // One message per re-run, counted in trials.
+      const completed = progress().map((m) => m.payload.completedTrials);
+      expect(completed.length).toBeGreaterThan(1);
+      expect(completed).toEqual(completed.map((_, i) => (i + 1) * GOAL_SEEK_TRIALS));
+    });
+
+    it("rejects a run the start handler would reject, or one outside dependency mode", () => {
+      plan({ run: { ...run, trialCount: 10 }, confidence: 80, targetDays: 10 });
+      plan({ run: { ...run, dependencyMode: false }, confidence: 80, targetDays: 10 });
+      plan({ run, confidence: "80", targetDays: 10 });
+      expect(errors().map((m) => m.payload.message)).toEqual([
+        "Invalid simulation payload: trialCount must be between 1000 and 100000",
+        "Invalid compression payload: the run must be in dependency mode",
+        "Invalid compression payload: confidence and targetDays must be numbers",
+      ]);
+      expect(posted.filter((m) => m.type === "simulation:compression-plan")).toHaveLength(0);
+    });
+
+    it("posts the compression advice for the critical ids it was sent", () => {
+      handler({ data: { type: "simulation:advise-compression", payload: { run, criticalIds: ["a", "b"] } } });
+      const answer = posted.filter((m) => m.type === "simulation:compression-advice");
+      expect(errors()).toHaveLength(0);
+      expect(answer).toHaveLength(1);
+      expect(answer[0]!.payload).toEqual(
+        adviseCompression(
+          { activities: run.activities, dependencies: run.dependencies, trialCount: 2000, rngSeed: "plan-seed" },
+          new Set(["a", "b"]),
+        ),
+      );
+      const updates = progress();
+      expect(updates[updates.length - 1]!.payload).toEqual({ completedTrials: 4 * GOAL_SEEK_TRIALS, totalTrials: 4 * GOAL_SEEK_TRIALS });
+    });
+
+    it("rejects advice without its critical ids", () => {
+      handler({ data: { type: "simulation:advise-compression", payload: { run } } });
+      expect(errors().map((m) => m.payload.message)).toEqual([
+        "Invalid compression payload: criticalIds must be an array",
+      ]);
+    });
+  });
+
   it("reports progress during a long run", () => {
     // The progress interval is 10 000 trials, so a run at the ceiling must emit some.
     start({ activities: [act("a", 3)], trialCount: 30000 });
@@ -3,20 +3,54 @@
 // See LICENSE file in the project root for full license text.
 
 import type {
+  CompressionAdviceRequest,
+  CompressionAdviceResult,
+  CompressionPlanRequest,
+  CompressionPlanResult,
   SimulationRequest,
   SimulationProgress,
   SimulationResult,
+  SimulationShardResult,
   SimulationError,
+  WorkerIncomingMessage,
 } from "@core/simulation/worker-protocol";
 import type {
   ActivityDependency,
+  BranchPath,
   ConstraintMode,
   ConstraintType,
+  CorrelationGroup,
+  ExclusiveBranch,
+  RiskEvent,
+  SamplingMethod,
   SimulationRun,
 } from "@domain/models/types";
-import { CONSTRAINT_MODES, CONSTRAINT_TYPES } from "@domain/models/types";
-import { runTrials, runDependencyTrials, computeSimulationStats, computeMilestoneStats } from "@core/simulation/monte-carlo";
+import {
+  CONSTRAINT_MODES,
+  CONSTRAINT_TYPES,
+  CORRELATION_COEFFICIENT_MAX,
+  RISK_PROBABILITY_MAX,
+  SAMPLING_METHODS,
+} from "@domain/models/types";
+import {
+  runTrials,
+  runDependencyTrials,
+  computeSimulationStats,
+  computeMilestoneStats,
+  type DependencyMonteCarloInput,
+} from "@core/simulation/monte-carlo";
+import { planCompression, type CompressionPlan } from "@core/simulation/goal-seek";
+import { adviseCompression, type CompressionAdvice } from "@core/simulation/compression-advisor";
+import { computeCostResult } from "@core/simulation/cost";
+import {
+  runUntilConverged,
+  type ConvergenceProgress,
+  type ConvergenceTarget,
+} from "@core/simulation/convergence";
 import { toMcConstraintMap } from "@core/schedule/constraint-utils";
+import type { ElapsedLagCalendar } from "@core/schedule/elapsed-lag";
+import type { ResourceDemand, ResourceLevelingModel } from "@core/schedule/resource-leveling";
+import type { ActivityCalendarAxis, CalendarTrackSample } from "@core/schedule/activity-calendars";
 
 const PROGRESS_INTERVAL = 10000;
 
@@ -35,8 +69,26 @@ type StartPayload = SimulationRequest["payload"];
 interface TrialOutcome {
   samples: Float64Array;
   exhaustedIds: string[];
-  /** Set only by the dependency branch, and only when the run carried milestones. */
-  milestoneResults?: NonNullable<SimulationRun["milestoneResults"]>;
+  /**
+   * Set only by the dependency branch, and only when the run carried milestones: the raw
+   * per-trial finishes, reduced to statistics in `toSimulationRun` or posted as they are
+   * by a shard.
+   */
+  milestoneSamples?: Map<string, Float64Array>;
+  /** Likewise, when the run carried WBS summaries. */
+  summarySamples?: Map<string, Float64Array>;
+  /** Dependency branch only: share of trials each activity was critical in. */
+  criticalityIndex?: SimulationRun["criticalityIndex"];
+  /** Either branch, unless every activity is complete. */
+  activitySensitivity?: SimulationRun["activitySensitivity"];
+  /** Either branch, when the scenario has a risk register. */
+  riskResults?: SimulationRun["riskResults"];
+  /** Dependency branch only, when the network has a merge point. */
+  mergePoints?: SimulationRun["mergePoints"];
+  /** Either branch, unless every activity is complete. */
+  activityDates?: SimulationRun["activityDates"];
+  /** Either branch, when an activity has a cost: project cost per trial, in trial order. */
+  costSamples?: Float64Array;
 }
 
 function postProgress(completedTrials: number, totalTrials: number) {
@@ -47,6 +99,37 @@ function postProgress(completedTrials: number, totalTrials: number) {
   self.postMessage(msg);
 }
 
+/**
+ * A shard's raw trials for the coordinator (simulation-shards.ts). The sample arrays are
+ * transferred, not copied — the worker is done with them.
+ */
+function postShardResult(outcome: TrialOutcome, trialCount: number, elapsedMs: number) {
+  const msg: SimulationShardResult = {
+    type: "simulation:shard-result",
+    payload: {
+      trialCount,
+      samples: outcome.samples,
+      exhaustedIds: outcome.exhaustedIds,
+      costSamples: outcome.costSamples,
+      milestoneSamples: outcome.milestoneSamples && Object.fromEntries(outcome.milestoneSamples),
+      summarySamples: outcome.summarySamples && Object.fromEntries(outcome.summarySamples),
+      criticalityIndex: outcome.criticalityIndex,
+      activitySensitivity: outcome.activitySensitivity,
+      riskResults: outcome.riskResults,
+      mergePoints: outcome.mergePoints,
+      activityDates: outcome.activityDates,
+      elapsedMs,
+    },
+  };
+  const series = [
+    outcome.samples,
+    ...(outcome.costSamples ? [outcome.costSamples] : []),
+    ...(outcome.milestoneSamples?.values() ?? []),
+    ...(outcome.summarySamples?.values() ?? []),
+  ];
+  self.postMessage(msg, { transfer: [...new Set(series.map((values) => values.buffer))] });
+}
+
 function postResult(result: SimulationRun, elapsedMs: number) {
   const msg: SimulationResult = {
     type: "simulation:result",
@@ -55,6 +138,16 @@ function postResult(result: SimulationRun, elapsedMs: number) {
   self.postMessage(msg);
 }
 
+function postCompressionPlan(plan: CompressionPlan) {
+  const msg: CompressionPlanResult = { type: "simulation:compression-plan", payload: plan };
+  self.postMessage(msg);
+}
+
+function postCompressionAdvice(advice: CompressionAdvice) {
+  const msg: CompressionAdviceResult = { type: "simulation:compression-advice", payload: advice };
+  self.postMessage(msg);
+}
+
 function postError(message: string) {
   const msg: SimulationError = {
     type: "simulation:error",
@@ -106,31 +199,218 @@ function toValidatedMap<T>(
     : undefined;
 }
 
-/** Dependency-aware simulation: critical path per trial. */
-function runDependencyBranch(
+/**
+ * Same runtime check for the elapsed-lag calendar sample. A malformed one is dropped, which
+ * schedules elapsed lags as working-day lags rather than failing the run.
+ */
+function isElapsedLagCalendar(value: unknown): value is ElapsedLagCalendar {
+  if (!value || typeof value !== "object") return false;
+  const spec = value as Partial<ElapsedLagCalendar>;
+  return (
+    Array.isArray(spec.workingDayOffsets) &&
+    spec.workingDayOffsets.every(isNumber) &&
+    typeof spec.zeroIndex === "number"
+  );
+}
+
+const isDemand = (value: unknown): boolean =>
+  !!value &&
+  typeof (value as ResourceDemand).resourceId === "string" &&
+  typeof (value as ResourceDemand).units === "number";
+
+/**
+ * Same runtime check for the resource leveling model. A malformed one is dropped, which
+ * runs the simulation unleveled rather than failing it.
+ */
+function isResourceLevelingModel(value: unknown): value is ResourceLevelingModel {
+  if (!value || typeof value !== "object") return false;
+  const model = value as Partial<ResourceLevelingModel>;
+  return (
+    Array.isArray(model.placementOrder) &&
+    model.placementOrder.every((id) => typeof id === "string") &&
+    !!model.capacities &&
+    typeof model.capacities === "object" &&
+    Object.values(model.capacities).every(isNumber) &&
+    !!model.demands &&
+    typeof model.demands === "object" &&
+    Object.values(model.demands).every((list) => Array.isArray(list) && list.every(isDemand))
+  );
+}
+
+const isWeekDays = (value: unknown): boolean =>
+  Array.isArray(value) && value.length === 2 && value.every(isNumber);
+
+const isTrackSample = (value: unknown): boolean =>
+  !!value &&
+  Array.isArray((value as CalendarTrackSample).days) &&
+  (value as CalendarTrackSample).days.every(isNumber) &&
+  typeof (value as CalendarTrackSample).zeroIndex === "number" &&
+  isWeekDays((value as CalendarTrackSample).weekDays);
+
+/**
+ * Same runtime check for the per-activity calendar axis. A malformed one is dropped, which
+ * runs every activity on the project calendar rather than failing the run.
+ */
+function isActivityCalendarAxis(value: unknown): value is ActivityCalendarAxis {
+  if (!value || typeof value !== "object") return false;
+  const axis = value as Partial<ActivityCalendarAxis>;
+  return (
+    isWeekDays(axis.axisWeekDays) &&
+    Array.isArray(axis.tracks) &&
+    axis.tracks.length > 0 &&
+    axis.tracks.every(isTrackSample) &&
+    !!axis.activityTracks &&
+    typeof axis.activityTracks === "object" &&
+    Object.values(axis.activityTracks).every(
+      (track) => typeof track === "number" && track >= 0 && track < axis.tracks!.length,
+    )
+  );
+}
+
+const isCorrelationGroup = (value: unknown): value is CorrelationGroup =>
+  !!value &&
+  Array.isArray((value as CorrelationGroup).activityIds) &&
+  (value as CorrelationGroup).activityIds.every((id) => typeof id === "string") &&
+  typeof (value as CorrelationGroup).coefficient === "number" &&
+  (value as CorrelationGroup).coefficient >= 0 &&
+  (value as CorrelationGroup).coefficient <= CORRELATION_COEFFICIENT_MAX;
+
+/**
+ * Same runtime check for the correlation groups. A malformed group is dropped, which
+ * samples its activities independently rather than failing the run.
+ */
+function toValidatedCorrelationGroups(groups: unknown): CorrelationGroup[] | undefined {
+  return Array.isArray(groups) ? groups.filter(isCorrelationGroup) : undefined;
+}
+
+const isRiskEvent = (value: unknown): value is RiskEvent => {
+  if (!value) return false;
+  const risk = value as RiskEvent;
+  return (
+    typeof risk.id === "string" &&
+    Array.isArray(risk.activityIds) &&
+    risk.activityIds.every((id) => typeof id === "string") &&
+    typeof risk.probability === "number" &&
+    risk.probability >= 0 &&
+    risk.probability <= RISK_PROBABILITY_MAX &&
+    typeof risk.impactMin === "number" &&
+    typeof risk.impactMostLikely === "number" &&
+    typeof risk.impactMax === "number" &&
+    risk.impactMin >= 0 &&
+    risk.impactMin <= risk.impactMostLikely &&
+    risk.impactMostLikely <= risk.impactMax
+  );
+};
+
+/**
+ * Same runtime check for the risk register. A malformed risk is dropped, which runs the
+ * simulation without it rather than failing the run.
+ */
+function toValidatedRisks(risks: unknown): RiskEvent[] | undefined {
+  return Array.isArray(risks) ? risks.filter(isRiskEvent) : undefined;
+}
+
+const isBranchPath = (value: unknown): value is BranchPath =>
+  !!value &&
+  typeof (value as BranchPath).probability === "number" &&
+  (value as BranchPath).probability >= 0 &&
+  Array.isArray((value as BranchPath).activityIds) &&
+  (value as BranchPath).activityIds.every((id) => typeof id === "string");
+
+/**
+ * Same runtime check for the exclusive branches. A malformed branch is dropped, which
+ * runs every activity on its paths rather than failing the run.
+ */
+function toValidatedBranches(branches: unknown): ExclusiveBranch[] | undefined {
+  if (!Array.isArray(branches)) return undefined;
+  return branches.filter(
+    (b): b is ExclusiveBranch => !!b && Array.isArray(b.paths) && b.paths.every(isBranchPath),
+  );
+}
+
+/**
+ * Same runtime check for the convergence target. A malformed one is dropped, which runs
+ * the payload's trialCount rather than failing the run.
+ */
+function toValidatedConvergence(value: unknown): ConvergenceTarget | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const target = value as Partial<ConvergenceTarget>;
+  const valid =
+    typeof target.percentile === "number" &&
+    target.percentile >= 1 &&
+    target.percentile <= 99 &&
+    typeof target.toleranceDays === "number" &&
+    target.toleranceDays > 0;
+  return valid ? (target as ConvergenceTarget) : undefined;
+}
+
+/**
+ * Same runtime check for the sampling method. An unknown one is dropped, which samples
+ * plain random rather than failing the run.
+ */
+function toValidatedSamplingMethod(value: unknown): SamplingMethod | undefined {
+  return typeof value === "string" && isOneOf(SAMPLING_METHODS, value) ? value : undefined;
+}
+
+/**
+ * The engine input for a dependency-mode payload, every Record-shaped map rebuilt and
+ * validated. Shared by the run and the goal-seek re-runs.
+ */
+function toDependencyInput(
   payload: StartPayload,
   dependencies: ActivityDependency[],
-): TrialOutcome {
-  const depResult = runDependencyTrials({
+  trialCount: number,
+  onProgress: ConvergenceProgress | undefined,
+): DependencyMonteCarloInput {
+  return {
     activities: payload.activities,
     dependencies,
-    trialCount: payload.trialCount,
+    trialCount,
     rngSeed: payload.rngSeed,
     deterministicDurationMap: toValidatedMap(payload.deterministicDurationMap, isNumber),
     milestoneActivityIds: toValidatedMap(payload.milestoneActivityIds, isStringArray),
+    summaryActivityIds: toValidatedMap(payload.summaryActivityIds, isStringArray),
     activityEarliestStart: toValidatedMap(payload.activityEarliestStart, isNumber),
     // Shared with the synchronous service path — see toMcConstraintMap.
     constraintMap: toMcConstraintMap(payload.constraintMap),
-    onProgress: postProgress,
+    elapsedLagCalendar: isElapsedLagCalendar(payload.elapsedLagCalendar)
+      ? payload.elapsedLagCalendar
+      : undefined,
+    resourceLeveling: isResourceLevelingModel(payload.resourceLeveling)
+      ? payload.resourceLeveling
+      : undefined,
+    activityCalendarAxis: isActivityCalendarAxis(payload.activityCalendarAxis)
+      ? payload.activityCalendarAxis
+      : undefined,
+    correlationGroups: toValidatedCorrelationGroups(payload.correlationGroups),
+    risks: toValidatedRisks(payload.risks),
+    branches: toValidatedBranches(payload.branches),
+    samplingMethod: toValidatedSamplingMethod(payload.samplingMethod),
+    onProgress,
     progressInterval: PROGRESS_INTERVAL,
-  });
+  };
+}
+
+/** Dependency-aware simulation: critical path per trial. */
+function runDependencyBranch(
+  payload: StartPayload,
+  dependencies: ActivityDependency[],
+  trialCount: number,
+  onProgress: ConvergenceProgress,
+): TrialOutcome {
+  const depResult = runDependencyTrials(toDependencyInput(payload, dependencies, trialCount, onProgress));
 
   return {
     samples: depResult.samples,
     exhaustedIds: depResult.exhaustedIds,
-    milestoneResults: depResult.milestoneSamples
-      ? computeMilestoneStats(depResult.milestoneSamples, payload.trialCount)
-      : undefined,
+    milestoneSamples: depResult.milestoneSamples,
+    summarySamples: depResult.summarySamples,
+    criticalityIndex: depResult.criticalityIndex,
+    activitySensitivity: depResult.activitySensitivity,
+    riskResults: depResult.riskResults,
+    mergePoints: depResult.mergePoints,
+    activityDates: depResult.activityDates,
+    costSamples: depResult.costSamples,
   };
 }
 
@@ -183,30 +463,117 @@ function isValidSeqConstraint(c: SeqConstraintEntry): c is ValidatedSeqConstrain
 }
 
 /** Sequential simulation, with optional constraint support. */
-function runSequentialBranch(payload: StartPayload): TrialOutcome {
+function runSequentialBranch(
+  payload: StartPayload,
+  trialCount: number,
+  onProgress: ConvergenceProgress,
+): TrialOutcome {
   const seqConstraints = payload.sequentialConstraints?.map((c) =>
     isValidSeqConstraint(c) ? c : null,
   );
 
   const trials = runTrials({
     activities: payload.activities,
-    trialCount: payload.trialCount,
+    trialCount,
     rngSeed: payload.rngSeed,
     deterministicDurations: payload.deterministicDurations,
     sequentialConstraints: seqConstraints,
-    onProgress: postProgress,
+    correlationGroups: toValidatedCorrelationGroups(payload.correlationGroups),
+    risks: toValidatedRisks(payload.risks),
+    branches: toValidatedBranches(payload.branches),
+    samplingMethod: toValidatedSamplingMethod(payload.samplingMethod),
+    onProgress,
     progressInterval: PROGRESS_INTERVAL,
   });
 
-  return { samples: trials.samples, exhaustedIds: trials.exhaustedIds };
+  return {
+    samples: trials.samples,
+    exhaustedIds: trials.exhaustedIds,
+    activitySensitivity: trials.activitySensitivity,
+    riskResults: trials.riskResults,
+    activityDates: trials.activityDates,
+    costSamples: trials.costSamples,
+  };
 }
 
-self.onmessage = (event: MessageEvent<SimulationRequest>) => {
-  const { type, payload } = event.data;
-  // ⚠️ Any other message type is SILENTLY IGNORED — no error, no ack. Recorded, not
-  // specified; pinned by the oracle's `unknown-message-type/silently-ignored` fixture.
-  if (type !== "simulation:start") return;
+/** One engine run of `trialCount` trials, in whichever mode the payload asks for. */
+function runBatch(
+  payload: StartPayload,
+  trialCount: number,
+  onProgress: ConvergenceProgress = postProgress,
+): TrialOutcome {
+  return payload.dependencyMode && payload.dependencies
+    ? runDependencyBranch(payload, payload.dependencies, trialCount, onProgress)
+    : runSequentialBranch(payload, trialCount, onProgress);
+}
 
+/**
+ * The payload's run: its trialCount, or — "until converged" — batches up to that count
+ * until the target percentile is precise enough (convergence.ts).
+ */
+function runPayload(payload: StartPayload): {
+  outcome: TrialOutcome;
+  trialCount: number;
+  convergence?: SimulationRun["convergence"];
+} {
+  const target = toValidatedConvergence(payload.convergence);
+  if (!target) return { outcome: runBatch(payload, payload.trialCount), trialCount: payload.trialCount };
+  return runUntilConverged(
+    (n, onProgress) => runBatch(payload, n, onProgress),
+    target,
+    payload.trialCount,
+    payload.rngSeed,
+    postProgress,
+  );
+}
+
+/**
+ * The dependency-mode engine input for a goal-seek request's run, or null once the error
+ * is posted. The re-runs are dependency-mode only, so a run without its dependencies is
+ * an error rather than a sequential fallback.
+ */
+function toCompressionInput(run: StartPayload): DependencyMonteCarloInput | null {
+  const invalid = validateStartPayload(run);
+  if (invalid !== null) {
+    postError(invalid);
+    return null;
+  }
+  if (!run.dependencyMode || !run.dependencies) {
+    postError("Invalid compression payload: the run must be in dependency mode");
+    return null;
+  }
+  return toDependencyInput(run, run.dependencies, run.trialCount, undefined);
+}
+
+/** A goal-seek compression plan (goal-seek.ts). */
+function handlePlanCompression(payload: CompressionPlanRequest["payload"]) {
+  if (typeof payload?.confidence !== "number" || typeof payload.targetDays !== "number") {
+    postError("Invalid compression payload: confidence and targetDays must be numbers");
+    return;
+  }
+  try {
+    const input = toCompressionInput(payload.run);
+    if (input) postCompressionPlan(planCompression(input, payload.confidence, payload.targetDays, postProgress));
+  } catch (err) {
+    postError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/** The compression advisor's ranking (compression-advisor.ts). */
+function handleAdviseCompression(payload: CompressionAdviceRequest["payload"]) {
+  if (!Array.isArray(payload?.criticalIds)) {
+    postError("Invalid compression payload: criticalIds must be an array");
+    return;
+  }
+  try {
+    const input = toCompressionInput(payload.run);
+    if (input) postCompressionAdvice(adviseCompression(input, new Set(payload.criticalIds), postProgress));
+  } catch (err) {
+    postError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+function handleStart(payload: StartPayload) {
   const invalid = validateStartPayload(payload);
   if (invalid !== null) {
     postError(invalid);
@@ -216,27 +583,80 @@ self.onmessage = (event: MessageEvent<SimulationRequest>) => {
   try {
     const startTime = performance.now();
 
-    // ⚠️ Both engine calls must stay INSIDE the try. A throw escaping this handler surfaces
+    // ⚠️ The engine runs (every batch of them) must stay INSIDE the try. A throw escaping this handler surfaces
     // as an unhandled rejection inside a Worker, where nothing can report it and the UI
     // hangs forever — which is what the catch below exists to prevent.
-    const outcome =
-      payload.dependencyMode && payload.dependencies
-        ? runDependencyBranch(payload, payload.dependencies)
-        : runSequentialBranch(payload);
-
-    const result = computeSimulationStats(
-      outcome.samples,
-      payload.trialCount,
-      payload.rngSeed,
-      outcome.exhaustedIds
-    );
+    const { outcome, trialCount, convergence } = runPayload(payload);
 
-    if (outcome.milestoneResults) {
-      result.milestoneResults = outcome.milestoneResults;
+    if (payload.shard === true) {
+      postShardResult(outcome, trialCount, performance.now() - startTime);
+      return;
     }
-
-    postResult(result, performance.now() - startTime);
+    const samplingMethod = toValidatedSamplingMethod(payload.samplingMethod);
+    postResult(
+      toSimulationRun(outcome, trialCount, payload.rngSeed, convergence, samplingMethod),
+      performance.now() - startTime,
+    );
   } catch (err) {
     postError(err instanceof Error ? err.message : String(err));
   }
+}
+
+self.onmessage = (event: MessageEvent<WorkerIncomingMessage>) => {
+  const message = event.data;
+  // ⚠️ Any other message type is SILENTLY IGNORED — no error, no ack. Recorded, not
+  // specified; pinned by the oracle's `unknown-message-type/silently-ignored` fixture.
+  if (message.type === "simulation:start") handleStart(message.payload);
+  else if (message.type === "simulation:plan-compression") handlePlanCompression(message.payload);
+  else if (message.type === "simulation:advise-compression") handleAdviseCompression(message.payload);
 };
+
+/** The run's statistics from its trials, every extra the engine recorded attached. */
+function toSimulationRun(
+  outcome: TrialOutcome,
+  trialCount: number,
+  rngSeed: string,
+  convergence: SimulationRun["convergence"],
+  samplingMethod: SamplingMethod | undefined,
+): SimulationRun {
+  // Before computeSimulationStats sorts the samples: the joint confidence pairs trials.
+  const costResults = outcome.costSamples && computeCostResult(outcome.samples, outcome.costSamples);
+  const result = computeSimulationStats(
+    outcome.samples,
+    trialCount,
+    rngSeed,
+    outcome.exhaustedIds
+  );
+
+  if (outcome.milestoneSamples) {
+    result.milestoneResults = computeMilestoneStats(outcome.milestoneSamples, trialCount);
+  }
+  if (outcome.summarySamples) {
+    result.summaryResults = computeMilestoneStats(outcome.summarySamples, trialCount);
+  }
+  if (outcome.criticalityIndex) {
+    result.criticalityIndex = outcome.criticalityIndex;
+  }
+  if (outcome.activitySensitivity) {
+    result.activitySensitivity = outcome.activitySensitivity;
+  }
+  if (outcome.riskResults) {
+    result.riskResults = outcome.riskResults;
+  }
+  if (outcome.mergePoints) {
+    result.mergePoints = outcome.mergePoints;
+  }
+  if (outcome.activityDates) {
+    result.activityDates = outcome.activityDates;
+  }
+  if (costResults) {
+    result.costResults = costResults;
+  }
+  if (convergence) {
+    result.convergence = convergence;
+  }
+  if (samplingMethod === "latinHypercube") {
+    result.samplingMethod = samplingMethod;
+  }
+  return result;
+}